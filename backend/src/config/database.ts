@@ -76,7 +76,8 @@ const createTables = async () => {
       category VARCHAR(50) DEFAULT 'General',
       source VARCHAR(100),
       date DATE NOT NULL,
-      charity_required DECIMAL(15,2) GENERATED ALWAYS AS (amount * 0.06) STORED,
+      charity_rate DECIMAL(5,2) DEFAULT 6.00,
+      charity_required DECIMAL(15,2) DEFAULT 0.00,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -104,6 +105,8 @@ const createTables = async () => {
       amount DECIMAL(15,2) NOT NULL,
       description TEXT,
       category VARCHAR(50) NOT NULL,
+      quantity DECIMAL(15,3) NOT NULL DEFAULT 1.000,
+      unit_cost DECIMAL(15,4),
       payment_method VARCHAR(50) DEFAULT 'Cash',
       date DATE NOT NULL,
       receipt_path VARCHAR(255),
@@ -117,23 +120,40 @@ const createTables = async () => {
       id INT PRIMARY KEY AUTO_INCREMENT,
       user_id INT NOT NULL,
       purchase_id INT,
+      purchase_category VARCHAR(50),
+      quantity DECIMAL(15,3),
+      cost_method ENUM('manual', 'specific', 'fifo', 'average') DEFAULT 'manual',
       amount DECIMAL(15,2) NOT NULL,
       selling_price DECIMAL(15,2) NOT NULL,
       profit DECIMAL(15,2) GENERATED ALWAYS AS (selling_price - amount) STORED,
       profit_percentage DECIMAL(5,2) GENERATED ALWAYS AS ((selling_price - amount) / amount * 100) STORED,
       description TEXT,
+      category VARCHAR(50),
       customer_name VARCHAR(100),
       customer_contact VARCHAR(50),
       payment_method VARCHAR(50) DEFAULT 'Cash',
       date DATE NOT NULL,
       status ENUM('pending', 'completed', 'cancelled') DEFAULT 'completed',
       notes TEXT,
+      receipt_path VARCHAR(255),
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
       FOREIGN KEY (purchase_id) REFERENCES purchases(id) ON DELETE SET NULL
     )`,
 
+    // Stock consumed by each sale, one row per purchase lot it was taken from
+    `CREATE TABLE IF NOT EXISTS sale_allocations (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      sale_id INT NOT NULL,
+      purchase_id INT NOT NULL,
+      quantity DECIMAL(15,3) NOT NULL,
+      unit_cost DECIMAL(15,4) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+      FOREIGN KEY (purchase_id) REFERENCES purchases(id) ON DELETE RESTRICT
+    )`,
+
     // Charity table
     `CREATE TABLE IF NOT EXISTS charity (
       id INT PRIMARY KEY AUTO_INCREMENT,
@@ -211,6 +231,496 @@ const createTables = async () => {
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
       UNIQUE KEY unique_user_category (user_id, name, type)
+    )`,
+
+    // Charity rules (default rate and per-category overrides, versioned by effective date)
+    `CREATE TABLE IF NOT EXISTS charity_rules (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      category VARCHAR(50),
+      rate DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+      is_exempt BOOLEAN DEFAULT FALSE,
+      effective_from DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Attachments (receipts and documents stored on disk, linked to any money record)
+    `CREATE TABLE IF NOT EXISTS attachments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      record_type ENUM('income', 'expense', 'purchase', 'sale', 'loan', 'charity') NOT NULL,
+      record_id INT NOT NULL,
+      original_name VARCHAR(255) NOT NULL,
+      stored_name VARCHAR(255) NOT NULL,
+      mime_type VARCHAR(100) NOT NULL,
+      size_bytes INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Budgets (spending limit per expense or purchase category and period)
+    `CREATE TABLE IF NOT EXISTS budgets (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      category VARCHAR(50) NOT NULL,
+      category_type ENUM('expense', 'purchase') NOT NULL DEFAULT 'expense',
+      period ENUM('monthly', 'quarterly', 'yearly') NOT NULL DEFAULT 'monthly',
+      amount DECIMAL(15,2) NOT NULL,
+      rollover BOOLEAN DEFAULT FALSE,
+      start_date DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_budget (user_id, category_type, category)
+    )`,
+
+    // Loan payments (each payment split into accrued interest and principal)
+    `CREATE TABLE IF NOT EXISTS loan_payments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      loan_id INT NOT NULL,
+      user_id INT NOT NULL,
+      payment_date DATE NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      interest_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      principal_amount DECIMAL(15,2) NOT NULL,
+      balance_after DECIMAL(15,2) NOT NULL,
+      description TEXT,
+      transaction_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Recurring templates (rent, salaries, bills and loan instalments created on a schedule)
+    `CREATE TABLE IF NOT EXISTS recurring_templates (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      record_type ENUM('income', 'expense', 'loan_payment') NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      description TEXT,
+      category VARCHAR(50),
+      source VARCHAR(100),
+      payment_method VARCHAR(50),
+      account_id INT NULL,
+      loan_id INT NULL,
+      frequency ENUM('daily', 'weekly', 'monthly', 'yearly') NOT NULL DEFAULT 'monthly',
+      interval_count INT NOT NULL DEFAULT 1,
+      day_rule ENUM('same_day', 'last_day', 'last_business_day') NOT NULL DEFAULT 'same_day',
+      start_date DATE NOT NULL,
+      end_date DATE NULL,
+      max_occurrences INT NULL,
+      occurrence_count INT NOT NULL DEFAULT 0,
+      next_run_date DATE NULL,
+      status ENUM('active', 'paused', 'completed') DEFAULT 'active',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+      FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE
+    )`,
+
+    // Recurring occurrences (what happened on each scheduled date of a template)
+    `CREATE TABLE IF NOT EXISTS recurring_occurrences (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      template_id INT NOT NULL,
+      user_id INT NOT NULL,
+      scheduled_date DATE NOT NULL,
+      status ENUM('created', 'skipped', 'failed') NOT NULL,
+      record_id INT NULL,
+      error_message VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_template_date (template_id, scheduled_date)
+    )`,
+
+    // Chart of accounts for the double-entry ledger (money accounts are linked to their cash/bank account)
+    `CREATE TABLE IF NOT EXISTS ledger_accounts (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      code VARCHAR(20) NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      account_type ENUM('asset', 'liability', 'equity', 'income', 'expense') NOT NULL,
+      account_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+      UNIQUE KEY unique_user_ledger_code (user_id, code)
+    )`,
+
+    // Journal entries, one per source record (income, sale, transfer, ...) or manual balance adjustment
+    `CREATE TABLE IF NOT EXISTS journal_entries (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      entry_date DATE NOT NULL,
+      description VARCHAR(255),
+      source_type VARCHAR(30) NOT NULL,
+      source_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Journal lines (each entry's debits equal its credits)
+    `CREATE TABLE IF NOT EXISTS journal_lines (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      entry_id INT NOT NULL,
+      ledger_account_id INT NOT NULL,
+      debit DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      credit DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      FOREIGN KEY (entry_id) REFERENCES journal_entries(id) ON DELETE CASCADE,
+      FOREIGN KEY (ledger_account_id) REFERENCES ledger_accounts(id)
+    )`,
+
+    // Bulk imports from CSV/XLSX files; the records created carry the batch ID so an import can be rolled back
+    `CREATE TABLE IF NOT EXISTS import_batches (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      record_type ENUM('income', 'expense') NOT NULL,
+      file_name VARCHAR(255),
+      row_count INT NOT NULL DEFAULT 0,
+      total_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      status ENUM('completed', 'rolled_back') NOT NULL DEFAULT 'completed',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      rolled_back_at TIMESTAMP NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Saved column layouts for banks that export statements as CSV (columns are 0-based indexes)
+    `CREATE TABLE IF NOT EXISTS bank_csv_profiles (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      header_rows INT NOT NULL DEFAULT 1,
+      date_column INT NOT NULL,
+      description_column INT NULL,
+      reference_column INT NULL,
+      amount_column INT NULL,
+      debit_column INT NULL,
+      credit_column INT NULL,
+      date_format ENUM('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY') NOT NULL DEFAULT 'YYYY-MM-DD',
+      decimal_format ENUM('dot', 'comma') NOT NULL DEFAULT 'dot',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_profile_name (user_id, name)
+    )`,
+
+    // Imported bank statements for a cash/bank account
+    `CREATE TABLE IF NOT EXISTS bank_statements (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      account_id INT NOT NULL,
+      file_name VARCHAR(255),
+      format ENUM('ofx', 'qif', 'camt053', 'csv') NOT NULL,
+      start_date DATE NULL,
+      end_date DATE NULL,
+      opening_balance DECIMAL(15,2) NULL,
+      closing_balance DECIMAL(15,2) NULL,
+      line_count INT NOT NULL DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )`,
+
+    // Statement lines (signed: money in is positive) and the book record each is matched to,
+    // identified like journal entries by source type and source ID
+    `CREATE TABLE IF NOT EXISTS bank_statement_lines (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      statement_id INT NOT NULL,
+      user_id INT NOT NULL,
+      account_id INT NOT NULL,
+      date DATE NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      description VARCHAR(255),
+      reference VARCHAR(100),
+      status ENUM('unmatched', 'matched', 'ignored') NOT NULL DEFAULT 'unmatched',
+      matched_source_type VARCHAR(30) NULL,
+      matched_source_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (statement_id) REFERENCES bank_statements(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )`,
+
+    // Account reconciliations: the account agrees with the bank up to reconciled_to,
+    // with any difference between statement and book balance explained
+    `CREATE TABLE IF NOT EXISTS reconciliations (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      account_id INT NOT NULL,
+      reconciled_to DATE NOT NULL,
+      statement_balance DECIMAL(15,2) NOT NULL,
+      book_balance DECIMAL(15,2) NOT NULL,
+      difference DECIMAL(15,2) NOT NULL,
+      unmatched_statement_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      unmatched_book_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      ignored_statement_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      unexplained_difference DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )`,
+
+    // Ledger names in an external accounting system (Tally, QuickBooks, Xero) for our categories
+    // (keyed by category name) and cash/bank accounts (keyed by account ID, or "cash")
+    `CREATE TABLE IF NOT EXISTS accounting_export_mappings (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      target ENUM('tally', 'quickbooks', 'xero') NOT NULL,
+      source_type ENUM('income', 'expense', 'purchase', 'sale', 'account') NOT NULL,
+      source_key VARCHAR(50) NOT NULL,
+      external_name VARCHAR(150) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_mapping (user_id, target, source_type, source_key)
+    )`,
+
+    // Free-form labels ("reimbursable", "Project: Lahore store") that cut across categories
+    `CREATE TABLE IF NOT EXISTS tags (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      name VARCHAR(50) NOT NULL,
+      color VARCHAR(7) DEFAULT '#6B7280',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_tag (user_id, name)
+    )`,
+
+    // Tags carried by income, expense, purchase and sale records
+    `CREATE TABLE IF NOT EXISTS record_tags (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      tag_id INT NOT NULL,
+      record_type ENUM('income', 'expense', 'purchase', 'sale') NOT NULL,
+      record_id INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_record_tag (tag_id, record_type, record_id)
+    )`,
+
+    // Line items of an expense or purchase split across categories; the lines add up to the
+    // record's amount and each counts under its own category
+    `CREATE TABLE IF NOT EXISTS record_splits (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      record_type ENUM('expense', 'purchase') NOT NULL,
+      record_id INT NOT NULL,
+      category VARCHAR(50) NOT NULL,
+      category_id INT NULL,
+      amount DECIMAL(15, 2) NOT NULL,
+      description VARCHAR(255),
+      tag_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE SET NULL
+    )`,
+
+    // Customers that sales are made to, with the credit they are allowed on pending sales
+    `CREATE TABLE IF NOT EXISTS customers (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      contact VARCHAR(50),
+      email VARCHAR(100),
+      address TEXT,
+      tax_id VARCHAR(50),
+      credit_limit DECIMAL(15,2) NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_customer (user_id, name)
+    )`,
+
+    // Part-payments received against pending sales (receivables); a sale completes once paid in full
+    `CREATE TABLE IF NOT EXISTS sale_payments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      sale_id INT NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      payment_date DATE NOT NULL,
+      payment_method VARCHAR(50) DEFAULT 'Cash',
+      account_id INT NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL
+    )`,
+
+    // Suppliers that purchases, expenses and bills are paid to. payment_terms_days sets the
+    // default due date of their bills.
+    `CREATE TABLE IF NOT EXISTS vendors (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      contact VARCHAR(50),
+      email VARCHAR(100),
+      address TEXT,
+      tax_id VARCHAR(50),
+      payment_terms_days INT NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE KEY unique_user_vendor (user_id, name)
+    )`,
+
+    // Bills received from vendors (payables), owed from bill_date and due by due_date.
+    // A bill is marked paid once its payments cover the amount.
+    `CREATE TABLE IF NOT EXISTS bills (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      vendor_id INT NOT NULL,
+      bill_number VARCHAR(50),
+      description VARCHAR(500),
+      category VARCHAR(50),
+      amount DECIMAL(15,2) NOT NULL,
+      bill_date DATE NOT NULL,
+      due_date DATE NOT NULL,
+      status ENUM('open', 'paid', 'cancelled') DEFAULT 'open',
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (vendor_id) REFERENCES vendors(id)
+    )`,
+
+    // Instalments paid against a bill, each taken out of the paying account
+    `CREATE TABLE IF NOT EXISTS bill_payments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      bill_id INT NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      payment_date DATE NOT NULL,
+      payment_method VARCHAR(50) DEFAULT 'Cash',
+      account_id INT NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (bill_id) REFERENCES bills(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL
+    )`,
+
+    // Per-user invoice numbering and print settings. next_number is taken (and incremented)
+    // when a draft is first sent or paid; the logo file lives in the uploads directory.
+    `CREATE TABLE IF NOT EXISTS invoice_settings (
+      user_id INT PRIMARY KEY,
+      number_prefix VARCHAR(20) NOT NULL DEFAULT 'INV-',
+      next_number INT NOT NULL DEFAULT 1,
+      payment_terms_days INT NOT NULL DEFAULT 14,
+      sale_category VARCHAR(50) NOT NULL DEFAULT 'Invoiced sales',
+      income_category VARCHAR(50) NOT NULL DEFAULT 'Services',
+      footer TEXT,
+      logo_stored_name VARCHAR(255),
+      logo_mime_type VARCHAR(50),
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    // Sales invoices issued to customers. Drafts have no number yet; once paid, the invoice
+    // points at the income record (and its items at the sales) it was settled into.
+    `CREATE TABLE IF NOT EXISTS invoices (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      invoice_number VARCHAR(50) NULL,
+      customer_id INT NULL,
+      customer_name VARCHAR(100) NOT NULL,
+      issue_date DATE NOT NULL,
+      due_date DATE NOT NULL,
+      status ENUM('draft', 'sent', 'paid', 'void') DEFAULT 'draft',
+      subtotal DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      discount_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      tax_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      notes TEXT,
+      sent_at TIMESTAMP NULL,
+      paid_date DATE NULL,
+      payment_method VARCHAR(50) NULL,
+      account_id INT NULL,
+      income_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+      FOREIGN KEY (income_id) REFERENCES income(id) ON DELETE SET NULL,
+      UNIQUE KEY unique_user_invoice_number (user_id, invoice_number)
+    )`,
+
+    // Line items of an invoice. Lines naming a purchase category are sold from stock.
+    `CREATE TABLE IF NOT EXISTS invoice_items (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      invoice_id INT NOT NULL,
+      position INT NOT NULL DEFAULT 0,
+      description VARCHAR(255) NOT NULL,
+      purchase_category VARCHAR(50) NULL,
+      quantity DECIMAL(15,3) NOT NULL,
+      unit_price DECIMAL(15,2) NOT NULL,
+      discount_percent DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+      tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+      line_subtotal DECIMAL(15,2) NOT NULL,
+      discount_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      line_total DECIMAL(15,2) NOT NULL,
+      sale_id INT NULL,
+      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE,
+      FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL
+    )`,
+
+    // Price quotes to customers, valid until valid_until. A sent quote past that date expires.
+    // Once converted, converted_to says whether it became an invoice or sales.
+    `CREATE TABLE IF NOT EXISTS quotations (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      quote_number VARCHAR(50) NOT NULL,
+      customer_id INT NULL,
+      customer_name VARCHAR(100) NOT NULL,
+      issue_date DATE NOT NULL,
+      valid_until DATE NOT NULL,
+      status ENUM('draft', 'sent', 'accepted', 'rejected', 'expired') DEFAULT 'draft',
+      subtotal DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      discount_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      tax_total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      total DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      notes TEXT,
+      converted_to ENUM('invoice', 'sale') NULL,
+      converted_at TIMESTAMP NULL,
+      invoice_id INT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE SET NULL,
+      UNIQUE KEY unique_user_quote_number (user_id, quote_number)
+    )`,
+
+    // Line items of a quotation, as on an invoice. unit_cost is the cost of goods used for
+    // lines not sold from stock when the quote is converted straight into sales.
+    `CREATE TABLE IF NOT EXISTS quotation_items (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      quotation_id INT NOT NULL,
+      position INT NOT NULL DEFAULT 0,
+      description VARCHAR(255) NOT NULL,
+      purchase_category VARCHAR(50) NULL,
+      quantity DECIMAL(15,3) NOT NULL,
+      unit_price DECIMAL(15,2) NOT NULL,
+      unit_cost DECIMAL(15,2) NULL,
+      discount_percent DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+      tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+      line_subtotal DECIMAL(15,2) NOT NULL,
+      discount_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00,
+      line_total DECIMAL(15,2) NOT NULL,
+      sale_id INT NULL,
+      FOREIGN KEY (quotation_id) REFERENCES quotations(id) ON DELETE CASCADE,
+      FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL
     )`
   ];
 
@@ -218,6 +728,118 @@ const createTables = async () => {
     await pool.execute(table);
   }
 
+  // Sales typed before customers existed are linked to customers once, when the column is added
+  const [customerColumns] = await pool.execute(
+    `SELECT 1 FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = 'sales' AND column_name = 'customer_id'`
+  ) as any[];
+  const linkSaleCustomers = customerColumns.length === 0;
+
+  // Add columns introduced after the initial schema to existing databases
+  const migrations = [
+    // Link money-moving records to the cash/bank account they affect
+    'ALTER TABLE income ADD COLUMN IF NOT EXISTS account_id INT NULL AFTER source',
+    'ALTER TABLE income ADD CONSTRAINT fk_income_account FOREIGN KEY IF NOT EXISTS (account_id) REFERENCES accounts(id) ON DELETE SET NULL',
+    'ALTER TABLE expenses ADD COLUMN IF NOT EXISTS account_id INT NULL AFTER payment_method',
+    'ALTER TABLE expenses ADD CONSTRAINT fk_expenses_account FOREIGN KEY IF NOT EXISTS (account_id) REFERENCES accounts(id) ON DELETE SET NULL',
+    'ALTER TABLE purchases ADD COLUMN IF NOT EXISTS account_id INT NULL AFTER payment_method',
+    'ALTER TABLE purchases ADD CONSTRAINT fk_purchases_account FOREIGN KEY IF NOT EXISTS (account_id) REFERENCES accounts(id) ON DELETE SET NULL',
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS account_id INT NULL AFTER payment_method',
+    'ALTER TABLE sales ADD CONSTRAINT fk_sales_account FOREIGN KEY IF NOT EXISTS (account_id) REFERENCES accounts(id) ON DELETE SET NULL',
+    // Charity is no longer a fixed 6% generated column; each income stores the rate applied to it
+    'ALTER TABLE income ADD COLUMN IF NOT EXISTS charity_rate DECIMAL(5,2) DEFAULT 6.00 AFTER date',
+    'ALTER TABLE income MODIFY COLUMN charity_required DECIMAL(15,2) DEFAULT 0.00',
+    // Purchases carry stock that sales consume; existing purchases become a single unit
+    'ALTER TABLE purchases ADD COLUMN IF NOT EXISTS quantity DECIMAL(15,3) NOT NULL DEFAULT 1.000 AFTER category',
+    'ALTER TABLE purchases ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(15,4) AFTER quantity',
+    'UPDATE purchases SET unit_cost = amount / quantity WHERE unit_cost IS NULL',
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS purchase_category VARCHAR(50) AFTER purchase_id',
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS quantity DECIMAL(15,3) AFTER purchase_category',
+    "ALTER TABLE sales ADD COLUMN IF NOT EXISTS cost_method ENUM('manual', 'specific', 'fifo', 'average') DEFAULT 'manual' AFTER quantity",
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS category VARCHAR(50) AFTER description',
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS receipt_path VARCHAR(255) AFTER notes',
+    // Loans can be money we lent out (receivable) as well as money we borrowed (payable)
+    "ALTER TABLE loans ADD COLUMN IF NOT EXISTS direction ENUM('payable', 'receivable') NOT NULL DEFAULT 'payable' AFTER user_id",
+    'ALTER TABLE loans MODIFY COLUMN lender_name VARCHAR(100) NULL',
+    'ALTER TABLE loans ADD COLUMN IF NOT EXISTS borrower_name VARCHAR(100) NULL AFTER lender_name',
+    "ALTER TABLE loans ADD COLUMN IF NOT EXISTS borrower_type ENUM('staff', 'customer', 'other') NULL AFTER borrower_name",
+    'ALTER TABLE loans ADD COLUMN IF NOT EXISTS borrower_contact VARCHAR(100) NULL AFTER borrower_type',
+    'ALTER TABLE loan_payments ADD COLUMN IF NOT EXISTS receipt_number VARCHAR(30) NULL AFTER description',
+    // Records created by a bulk import point at their batch
+    'ALTER TABLE income ADD COLUMN IF NOT EXISTS import_batch_id INT NULL',
+    'ALTER TABLE income ADD CONSTRAINT fk_income_import_batch FOREIGN KEY IF NOT EXISTS (import_batch_id) REFERENCES import_batches(id) ON DELETE SET NULL',
+    'ALTER TABLE expenses ADD COLUMN IF NOT EXISTS import_batch_id INT NULL',
+    'ALTER TABLE expenses ADD CONSTRAINT fk_expenses_import_batch FOREIGN KEY IF NOT EXISTS (import_batch_id) REFERENCES import_batches(id) ON DELETE SET NULL',
+    // Subcategories point at their parent category of the same type
+    'ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id INT NULL AFTER type',
+    'ALTER TABLE categories ADD CONSTRAINT fk_categories_parent FOREIGN KEY IF NOT EXISTS (parent_id) REFERENCES categories(id) ON DELETE SET NULL',
+    // Records reference their category by ID; the category column keeps the current name
+    'ALTER TABLE income ADD COLUMN IF NOT EXISTS category_id INT NULL AFTER category',
+    'ALTER TABLE income ADD CONSTRAINT fk_income_category FOREIGN KEY IF NOT EXISTS (category_id) REFERENCES categories(id) ON DELETE SET NULL',
+    'ALTER TABLE expenses ADD COLUMN IF NOT EXISTS category_id INT NULL AFTER category',
+    'ALTER TABLE expenses ADD CONSTRAINT fk_expenses_category FOREIGN KEY IF NOT EXISTS (category_id) REFERENCES categories(id) ON DELETE SET NULL',
+    'ALTER TABLE purchases ADD COLUMN IF NOT EXISTS category_id INT NULL AFTER category',
+    'ALTER TABLE purchases ADD CONSTRAINT fk_purchases_category FOREIGN KEY IF NOT EXISTS (category_id) REFERENCES categories(id) ON DELETE SET NULL',
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS category_id INT NULL AFTER category',
+    'ALTER TABLE sales ADD CONSTRAINT fk_sales_category FOREIGN KEY IF NOT EXISTS (category_id) REFERENCES categories(id) ON DELETE SET NULL',
+    // Sales reference their customer by ID; customer_name and customer_contact keep the current details
+    'ALTER TABLE sales ADD COLUMN IF NOT EXISTS customer_id INT NULL AFTER category_id',
+    'ALTER TABLE sales ADD CONSTRAINT fk_sales_customer FOREIGN KEY IF NOT EXISTS (customer_id) REFERENCES customers(id) ON DELETE SET NULL',
+    // Purchases and expenses name the vendor they were paid to
+    'ALTER TABLE purchases ADD COLUMN IF NOT EXISTS vendor_id INT NULL AFTER category_id',
+    'ALTER TABLE purchases ADD CONSTRAINT fk_purchases_vendor FOREIGN KEY IF NOT EXISTS (vendor_id) REFERENCES vendors(id) ON DELETE SET NULL',
+    'ALTER TABLE expenses ADD COLUMN IF NOT EXISTS vendor_id INT NULL AFTER category_id',
+    'ALTER TABLE expenses ADD CONSTRAINT fk_expenses_vendor FOREIGN KEY IF NOT EXISTS (vendor_id) REFERENCES vendors(id) ON DELETE SET NULL',
+    // Quotations are numbered in their own sequence and valid for a default number of days
+    "ALTER TABLE invoice_settings ADD COLUMN IF NOT EXISTS quote_prefix VARCHAR(20) NOT NULL DEFAULT 'QUO-' AFTER next_number",
+    'ALTER TABLE invoice_settings ADD COLUMN IF NOT EXISTS next_quote_number INT NOT NULL DEFAULT 1 AFTER quote_prefix',
+    'ALTER TABLE invoice_settings ADD COLUMN IF NOT EXISTS quote_validity_days INT NOT NULL DEFAULT 30 AFTER payment_terms_days'
+  ];
+
+  for (const migration of migrations) {
+    await pool.execute(migration);
+  }
+
+  // Link records still identified only by a category name: create any category that was
+  // never set up, then point each record at its category's ID
+  const categoryTables = [
+    { table: 'income', type: 'income' },
+    { table: 'expenses', type: 'expense' },
+    { table: 'purchases', type: 'purchase' },
+    { table: 'sales', type: 'sale' }
+  ];
+
+  for (const { table, type } of categoryTables) {
+    await pool.execute(
+      `INSERT IGNORE INTO categories (user_id, name, type)
+       SELECT DISTINCT user_id, TRIM(category), '${type}' FROM ${table}
+       WHERE category_id IS NULL AND category IS NOT NULL AND TRIM(category) != ''`
+    );
+    await pool.execute(
+      `UPDATE ${table} r
+       JOIN categories c ON c.user_id = r.user_id AND c.type = '${type}' AND c.name = TRIM(r.category)
+       SET r.category_id = c.id, r.category = c.name
+       WHERE r.category_id IS NULL`
+    );
+  }
+
+  // Turn the customer names typed on sales into customers, then point each sale at its customer.
+  // Only on the upgrade: later sales left unlinked, or whose customer was deleted, stay that way.
+  if (linkSaleCustomers) {
+    await pool.execute(
+      `INSERT IGNORE INTO customers (user_id, name, contact)
+       SELECT user_id, TRIM(customer_name), MAX(customer_contact) FROM sales
+       WHERE customer_id IS NULL AND customer_name IS NOT NULL AND TRIM(customer_name) != ''
+       GROUP BY user_id, TRIM(customer_name)`
+    );
+    await pool.execute(
+      `UPDATE sales s
+       JOIN customers c ON c.user_id = s.user_id AND c.name = TRIM(s.customer_name)
+       SET s.customer_id = c.id, s.customer_name = c.name
+       WHERE s.customer_id IS NULL`
+    );
+  }
+
   // Create indexes for better performance
   const indexes = [
     'CREATE INDEX IF NOT EXISTS idx_income_user_date ON income(user_id, date)',
@@ -225,7 +847,41 @@ const createTables = async () => {
     'CREATE INDEX IF NOT EXISTS idx_purchases_user_date ON purchases(user_id, date)',
     'CREATE INDEX IF NOT EXISTS idx_charity_user_status ON charity(user_id, status)',
     'CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date)',
-    'CREATE INDEX IF NOT EXISTS idx_accounts_user_type ON accounts(user_id, account_type)'
+    'CREATE INDEX IF NOT EXISTS idx_accounts_user_type ON accounts(user_id, account_type)',
+    'CREATE INDEX IF NOT EXISTS idx_charity_rules_user_date ON charity_rules(user_id, effective_from)',
+    'CREATE INDEX IF NOT EXISTS idx_attachments_record ON attachments(user_id, record_type, record_id)',
+    'CREATE INDEX IF NOT EXISTS idx_sales_user_date ON sales(user_id, date)',
+    'CREATE INDEX IF NOT EXISTS idx_purchases_user_category ON purchases(user_id, category)',
+    'CREATE INDEX IF NOT EXISTS idx_expenses_user_category ON expenses(user_id, category, date)',
+    'CREATE INDEX IF NOT EXISTS idx_income_user_category_id ON income(user_id, category_id)',
+    'CREATE INDEX IF NOT EXISTS idx_expenses_user_category_id ON expenses(user_id, category_id)',
+    'CREATE INDEX IF NOT EXISTS idx_purchases_user_category_id ON purchases(user_id, category_id)',
+    'CREATE INDEX IF NOT EXISTS idx_sales_user_category_id ON sales(user_id, category_id)',
+    'CREATE INDEX IF NOT EXISTS idx_recurring_due ON recurring_templates(status, next_run_date)',
+    'CREATE INDEX IF NOT EXISTS idx_loan_payments_loan_date ON loan_payments(loan_id, payment_date)',
+    'CREATE INDEX IF NOT EXISTS idx_loans_user_direction ON loans(user_id, direction, status)',
+    'CREATE INDEX IF NOT EXISTS idx_journal_entries_source ON journal_entries(user_id, source_type, source_id)',
+    'CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON journal_entries(user_id, entry_date)',
+    'CREATE INDEX IF NOT EXISTS idx_import_batches_user ON import_batches(user_id, created_at)',
+    'CREATE INDEX IF NOT EXISTS idx_statement_lines_account_date ON bank_statement_lines(account_id, date)',
+    'CREATE INDEX IF NOT EXISTS idx_statement_lines_match ON bank_statement_lines(account_id, matched_source_type, matched_source_id)',
+    'CREATE INDEX IF NOT EXISTS idx_reconciliations_account ON reconciliations(account_id, reconciled_to)',
+    'CREATE INDEX IF NOT EXISTS idx_record_tags_record ON record_tags(user_id, record_type, record_id)',
+    'CREATE INDEX IF NOT EXISTS idx_record_splits_record ON record_splits(record_type, record_id)',
+    'CREATE INDEX IF NOT EXISTS idx_record_splits_category ON record_splits(user_id, category_id)',
+    'CREATE INDEX IF NOT EXISTS idx_sales_user_customer ON sales(user_id, customer_id, status)',
+    'CREATE INDEX IF NOT EXISTS idx_sale_payments_sale ON sale_payments(sale_id, payment_date)',
+    'CREATE INDEX IF NOT EXISTS idx_purchases_user_vendor ON purchases(user_id, vendor_id, date)',
+    'CREATE INDEX IF NOT EXISTS idx_expenses_user_vendor ON expenses(user_id, vendor_id, date)',
+    'CREATE INDEX IF NOT EXISTS idx_bills_user_status ON bills(user_id, status, due_date)',
+    'CREATE INDEX IF NOT EXISTS idx_bills_vendor ON bills(vendor_id, bill_date)',
+    'CREATE INDEX IF NOT EXISTS idx_bill_payments_bill ON bill_payments(bill_id, payment_date)',
+    'CREATE INDEX IF NOT EXISTS idx_invoices_user_status ON invoices(user_id, status, due_date)',
+    'CREATE INDEX IF NOT EXISTS idx_invoices_customer ON invoices(customer_id, issue_date)',
+    'CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice ON invoice_items(invoice_id, position)',
+    'CREATE INDEX IF NOT EXISTS idx_quotations_user_status ON quotations(user_id, status, valid_until)',
+    'CREATE INDEX IF NOT EXISTS idx_quotations_user_issue ON quotations(user_id, issue_date)',
+    'CREATE INDEX IF NOT EXISTS idx_quotation_items_quotation ON quotation_items(quotation_id, position)'
   ];
 
   for (const index of indexes) {
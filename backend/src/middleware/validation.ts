@@ -1,5 +1,10 @@
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { MAX_TAGS_PER_RECORD } from '../utils/tags';
+import { MAX_SPLIT_LINES } from '../utils/splits';
+
+// Ways a payment can be made or received
+export const PAYMENT_METHODS = ['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'];
 
 // Validation middleware runner
 export const runValidation = (req: Request, res: Response, next: NextFunction) => {
@@ -14,12 +19,159 @@ export const runValidation = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+// Tags sent with an income, expense, purchase or sale: a list of names replacing the record's tags
+export const validateTags = [
+  body('tags')
+    .optional()
+    .isArray({ max: MAX_TAGS_PER_RECORD })
+    .withMessage(`Tags must be a list of at most ${MAX_TAGS_PER_RECORD} names`),
+
+  body('tags.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each tag must be between 1 and 50 characters')
+    .not().contains(',')
+    .withMessage('Tag names cannot contain commas')
+];
+
+// Split lines of an expense or purchase: each with its own category, amount and optional
+// description and tag. An empty list or null makes a split record whole again.
+export const validateSplits = [
+  body('splits')
+    .optional({ values: 'null' })
+    .isArray({ max: MAX_SPLIT_LINES })
+    .withMessage(`Splits must be a list of at most ${MAX_SPLIT_LINES} lines`),
+
+  body('splits.*.category')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each split line needs a category of at most 50 characters'),
+
+  body('splits.*.amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Each split line amount must be a positive number'),
+
+  body('splits.*.description')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('Split line description cannot exceed 255 characters'),
+
+  body('splits.*.tag')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Split line tag cannot exceed 50 characters')
+    .not().contains(',')
+    .withMessage('Tag names cannot contain commas')
+];
+
+// Tag filter accepted by the list endpoints: comma-separated names, all of which a record must carry
+export const validateTagFilter = [
+  query('tags')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Tags filter must not exceed 500 characters')
+];
+
+// Payment received against a pending sale
+export const validateSalePayment = [
+  body('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+
+  body('payment_date')
+    .isISO8601()
+    .withMessage('Payment date must be a valid ISO date'),
+
+  body('payment_method')
+    .optional()
+    .trim()
+    .isIn(PAYMENT_METHODS)
+    .withMessage('Invalid payment method'),
+
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must not exceed 1000 characters')
+];
+
+// Instalment paid against a vendor's bill; the same fields as a payment received on a sale
+export const validateBillPayment = validateSalePayment;
+
+// Whether a sale takes its cost from purchased stock rather than a manually entered amount
+const isStockSale = (value: any, { req }: { req: any }) => Boolean(req.body.purchase_id || req.body.purchase_category);
+
 // Sale validation rules
 export const validateSale = [
   body('amount')
+    .if((value, meta) => !isStockSale(value, meta))
     .isFloat({ min: 0.01 })
     .withMessage('Amount must be a positive number'),
   
+  body('selling_price')
+    .isFloat({ min: 0.01 })
+    .withMessage('Selling price must be a positive number'),
+  
+  body('purchase_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Purchase ID must be a positive integer'),
+  
+  body('purchase_category')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Purchase category must not exceed 50 characters'),
+  
+  body('quantity')
+    .if(isStockSale)
+    .isFloat({ min: 0.001 })
+    .withMessage('Quantity must be a positive number when selling from stock'),
+  
+  body('cost_method')
+    .optional()
+    .isIn(['fifo', 'average'])
+    .withMessage('Cost method must be fifo or average'),
+  
+  body('status')
+    .optional()
+    .isIn(['pending', 'completed', 'cancelled'])
+    .withMessage('Status must be pending, completed or cancelled'),
+  
+  body('customer_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Customer ID must be a positive integer'),
+  
+  body('customer_name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Customer name must not exceed 100 characters'),
+  
+  body('customer_contact')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Customer contact must not exceed 50 characters'),
+  
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must not exceed 1000 characters'),
+  
   body('description')
     .optional()
     .trim()
@@ -37,9 +189,14 @@ export const validateSale = [
     .trim()
     .notEmpty()
     .withMessage('Payment method is required')
-    .isIn(['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'])
+    .isIn(PAYMENT_METHODS)
     .withMessage('Invalid payment method'),
   
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  
   body('date')
     .isISO8601()
     .withMessage('Date must be a valid ISO date'),
@@ -50,6 +207,8 @@ export const validateSale = [
     .isLength({ max: 255 })
     .withMessage('Receipt path must not exceed 255 characters'),
   
+  ...validateTags,
+  
   runValidation
 ];
 
@@ -76,7 +235,7 @@ export const validatePurchase = [
     .trim()
     .notEmpty()
     .withMessage('Payment method is required')
-    .isIn(['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'])
+    .isIn(PAYMENT_METHODS)
     .withMessage('Invalid payment method'),
   
   body('date')
@@ -140,7 +299,7 @@ export const validateExpense = [
     .trim()
     .notEmpty()
     .withMessage('Payment method is required')
-    .isIn(['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'])
+    .isIn(PAYMENT_METHODS)
     .withMessage('Invalid payment method'),
   
   body('date')
@@ -181,3 +340,18 @@ export const validateRegistration = [
   
   runValidation
 ];
+
+// Export options accepted by the list endpoints: format=csv|xlsx returns every matching
+// record as a file instead of a page of JSON; columns picks and orders the columns
+export const validateExport = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'xlsx'])
+    .withMessage('Format must be csv or xlsx'),
+
+  query('columns')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Columns must not exceed 500 characters')
+];
@@ -2,6 +2,8 @@ import express from 'express';
 import { body, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { postBalanceAdjustment } from '../utils/ledger';
+import { createTransfer } from '../utils/accounts';
 
 const router = express.Router();
 
@@ -146,25 +148,41 @@ router.post('/', [
       });
     }
 
-    // Insert account record
-    const [accountResult] = await pool.execute(
-      'INSERT INTO accounts (user_id, account_type, account_name, balance, bank_name, account_number) VALUES (?, ?, ?, ?, ?, ?)',
-      [userId, account_type, account_name, balance, bank_name, account_number]
-    ) as any[];
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Insert account record
+      const [accountResult] = await connection.execute(
+        'INSERT INTO accounts (user_id, account_type, account_name, balance, bank_name, account_number) VALUES (?, ?, ?, ?, ?, ?)',
+        [userId, account_type, account_name, balance, bank_name, account_number]
+      ) as any[];
 
-    const accountId = accountResult.insertId;
+      const accountId = accountResult.insertId;
 
-    // Get the created account record
-    const [accountRecords] = await pool.execute(
-      'SELECT * FROM accounts WHERE id = ?',
-      [accountId]
-    ) as any[];
+      // Post the opening balance to the ledger
+      await postBalanceAdjustment(connection, userId, accountId, parseFloat(balance), `Opening balance: ${account_name}`);
 
-    res.status(201).json({
-      success: true,
-      message: 'Account created successfully',
-      data: { account: accountRecords[0] }
-    });
+      // Get the created account record
+      const [accountRecords] = await connection.execute(
+        'SELECT * FROM accounts WHERE id = ?',
+        [accountId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created successfully',
+        data: { account: accountRecords[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Create account error:', error);
     res.status(500).json({
@@ -219,7 +237,7 @@ router.put('/:id', [
 
     // Check if account exists and belongs to user
     const [existingAccounts] = await pool.execute(
-      'SELECT id FROM accounts WHERE id = ? AND user_id = ?',
+      'SELECT id, account_name, balance FROM accounts WHERE id = ? AND user_id = ?',
       [accountId, userId]
     ) as any[];
 
@@ -276,23 +294,44 @@ router.put('/:id', [
 
     values.push(accountId);
 
-    // Update account record
-    await pool.execute(
-      `UPDATE accounts SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      values
-    );
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    // Get updated record
-    const [updatedAccounts] = await pool.execute(
-      'SELECT * FROM accounts WHERE id = ?',
-      [accountId]
-    ) as any[];
+    try {
+      // Update account record
+      await connection.execute(
+        `UPDATE accounts SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        values
+      );
 
-    res.json({
-      success: true,
-      message: 'Account updated successfully',
-      data: { account: updatedAccounts[0] }
-    });
+      // An edited balance is posted as an adjustment against owner's equity
+      if (balance !== undefined) {
+        const delta = parseFloat(balance) - parseFloat(existingAccounts[0].balance);
+        await postBalanceAdjustment(
+          connection, userId, accountId, delta, `Balance adjustment: ${account_name || existingAccounts[0].account_name}`
+        );
+      }
+
+      // Get updated record
+      const [updatedAccounts] = await connection.execute(
+        'SELECT * FROM accounts WHERE id = ?',
+        [accountId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Account updated successfully',
+        data: { account: updatedAccounts[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Update account error:', error);
     res.status(500).json({
@@ -409,69 +448,12 @@ router.post('/transfer', [
     const userId = req.user!.userId;
     const { from_account_id, to_account_id, amount, description, date } = req.body;
 
-    if (from_account_id === to_account_id) {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot transfer to the same account'
-      });
-    }
-
     // Start transaction
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
-      // Check both accounts exist and belong to user
-      const [accounts] = await connection.execute(
-        'SELECT id, account_name, balance FROM accounts WHERE id IN (?, ?) AND user_id = ?',
-        [from_account_id, to_account_id, userId]
-      ) as any[];
-
-      if (accounts.length !== 2) {
-        await connection.rollback();
-        return res.status(404).json({
-          success: false,
-          message: 'One or both accounts not found'
-        });
-      }
-
-      const fromAccount = accounts.find((acc: any) => acc.id === from_account_id);
-      const toAccount = accounts.find((acc: any) => acc.id === to_account_id);
-
-      // Check sufficient balance
-      if (parseFloat(fromAccount.balance) < parseFloat(amount)) {
-        await connection.rollback();
-        return res.status(400).json({
-          success: false,
-          message: 'Insufficient balance in source account'
-        });
-      }
-
-      // Update account balances
-      await connection.execute(
-        'UPDATE accounts SET balance = balance - ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [amount, from_account_id]
-      );
-
-      await connection.execute(
-        'UPDATE accounts SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [amount, to_account_id]
-      );
-
-      // Record transactions for both accounts
-      const transferDescription = description || `Transfer from ${fromAccount.account_name} to ${toAccount.account_name}`;
-
-      // Debit transaction
-      await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?)',
-        [userId, 'transfer', -amount, `${transferDescription} (Debit)`, from_account_id, date]
-      );
-
-      // Credit transaction
-      await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?)',
-        [userId, 'transfer', amount, `${transferDescription} (Credit)`, to_account_id, date]
-      );
+      const transfer = await createTransfer(connection, userId, { from_account_id, to_account_id, amount, description, date });
 
       // Get updated account balances
       const [updatedAccounts] = await connection.execute(
@@ -489,13 +471,19 @@ router.post('/transfer', [
             from_account: updatedAccounts.find((acc: any) => acc.id === from_account_id),
             to_account: updatedAccounts.find((acc: any) => acc.id === to_account_id),
             amount,
-            description: transferDescription,
+            description: transfer.description,
             date
           }
         }
       });
-    } catch (error) {
+    } catch (error: any) {
       await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
       throw error;
     } finally {
       connection.release();
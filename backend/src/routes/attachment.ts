@@ -0,0 +1,275 @@
+import express from 'express';
+import multer from 'multer';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import {
+  attachmentUpload,
+  isAttachmentRecordType,
+  findAttachmentParent,
+  matchesFileSignature,
+  getAttachmentPath,
+  removeAttachmentFiles,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_UPLOAD
+} from '../utils/attachments';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Parse and check the record a request targets
+const parseRecordParams = (req: express.Request) => {
+  const recordType = req.params.recordType;
+  const recordId = parseInt(req.params.recordId);
+
+  if (!isAttachmentRecordType(recordType) || isNaN(recordId)) {
+    return null;
+  }
+
+  return { recordType, recordId };
+};
+
+// Get all attachments of a record
+router.get('/records/:recordType/:recordId', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const record = parseRecordParams(req);
+
+    if (!record) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid record type or ID'
+      });
+    }
+
+    const [attachments] = await pool.execute(
+      `SELECT id, record_type, record_id, original_name, mime_type, size_bytes, created_at
+       FROM attachments
+       WHERE user_id = ? AND record_type = ? AND record_id = ?
+       ORDER BY created_at, id`,
+      [userId, record.recordType, record.recordId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { attachments }
+    });
+  } catch (error) {
+    console.error('Get attachments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Upload one or more files to a record
+router.post('/records/:recordType/:recordId', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const record = parseRecordParams(req);
+
+    if (!record) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid record type or ID'
+      });
+    }
+
+    // Check the parent record before accepting any file
+    if (!(await findAttachmentParent(pool, userId, record.recordType, record.recordId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Record not found'
+      });
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        attachmentUpload.array('files', MAX_ATTACHMENTS_PER_UPLOAD)(req, res, (error: any) => error ? reject(error) : resolve());
+      });
+    } catch (error: any) {
+      if (error instanceof multer.MulterError) {
+        const messages: Record<string, string> = {
+          LIMIT_FILE_SIZE: `Each file must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`,
+          LIMIT_FILE_COUNT: `Cannot upload more than ${MAX_ATTACHMENTS_PER_UPLOAD} files at once`,
+          LIMIT_UNEXPECTED_FILE: 'Files must be sent in the "files" field'
+        };
+        return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+          success: false,
+          message: messages[error.code] || error.message
+        });
+      }
+      if (error.status === 415) {
+        return res.status(415).json({
+          success: false,
+          message: `${error.message}. Allowed types are JPEG, PNG, GIF, WebP and PDF`
+        });
+      }
+      throw error;
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No files uploaded'
+      });
+    }
+
+    // Reject files whose content does not match their declared type
+    for (const file of files) {
+      if (!(await matchesFileSignature(file.path, file.mimetype))) {
+        await removeAttachmentFiles(files.map((uploaded) => uploaded.filename));
+        return res.status(415).json({
+          success: false,
+          message: `${file.originalname} does not look like a valid ${file.mimetype} file`
+        });
+      }
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const attachmentIds: number[] = [];
+
+      for (const file of files) {
+        const [result] = await connection.execute(
+          'INSERT INTO attachments (user_id, record_type, record_id, original_name, stored_name, mime_type, size_bytes) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [userId, record.recordType, record.recordId, file.originalname, file.filename, file.mimetype, file.size]
+        ) as any[];
+        attachmentIds.push(result.insertId);
+      }
+
+      await connection.commit();
+
+      const [attachments] = await pool.execute(
+        `SELECT id, record_type, record_id, original_name, mime_type, size_bytes, created_at
+         FROM attachments
+         WHERE id IN (${attachmentIds.map(() => '?').join(', ')})
+         ORDER BY id`,
+        attachmentIds
+      ) as any[];
+
+      res.status(201).json({
+        success: true,
+        message: `${files.length} file(s) uploaded successfully`,
+        data: { attachments }
+      });
+    } catch (error) {
+      await connection.rollback();
+      await removeAttachmentFiles(files.map((file) => file.filename));
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Upload attachments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Download an attachment (pass inline=true to display images and PDFs in the browser)
+router.get('/:id/download', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const attachmentId = parseInt(req.params.id);
+
+    if (isNaN(attachmentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid attachment ID'
+      });
+    }
+
+    const [attachments] = await pool.execute(
+      'SELECT original_name, stored_name, mime_type FROM attachments WHERE id = ? AND user_id = ?',
+      [attachmentId, userId]
+    ) as any[];
+
+    if (attachments.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attachment not found'
+      });
+    }
+
+    const attachment = attachments[0];
+    const disposition = req.query.inline === 'true' ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.original_name)}`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    res.sendFile(getAttachmentPath(attachment.stored_name), (error: any) => {
+      if (!error) return;
+      console.error('Download attachment error:', error);
+      if (!res.headersSent) {
+        res.status(error.code === 'ENOENT' ? 404 : 500).json({
+          success: false,
+          message: error.code === 'ENOENT' ? 'Attachment file is missing' : 'Internal server error'
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete an attachment
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const attachmentId = parseInt(req.params.id);
+
+    if (isNaN(attachmentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid attachment ID'
+      });
+    }
+
+    const [attachments] = await pool.execute(
+      'SELECT stored_name FROM attachments WHERE id = ? AND user_id = ?',
+      [attachmentId, userId]
+    ) as any[];
+
+    if (attachments.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attachment not found'
+      });
+    }
+
+    await pool.execute(
+      'DELETE FROM attachments WHERE id = ? AND user_id = ?',
+      [attachmentId, userId]
+    );
+
+    await removeAttachmentFiles([attachments[0].stored_name]);
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,638 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { validateBillPayment } from '../middleware/validation';
+import { syncJournalEntry } from '../utils/ledger';
+import { todayString } from '../utils/dates';
+import {
+  BILL_PAID_SQL,
+  defaultDueDate,
+  findUserVendor,
+  getBillPaidAmount,
+  recordBillPayment,
+  removeBillPayments
+} from '../utils/payables';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Bill columns with the vendor's name and what has been paid; use with bills aliased as `b`
+const BILL_SELECT = `
+  SELECT b.*, v.name AS vendor_name,
+    ${BILL_PAID_SQL} AS amount_paid,
+    IF(b.status = 'open', b.amount - ${BILL_PAID_SQL}, 0) AS balance_due
+  FROM bills b
+  JOIN vendors v ON v.id = b.vendor_id
+`;
+
+// Details accepted when creating or updating a bill
+const validateBill = [
+  body('vendor_id')
+    .isInt({ min: 1 })
+    .withMessage('Vendor is required'),
+  body('bill_number')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Bill number cannot exceed 50 characters'),
+  body('description')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('category')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Category cannot exceed 50 characters'),
+  body('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+  body('bill_date')
+    .isISO8601()
+    .withMessage('Bill date must be valid ISO date'),
+  body('due_date')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Due date must be valid ISO date')
+    .custom((value, { req }) => value >= req.body.bill_date)
+    .withMessage('Due date cannot be before the bill date'),
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters')
+];
+
+// Get all bills
+router.get('/', [
+  query('vendor_id').optional().isInt({ min: 1 }).withMessage('Vendor ID must be a positive integer'),
+  query('status').optional().isIn(['open', 'paid', 'cancelled']).withMessage('Invalid status'),
+  query('overdue').optional().isBoolean().withMessage('Overdue must be true or false'),
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { vendor_id, status, overdue, start_date, end_date } = req.query;
+
+    let whereClause = 'WHERE b.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (vendor_id) {
+      whereClause += ' AND b.vendor_id = ?';
+      whereParams.push(parseInt(vendor_id as string));
+    }
+
+    if (status) {
+      whereClause += ' AND b.status = ?';
+      whereParams.push(status);
+    }
+
+    // Open bills past their due date
+    if (overdue === 'true') {
+      whereClause += " AND b.status = 'open' AND b.due_date < ?";
+      whereParams.push(todayString());
+    }
+
+    if (start_date) {
+      whereClause += ' AND b.bill_date >= ?';
+      whereParams.push(start_date);
+    }
+
+    if (end_date) {
+      whereClause += ' AND b.bill_date <= ?';
+      whereParams.push(end_date);
+    }
+
+    const [bills] = await pool.execute(
+      `${BILL_SELECT}
+       ${whereClause}
+       ORDER BY b.status = 'open' DESC, b.due_date, b.id`,
+      whereParams
+    ) as any[];
+
+    const [totals] = await pool.execute(
+      `SELECT
+        COALESCE(SUM(IF(b.status = 'open', b.amount - ${BILL_PAID_SQL}, 0)), 0) AS outstanding,
+        COALESCE(SUM(IF(b.status = 'open' AND b.due_date < ?, b.amount - ${BILL_PAID_SQL}, 0)), 0) AS overdue,
+        COUNT(IF(b.status = 'open', 1, NULL)) AS open_count
+       FROM bills b
+       WHERE b.user_id = ?`,
+      [todayString(), userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { bills, summary: totals[0] }
+    });
+  } catch (error) {
+    console.error('Get bills error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get a single bill with its payments
+router.get('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+
+    if (isNaN(billId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid bill ID'
+      });
+    }
+
+    const [bills] = await pool.execute(
+      `${BILL_SELECT}
+       WHERE b.id = ? AND b.user_id = ?`,
+      [billId, userId]
+    ) as any[];
+
+    if (bills.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const [payments] = await pool.execute(`
+      SELECT bp.*, a.account_name
+      FROM bill_payments bp
+      LEFT JOIN accounts a ON bp.account_id = a.id
+      WHERE bp.bill_id = ? AND bp.user_id = ?
+      ORDER BY bp.payment_date, bp.id
+    `, [billId, userId]) as any[];
+
+    res.json({
+      success: true,
+      data: { bill: { ...bills[0], payments } }
+    });
+  } catch (error) {
+    console.error('Get bill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Record a bill received from a vendor. Without a due date it falls due after the
+// vendor's payment terms.
+router.post('/', validateBill, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      vendor_id,
+      bill_number = null,
+      description = null,
+      category = null,
+      amount,
+      bill_date,
+      due_date = null,
+      notes = null
+    } = req.body;
+
+    const vendor = await findUserVendor(pool, userId, vendor_id);
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [billResult] = await connection.execute(
+        `INSERT INTO bills (user_id, vendor_id, bill_number, description, category, amount, bill_date, due_date, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [userId, vendor_id, bill_number || null, description || null, category || null, amount, bill_date,
+         due_date || defaultDueDate(bill_date, vendor.payment_terms_days), notes || null]
+      ) as any[];
+      const billId = billResult.insertId;
+
+      // Post the bill to the ledger as an expense owed to the vendor
+      await syncJournalEntry(connection, userId, 'bill', billId);
+
+      const [bills] = await connection.execute(
+        `${BILL_SELECT}
+         WHERE b.id = ?`,
+        [billId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Bill created successfully',
+        data: { bill: bills[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Create bill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update a bill. Paid follows from the payments, so the status sent can only cancel an
+// unpaid bill or reopen a cancelled one.
+router.put('/:id', [
+  ...validateBill,
+  body('status')
+    .optional()
+    .isIn(['open', 'cancelled'])
+    .withMessage('Status must be open or cancelled')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+
+    if (isNaN(billId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid bill ID'
+      });
+    }
+
+    const {
+      vendor_id,
+      bill_number = null,
+      description = null,
+      category = null,
+      amount,
+      bill_date,
+      due_date = null,
+      status,
+      notes = null
+    } = req.body;
+
+    const [existingBills] = await pool.execute(
+      'SELECT id, status FROM bills WHERE id = ? AND user_id = ?',
+      [billId, userId]
+    ) as any[];
+
+    if (existingBills.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const vendor = await findUserVendor(pool, userId, vendor_id);
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const amountPaid = await getBillPaidAmount(connection, billId);
+
+      if (parseFloat(amount) < amountPaid) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: `Amount cannot be less than the ${amountPaid.toFixed(2)} already paid`
+        });
+      }
+
+      // A cancelled bill owes nothing, so whatever was paid against it must be removed first
+      const cancelled = status ? status === 'cancelled' : existingBills[0].status === 'cancelled';
+      if (cancelled && amountPaid > 0) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: 'Delete the payments of this bill before cancelling it'
+        });
+      }
+
+      const newStatus = cancelled ? 'cancelled' : (amountPaid >= parseFloat(amount) ? 'paid' : 'open');
+
+      await connection.execute(
+        `UPDATE bills
+         SET vendor_id = ?, bill_number = ?, description = ?, category = ?, amount = ?, bill_date = ?,
+           due_date = ?, status = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND user_id = ?`,
+        [vendor_id, bill_number || null, description || null, category || null, amount, bill_date,
+         due_date || defaultDueDate(bill_date, vendor.payment_terms_days), newStatus, notes || null, billId, userId]
+      );
+
+      // Repost the bill to the ledger; a cancelled bill drops out of it
+      await syncJournalEntry(connection, userId, 'bill', billId);
+
+      const [bills] = await connection.execute(
+        `${BILL_SELECT}
+         WHERE b.id = ?`,
+        [billId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Bill updated successfully',
+        data: { bill: bills[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Update bill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a bill along with its payments
+router.delete('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+
+    if (isNaN(billId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid bill ID'
+      });
+    }
+
+    const [existingBills] = await pool.execute(
+      'SELECT id FROM bills WHERE id = ? AND user_id = ?',
+      [billId, userId]
+    ) as any[];
+
+    if (existingBills.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Give the payments back to their accounts before the bill goes
+      await removeBillPayments(connection, userId, billId);
+
+      await connection.execute(
+        'DELETE FROM bills WHERE id = ? AND user_id = ?',
+        [billId, userId]
+      );
+
+      // Remove the bill from the ledger
+      await syncJournalEntry(connection, userId, 'bill', billId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Bill deleted successfully'
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Delete bill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get payments made against a bill
+router.get('/:id/payments', [
+  param('id').isInt({ min: 1 }).withMessage('Invalid bill ID')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+
+    const [billRows] = await pool.execute(
+      'SELECT id, amount, status FROM bills WHERE id = ? AND user_id = ?',
+      [billId, userId]
+    ) as any[];
+
+    if (billRows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const [payments] = await pool.execute(`
+      SELECT bp.*, a.account_name
+      FROM bill_payments bp
+      LEFT JOIN accounts a ON bp.account_id = a.id
+      WHERE bp.bill_id = ? AND bp.user_id = ?
+      ORDER BY bp.payment_date, bp.id
+    `, [billId, userId]) as any[];
+
+    const amountPaid = payments.reduce((sum: number, payment: any) => sum + parseFloat(payment.amount), 0);
+    const bill = billRows[0];
+
+    res.json({
+      success: true,
+      data: {
+        payments,
+        amount_paid: Math.round(amountPaid * 100) / 100,
+        balance_due: bill.status === 'open' ? Math.round((parseFloat(bill.amount) - amountPaid) * 100) / 100 : 0
+      }
+    });
+  } catch (error) {
+    console.error('Get bill payments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Pay an instalment of an open bill
+router.post('/:id/payments', [
+  param('id').isInt({ min: 1 }).withMessage('Invalid bill ID'),
+  ...validateBillPayment
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const result = await recordBillPayment(connection, userId, billId, req.body);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: result.status === 'paid'
+          ? 'Payment recorded; the bill is now paid in full'
+          : 'Payment recorded successfully',
+        data: result
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Record bill payment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a payment from a bill; a paid bill is open again afterwards
+router.delete('/:id/payments/:paymentId', [
+  param('id').isInt({ min: 1 }).withMessage('Invalid bill ID'),
+  param('paymentId').isInt({ min: 1 }).withMessage('Invalid payment ID')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const billId = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+
+    const [billRows] = await pool.execute(
+      'SELECT id FROM bills WHERE id = ? AND user_id = ?',
+      [billId, userId]
+    ) as any[];
+
+    if (billRows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const removed = await removeBillPayments(connection, userId, billId, [paymentId]);
+
+      if (removed === 0) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Payment not found'
+        });
+      }
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Payment deleted successfully'
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Delete bill payment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,337 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { getBudgetStatus, BudgetStatus } from '../utils/budgets';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Get all budgets
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const [budgets] = await pool.execute(
+      `SELECT id, category, category_type, period, amount, rollover, start_date, created_at, updated_at
+       FROM budgets
+       WHERE user_id = ?
+       ORDER BY category_type, category`,
+      [userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { budgets }
+    });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get budget vs actual spending for the periods containing a date
+router.get('/vs-actual', [
+  query('date').optional().isISO8601().withMessage('Date must be valid ISO date'),
+  query('category_type').optional().isIn(['expense', 'purchase']).withMessage('Category type must be expense or purchase')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const date = req.query.date as string || new Date().toISOString().split('T')[0];
+    const categoryType = req.query.category_type as string;
+
+    let whereClause = 'WHERE user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (categoryType) {
+      whereClause += ' AND category_type = ?';
+      whereParams.push(categoryType);
+    }
+
+    const [budgets] = await pool.execute(
+      `SELECT id, category, category_type, period, amount, rollover, start_date
+       FROM budgets
+       ${whereClause}
+       ORDER BY category_type, category`,
+      whereParams
+    ) as any[];
+
+    const results: any[] = [];
+    for (const budget of budgets) {
+      const status = await getBudgetStatus(pool, userId, budget, date);
+      if (status) {
+        results.push({ ...budget, ...status });
+      }
+    }
+
+    const totals = results.reduce((acc: { available: number; spent: number }, item: BudgetStatus) => {
+      acc.available += item.available;
+      acc.spent += item.spent;
+      return acc;
+    }, { available: 0, spent: 0 });
+
+    res.json({
+      success: true,
+      data: {
+        date,
+        budgets: results,
+        summary: {
+          total_available: Math.round(totals.available * 100) / 100,
+          total_spent: Math.round(totals.spent * 100) / 100,
+          over_budget_count: results.filter((item) => item.status === 'exceeded').length,
+          warning_count: results.filter((item) => item.status === 'warning').length
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get budget vs actual error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new budget
+router.post('/', [
+  body('category')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 50 })
+    .withMessage('Category is required and cannot exceed 50 characters'),
+  body('category_type')
+    .optional()
+    .isIn(['expense', 'purchase'])
+    .withMessage('Category type must be expense or purchase'),
+  body('period')
+    .optional()
+    .isIn(['monthly', 'quarterly', 'yearly'])
+    .withMessage('Period must be monthly, quarterly or yearly'),
+  body('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+  body('rollover')
+    .optional()
+    .isBoolean()
+    .withMessage('Rollover flag must be a boolean'),
+  body('start_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      category,
+      category_type = 'expense',
+      period = 'monthly',
+      amount,
+      rollover = false,
+      start_date = new Date().toISOString().split('T')[0]
+    } = req.body;
+
+    // Check for an existing budget on this category
+    const [existingBudgets] = await pool.execute(
+      'SELECT id FROM budgets WHERE user_id = ? AND category_type = ? AND category = ?',
+      [userId, category_type, category]
+    ) as any[];
+
+    if (existingBudgets.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'A budget for this category already exists'
+      });
+    }
+
+    const [budgetResult] = await pool.execute(
+      'INSERT INTO budgets (user_id, category, category_type, period, amount, rollover, start_date) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [userId, category, category_type, period, amount, rollover, start_date]
+    ) as any[];
+
+    const [budgetRecords] = await pool.execute(
+      'SELECT * FROM budgets WHERE id = ?',
+      [budgetResult.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Budget created successfully',
+      data: { budget: budgetRecords[0] }
+    });
+  } catch (error) {
+    console.error('Create budget error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update budget
+router.put('/:id', [
+  body('period')
+    .optional()
+    .isIn(['monthly', 'quarterly', 'yearly'])
+    .withMessage('Period must be monthly, quarterly or yearly'),
+  body('amount')
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+  body('rollover')
+    .optional()
+    .isBoolean()
+    .withMessage('Rollover flag must be a boolean'),
+  body('start_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const budgetId = parseInt(req.params.id);
+
+    if (isNaN(budgetId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid budget ID'
+      });
+    }
+
+    const [existingBudgets] = await pool.execute(
+      'SELECT id FROM budgets WHERE id = ? AND user_id = ?',
+      [budgetId, userId]
+    ) as any[];
+
+    if (existingBudgets.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Budget not found'
+      });
+    }
+
+    const { period, amount, rollover, start_date } = req.body;
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (period !== undefined) {
+      updates.push('period = ?');
+      values.push(period);
+    }
+    if (amount !== undefined) {
+      updates.push('amount = ?');
+      values.push(amount);
+    }
+    if (rollover !== undefined) {
+      updates.push('rollover = ?');
+      values.push(rollover);
+    }
+    if (start_date !== undefined) {
+      updates.push('start_date = ?');
+      values.push(start_date);
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No valid fields to update'
+      });
+    }
+
+    values.push(budgetId);
+
+    await pool.execute(
+      `UPDATE budgets SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      values
+    );
+
+    const [updatedBudgets] = await pool.execute(
+      'SELECT * FROM budgets WHERE id = ?',
+      [budgetId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Budget updated successfully',
+      data: { budget: updatedBudgets[0] }
+    });
+  } catch (error) {
+    console.error('Update budget error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete budget
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const budgetId = parseInt(req.params.id);
+
+    if (isNaN(budgetId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid budget ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      'DELETE FROM budgets WHERE id = ? AND user_id = ?',
+      [budgetId, userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Budget not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Budget deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -2,13 +2,26 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import {
+  CATEGORY_RECORD_TABLES,
+  CategoryTotals,
+  CategoryType,
+  assertValidParent,
+  getCategorySubtree,
+  getCategoryTotals,
+  getCategoryTree,
+  getCategoryUsage,
+  mergeCategory,
+  renameCategory,
+  rollUpCategoryTotals
+} from '../utils/categories';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
-// Get all categories
+// Get all categories in tree order (parents followed by their subcategories)
 router.get('/', [
   query('type').optional().isIn(['income', 'expense', 'purchase', 'sale']).withMessage('Type must be income, expense, purchase, or sale')
 ], async (req, res) => {
@@ -23,28 +36,9 @@ router.get('/', [
     }
 
     const userId = req.user!.userId;
-    const type = req.query.type as string;
+    const type = req.query.type as CategoryType | undefined;
 
-    let whereClause = 'WHERE user_id = ?';
-    const whereParams = [userId];
-
-    if (type) {
-      whereClause += ' AND type = ?';
-      whereParams.push(type);
-    }
-
-    console.log('Category API - whereClause:', whereClause);
-    console.log('Category API - whereParams:', whereParams);
-
-    const [categories] = await pool.execute(
-      `SELECT id, name, type, color, icon, created_at 
-       FROM categories 
-       ${whereClause} 
-       ORDER BY type, name`,
-      whereParams
-    ) as any[];
-
-    console.log('Category API - Fetched categories:', categories);
+    const categories = await getCategoryTree(pool, userId, type);
 
     // Group categories by type
     const groupedCategories = categories.reduce((acc: any, category: any) => {
@@ -85,7 +79,7 @@ router.get('/:id', async (req, res) => {
     }
 
     const [categories] = await pool.execute(
-      'SELECT id, name, type, color, icon, created_at FROM categories WHERE id = ? AND user_id = ?',
+      'SELECT id, name, type, parent_id, color, icon, created_at FROM categories WHERE id = ? AND user_id = ?',
       [categoryId, userId]
     ) as any[];
 
@@ -119,6 +113,10 @@ router.post('/', [
   body('type')
     .isIn(['income', 'expense', 'purchase', 'sale'])
     .withMessage('Type must be income, expense, purchase, or sale'),
+  body('parent_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Parent category ID must be a positive integer'),
   body('color')
     .optional()
     .matches(/^#[0-9A-F]{6}$/i)
@@ -141,6 +139,7 @@ router.post('/', [
 
     const userId = req.user!.userId;
     const { name, type, color = '#3B82F6', icon = 'circle' } = req.body;
+    const parentId = req.body.parent_id ? parseInt(req.body.parent_id) : null;
 
     // Check for duplicate category name and type for the user
     const [existingCategories] = await pool.execute(
@@ -155,10 +154,14 @@ router.post('/', [
       });
     }
 
+    if (parentId) {
+      await assertValidParent(pool, userId, type, parentId, null);
+    }
+
     // Insert category record
     const [categoryResult] = await pool.execute(
-      'INSERT INTO categories (user_id, name, type, color, icon) VALUES (?, ?, ?, ?, ?)',
-      [userId, name, type, color, icon]
+      'INSERT INTO categories (user_id, name, type, parent_id, color, icon) VALUES (?, ?, ?, ?, ?, ?)',
+      [userId, name, type, parentId, color, icon]
     ) as any[];
 
     const categoryId = categoryResult.insertId;
@@ -174,7 +177,13 @@ router.post('/', [
       message: 'Category created successfully',
       data: { category: categoryRecords[0] }
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Create category error:', error);
     res.status(500).json({
       success: false,
@@ -191,6 +200,10 @@ router.put('/:id', [
     .notEmpty()
     .isLength({ max: 50 })
     .withMessage('Category name cannot be empty and cannot exceed 50 characters'),
+  body('parent_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Parent category ID must be a positive integer'),
   body('color')
     .optional()
     .matches(/^#[0-9A-F]{6}$/i)
@@ -254,11 +267,8 @@ router.put('/:id', [
 
     const updates: string[] = [];
     const values: any[] = [];
+    const renaming = name !== undefined && name !== existingCategory.name;
 
-    if (name !== undefined) {
-      updates.push('name = ?');
-      values.push(name);
-    }
     if (color !== undefined) {
       updates.push('color = ?');
       values.push(color);
@@ -267,8 +277,17 @@ router.put('/:id', [
       updates.push('icon = ?');
       values.push(icon);
     }
+    if (req.body.parent_id !== undefined) {
+      // null moves the category back to the top level
+      const parentId = req.body.parent_id ? parseInt(req.body.parent_id) : null;
+      if (parentId) {
+        await assertValidParent(pool, userId, existingCategory.type, parentId, categoryId);
+      }
+      updates.push('parent_id = ?');
+      values.push(parentId);
+    }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && !renaming && name === undefined) {
       return res.status(400).json({
         success: false,
         message: 'No valid fields to update'
@@ -277,11 +296,31 @@ router.put('/:id', [
 
     values.push(categoryId);
 
-    // Update category record
-    await pool.execute(
-      `UPDATE categories SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    );
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Update category record
+      if (updates.length > 0) {
+        await connection.execute(
+          `UPDATE categories SET ${updates.join(', ')} WHERE id = ?`,
+          values
+        );
+      }
+
+      // A new name is carried to every record and setting that uses the category
+      if (renaming) {
+        await renameCategory(connection, userId, existingCategory, name);
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
 
     // Get updated record
     const [updatedCategories] = await pool.execute(
@@ -294,7 +333,13 @@ router.put('/:id', [
       message: 'Category updated successfully',
       data: { category: updatedCategories[0] }
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Update category error:', error);
     res.status(500).json({
       success: false,
@@ -303,11 +348,24 @@ router.put('/:id', [
   }
 });
 
-// Delete category
-router.delete('/:id', async (req, res) => {
+// Delete category. A category in use can only be deleted by reassigning its records,
+// subcategories and settings to another category of the same type (?reassign_to=ID).
+router.delete('/:id', [
+  query('reassign_to').optional().isInt({ min: 1 }).withMessage('Reassign to must be a category ID')
+], async (req: express.Request, res: express.Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
     const userId = req.user!.userId;
     const categoryId = parseInt(req.params.id);
+    const reassignTo = req.query.reassign_to ? parseInt(req.query.reassign_to as string) : null;
 
     if (isNaN(categoryId)) {
       return res.status(400).json({
@@ -331,31 +389,42 @@ router.delete('/:id', async (req, res) => {
 
     const category = existingCategories[0];
 
-    // Check if category is being used in income or expenses
-    const [incomeUsage] = await pool.execute(
-      'SELECT COUNT(*) as count FROM income WHERE user_id = ? AND category = ?',
-      [userId, category.name]
-    ) as any[];
+    if (reassignTo) {
+      // Start transaction
+      const connection = await pool.getConnection();
+      await connection.beginTransaction();
 
-    const [expenseUsage] = await pool.execute(
-      'SELECT COUNT(*) as count FROM expenses WHERE user_id = ? AND category = ?',
-      [userId, category.name]
-    ) as any[];
+      try {
+        const merged = await mergeCategory(connection, userId, categoryId, reassignTo);
 
-    const [purchaseUsage] = await pool.execute(
-      'SELECT COUNT(*) as count FROM purchases WHERE user_id = ? AND category = ?',
-      [userId, category.name]
-    ) as any[];
+        await connection.commit();
+
+        return res.json({
+          success: true,
+          message: `Category deleted; ${merged.records_moved} record(s) reassigned to ${merged.target.name}`,
+          data: { records_moved: merged.records_moved, reassigned_to: merged.target }
+        });
+      } catch (error: any) {
+        await connection.rollback();
+        if (error.status) {
+          return res.status(error.status).json({
+            success: false,
+            message: error.message
+          });
+        }
+        throw error;
+      } finally {
+        connection.release();
+      }
+    }
+
+    const usage = await getCategoryUsage(pool, userId, category);
 
-    if (incomeUsage[0].count > 0 || expenseUsage[0].count > 0 || purchaseUsage[0].count > 0) {
+    if (usage.record_count > 0 || usage.budget_count > 0 || usage.subcategory_count > 0) {
       return res.status(400).json({
         success: false,
-        message: 'Cannot delete category that is being used in transactions',
-        data: {
-          income_count: incomeUsage[0].count,
-          expense_count: expenseUsage[0].count,
-          purchase_count: purchaseUsage[0].count
-        }
+        message: 'Category is in use; choose a category to reassign its records, budgets and subcategories to',
+        data: usage
       });
     }
 
@@ -378,7 +447,71 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-// Get category usage statistics
+// Merge a category into another of the same type: its records, subcategories, budgets and
+// other settings move to the target and the category itself is removed
+router.post('/:id/merge', [
+  body('target_id').isInt({ min: 1 }).withMessage('Target category ID is required')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const categoryId = parseInt(req.params.id);
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid category ID'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const merged = await mergeCategory(connection, userId, categoryId, parseInt(req.body.target_id));
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: `${merged.source.name} merged into ${merged.target.name}`,
+        data: {
+          category: merged.target,
+          records_moved: merged.records_moved
+        }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Merge category error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get category usage statistics. Figures include every subcategory; own_stats covers records
+// filed directly under this category and subcategories breaks the total down one level.
 router.get('/:id/stats', async (req, res) => {
   try {
     const userId = req.user!.userId;
@@ -393,7 +526,7 @@ router.get('/:id/stats', async (req, res) => {
 
     // Get category info
     const [categories] = await pool.execute(
-      'SELECT id, name, type FROM categories WHERE id = ? AND user_id = ?',
+      'SELECT id, name, type, parent_id FROM categories WHERE id = ? AND user_id = ?',
       [categoryId, userId]
     ) as any[];
 
@@ -405,61 +538,67 @@ router.get('/:id/stats', async (req, res) => {
     }
 
     const category = categories[0];
+    const tree = await getCategoryTree(pool, userId, category.type);
+    const subtree = getCategorySubtree(tree, categoryId);
+    const ids = subtree.map((item) => item.id);
+    const { lines, amount, where } = CATEGORY_RECORD_TABLES[category.type as CategoryType];
+    const placeholders = ids.map(() => '?').join(', ');
 
-    // Get usage statistics based on category type
-    let usageStats;
-    if (category.type === 'income') {
-      const [stats] = await pool.execute(
-        `SELECT 
-          COUNT(*) as transaction_count,
-          SUM(amount) as total_amount,
-          AVG(amount) as average_amount,
-          MIN(amount) as min_amount,
-          MAX(amount) as max_amount,
-          MIN(date) as earliest_date,
-          MAX(date) as latest_date
-         FROM income 
-         WHERE user_id = ? AND category = ?`,
-        [userId, category.name]
-      ) as any[];
-      usageStats = stats[0];
-    } else {
-      const [stats] = await pool.execute(
-        `SELECT 
-          COUNT(*) as transaction_count,
-          SUM(amount) as total_amount,
-          AVG(amount) as average_amount,
-          MIN(amount) as min_amount,
-          MAX(amount) as max_amount,
-          MIN(date) as earliest_date,
-          MAX(date) as latest_date
-         FROM expenses 
-         WHERE user_id = ? AND category = ?`,
-        [userId, category.name]
-      ) as any[];
-      usageStats = stats[0];
-    }
+    const statsQuery = (categoryIds: number[]) => pool.execute(
+      `SELECT 
+        COUNT(*) as transaction_count,
+        SUM(${amount}) as total_amount,
+        AVG(${amount}) as average_amount,
+        MIN(${amount}) as min_amount,
+        MAX(${amount}) as max_amount,
+        MIN(date) as earliest_date,
+        MAX(date) as latest_date
+       FROM ${lines} 
+       WHERE user_id = ? AND category_id IN (${categoryIds.map(() => '?').join(', ')})${where}`,
+      [userId, ...categoryIds]
+    ) as Promise<any[]>;
+
+    // Get usage statistics across the category and its subcategories
+    const [usageStats] = await statsQuery(ids);
+    const [ownStats] = await statsQuery([categoryId]);
 
     // Get monthly breakdown for current year
-    const table = category.type === 'income' ? 'income' : 'expenses';
     const [monthlyStats] = await pool.execute(
       `SELECT 
         MONTH(date) as month,
         MONTHNAME(date) as month_name,
-        SUM(amount) as monthly_amount,
+        SUM(${amount}) as monthly_amount,
         COUNT(*) as monthly_count
-       FROM ${table} 
-       WHERE user_id = ? AND category = ? AND YEAR(date) = YEAR(CURDATE())
+       FROM ${lines} 
+       WHERE user_id = ? AND category_id IN (${placeholders}) AND YEAR(date) = YEAR(CURDATE())${where}
        GROUP BY MONTH(date), MONTHNAME(date)
        ORDER BY MONTH(date)`,
-      [userId, category.name]
+      [userId, ...ids]
     ) as any[];
 
+    // Drill down: each direct subcategory with everything beneath it
+    const ownTotals = await getCategoryTotals(pool, userId, category.type);
+    const empty = { transaction_count: 0, total_amount: 0 };
+    const totals = rollUpCategoryTotals(subtree, (item) => ownTotals.get(item.id) || empty);
+    const subcategories = subtree
+      .filter((item) => item.parent_id === categoryId)
+      .map((item) => ({
+        id: item.id,
+        name: item.name,
+        child_count: item.child_count,
+        ...totals.get(item.id)
+      }));
+
     res.json({
       success: true,
       data: {
-        category,
-        usage_stats: usageStats,
+        category: {
+          ...category,
+          path: tree.find((item) => item.id === categoryId)?.path || category.name
+        },
+        usage_stats: usageStats[0],
+        own_stats: ownStats[0],
+        subcategories,
         monthly_breakdown: monthlyStats
       }
     });
@@ -472,59 +611,29 @@ router.get('/:id/stats', async (req, res) => {
   }
 });
 
-// Get all categories with usage counts
+// Get all categories in tree order with usage counts. transaction_count and total_amount
+// include subcategories; own_transaction_count and own_total_amount do not.
 router.get('/usage/summary', async (req, res) => {
   try {
     const userId = req.user!.userId;
 
-    // Get categories with usage counts
-    const [categoriesWithUsage] = await pool.execute(
-      `SELECT 
-        c.id,
-        c.name,
-        c.type,
-        c.color,
-        c.icon,
-        c.created_at,
-        COALESCE(usage.transaction_count, 0) as transaction_count,
-        COALESCE(usage.total_amount, 0) as total_amount
-       FROM categories c
-       LEFT JOIN (
-         SELECT 
-           category,
-           'income' as type,
-           COUNT(*) as transaction_count,
-           SUM(amount) as total_amount
-         FROM income 
-         WHERE user_id = ?
-         GROUP BY category
-         
-         UNION ALL
-         
-         SELECT 
-           category,
-           'expense' as type,
-           COUNT(*) as transaction_count,
-           SUM(amount) as total_amount
-         FROM expenses 
-         WHERE user_id = ?
-         GROUP BY category
-
-         UNION ALL
-
-         SELECT
-           category,
-           'purchase' as type,
-           COUNT(*) as transaction_count,
-           SUM(amount) as total_amount
-         FROM purchases
-         WHERE user_id = ?
-         GROUP BY category
-       ) usage ON c.name = usage.category AND c.type = usage.type
-       WHERE c.user_id = ?
-       ORDER BY c.type, usage.total_amount DESC, c.name`,
-      [userId, userId, userId, userId]
-    ) as any[];
+    const tree = await getCategoryTree(pool, userId);
+    const types = Object.keys(CATEGORY_RECORD_TABLES) as CategoryType[];
+    const typeTotals = new Map<CategoryType, Map<number, CategoryTotals>>();
+    for (const type of types) {
+      typeTotals.set(type, await getCategoryTotals(pool, userId, type));
+    }
+
+    const empty = { transaction_count: 0, total_amount: 0 };
+    const ownTotals = (category: { id: number; type: CategoryType }) => typeTotals.get(category.type)!.get(category.id) || empty;
+    const totals = rollUpCategoryTotals(tree, ownTotals);
+
+    const categoriesWithUsage = tree.map((category) => ({
+      ...category,
+      own_transaction_count: ownTotals(category).transaction_count,
+      own_total_amount: ownTotals(category).total_amount,
+      ...totals.get(category.id)
+    }));
 
     res.json({
       success: true,
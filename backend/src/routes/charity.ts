@@ -2,12 +2,32 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { validateExport } from '../middleware/validation';
+import { detachRecordAttachments, removeAttachmentFiles } from '../utils/attachments';
+import { syncJournalEntries, syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Columns available when exporting charity records as CSV/XLSX
+const CHARITY_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'income_date', header: 'Income Date', type: 'date' },
+  { key: 'income_description', header: 'Income', type: 'string' },
+  { key: 'income_amount', header: 'Income Amount', type: 'money' },
+  { key: 'description', header: 'Description', type: 'string' },
+  { key: 'recipient', header: 'Recipient', type: 'string' },
+  { key: 'amount_required', header: 'Required', type: 'money' },
+  { key: 'amount_paid', header: 'Paid', type: 'money' },
+  { key: 'amount_remaining', header: 'Remaining', type: 'money' },
+  { key: 'status', header: 'Status', type: 'string' },
+  { key: 'payment_date', header: 'Last Payment', type: 'date' },
+  { key: 'created_at', header: 'Created', type: 'date' }
+];
+
 // Get all charity records
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
@@ -16,7 +36,8 @@ router.get('/', [
   query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
   query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
   query('sort_by').optional().isIn(['created_at', 'amount_required', 'amount_remaining']).withMessage('Invalid sort field'),
-  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc')
+  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
+  ...validateExport
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -57,6 +78,23 @@ router.get('/', [
       whereParams.push(endDate);
     }
 
+    // Records matching the filters, in the requested order
+    const selectSql = `SELECT 
+        c.id, c.income_id, c.amount_required, c.amount_paid, c.amount_remaining,
+        c.status, c.payment_date, c.description, c.recipient, c.created_at, c.updated_at,
+        i.amount as income_amount, i.description as income_description, i.date as income_date
+       FROM charity c 
+       LEFT JOIN income i ON c.income_id = i.id
+       ${whereClause} 
+       ORDER BY c.${sortBy} ${sortOrder.toUpperCase()}`;
+
+    // Export every matching record instead of a page
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      const [exportRecords] = await pool.execute(selectSql, whereParams) as any[];
+      return sendExport(res, format, 'charity', selectExportColumns(CHARITY_EXPORT_COLUMNS, req.query.columns as string), exportRecords);
+    }
+
     // Get total count
     const [countResult] = await pool.execute(
       `SELECT COUNT(*) as total FROM charity c ${whereClause}`,
@@ -66,14 +104,7 @@ router.get('/', [
 
     // Get charity records with related income information
     const [charityRecords] = await pool.execute(
-      `SELECT 
-        c.id, c.income_id, c.amount_required, c.amount_paid, c.amount_remaining,
-        c.status, c.payment_date, c.description, c.recipient, c.created_at, c.updated_at,
-        i.amount as income_amount, i.description as income_description, i.date as income_date
-       FROM charity c 
-       LEFT JOIN income i ON c.income_id = i.id
-       ${whereClause} 
-       ORDER BY c.${sortBy} ${sortOrder.toUpperCase()}
+      `${selectSql}
        LIMIT ? OFFSET ?`,
       [...whereParams, limit, offset]
     ) as any[];
@@ -241,10 +272,13 @@ router.post('/payment', [
       );
 
       // Record transaction for audit trail
-      await connection.execute(
+      const [transactionResult] = await connection.execute(
         'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
         [userId, 'charity', charity_id, 'charity', payment_amount, `Charity payment: ${description || 'Charity contribution'}`, payment_date]
-      );
+      ) as any[];
+
+      // Post the payment against the charity owed
+      await syncJournalEntry(connection, userId, 'charity_payment', transactionResult.insertId);
 
       // Get updated charity record
       const [updatedRecords] = await connection.execute(
@@ -317,25 +351,41 @@ router.post('/', [
     const userId = req.user!.userId;
     const { amount_required, description, recipient } = req.body;
 
-    // Insert charity record
-    const [charityResult] = await pool.execute(
-      'INSERT INTO charity (user_id, amount_required, description, recipient) VALUES (?, ?, ?, ?)',
-      [userId, amount_required, description, recipient]
-    ) as any[];
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Insert charity record
+      const [charityResult] = await connection.execute(
+        'INSERT INTO charity (user_id, amount_required, description, recipient) VALUES (?, ?, ?, ?)',
+        [userId, amount_required, description, recipient]
+      ) as any[];
 
-    const charityId = charityResult.insertId;
+      const charityId = charityResult.insertId;
 
-    // Get the created charity record
-    const [charityRecords] = await pool.execute(
-      'SELECT * FROM charity WHERE id = ?',
-      [charityId]
-    ) as any[];
+      // Post the obligation to the ledger
+      await syncJournalEntry(connection, userId, 'charity', charityId);
 
-    res.status(201).json({
-      success: true,
-      message: 'Manual charity record created successfully',
-      data: { charity: charityRecords[0] }
-    });
+      // Get the created charity record
+      const [charityRecords] = await connection.execute(
+        'SELECT * FROM charity WHERE id = ?',
+        [charityId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Manual charity record created successfully',
+        data: { charity: charityRecords[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Create manual charity error:', error);
     res.status(500).json({
@@ -487,19 +537,32 @@ router.delete('/:id', async (req, res) => {
     await connection.beginTransaction();
 
     try {
+      const [payments] = await connection.execute(
+        "SELECT id FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ? AND transaction_type = 'charity'",
+        [charityId, 'charity', userId]
+      ) as any[];
+
       // Delete related transactions
       await connection.execute(
         'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
         [charityId, 'charity', userId]
       );
 
+      // Delete attachments of the record
+      const attachmentFiles = await detachRecordAttachments(connection, userId, 'charity', [charityId]);
+
       // Delete charity record
       await connection.execute(
         'DELETE FROM charity WHERE id = ? AND user_id = ?',
         [charityId, userId]
       );
 
+      // Remove the obligation and its payments from the ledger
+      await syncJournalEntry(connection, userId, 'charity', charityId);
+      await syncJournalEntries(connection, userId, 'charity_payment', payments.map((payment: any) => payment.id));
+
       await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
 
       res.json({
         success: true,
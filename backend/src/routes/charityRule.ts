@@ -0,0 +1,295 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { resolveCharityRate, DEFAULT_CHARITY_RATE } from '../utils/charity';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Get all charity rules
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const [rules] = await pool.execute(
+      `SELECT id, category, rate, is_exempt, effective_from, created_at, updated_at
+       FROM charity_rules
+       WHERE user_id = ?
+       ORDER BY category IS NULL DESC, category, effective_from DESC`,
+      [userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        default_rate: DEFAULT_CHARITY_RATE
+      }
+    });
+  } catch (error) {
+    console.error('Get charity rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the charity rate that applies to an income category on a date
+router.get('/resolve', [
+  query('category').optional().trim(),
+  query('date').optional().isISO8601().withMessage('Date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const category = req.query.category as string || 'General';
+    const date = req.query.date as string || new Date().toISOString().split('T')[0];
+
+    const rate = await resolveCharityRate(pool, userId, category, date);
+
+    res.json({
+      success: true,
+      data: { category, date, rate }
+    });
+  } catch (error) {
+    console.error('Resolve charity rate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new charity rule
+router.post('/', [
+  body('category')
+    .optional({ values: 'null' })
+    .trim()
+    .notEmpty()
+    .isLength({ max: 50 })
+    .withMessage('Category cannot be empty and cannot exceed 50 characters'),
+  body('rate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Rate must be between 0 and 100'),
+  body('is_exempt')
+    .optional()
+    .isBoolean()
+    .withMessage('Exempt flag must be a boolean'),
+  body('effective_from')
+    .isISO8601()
+    .withMessage('Effective from date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { category = null, rate = 0, is_exempt = false, effective_from } = req.body;
+
+    if (!category && is_exempt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only category rules can be exempt; set a 0% default rate instead'
+      });
+    }
+
+    // Check for a rule already starting on the same date for this category
+    const [existingRules] = await pool.execute(
+      'SELECT id FROM charity_rules WHERE user_id = ? AND category <=> ? AND effective_from = ?',
+      [userId, category, effective_from]
+    ) as any[];
+
+    if (existingRules.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'A charity rule for this category already starts on this date'
+      });
+    }
+
+    const [ruleResult] = await pool.execute(
+      'INSERT INTO charity_rules (user_id, category, rate, is_exempt, effective_from) VALUES (?, ?, ?, ?, ?)',
+      [userId, category, is_exempt ? 0 : rate, is_exempt, effective_from]
+    ) as any[];
+
+    const [ruleRecords] = await pool.execute(
+      'SELECT * FROM charity_rules WHERE id = ?',
+      [ruleResult.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Charity rule created successfully',
+      data: { rule: ruleRecords[0] }
+    });
+  } catch (error) {
+    console.error('Create charity rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update charity rule (only affects income recorded or re-dated afterwards)
+router.put('/:id', [
+  body('rate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Rate must be between 0 and 100'),
+  body('is_exempt')
+    .optional()
+    .isBoolean()
+    .withMessage('Exempt flag must be a boolean'),
+  body('effective_from')
+    .optional()
+    .isISO8601()
+    .withMessage('Effective from date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const ruleId = parseInt(req.params.id);
+
+    if (isNaN(ruleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid charity rule ID'
+      });
+    }
+
+    const [existingRules] = await pool.execute(
+      'SELECT id, category FROM charity_rules WHERE id = ? AND user_id = ?',
+      [ruleId, userId]
+    ) as any[];
+
+    if (existingRules.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Charity rule not found'
+      });
+    }
+
+    const { rate, is_exempt, effective_from } = req.body;
+
+    if (!existingRules[0].category && is_exempt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only category rules can be exempt; set a 0% default rate instead'
+      });
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (rate !== undefined) {
+      updates.push('rate = ?');
+      values.push(rate);
+    }
+    if (is_exempt !== undefined) {
+      updates.push('is_exempt = ?');
+      values.push(is_exempt);
+    }
+    if (effective_from !== undefined) {
+      updates.push('effective_from = ?');
+      values.push(effective_from);
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No valid fields to update'
+      });
+    }
+
+    values.push(ruleId);
+
+    await pool.execute(
+      `UPDATE charity_rules SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      values
+    );
+
+    const [updatedRules] = await pool.execute(
+      'SELECT * FROM charity_rules WHERE id = ?',
+      [ruleId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Charity rule updated successfully',
+      data: { rule: updatedRules[0] }
+    });
+  } catch (error) {
+    console.error('Update charity rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete charity rule
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const ruleId = parseInt(req.params.id);
+
+    if (isNaN(ruleId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid charity rule ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      'DELETE FROM charity_rules WHERE id = ? AND user_id = ?',
+      [ruleId, userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Charity rule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Charity rule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete charity rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
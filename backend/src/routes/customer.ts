@@ -0,0 +1,445 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { SALE_PAID_SQL, getAgingReport, getCustomerStatement } from '../utils/receivables';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Sales count, sales total and unpaid balance of each customer; use in queries that alias customers as `c`
+const CUSTOMER_TOTALS_SQL = `
+  (SELECT COUNT(*) FROM sales s WHERE s.customer_id = c.id AND s.status != 'cancelled') AS sale_count,
+  (SELECT COALESCE(SUM(s.selling_price), 0) FROM sales s WHERE s.customer_id = c.id AND s.status != 'cancelled') AS total_sales,
+  (SELECT COALESCE(SUM(s.selling_price - ${SALE_PAID_SQL}), 0) FROM sales s WHERE s.customer_id = c.id AND s.status = 'pending') AS outstanding_balance
+`;
+
+// Details accepted when creating or updating a customer
+const validateCustomer = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Customer name is required and cannot exceed 100 characters'),
+  body('contact')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Contact cannot exceed 50 characters'),
+  body('email')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isEmail()
+    .isLength({ max: 100 })
+    .withMessage('Email must be a valid address of at most 100 characters'),
+  body('address')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Address cannot exceed 1000 characters'),
+  body('tax_id')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Tax ID cannot exceed 50 characters'),
+  body('credit_limit')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Credit limit must be a non-negative number'),
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters')
+];
+
+// Get all customers with their sales totals and unpaid balance
+router.get('/', [
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search cannot exceed 100 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const search = req.query.search as string;
+
+    let whereClause = 'WHERE c.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (search) {
+      whereClause += ' AND (c.name LIKE ? OR c.contact LIKE ? OR c.email LIKE ?)';
+      whereParams.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+
+    const [customers] = await pool.execute(
+      `SELECT c.*, ${CUSTOMER_TOTALS_SQL}
+       FROM customers c
+       ${whereClause}
+       ORDER BY c.name`,
+      whereParams
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { customers, total: customers.length }
+    });
+  } catch (error) {
+    console.error('Get customers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Unpaid balances of pending sales in 0–30, 31–60, 61–90 and 90+ day buckets, per customer
+router.get('/receivables/aging', [
+  query('as_of').optional().isISO8601().withMessage('As-of date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const report = await getAgingReport(pool, userId, req.query.as_of as string || undefined);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Receivables aging error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get a single customer
+router.get('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid customer ID'
+      });
+    }
+
+    const [customers] = await pool.execute(
+      `SELECT c.*, ${CUSTOMER_TOTALS_SQL}
+       FROM customers c
+       WHERE c.id = ? AND c.user_id = ?`,
+      [customerId, userId]
+    ) as any[];
+
+    if (customers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { customer: customers[0] }
+    });
+  } catch (error) {
+    console.error('Get customer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Charges and payments of a customer over a period with a running balance
+router.get('/:id/statement', [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid customer ID'
+      });
+    }
+
+    const [customers] = await pool.execute(
+      'SELECT * FROM customers WHERE id = ? AND user_id = ?',
+      [customerId, userId]
+    ) as any[];
+
+    if (customers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const statement = await getCustomerStatement(pool, userId, customerId, {
+      start_date: req.query.start_date as string,
+      end_date: req.query.end_date as string
+    });
+
+    res.json({
+      success: true,
+      data: { customer: customers[0], ...statement }
+    });
+  } catch (error) {
+    console.error('Customer statement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new customer
+router.post('/', validateCustomer, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      name,
+      contact = null,
+      email = null,
+      address = null,
+      tax_id = null,
+      credit_limit = null,
+      notes = null
+    } = req.body;
+
+    // Check for duplicate customer name for the user
+    const [existingCustomers] = await pool.execute(
+      'SELECT id FROM customers WHERE user_id = ? AND name = ?',
+      [userId, name]
+    ) as any[];
+
+    if (existingCustomers.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Customer with this name already exists'
+      });
+    }
+
+    const [customerResult] = await pool.execute(
+      `INSERT INTO customers (user_id, name, contact, email, address, tax_id, credit_limit, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [userId, name, contact || null, email || null, address || null, tax_id || null, credit_limit, notes || null]
+    ) as any[];
+
+    const [customers] = await pool.execute(
+      'SELECT * FROM customers WHERE id = ?',
+      [customerResult.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Customer created successfully',
+      data: { customer: customers[0] }
+    });
+  } catch (error) {
+    console.error('Create customer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update a customer; a new name is carried over to their sales
+router.put('/:id', validateCustomer, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid customer ID'
+      });
+    }
+
+    const [existingCustomers] = await pool.execute(
+      'SELECT id, name FROM customers WHERE id = ? AND user_id = ?',
+      [customerId, userId]
+    ) as any[];
+
+    if (existingCustomers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const {
+      name,
+      contact = null,
+      email = null,
+      address = null,
+      tax_id = null,
+      credit_limit = null,
+      notes = null
+    } = req.body;
+
+    const [duplicateCustomers] = await pool.execute(
+      'SELECT id FROM customers WHERE user_id = ? AND name = ? AND id != ?',
+      [userId, name, customerId]
+    ) as any[];
+
+    if (duplicateCustomers.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Customer with this name already exists'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      await connection.execute(
+        `UPDATE customers
+         SET name = ?, contact = ?, email = ?, address = ?, tax_id = ?, credit_limit = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND user_id = ?`,
+        [name, contact || null, email || null, address || null, tax_id || null, credit_limit, notes || null, customerId, userId]
+      );
+
+      // Sales keep the customer's name as text for lists and exports
+      if (name !== existingCustomers[0].name) {
+        await connection.execute(
+          'UPDATE sales SET customer_name = ? WHERE customer_id = ? AND user_id = ?',
+          [name, customerId, userId]
+        );
+      }
+
+      const [customers] = await connection.execute(
+        'SELECT * FROM customers WHERE id = ?',
+        [customerId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Customer updated successfully',
+        data: { customer: customers[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Update customer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a customer. Their sales keep the customer's name but are no longer linked;
+// customers who still owe money cannot be deleted.
+router.delete('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid customer ID'
+      });
+    }
+
+    const [customers] = await pool.execute(
+      `SELECT c.id, ${CUSTOMER_TOTALS_SQL}
+       FROM customers c
+       WHERE c.id = ? AND c.user_id = ?`,
+      [customerId, userId]
+    ) as any[];
+
+    if (customers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    if (parseFloat(customers[0].outstanding_balance) > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'This customer still has unpaid sales; settle or cancel them before deleting'
+      });
+    }
+
+    await pool.execute(
+      'DELETE FROM customers WHERE id = ? AND user_id = ?',
+      [customerId, userId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Customer deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete customer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
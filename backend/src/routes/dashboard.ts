@@ -2,6 +2,8 @@ import express from 'express';
 import { query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { getFinancialSummary } from '../utils/dashboard';
+import { CATEGORY_RECORD_TABLES, getExpenseCategoryBreakdown } from '../utils/categories';
 
 const router = express.Router();
 
@@ -14,26 +16,7 @@ router.get('/summary', async (req, res) => {
     const userId = req.user!.userId;
 
     // Get financial summary
-    const [financialSummary] = await pool.execute(
-      `SELECT 
-        (SELECT COALESCE(SUM(amount), 0) FROM income WHERE user_id = ?) as total_income,
-        (SELECT COALESCE(SUM(amount), 0) FROM expenses WHERE user_id = ?) as total_expenses,
-        (SELECT COALESCE(SUM(amount), 0) FROM purchases WHERE user_id = ?) as total_purchases,
-        0 as total_sales_revenue,
-        0 as total_sales_profit,
-        (SELECT COUNT(*) FROM purchases WHERE user_id = ?) as total_purchases_count,
-        (SELECT COUNT(*) FROM sales WHERE user_id = ?) as total_sales_count,
-        (SELECT COALESCE(SUM(balance), 0) FROM accounts WHERE user_id = ?) as total_accounts_balance,
-        (SELECT COALESCE(SUM(current_balance), 0) FROM loans WHERE user_id = ? AND status = 'active') as total_active_loans,
-        (SELECT COALESCE(SUM(amount_required), 0) FROM charity WHERE user_id = ?) as total_charity_required,
-        (SELECT COALESCE(SUM(amount_paid), 0) FROM charity WHERE user_id = ?) as total_charity_paid,
-        (SELECT COALESCE(SUM(amount_remaining), 0) FROM charity WHERE user_id = ?) as total_charity_remaining`,
-      [userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId]
-    ) as any[];
-
-    const summary = financialSummary[0];
-    summary.net_worth = parseFloat(summary.total_income) - parseFloat(summary.total_expenses);
-    summary.available_cash = parseFloat(summary.total_accounts_balance) - parseFloat(summary.total_active_loans);
+    const summary = await getFinancialSummary(userId);
 
     // Get monthly data for current year
     const [monthlyData] = await pool.execute(
@@ -43,7 +26,10 @@ router.get('/summary', async (req, res) => {
         COALESCE(monthly_income, 0) as monthly_income,
         COALESCE(monthly_expenses, 0) as monthly_expenses,
         COALESCE(monthly_charity, 0) as monthly_charity,
-        (COALESCE(monthly_income, 0) - COALESCE(monthly_expenses, 0)) as monthly_profit
+        COALESCE(monthly_sales, 0) as monthly_sales,
+        COALESCE(monthly_sales_cost, 0) as monthly_sales_cost,
+        (COALESCE(monthly_sales, 0) - COALESCE(monthly_sales_cost, 0)) as monthly_gross_profit,
+        (COALESCE(monthly_income, 0) + COALESCE(monthly_sales, 0) - COALESCE(monthly_sales_cost, 0) - COALESCE(monthly_expenses, 0)) as monthly_profit
        FROM (
          SELECT 
            MONTH(CURDATE()) as current_month,
@@ -56,7 +42,9 @@ router.get('/summary', async (req, res) => {
            END as month_name,
            i.monthly_income,
            e.monthly_expenses,
-           c.monthly_charity
+           c.monthly_charity,
+           s.monthly_sales,
+           s.monthly_sales_cost
          FROM (
            SELECT 1 as month_num UNION SELECT 2 UNION SELECT 3 UNION SELECT 4 
            UNION SELECT 5 UNION SELECT 6 UNION SELECT 7 UNION SELECT 8 
@@ -70,7 +58,7 @@ router.get('/summary', async (req, res) => {
          ) i ON m.month_num = i.month
          LEFT JOIN (
            SELECT MONTH(date) as month, SUM(amount) as monthly_expenses
-           FROM expenses 
+           FROM ${CATEGORY_RECORD_TABLES.expense.lines} 
            WHERE user_id = ? AND YEAR(date) = YEAR(CURDATE())
            GROUP BY MONTH(date)
          ) e ON m.month_num = e.month
@@ -80,9 +68,15 @@ router.get('/summary', async (req, res) => {
            WHERE user_id = ? AND payment_date IS NOT NULL AND YEAR(payment_date) = YEAR(CURDATE())
            GROUP BY MONTH(payment_date)
          ) c ON m.month_num = c.month
+         LEFT JOIN (
+           SELECT MONTH(date) as month, SUM(selling_price) as monthly_sales, SUM(amount) as monthly_sales_cost
+           FROM sales 
+           WHERE user_id = ? AND status = 'completed' AND YEAR(date) = YEAR(CURDATE())
+           GROUP BY MONTH(date)
+         ) s ON m.month_num = s.month
        ) monthly_summary
        ORDER BY month_num`,
-      [userId, userId, userId]
+      [userId, userId, userId, userId]
     ) as any[];
 
     // Get recent transactions
@@ -97,20 +91,8 @@ router.get('/summary', async (req, res) => {
       [userId]
     ) as any[];
 
-    // Get top expense categories
-    const [topExpenseCategories] = await pool.execute(
-      `SELECT 
-        category,
-        SUM(amount) as total_amount,
-        COUNT(*) as transaction_count,
-        ROUND((SUM(amount) / (SELECT SUM(amount) FROM expenses WHERE user_id = ?)) * 100, 2) as percentage
-       FROM expenses 
-       WHERE user_id = ? 
-       GROUP BY category 
-       ORDER BY total_amount DESC 
-       LIMIT 5`,
-      [userId, userId]
-    ) as any[];
+    // Get top expense categories, subcategories rolled up into their top-level parent
+    const topExpenseCategories = await getExpenseCategoryBreakdown(pool, userId, 5);
 
     // Get income vs expenses trend (last 6 months)
     const [trendData] = await pool.execute(
@@ -118,7 +100,9 @@ router.get('/summary', async (req, res) => {
         DATE_FORMAT(month_year, '%Y-%m') as month,
         DATE_FORMAT(month_year, '%b %Y') as month_label,
         COALESCE(income_amount, 0) as income,
-        COALESCE(expense_amount, 0) as expenses
+        COALESCE(expense_amount, 0) as expenses,
+        COALESCE(sales_amount, 0) as sales,
+        COALESCE(sales_amount, 0) - COALESCE(sales_cost, 0) as sales_profit
        FROM (
          SELECT DATE_FORMAT(CURDATE() - INTERVAL n MONTH, '%Y-%m-01') as month_year
          FROM (SELECT 0 as n UNION SELECT 1 UNION SELECT 2 UNION SELECT 3 UNION SELECT 4 UNION SELECT 5) months
@@ -131,12 +115,18 @@ router.get('/summary', async (req, res) => {
        ) income_data ON DATE_FORMAT(calendar.month_year, '%Y-%m') = income_data.month
        LEFT JOIN (
          SELECT DATE_FORMAT(date, '%Y-%m') as month, SUM(amount) as expense_amount
-         FROM expenses 
+         FROM ${CATEGORY_RECORD_TABLES.expense.lines} 
          WHERE user_id = ? 
          GROUP BY DATE_FORMAT(date, '%Y-%m')
        ) expense_data ON DATE_FORMAT(calendar.month_year, '%Y-%m') = expense_data.month
+       LEFT JOIN (
+         SELECT DATE_FORMAT(date, '%Y-%m') as month, SUM(selling_price) as sales_amount, SUM(amount) as sales_cost
+         FROM sales 
+         WHERE user_id = ? AND status = 'completed'
+         GROUP BY DATE_FORMAT(date, '%Y-%m')
+       ) sales_data ON DATE_FORMAT(calendar.month_year, '%Y-%m') = sales_data.month
        ORDER BY month_year DESC`,
-      [userId, userId]
+      [userId, userId, userId]
     ) as any[];
 
     // Get charity status overview
@@ -249,7 +239,7 @@ router.get('/analytics', [
       [userId]
     ) as any[];
 
-    // Get expense analytics
+    // Get expense analytics, counting each line of a split expense under its own category
     const [expenseAnalytics] = await pool.execute(
       `SELECT 
         ${dateFormat} as period,
@@ -257,7 +247,7 @@ router.get('/analytics', [
         COUNT(*) as transaction_count,
         AVG(amount) as average_amount,
         category
-       FROM expenses 
+       FROM ${CATEGORY_RECORD_TABLES.expense.lines} 
        WHERE user_id = ? ${dateFilter}
        GROUP BY ${groupBy}, category
        ORDER BY period, total_amount DESC`,
@@ -270,10 +260,16 @@ router.get('/analytics', [
         all_periods.period,
         COALESCE(income_data.total_income, 0) as income,
         COALESCE(expenses_data.total_expenses, 0) as expenses,
-        (COALESCE(income_data.total_income, 0) - COALESCE(expenses_data.total_expenses, 0)) as profit,
+        COALESCE(sales_data.sales_revenue, 0) as sales_revenue,
+        COALESCE(sales_data.cost_of_goods, 0) as cost_of_goods,
+        (COALESCE(sales_data.sales_revenue, 0) - COALESCE(sales_data.cost_of_goods, 0)) as gross_profit,
+        (COALESCE(income_data.total_income, 0) + COALESCE(sales_data.sales_revenue, 0)
+          - COALESCE(sales_data.cost_of_goods, 0) - COALESCE(expenses_data.total_expenses, 0)) as profit,
         CASE
-            WHEN COALESCE(income_data.total_income, 0) > 0
-            THEN ROUND(((COALESCE(income_data.total_income, 0) - COALESCE(expenses_data.total_expenses, 0)) / income_data.total_income) * 100, 2)
+            WHEN COALESCE(income_data.total_income, 0) + COALESCE(sales_data.sales_revenue, 0) > 0
+            THEN ROUND(((COALESCE(income_data.total_income, 0) + COALESCE(sales_data.sales_revenue, 0)
+              - COALESCE(sales_data.cost_of_goods, 0) - COALESCE(expenses_data.total_expenses, 0))
+              / (COALESCE(income_data.total_income, 0) + COALESCE(sales_data.sales_revenue, 0))) * 100, 2)
             ELSE 0
         END as profit_margin
        FROM (
@@ -282,8 +278,12 @@ router.get('/analytics', [
            WHERE user_id = ? ${dateFilter}
            UNION
            SELECT DISTINCT ${dateFormat} as period
-           FROM expenses
+           FROM ${CATEGORY_RECORD_TABLES.expense.lines}
            WHERE user_id = ? ${dateFilter}
+           UNION
+           SELECT DISTINCT ${dateFormat} as period
+           FROM sales
+           WHERE user_id = ? AND status = 'completed' ${dateFilter}
        ) as all_periods
        LEFT JOIN (
            SELECT ${dateFormat} as period, SUM(amount) as total_income
@@ -293,12 +293,18 @@ router.get('/analytics', [
        ) as income_data ON all_periods.period = income_data.period
        LEFT JOIN (
            SELECT ${dateFormat} as period, SUM(amount) as total_expenses
-           FROM expenses
+           FROM ${CATEGORY_RECORD_TABLES.expense.lines}
            WHERE user_id = ? ${dateFilter}
            GROUP BY ${groupBy}
        ) as expenses_data ON all_periods.period = expenses_data.period
+       LEFT JOIN (
+           SELECT ${dateFormat} as period, SUM(selling_price) as sales_revenue, SUM(amount) as cost_of_goods
+           FROM sales
+           WHERE user_id = ? AND status = 'completed' ${dateFilter}
+           GROUP BY ${groupBy}
+       ) as sales_data ON all_periods.period = sales_data.period
        ORDER BY all_periods.period`,
-      [userId, userId, userId, userId]
+      [userId, userId, userId, userId, userId, userId]
     ) as any[];
 
     res.json({
@@ -333,8 +339,15 @@ router.get('/metrics', async (req, res) => {
         (SELECT COALESCE(SUM(amount), 0) FROM income WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)) as revenue_90d,
         
         -- Expense metrics
-        (SELECT COALESCE(SUM(amount), 0) FROM expenses WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 30 DAY)) as expenses_30d,
-        (SELECT COALESCE(SUM(amount), 0) FROM expenses WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)) as expenses_90d,
+        (SELECT COALESCE(SUM(amount), 0) FROM ${CATEGORY_RECORD_TABLES.expense.lines} WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 30 DAY)) as expenses_30d,
+        (SELECT COALESCE(SUM(amount), 0) FROM ${CATEGORY_RECORD_TABLES.expense.lines} WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)) as expenses_90d,
+        
+        -- Sales metrics (completed sales only)
+        (SELECT COALESCE(SUM(selling_price), 0) FROM sales WHERE user_id = ? AND status = 'completed' AND date >= DATE_SUB(CURDATE(), INTERVAL 30 DAY)) as sales_revenue_30d,
+        (SELECT COALESCE(SUM(profit), 0) FROM sales WHERE user_id = ? AND status = 'completed' AND date >= DATE_SUB(CURDATE(), INTERVAL 30 DAY)) as sales_profit_30d,
+        (SELECT COALESCE(SUM(selling_price), 0) FROM sales WHERE user_id = ? AND status = 'completed' AND date >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)) as sales_revenue_90d,
+        (SELECT COALESCE(SUM(profit), 0) FROM sales WHERE user_id = ? AND status = 'completed' AND date >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)) as sales_profit_90d,
+        (SELECT COALESCE(SUM(selling_price), 0) FROM sales WHERE user_id = ? AND status = 'pending') as sales_pending,
         
         -- Growth metrics
         (SELECT COALESCE(AVG(amount), 0) FROM income WHERE user_id = ? AND date >= DATE_SUB(CURDATE(), INTERVAL 30 DAY)) as avg_income_30d,
@@ -347,14 +360,16 @@ router.get('/metrics', async (req, res) => {
         -- Account metrics
         (SELECT COUNT(*) FROM accounts WHERE user_id = ?) as total_accounts,
         (SELECT COUNT(*) FROM loans WHERE user_id = ? AND status = 'active') as active_loans`,
-      [userId, userId, userId, userId, userId, userId, userId, userId, userId, userId]
+      [userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId, userId]
     ) as any[];
 
     const metrics = kpiMetrics[0];
 
     // Calculate derived metrics
-    metrics.profit_30d = parseFloat(metrics.revenue_30d) - parseFloat(metrics.expenses_30d);
-    metrics.profit_90d = parseFloat(metrics.revenue_90d) - parseFloat(metrics.expenses_90d);
+    metrics.profit_30d = parseFloat(metrics.revenue_30d) + parseFloat(metrics.sales_profit_30d) - parseFloat(metrics.expenses_30d);
+    metrics.profit_90d = parseFloat(metrics.revenue_90d) + parseFloat(metrics.sales_profit_90d) - parseFloat(metrics.expenses_90d);
+    metrics.gross_margin_30d = parseFloat(metrics.sales_revenue_30d) > 0 ?
+      (parseFloat(metrics.sales_profit_30d) / parseFloat(metrics.sales_revenue_30d)) * 100 : 0;
     metrics.burn_rate = parseFloat(metrics.expenses_30d) / 30; // Daily burn rate
     metrics.charity_compliance = parseFloat(metrics.charity_pending) === 0 ? 100 : 
       ((parseFloat(metrics.charity_paid_30d) / (parseFloat(metrics.charity_paid_30d) + parseFloat(metrics.charity_pending))) * 100);
@@ -364,13 +379,17 @@ router.get('/metrics', async (req, res) => {
       `SELECT 
         'current_month' as period,
         COALESCE(SUM(CASE WHEN table_name = 'income' THEN amount ELSE 0 END), 0) as income,
-        COALESCE(SUM(CASE WHEN table_name = 'expenses' THEN amount ELSE 0 END), 0) as expenses
+        COALESCE(SUM(CASE WHEN table_name = 'expenses' THEN amount ELSE 0 END), 0) as expenses,
+        COALESCE(SUM(CASE WHEN table_name = 'sales' THEN amount ELSE 0 END), 0) as sales
        FROM (
          SELECT 'income' as table_name, amount FROM income 
          WHERE user_id = ? AND YEAR(date) = YEAR(CURDATE()) AND MONTH(date) = MONTH(CURDATE())
          UNION ALL
-         SELECT 'expenses' as table_name, amount FROM expenses 
+         SELECT 'expenses' as table_name, amount FROM ${CATEGORY_RECORD_TABLES.expense.lines} 
          WHERE user_id = ? AND YEAR(date) = YEAR(CURDATE()) AND MONTH(date) = MONTH(CURDATE())
+         UNION ALL
+         SELECT 'sales' as table_name, selling_price as amount FROM sales 
+         WHERE user_id = ? AND status = 'completed' AND YEAR(date) = YEAR(CURDATE()) AND MONTH(date) = MONTH(CURDATE())
        ) current_data
        
        UNION ALL
@@ -378,27 +397,35 @@ router.get('/metrics', async (req, res) => {
        SELECT 
         'previous_month' as period,
         COALESCE(SUM(CASE WHEN table_name = 'income' THEN amount ELSE 0 END), 0) as income,
-        COALESCE(SUM(CASE WHEN table_name = 'expenses' THEN amount ELSE 0 END), 0) as expenses
+        COALESCE(SUM(CASE WHEN table_name = 'expenses' THEN amount ELSE 0 END), 0) as expenses,
+        COALESCE(SUM(CASE WHEN table_name = 'sales' THEN amount ELSE 0 END), 0) as sales
        FROM (
          SELECT 'income' as table_name, amount FROM income 
          WHERE user_id = ? AND date >= DATE_SUB(DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY), INTERVAL 1 MONTH)
                AND date < DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY)
          UNION ALL
-         SELECT 'expenses' as table_name, amount FROM expenses 
+         SELECT 'expenses' as table_name, amount FROM ${CATEGORY_RECORD_TABLES.expense.lines} 
          WHERE user_id = ? AND date >= DATE_SUB(DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY), INTERVAL 1 MONTH)
                AND date < DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY)
+         UNION ALL
+         SELECT 'sales' as table_name, selling_price as amount FROM sales 
+         WHERE user_id = ? AND status = 'completed'
+               AND date >= DATE_SUB(DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY), INTERVAL 1 MONTH)
+               AND date < DATE_SUB(CURDATE(), INTERVAL DAY(CURDATE()) - 1 DAY)
        ) previous_data`,
-      [userId, userId, userId, userId]
+      [userId, userId, userId, userId, userId, userId]
     ) as any[];
 
     // Calculate growth rates
-    const currentMonth = trendComparison.find((t: any) => t.period === 'current_month') || { income: 0, expenses: 0 };
-    const previousMonth = trendComparison.find((t: any) => t.period === 'previous_month') || { income: 0, expenses: 0 };
+    const currentMonth = trendComparison.find((t: any) => t.period === 'current_month') || { income: 0, expenses: 0, sales: 0 };
+    const previousMonth = trendComparison.find((t: any) => t.period === 'previous_month') || { income: 0, expenses: 0, sales: 0 };
 
     const incomeGrowthRate = previousMonth.income > 0 ? 
       ((currentMonth.income - previousMonth.income) / previousMonth.income) * 100 : 0;
     const expenseGrowthRate = previousMonth.expenses > 0 ? 
       ((currentMonth.expenses - previousMonth.expenses) / previousMonth.expenses) * 100 : 0;
+    const salesGrowthRate = previousMonth.sales > 0 ? 
+      ((currentMonth.sales - previousMonth.sales) / previousMonth.sales) * 100 : 0;
 
     res.json({
       success: true,
@@ -406,7 +433,8 @@ router.get('/metrics', async (req, res) => {
         kpi_metrics: metrics,
         growth_rates: {
           income_growth: Math.round(incomeGrowthRate * 100) / 100,
-          expense_growth: Math.round(expenseGrowthRate * 100) / 100
+          expense_growth: Math.round(expenseGrowthRate * 100) / 100,
+          sales_growth: Math.round(salesGrowthRate * 100) / 100
         },
         trend_comparison: {
           current_month: currentMonth,
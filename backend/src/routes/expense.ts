@@ -2,21 +2,54 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { validateExport, validateSplits, validateTagFilter, validateTags } from '../middleware/validation';
+import { findUserAccount, adjustAccountBalance } from '../utils/accounts';
+import { removeAttachmentFiles } from '../utils/attachments';
+import { checkBudgetAlert, checkSplitBudgetAlert } from '../utils/budgets';
+import { createExpenseRecord, deleteExpenseRecord } from '../utils/expenses';
+import { assertUserVendor } from '../utils/payables';
+import { syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
+import { EXPENSE_RECORD_LINES, linkRecordCategory } from '../utils/categories';
+import { attachRecordTags, buildTagFilter, parseTagFilter, setRecordTags } from '../utils/tags';
+import {
+  assertSplitTotal,
+  attachRecordSplits,
+  getRecordSplits,
+  hasSplitLines,
+  primarySplitCategory,
+  setRecordSplits
+} from '../utils/splits';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Columns available when exporting expenses as CSV/XLSX
+const EXPENSE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'date', header: 'Date', type: 'date' },
+  { key: 'description', header: 'Description', type: 'string' },
+  { key: 'category', header: 'Category', type: 'string' },
+  { key: 'payment_method', header: 'Payment Method', type: 'string' },
+  { key: 'account_name', header: 'Account', type: 'string' },
+  { key: 'vendor_name', header: 'Vendor', type: 'string' },
+  { key: 'amount', header: 'Amount', type: 'money' }
+];
+
 // Get all expense records
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('category').optional().trim(),
+  query('vendor_id').optional().isInt({ min: 1 }).withMessage('Vendor ID must be a positive integer'),
   query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
   query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
   query('sort_by').optional().isIn(['date', 'amount', 'created_at']).withMessage('Invalid sort field'),
-  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc')
+  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
+  ...validateTagFilter,
+  ...validateExport
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -33,6 +66,7 @@ router.get('/', [
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
     const category = req.query.category as string;
+    const vendorId = req.query.vendor_id as string;
     const startDate = req.query.start_date as string;
     const endDate = req.query.end_date as string;
     const sortBy = req.query.sort_by as string || 'date';
@@ -42,9 +76,15 @@ router.get('/', [
     let whereClause = 'WHERE user_id = ?';
     const whereParams = [userId];
 
+    // Split expenses match when any of their lines is in the category
     if (category) {
-      whereClause += ' AND category = ?';
-      whereParams.push(category);
+      whereClause += ` AND id IN (SELECT id FROM ${EXPENSE_RECORD_LINES} WHERE user_id = ? AND category = ?)`;
+      whereParams.push(userId, category);
+    }
+
+    if (vendorId) {
+      whereClause += ' AND vendor_id = ?';
+      whereParams.push(parseInt(vendorId));
     }
 
     if (startDate) {
@@ -57,6 +97,29 @@ router.get('/', [
       whereParams.push(endDate);
     }
 
+    // Keep records carrying every requested tag
+    const tagFilter = buildTagFilter(userId, 'expense', parseTagFilter(req.query.tags as string));
+    whereClause += tagFilter.clause;
+    whereParams.push(...tagFilter.params);
+
+    // Records matching the filters, in the requested order
+    const selectSql = `SELECT 
+        id, amount, description, category, payment_method, account_id, vendor_id, date, 
+        receipt_path, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = expenses.account_id) as account_name,
+        (SELECT name FROM vendors WHERE vendors.id = expenses.vendor_id) as vendor_name,
+        (SELECT COUNT(*) FROM attachments WHERE attachments.record_type = 'expense' AND attachments.record_id = expenses.id) as attachment_count
+       FROM expenses 
+       ${whereClause} 
+       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}`;
+
+    // Export every matching record instead of a page
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      const [exportRecords] = await pool.execute(selectSql, whereParams) as any[];
+      return sendExport(res, format, 'expenses', selectExportColumns(EXPENSE_EXPORT_COLUMNS, req.query.columns as string), exportRecords);
+    }
+
     // Get total count
     const [countResult] = await pool.execute(
       `SELECT COUNT(*) as total FROM expenses ${whereClause}`,
@@ -65,16 +128,12 @@ router.get('/', [
     const total = countResult[0].total;
 
     // Get expense records
-    const [expenseRecords] = await pool.execute(
-      `SELECT 
-        id, amount, description, category, payment_method, date, 
-        receipt_path, created_at, updated_at
-       FROM expenses 
-       ${whereClause} 
-       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}
+    const [expenseRows] = await pool.execute(
+      `${selectSql}
        LIMIT ? OFFSET ?`,
       [...whereParams, limit, offset]
     ) as any[];
+    const expenseRecords = await attachRecordSplits(pool, userId, 'expense', await attachRecordTags(pool, userId, 'expense', expenseRows));
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -119,8 +178,10 @@ router.get('/:id', async (req, res) => {
 
     const [expenseRecords] = await pool.execute(
       `SELECT 
-        id, amount, description, category, payment_method, date, 
-        receipt_path, created_at, updated_at
+        id, amount, description, category, payment_method, account_id, vendor_id, date, 
+        receipt_path, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = expenses.account_id) as account_name,
+        (SELECT name FROM vendors WHERE vendors.id = expenses.vendor_id) as vendor_name
        FROM expenses 
        WHERE id = ? AND user_id = ?`,
       [expenseId, userId]
@@ -133,9 +194,11 @@ router.get('/:id', async (req, res) => {
       });
     }
 
+    const [expense] = await attachRecordSplits(pool, userId, 'expense', await attachRecordTags(pool, userId, 'expense', expenseRecords));
+
     res.json({
       success: true,
-      data: { expense: expenseRecords[0] }
+      data: { expense }
     });
   } catch (error) {
     console.error('Get expense by ID error:', error);
@@ -156,7 +219,9 @@ router.post('/', [
     .trim()
     .isLength({ max: 500 })
     .withMessage('Description cannot exceed 500 characters'),
+  // A split expense takes its category from its lines
   body('category')
+    .if((value, { req }) => !hasSplitLines(req.body))
     .trim()
     .notEmpty()
     .isLength({ max: 50 })
@@ -166,6 +231,14 @@ router.post('/', [
     .trim()
     .isLength({ max: 50 })
     .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('vendor_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Vendor ID must be a positive integer'),
   body('date')
     .isISO8601()
     .withMessage('Date must be valid ISO date'),
@@ -173,7 +246,9 @@ router.post('/', [
     .optional()
     .trim()
     .isLength({ max: 255 })
-    .withMessage('Receipt path cannot exceed 255 characters')
+    .withMessage('Receipt path cannot exceed 255 characters'),
+  ...validateTags,
+  ...validateSplits
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -186,34 +261,30 @@ router.post('/', [
     }
 
     const userId = req.user!.userId;
-    const { amount, description = null, category, payment_method = 'Cash', date, receipt_path = null } = req.body;
+    const { amount, description = null, payment_method = 'Cash', account_id = null, vendor_id = null, date, receipt_path = null, tags = [] } = req.body;
+    const splits = hasSplitLines(req.body) ? req.body.splits : [];
+    // A split expense is filed under the category of its largest line
+    const category = splits.length > 0 ? primarySplitCategory(splits) : req.body.category;
 
     // Start transaction
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
-      // Insert expense record
-      const [expenseResult] = await connection.execute(
-        'INSERT INTO expenses (user_id, amount, description, category, payment_method, date, receipt_path) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, amount, description, category, payment_method, date, receipt_path]
-      ) as any[];
-
-      const expenseId = expenseResult.insertId;
-
-      // Get the created expense record
-      const [expenseRecords] = await connection.execute(
-        'SELECT * FROM expenses WHERE id = ?',
-        [expenseId]
-      ) as any[];
+      if (splits.length > 0) {
+        assertSplitTotal(splits, amount);
+      }
 
-      const expenseRecord = expenseRecords[0];
+      const expenseRecord = await createExpenseRecord(connection, userId, {
+        amount, description, category, payment_method, account_id, vendor_id, date, receipt_path
+      });
+      const expenseTags = await setRecordTags(connection, userId, 'expense', expenseRecord.id, tags);
+      const expenseSplits = await setRecordSplits(connection, userId, 'expense', expenseRecord.id, splits);
 
-      // Record transaction for audit trail
-      await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, 'expense', expenseId, 'expenses', amount, `Expense: ${description || category}`, date]
-      );
+      // Warn when this expense pushes its category (or one of its lines') past 80% or 100% of budget
+      const budgetAlert = expenseSplits.length > 0
+        ? await checkSplitBudgetAlert(connection, userId, 'expense', expenseSplits, date)
+        : await checkBudgetAlert(connection, userId, 'expense', category, date, parseFloat(amount));
 
       // Commit transaction
       await connection.commit();
@@ -221,10 +292,16 @@ router.post('/', [
       res.status(201).json({
         success: true,
         message: 'Expense record created successfully',
-        data: { expense: expenseRecord }
+        data: { expense: { ...expenseRecord, tags: expenseTags, splits: expenseSplits }, budget_alert: budgetAlert }
       });
-    } catch (error) {
+    } catch (error: any) {
       await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
       throw error;
     } finally {
       connection.release();
@@ -260,6 +337,14 @@ router.put('/:id', [
     .trim()
     .isLength({ max: 50 })
     .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('vendor_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Vendor ID must be a positive integer'),
   body('date')
     .optional()
     .isISO8601()
@@ -268,7 +353,9 @@ router.put('/:id', [
     .optional()
     .trim()
     .isLength({ max: 255 })
-    .withMessage('Receipt path cannot exceed 255 characters')
+    .withMessage('Receipt path cannot exceed 255 characters'),
+  ...validateTags,
+  ...validateSplits
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -292,7 +379,7 @@ router.put('/:id', [
 
     // Check if expense record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id FROM expenses WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, account_id FROM expenses WHERE id = ? AND user_id = ?',
       [expenseId, userId]
     ) as any[];
 
@@ -303,7 +390,21 @@ router.put('/:id', [
       });
     }
 
-    const { amount, description, category, payment_method, date, receipt_path } = req.body;
+    const { amount, description, payment_method, account_id, vendor_id, date, receipt_path, tags, splits } = req.body;
+    const oldAmount = existingRecords[0].amount;
+
+    // A split expense's amount and category follow from its lines, so changing either needs new lines
+    const isSplit = (await getRecordSplits(pool, userId, 'expense', [expenseId])).has(expenseId);
+    if (isSplit && splits === undefined && (amount !== undefined || req.body.category !== undefined)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This expense is split; send its split lines with the new amount or category'
+      });
+    }
+    const splitLines = hasSplitLines(req.body) ? splits : null;
+    const category = splitLines ? primarySplitCategory(splitLines) : req.body.category;
+    const oldAccountId = existingRecords[0].account_id;
+    const newAccountId = account_id !== undefined ? account_id : oldAccountId;
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -324,6 +425,14 @@ router.put('/:id', [
       updates.push('payment_method = ?');
       values.push(payment_method);
     }
+    if (account_id !== undefined) {
+      updates.push('account_id = ?');
+      values.push(account_id);
+    }
+    if (vendor_id !== undefined) {
+      updates.push('vendor_id = ?');
+      values.push(vendor_id);
+    }
     if (date !== undefined) {
       updates.push('date = ?');
       values.push(date);
@@ -333,7 +442,7 @@ router.put('/:id', [
       values.push(receipt_path);
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && tags === undefined && splits === undefined) {
       return res.status(400).json({
         success: false,
         message: 'No valid fields to update'
@@ -342,23 +451,88 @@ router.put('/:id', [
 
     values.push(expenseId);
 
-    // Update expense record
-    await pool.execute(
-      `UPDATE expenses SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      values
-    );
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    // Get updated record
-    const [updatedRecords] = await pool.execute(
-      'SELECT * FROM expenses WHERE id = ?',
-      [expenseId]
-    ) as any[];
+    try {
+      // Check the new paying account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
 
-    res.json({
-      success: true,
-      message: 'Expense record updated successfully',
-      data: { expense: updatedRecords[0] }
-    });
+      await assertUserVendor(connection, userId, vendor_id);
+
+      if (splitLines) {
+        assertSplitTotal(splitLines, amount !== undefined ? amount : oldAmount);
+      }
+
+      // Update expense record
+      if (updates.length > 0) {
+        await connection.execute(
+          `UPDATE expenses SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          values
+        );
+      }
+
+      if (tags !== undefined) {
+        await setRecordTags(connection, userId, 'expense', expenseId, tags);
+      }
+
+      // New lines replace the old; null or an empty list makes the expense whole again
+      if (splits !== undefined) {
+        await setRecordSplits(connection, userId, 'expense', expenseId, splitLines || []);
+      }
+
+      if (category !== undefined) {
+        await linkRecordCategory(connection, userId, 'expense', expenseId);
+      }
+
+      // Move the balance effect if the amount or account changed
+      if (amount !== undefined || account_id !== undefined) {
+        const newAmount = amount !== undefined ? parseFloat(amount) : parseFloat(oldAmount);
+        await adjustAccountBalance(connection, userId, oldAccountId, parseFloat(oldAmount));
+        await adjustAccountBalance(connection, userId, newAccountId, -newAmount);
+
+        await connection.execute(
+          'UPDATE transactions SET amount = ?, account_id = ? WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+          [newAmount, newAccountId, expenseId, 'expenses', userId]
+        );
+      }
+
+      // Repost the expense to the ledger
+      await syncJournalEntry(connection, userId, 'expense', expenseId);
+
+      // Get updated record
+      const [updatedRecords] = await connection.execute(
+        'SELECT * FROM expenses WHERE id = ?',
+        [expenseId]
+      ) as any[];
+      const [updatedExpense] = await attachRecordSplits(connection, userId, 'expense', await attachRecordTags(connection, userId, 'expense', updatedRecords));
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Expense record updated successfully',
+        data: { expense: updatedExpense }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Update expense error:', error);
     res.status(500).json({
@@ -383,7 +557,7 @@ router.delete('/:id', async (req, res) => {
 
     // Check if expense record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id FROM expenses WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, account_id FROM expenses WHERE id = ? AND user_id = ?',
       [expenseId, userId]
     ) as any[];
 
@@ -399,19 +573,10 @@ router.delete('/:id', async (req, res) => {
     await connection.beginTransaction();
 
     try {
-      // Delete related transactions
-      await connection.execute(
-        'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
-        [expenseId, 'expenses', userId]
-      );
-
-      // Delete expense record
-      await connection.execute(
-        'DELETE FROM expenses WHERE id = ? AND user_id = ?',
-        [expenseId, userId]
-      );
+      const attachmentFiles = await deleteExpenseRecord(connection, userId, existingRecords[0]);
 
       await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
 
       res.json({
         success: true,
@@ -464,14 +629,14 @@ router.get('/stats/summary', async (req, res) => {
       [userId]
     ) as any[];
 
-    // Get category breakdown
+    // Get category breakdown, counting each line of a split expense under its own category
     const [categoryStats] = await pool.execute(
       `SELECT 
         category,
         COUNT(*) as count,
         SUM(amount) as total_amount,
         AVG(amount) as average_amount
-       FROM expenses 
+       FROM ${EXPENSE_RECORD_LINES} 
        WHERE user_id = ? 
        GROUP BY category
        ORDER BY total_amount DESC`,
@@ -0,0 +1,376 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { todayString } from '../utils/dates';
+import {
+  AccountingTarget,
+  buildQuickBooksIif,
+  buildTallyXml,
+  buildXeroBankCsv,
+  buildXeroJournalCsv,
+  getAccountingVouchers,
+  getMappingSources,
+  saveAccountingMappings
+} from '../utils/accountingExport';
+import {
+  LedgerReportType,
+  buildCharityStatementPdf,
+  buildDashboardPdf,
+  buildLedgerPdf,
+  buildLoanStatementPdf
+} from '../utils/pdfReports';
+import { sendPdf } from '../utils/pdf';
+import { PlainTextSyntax, buildPlainTextJournal } from '../utils/plainText';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Dashboard summary as a PDF
+router.get('/pdf/dashboard', async (req, res) => {
+  try {
+    const pdf = await buildDashboardPdf(req.user!.userId);
+    sendPdf(res, pdf, `financial_summary_${todayString()}.pdf`);
+  } catch (error) {
+    console.error('Export dashboard PDF error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Income or expense records for a date range as a PDF
+router.get('/pdf/:type(income|expense)', [
+  query('start_date').isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const type = req.params.type as LedgerReportType;
+    const startDate = req.query.start_date as string;
+    const endDate = req.query.end_date as string;
+
+    if (startDate > endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start date must be on or before end date'
+      });
+    }
+
+    const pdf = await buildLedgerPdf(req.user!.userId, type, startDate, endDate);
+    sendPdf(res, pdf, `${type}_${startDate}_to_${endDate}.pdf`);
+  } catch (error) {
+    console.error('Export ledger PDF error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Statement of a loan and its payments as a PDF
+router.get('/pdf/loans/:id', async (req, res) => {
+  try {
+    const loanId = parseInt(req.params.id);
+
+    if (isNaN(loanId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loan ID'
+      });
+    }
+
+    const pdf = await buildLoanStatementPdf(req.user!.userId, loanId);
+
+    if (!pdf) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loan not found'
+      });
+    }
+
+    sendPdf(res, pdf, `loan_statement_${loanId}_${todayString()}.pdf`);
+  } catch (error) {
+    console.error('Export loan statement PDF error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Annual charity statement as a PDF (defaults to the current year)
+router.get('/pdf/charity', [
+  query('year').optional().isInt({ min: 1900, max: 2100 }).withMessage('Year must be valid')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const year = parseInt(req.query.year as string) || new Date().getFullYear();
+
+    const pdf = await buildCharityStatementPdf(req.user!.userId, year);
+    sendPdf(res, pdf, `charity_statement_${year}.pdf`);
+  } catch (error) {
+    console.error('Export charity statement PDF error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+const ACCOUNTING_TARGETS = ['tally', 'quickbooks', 'xero'];
+
+// Categories and accounts with their ledger names in an accounting system
+router.get('/accounting/mappings', [
+  query('target').isIn(ACCOUNTING_TARGETS).withMessage('Target must be tally, quickbooks or xero')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const sources = await getMappingSources(pool, req.user!.userId, req.query.target as AccountingTarget);
+
+    res.json({
+      success: true,
+      data: { mappings: sources }
+    });
+  } catch (error) {
+    console.error('Get accounting mappings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Save ledger names for an accounting system; an empty name removes the mapping
+router.put('/accounting/mappings', [
+  body('target')
+    .isIn(ACCOUNTING_TARGETS)
+    .withMessage('Target must be tally, quickbooks or xero'),
+  body('mappings')
+    .isArray({ min: 1 })
+    .withMessage('Mappings must be a non-empty list'),
+  body('mappings.*.source_type')
+    .isIn(['income', 'expense', 'purchase', 'sale', 'account'])
+    .withMessage('Source type must be income, expense, purchase, sale or account'),
+  body('mappings.*.source_key')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Source key is required and cannot exceed 50 characters'),
+  body('mappings.*.external_name')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage('Ledger name cannot exceed 150 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const target = req.body.target as AccountingTarget;
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      await saveAccountingMappings(connection, userId, target, req.body.mappings);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    res.json({
+      success: true,
+      message: 'Mappings saved successfully',
+      data: { mappings: await getMappingSources(pool, userId, target) }
+    });
+  } catch (error) {
+    console.error('Save accounting mappings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Income, expenses, purchases, sales and transfers for a period in an accounting system's
+// import format: Tally XML vouchers, QuickBooks IIF, or Xero manual journal / bank statement CSV
+router.get('/accounting/:target(tally|quickbooks|xero)', [
+  query('start_date').isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').isISO8601().withMessage('End date must be valid ISO date'),
+  query('xero_format').optional().isIn(['journal', 'bank']).withMessage('Xero format must be journal or bank'),
+  query('account_id').optional().isInt({ min: 1 }).withMessage('Account ID must be a positive integer'),
+  query('date_format')
+    .optional()
+    .isIn(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'])
+    .withMessage('Date format must be YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY'),
+  query('company_name').optional().trim().isLength({ max: 100 }).withMessage('Company name cannot exceed 100 characters'),
+  query('tax_rate').optional().trim().isLength({ max: 50 }).withMessage('Tax rate cannot exceed 50 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const target = req.params.target as AccountingTarget;
+    const startDate = req.query.start_date as string;
+    const endDate = req.query.end_date as string;
+    const xeroFormat = (req.query.xero_format as string) || 'journal';
+    const accountId = req.query.account_id ? parseInt(req.query.account_id as string) : null;
+
+    if (startDate > endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start date must be on or before end date'
+      });
+    }
+
+    if (target === 'xero' && xeroFormat === 'bank' && !accountId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose the account for a Xero bank statement'
+      });
+    }
+
+    const vouchers = await getAccountingVouchers(pool, userId, target, startDate, endDate);
+    const period = `${startDate}_to_${endDate}`;
+
+    let content: string;
+    let filename: string;
+    let contentType: string;
+    switch (target) {
+      case 'tally':
+        content = buildTallyXml(vouchers, (req.query.company_name as string) || '');
+        filename = `tally_vouchers_${period}.xml`;
+        contentType = 'application/xml; charset=utf-8';
+        break;
+      case 'quickbooks':
+        content = buildQuickBooksIif(vouchers);
+        filename = `quickbooks_${period}.iif`;
+        contentType = 'text/plain; charset=utf-8';
+        break;
+      default: {
+        const dateFormat = (req.query.date_format as any) || 'DD/MM/YYYY';
+        content = xeroFormat === 'bank'
+          ? buildXeroBankCsv(vouchers, accountId!, dateFormat)
+          : buildXeroJournalCsv(vouchers, dateFormat, (req.query.tax_rate as string) || 'Tax Exempt');
+        filename = `xero_${xeroFormat}_${period}.csv`;
+        contentType = 'text/csv; charset=utf-8';
+      }
+    }
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    console.error('Export accounting file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+const PLAIN_TEXT_EXTENSIONS: Record<PlainTextSyntax, string> = {
+  ledger: 'ledger',
+  hledger: 'journal',
+  beancount: 'beancount'
+};
+
+// @route   GET /api/export/plaintext/:syntax
+// @desc    Download the journal as a ledger, hledger or beancount file
+// @access  Private
+router.get('/plaintext/:syntax(ledger|hledger|beancount)', [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
+  query('commodity')
+    .optional()
+    .trim()
+    .matches(/^[A-Z][A-Z0-9'._-]{0,22}[A-Z0-9]$/)
+    .withMessage('Commodity must be an upper-case code such as USD')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const syntax = req.params.syntax as PlainTextSyntax;
+    const startDate = req.query.start_date as string | undefined;
+    const endDate = req.query.end_date as string | undefined;
+
+    if (startDate && endDate && startDate > endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start date must be on or before end date'
+      });
+    }
+
+    const content = await buildPlainTextJournal(pool, userId, syntax, {
+      start_date: startDate,
+      end_date: endDate,
+      commodity: (req.query.commodity as string) || 'USD'
+    });
+
+    const period = startDate || endDate ? `${startDate || 'start'}_to_${endDate || todayString()}` : todayString();
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="finance_${period}.${PLAIN_TEXT_EXTENSIONS[syntax]}"`);
+    res.send(content);
+  } catch (error) {
+    console.error('Export plain-text journal error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,461 @@
+import express from 'express';
+import multer from 'multer';
+import { body, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { removeAttachmentFiles } from '../utils/attachments';
+import {
+  IMPORT_FIELDS,
+  ImportOptions,
+  ImportPreviewRow,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  buildImportPreview,
+  commitImport,
+  importUpload,
+  parseImportFile,
+  rollbackImportBatch
+} from '../utils/imports';
+import {
+  PlainTextSyntax,
+  classifyPlainTextTransactions,
+  detectPlainTextSyntax,
+  importPlainTextRecords,
+  parsePlainTextJournal
+} from '../utils/plainText';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Rules shared by preview and commit: the parsed rows, column mapping and formats
+const validateImportOptions = [
+  body('record_type')
+    .isIn(['income', 'expense'])
+    .withMessage('Record type must be income or expense'),
+  body('rows')
+    .isArray({ min: 1, max: MAX_IMPORT_ROWS })
+    .withMessage(`Rows must be a list of 1 to ${MAX_IMPORT_ROWS} rows`),
+  body('mapping.date')
+    .isInt({ min: 0 })
+    .withMessage('A column must be mapped to the date'),
+  body('mapping.amount')
+    .isInt({ min: 0 })
+    .withMessage('A column must be mapped to the amount'),
+  body('mapping.*')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('Mapped columns must be column indexes'),
+  body('date_format')
+    .isIn(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'])
+    .withMessage('Date format must be YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY'),
+  body('decimal_format')
+    .isIn(['dot', 'comma'])
+    .withMessage('Decimal format must be dot or comma'),
+  body('defaults.category')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Default category cannot exceed 50 characters'),
+  body('defaults.payment_method')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Default payment method cannot exceed 50 characters'),
+  body('defaults.account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Default account ID must be a positive integer')
+];
+
+// Options from the request body, keeping only the fields the record type accepts
+const importOptions = (req: express.Request): ImportOptions => {
+  const recordType = req.body.record_type;
+  const mapping: Record<string, number> = {};
+  for (const field of IMPORT_FIELDS[recordType as ImportOptions['record_type']]) {
+    if (req.body.mapping[field] !== undefined && req.body.mapping[field] !== null) {
+      mapping[field] = parseInt(req.body.mapping[field]);
+    }
+  }
+
+  return {
+    record_type: recordType,
+    rows: req.body.rows.map((row: any) => Array.isArray(row) ? row.map((value: any) => String(value ?? '')) : []),
+    mapping,
+    date_format: req.body.date_format,
+    decimal_format: req.body.decimal_format,
+    defaults: {
+      category: req.body.defaults?.category || undefined,
+      payment_method: req.body.defaults?.payment_method || undefined,
+      account_id: req.body.defaults?.account_id ? parseInt(req.body.defaults.account_id) : null
+    }
+  };
+};
+
+const previewSummary = (rows: ImportPreviewRow[]) => {
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  return {
+    total_rows: rows.length,
+    valid_rows: validRows.length,
+    invalid_rows: rows.length - validRows.length,
+    total_amount: Math.round(validRows.reduce((sum, row) => sum + parseFloat(row.values.amount), 0) * 100) / 100
+  };
+};
+
+const receiveUpload = (req: express.Request, res: express.Response) => new Promise<void>((resolve, reject) => {
+  importUpload.single('file')(req, res, (error: any) => error ? reject(error) : resolve());
+});
+
+const sendUploadError = (res: express.Response, error: multer.MulterError) => {
+  const messages: Record<string, string> = {
+    LIMIT_FILE_SIZE: `File must be ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)} MB or smaller`,
+    LIMIT_FILE_COUNT: 'Only one file can be imported at a time',
+    LIMIT_UNEXPECTED_FILE: 'File must be sent in the "file" field'
+  };
+  return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+    success: false,
+    message: messages[error.code] || error.message
+  });
+};
+
+// Read an uploaded .csv or .xlsx file and return its header and rows for column mapping
+router.post('/parse', async (req, res) => {
+  try {
+    try {
+      await receiveUpload(req, res);
+    } catch (error: any) {
+      if (error instanceof multer.MulterError) {
+        return sendUploadError(res, error);
+      }
+      throw error;
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const { headers, rows } = parseImportFile(req.file.buffer, req.file.originalname);
+
+    res.json({
+      success: true,
+      data: {
+        file_name: req.file.originalname,
+        headers,
+        rows,
+        fields: IMPORT_FIELDS
+      }
+    });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Parse import file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Dry run: convert and validate every row without saving anything
+router.post('/preview', validateImportOptions, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const rows = await buildImportPreview(pool, req.user!.userId, importOptions(req));
+
+    res.json({
+      success: true,
+      data: {
+        rows,
+        summary: previewSummary(rows)
+      }
+    });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Preview import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Import the rows in one transaction under a new batch. Rows with errors fail the whole
+// import unless skip_invalid is set, in which case only the valid rows are created.
+router.post('/commit', [
+  ...validateImportOptions,
+  body('file_name')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('File name cannot exceed 255 characters'),
+  body('skip_invalid')
+    .optional()
+    .isBoolean()
+    .withMessage('Skip invalid must be true or false')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const options = importOptions(req);
+    const skipInvalid = req.body.skip_invalid === true || req.body.skip_invalid === 'true';
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const rows = await buildImportPreview(connection, userId, options);
+      const summary = previewSummary(rows);
+      const validRows = rows.filter((row) => row.errors.length === 0);
+
+      if (summary.invalid_rows > 0 && !skipInvalid) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: `${summary.invalid_rows} row(s) have errors; fix them or skip invalid rows`,
+          data: {
+            rows: rows.filter((row) => row.errors.length > 0),
+            summary
+          }
+        });
+      }
+
+      if (validRows.length === 0) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: 'No valid rows to import'
+        });
+      }
+
+      const batch = await commitImport(connection, userId, options.record_type, req.body.file_name || null, validRows);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `${validRows.length} ${options.record_type} record(s) imported successfully`,
+        data: {
+          batch,
+          summary
+        }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Commit import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Read a ledger/hledger or beancount journal (multipart: file, optional syntax and dry_run).
+// Simple income, expense and transfer transactions are created in one go; everything else,
+// and anything already in the books, is listed back so nothing is dropped silently.
+router.post('/plaintext', async (req, res) => {
+  try {
+    try {
+      await receiveUpload(req, res);
+    } catch (error: any) {
+      if (error instanceof multer.MulterError) {
+        return sendUploadError(res, error);
+      }
+      throw error;
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const requestedSyntax = req.body.syntax as string | undefined;
+    if (requestedSyntax && !['ledger', 'hledger', 'beancount'].includes(requestedSyntax)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Syntax must be ledger, hledger or beancount'
+      });
+    }
+
+    const userId = req.user!.userId;
+    const syntax = (requestedSyntax as PlainTextSyntax) || detectPlainTextSyntax(req.file.originalname);
+    const dryRun = req.body.dry_run === true || req.body.dry_run === 'true';
+    const { transactions, errors } = parsePlainTextJournal(req.file.buffer.toString('utf8'), syntax);
+
+    if (transactions.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No transactions found in the file',
+        data: { errors }
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const lines = await classifyPlainTextTransactions(connection, userId, transactions);
+      const summary = {
+        transactions: lines.length,
+        new: lines.filter((line) => line.status === 'new').length,
+        duplicates: lines.filter((line) => line.status === 'duplicate').length,
+        unclassified: lines.filter((line) => line.status === 'unclassified').length,
+        errors: errors.length
+      };
+
+      const created = dryRun ? null : await importPlainTextRecords(connection, userId, lines);
+
+      if (dryRun) {
+        await connection.rollback();
+      } else {
+        await connection.commit();
+      }
+
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        message: dryRun
+          ? `${summary.new} of ${summary.transactions} transaction(s) can be imported`
+          : `${summary.new} transaction(s) imported successfully`,
+        data: {
+          syntax,
+          summary,
+          created,
+          lines,
+          errors
+        }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Import plain-text journal error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get all import batches, newest first
+router.get('/batches', async (req, res) => {
+  try {
+    const [batches] = await pool.execute(
+      'SELECT * FROM import_batches WHERE user_id = ? ORDER BY created_at DESC, id DESC',
+      [req.user!.userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { batches }
+    });
+  } catch (error) {
+    console.error('Get import batches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Roll back an import: delete every record it created and reverse their effects
+router.post('/batches/:id/rollback', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const batchId = parseInt(req.params.id);
+
+    if (isNaN(batchId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import batch ID'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const { batch, deleted, attachmentFiles } = await rollbackImportBatch(connection, userId, batchId);
+
+      await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
+
+      res.json({
+        success: true,
+        message: `Import rolled back; ${deleted} record(s) deleted`,
+        data: { batch, deleted }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Rollback import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
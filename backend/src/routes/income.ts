@@ -2,12 +2,35 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { validateExport, validateTagFilter, validateTags } from '../middleware/validation';
+import { findUserAccount, adjustAccountBalance } from '../utils/accounts';
+import { resolveCharityRate, calculateCharityAmount } from '../utils/charity';
+import { removeAttachmentFiles } from '../utils/attachments';
+import { createIncomeRecord, deleteIncomeRecord } from '../utils/income';
+import { findSettlingInvoice } from '../utils/invoices';
+import { syncJournalEntries, syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
+import { linkRecordCategory } from '../utils/categories';
+import { attachRecordTags, buildTagFilter, parseTagFilter, setRecordTags } from '../utils/tags';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Columns available when exporting income as CSV/XLSX
+const INCOME_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'date', header: 'Date', type: 'date' },
+  { key: 'description', header: 'Description', type: 'string' },
+  { key: 'category', header: 'Category', type: 'string' },
+  { key: 'source', header: 'Source', type: 'string' },
+  { key: 'account_name', header: 'Account', type: 'string' },
+  { key: 'amount', header: 'Amount', type: 'money' },
+  { key: 'charity_rate', header: 'Charity Rate (%)', type: 'number' },
+  { key: 'charity_required', header: 'Charity Required', type: 'money' }
+];
+
 // Get all income records
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
@@ -16,7 +39,9 @@ router.get('/', [
   query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
   query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
   query('sort_by').optional().isIn(['date', 'amount', 'created_at']).withMessage('Invalid sort field'),
-  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc')
+  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
+  ...validateTagFilter,
+  ...validateExport
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -57,6 +82,27 @@ router.get('/', [
       whereParams.push(endDate);
     }
 
+    // Keep records carrying every requested tag
+    const tagFilter = buildTagFilter(userId, 'income', parseTagFilter(req.query.tags as string));
+    whereClause += tagFilter.clause;
+    whereParams.push(...tagFilter.params);
+
+    // Records matching the filters, in the requested order
+    const selectSql = `SELECT 
+        id, amount, description, category, source, account_id, date, 
+        charity_rate, charity_required, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = income.account_id) as account_name
+       FROM income 
+       ${whereClause} 
+       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}`;
+
+    // Export every matching record instead of a page
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      const [exportRecords] = await pool.execute(selectSql, whereParams) as any[];
+      return sendExport(res, format, 'income', selectExportColumns(INCOME_EXPORT_COLUMNS, req.query.columns as string), exportRecords);
+    }
+
     // Get total count
     const [countResult] = await pool.execute(
       `SELECT COUNT(*) as total FROM income ${whereClause}`,
@@ -65,16 +111,12 @@ router.get('/', [
     const total = countResult[0].total;
 
     // Get income records
-    const [incomeRecords] = await pool.execute(
-      `SELECT 
-        id, amount, description, category, source, date, 
-        charity_required, created_at, updated_at
-       FROM income 
-       ${whereClause} 
-       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}
+    const [incomeRows] = await pool.execute(
+      `${selectSql}
        LIMIT ? OFFSET ?`,
       [...whereParams, limit, offset]
     ) as any[];
+    const incomeRecords = await attachRecordTags(pool, userId, 'income', incomeRows);
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -119,8 +161,9 @@ router.get('/:id', async (req, res) => {
 
     const [incomeRecords] = await pool.execute(
       `SELECT 
-        id, amount, description, category, source, date, 
-        charity_required, created_at, updated_at
+        id, amount, description, category, source, account_id, date, 
+        charity_rate, charity_required, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = income.account_id) as account_name
        FROM income 
        WHERE id = ? AND user_id = ?`,
       [incomeId, userId]
@@ -133,9 +176,11 @@ router.get('/:id', async (req, res) => {
       });
     }
 
+    const [income] = await attachRecordTags(pool, userId, 'income', incomeRecords);
+
     res.json({
       success: true,
-      data: { income: incomeRecords[0] }
+      data: { income }
     });
   } catch (error) {
     console.error('Get income by ID error:', error);
@@ -166,9 +211,14 @@ router.post('/', [
     .trim()
     .isLength({ max: 100 })
     .withMessage('Source cannot exceed 100 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
   body('date')
     .isISO8601()
-    .withMessage('Date must be valid ISO date')
+    .withMessage('Date must be valid ISO date'),
+  ...validateTags
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -181,41 +231,17 @@ router.post('/', [
     }
 
     const userId = req.user!.userId;
-    const { amount, description, category = 'General', source, date } = req.body;
+    const { amount, description, category = 'General', source, account_id = null, date, tags = [] } = req.body;
 
     // Start transaction
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
-      // Insert income record (charity_required is auto-calculated by the database)
-      const [incomeResult] = await connection.execute(
-        'INSERT INTO income (user_id, amount, description, category, source, date) VALUES (?, ?, ?, ?, ?, ?)',
-        [userId, amount, description, category, source, date]
-      ) as any[];
-
-      const incomeId = incomeResult.insertId;
-
-      // Get the created income record with calculated charity_required
-      const [incomeRecords] = await connection.execute(
-        'SELECT * FROM income WHERE id = ?',
-        [incomeId]
-      ) as any[];
-
-      const incomeRecord = incomeRecords[0];
-
-      // Create charity record with auto-calculated 6% amount
-      const charityAmount = parseFloat(incomeRecord.charity_required);
-      await connection.execute(
-        'INSERT INTO charity (user_id, income_id, amount_required, description) VALUES (?, ?, ?, ?)',
-        [userId, incomeId, charityAmount, `Charity for income: ${description || category}`]
-      );
-
-      // Record transaction for audit trail
-      await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, 'income', incomeId, 'income', amount, `Income: ${description || category}`, date]
-      );
+      const { income, charity_created } = await createIncomeRecord(connection, userId, {
+        amount, description, category, source, account_id, date
+      });
+      const incomeTags = await setRecordTags(connection, userId, 'income', income.id, tags);
 
       // Commit transaction
       await connection.commit();
@@ -224,15 +250,18 @@ router.post('/', [
         success: true,
         message: 'Income record created successfully',
         data: {
-          income: incomeRecord,
-          charity_created: {
-            amount_required: charityAmount,
-            status: 'pending'
-          }
+          income: { ...income, tags: incomeTags },
+          charity_created
         }
       });
-    } catch (error) {
+    } catch (error: any) {
       await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
       throw error;
     } finally {
       connection.release();
@@ -267,10 +296,15 @@ router.put('/:id', [
     .trim()
     .isLength({ max: 100 })
     .withMessage('Source cannot exceed 100 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
   body('date')
     .optional()
     .isISO8601()
-    .withMessage('Date must be valid ISO date')
+    .withMessage('Date must be valid ISO date'),
+  ...validateTags
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -294,7 +328,7 @@ router.put('/:id', [
 
     // Check if income record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id, amount FROM income WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, category, date, charity_rate, account_id FROM income WHERE id = ? AND user_id = ?',
       [incomeId, userId]
     ) as any[];
 
@@ -305,8 +339,20 @@ router.put('/:id', [
       });
     }
 
-    const { amount, description, category, source, date } = req.body;
-    const oldAmount = existingRecords[0].amount;
+    // Income recorded by paying an invoice changes with the invoice
+    const invoiceNumber = await findSettlingInvoice(pool, userId, 'income', incomeId);
+    if (invoiceNumber) {
+      return res.status(400).json({
+        success: false,
+        message: `This income was recorded by paying invoice ${invoiceNumber}; undo the invoice payment instead`
+      });
+    }
+
+    const { amount, description, category, source, account_id, date, tags } = req.body;
+    const existingIncome = existingRecords[0];
+    const oldAmount = existingIncome.amount;
+    const oldAccountId = existingRecords[0].account_id;
+    const newAccountId = account_id !== undefined ? account_id : oldAccountId;
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -327,12 +373,16 @@ router.put('/:id', [
       updates.push('source = ?');
       values.push(source);
     }
+    if (account_id !== undefined) {
+      updates.push('account_id = ?');
+      values.push(account_id);
+    }
     if (date !== undefined) {
       updates.push('date = ?');
       values.push(date);
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && tags === undefined) {
       return res.status(400).json({
         success: false,
         message: 'No valid fields to update'
@@ -346,35 +396,99 @@ router.put('/:id', [
     await connection.beginTransaction();
 
     try {
+      // Check the new receiving account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
+
       // Update income record
-      await connection.execute(
-        `UPDATE income SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-        values
-      );
-
-      // If amount changed, update related charity record
-      if (amount !== undefined && amount !== oldAmount) {
-        const newCharityAmount = amount * 0.06;
-        
-        // Update charity amount_required
+      if (updates.length > 0) {
+        await connection.execute(
+          `UPDATE income SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          values
+        );
+      }
+
+      if (tags !== undefined) {
+        await setRecordTags(connection, userId, 'income', incomeId, tags);
+      }
+
+      if (category !== undefined) {
+        await linkRecordCategory(connection, userId, 'income', incomeId);
+      }
+
+      // Recalculate the charity obligation when the amount, category or date changed.
+      // The rate already stored on the income is kept unless the category or date moved
+      // it under a different rule, so later rule changes never rewrite past obligations.
+      if (amount !== undefined || category !== undefined || date !== undefined) {
+        const charityRate = category !== undefined || date !== undefined
+          ? await resolveCharityRate(connection, userId, category ?? existingIncome.category, date ?? existingIncome.date)
+          : parseFloat(existingIncome.charity_rate);
+        const newCharityAmount = calculateCharityAmount(
+          amount !== undefined ? parseFloat(amount) : parseFloat(oldAmount),
+          charityRate
+        );
+
+        await connection.execute(
+          'UPDATE income SET charity_rate = ?, charity_required = ? WHERE id = ?',
+          [charityRate, newCharityAmount, incomeId]
+        );
+
+        // Update charity amount_required and keep its status consistent with payments made
+        const [charityUpdate] = await connection.execute(
+          `UPDATE charity SET 
+            amount_required = ?,
+            status = CASE WHEN amount_paid >= ? THEN 'paid' WHEN amount_paid > 0 THEN 'partial' ELSE 'pending' END,
+            updated_at = CURRENT_TIMESTAMP
+           WHERE income_id = ? AND user_id = ?`,
+          [newCharityAmount, newCharityAmount, incomeId, userId]
+        ) as any[];
+
+        if (charityUpdate.affectedRows === 0 && newCharityAmount > 0) {
+          await connection.execute(
+            'INSERT INTO charity (user_id, income_id, amount_required, description) VALUES (?, ?, ?, ?)',
+            [userId, incomeId, newCharityAmount, `Charity for income: ${description || category || existingIncome.category}`]
+          );
+        }
+      }
+
+      // Move the balance effect if the amount or account changed
+      if (amount !== undefined || account_id !== undefined) {
+        const newAmount = amount !== undefined ? parseFloat(amount) : parseFloat(oldAmount);
+        await adjustAccountBalance(connection, userId, oldAccountId, -parseFloat(oldAmount));
+        await adjustAccountBalance(connection, userId, newAccountId, newAmount);
+
         await connection.execute(
-          'UPDATE charity SET amount_required = ? WHERE income_id = ? AND user_id = ?',
-          [newCharityAmount, incomeId, userId]
+          'UPDATE transactions SET amount = ?, account_id = ? WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+          [newAmount, newAccountId, incomeId, 'income', userId]
         );
       }
 
+      // Repost the income and its charity obligation to the ledger
+      const [charityRecords] = await connection.execute(
+        'SELECT id FROM charity WHERE income_id = ? AND user_id = ?',
+        [incomeId, userId]
+      ) as any[];
+      await syncJournalEntry(connection, userId, 'income', incomeId);
+      await syncJournalEntries(connection, userId, 'charity', charityRecords.map((charity: any) => charity.id));
+
       // Get updated record
       const [updatedRecords] = await connection.execute(
         'SELECT * FROM income WHERE id = ?',
         [incomeId]
       ) as any[];
+      const [updatedIncome] = await attachRecordTags(connection, userId, 'income', updatedRecords);
 
       await connection.commit();
 
       res.json({
         success: true,
         message: 'Income record updated successfully',
-        data: { income: updatedRecords[0] }
+        data: { income: updatedIncome }
       });
     } catch (error) {
       await connection.rollback();
@@ -406,7 +520,7 @@ router.delete('/:id', async (req, res) => {
 
     // Check if income record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id FROM income WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, account_id FROM income WHERE id = ? AND user_id = ?',
       [incomeId, userId]
     ) as any[];
 
@@ -417,30 +531,24 @@ router.delete('/:id', async (req, res) => {
       });
     }
 
+    // Income recorded by paying an invoice changes with the invoice
+    const invoiceNumber = await findSettlingInvoice(pool, userId, 'income', incomeId);
+    if (invoiceNumber) {
+      return res.status(400).json({
+        success: false,
+        message: `This income was recorded by paying invoice ${invoiceNumber}; undo the invoice payment instead`
+      });
+    }
+
     // Start transaction
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
-      // Delete related charity records
-      await connection.execute(
-        'DELETE FROM charity WHERE income_id = ? AND user_id = ?',
-        [incomeId, userId]
-      );
-
-      // Delete related transactions
-      await connection.execute(
-        'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
-        [incomeId, 'income', userId]
-      );
-
-      // Delete income record
-      await connection.execute(
-        'DELETE FROM income WHERE id = ? AND user_id = ?',
-        [incomeId, userId]
-      );
+      const attachmentFiles = await deleteIncomeRecord(connection, userId, existingRecords[0]);
 
       await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
 
       res.json({
         success: true,
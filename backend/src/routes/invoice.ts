@@ -0,0 +1,1012 @@
+import express from 'express';
+import multer from 'multer';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { PAYMENT_METHODS } from '../middleware/validation';
+import { findUserAccount } from '../utils/accounts';
+import {
+  attachmentUpload,
+  getAttachmentPath,
+  matchesFileSignature,
+  removeAttachmentFiles,
+  MAX_ATTACHMENT_SIZE
+} from '../utils/attachments';
+import { addDays, todayString } from '../utils/dates';
+import {
+  INVOICE_SELECT,
+  assignDocumentNumber,
+  buildInvoiceHtml,
+  formatInvoiceNumber,
+  getInvoice,
+  getInvoiceSettings,
+  loadInvoiceDocument,
+  setInvoiceItems,
+  settleInvoice,
+  unsettleInvoice
+} from '../utils/invoices';
+import { sendPdf } from '../utils/pdf';
+import { buildInvoicePdf } from '../utils/pdfReports';
+import { reopenConvertedQuotation } from '../utils/quotations';
+import { resolveSaleCustomer } from '../utils/receivables';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Logos can only be PNG or JPEG, the formats the PDF writer can embed
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+// Settings as returned to the client; the stored logo file name stays on the server
+const publicSettings = (settings: any) => ({
+  number_prefix: settings.number_prefix,
+  next_number: settings.next_number,
+  next_invoice_number: formatInvoiceNumber(settings.number_prefix, settings.next_number),
+  payment_terms_days: settings.payment_terms_days,
+  quote_prefix: settings.quote_prefix,
+  next_quote_number: settings.next_quote_number,
+  next_quotation_number: formatInvoiceNumber(settings.quote_prefix, settings.next_quote_number),
+  quote_validity_days: settings.quote_validity_days,
+  sale_category: settings.sale_category,
+  income_category: settings.income_category,
+  footer: settings.footer,
+  has_logo: Boolean(settings.logo_stored_name)
+});
+
+// Customer, dates and line items accepted when creating or updating a draft
+const validateInvoice = [
+  body('customer_id')
+    .isInt({ min: 1 })
+    .withMessage('Customer is required'),
+  body('issue_date')
+    .isISO8601()
+    .withMessage('Issue date must be valid ISO date'),
+  body('due_date')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Due date must be valid ISO date')
+    .custom((value, { req }) => value >= req.body.issue_date)
+    .withMessage('Due date cannot be before the issue date'),
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('An invoice needs between 1 and 100 line items'),
+  body('items.*.description')
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Each line needs a description of at most 255 characters'),
+  body('items.*.purchase_category')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Purchase category cannot exceed 50 characters'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Quantity must be greater than 0'),
+  body('items.*.unit_price')
+    .isFloat({ min: 0 })
+    .withMessage('Unit price cannot be negative'),
+  body('items.*.discount_percent')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Discount must be between 0 and 100 percent'),
+  body('items.*.tax_rate')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Tax rate must be between 0 and 100 percent')
+];
+
+// Parse the invoice ID route parameter, or null if it isn't a number
+const parseInvoiceId = (req: express.Request): number | null => {
+  const invoiceId = parseInt(req.params.id);
+  return isNaN(invoiceId) ? null : invoiceId;
+};
+
+// Get the user's invoice settings
+router.get('/settings', async (req: express.Request, res: express.Response) => {
+  try {
+    const settings = await getInvoiceSettings(pool, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { settings: publicSettings(settings) }
+    });
+  } catch (error) {
+    console.error('Get invoice settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update invoice and quote numbering, payment terms, quote validity, settlement categories and the printed footer
+router.put('/settings', [
+  body('number_prefix')
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage('Number prefix cannot exceed 20 characters'),
+  body('next_number')
+    .isInt({ min: 1 })
+    .withMessage('Next number must be a positive integer'),
+  body('payment_terms_days')
+    .isInt({ min: 0, max: 365 })
+    .withMessage('Payment terms must be between 0 and 365 days'),
+  body('quote_prefix')
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage('Quote prefix cannot exceed 20 characters'),
+  body('next_quote_number')
+    .isInt({ min: 1 })
+    .withMessage('Next quote number must be a positive integer'),
+  body('quote_validity_days')
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Quote validity must be between 1 and 365 days'),
+  body('sale_category')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Sale category is required and cannot exceed 50 characters'),
+  body('income_category')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Income category is required and cannot exceed 50 characters'),
+  body('footer')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Footer cannot exceed 1000 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      number_prefix, next_number, payment_terms_days, quote_prefix, next_quote_number, quote_validity_days,
+      sale_category, income_category, footer = null
+    } = req.body;
+
+    await getInvoiceSettings(pool, userId);
+    await pool.execute(
+      `UPDATE invoice_settings
+       SET number_prefix = ?, next_number = ?, payment_terms_days = ?, quote_prefix = ?, next_quote_number = ?,
+           quote_validity_days = ?, sale_category = ?, income_category = ?, footer = ?
+       WHERE user_id = ?`,
+      [
+        number_prefix, next_number, payment_terms_days, quote_prefix, next_quote_number, quote_validity_days,
+        sale_category, income_category, footer || null, userId
+      ]
+    );
+
+    const settings = await getInvoiceSettings(pool, userId);
+
+    res.json({
+      success: true,
+      message: 'Invoice settings updated successfully',
+      data: { settings: publicSettings(settings) }
+    });
+  } catch (error) {
+    console.error('Update invoice settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Upload the logo printed on invoices, replacing any previous one
+router.post('/settings/logo', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        attachmentUpload.single('logo')(req, res, (error: any) => error ? reject(error) : resolve());
+      });
+    } catch (error: any) {
+      if (error instanceof multer.MulterError) {
+        const messages: Record<string, string> = {
+          LIMIT_FILE_SIZE: `The logo must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`,
+          LIMIT_UNEXPECTED_FILE: 'The logo must be sent in the "logo" field'
+        };
+        return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+          success: false,
+          message: messages[error.code] || error.message
+        });
+      }
+      if (error.status === 415) {
+        return res.status(415).json({
+          success: false,
+          message: 'The logo must be a PNG or JPEG image'
+        });
+      }
+      throw error;
+    }
+
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    if (!LOGO_TYPES.includes(file.mimetype) || !(await matchesFileSignature(file.path, file.mimetype))) {
+      await removeAttachmentFiles([file.filename]);
+      return res.status(415).json({
+        success: false,
+        message: 'The logo must be a PNG or JPEG image'
+      });
+    }
+
+    const previous = await getInvoiceSettings(pool, userId);
+    await pool.execute(
+      'UPDATE invoice_settings SET logo_stored_name = ?, logo_mime_type = ? WHERE user_id = ?',
+      [file.filename, file.mimetype, userId]
+    );
+
+    if (previous.logo_stored_name) {
+      await removeAttachmentFiles([previous.logo_stored_name]);
+    }
+
+    const settings = await getInvoiceSettings(pool, userId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Logo uploaded successfully',
+      data: { settings: publicSettings(settings) }
+    });
+  } catch (error) {
+    console.error('Upload invoice logo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the uploaded logo
+router.get('/settings/logo', async (req: express.Request, res: express.Response) => {
+  try {
+    const settings = await getInvoiceSettings(pool, req.user!.userId);
+
+    if (!settings.logo_stored_name) {
+      return res.status(404).json({
+        success: false,
+        message: 'No logo uploaded'
+      });
+    }
+
+    res.setHeader('Content-Type', settings.logo_mime_type);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.sendFile(getAttachmentPath(settings.logo_stored_name), (error: any) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          message: 'Logo file not found'
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Get invoice logo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Remove the uploaded logo
+router.delete('/settings/logo', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const settings = await getInvoiceSettings(pool, userId);
+
+    await pool.execute(
+      'UPDATE invoice_settings SET logo_stored_name = NULL, logo_mime_type = NULL WHERE user_id = ?',
+      [userId]
+    );
+
+    if (settings.logo_stored_name) {
+      await removeAttachmentFiles([settings.logo_stored_name]);
+    }
+
+    res.json({
+      success: true,
+      message: 'Logo removed successfully'
+    });
+  } catch (error) {
+    console.error('Delete invoice logo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get all invoices, with what is outstanding on those sent
+router.get('/', [
+  query('status').optional().isIn(['draft', 'sent', 'paid', 'void']).withMessage('Invalid status'),
+  query('customer_id').optional().isInt({ min: 1 }).withMessage('Customer ID must be a positive integer'),
+  query('overdue').optional().isBoolean().withMessage('Overdue must be true or false'),
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { status, customer_id, overdue, start_date, end_date } = req.query;
+
+    let whereClause = 'WHERE i.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (status) {
+      whereClause += ' AND i.status = ?';
+      whereParams.push(status);
+    }
+
+    if (customer_id) {
+      whereClause += ' AND i.customer_id = ?';
+      whereParams.push(parseInt(customer_id as string));
+    }
+
+    // Sent invoices past their due date
+    if (overdue === 'true') {
+      whereClause += " AND i.status = 'sent' AND i.due_date < ?";
+      whereParams.push(todayString());
+    }
+
+    if (start_date) {
+      whereClause += ' AND i.issue_date >= ?';
+      whereParams.push(start_date);
+    }
+
+    if (end_date) {
+      whereClause += ' AND i.issue_date <= ?';
+      whereParams.push(end_date);
+    }
+
+    const [invoices] = await pool.execute(
+      `${INVOICE_SELECT}
+       ${whereClause}
+       ORDER BY i.issue_date DESC, i.id DESC`,
+      whereParams
+    ) as any[];
+
+    const [totals] = await pool.execute(
+      `SELECT
+        COALESCE(SUM(IF(status = 'sent', total, 0)), 0) AS outstanding,
+        COALESCE(SUM(IF(status = 'sent' AND due_date < ?, total, 0)), 0) AS overdue,
+        COALESCE(SUM(IF(status = 'paid', total, 0)), 0) AS paid,
+        COUNT(IF(status = 'draft', 1, NULL)) AS draft_count
+       FROM invoices
+       WHERE user_id = ?`,
+      [todayString(), userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { invoices, summary: totals[0] }
+    });
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get a single invoice with its line items
+router.get('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const invoice = await getInvoice(pool, req.user!.userId, invoiceId);
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { invoice }
+    });
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create a draft invoice. Without a due date it falls due after the payment terms in the
+// invoice settings. The number is given when the invoice is sent.
+router.post('/', validateInvoice, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { customer_id, issue_date, due_date = null, notes = null, items } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const customer = await resolveSaleCustomer(connection, userId, { customer_id });
+      const settings = await getInvoiceSettings(connection, userId);
+
+      const [invoiceResult] = await connection.execute(
+        `INSERT INTO invoices (user_id, customer_id, customer_name, issue_date, due_date, notes)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [userId, customer.customer_id, customer.customer_name, issue_date,
+         due_date || addDays(issue_date, settings.payment_terms_days), notes || null]
+      ) as any[];
+      const invoiceId = invoiceResult.insertId;
+
+      await setInvoiceItems(connection, invoiceId, items);
+
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Invoice created successfully',
+        data: { invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Create invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update a draft invoice and replace its line items. Sent invoices are fixed; void and
+// reissue them instead.
+router.put('/:id', validateInvoice, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const { customer_id, issue_date, due_date = null, notes = null, items } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingInvoices] = await connection.execute(
+        'SELECT id, status FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE',
+        [invoiceId, userId]
+      ) as any[];
+
+      if (existingInvoices.length === 0) {
+        throw Object.assign(new Error('Invoice not found'), { status: 404 });
+      }
+      if (existingInvoices[0].status !== 'draft') {
+        throw Object.assign(new Error('Only draft invoices can be edited'), { status: 400 });
+      }
+
+      const customer = await resolveSaleCustomer(connection, userId, { customer_id });
+      const settings = await getInvoiceSettings(connection, userId);
+
+      await connection.execute(
+        `UPDATE invoices
+         SET customer_id = ?, customer_name = ?, issue_date = ?, due_date = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND user_id = ?`,
+        [customer.customer_id, customer.customer_name, issue_date,
+         due_date || addDays(issue_date, settings.payment_terms_days), notes || null, invoiceId, userId]
+      );
+
+      await setInvoiceItems(connection, invoiceId, items);
+
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Invoice updated successfully',
+        data: { invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Update invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a draft invoice
+router.delete('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingInvoices] = await connection.execute(
+        'SELECT id, status FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE',
+        [invoiceId, userId]
+      ) as any[];
+
+      if (existingInvoices.length === 0) {
+        throw Object.assign(new Error('Invoice not found'), { status: 404 });
+      }
+
+      // Numbered invoices stay on record so the sequence has no gaps; void them instead
+      if (existingInvoices[0].status !== 'draft') {
+        throw Object.assign(new Error('Only draft invoices can be deleted; void a sent invoice instead'), { status: 400 });
+      }
+
+      // A draft converted from a quote hands the quote back, ready to convert again
+      await reopenConvertedQuotation(connection, userId, invoiceId);
+      await connection.execute('DELETE FROM invoices WHERE id = ? AND user_id = ?', [invoiceId, userId]);
+
+      await connection.commit();
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    res.json({
+      success: true,
+      message: 'Invoice deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Mark a draft as sent, giving it the next invoice number
+router.post('/:id/send', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingInvoices] = await connection.execute(
+        'SELECT id, status FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE',
+        [invoiceId, userId]
+      ) as any[];
+
+      if (existingInvoices.length === 0) {
+        throw Object.assign(new Error('Invoice not found'), { status: 404 });
+      }
+      if (existingInvoices[0].status !== 'draft') {
+        throw Object.assign(new Error('Only draft invoices can be sent'), { status: 400 });
+      }
+
+      const invoiceNumber = await assignDocumentNumber(connection, userId, 'invoice');
+
+      await connection.execute(
+        `UPDATE invoices
+         SET invoice_number = ?, status = 'sent', sent_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND user_id = ?`,
+        [invoiceNumber, invoiceId, userId]
+      );
+
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: `Invoice ${invoiceNumber} marked as sent`,
+        data: { invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Send invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Record payment of an invoice in full. Its stock lines become sales and the rest one income
+// record, credited to the receiving account. A draft paid straight away is numbered first.
+router.post('/:id/pay', [
+  body('paid_date')
+    .isISO8601()
+    .withMessage('Paid date must be valid ISO date'),
+  body('payment_method')
+    .trim()
+    .isIn(PAYMENT_METHODS)
+    .withMessage('Invalid payment method'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const { paid_date, payment_method, account_id = null } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingInvoices] = await connection.execute(
+        'SELECT id, status FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE',
+        [invoiceId, userId]
+      ) as any[];
+
+      if (existingInvoices.length === 0) {
+        throw Object.assign(new Error('Invoice not found'), { status: 404 });
+      }
+      if (!['draft', 'sent'].includes(existingInvoices[0].status)) {
+        throw Object.assign(new Error(`A ${existingInvoices[0].status} invoice cannot be paid`), { status: 400 });
+      }
+
+      // Check the receiving account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        throw Object.assign(new Error('Account not found'), { status: 404 });
+      }
+
+      if (existingInvoices[0].status === 'draft') {
+        const invoiceNumber = await assignDocumentNumber(connection, userId, 'invoice');
+        await connection.execute(
+          'UPDATE invoices SET invoice_number = ?, sent_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+          [invoiceNumber, invoiceId, userId]
+        );
+      }
+
+      await settleInvoice(connection, userId, await getInvoice(connection, userId, invoiceId), {
+        paid_date,
+        payment_method,
+        account_id
+      });
+
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: `Invoice ${invoice.invoice_number} marked as paid`,
+        data: { invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Pay invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Undo the payment of an invoice recorded by mistake: the sales and income it was settled into
+// are deleted and the invoice is sent again, ready to be paid with the right details.
+router.post('/:id/unpay', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingInvoices] = await connection.execute(
+        'SELECT id, status, income_id FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE',
+        [invoiceId, userId]
+      ) as any[];
+
+      if (existingInvoices.length === 0) {
+        throw Object.assign(new Error('Invoice not found'), { status: 404 });
+      }
+      if (existingInvoices[0].status !== 'paid') {
+        throw Object.assign(new Error('Only paid invoices can have their payment undone'), { status: 400 });
+      }
+
+      const attachmentFiles = await unsettleInvoice(connection, userId, existingInvoices[0]);
+
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
+
+      res.json({
+        success: true,
+        message: `Payment of invoice ${invoice.invoice_number} undone`,
+        data: { invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Unpay invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Void a sent invoice that will not be paid. It keeps its number; a paid invoice has its
+// payment undone first.
+router.post('/:id/void', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const [existingInvoices] = await pool.execute(
+      'SELECT id, status FROM invoices WHERE id = ? AND user_id = ?',
+      [invoiceId, userId]
+    ) as any[];
+
+    if (existingInvoices.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    if (existingInvoices[0].status !== 'sent') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only sent invoices can be voided'
+      });
+    }
+
+    await pool.execute(
+      "UPDATE invoices SET status = 'void', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?",
+      [invoiceId, userId]
+    );
+
+    const invoice = await getInvoice(pool, userId, invoiceId);
+
+    res.json({
+      success: true,
+      message: 'Invoice voided successfully',
+      data: { invoice }
+    });
+  } catch (error) {
+    console.error('Void invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Printable HTML page of an invoice
+router.get('/:id/html', async (req: express.Request, res: express.Response) => {
+  try {
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const document = await loadInvoiceDocument(pool, req.user!.userId, invoiceId);
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    res.type('html').send(buildInvoiceHtml(document));
+  } catch (error) {
+    console.error('Invoice HTML error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Invoice as a PDF
+router.get('/:id/pdf', async (req: express.Request, res: express.Response) => {
+  try {
+    const invoiceId = parseInvoiceId(req);
+
+    if (invoiceId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid invoice ID'
+      });
+    }
+
+    const pdf = await buildInvoicePdf(req.user!.userId, invoiceId);
+
+    if (!pdf) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    sendPdf(res, pdf, `invoice_${invoiceId}.pdf`);
+  } catch (error) {
+    console.error('Invoice PDF error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
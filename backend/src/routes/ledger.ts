@@ -0,0 +1,219 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { todayString } from '../utils/dates';
+import { getMoneyAccountLedgerBalances, getTrialBalance, rebuildJournal } from '../utils/ledger';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Get the chart of accounts with balances, and any cash/bank account whose stored
+// balance no longer matches the journal
+router.get('/accounts', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const trialBalance = await getTrialBalance(pool, userId, todayString());
+    const moneyAccounts = await getMoneyAccountLedgerBalances(pool, userId);
+
+    res.json({
+      success: true,
+      data: {
+        accounts: trialBalance.accounts,
+        out_of_balance: moneyAccounts
+          .filter((account) => parseFloat(account.balance) !== parseFloat(account.ledger_balance))
+          .map(({ id, account_name, balance, ledger_balance }) => ({ id, account_name, balance, ledger_balance }))
+      }
+    });
+  } catch (error) {
+    console.error('Get ledger accounts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get journal entries with their lines
+router.get('/entries', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
+  query('source_type').optional().trim(),
+  query('ledger_account_id').optional().isInt({ min: 1 }).withMessage('Invalid ledger account ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+    const startDate = req.query.start_date as string;
+    const endDate = req.query.end_date as string;
+    const sourceType = req.query.source_type as string;
+    const ledgerAccountId = req.query.ledger_account_id as string;
+
+    // Build WHERE clause
+    let whereClause = 'WHERE je.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (startDate) {
+      whereClause += ' AND je.entry_date >= ?';
+      whereParams.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND je.entry_date <= ?';
+      whereParams.push(endDate);
+    }
+
+    if (sourceType) {
+      whereClause += ' AND je.source_type = ?';
+      whereParams.push(sourceType);
+    }
+
+    if (ledgerAccountId) {
+      whereClause += ' AND EXISTS (SELECT 1 FROM journal_lines l WHERE l.entry_id = je.id AND l.ledger_account_id = ?)';
+      whereParams.push(ledgerAccountId);
+    }
+
+    // Get total count
+    const [countResult] = await pool.execute(
+      `SELECT COUNT(*) as total FROM journal_entries je ${whereClause}`,
+      whereParams
+    ) as any[];
+    const total = countResult[0].total;
+
+    const [entries] = await pool.execute(
+      `SELECT je.id, je.entry_date, je.description, je.source_type, je.source_id, je.created_at
+       FROM journal_entries je
+       ${whereClause}
+       ORDER BY je.entry_date DESC, je.id DESC
+       LIMIT ? OFFSET ?`,
+      [...whereParams, limit, offset]
+    ) as any[];
+
+    // Attach the lines of the entries on this page
+    if (entries.length > 0) {
+      const entryIds = entries.map((entry: any) => entry.id);
+      const [lines] = await pool.execute(
+        `SELECT jl.entry_id, jl.ledger_account_id, la.code, COALESCE(a.account_name, la.name) AS account_name,
+          jl.debit, jl.credit
+         FROM journal_lines jl
+         JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+         LEFT JOIN accounts a ON la.account_id = a.id
+         WHERE jl.entry_id IN (${entryIds.map(() => '?').join(', ')})
+         ORDER BY jl.entry_id, jl.debit DESC, jl.id`,
+        entryIds
+      ) as any[];
+
+      for (const entry of entries) {
+        entry.lines = lines.filter((line: any) => line.entry_id === entry.id);
+      }
+    }
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalRecords: total,
+          limit,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get journal entries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the trial balance as of a date (defaults to today)
+router.get('/trial-balance', [
+  query('as_of').optional().isISO8601().withMessage('As of date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const asOf = req.query.as_of as string || todayString();
+
+    const trialBalance = await getTrialBalance(pool, userId, asOf);
+
+    res.json({
+      success: true,
+      data: trialBalance
+    });
+  } catch (error) {
+    console.error('Get trial balance error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Regenerate the journal from the underlying records and reset account balances from it
+router.post('/rebuild', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const result = await rebuildJournal(connection, userId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Ledger rebuilt successfully',
+        data: result
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Rebuild ledger error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -2,16 +2,45 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { validateExport } from '../middleware/validation';
+import { detachRecordAttachments, removeAttachmentFiles } from '../utils/attachments';
+import { addMonths, todayString } from '../utils/dates';
+import { syncJournalEntries, syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
+import { buildAmortizationSchedule, getInstalmentAmount, recordLoanPayment, simulatePayoff } from '../utils/loans';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Columns available when exporting loans as CSV/XLSX
+const LOAN_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'direction', header: 'Direction', type: 'string' },
+  { key: 'loan_type', header: 'Type', type: 'string' },
+  { key: 'lender_name', header: 'Lender', type: 'string' },
+  { key: 'borrower_name', header: 'Borrower', type: 'string' },
+  { key: 'borrower_type', header: 'Borrower Type', type: 'string' },
+  { key: 'borrower_contact', header: 'Borrower Contact', type: 'string' },
+  { key: 'principal_amount', header: 'Principal', type: 'money' },
+  { key: 'current_balance', header: 'Current Balance', type: 'money' },
+  { key: 'interest_rate', header: 'Interest Rate (%)', type: 'number' },
+  { key: 'monthly_payment', header: 'Monthly Payment', type: 'money' },
+  { key: 'start_date', header: 'Start Date', type: 'date' },
+  { key: 'due_date', header: 'Due Date', type: 'date' },
+  { key: 'status', header: 'Status', type: 'string' },
+  { key: 'overdue_instalments', header: 'Overdue Instalments', type: 'number' },
+  { key: 'overdue_amount', header: 'Overdue Amount', type: 'money' },
+  { key: 'next_due_date', header: 'Next Due Date', type: 'date' }
+];
+
 // Get all loans
 router.get('/', [
   query('status').optional().isIn(['active', 'paid', 'defaulted']).withMessage('Invalid status'),
-  query('loan_type').optional().isIn(['personal', 'business', 'mortgage', 'auto', 'other']).withMessage('Invalid loan type')
+  query('direction').optional().isIn(['payable', 'receivable']).withMessage('Invalid direction'),
+  query('loan_type').optional().isIn(['personal', 'business', 'mortgage', 'auto', 'other']).withMessage('Invalid loan type'),
+  ...validateExport
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -25,6 +54,7 @@ router.get('/', [
 
     const userId = req.user!.userId;
     const status = req.query.status as string;
+    const direction = req.query.direction as string;
     const loanType = req.query.loan_type as string;
 
     // Build WHERE clause
@@ -36,6 +66,11 @@ router.get('/', [
       whereParams.push(status);
     }
 
+    if (direction) {
+      whereClause += ' AND direction = ?';
+      whereParams.push(direction);
+    }
+
     if (loanType) {
       whereClause += ' AND loan_type = ?';
       whereParams.push(loanType);
@@ -43,8 +78,8 @@ router.get('/', [
 
     const [loans] = await pool.execute(
       `SELECT 
-        id, loan_type, lender_name, principal_amount, current_balance, 
-        interest_rate, monthly_payment, start_date, due_date, status, 
+        id, direction, loan_type, lender_name, borrower_name, borrower_type, borrower_contact,
+        principal_amount, current_balance, interest_rate, monthly_payment, start_date, due_date, status, 
         created_at, updated_at
        FROM loans 
        ${whereClause} 
@@ -52,15 +87,49 @@ router.get('/', [
       whereParams
     ) as any[];
 
-    // Calculate totals
+    // Flag overdue instalments on active loans against what has been paid so far
+    const [paidRows] = await pool.execute(
+      `SELECT reference_id AS loan_id, SUM(amount) AS total_paid
+       FROM transactions
+       WHERE user_id = ? AND transaction_type = 'loan_payment' AND reference_table = 'loans'
+       GROUP BY reference_id`,
+      [userId]
+    ) as any[];
+
+    const paidByLoan = new Map<number, number>(
+      paidRows.map((row: any) => [row.loan_id, parseFloat(row.total_paid)])
+    );
+    const today = todayString();
+
+    for (const loan of loans) {
+      const schedule = loan.status === 'active'
+        ? buildAmortizationSchedule(loan, paidByLoan.get(loan.id) || 0, today)
+        : null;
+      loan.overdue_instalments = schedule ? schedule.summary.overdue_instalments : 0;
+      loan.overdue_amount = schedule ? schedule.summary.overdue_amount : 0;
+      loan.next_due_date = schedule ? schedule.summary.next_due_date : null;
+    }
+
+    // Export every matching loan instead of returning JSON
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      return sendExport(res, format, 'loans', selectExportColumns(LOAN_EXPORT_COLUMNS, req.query.columns as string), loans);
+    }
+
+    // Calculate totals; active receivables are owed to us, active payables are owed by us
     const totals = loans.reduce((acc: any, loan: any) => {
       acc.total_principal += parseFloat(loan.principal_amount);
       acc.total_current_balance += parseFloat(loan.current_balance);
       if (loan.status === 'active') {
         acc.active_balance += parseFloat(loan.current_balance);
+        if (loan.direction === 'receivable') {
+          acc.receivable_balance += parseFloat(loan.current_balance);
+        } else {
+          acc.payable_balance += parseFloat(loan.current_balance);
+        }
       }
       return acc;
-    }, { total_principal: 0, total_current_balance: 0, active_balance: 0 });
+    }, { total_principal: 0, total_current_balance: 0, active_balance: 0, payable_balance: 0, receivable_balance: 0 });
 
     res.json({
       success: true,
@@ -93,8 +162,8 @@ router.get('/:id', async (req, res) => {
 
     const [loans] = await pool.execute(
       `SELECT 
-        id, loan_type, lender_name, principal_amount, current_balance, 
-        interest_rate, monthly_payment, start_date, due_date, status, 
+        id, direction, loan_type, lender_name, borrower_name, borrower_type, borrower_contact,
+        principal_amount, current_balance, interest_rate, monthly_payment, start_date, due_date, status, 
         created_at, updated_at
        FROM loans 
        WHERE id = ? AND user_id = ?`,
@@ -121,16 +190,246 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// Get loan amortization schedule
+router.get('/:id/schedule', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const loanId = parseInt(req.params.id);
+
+    if (isNaN(loanId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loan ID'
+      });
+    }
+
+    const [loans] = await pool.execute(
+      `SELECT 
+        id, direction, loan_type, lender_name, borrower_name, borrower_type, borrower_contact,
+        principal_amount, current_balance, interest_rate, monthly_payment, start_date, due_date, status
+       FROM loans 
+       WHERE id = ? AND user_id = ?`,
+      [loanId, userId]
+    ) as any[];
+
+    if (loans.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loan not found'
+      });
+    }
+
+    const loan = loans[0];
+
+    // Every recorded payment counts, including ones made before payments were split
+    const [paidRows] = await pool.execute(
+      `SELECT COALESCE(SUM(amount), 0) AS total_paid
+       FROM transactions
+       WHERE user_id = ? AND transaction_type = 'loan_payment' AND reference_table = 'loans' AND reference_id = ?`,
+      [userId, loanId]
+    ) as any[];
+
+    const schedule = buildAmortizationSchedule(loan, parseFloat(paidRows[0].total_paid), todayString());
+
+    if (!schedule) {
+      return res.status(400).json({
+        success: false,
+        message: 'Set a monthly payment or due date that covers the interest to generate a schedule'
+      });
+    }
+
+    const [payments] = await pool.execute(
+      `SELECT id, payment_date, amount, interest_amount, principal_amount, balance_after, description, receipt_number
+       FROM loan_payments
+       WHERE loan_id = ? AND user_id = ?
+       ORDER BY payment_date, id`,
+      [loanId, userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: {
+        loan,
+        ...schedule,
+        payments
+      }
+    });
+  } catch (error) {
+    console.error('Get loan schedule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the receipt for a repayment received on a receivable loan
+router.get('/:id/payments/:paymentId/receipt', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const loanId = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+
+    if (isNaN(loanId) || isNaN(paymentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loan or payment ID'
+      });
+    }
+
+    const [receipts] = await pool.execute(
+      `SELECT 
+        lp.id, lp.receipt_number, lp.payment_date, lp.amount, lp.interest_amount,
+        lp.principal_amount, lp.balance_after, lp.description,
+        l.id AS loan_id, l.loan_type, l.borrower_name, l.borrower_type, l.borrower_contact,
+        l.principal_amount AS loan_principal, l.interest_rate,
+        u.full_name AS received_by, u.business_name
+       FROM loan_payments lp
+       JOIN loans l ON lp.loan_id = l.id
+       JOIN users u ON lp.user_id = u.id
+       WHERE lp.id = ? AND lp.loan_id = ? AND lp.user_id = ? AND l.direction = 'receivable'`,
+      [paymentId, loanId, userId]
+    ) as any[];
+
+    if (receipts.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Receipt not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { receipt: receipts[0] }
+    });
+  } catch (error) {
+    console.error('Get loan receipt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Simulate paying off the current balance with an extra amount each month
+router.get('/:id/payoff-simulation', [
+  query('extra_payment').optional().isFloat({ min: 0 }).withMessage('Extra payment must be a non-negative number')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const loanId = parseInt(req.params.id);
+    const extraPayment = parseFloat(req.query.extra_payment as string) || 0;
+
+    if (isNaN(loanId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loan ID'
+      });
+    }
+
+    const [loans] = await pool.execute(
+      `SELECT principal_amount, current_balance, interest_rate, monthly_payment, start_date, due_date, status
+       FROM loans 
+       WHERE id = ? AND user_id = ?`,
+      [loanId, userId]
+    ) as any[];
+
+    if (loans.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loan not found'
+      });
+    }
+
+    const loan = loans[0];
+
+    if (loan.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Payoff can only be simulated for active loans'
+      });
+    }
+
+    const payment = getInstalmentAmount(loan);
+    if (!payment) {
+      return res.status(400).json({
+        success: false,
+        message: 'Set a monthly payment or due date to simulate payoff'
+      });
+    }
+
+    const balance = parseFloat(loan.current_balance);
+    const firstPaymentDate = addMonths(todayString(), 1);
+    const baseline = simulatePayoff(balance, loan.interest_rate, payment, firstPaymentDate);
+    const withExtra = simulatePayoff(balance, loan.interest_rate, payment + extraPayment, firstPaymentDate);
+
+    if (!withExtra) {
+      return res.status(400).json({
+        success: false,
+        message: 'Monthly payment does not cover the interest on the current balance'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        current_balance: balance,
+        monthly_payment: payment,
+        extra_payment: extraPayment,
+        baseline,
+        with_extra: withExtra,
+        months_saved: baseline ? baseline.months - withExtra.months : null,
+        interest_saved: baseline ? Math.round((baseline.total_interest - withExtra.total_interest) * 100) / 100 : null
+      }
+    });
+  } catch (error) {
+    console.error('Simulate loan payoff error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 // Create new loan
 router.post('/', [
+  body('direction')
+    .optional()
+    .isIn(['payable', 'receivable'])
+    .withMessage('Direction must be payable or receivable'),
   body('loan_type')
     .isIn(['personal', 'business', 'mortgage', 'auto', 'other'])
     .withMessage('Loan type must be personal, business, mortgage, auto, or other'),
   body('lender_name')
+    .if((value, { req }) => req.body.direction !== 'receivable')
     .trim()
     .notEmpty()
     .isLength({ max: 100 })
     .withMessage('Lender name is required and cannot exceed 100 characters'),
+  body('borrower_name')
+    .if((value, { req }) => req.body.direction === 'receivable')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Borrower name is required and cannot exceed 100 characters'),
+  body('borrower_type')
+    .optional({ values: 'falsy' })
+    .isIn(['staff', 'customer', 'other'])
+    .withMessage('Borrower type must be staff, customer, or other'),
+  body('borrower_contact')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Borrower contact cannot exceed 100 characters'),
   body('principal_amount')
     .isFloat({ min: 0.01 })
     .withMessage('Principal amount must be a positive number'),
@@ -166,8 +465,12 @@ router.post('/', [
 
     const userId = req.user!.userId;
     const { 
+      direction = 'payable',
       loan_type, 
       lender_name, 
+      borrower_name,
+      borrower_type,
+      borrower_contact,
       principal_amount, 
       current_balance = principal_amount, 
       interest_rate, 
@@ -176,29 +479,49 @@ router.post('/', [
       due_date 
     } = req.body;
 
-    // Insert loan record
-    const [loanResult] = await pool.execute(
-      `INSERT INTO loans 
-       (user_id, loan_type, lender_name, principal_amount, current_balance, 
-        interest_rate, monthly_payment, start_date, due_date) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [userId, loan_type, lender_name, principal_amount, current_balance, 
-       interest_rate, monthly_payment, start_date, due_date]
-    ) as any[];
+    const isReceivable = direction === 'receivable';
 
-    const loanId = loanResult.insertId;
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    // Get the created loan record
-    const [loanRecords] = await pool.execute(
-      'SELECT * FROM loans WHERE id = ?',
-      [loanId]
-    ) as any[];
+    try {
+      // Insert loan record; borrower details only apply to money we lent out
+      const [loanResult] = await connection.execute(
+        `INSERT INTO loans 
+         (user_id, direction, loan_type, lender_name, borrower_name, borrower_type, borrower_contact,
+          principal_amount, current_balance, interest_rate, monthly_payment, start_date, due_date) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [userId, direction, loan_type, isReceivable ? null : lender_name,
+         isReceivable ? borrower_name : null, isReceivable ? borrower_type || null : null,
+         isReceivable ? borrower_contact || null : null, principal_amount, current_balance,
+         interest_rate ?? null, monthly_payment ?? null, start_date, due_date || null]
+      ) as any[];
 
-    res.status(201).json({
-      success: true,
-      message: 'Loan record created successfully',
-      data: { loan: loanRecords[0] }
-    });
+      const loanId = loanResult.insertId;
+
+      // Post the money borrowed or lent to the ledger
+      await syncJournalEntry(connection, userId, 'loan', loanId);
+
+      // Get the created loan record
+      const [loanRecords] = await connection.execute(
+        'SELECT * FROM loans WHERE id = ?',
+        [loanId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Loan record created successfully',
+        data: { loan: loanRecords[0] }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Create loan error:', error);
     res.status(500).json({
@@ -216,6 +539,21 @@ router.put('/:id', [
     .notEmpty()
     .isLength({ max: 100 })
     .withMessage('Lender name cannot be empty and cannot exceed 100 characters'),
+  body('borrower_name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Borrower name cannot be empty and cannot exceed 100 characters'),
+  body('borrower_type')
+    .optional({ values: 'falsy' })
+    .isIn(['staff', 'customer', 'other'])
+    .withMessage('Borrower type must be staff, customer, or other'),
+  body('borrower_contact')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Borrower contact cannot exceed 100 characters'),
   body('current_balance')
     .optional()
     .isFloat({ min: 0 })
@@ -259,7 +597,7 @@ router.put('/:id', [
 
     // Check if loan exists and belongs to user
     const [existingLoans] = await pool.execute(
-      'SELECT id FROM loans WHERE id = ? AND user_id = ?',
+      'SELECT id, direction FROM loans WHERE id = ? AND user_id = ?',
       [loanId, userId]
     ) as any[];
 
@@ -270,15 +608,32 @@ router.put('/:id', [
       });
     }
 
-    const { lender_name, current_balance, interest_rate, monthly_payment, due_date, status } = req.body;
+    const {
+      lender_name, borrower_name, borrower_type, borrower_contact,
+      current_balance, interest_rate, monthly_payment, due_date, status
+    } = req.body;
+    const isReceivable = existingLoans[0].direction === 'receivable';
 
     const updates: string[] = [];
     const values: any[] = [];
 
-    if (lender_name !== undefined) {
+    // The counterparty fields that apply depend on the loan's direction
+    if (lender_name !== undefined && !isReceivable) {
       updates.push('lender_name = ?');
       values.push(lender_name);
     }
+    if (borrower_name !== undefined && isReceivable) {
+      updates.push('borrower_name = ?');
+      values.push(borrower_name);
+    }
+    if (borrower_type !== undefined && isReceivable) {
+      updates.push('borrower_type = ?');
+      values.push(borrower_type || null);
+    }
+    if (borrower_contact !== undefined && isReceivable) {
+      updates.push('borrower_contact = ?');
+      values.push(borrower_contact || null);
+    }
     if (current_balance !== undefined) {
       updates.push('current_balance = ?');
       values.push(current_balance);
@@ -375,60 +730,9 @@ router.post('/:id/payment', [
     await connection.beginTransaction();
 
     try {
-      // Get loan record
-      const [loans] = await connection.execute(
-        'SELECT id, lender_name, current_balance, status FROM loans WHERE id = ? AND user_id = ?',
-        [loanId, userId]
-      ) as any[];
-
-      if (loans.length === 0) {
-        await connection.rollback();
-        return res.status(404).json({
-          success: false,
-          message: 'Loan not found'
-        });
-      }
-
-      const loan = loans[0];
-
-      if (loan.status !== 'active') {
-        await connection.rollback();
-        return res.status(400).json({
-          success: false,
-          message: 'Cannot make payments on inactive loans'
-        });
-      }
-
-      // Validate payment amount
-      if (parseFloat(payment_amount) > parseFloat(loan.current_balance)) {
-        await connection.rollback();
-        return res.status(400).json({
-          success: false,
-          message: `Payment amount cannot exceed current balance of ${loan.current_balance}`
-        });
-      }
-
-      // Calculate new balance
-      const newBalance = parseFloat(loan.current_balance) - parseFloat(payment_amount);
-      const newStatus = newBalance <= 0 ? 'paid' : 'active';
-
-      // Update loan balance and status
-      await connection.execute(
-        'UPDATE loans SET current_balance = ?, status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [newBalance, newStatus, loanId]
-      );
-
-      // Record transaction for audit trail
-      await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, 'loan_payment', loanId, 'loans', payment_amount, description || `Loan payment to ${loan.lender_name}`, payment_date]
-      );
-
-      // Get updated loan record
-      const [updatedLoans] = await connection.execute(
-        'SELECT * FROM loans WHERE id = ?',
-        [loanId]
-      ) as any[];
+      const { loan, payment } = await recordLoanPayment(connection, userId, loanId, {
+        payment_amount, payment_date, description
+      });
 
       await connection.commit();
 
@@ -436,18 +740,18 @@ router.post('/:id/payment', [
         success: true,
         message: 'Loan payment recorded successfully',
         data: { 
-          loan: updatedLoans[0],
-          payment: {
-            amount: payment_amount,
-            date: payment_date,
-            description: description || `Loan payment to ${loan.lender_name}`,
-            new_balance: newBalance,
-            status: newStatus
-          }
+          loan,
+          payment
         }
       });
-    } catch (error) {
+    } catch (error: any) {
       await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
       throw error;
     } finally {
       connection.release();
@@ -492,19 +796,32 @@ router.delete('/:id', async (req, res) => {
     await connection.beginTransaction();
 
     try {
+      const [payments] = await connection.execute(
+        "SELECT id FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ? AND transaction_type = 'loan_payment'",
+        [loanId, 'loans', userId]
+      ) as any[];
+
       // Delete related transactions
       await connection.execute(
         'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
         [loanId, 'loans', userId]
       );
 
+      // Delete attachments of the record
+      const attachmentFiles = await detachRecordAttachments(connection, userId, 'loan', [loanId]);
+
       // Delete loan record
       await connection.execute(
         'DELETE FROM loans WHERE id = ? AND user_id = ?',
         [loanId, userId]
       );
 
+      // Remove the loan and its payments from the ledger
+      await syncJournalEntry(connection, userId, 'loan', loanId);
+      await syncJournalEntries(connection, userId, 'loan_payment', payments.map((payment: any) => payment.id));
+
       await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
 
       res.json({
         success: true,
@@ -537,6 +854,8 @@ router.get('/stats/summary', async (req, res) => {
         SUM(principal_amount) as total_principal,
         SUM(current_balance) as total_current_balance,
         SUM(CASE WHEN status = 'active' THEN current_balance ELSE 0 END) as active_balance,
+        COALESCE(SUM(CASE WHEN status = 'active' AND direction = 'payable' THEN current_balance ELSE 0 END), 0) as total_liabilities,
+        COALESCE(SUM(CASE WHEN status = 'active' AND direction = 'receivable' THEN current_balance ELSE 0 END), 0) as total_assets,
         SUM(CASE WHEN status = 'paid' THEN 1 ELSE 0 END) as paid_loans,
         SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active_loans,
         AVG(CASE WHEN status = 'active' THEN interest_rate END) as avg_interest_rate
@@ -545,6 +864,21 @@ router.get('/stats/summary', async (req, res) => {
       [userId]
     ) as any[];
 
+    stats[0].net_position = parseFloat(stats[0].total_assets) - parseFloat(stats[0].total_liabilities);
+
+    // Get loans by direction
+    const [directionStats] = await pool.execute(
+      `SELECT 
+        direction,
+        COUNT(*) as count,
+        SUM(principal_amount) as total_principal,
+        SUM(CASE WHEN status = 'active' THEN current_balance ELSE 0 END) as active_balance
+       FROM loans 
+       WHERE user_id = ? 
+       GROUP BY direction`,
+      [userId]
+    ) as any[];
+
     // Get loans by type
     const [typeStats] = await pool.execute(
       `SELECT 
@@ -563,7 +897,7 @@ router.get('/stats/summary', async (req, res) => {
     const [recentPayments] = await pool.execute(
       `SELECT 
         t.amount, t.description, t.date, t.created_at,
-        l.lender_name, l.loan_type
+        l.direction, l.lender_name, l.borrower_name, l.loan_type
        FROM transactions t
        JOIN loans l ON t.reference_id = l.id
        WHERE t.user_id = ? AND t.transaction_type = 'loan_payment'
@@ -576,6 +910,7 @@ router.get('/stats/summary', async (req, res) => {
       success: true,
       data: {
         summary: stats[0],
+        by_direction: directionStats,
         by_type: typeStats,
         recent_payments: recentPayments
       }
@@ -2,21 +2,58 @@ import express from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
+import { validateExport, validateSplits, validateTagFilter, validateTags } from '../middleware/validation';
+import { findUserAccount, adjustAccountBalance } from '../utils/accounts';
+import { detachRecordAttachments, removeAttachmentFiles } from '../utils/attachments';
+import { soldQuantity } from '../utils/inventory';
+import { checkBudgetAlert, checkSplitBudgetAlert } from '../utils/budgets';
+import { syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
+import { CATEGORY_RECORD_TABLES, linkRecordCategory } from '../utils/categories';
+import { assertUserVendor } from '../utils/payables';
+import { attachRecordTags, buildTagFilter, detachRecordTags, parseTagFilter, setRecordTags } from '../utils/tags';
+import {
+  assertSplitTotal,
+  attachRecordSplits,
+  detachRecordSplits,
+  getRecordSplits,
+  hasSplitLines,
+  primarySplitCategory,
+  setRecordSplits
+} from '../utils/splits';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Columns available when exporting purchases as CSV/XLSX
+const PURCHASE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'date', header: 'Date', type: 'date' },
+  { key: 'description', header: 'Description', type: 'string' },
+  { key: 'category', header: 'Category', type: 'string' },
+  { key: 'quantity', header: 'Quantity', type: 'number' },
+  { key: 'unit_cost', header: 'Unit Cost', type: 'money' },
+  { key: 'quantity_sold', header: 'Quantity Sold', type: 'number' },
+  { key: 'payment_method', header: 'Payment Method', type: 'string' },
+  { key: 'account_name', header: 'Account', type: 'string' },
+  { key: 'vendor_name', header: 'Vendor', type: 'string' },
+  { key: 'amount', header: 'Amount', type: 'money' }
+];
+
 // Get all purchase records
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('category').optional().trim(),
+  query('vendor_id').optional().isInt({ min: 1 }).withMessage('Vendor ID must be a positive integer'),
   query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
   query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
   query('sort_by').optional().isIn(['date', 'amount', 'created_at']).withMessage('Invalid sort field'),
-  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc')
+  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
+  ...validateTagFilter,
+  ...validateExport
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -33,6 +70,7 @@ router.get('/', [
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
     const category = req.query.category as string;
+    const vendorId = req.query.vendor_id as string;
     const startDate = req.query.start_date as string;
     const endDate = req.query.end_date as string;
     const sortBy = req.query.sort_by as string || 'date';
@@ -42,9 +80,15 @@ router.get('/', [
     let whereClause = 'WHERE user_id = ?';
     const whereParams = [userId];
 
+    // Split purchases match when any of their lines is in the category
     if (category) {
-      whereClause += ' AND category = ?';
-      whereParams.push(category);
+      whereClause += ` AND id IN (SELECT id FROM ${CATEGORY_RECORD_TABLES.purchase.lines} WHERE user_id = ? AND category = ?)`;
+      whereParams.push(userId, category);
+    }
+
+    if (vendorId) {
+      whereClause += ' AND vendor_id = ?';
+      whereParams.push(parseInt(vendorId));
     }
 
     if (startDate) {
@@ -57,6 +101,30 @@ router.get('/', [
       whereParams.push(endDate);
     }
 
+    // Keep records carrying every requested tag
+    const tagFilter = buildTagFilter(userId, 'purchase', parseTagFilter(req.query.tags as string));
+    whereClause += tagFilter.clause;
+    whereParams.push(...tagFilter.params);
+
+    // Records matching the filters, in the requested order
+    const selectSql = `SELECT 
+        id, amount, description, category, quantity, unit_cost, payment_method, account_id, vendor_id, date, 
+        receipt_path, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = purchases.account_id) as account_name,
+        (SELECT name FROM vendors WHERE vendors.id = purchases.vendor_id) as vendor_name,
+        (SELECT COALESCE(SUM(quantity), 0) FROM sale_allocations WHERE sale_allocations.purchase_id = purchases.id) as quantity_sold,
+        (SELECT COUNT(*) FROM attachments WHERE attachments.record_type = 'purchase' AND attachments.record_id = purchases.id) as attachment_count
+       FROM purchases 
+       ${whereClause} 
+       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}`;
+
+    // Export every matching record instead of a page
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      const [exportRecords] = await pool.execute(selectSql, whereParams) as any[];
+      return sendExport(res, format, 'purchases', selectExportColumns(PURCHASE_EXPORT_COLUMNS, req.query.columns as string), exportRecords);
+    }
+
     // Get total count
     const [countResult] = await pool.execute(
       `SELECT COUNT(*) as total FROM purchases ${whereClause}`,
@@ -65,16 +133,12 @@ router.get('/', [
     const total = countResult[0].total;
 
     // Get purchase records
-    const [purchaseRecords] = await pool.execute(
-      `SELECT 
-        id, amount, description, category, payment_method, date, 
-        receipt_path, created_at, updated_at
-       FROM purchases 
-       ${whereClause} 
-       ORDER BY ${sortBy} ${sortOrder.toUpperCase()}
+    const [purchaseRows] = await pool.execute(
+      `${selectSql}
        LIMIT ? OFFSET ?`,
       [...whereParams, limit, offset]
     ) as any[];
+    const purchaseRecords = await attachRecordSplits(pool, userId, 'purchase', await attachRecordTags(pool, userId, 'purchase', purchaseRows));
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -119,8 +183,11 @@ router.get('/:id', async (req, res) => {
 
     const [purchaseRecords] = await pool.execute(
       `SELECT 
-        id, amount, description, category, payment_method, date, 
-        receipt_path, created_at, updated_at
+        id, amount, description, category, quantity, unit_cost, payment_method, account_id, vendor_id, date, 
+        receipt_path, created_at, updated_at,
+        (SELECT account_name FROM accounts WHERE accounts.id = purchases.account_id) as account_name,
+        (SELECT name FROM vendors WHERE vendors.id = purchases.vendor_id) as vendor_name,
+        (SELECT COALESCE(SUM(quantity), 0) FROM sale_allocations WHERE sale_allocations.purchase_id = purchases.id) as quantity_sold
        FROM purchases 
        WHERE id = ? AND user_id = ?`,
       [purchaseId, userId]
@@ -133,9 +200,11 @@ router.get('/:id', async (req, res) => {
       });
     }
 
+    const [purchase] = await attachRecordSplits(pool, userId, 'purchase', await attachRecordTags(pool, userId, 'purchase', purchaseRecords));
+
     res.json({
       success: true,
-      data: { purchase: purchaseRecords[0] }
+      data: { purchase }
     });
   } catch (error) {
     console.error('Get purchase by ID error:', error);
@@ -156,16 +225,30 @@ router.post('/', [
     .trim()
     .isLength({ max: 500 })
     .withMessage('Description cannot exceed 500 characters'),
+  // A split purchase takes its category from its lines
   body('category')
+    .if((value, { req }) => !hasSplitLines(req.body))
     .trim()
     .notEmpty()
     .isLength({ max: 50 })
     .withMessage('Category is required and cannot exceed 50 characters'),
+  body('quantity')
+    .optional()
+    .isFloat({ min: 0.001 })
+    .withMessage('Quantity must be a positive number'),
   body('payment_method')
     .optional()
     .trim()
     .isLength({ max: 50 })
     .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('vendor_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Vendor ID must be a positive integer'),
   body('date')
     .isISO8601()
     .withMessage('Date must be valid ISO date'),
@@ -173,7 +256,9 @@ router.post('/', [
     .optional()
     .trim()
     .isLength({ max: 255 })
-    .withMessage('Receipt path cannot exceed 255 characters')
+    .withMessage('Receipt path cannot exceed 255 characters'),
+  ...validateTags,
+  ...validateSplits
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -186,45 +271,86 @@ router.post('/', [
     }
 
     const userId = req.user!.userId;
-    const { amount, description = null, category, payment_method = 'Cash', date, receipt_path = null } = req.body;
+    const { amount, description = null, quantity = 1, payment_method = 'Cash', account_id = null, vendor_id = null, date, receipt_path = null, tags = [] } = req.body;
+    const unitCost = parseFloat(amount) / parseFloat(quantity);
+    const splits = hasSplitLines(req.body) ? req.body.splits : [];
+    // A split purchase is filed under the category of its largest line
+    const category = splits.length > 0 ? primarySplitCategory(splits) : req.body.category;
 
     // Start transaction
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
+      // Check the paying account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
+
+      await assertUserVendor(connection, userId, vendor_id);
+
+      if (splits.length > 0) {
+        assertSplitTotal(splits, amount);
+      }
+
       // Insert purchase record
       const [purchaseResult] = await connection.execute(
-        'INSERT INTO purchases (user_id, amount, description, category, payment_method, date, receipt_path) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, amount, description, category, payment_method, date, receipt_path]
+        'INSERT INTO purchases (user_id, amount, description, category, quantity, unit_cost, payment_method, account_id, vendor_id, date, receipt_path) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [userId, amount, description, category, quantity, unitCost, payment_method, account_id, vendor_id, date, receipt_path]
       ) as any[];
 
       const purchaseId = purchaseResult.insertId;
 
+      // Reference the category by ID (created if the name is new)
+      await linkRecordCategory(connection, userId, 'purchase', purchaseId);
+      await setRecordTags(connection, userId, 'purchase', purchaseId, tags);
+      const purchaseSplits = await setRecordSplits(connection, userId, 'purchase', purchaseId, splits);
+
       // Get the created purchase record
       const [purchaseRecords] = await connection.execute(
         'SELECT * FROM purchases WHERE id = ?',
         [purchaseId]
       ) as any[];
 
-      const purchaseRecord = purchaseRecords[0];
+      const [purchaseRecord] = await attachRecordSplits(connection, userId, 'purchase', await attachRecordTags(connection, userId, 'purchase', purchaseRecords));
+
+      // Debit the paying account
+      await adjustAccountBalance(connection, userId, account_id, -parseFloat(amount));
 
       // Record transaction for audit trail
       await connection.execute(
-        'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
-        [userId, 'purchase', purchaseId, 'purchases', amount, `Purchase: ${description || category}`, date]
+        'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [userId, 'purchase', purchaseId, 'purchases', amount, `Purchase: ${description || category}`, account_id, date]
       );
 
+      // Post the stock bought to the ledger
+      await syncJournalEntry(connection, userId, 'purchase', purchaseId);
+
+      // Warn when this purchase pushes its category (or one of its lines') past 80% or 100% of budget
+      const budgetAlert = purchaseSplits.length > 0
+        ? await checkSplitBudgetAlert(connection, userId, 'purchase', purchaseSplits, date)
+        : await checkBudgetAlert(connection, userId, 'purchase', category, date, parseFloat(amount));
+
       // Commit transaction
       await connection.commit();
 
       res.status(201).json({
         success: true,
         message: 'Purchase record created successfully',
-        data: { purchase: purchaseRecord }
+        data: { purchase: purchaseRecord, budget_alert: budgetAlert }
       });
-    } catch (error) {
+    } catch (error: any) {
       await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
       throw error;
     } finally {
       connection.release();
@@ -255,11 +381,23 @@ router.put('/:id', [
     .notEmpty()
     .isLength({ max: 50 })
     .withMessage('Category cannot be empty and cannot exceed 50 characters'),
+  body('quantity')
+    .optional()
+    .isFloat({ min: 0.001 })
+    .withMessage('Quantity must be a positive number'),
   body('payment_method')
     .optional()
     .trim()
     .isLength({ max: 50 })
     .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('vendor_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Vendor ID must be a positive integer'),
   body('date')
     .optional()
     .isISO8601()
@@ -268,7 +406,9 @@ router.put('/:id', [
     .optional()
     .trim()
     .isLength({ max: 255 })
-    .withMessage('Receipt path cannot exceed 255 characters')
+    .withMessage('Receipt path cannot exceed 255 characters'),
+  ...validateTags,
+  ...validateSplits
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -292,7 +432,7 @@ router.put('/:id', [
 
     // Check if purchase record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id FROM purchases WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, quantity, account_id FROM purchases WHERE id = ? AND user_id = ?',
       [purchaseId, userId]
     ) as any[];
 
@@ -303,7 +443,21 @@ router.put('/:id', [
       });
     }
 
-    const { amount, description, category, payment_method, date, receipt_path } = req.body;
+    const { amount, description, quantity, payment_method, account_id, vendor_id, date, receipt_path, tags, splits } = req.body;
+    const oldAmount = existingRecords[0].amount;
+
+    // A split purchase's amount and category follow from its lines, so changing either needs new lines
+    const isSplit = (await getRecordSplits(pool, userId, 'purchase', [purchaseId])).has(purchaseId);
+    if (isSplit && splits === undefined && (amount !== undefined || req.body.category !== undefined)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This purchase is split; send its split lines with the new amount or category'
+      });
+    }
+    const splitLines = hasSplitLines(req.body) ? splits : null;
+    const category = splitLines ? primarySplitCategory(splitLines) : req.body.category;
+    const oldAccountId = existingRecords[0].account_id;
+    const newAccountId = account_id !== undefined ? account_id : oldAccountId;
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -320,10 +474,29 @@ router.put('/:id', [
       updates.push('category = ?');
       values.push(category);
     }
+    if (quantity !== undefined) {
+      updates.push('quantity = ?');
+      values.push(quantity);
+    }
+    // Unit cost follows the total and quantity; sales already made keep the cost they were booked at
+    if (amount !== undefined || quantity !== undefined) {
+      const newAmount = amount !== undefined ? parseFloat(amount) : parseFloat(existingRecords[0].amount);
+      const newQuantity = quantity !== undefined ? parseFloat(quantity) : parseFloat(existingRecords[0].quantity);
+      updates.push('unit_cost = ?');
+      values.push(newAmount / newQuantity);
+    }
     if (payment_method !== undefined) {
       updates.push('payment_method = ?');
       values.push(payment_method);
     }
+    if (account_id !== undefined) {
+      updates.push('account_id = ?');
+      values.push(account_id);
+    }
+    if (vendor_id !== undefined) {
+      updates.push('vendor_id = ?');
+      values.push(vendor_id);
+    }
     if (date !== undefined) {
       updates.push('date = ?');
       values.push(date);
@@ -333,7 +506,7 @@ router.put('/:id', [
       values.push(receipt_path);
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && tags === undefined && splits === undefined) {
       return res.status(400).json({
         success: false,
         message: 'No valid fields to update'
@@ -342,23 +515,100 @@ router.put('/:id', [
 
     values.push(purchaseId);
 
-    // Update purchase record
-    await pool.execute(
-      `UPDATE purchases SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      values
-    );
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    // Get updated record
-    const [updatedRecords] = await pool.execute(
-      'SELECT * FROM purchases WHERE id = ?',
-      [purchaseId]
-    ) as any[];
+    try {
+      // Check the new paying account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
 
-    res.json({
-      success: true,
-      message: 'Purchase record updated successfully',
-      data: { purchase: updatedRecords[0] }
-    });
+      // Stock that has already been sold cannot be removed from the purchase
+      if (quantity !== undefined) {
+        const sold = await soldQuantity(connection, purchaseId);
+        if (parseFloat(quantity) < sold) {
+          await connection.rollback();
+          return res.status(400).json({
+            success: false,
+            message: `Quantity cannot be less than the ${sold} units already sold`
+          });
+        }
+      }
+
+      await assertUserVendor(connection, userId, vendor_id);
+
+      if (splitLines) {
+        assertSplitTotal(splitLines, amount !== undefined ? amount : oldAmount);
+      }
+
+      // Update purchase record
+      if (updates.length > 0) {
+        await connection.execute(
+          `UPDATE purchases SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          values
+        );
+      }
+
+      if (tags !== undefined) {
+        await setRecordTags(connection, userId, 'purchase', purchaseId, tags);
+      }
+
+      // New lines replace the old; null or an empty list makes the purchase whole again
+      if (splits !== undefined) {
+        await setRecordSplits(connection, userId, 'purchase', purchaseId, splitLines || []);
+      }
+
+      if (category !== undefined) {
+        await linkRecordCategory(connection, userId, 'purchase', purchaseId);
+      }
+
+      // Move the balance effect if the amount or account changed
+      if (amount !== undefined || account_id !== undefined) {
+        const newAmount = amount !== undefined ? parseFloat(amount) : parseFloat(oldAmount);
+        await adjustAccountBalance(connection, userId, oldAccountId, parseFloat(oldAmount));
+        await adjustAccountBalance(connection, userId, newAccountId, -newAmount);
+
+        await connection.execute(
+          'UPDATE transactions SET amount = ?, account_id = ? WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+          [newAmount, newAccountId, purchaseId, 'purchases', userId]
+        );
+      }
+
+      // Repost the purchase to the ledger
+      await syncJournalEntry(connection, userId, 'purchase', purchaseId);
+
+      // Get updated record
+      const [updatedRecords] = await connection.execute(
+        'SELECT * FROM purchases WHERE id = ?',
+        [purchaseId]
+      ) as any[];
+      const [updatedPurchase] = await attachRecordSplits(connection, userId, 'purchase', await attachRecordTags(connection, userId, 'purchase', updatedRecords));
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Purchase record updated successfully',
+        data: { purchase: updatedPurchase }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Update purchase error:', error);
     res.status(500).json({
@@ -383,7 +633,7 @@ router.delete('/:id', async (req, res) => {
 
     // Check if purchase record exists and belongs to user
     const [existingRecords] = await pool.execute(
-      'SELECT id FROM purchases WHERE id = ? AND user_id = ?',
+      'SELECT id, amount, account_id FROM purchases WHERE id = ? AND user_id = ?',
       [purchaseId, userId]
     ) as any[];
 
@@ -399,19 +649,44 @@ router.delete('/:id', async (req, res) => {
     await connection.beginTransaction();
 
     try {
+      // Purchases whose stock has been sold back sales' cost of goods
+      if (await soldQuantity(connection, purchaseId) > 0) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: 'Cannot delete a purchase whose stock has been sold. Delete or cancel those sales first.'
+        });
+      }
+
+      // Refund the paying account
+      await adjustAccountBalance(connection, userId, existingRecords[0].account_id, parseFloat(existingRecords[0].amount));
+
       // Delete related transactions
       await connection.execute(
         'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
         [purchaseId, 'purchases', userId]
       );
 
+      // Delete attachments of the record
+      const attachmentFiles = await detachRecordAttachments(connection, userId, 'purchase', [purchaseId]);
+
+      // Delete the tag links of the record
+      await detachRecordTags(connection, userId, 'purchase', [purchaseId]);
+
+      // Delete the split lines of the record
+      await detachRecordSplits(connection, userId, 'purchase', [purchaseId]);
+
       // Delete purchase record
       await connection.execute(
         'DELETE FROM purchases WHERE id = ? AND user_id = ?',
         [purchaseId, userId]
       );
 
+      // Remove the purchase from the ledger
+      await syncJournalEntry(connection, userId, 'purchase', purchaseId);
+
       await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
 
       res.json({
         success: true,
@@ -464,14 +739,14 @@ router.get('/stats/summary', async (req, res) => {
       [userId]
     ) as any[];
 
-    // Get category breakdown
+    // Get category breakdown, counting each line of a split purchase under its own category
     const [categoryStats] = await pool.execute(
       `SELECT 
         category,
         COUNT(*) as count,
         SUM(amount) as total_amount,
         AVG(amount) as average_amount
-       FROM purchases 
+       FROM ${CATEGORY_RECORD_TABLES.purchase.lines} 
        WHERE user_id = ? 
        GROUP BY category
        ORDER BY total_amount DESC`,
@@ -0,0 +1,650 @@
+import express from 'express';
+import { PoolConnection } from 'mysql2/promise';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { PAYMENT_METHODS } from '../middleware/validation';
+import { addDays, todayString } from '../utils/dates';
+import { assignDocumentNumber, getInvoice, getInvoiceSettings } from '../utils/invoices';
+import {
+  CONVERTIBLE_QUOTATION_STATUSES,
+  QUOTATION_SELECT,
+  QuotationStatus,
+  convertQuotationToInvoice,
+  convertQuotationToSales,
+  expireQuotations,
+  getQuotation,
+  getQuoteConversion,
+  setQuotationItems
+} from '../utils/quotations';
+import { resolveSaleCustomer } from '../utils/receivables';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Customer, dates and line items accepted when creating or updating a draft
+const validateQuotation = [
+  body('customer_id')
+    .isInt({ min: 1 })
+    .withMessage('Customer is required'),
+  body('issue_date')
+    .isISO8601()
+    .withMessage('Issue date must be valid ISO date'),
+  body('valid_until')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Valid until must be valid ISO date')
+    .custom((value, { req }) => value >= req.body.issue_date)
+    .withMessage('Valid until cannot be before the issue date'),
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('A quotation needs between 1 and 100 line items'),
+  body('items.*.description')
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Each line needs a description of at most 255 characters'),
+  body('items.*.purchase_category')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Purchase category cannot exceed 50 characters'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Quantity must be greater than 0'),
+  body('items.*.unit_price')
+    .isFloat({ min: 0 })
+    .withMessage('Unit price cannot be negative'),
+  body('items.*.unit_cost')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0 })
+    .withMessage('Unit cost cannot be negative'),
+  body('items.*.discount_percent')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Discount must be between 0 and 100 percent'),
+  body('items.*.tax_rate')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Tax rate must be between 0 and 100 percent')
+];
+
+// Parse the quotation ID route parameter, or null if it isn't a number
+const parseQuotationId = (req: express.Request): number | null => {
+  const quotationId = parseInt(req.params.id);
+  return isNaN(quotationId) ? null : quotationId;
+};
+
+// Get all quotations, with what is still open
+router.get('/', [
+  query('status').optional().isIn(['draft', 'sent', 'accepted', 'rejected', 'expired']).withMessage('Invalid status'),
+  query('customer_id').optional().isInt({ min: 1 }).withMessage('Customer ID must be a positive integer'),
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { status, customer_id, start_date, end_date } = req.query;
+
+    await expireQuotations(pool, userId);
+
+    let whereClause = 'WHERE q.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (status) {
+      whereClause += ' AND q.status = ?';
+      whereParams.push(status);
+    }
+
+    if (customer_id) {
+      whereClause += ' AND q.customer_id = ?';
+      whereParams.push(parseInt(customer_id as string));
+    }
+
+    if (start_date) {
+      whereClause += ' AND q.issue_date >= ?';
+      whereParams.push(start_date);
+    }
+
+    if (end_date) {
+      whereClause += ' AND q.issue_date <= ?';
+      whereParams.push(end_date);
+    }
+
+    const [quotations] = await pool.execute(
+      `${QUOTATION_SELECT}
+       ${whereClause}
+       ORDER BY q.issue_date DESC, q.id DESC`,
+      whereParams
+    ) as any[];
+
+    // Sent quotes awaiting an answer, and accepted ones not yet turned into an invoice or sale
+    const [totals] = await pool.execute(
+      `SELECT
+        COALESCE(SUM(IF(status = 'sent', total, 0)), 0) AS open_value,
+        COUNT(IF(status = 'sent', 1, NULL)) AS open_count,
+        COUNT(IF(status = 'accepted' AND converted_at IS NULL, 1, NULL)) AS awaiting_conversion,
+        COUNT(IF(status = 'draft', 1, NULL)) AS draft_count
+       FROM quotations
+       WHERE user_id = ?`,
+      [userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { quotations, summary: totals[0] }
+    });
+  } catch (error) {
+    console.error('Get quotations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Quote-to-sale conversion for quotes issued in a period, defaulting to the current year to date
+router.get('/reports/conversion', [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const endDate = (req.query.end_date as string) || todayString();
+    const startDate = (req.query.start_date as string) || `${endDate.substring(0, 4)}-01-01`;
+
+    const report = await getQuoteConversion(pool, req.user!.userId, startDate, endDate);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Get quote conversion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get a single quotation with its line items
+router.get('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const quotationId = parseQuotationId(req);
+
+    if (quotationId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid quotation ID'
+      });
+    }
+
+    await expireQuotations(pool, userId);
+    const quotation = await getQuotation(pool, userId, quotationId);
+
+    if (!quotation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quotation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { quotation }
+    });
+  } catch (error) {
+    console.error('Get quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create a draft quotation with the next quote number. Without a validity date it is valid
+// for the number of days in the invoice settings.
+router.post('/', validateQuotation, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { customer_id, issue_date, valid_until = null, notes = null, items } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const customer = await resolveSaleCustomer(connection, userId, { customer_id });
+      const settings = await getInvoiceSettings(connection, userId);
+      const quoteNumber = await assignDocumentNumber(connection, userId, 'quotation');
+
+      const [quotationResult] = await connection.execute(
+        `INSERT INTO quotations (user_id, quote_number, customer_id, customer_name, issue_date, valid_until, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [userId, quoteNumber, customer.customer_id, customer.customer_name, issue_date,
+         valid_until || addDays(issue_date, settings.quote_validity_days), notes || null]
+      ) as any[];
+      const quotationId = quotationResult.insertId;
+
+      await setQuotationItems(connection, quotationId, items);
+
+      const quotation = await getQuotation(connection, userId, quotationId);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `Quotation ${quoteNumber} created successfully`,
+        data: { quotation }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Create quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update a draft quotation and replace its line items. Once sent, the customer has the
+// quote as it was; create a new one to revise it.
+router.put('/:id', validateQuotation, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const quotationId = parseQuotationId(req);
+
+    if (quotationId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid quotation ID'
+      });
+    }
+
+    const { customer_id, issue_date, valid_until = null, notes = null, items } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [existingQuotations] = await connection.execute(
+        'SELECT id, status FROM quotations WHERE id = ? AND user_id = ? FOR UPDATE',
+        [quotationId, userId]
+      ) as any[];
+
+      if (existingQuotations.length === 0) {
+        throw Object.assign(new Error('Quotation not found'), { status: 404 });
+      }
+      if (existingQuotations[0].status !== 'draft') {
+        throw Object.assign(new Error('Only draft quotations can be edited'), { status: 400 });
+      }
+
+      const customer = await resolveSaleCustomer(connection, userId, { customer_id });
+      const settings = await getInvoiceSettings(connection, userId);
+
+      await connection.execute(
+        `UPDATE quotations
+         SET customer_id = ?, customer_name = ?, issue_date = ?, valid_until = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND user_id = ?`,
+        [customer.customer_id, customer.customer_name, issue_date,
+         valid_until || addDays(issue_date, settings.quote_validity_days), notes || null, quotationId, userId]
+      );
+
+      await setQuotationItems(connection, quotationId, items);
+
+      const quotation = await getQuotation(connection, userId, quotationId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Quotation updated successfully',
+        data: { quotation }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Update quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a quotation that hasn't been converted. Converted quotes stay on record for the
+// conversion report.
+router.delete('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const quotationId = parseQuotationId(req);
+
+    if (quotationId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid quotation ID'
+      });
+    }
+
+    const [existingQuotations] = await pool.execute(
+      'SELECT id, converted_to FROM quotations WHERE id = ? AND user_id = ?',
+      [quotationId, userId]
+    ) as any[];
+
+    if (existingQuotations.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quotation not found'
+      });
+    }
+
+    if (existingQuotations[0].converted_to) {
+      return res.status(400).json({
+        success: false,
+        message: `This quotation was converted to ${existingQuotations[0].converted_to === 'invoice' ? 'an invoice' : 'sales'} and cannot be deleted`
+      });
+    }
+
+    await pool.execute('DELETE FROM quotations WHERE id = ? AND user_id = ?', [quotationId, userId]);
+
+    res.json({
+      success: true,
+      message: 'Quotation deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete quotation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Handler moving a quotation from one of the given statuses to another. A sent quote past its
+// validity has expired, but the customer can still accept or turn it down late.
+const changeStatus = (from: QuotationStatus[], to: QuotationStatus, action: string) =>
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const userId = req.user!.userId;
+      const quotationId = parseQuotationId(req);
+
+      if (quotationId === null) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid quotation ID'
+        });
+      }
+
+      await expireQuotations(pool, userId);
+
+      const [existingQuotations] = await pool.execute(
+        'SELECT id, quote_number, status FROM quotations WHERE id = ? AND user_id = ?',
+        [quotationId, userId]
+      ) as any[];
+
+      if (existingQuotations.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Quotation not found'
+        });
+      }
+
+      if (!from.includes(existingQuotations[0].status)) {
+        return res.status(400).json({
+          success: false,
+          message: `A ${existingQuotations[0].status} quotation cannot be ${action}`
+        });
+      }
+
+      await pool.execute(
+        'UPDATE quotations SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+        [to, quotationId, userId]
+      );
+
+      const quotation = await getQuotation(pool, userId, quotationId);
+
+      res.json({
+        success: true,
+        message: `Quotation ${existingQuotations[0].quote_number} marked as ${action}`,
+        data: { quotation }
+      });
+    } catch (error) {
+      console.error(`Quotation ${action} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+// Mark a draft as sent to the customer
+router.post('/:id/send', changeStatus(['draft'], 'sent', 'sent'));
+
+// Record the customer's answer to a sent quote
+router.post('/:id/accept', changeStatus(['sent', 'expired'], 'accepted', 'accepted'));
+router.post('/:id/reject', changeStatus(['sent', 'expired'], 'rejected', 'rejected'));
+
+// Lock a quotation for conversion, checking it hasn't been rejected or converted already
+const lockConvertibleQuotation = async (connection: PoolConnection, userId: number, quotationId: number) => {
+  await expireQuotations(connection, userId);
+
+  const [existingQuotations] = await connection.execute(
+    'SELECT id, status, converted_to FROM quotations WHERE id = ? AND user_id = ? FOR UPDATE',
+    [quotationId, userId]
+  ) as any[];
+
+  if (existingQuotations.length === 0) {
+    throw Object.assign(new Error('Quotation not found'), { status: 404 });
+  }
+  if (existingQuotations[0].converted_to) {
+    throw Object.assign(new Error(`This quotation was already converted to ${existingQuotations[0].converted_to === 'invoice' ? 'an invoice' : 'sales'}`), { status: 400 });
+  }
+  if (!CONVERTIBLE_QUOTATION_STATUSES.includes(existingQuotations[0].status)) {
+    throw Object.assign(new Error(`A ${existingQuotations[0].status} quotation cannot be converted`), { status: 400 });
+  }
+
+  return getQuotation(connection, userId, quotationId);
+};
+
+// Turn a quotation into a draft invoice with all its lines, marking the quote accepted
+router.post('/:id/convert-to-invoice', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const quotationId = parseQuotationId(req);
+
+    if (quotationId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid quotation ID'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const existing = await lockConvertibleQuotation(connection, userId, quotationId);
+      const invoiceId = await convertQuotationToInvoice(connection, userId, existing);
+
+      const quotation = await getQuotation(connection, userId, quotationId);
+      const invoice = await getInvoice(connection, userId, invoiceId);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `Quotation ${quotation.quote_number} converted to a draft invoice`,
+        data: { quotation, invoice }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Convert quotation to invoice error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Record a quotation straight as sales, one per line, marking the quote accepted
+router.post('/:id/convert-to-sale', [
+  body('date')
+    .isISO8601()
+    .withMessage('Date must be valid ISO date'),
+  body('status')
+    .optional()
+    .isIn(['pending', 'completed'])
+    .withMessage('Status must be pending or completed'),
+  body('category')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Category is required and cannot exceed 50 characters'),
+  body('payment_method')
+    .trim()
+    .isIn(PAYMENT_METHODS)
+    .withMessage('Invalid payment method'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const quotationId = parseQuotationId(req);
+
+    if (quotationId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid quotation ID'
+      });
+    }
+
+    const { date, status = 'completed', category, payment_method, account_id = null } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const existing = await lockConvertibleQuotation(connection, userId, quotationId);
+      const saleIds = await convertQuotationToSales(connection, userId, existing, {
+        date,
+        status,
+        category,
+        payment_method,
+        account_id
+      });
+
+      const quotation = await getQuotation(connection, userId, quotationId);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `Quotation ${quotation.quote_number} recorded as ${saleIds.length} sale${saleIds.length === 1 ? '' : 's'}`,
+        data: { quotation, sale_ids: saleIds }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Convert quotation to sale error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
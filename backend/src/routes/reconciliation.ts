@@ -0,0 +1,1142 @@
+import express from 'express';
+import multer from 'multer';
+import { PoolConnection } from 'mysql2/promise';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { parseDate, toDateString, todayString } from '../utils/dates';
+import { createIncomeRecord } from '../utils/income';
+import { createExpenseRecord } from '../utils/expenses';
+import { MAX_IMPORT_FILE_SIZE, importUpload } from '../utils/imports';
+import { ADJUSTMENT_SOURCE } from '../utils/ledger';
+import { parseStatementFile } from '../utils/bankStatements';
+import {
+  assertNotReconciled,
+  autoMatchStatementLines,
+  findBookEntry,
+  getBookEntries,
+  getLastReconciledDate,
+  getReconciliationSummary,
+  importStatement
+} from '../utils/reconciliation';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+const findAccount = async (userId: number, accountId: number) => {
+  const [accounts] = await pool.execute(
+    'SELECT id, account_name, balance FROM accounts WHERE id = ? AND user_id = ?',
+    [accountId, userId]
+  ) as any[];
+
+  return accounts.length > 0 ? accounts[0] : null;
+};
+
+// Statement line owned by the user, locked for the rest of the caller's transaction
+const findStatementLine = async (connection: PoolConnection, userId: number, lineId: number) => {
+  const [lines] = await connection.execute(
+    'SELECT * FROM bank_statement_lines WHERE id = ? AND user_id = ? FOR UPDATE',
+    [lineId, userId]
+  ) as any[];
+
+  if (lines.length === 0) {
+    throw Object.assign(new Error('Statement line not found'), { status: 404 });
+  }
+
+  return lines[0];
+};
+
+const getStatementLine = async (connection: PoolConnection, lineId: number) => {
+  const [lines] = await connection.execute(
+    'SELECT * FROM bank_statement_lines WHERE id = ?',
+    [lineId]
+  ) as any[];
+
+  return lines[0];
+};
+
+// Get saved bank CSV layouts
+router.get('/profiles', async (req, res) => {
+  try {
+    const [profiles] = await pool.execute(
+      'SELECT * FROM bank_csv_profiles WHERE user_id = ? ORDER BY name',
+      [req.user!.userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { profiles }
+    });
+  } catch (error) {
+    console.error('Get bank CSV profiles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Save a bank's CSV layout: which columns hold the date, description, reference and amount
+// (one signed column, or separate debit and credit columns) and how dates and numbers are written
+router.post('/profiles', [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name is required and cannot exceed 100 characters'),
+  body('header_rows')
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage('Header rows must be between 0 and 20'),
+  body('date_column')
+    .isInt({ min: 0 })
+    .withMessage('Date column is required'),
+  body(['description_column', 'reference_column', 'amount_column', 'debit_column', 'credit_column'])
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('Columns must be column indexes'),
+  body('amount_column')
+    .custom((value, { req }) => {
+      const hasAmount = value !== undefined && value !== null;
+      const hasDebitCredit = req.body.debit_column != null && req.body.credit_column != null;
+      if (!hasAmount && !hasDebitCredit) {
+        throw new Error('Choose an amount column, or both debit and credit columns');
+      }
+      return true;
+    }),
+  body('date_format')
+    .isIn(DATE_FORMATS)
+    .withMessage('Date format must be YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY'),
+  body('decimal_format')
+    .isIn(['dot', 'comma'])
+    .withMessage('Decimal format must be dot or comma')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const column = (value: any) => value !== undefined && value !== null ? parseInt(value) : null;
+
+    const [existing] = await pool.execute(
+      'SELECT id FROM bank_csv_profiles WHERE user_id = ? AND name = ?',
+      [userId, req.body.name]
+    ) as any[];
+
+    if (existing.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'A profile with this name already exists'
+      });
+    }
+
+    const [result] = await pool.execute(
+      `INSERT INTO bank_csv_profiles (user_id, name, header_rows, date_column, description_column, reference_column,
+        amount_column, debit_column, credit_column, date_format, decimal_format)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        userId,
+        req.body.name,
+        req.body.header_rows !== undefined ? parseInt(req.body.header_rows) : 1,
+        parseInt(req.body.date_column),
+        column(req.body.description_column),
+        column(req.body.reference_column),
+        column(req.body.amount_column),
+        column(req.body.debit_column),
+        column(req.body.credit_column),
+        req.body.date_format,
+        req.body.decimal_format
+      ]
+    ) as any[];
+
+    const [profiles] = await pool.execute(
+      'SELECT * FROM bank_csv_profiles WHERE id = ?',
+      [result.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Bank CSV profile saved successfully',
+      data: { profile: profiles[0] }
+    });
+  } catch (error) {
+    console.error('Create bank CSV profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a saved bank CSV layout
+router.delete('/profiles/:id', async (req, res) => {
+  try {
+    const profileId = parseInt(req.params.id);
+
+    if (isNaN(profileId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid profile ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      'DELETE FROM bank_csv_profiles WHERE id = ? AND user_id = ?',
+      [profileId, req.user!.userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bank CSV profile not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Bank CSV profile deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete bank CSV profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the statements imported for an account, newest first
+router.get('/accounts/:accountId/statements', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    const [statements] = await pool.execute(
+      `SELECT bs.*,
+        (SELECT COUNT(*) FROM bank_statement_lines bsl WHERE bsl.statement_id = bs.id AND bsl.status = 'matched') AS matched_count,
+        (SELECT COUNT(*) FROM bank_statement_lines bsl WHERE bsl.statement_id = bs.id AND bsl.status = 'unmatched') AS unmatched_count
+       FROM bank_statements bs
+       WHERE bs.account_id = ? AND bs.user_id = ?
+       ORDER BY bs.end_date DESC, bs.id DESC`,
+      [accountId, userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { statements }
+    });
+  } catch (error) {
+    console.error('Get bank statements error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Import an OFX, QIF, CAMT.053 or CSV statement file for an account. Lines already imported
+// are skipped and the new ones are matched to the account's records where possible.
+router.post('/accounts/:accountId/statements', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        importUpload.single('file')(req, res, (error: any) => error ? reject(error) : resolve());
+      });
+    } catch (error: any) {
+      if (error instanceof multer.MulterError) {
+        const messages: Record<string, string> = {
+          LIMIT_FILE_SIZE: `File must be ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)} MB or smaller`,
+          LIMIT_FILE_COUNT: 'Only one statement can be imported at a time',
+          LIMIT_UNEXPECTED_FILE: 'File must be sent in the "file" field'
+        };
+        return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+          success: false,
+          message: messages[error.code] || error.message
+        });
+      }
+      throw error;
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    const dateFormat = req.body.date_format || undefined;
+    if (dateFormat && !DATE_FORMATS.includes(dateFormat)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date format must be YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY'
+      });
+    }
+
+    let profile = null;
+    if (req.body.profile_id) {
+      const [profiles] = await pool.execute(
+        'SELECT * FROM bank_csv_profiles WHERE id = ? AND user_id = ?',
+        [parseInt(req.body.profile_id) || 0, userId]
+      ) as any[];
+
+      if (profiles.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Bank CSV profile not found'
+        });
+      }
+      profile = profiles[0];
+    }
+
+    const statement = parseStatementFile(req.file.buffer, req.file.originalname, { profile, date_format: dateFormat });
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const result = await importStatement(connection, userId, accountId, req.file.originalname, statement);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `${result.imported} line(s) imported, ${result.matched} matched` +
+          (result.duplicates > 0 ? `, ${result.duplicates} already imported` : ''),
+        data: result
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Import bank statement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete an imported statement and its lines (not allowed once any line has been reconciled)
+router.delete('/statements/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const statementId = parseInt(req.params.id);
+
+    if (isNaN(statementId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid statement ID'
+      });
+    }
+
+    const [statements] = await pool.execute(
+      `SELECT bs.id, bs.account_id, MIN(bsl.date) AS first_date
+       FROM bank_statements bs
+       LEFT JOIN bank_statement_lines bsl ON bsl.statement_id = bs.id
+       WHERE bs.id = ? AND bs.user_id = ?
+       GROUP BY bs.id, bs.account_id`,
+      [statementId, userId]
+    ) as any[];
+
+    if (statements.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Statement not found'
+      });
+    }
+
+    if (statements[0].first_date) {
+      await assertNotReconciled(pool, statements[0].account_id, statements[0].first_date);
+    }
+
+    await pool.execute('DELETE FROM bank_statements WHERE id = ?', [statementId]);
+
+    res.json({
+      success: true,
+      message: 'Statement deleted successfully'
+    });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Delete bank statement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get an account's statement lines with the record each is matched to
+router.get('/accounts/:accountId/lines', [
+  query('status').optional().isIn(['unmatched', 'matched', 'ignored']).withMessage('Invalid status'),
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    let whereClause = 'WHERE bsl.account_id = ? AND bsl.user_id = ?';
+    const queryParams: any[] = [accountId, userId];
+
+    if (req.query.status) {
+      whereClause += ' AND bsl.status = ?';
+      queryParams.push(req.query.status);
+    }
+    if (req.query.start_date) {
+      whereClause += ' AND bsl.date >= ?';
+      queryParams.push(req.query.start_date);
+    }
+    if (req.query.end_date) {
+      whereClause += ' AND bsl.date <= ?';
+      queryParams.push(req.query.end_date);
+    }
+
+    const [lines] = await pool.execute(
+      `SELECT bsl.*, bs.file_name,
+        (SELECT je.description FROM journal_entries je
+         WHERE je.user_id = bsl.user_id AND je.source_type = bsl.matched_source_type AND je.source_id = bsl.matched_source_id
+         LIMIT 1) AS matched_description
+       FROM bank_statement_lines bsl
+       JOIN bank_statements bs ON bsl.statement_id = bs.id
+       ${whereClause}
+       ORDER BY bsl.date DESC, bsl.id DESC`,
+      queryParams
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: {
+        lines,
+        reconciled_to: await getLastReconciledDate(pool, accountId)
+      }
+    });
+  } catch (error) {
+    console.error('Get statement lines error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the account's book entries (records that moved its balance) in a period, to match lines against
+router.get('/accounts/:accountId/book-entries', [
+  query('start_date').isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').isISO8601().withMessage('End date must be valid ISO date'),
+  query('unmatched').optional().isBoolean().withMessage('Unmatched must be true or false')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    let entries = await getBookEntries(pool, userId, accountId, req.query.start_date as string, req.query.end_date as string);
+    if (req.query.unmatched === 'true') {
+      entries = entries.filter((entry) => entry.statement_line_id === null);
+    }
+
+    res.json({
+      success: true,
+      data: { entries }
+    });
+  } catch (error) {
+    console.error('Get book entries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Match an account's unmatched statement lines to its records automatically
+router.post('/accounts/:accountId/auto-match', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const matched = await autoMatchStatementLines(connection, userId, accountId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: `${matched} line(s) matched`,
+        data: { matched }
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Auto-match statement lines error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Match a statement line to a record on the same account with the same amount
+router.post('/lines/:id/match', [
+  body('source_type')
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage('Source type is required'),
+  body('source_id')
+    .isInt({ min: 1 })
+    .withMessage('Source ID must be a positive integer')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const lineId = parseInt(req.params.id);
+
+    if (isNaN(lineId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid statement line ID'
+      });
+    }
+
+    const sourceType = req.body.source_type;
+    const sourceId = parseInt(req.body.source_id);
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const line = await findStatementLine(connection, userId, lineId);
+      await assertNotReconciled(connection, line.account_id, line.date);
+
+      const entry = await findBookEntry(connection, userId, line.account_id, sourceType, sourceId);
+      if (!entry || entry.source_type === ADJUSTMENT_SOURCE) {
+        throw Object.assign(new Error('No record on this account to match'), { status: 404 });
+      }
+      if (entry.statement_line_id && entry.statement_line_id !== lineId) {
+        throw Object.assign(new Error('Record is already matched to another statement line'), { status: 409 });
+      }
+      if (entry.amount !== parseFloat(line.amount)) {
+        throw Object.assign(new Error('Record amount does not match the statement line'), { status: 400 });
+      }
+
+      await connection.execute(
+        "UPDATE bank_statement_lines SET status = 'matched', matched_source_type = ?, matched_source_id = ? WHERE id = ?",
+        [sourceType, sourceId, lineId]
+      );
+
+      const updated = await getStatementLine(connection, lineId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Statement line matched successfully',
+        data: { line: updated }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Match statement line error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Set a statement line's status: unmatch (back to unmatched) or ignore (leave out of the books,
+// e.g. a bank fee already recorded elsewhere). Lines in a reconciled period can't change.
+const setLineStatus = (status: 'unmatched' | 'ignored', message: string) => async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const lineId = parseInt(req.params.id);
+
+    if (isNaN(lineId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid statement line ID'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const line = await findStatementLine(connection, userId, lineId);
+      await assertNotReconciled(connection, line.account_id, line.date);
+
+      await connection.execute(
+        'UPDATE bank_statement_lines SET status = ?, matched_source_type = NULL, matched_source_id = NULL WHERE id = ?',
+        [status, lineId]
+      );
+
+      const updated = await getStatementLine(connection, lineId);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message,
+        data: { line: updated }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Update statement line error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+router.post('/lines/:id/unmatch', setLineStatus('unmatched', 'Statement line unmatched successfully'));
+router.post('/lines/:id/ignore', setLineStatus('ignored', 'Statement line ignored'));
+
+// Record an unmatched statement line as a new income (money in) or expense (money out)
+// on the line's account and date, and match the line to it
+router.post('/lines/:id/create-record', [
+  body('category')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Category is required and cannot exceed 50 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('payment_method')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Payment method cannot exceed 50 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const lineId = parseInt(req.params.id);
+
+    if (isNaN(lineId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid statement line ID'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const line = await findStatementLine(connection, userId, lineId);
+      await assertNotReconciled(connection, line.account_id, line.date);
+
+      if (line.status !== 'unmatched') {
+        throw Object.assign(new Error('Only unmatched statement lines can be recorded'), { status: 409 });
+      }
+
+      const amount = parseFloat(line.amount);
+      const date = toDateString(parseDate(line.date));
+      const description = req.body.description || line.description || null;
+      let sourceType: 'income' | 'expense';
+      let record;
+
+      if (amount > 0) {
+        const result = await createIncomeRecord(connection, userId, {
+          amount: line.amount,
+          description,
+          category: req.body.category,
+          account_id: line.account_id,
+          date
+        });
+        sourceType = 'income';
+        record = result.income;
+      } else {
+        record = await createExpenseRecord(connection, userId, {
+          amount: Math.abs(amount).toFixed(2),
+          description,
+          category: req.body.category,
+          payment_method: req.body.payment_method || 'Bank Transfer',
+          account_id: line.account_id,
+          date
+        });
+        sourceType = 'expense';
+      }
+
+      await connection.execute(
+        "UPDATE bank_statement_lines SET status = 'matched', matched_source_type = ?, matched_source_id = ? WHERE id = ?",
+        [sourceType, record.id, lineId]
+      );
+
+      const updated = await getStatementLine(connection, lineId);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `${sourceType === 'income' ? 'Income' : 'Expense'} recorded and matched successfully`,
+        data: {
+          line: updated,
+          record_type: sourceType,
+          record
+        }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Create record from statement line error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Compare the statement and book balances at a date, with the items that explain the difference
+router.get('/accounts/:accountId/summary', [
+  query('as_of').optional().isISO8601().withMessage('As of date must be valid ISO date'),
+  query('statement_balance').optional().isDecimal().withMessage('Statement balance must be a number')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (!(await findAccount(userId, accountId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
+
+    const summary = await getReconciliationSummary(
+      pool,
+      userId,
+      accountId,
+      (req.query.as_of as string) || todayString(),
+      req.query.statement_balance !== undefined ? parseFloat(req.query.statement_balance as string) : null
+    );
+
+    res.json({
+      success: true,
+      data: { summary }
+    });
+  } catch (error) {
+    console.error('Get reconciliation summary error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Mark the account reconciled up to a date. Any difference not explained by outstanding
+// statement lines or book entries (beyond what was carried forward) must be explained in the notes.
+router.post('/accounts/:accountId/reconcile', [
+  body('reconciled_to')
+    .isISO8601()
+    .withMessage('Reconciled to date must be valid ISO date'),
+  body('statement_balance')
+    .optional({ values: 'null' })
+    .isDecimal()
+    .withMessage('Statement balance must be a number'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+    const reconciledTo = (req.body.reconciled_to as string).substring(0, 10);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    if (reconciledTo > todayString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot reconcile a future date'
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [accounts] = await connection.execute(
+        'SELECT id FROM accounts WHERE id = ? AND user_id = ? FOR UPDATE',
+        [accountId, userId]
+      ) as any[];
+
+      if (accounts.length === 0) {
+        throw Object.assign(new Error('Account not found'), { status: 404 });
+      }
+
+      const lastReconciled = await getLastReconciledDate(connection, accountId);
+      if (lastReconciled && reconciledTo <= lastReconciled) {
+        throw Object.assign(new Error(`Account is already reconciled up to ${lastReconciled}`), { status: 400 });
+      }
+
+      const summary = await getReconciliationSummary(
+        connection,
+        userId,
+        accountId,
+        reconciledTo,
+        req.body.statement_balance !== undefined && req.body.statement_balance !== null
+          ? parseFloat(req.body.statement_balance)
+          : null
+      );
+
+      if (summary.statement_balance === null) {
+        throw Object.assign(new Error('Enter the statement balance; no imported statement ends on or before this date'), { status: 400 });
+      }
+
+      if (summary.new_unexplained_difference !== 0 && !req.body.notes) {
+        throw Object.assign(
+          new Error(`${summary.new_unexplained_difference} of the difference is unexplained; add notes explaining it`),
+          { status: 400 }
+        );
+      }
+
+      const [result] = await connection.execute(
+        `INSERT INTO reconciliations (user_id, account_id, reconciled_to, statement_balance, book_balance, difference,
+          unmatched_statement_total, unmatched_book_total, ignored_statement_total, unexplained_difference, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          userId,
+          accountId,
+          reconciledTo,
+          summary.statement_balance,
+          summary.book_balance,
+          summary.difference,
+          summary.unmatched_statement_total,
+          summary.unmatched_book_total,
+          summary.ignored_statement_total,
+          summary.unexplained_difference,
+          req.body.notes || null
+        ]
+      ) as any[];
+
+      const [reconciliations] = await connection.execute(
+        'SELECT * FROM reconciliations WHERE id = ?',
+        [result.insertId]
+      ) as any[];
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: `Account reconciled up to ${reconciledTo}`,
+        data: { reconciliation: reconciliations[0] }
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Reconcile account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get an account's reconciliation history, latest first
+router.get('/accounts/:accountId/reconciliations', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account ID'
+      });
+    }
+
+    const [reconciliations] = await pool.execute(
+      'SELECT * FROM reconciliations WHERE account_id = ? AND user_id = ? ORDER BY reconciled_to DESC, id DESC',
+      [accountId, userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { reconciliations }
+    });
+  } catch (error) {
+    console.error('Get reconciliations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Undo the latest reconciliation of an account, unlocking its period
+router.delete('/reconciliations/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const reconciliationId = parseInt(req.params.id);
+
+    if (isNaN(reconciliationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid reconciliation ID'
+      });
+    }
+
+    const [reconciliations] = await pool.execute(
+      'SELECT * FROM reconciliations WHERE id = ? AND user_id = ?',
+      [reconciliationId, userId]
+    ) as any[];
+
+    if (reconciliations.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reconciliation not found'
+      });
+    }
+
+    const [latest] = await pool.execute(
+      'SELECT id FROM reconciliations WHERE account_id = ? ORDER BY reconciled_to DESC, id DESC LIMIT 1',
+      [reconciliations[0].account_id]
+    ) as any[];
+
+    if (latest[0].id !== reconciliationId) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only the latest reconciliation of an account can be undone'
+      });
+    }
+
+    await pool.execute('DELETE FROM reconciliations WHERE id = ?', [reconciliationId]);
+
+    res.json({
+      success: true,
+      message: 'Reconciliation undone successfully'
+    });
+  } catch (error) {
+    console.error('Delete reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,557 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { findUserAccount } from '../utils/accounts';
+import { getScheduledDate, previewOccurrences, processNextOccurrence, runDueRecurringTemplates } from '../utils/recurring';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+const TEMPLATE_SELECT = `
+  SELECT rt.*, a.account_name, l.lender_name, l.borrower_name,
+    (SELECT MAX(ro.scheduled_date) FROM recurring_occurrences ro
+     WHERE ro.template_id = rt.id AND ro.status = 'created') AS last_created_date
+  FROM recurring_templates rt
+  LEFT JOIN accounts a ON rt.account_id = a.id
+  LEFT JOIN loans l ON rt.loan_id = l.id`;
+
+// Attach the next few scheduled dates to a template
+const withUpcoming = (template: any) => ({
+  ...template,
+  upcoming_dates: template.next_run_date ? previewOccurrences(template, template.occurrence_count, 3) : []
+});
+
+// Get all recurring templates
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const [templates] = await pool.execute(
+      `${TEMPLATE_SELECT}
+       WHERE rt.user_id = ?
+       ORDER BY rt.status, rt.next_run_date IS NULL, rt.next_run_date, rt.name`,
+      [userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { templates: templates.map(withUpcoming) }
+    });
+  } catch (error) {
+    console.error('Get recurring templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the occurrence history of a template
+router.get('/:id/occurrences', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const templateId = parseInt(req.params.id);
+
+    if (isNaN(templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recurring template ID'
+      });
+    }
+
+    const [occurrences] = await pool.execute(
+      `SELECT id, scheduled_date, status, record_id, error_message, created_at
+       FROM recurring_occurrences
+       WHERE template_id = ? AND user_id = ?
+       ORDER BY scheduled_date DESC
+       LIMIT 50`,
+      [templateId, userId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { occurrences }
+    });
+  } catch (error) {
+    console.error('Get recurring occurrences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new recurring template
+router.post('/', [
+  body('name')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Name is required and cannot exceed 100 characters'),
+  body('record_type')
+    .isIn(['income', 'expense', 'loan_payment'])
+    .withMessage('Record type must be income, expense, or loan_payment'),
+  body('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('category')
+    .if(body('record_type').equals('expense'))
+    .trim()
+    .notEmpty()
+    .isLength({ max: 50 })
+    .withMessage('Category is required for expenses and cannot exceed 50 characters'),
+  body('source')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Source cannot exceed 100 characters'),
+  body('payment_method')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('loan_id')
+    .if(body('record_type').equals('loan_payment'))
+    .isInt({ min: 1 })
+    .withMessage('Loan is required for loan payments'),
+  body('frequency')
+    .isIn(['daily', 'weekly', 'monthly', 'yearly'])
+    .withMessage('Frequency must be daily, weekly, monthly, or yearly'),
+  body('interval_count')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Interval must be between 1 and 365'),
+  body('day_rule')
+    .optional()
+    .isIn(['same_day', 'last_day', 'last_business_day'])
+    .withMessage('Day rule must be same_day, last_day, or last_business_day'),
+  body('start_date')
+    .isISO8601()
+    .withMessage('Start date must be valid ISO date'),
+  body('end_date')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('End date must be valid ISO date'),
+  body('max_occurrences')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Number of occurrences must be a positive integer')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      name,
+      record_type,
+      amount,
+      description = null,
+      category = null,
+      source = null,
+      payment_method = null,
+      account_id = null,
+      loan_id = null,
+      frequency,
+      interval_count = 1,
+      day_rule = 'same_day',
+      start_date,
+      end_date = null,
+      max_occurrences = null
+    } = req.body;
+
+    if (end_date && end_date < start_date) {
+      return res.status(400).json({
+        success: false,
+        message: 'End date cannot be before start date'
+      });
+    }
+
+    const connection = await pool.getConnection();
+
+    try {
+      // Check the account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
+
+      // Check the loan belongs to user
+      if (record_type === 'loan_payment') {
+        const [loans] = await connection.execute(
+          'SELECT id FROM loans WHERE id = ? AND user_id = ?',
+          [loan_id, userId]
+        ) as any[];
+
+        if (loans.length === 0) {
+          return res.status(404).json({
+            success: false,
+            message: 'Loan not found'
+          });
+        }
+      }
+
+      const schedule = { frequency, interval_count, day_rule, start_date, end_date, max_occurrences };
+      const nextRunDate = getScheduledDate(schedule, 0);
+
+      const [templateResult] = await connection.execute(
+        `INSERT INTO recurring_templates
+         (user_id, name, record_type, amount, description, category, source, payment_method, account_id, loan_id,
+          frequency, interval_count, day_rule, start_date, end_date, max_occurrences, next_run_date, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [userId, name, record_type, amount, description, category, source, payment_method, account_id,
+         record_type === 'loan_payment' ? loan_id : null, frequency, interval_count, day_rule, start_date,
+         end_date, max_occurrences, nextRunDate, nextRunDate ? 'active' : 'completed']
+      ) as any[];
+
+      // Create any occurrences that are already due
+      await runDueRecurringTemplates();
+
+      const [templates] = await connection.execute(
+        `${TEMPLATE_SELECT} WHERE rt.id = ?`,
+        [templateResult.insertId]
+      ) as any[];
+
+      res.status(201).json({
+        success: true,
+        message: 'Recurring template created successfully',
+        data: { template: withUpcoming(templates[0]) }
+      });
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Create recurring template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update recurring template (the schedule itself is fixed; only its end can change)
+router.put('/:id', [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot be empty and cannot exceed 100 characters'),
+  body('amount')
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be a positive number'),
+  body('description')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('category')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Category cannot exceed 50 characters'),
+  body('source')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Source cannot exceed 100 characters'),
+  body('payment_method')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Payment method cannot exceed 50 characters'),
+  body('account_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Account ID must be a positive integer'),
+  body('end_date')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('End date must be valid ISO date'),
+  body('max_occurrences')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Number of occurrences must be a positive integer')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const templateId = parseInt(req.params.id);
+
+    if (isNaN(templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recurring template ID'
+      });
+    }
+
+    const [existingTemplates] = await pool.execute(
+      'SELECT * FROM recurring_templates WHERE id = ? AND user_id = ?',
+      [templateId, userId]
+    ) as any[];
+
+    if (existingTemplates.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recurring template not found'
+      });
+    }
+
+    const template = existingTemplates[0];
+    const { name, amount, description, category, source, payment_method, account_id, end_date, max_occurrences } = req.body;
+
+    if (template.record_type === 'expense' && category !== undefined && !category) {
+      return res.status(400).json({
+        success: false,
+        message: 'Category is required for expenses'
+      });
+    }
+
+    if (account_id) {
+      const connection = await pool.getConnection();
+      try {
+        if (!(await findUserAccount(connection, userId, account_id))) {
+          return res.status(404).json({
+            success: false,
+            message: 'Account not found'
+          });
+        }
+      } finally {
+        connection.release();
+      }
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    const fields: Record<string, any> = { name, amount, description, category, source, payment_method, account_id };
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        updates.push(`${field} = ?`);
+        values.push(value);
+      }
+    }
+
+    // A new end may bring a completed template back or finish an active one
+    if (end_date !== undefined || max_occurrences !== undefined) {
+      const schedule = {
+        ...template,
+        end_date: end_date !== undefined ? end_date : template.end_date,
+        max_occurrences: max_occurrences !== undefined ? max_occurrences : template.max_occurrences
+      };
+      const nextRunDate = getScheduledDate(schedule, template.occurrence_count);
+
+      updates.push('end_date = ?', 'max_occurrences = ?', 'next_run_date = ?', 'status = ?');
+      values.push(
+        schedule.end_date,
+        schedule.max_occurrences,
+        nextRunDate,
+        !nextRunDate ? 'completed' : template.status === 'completed' ? 'active' : template.status
+      );
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No valid fields to update'
+      });
+    }
+
+    values.push(templateId);
+
+    await pool.execute(
+      `UPDATE recurring_templates SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      values
+    );
+
+    const [updatedTemplates] = await pool.execute(
+      `${TEMPLATE_SELECT} WHERE rt.id = ?`,
+      [templateId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Recurring template updated successfully',
+      data: { template: withUpcoming(updatedTemplates[0]) }
+    });
+  } catch (error) {
+    console.error('Update recurring template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Pause or resume a template
+router.post('/:id/:action(pause|resume)', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const templateId = parseInt(req.params.id);
+    const resume = req.params.action === 'resume';
+
+    if (isNaN(templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recurring template ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      `UPDATE recurring_templates SET status = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ? AND status = ?`,
+      [resume ? 'active' : 'paused', templateId, userId, resume ? 'paused' : 'active']
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: resume ? 'No paused recurring template found' : 'No active recurring template found'
+      });
+    }
+
+    // Catch up on occurrences that came due while paused
+    if (resume) {
+      await runDueRecurringTemplates();
+    }
+
+    const [templates] = await pool.execute(
+      `${TEMPLATE_SELECT} WHERE rt.id = ?`,
+      [templateId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: resume ? 'Recurring template resumed' : 'Recurring template paused',
+      data: { template: withUpcoming(templates[0]) }
+    });
+  } catch (error) {
+    console.error('Change recurring template status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Skip the next occurrence of a template
+router.post('/:id/skip', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const templateId = parseInt(req.params.id);
+
+    if (isNaN(templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recurring template ID'
+      });
+    }
+
+    const [existingTemplates] = await pool.execute(
+      'SELECT id FROM recurring_templates WHERE id = ? AND user_id = ?',
+      [templateId, userId]
+    ) as any[];
+
+    if (existingTemplates.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recurring template not found'
+      });
+    }
+
+    const occurrence = await processNextOccurrence(templateId, 'skip');
+
+    if (!occurrence) {
+      return res.status(400).json({
+        success: false,
+        message: 'This recurring template has no upcoming occurrences'
+      });
+    }
+
+    const [templates] = await pool.execute(
+      `${TEMPLATE_SELECT} WHERE rt.id = ?`,
+      [templateId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Occurrence skipped',
+      data: { occurrence, template: withUpcoming(templates[0]) }
+    });
+  } catch (error) {
+    console.error('Skip recurring occurrence error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete recurring template (records it already created are kept)
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const templateId = parseInt(req.params.id);
+
+    if (isNaN(templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recurring template ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      'DELETE FROM recurring_templates WHERE id = ? AND user_id = ?',
+      [templateId, userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recurring template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Recurring template deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete recurring template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { todayString } from '../utils/dates';
+import {
+  ComparisonType,
+  StatementPeriod,
+  getBalanceSheet,
+  getCashFlowStatement,
+  getProfitAndLoss
+} from '../utils/statements';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+const statementValidation = [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date'),
+  query('compare').optional({ values: 'falsy' }).isIn(['previous_period', 'previous_year']).withMessage('Invalid comparison')
+];
+
+// Statement period from the query, defaulting to the current year to date
+const getStatementPeriod = (req: express.Request): StatementPeriod => {
+  const endDate = (req.query.end_date as string) || todayString();
+  const startDate = (req.query.start_date as string) || `${endDate.substring(0, 4)}-01-01`;
+  return { start_date: startDate, end_date: endDate };
+};
+
+const getComparison = (req: express.Request): ComparisonType | undefined => {
+  return (req.query.compare as ComparisonType) || undefined;
+};
+
+// Validate the statement query, responding with 400 if it is invalid
+const checkStatementQuery = (req: express.Request, res: express.Response): StatementPeriod | null => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+    return null;
+  }
+
+  const period = getStatementPeriod(req);
+  if (period.start_date > period.end_date) {
+    res.status(400).json({
+      success: false,
+      message: 'Start date must be on or before end date'
+    });
+    return null;
+  }
+
+  return period;
+};
+
+// Get the profit & loss statement for a date range
+router.get('/profit-loss', statementValidation, async (req: express.Request, res: express.Response) => {
+  try {
+    const period = checkStatementQuery(req, res);
+    if (!period) return;
+
+    const statement = await getProfitAndLoss(pool, req.user!.userId, period, getComparison(req));
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Get profit and loss error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the balance sheet at the end of a date range
+router.get('/balance-sheet', statementValidation, async (req: express.Request, res: express.Response) => {
+  try {
+    const period = checkStatementQuery(req, res);
+    if (!period) return;
+
+    const statement = await getBalanceSheet(pool, req.user!.userId, period, getComparison(req));
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Get balance sheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get the cash flow statement for a date range
+router.get('/cash-flow', statementValidation, async (req: express.Request, res: express.Response) => {
+  try {
+    const period = checkStatementQuery(req, res);
+    if (!period) return;
+
+    const statement = await getCashFlowStatement(pool, req.user!.userId, period, getComparison(req));
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Get cash flow error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -1,30 +1,136 @@
 import express from 'express';
+import { param, query, validationResult } from 'express-validator';
 import { pool } from '../config/database';
 import { authenticateToken } from '../middleware/auth';
-import { validateSale } from '../middleware/validation';
+import { validateExport, validateSale, validateSalePayment, validateTagFilter } from '../middleware/validation';
+import { findUserAccount, adjustAccountBalance } from '../utils/accounts';
+import { removeAttachmentFiles } from '../utils/attachments';
+import { syncJournalEntry } from '../utils/ledger';
+import { ExportColumn, ExportFormat, selectExportColumns, sendExport } from '../utils/listExport';
+import { REMAINING_QUANTITY_SQL, saveStockAllocations, releaseSaleStock } from '../utils/inventory';
+import { linkRecordCategory } from '../utils/categories';
+import { attachRecordTags, buildTagFilter, parseTagFilter, setRecordTags } from '../utils/tags';
+import {
+  SALE_PAID_SQL,
+  assertCreditLimit,
+  getSalePaidAmount,
+  recordSalePayment,
+  removeSalePayments,
+  resolveSaleCustomer
+} from '../utils/receivables';
+import { findSettlingInvoice } from '../utils/invoices';
+import {
+  accountCredit,
+  costSale,
+  createSaleRecord,
+  deleteSaleRecord,
+  keptSaleCosting,
+  saleStockChanged
+} from '../utils/sales';
 
 const router = express.Router();
 
+// Columns returned for a sale, with its receiving account, linked purchase and what is
+// still owed on it
+const SALE_SELECT = `
+  SELECT
+    s.id, s.purchase_id, s.purchase_category, s.quantity, s.cost_method,
+    s.amount, s.amount AS cost_price, s.selling_price, s.profit, s.profit_percentage,
+    s.description, s.category, s.customer_id, s.customer_name, s.customer_contact,
+    s.payment_method, s.account_id, s.date, s.status, s.notes,
+    s.receipt_path, s.created_at, s.updated_at,
+    ${SALE_PAID_SQL} AS amount_paid,
+    CASE WHEN s.status = 'pending' THEN s.selling_price - ${SALE_PAID_SQL} ELSE 0 END AS balance_due,
+    a.account_name,
+    p.description AS purchase_description,
+    p.date AS purchase_date
+  FROM sales s
+  LEFT JOIN accounts a ON s.account_id = a.id
+  LEFT JOIN purchases p ON s.purchase_id = p.id
+`;
+
+// Columns available when exporting sales as CSV/XLSX
+const SALE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', type: 'number' },
+  { key: 'date', header: 'Date', type: 'date' },
+  { key: 'description', header: 'Description', type: 'string' },
+  { key: 'category', header: 'Category', type: 'string' },
+  { key: 'customer_name', header: 'Customer', type: 'string' },
+  { key: 'customer_contact', header: 'Customer Contact', type: 'string' },
+  { key: 'quantity', header: 'Quantity', type: 'number' },
+  { key: 'cost_price', header: 'Cost', type: 'money' },
+  { key: 'selling_price', header: 'Selling Price', type: 'money' },
+  { key: 'profit', header: 'Profit', type: 'money' },
+  { key: 'profit_percentage', header: 'Profit (%)', type: 'number' },
+  { key: 'payment_method', header: 'Payment Method', type: 'string' },
+  { key: 'account_name', header: 'Account', type: 'string' },
+  { key: 'status', header: 'Status', type: 'string' },
+  { key: 'notes', header: 'Notes', type: 'string' }
+];
+
 // Get all sales for authenticated user
-router.get('/', authenticateToken, async (req, res) => {
+router.get('/', authenticateToken, [
+  query('category').optional().trim(),
+  query('status').optional().isIn(['pending', 'completed', 'cancelled']).withMessage('Invalid status'),
+  query('customer_id').optional().isInt({ min: 1 }).withMessage('Invalid customer ID'),
+  ...validateTagFilter,
+  ...validateExport
+], async (req: express.Request, res: express.Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
     const userId = req.user?.userId;
-    
+    const { category, status, customer_id } = req.query;
+
+    let whereClause = 'WHERE s.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (category) {
+      whereClause += ' AND s.category = ?';
+      whereParams.push(category);
+    }
+
+    if (status) {
+      whereClause += ' AND s.status = ?';
+      whereParams.push(status);
+    }
+
+    if (customer_id) {
+      whereClause += ' AND s.customer_id = ?';
+      whereParams.push(customer_id);
+    }
+
+    // Keep sales carrying every requested tag
+    const tagFilter = buildTagFilter(userId!, 'sale', parseTagFilter(req.query.tags as string), 's.id');
+    whereClause += tagFilter.clause;
+    whereParams.push(...tagFilter.params);
+
     const [rows] = await pool.execute(`
-      SELECT 
-        s.id, s.amount AS cost_price, 
-        s.description, s.category, s.payment_method, 
-        s.date, s.receipt_path, s.created_at, s.updated_at
-      FROM sales s
-      WHERE s.user_id = ?
+      ${SALE_SELECT}
+      ${whereClause}
       ORDER BY s.date DESC, s.created_at DESC
-    `, [userId]);
+    `, whereParams);
+
+    // Export every matching sale instead of returning JSON
+    const format = req.query.format as ExportFormat;
+    if (format) {
+      return sendExport(res, format, 'sales', selectExportColumns(SALE_EXPORT_COLUMNS, req.query.columns as string), rows as any[]);
+    }
+
+    const sales = await attachRecordTags(pool, userId!, 'sale', rows as any[]);
 
     res.json({
       success: true,
       data: {
-        sales: rows,
-        total: (rows as any[]).length
+        sales,
+        total: sales.length
       }
     });
   } catch (error) {
@@ -40,12 +146,14 @@ router.get('/', authenticateToken, async (req, res) => {
 router.get('/summary', authenticateToken, async (req, res) => {
   try {
     const userId = req.user?.userId;
-    
+
     const [summaryRows] = await pool.execute(`
-      SELECT 
+      SELECT
         COUNT(*) as total_sales,
-        COALESCE(SUM(amount), 0) as total_revenue
-      FROM sales 
+        COALESCE(SUM(selling_price), 0) as total_revenue,
+        COALESCE(SUM(amount), 0) as total_cost,
+        COALESCE(SUM(profit), 0) as total_profit
+      FROM sales
       WHERE user_id = ? AND status = 'completed'
     `, [userId]);
 
@@ -64,16 +172,27 @@ router.get('/summary', authenticateToken, async (req, res) => {
   }
 });
 
-// Get available purchases for sale (purchases not yet sold)
+// Get available purchases for sale (purchases with unsold stock).
+// Pass sale_id when editing a sale so the stock it already holds counts as available.
 router.get('/available-purchases', authenticateToken, async (req, res) => {
   try {
     const userId = req.user?.userId;
-    
+    const saleId = parseInt(req.query.sale_id as string) || 0;
+
     const [rows] = await pool.execute(`
-      SELECT p.*
-      FROM purchases p
-      ORDER BY p.date DESC, p.created_at DESC
-    `);
+      SELECT *
+      FROM (
+        SELECT
+          p.id, p.description, p.category, p.date, p.amount, p.quantity, p.unit_cost,
+          ${REMAINING_QUANTITY_SQL}
+            + COALESCE((SELECT SUM(own.quantity) FROM sale_allocations own WHERE own.purchase_id = p.id AND own.sale_id = ?), 0)
+            AS quantity_remaining
+        FROM purchases p
+        WHERE p.user_id = ?
+      ) stock
+      WHERE quantity_remaining > 0
+      ORDER BY date, id
+    `, [saleId, userId]);
 
     res.json({
       success: true,
@@ -98,11 +217,7 @@ router.get('/:id', authenticateToken, async (req, res) => {
     const saleId = req.params.id;
 
     const [rows] = await pool.execute(`
-      SELECT 
-        s.id, s.amount AS cost_price, 
-        s.description, s.category, s.payment_method, 
-        s.date, s.receipt_path, s.created_at, s.updated_at
-      FROM sales s
+      ${SALE_SELECT}
       WHERE s.id = ? AND s.user_id = ?
     `, [saleId, userId]);
 
@@ -113,9 +228,20 @@ router.get('/:id', authenticateToken, async (req, res) => {
       });
     }
 
+    // Get the purchase lots the sale drew its stock from
+    const [allocations] = await pool.execute(`
+      SELECT sa.purchase_id, sa.quantity, sa.unit_cost, p.description AS purchase_description, p.date AS purchase_date
+      FROM sale_allocations sa
+      JOIN purchases p ON sa.purchase_id = p.id
+      WHERE sa.sale_id = ?
+      ORDER BY p.date, p.id
+    `, [saleId]);
+
+    const [sale] = await attachRecordTags(pool, userId!, 'sale', rows as any[]);
+
     res.json({
       success: true,
-      data: (rows as any[])[0]
+      data: { ...sale, allocations }
     });
   } catch (error) {
     console.error('Error fetching sale:', error);
@@ -129,46 +255,41 @@ router.get('/:id', authenticateToken, async (req, res) => {
 // Create new sale
 router.post('/', authenticateToken, validateSale, async (req, res) => {
   try {
-    const userId = req.user?.userId;
-    const {
-      amount,
-      description,
-      category,
-      payment_method,
-      date,
-      receipt_path
-    } = req.body;
+    const userId = req.user!.userId;
 
-    const [result] = await pool.execute(`
-      INSERT INTO sales 
-      (user_id, amount, description, category, payment_method, date, receipt_path)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [userId, amount, description, category, payment_method, date, receipt_path]);
-
-    const saleId = (result as any).insertId;
-
-    // Create transaction record
-    await pool.execute(`
-      INSERT INTO transactions 
-      (user_id, transaction_type, reference_id, reference_table, amount, description, date)
-      VALUES (?, 'sale', ?, 'sales', ?, ?, ?)
-    `, [userId, saleId, amount, description || 'Sale transaction', date]);
-
-    // Get the created sale
-    const [saleRows] = await pool.execute(`
-      SELECT 
-        s.id, s.amount AS cost_price, 
-        s.description, s.category, s.payment_method, 
-        s.date, s.receipt_path, s.created_at, s.updated_at
-      FROM sales s
-      WHERE s.id = ?
-    `, [saleId]);
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    res.status(201).json({
-      success: true,
-      message: 'Sale created successfully',
-      data: (saleRows as any[])[0]
-    });
+    try {
+      const saleId = await createSaleRecord(connection, userId, req.body);
+
+      // Get the created sale
+      const [saleRows] = await connection.execute(`
+        ${SALE_SELECT}
+        WHERE s.id = ?
+      `, [saleId]);
+      const [sale] = await attachRecordTags(connection, userId, 'sale', saleRows as any[]);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: 'Sale created successfully',
+        data: sale
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Error creating sale:', error);
     res.status(500).json({
@@ -181,20 +302,27 @@ router.post('/', authenticateToken, validateSale, async (req, res) => {
 // Update sale
 router.put('/:id', authenticateToken, validateSale, async (req, res) => {
   try {
-    const userId = req.user?.userId;
+    const userId = req.user!.userId;
     const saleId = req.params.id;
     const {
-      amount,
-      description,
+      purchase_id = null,
+      purchase_category = null,
+      quantity = null,
+      selling_price,
+      description = null,
       category,
       payment_method,
+      account_id = null,
       date,
-      receipt_path
+      notes = null,
+      receipt_path = null
     } = req.body;
+    let { status = 'completed' } = req.body;
 
     // Check if sale exists and belongs to user
     const [existingRows] = await pool.execute(
-      'SELECT id FROM sales WHERE id = ? AND user_id = ?',
+      `SELECT id, purchase_id, purchase_category, quantity, cost_method, amount, selling_price, status, account_id
+       FROM sales WHERE id = ? AND user_id = ?`,
       [saleId, userId]
     );
 
@@ -205,33 +333,142 @@ router.put('/:id', authenticateToken, validateSale, async (req, res) => {
       });
     }
 
-    await pool.execute(`
-      UPDATE sales 
-      SET amount = ?, description = ?, category = ?, payment_method = ?, 
-          date = ?, receipt_path = ?, updated_at = CURRENT_TIMESTAMP
-      WHERE id = ? AND user_id = ?
-    `, [amount, description, category, payment_method, date, receipt_path, saleId, userId]);
-
-    // Update transaction record
-    await pool.execute(`
-      UPDATE transactions 
-      SET amount = ?, description = ?, date = ?
-      WHERE reference_id = ? AND reference_table = 'sales' AND user_id = ?
-    `, [amount, description || 'Sale transaction', date, saleId, userId]);
-
-    // Get updated sale
-    const [saleRows] = await pool.execute(`
-      SELECT 
-        s.id, s.amount AS cost_price, 
-        s.description, s.category, s.payment_method, 
-        s.date, s.receipt_path, s.created_at, s.updated_at
-    `, [saleId]);
+    const existingSale = (existingRows as any[])[0];
 
-    res.json({
-      success: true,
-      message: 'Sale updated successfully',
-      data: (saleRows as any[])[0]
-    });
+    // Sales recorded by paying an invoice change with the invoice
+    const invoiceNumber = await findSettlingInvoice(pool, userId, 'sale', parseInt(saleId));
+    if (invoiceNumber) {
+      return res.status(400).json({
+        success: false,
+        message: `This sale was recorded by paying invoice ${invoiceNumber}; undo the invoice payment instead`
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Check the receiving account belongs to user
+      if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+      }
+
+      const customer = await resolveSaleCustomer(connection, userId, req.body);
+
+      // Part-payments already received limit how the sale can change
+      const amountPaid = await getSalePaidAmount(connection, parseInt(saleId));
+      if (amountPaid > 0) {
+        if (parseFloat(selling_price) < amountPaid) {
+          await connection.rollback();
+          return res.status(400).json({
+            success: false,
+            message: `Selling price cannot be less than the ${amountPaid.toFixed(2)} already received`
+          });
+        }
+        if (status === 'cancelled') {
+          await connection.rollback();
+          return res.status(400).json({
+            success: false,
+            message: 'Remove the payments received before cancelling this sale'
+          });
+        }
+        // Nothing left to collect
+        if (status === 'pending' && parseFloat(selling_price) - amountPaid <= 0) {
+          status = 'completed';
+        }
+      }
+
+      if (status === 'pending') {
+        await assertCreditLimit(connection, userId, customer.customer_id, parseFloat(selling_price) - amountPaid, parseInt(saleId));
+      }
+
+      // Cost the sale again only when it starts drawing on different stock, or draws on stock
+      // again after being cancelled; otherwise it keeps its lots and cost of goods. Cancelled
+      // sales hand their stock back.
+      const recost = status !== 'cancelled' && (existingSale.status === 'cancelled' || saleStockChanged(existingSale, req.body));
+      if (recost || status === 'cancelled') {
+        await releaseSaleStock(connection, parseInt(saleId));
+      }
+
+      const costing = recost ? await costSale(connection, userId, req.body) : keptSaleCosting(existingSale, req.body);
+
+      if ('error' in costing) {
+        await connection.rollback();
+        return res.status(400).json({
+          success: false,
+          message: costing.error
+        });
+      }
+
+      await connection.execute(`
+        UPDATE sales
+        SET purchase_id = ?, purchase_category = ?, quantity = ?, cost_method = ?, amount = ?, selling_price = ?,
+            description = ?, category = ?, customer_id = ?, customer_name = ?, customer_contact = ?, payment_method = ?,
+            account_id = ?, date = ?, status = ?, notes = ?, receipt_path = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND user_id = ?
+      `, [
+        purchase_id, purchase_id ? null : purchase_category, costing.method === 'manual' ? null : quantity,
+        costing.method, costing.cost, selling_price, description, category,
+        customer.customer_id, customer.customer_name, customer.customer_contact,
+        payment_method, account_id, date, status, notes, receipt_path, saleId, userId
+      ]);
+
+      await linkRecordCategory(connection, userId, 'sale', parseInt(saleId));
+
+      if (req.body.tags !== undefined) {
+        await setRecordTags(connection, userId, 'sale', parseInt(saleId), req.body.tags);
+      }
+
+      // Cancelled sales do not hold any stock
+      if (status !== 'cancelled') {
+        await saveStockAllocations(connection, parseInt(saleId), costing.allocations);
+      }
+
+      // Move the balance effect to the new price, status and account
+      await adjustAccountBalance(connection, userId, existingSale.account_id, -accountCredit(existingSale.status, parseFloat(existingSale.selling_price), amountPaid));
+      await adjustAccountBalance(connection, userId, account_id, accountCredit(status, parseFloat(selling_price), amountPaid));
+
+      // Update transaction record
+      await connection.execute(`
+        UPDATE transactions
+        SET amount = ?, description = ?, account_id = ?, date = ?
+        WHERE reference_id = ? AND reference_table = 'sales' AND user_id = ?
+      `, [selling_price, description || 'Sale transaction', account_id, date, saleId, userId]);
+
+      // Repost the sale to the ledger
+      await syncJournalEntry(connection, userId, 'sale', parseInt(saleId));
+
+      // Get updated sale
+      const [saleRows] = await connection.execute(`
+        ${SALE_SELECT}
+        WHERE s.id = ?
+      `, [saleId]);
+      const [sale] = await attachRecordTags(connection, userId, 'sale', saleRows as any[]);
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Sale updated successfully',
+        data: sale
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
   } catch (error) {
     console.error('Error updating sale:', error);
     res.status(500).json({
@@ -244,12 +481,12 @@ router.put('/:id', authenticateToken, validateSale, async (req, res) => {
 // Delete sale
 router.delete('/:id', authenticateToken, async (req, res) => {
   try {
-    const userId = req.user?.userId;
+    const userId = req.user!.userId;
     const saleId = req.params.id;
 
     // Check if sale exists and belongs to user
     const [existingRows] = await pool.execute(
-      'SELECT id FROM sales WHERE id = ? AND user_id = ?',
+      'SELECT id, selling_price, status, account_id FROM sales WHERE id = ? AND user_id = ?',
       [saleId, userId]
     );
 
@@ -260,27 +497,236 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       });
     }
 
-    // Delete transaction record first
-    await pool.execute(`
-      DELETE FROM transactions 
-      WHERE reference_id = ? AND reference_table = 'sales' AND user_id = ?
-    `, [saleId, userId]);
+    const existingSale = (existingRows as any[])[0];
+
+    // Sales recorded by paying an invoice change with the invoice
+    const invoiceNumber = await findSettlingInvoice(pool, userId, 'sale', parseInt(saleId));
+    if (invoiceNumber) {
+      return res.status(400).json({
+        success: false,
+        message: `This sale was recorded by paying invoice ${invoiceNumber}; undo the invoice payment instead`
+      });
+    }
+
+    // Start transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const attachmentFiles = await deleteSaleRecord(connection, userId, {
+        ...existingSale,
+        id: parseInt(saleId)
+      });
+
+      await connection.commit();
+      await removeAttachmentFiles(attachmentFiles);
+
+      res.json({
+        success: true,
+        message: 'Sale deleted successfully'
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error deleting sale:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete sale'
+    });
+  }
+});
+
+// Get payments received against a sale
+router.get('/:id/payments', authenticateToken, [
+  param('id').isInt({ min: 1 }).withMessage('Invalid sale ID')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user?.userId;
+    const saleId = parseInt(req.params.id);
 
-    // Delete sale
-    await pool.execute(
-      'DELETE FROM sales WHERE id = ? AND user_id = ?',
+    const [saleRows] = await pool.execute(
+      'SELECT id, selling_price, status FROM sales WHERE id = ? AND user_id = ?',
       [saleId, userId]
-    );
+    ) as any[];
+
+    if (saleRows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const [payments] = await pool.execute(`
+      SELECT sp.*, a.account_name
+      FROM sale_payments sp
+      LEFT JOIN accounts a ON sp.account_id = a.id
+      WHERE sp.sale_id = ? AND sp.user_id = ?
+      ORDER BY sp.payment_date, sp.id
+    `, [saleId, userId]) as any[];
+
+    const amountPaid = payments.reduce((sum: number, payment: any) => sum + parseFloat(payment.amount), 0);
+    const sale = saleRows[0];
 
     res.json({
       success: true,
-      message: 'Sale deleted successfully'
+      data: {
+        payments,
+        amount_paid: Math.round(amountPaid * 100) / 100,
+        balance_due: sale.status === 'pending' ? Math.round((parseFloat(sale.selling_price) - amountPaid) * 100) / 100 : 0
+      }
     });
   } catch (error) {
-    console.error('Error deleting sale:', error);
+    console.error('Error fetching sale payments:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete sale'
+      message: 'Failed to fetch sale payments'
+    });
+  }
+});
+
+// Record a payment received against a pending sale
+router.post('/:id/payments', authenticateToken, [
+  param('id').isInt({ min: 1 }).withMessage('Invalid sale ID'),
+  ...validateSalePayment
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const saleId = parseInt(req.params.id);
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const result = await recordSalePayment(connection, userId, saleId, req.body);
+
+      await connection.commit();
+
+      res.status(201).json({
+        success: true,
+        message: result.status === 'completed'
+          ? 'Payment recorded; the sale is now paid in full'
+          : 'Payment recorded successfully',
+        data: result
+      });
+    } catch (error: any) {
+      await connection.rollback();
+      if (error.status) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error recording sale payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record payment'
+    });
+  }
+});
+
+// Delete a payment from a sale that is still pending
+router.delete('/:id/payments/:paymentId', authenticateToken, [
+  param('id').isInt({ min: 1 }).withMessage('Invalid sale ID'),
+  param('paymentId').isInt({ min: 1 }).withMessage('Invalid payment ID')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const saleId = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+
+    const [saleRows] = await pool.execute(
+      'SELECT status FROM sales WHERE id = ? AND user_id = ?',
+      [saleId, userId]
+    ) as any[];
+
+    if (saleRows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    // A completed sale's journal entry draws on its payments; reopen the sale first
+    if (saleRows[0].status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'Payments can only be removed while the sale is pending'
+      });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const removed = await removeSalePayments(connection, userId, saleId, [paymentId]);
+
+      if (removed === 0) {
+        await connection.rollback();
+        return res.status(404).json({
+          success: false,
+          message: 'Payment not found'
+        });
+      }
+
+      await connection.commit();
+
+      res.json({
+        success: true,
+        message: 'Payment deleted successfully'
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error deleting sale payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete payment'
     });
   }
 });
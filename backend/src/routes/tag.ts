@@ -0,0 +1,304 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { DEFAULT_TAG_COLOR, getTagTotals } from '../utils/tags';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Get all tags with the number of records carrying each
+router.get('/', [
+  query('search').optional().trim().isLength({ max: 50 }).withMessage('Search cannot exceed 50 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const search = req.query.search as string;
+
+    let whereClause = 'WHERE t.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (search) {
+      whereClause += ' AND t.name LIKE ?';
+      whereParams.push(`%${search}%`);
+    }
+
+    const [tags] = await pool.execute(
+      `SELECT t.id, t.name, t.color, t.created_at, COUNT(rt.id) as usage_count
+       FROM tags t
+       LEFT JOIN record_tags rt ON rt.tag_id = t.id
+       ${whereClause}
+       GROUP BY t.id, t.name, t.color, t.created_at
+       ORDER BY t.name`,
+      whereParams
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { tags }
+    });
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get income, expense, purchase and sale totals per tag
+router.get('/summary', [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const totals = await getTagTotals(pool, userId, {
+      start_date: req.query.start_date as string,
+      end_date: req.query.end_date as string
+    });
+
+    res.json({
+      success: true,
+      data: { tags: totals }
+    });
+  } catch (error) {
+    console.error('Tag summary error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new tag
+router.post('/', [
+  body('name')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 50 })
+    .withMessage('Tag name is required and cannot exceed 50 characters')
+    .not().contains(',')
+    .withMessage('Tag name cannot contain commas'),
+  body('color')
+    .optional()
+    .matches(/^#[0-9A-F]{6}$/i)
+    .withMessage('Color must be a valid hex color code')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const { name, color = DEFAULT_TAG_COLOR } = req.body;
+
+    // Check for duplicate tag name for the user
+    const [existingTags] = await pool.execute(
+      'SELECT id FROM tags WHERE user_id = ? AND name = ?',
+      [userId, name]
+    ) as any[];
+
+    if (existingTags.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Tag with this name already exists'
+      });
+    }
+
+    const [tagResult] = await pool.execute(
+      'INSERT INTO tags (user_id, name, color) VALUES (?, ?, ?)',
+      [userId, name, color]
+    ) as any[];
+
+    const [tagRecords] = await pool.execute(
+      'SELECT * FROM tags WHERE id = ?',
+      [tagResult.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Tag created successfully',
+      data: { tag: tagRecords[0] }
+    });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Rename or recolor a tag; records carrying it keep it under the new name
+router.put('/:id', [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .isLength({ max: 50 })
+    .withMessage('Tag name cannot be empty or exceed 50 characters')
+    .not().contains(',')
+    .withMessage('Tag name cannot contain commas'),
+  body('color')
+    .optional()
+    .matches(/^#[0-9A-F]{6}$/i)
+    .withMessage('Color must be a valid hex color code')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const tagId = parseInt(req.params.id);
+
+    if (isNaN(tagId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid tag ID'
+      });
+    }
+
+    const [existingTags] = await pool.execute(
+      'SELECT id FROM tags WHERE id = ? AND user_id = ?',
+      [tagId, userId]
+    ) as any[];
+
+    if (existingTags.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+    }
+
+    const { name, color } = req.body;
+
+    if (name !== undefined) {
+      const [duplicateTags] = await pool.execute(
+        'SELECT id FROM tags WHERE user_id = ? AND name = ? AND id != ?',
+        [userId, name, tagId]
+      ) as any[];
+
+      if (duplicateTags.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: 'Tag with this name already exists'
+        });
+      }
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (name !== undefined) {
+      updates.push('name = ?');
+      values.push(name);
+    }
+    if (color !== undefined) {
+      updates.push('color = ?');
+      values.push(color);
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No valid fields to update'
+      });
+    }
+
+    values.push(tagId, userId);
+
+    await pool.execute(
+      `UPDATE tags SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`,
+      values
+    );
+
+    const [tagRecords] = await pool.execute(
+      'SELECT * FROM tags WHERE id = ?',
+      [tagId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Tag updated successfully',
+      data: { tag: tagRecords[0] }
+    });
+  } catch (error) {
+    console.error('Update tag error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a tag and remove it from every record carrying it
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const tagId = parseInt(req.params.id);
+
+    if (isNaN(tagId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid tag ID'
+      });
+    }
+
+    const [result] = await pool.execute(
+      'DELETE FROM tags WHERE id = ? AND user_id = ?',
+      [tagId, userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Tag deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
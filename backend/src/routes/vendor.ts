@@ -0,0 +1,453 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { pool } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { BILL_PAID_SQL, getPayablesAging, getVendorSpend } from '../utils/payables';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Spend and unpaid bills of each vendor; use in queries that alias vendors as `v`
+const VENDOR_TOTALS_SQL = `
+  (SELECT COUNT(*) FROM purchases p WHERE p.vendor_id = v.id) AS purchase_count,
+  (SELECT COUNT(*) FROM expenses e WHERE e.vendor_id = v.id) AS expense_count,
+  (SELECT COUNT(*) FROM bills b WHERE b.vendor_id = v.id AND b.status = 'open') AS open_bill_count,
+  (SELECT COALESCE(SUM(p.amount), 0) FROM purchases p WHERE p.vendor_id = v.id)
+    + (SELECT COALESCE(SUM(e.amount), 0) FROM expenses e WHERE e.vendor_id = v.id)
+    + (SELECT COALESCE(SUM(b.amount), 0) FROM bills b WHERE b.vendor_id = v.id AND b.status != 'cancelled') AS total_spend,
+  (SELECT COALESCE(SUM(b.amount - ${BILL_PAID_SQL}), 0) FROM bills b WHERE b.vendor_id = v.id AND b.status = 'open') AS outstanding_balance
+`;
+
+// Details accepted when creating or updating a vendor
+const validateVendor = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage('Vendor name is required and cannot exceed 100 characters'),
+  body('contact')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Contact cannot exceed 50 characters'),
+  body('email')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isEmail()
+    .isLength({ max: 100 })
+    .withMessage('Email must be a valid address of at most 100 characters'),
+  body('address')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Address cannot exceed 1000 characters'),
+  body('tax_id')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Tax ID cannot exceed 50 characters'),
+  body('payment_terms_days')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 365 })
+    .withMessage('Payment terms must be between 0 and 365 days'),
+  body('notes')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters')
+];
+
+// Date range accepted by the spend reports
+const validateSpendPeriod = [
+  query('start_date').optional().isISO8601().withMessage('Start date must be valid ISO date'),
+  query('end_date').optional().isISO8601().withMessage('End date must be valid ISO date')
+];
+
+// Get all vendors with their spend and unpaid bills
+router.get('/', [
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search cannot exceed 100 characters')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const search = req.query.search as string;
+
+    let whereClause = 'WHERE v.user_id = ?';
+    const whereParams: any[] = [userId];
+
+    if (search) {
+      whereClause += ' AND (v.name LIKE ? OR v.contact LIKE ? OR v.email LIKE ?)';
+      whereParams.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+
+    const [vendors] = await pool.execute(
+      `SELECT v.*, ${VENDOR_TOTALS_SQL}
+       FROM vendors v
+       ${whereClause}
+       ORDER BY v.name`,
+      whereParams
+    ) as any[];
+
+    res.json({
+      success: true,
+      data: { vendors, total: vendors.length }
+    });
+  } catch (error) {
+    console.error('Get vendors error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Unpaid bills in not-yet-due, 1–30, 31–60, 61–90 and 90+ days overdue buckets, per vendor
+router.get('/payables/aging', [
+  query('as_of').optional().isISO8601().withMessage('As-of date must be valid ISO date')
+], async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const report = await getPayablesAging(pool, userId, req.query.as_of as string || undefined);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Payables aging error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Spend per vendor over a period (this year so far by default), month by month
+router.get('/spend', validateSpendPeriod, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const spend = await getVendorSpend(pool, userId, {
+      start_date: req.query.start_date as string,
+      end_date: req.query.end_date as string
+    });
+
+    res.json({
+      success: true,
+      data: spend
+    });
+  } catch (error) {
+    console.error('Vendor spend error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get a single vendor
+router.get('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const vendorId = parseInt(req.params.id);
+
+    if (isNaN(vendorId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid vendor ID'
+      });
+    }
+
+    const [vendors] = await pool.execute(
+      `SELECT v.*, ${VENDOR_TOTALS_SQL}
+       FROM vendors v
+       WHERE v.id = ? AND v.user_id = ?`,
+      [vendorId, userId]
+    ) as any[];
+
+    if (vendors.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { vendor: vendors[0] }
+    });
+  } catch (error) {
+    console.error('Get vendor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Spend with one vendor over a period, month by month
+router.get('/:id/spend', validateSpendPeriod, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const vendorId = parseInt(req.params.id);
+
+    if (isNaN(vendorId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid vendor ID'
+      });
+    }
+
+    const spend = await getVendorSpend(pool, userId, {
+      start_date: req.query.start_date as string,
+      end_date: req.query.end_date as string
+    }, vendorId);
+
+    if (spend.vendors.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { period: spend.period, ...spend.vendors[0] }
+    });
+  } catch (error) {
+    console.error('Vendor spend error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Create new vendor
+router.post('/', validateVendor, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const {
+      name,
+      contact = null,
+      email = null,
+      address = null,
+      tax_id = null,
+      payment_terms_days = null,
+      notes = null
+    } = req.body;
+
+    // Check for duplicate vendor name for the user
+    const [existingVendors] = await pool.execute(
+      'SELECT id FROM vendors WHERE user_id = ? AND name = ?',
+      [userId, name]
+    ) as any[];
+
+    if (existingVendors.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Vendor with this name already exists'
+      });
+    }
+
+    const [vendorResult] = await pool.execute(
+      `INSERT INTO vendors (user_id, name, contact, email, address, tax_id, payment_terms_days, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [userId, name, contact || null, email || null, address || null, tax_id || null, payment_terms_days, notes || null]
+    ) as any[];
+
+    const [vendors] = await pool.execute(
+      'SELECT * FROM vendors WHERE id = ?',
+      [vendorResult.insertId]
+    ) as any[];
+
+    res.status(201).json({
+      success: true,
+      message: 'Vendor created successfully',
+      data: { vendor: vendors[0] }
+    });
+  } catch (error) {
+    console.error('Create vendor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Update a vendor
+router.put('/:id', validateVendor, async (req: express.Request, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.userId;
+    const vendorId = parseInt(req.params.id);
+
+    if (isNaN(vendorId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid vendor ID'
+      });
+    }
+
+    const {
+      name,
+      contact = null,
+      email = null,
+      address = null,
+      tax_id = null,
+      payment_terms_days = null,
+      notes = null
+    } = req.body;
+
+    const [duplicateVendors] = await pool.execute(
+      'SELECT id FROM vendors WHERE user_id = ? AND name = ? AND id != ?',
+      [userId, name, vendorId]
+    ) as any[];
+
+    if (duplicateVendors.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Vendor with this name already exists'
+      });
+    }
+
+    const [result] = await pool.execute(
+      `UPDATE vendors
+       SET name = ?, contact = ?, email = ?, address = ?, tax_id = ?, payment_terms_days = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ?`,
+      [name, contact || null, email || null, address || null, tax_id || null, payment_terms_days, notes || null, vendorId, userId]
+    ) as any[];
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    const [vendors] = await pool.execute(
+      'SELECT * FROM vendors WHERE id = ?',
+      [vendorId]
+    ) as any[];
+
+    res.json({
+      success: true,
+      message: 'Vendor updated successfully',
+      data: { vendor: vendors[0] }
+    });
+  } catch (error) {
+    console.error('Update vendor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete a vendor. Their purchases and expenses are kept without a vendor; vendors with
+// bills cannot be deleted, as the bills would lose who they are owed to.
+router.delete('/:id', async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = req.user!.userId;
+    const vendorId = parseInt(req.params.id);
+
+    if (isNaN(vendorId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid vendor ID'
+      });
+    }
+
+    const [vendors] = await pool.execute(
+      `SELECT v.id, (SELECT COUNT(*) FROM bills b WHERE b.vendor_id = v.id) AS bill_count
+       FROM vendors v
+       WHERE v.id = ? AND v.user_id = ?`,
+      [vendorId, userId]
+    ) as any[];
+
+    if (vendors.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found'
+      });
+    }
+
+    if (vendors[0].bill_count > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'This vendor has bills; delete their bills before deleting the vendor'
+      });
+    }
+
+    await pool.execute(
+      'DELETE FROM vendors WHERE id = ? AND user_id = ?',
+      [vendorId, userId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Vendor deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete vendor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
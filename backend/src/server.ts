@@ -12,12 +12,28 @@ import authRoutes from './routes/auth';
 import incomeRoutes from './routes/income';
 import expenseRoutes from './routes/expense';
 import charityRoutes from './routes/charity';
+import charityRuleRoutes from './routes/charityRule';
 import accountRoutes from './routes/account';
 import loanRoutes from './routes/loan';
 import dashboardRoutes from './routes/dashboard';
 import categoryRoutes from './routes/category';
 import purchaseRoutes from './routes/purchase';
 import saleRoutes from './routes/sale';
+import attachmentRoutes from './routes/attachment';
+import budgetRoutes from './routes/budget';
+import recurringRoutes from './routes/recurring';
+import ledgerRoutes from './routes/ledger';
+import reportRoutes from './routes/reports';
+import exportRoutes from './routes/export';
+import importRoutes from './routes/import';
+import reconciliationRoutes from './routes/reconciliation';
+import tagRoutes from './routes/tag';
+import customerRoutes from './routes/customer';
+import vendorRoutes from './routes/vendor';
+import billRoutes from './routes/bill';
+import invoiceRoutes from './routes/invoice';
+import quotationRoutes from './routes/quotation';
+import { startRecurringScheduler } from './utils/recurring';
 
 // Load environment variables
 dotenv.config();
@@ -95,12 +111,27 @@ app.use('/api/auth', authRoutes);
 app.use('/api/income', incomeRoutes);
 app.use('/api/expenses', expenseRoutes);
 app.use('/api/charity', charityRoutes);
+app.use('/api/charity-rules', charityRuleRoutes);
 app.use('/api/accounts', accountRoutes);
 app.use('/api/loans', loanRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/purchases', purchaseRoutes);
 app.use('/api/sales', saleRoutes);
+app.use('/api/attachments', attachmentRoutes);
+app.use('/api/budgets', budgetRoutes);
+app.use('/api/recurring', recurringRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/import', importRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/vendors', vendorRoutes);
+app.use('/api/bills', billRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/quotations', quotationRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -168,6 +199,9 @@ const startServer = async () => {
     // Initialize database tables
     await initializeDatabase();
     
+    // Create recurring records that fell due while the server was down, then keep checking
+    startRecurringScheduler();
+    
     // Start the server
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,469 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { parseDate, toDateString } from './dates';
+import { ImportDateFormat } from './imports';
+import { csvField } from './listExport';
+import { getRecordSplits } from './splits';
+
+export type AccountingTarget = 'tally' | 'quickbooks' | 'xero';
+
+// What a mapping renames: a category of one record type, or a cash/bank account
+// (keyed by account ID, or "cash" for records without an account)
+export type MappingSourceType = 'income' | 'expense' | 'purchase' | 'sale' | 'account';
+
+export const CASH_SOURCE_KEY = 'cash';
+
+export interface AccountingMapping {
+  source_type: MappingSourceType;
+  source_key: string;
+  external_name: string;
+}
+
+// One ledger's share of the debit side of a voucher
+export interface AccountingVoucherLine {
+  ledger: string;
+  amount: number;
+}
+
+// A money movement as a simple two-line entry: `amount` is debited to one ledger and
+// credited to the other. The money side is the cash/bank account (both sides for transfers).
+// Split expenses and purchases debit each category line on its own (`debit_lines`); `debit`
+// is then the category of the largest line.
+export interface AccountingVoucher {
+  kind: 'income' | 'expense' | 'purchase' | 'sale' | 'transfer';
+  reference: string;
+  date: string;
+  description: string;
+  amount: number;
+  debit: string;
+  credit: string;
+  debit_account_id: number | null;
+  credit_account_id: number | null;
+  debit_lines?: AccountingVoucherLine[];
+}
+
+// Names used when a category or account has no saved mapping
+const DEFAULT_CASH_NAME = 'Cash';
+const DEFAULT_TRANSFER_NAME = 'Transfers in Transit';
+
+const REFERENCE_PREFIXES: Record<AccountingVoucher['kind'], string> = {
+  income: 'INC',
+  expense: 'EXP',
+  purchase: 'PUR',
+  sale: 'SAL',
+  transfer: 'TRF'
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const dateString = (value: string | Date): string => toDateString(parseDate(value));
+
+// The ledgers debited by a voucher: its split lines, or the whole amount to `debit`
+const debitLines = (voucher: AccountingVoucher): AccountingVoucherLine[] => {
+  return voucher.debit_lines || [{ ledger: voucher.debit, amount: voucher.amount }];
+};
+
+// Saved mappings for a target system
+export const getAccountingMappings = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  target: AccountingTarget
+): Promise<AccountingMapping[]> => {
+  const [rows] = await connection.execute(
+    'SELECT source_type, source_key, external_name FROM accounting_export_mappings WHERE user_id = ? AND target = ?',
+    [userId, target]
+  ) as any[];
+
+  return rows;
+};
+
+// Everything that can be mapped: categories (defined or used on records) and accounts,
+// each with its saved name in the target system if there is one
+export const getMappingSources = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  target: AccountingTarget
+) => {
+  const [categories] = await connection.execute(
+    `SELECT type AS source_type, name FROM categories WHERE user_id = ?
+     UNION SELECT 'income', category FROM income WHERE user_id = ? AND category IS NOT NULL
+     UNION SELECT 'expense', category FROM expenses WHERE user_id = ? AND category IS NOT NULL
+     UNION SELECT 'purchase', category FROM purchases WHERE user_id = ? AND category IS NOT NULL
+     UNION SELECT 'sale', category FROM sales WHERE user_id = ? AND category IS NOT NULL
+     ORDER BY source_type, name`,
+    [userId, userId, userId, userId, userId]
+  ) as any[];
+
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name FROM accounts WHERE user_id = ? ORDER BY account_name',
+    [userId]
+  ) as any[];
+
+  const mappings = await getAccountingMappings(connection, userId, target);
+  const mappedName = (sourceType: string, sourceKey: string) =>
+    mappings.find((mapping) => mapping.source_type === sourceType && mapping.source_key === sourceKey)?.external_name || null;
+
+  return [
+    ...categories.map((category: any) => ({
+      source_type: category.source_type as MappingSourceType,
+      source_key: category.name as string,
+      label: category.name as string,
+      external_name: mappedName(category.source_type, category.name)
+    })),
+    { source_type: 'account' as const, source_key: CASH_SOURCE_KEY, label: 'Cash (no account)', external_name: mappedName('account', CASH_SOURCE_KEY) },
+    ...accounts.map((account: any) => ({
+      source_type: 'account' as const,
+      source_key: String(account.id),
+      label: account.account_name as string,
+      external_name: mappedName('account', String(account.id))
+    }))
+  ];
+};
+
+// Replace the saved names for the given sources; an empty name removes the mapping
+export const saveAccountingMappings = async (
+  connection: PoolConnection,
+  userId: number,
+  target: AccountingTarget,
+  mappings: AccountingMapping[]
+) => {
+  for (const mapping of mappings) {
+    const externalName = (mapping.external_name || '').trim();
+    if (externalName) {
+      await connection.execute(
+        `INSERT INTO accounting_export_mappings (user_id, target, source_type, source_key, external_name)
+         VALUES (?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE external_name = VALUES(external_name)`,
+        [userId, target, mapping.source_type, mapping.source_key, externalName]
+      );
+    } else {
+      await connection.execute(
+        'DELETE FROM accounting_export_mappings WHERE user_id = ? AND target = ? AND source_type = ? AND source_key = ?',
+        [userId, target, mapping.source_type, mapping.source_key]
+      );
+    }
+  }
+};
+
+// Income, expenses, purchases, completed sales and transfers in a period as vouchers (split
+// records debit each line's category), with categories and accounts renamed to the target system's ledger names. Sales are exported
+// at their selling price; stock and cost of goods sold are left to the accountant's system.
+export const getAccountingVouchers = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  target: AccountingTarget,
+  startDate: string,
+  endDate: string
+): Promise<AccountingVoucher[]> => {
+  const mappings = await getAccountingMappings(connection, userId, target);
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name FROM accounts WHERE user_id = ?',
+    [userId]
+  ) as any[];
+
+  const mapped = (sourceType: MappingSourceType, sourceKey: string) =>
+    mappings.find((mapping) => mapping.source_type === sourceType && mapping.source_key === sourceKey)?.external_name;
+  const categoryName = (sourceType: MappingSourceType, category: string | null) =>
+    mapped(sourceType, category || '') || category || 'Uncategorized';
+  const accountName = (accountId: number | null) => {
+    if (!accountId) {
+      return mapped('account', CASH_SOURCE_KEY) || DEFAULT_CASH_NAME;
+    }
+    return mapped('account', String(accountId))
+      || accounts.find((account: any) => account.id === accountId)?.account_name
+      || DEFAULT_CASH_NAME;
+  };
+
+  const vouchers: AccountingVoucher[] = [];
+  const period = [userId, startDate, endDate];
+
+  const [income] = await connection.execute(
+    'SELECT id, amount, description, category, account_id, date FROM income WHERE user_id = ? AND date BETWEEN ? AND ?',
+    period
+  ) as any[];
+  for (const row of income) {
+    vouchers.push({
+      kind: 'income',
+      reference: `${REFERENCE_PREFIXES.income}-${row.id}`,
+      date: dateString(row.date),
+      description: row.description || row.category || 'Income',
+      amount: roundMoney(parseFloat(row.amount)),
+      debit: accountName(row.account_id),
+      credit: categoryName('income', row.category),
+      debit_account_id: row.account_id,
+      credit_account_id: null
+    });
+  }
+
+  const [expenses] = await connection.execute(
+    'SELECT id, amount, description, category, account_id, date FROM expenses WHERE user_id = ? AND date BETWEEN ? AND ?',
+    period
+  ) as any[];
+  const expenseSplits = await getRecordSplits(connection, userId, 'expense', expenses.map((row: any) => row.id));
+  for (const row of expenses) {
+    const splits = expenseSplits.get(row.id);
+    vouchers.push({
+      kind: 'expense',
+      reference: `${REFERENCE_PREFIXES.expense}-${row.id}`,
+      date: dateString(row.date),
+      description: row.description || row.category || 'Expense',
+      amount: roundMoney(parseFloat(row.amount)),
+      debit: categoryName('expense', row.category),
+      credit: accountName(row.account_id),
+      debit_account_id: null,
+      credit_account_id: row.account_id,
+      debit_lines: splits?.map((line) => ({ ledger: categoryName('expense', line.category), amount: roundMoney(line.amount) }))
+    });
+  }
+
+  const [purchases] = await connection.execute(
+    'SELECT id, amount, description, category, account_id, date FROM purchases WHERE user_id = ? AND date BETWEEN ? AND ?',
+    period
+  ) as any[];
+  const purchaseSplits = await getRecordSplits(connection, userId, 'purchase', purchases.map((row: any) => row.id));
+  for (const row of purchases) {
+    const splits = purchaseSplits.get(row.id);
+    vouchers.push({
+      kind: 'purchase',
+      reference: `${REFERENCE_PREFIXES.purchase}-${row.id}`,
+      date: dateString(row.date),
+      description: row.description || row.category || 'Purchase',
+      amount: roundMoney(parseFloat(row.amount)),
+      debit: categoryName('purchase', row.category),
+      credit: accountName(row.account_id),
+      debit_account_id: null,
+      credit_account_id: row.account_id,
+      debit_lines: splits?.map((line) => ({ ledger: categoryName('purchase', line.category), amount: roundMoney(line.amount) }))
+    });
+  }
+
+  const [sales] = await connection.execute(
+    `SELECT id, selling_price, description, category, account_id, date FROM sales
+     WHERE user_id = ? AND date BETWEEN ? AND ? AND status = 'completed'`,
+    period
+  ) as any[];
+  for (const row of sales) {
+    vouchers.push({
+      kind: 'sale',
+      reference: `${REFERENCE_PREFIXES.sale}-${row.id}`,
+      date: dateString(row.date),
+      description: row.description || row.category || 'Sale',
+      amount: roundMoney(parseFloat(row.selling_price)),
+      debit: accountName(row.account_id),
+      credit: categoryName('sale', row.category),
+      debit_account_id: row.account_id,
+      credit_account_id: null
+    });
+  }
+
+  // Transfers are keyed by the outgoing row; its incoming row references it. Older transfers
+  // have two unlinked rows, each exported against Transfers in Transit like in the ledger.
+  const [transfers] = await connection.execute(
+    `SELECT t.id, t.amount, t.description, t.account_id, t.date, t.reference_table, incoming.account_id AS to_account_id
+     FROM transactions t
+     LEFT JOIN transactions incoming ON incoming.user_id = t.user_id AND incoming.transaction_type = 'transfer'
+       AND incoming.reference_table = 'transactions' AND incoming.reference_id = t.id
+     WHERE t.user_id = ? AND t.date BETWEEN ? AND ? AND t.transaction_type = 'transfer'
+       AND NOT (t.amount > 0 AND t.reference_table = 'transactions')`,
+    period
+  ) as any[];
+  for (const row of transfers) {
+    const amount = roundMoney(parseFloat(row.amount));
+    const outgoing = amount < 0;
+    const toAccountId = outgoing ? row.to_account_id : row.account_id;
+    const fromAccountId = outgoing ? row.account_id : null;
+
+    vouchers.push({
+      kind: 'transfer',
+      reference: `${REFERENCE_PREFIXES.transfer}-${row.id}`,
+      date: dateString(row.date),
+      description: (row.description || 'Transfer').replace(/ \((Debit|Credit)\)$/, ''),
+      amount: Math.abs(amount),
+      debit: outgoing && !row.to_account_id ? DEFAULT_TRANSFER_NAME : accountName(toAccountId),
+      credit: outgoing ? accountName(fromAccountId) : DEFAULT_TRANSFER_NAME,
+      debit_account_id: outgoing && !row.to_account_id ? null : toAccountId,
+      credit_account_id: fromAccountId
+    });
+  }
+
+  return vouchers
+    .filter((voucher) => voucher.amount !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference));
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const TALLY_VOUCHER_TYPES: Record<AccountingVoucher['kind'], string> = {
+  income: 'Receipt',
+  expense: 'Payment',
+  purchase: 'Purchase',
+  sale: 'Sales',
+  transfer: 'Contra'
+};
+
+// Tally import XML: one voucher per record, with a debit entry per split line. Tally writes debits as negative amounts
+// marked ISDEEMEDPOSITIVE=Yes and credits as positive amounts marked No.
+export const buildTallyXml = (vouchers: AccountingVoucher[], companyName: string): string => {
+  const ledgerEntry = (name: string, amount: number, debit: boolean) => [
+    '          <ALLLEDGERENTRIES.LIST>',
+    `            <LEDGERNAME>${escapeXml(name)}</LEDGERNAME>`,
+    `            <ISDEEMEDPOSITIVE>${debit ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>`,
+    `            <AMOUNT>${(debit ? -amount : amount).toFixed(2)}</AMOUNT>`,
+    '          </ALLLEDGERENTRIES.LIST>'
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ENVELOPE>',
+    '  <HEADER>',
+    '    <TALLYREQUEST>Import Data</TALLYREQUEST>',
+    '  </HEADER>',
+    '  <BODY>',
+    '    <IMPORTDATA>',
+    '      <REQUESTDESC>',
+    '        <REPORTNAME>Vouchers</REPORTNAME>',
+    '        <STATICVARIABLES>',
+    `          <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>`,
+    '        </STATICVARIABLES>',
+    '      </REQUESTDESC>',
+    '      <REQUESTDATA>'
+  ];
+
+  for (const voucher of vouchers) {
+    const voucherType = TALLY_VOUCHER_TYPES[voucher.kind];
+    lines.push(
+      '      <TALLYMESSAGE xmlns:UDF="TallyUDF">',
+      `        <VOUCHER VCHTYPE="${voucherType}" ACTION="Create">`,
+      `          <DATE>${voucher.date.replace(/-/g, '')}</DATE>`,
+      `          <VOUCHERTYPENAME>${voucherType}</VOUCHERTYPENAME>`,
+      `          <VOUCHERNUMBER>${escapeXml(voucher.reference)}</VOUCHERNUMBER>`,
+      `          <NARRATION>${escapeXml(voucher.description)}</NARRATION>`,
+      ...debitLines(voucher).flatMap((line) => ledgerEntry(line.ledger, line.amount, true)),
+      ...ledgerEntry(voucher.credit, voucher.amount, false),
+      '        </VOUCHER>',
+      '      </TALLYMESSAGE>'
+    );
+  }
+
+  lines.push(
+    '      </REQUESTDATA>',
+    '    </IMPORTDATA>',
+    '  </BODY>',
+    '</ENVELOPE>'
+  );
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+const IIF_TRANSACTION_TYPES: Record<AccountingVoucher['kind'], string> = {
+  income: 'DEPOSIT',
+  expense: 'CHECK',
+  purchase: 'CHECK',
+  sale: 'DEPOSIT',
+  transfer: 'TRANSFER'
+};
+
+const formatDate = (date: string, format: ImportDateFormat): string => {
+  const [year, month, day] = date.split('-');
+  switch (format) {
+    case 'DD/MM/YYYY':
+      return `${day}/${month}/${year}`;
+    case 'MM/DD/YYYY':
+      return `${month}/${day}/${year}`;
+    default:
+      return date;
+  }
+};
+
+// IIF fields are tab-separated, so tabs and line breaks in text become spaces
+const iifField = (value: string): string => value.replace(/[\t\r\n]+/g, ' ');
+
+// QuickBooks Desktop IIF: a TRNS line for the bank/cash side and an SPL line for the
+// category (one per split line), signed so they sum to zero (money in is positive on the bank side)
+export const buildQuickBooksIif = (vouchers: AccountingVoucher[]): string => {
+  const columns = ['TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const lines = [
+    ['!TRNS', ...columns].join('\t'),
+    ['!SPL', ...columns].join('\t'),
+    '!ENDTRNS'
+  ];
+
+  for (const voucher of vouchers) {
+    const type = IIF_TRANSACTION_TYPES[voucher.kind];
+    const date = formatDate(voucher.date, 'MM/DD/YYYY');
+    const moneyIn = voucher.kind === 'income' || voucher.kind === 'sale';
+    const bankAccount = moneyIn ? voucher.debit : voucher.credit;
+    const bankAmount = moneyIn ? voucher.amount : -voucher.amount;
+    const splitLines = moneyIn ? [{ ledger: voucher.credit, amount: -voucher.amount }] : debitLines(voucher);
+
+    lines.push(
+      ['TRNS', type, date, iifField(bankAccount), bankAmount.toFixed(2), voucher.reference, iifField(voucher.description)].join('\t'),
+      ...splitLines.map((line) =>
+        ['SPL', type, date, iifField(line.ledger), line.amount.toFixed(2), voucher.reference, iifField(voucher.description)].join('\t')
+      ),
+      'ENDTRNS'
+    );
+  }
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+const csvLine = (values: (string | number)[]): string => {
+  return values.map((value) => csvField(value, typeof value === 'number' ? 'money' : 'string')).join(',');
+};
+
+// Xero manual journal CSV: a voucher's debit lines (one per split line) and credit line share a
+// narration and date (which is how Xero groups them into one journal), debits positive and
+// credits negative. Xero expects account codes, so the mapping for Xero should hold each ledger's code.
+export const buildXeroJournalCsv = (
+  vouchers: AccountingVoucher[],
+  dateFormat: ImportDateFormat,
+  taxRate: string
+): string => {
+  const lines = [csvLine(['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'])];
+
+  for (const voucher of vouchers) {
+    const narration = `${voucher.description} (${voucher.reference})`;
+    const date = formatDate(voucher.date, dateFormat);
+    lines.push(
+      ...debitLines(voucher).map((line) => csvLine([narration, date, voucher.description, line.ledger, taxRate, line.amount])),
+      csvLine([narration, date, voucher.description, voucher.credit, taxRate, -voucher.amount])
+    );
+  }
+
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+// Xero bank statement CSV for one cash/bank account: every voucher that moved its balance,
+// money in positive
+export const buildXeroBankCsv = (
+  vouchers: AccountingVoucher[],
+  accountId: number,
+  dateFormat: ImportDateFormat
+): string => {
+  const lines = [csvLine(['*Date', '*Amount', 'Payee', 'Description', 'Reference'])];
+
+  for (const voucher of vouchers) {
+    let amount: number;
+    let counterpart: string;
+    if (voucher.debit_account_id === accountId) {
+      amount = voucher.amount;
+      counterpart = voucher.credit;
+    } else if (voucher.credit_account_id === accountId) {
+      amount = -voucher.amount;
+      counterpart = voucher.debit;
+    } else {
+      continue;
+    }
+
+    lines.push(csvLine([formatDate(voucher.date, dateFormat), amount, counterpart, voucher.description, voucher.reference]));
+  }
+
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,97 @@
+import { PoolConnection } from 'mysql2/promise';
+import { syncJournalEntry } from './ledger';
+
+// Get an account if it exists and belongs to the user
+export const findUserAccount = async (connection: PoolConnection, userId: number, accountId: number) => {
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name, balance FROM accounts WHERE id = ? AND user_id = ?',
+    [accountId, userId]
+  ) as any[];
+
+  return accounts.length > 0 ? accounts[0] : null;
+};
+
+// Apply a signed change to an account balance (no-op for records without an account)
+export const adjustAccountBalance = async (
+  connection: PoolConnection,
+  userId: number,
+  accountId: number | null | undefined,
+  delta: number
+) => {
+  if (!accountId || delta === 0) {
+    return;
+  }
+
+  await connection.execute(
+    'UPDATE accounts SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+    [delta, accountId, userId]
+  );
+};
+
+export interface TransferInput {
+  from_account_id: number;
+  to_account_id: number;
+  amount: number | string;
+  description?: string | null;
+  date: string;
+}
+
+// Move money between two of the user's accounts: both balances, the linked pair of audit rows
+// and one journal entry. Used by POST /api/accounts/transfer and plain-text journal import;
+// runs inside the caller's transaction.
+export const createTransfer = async (connection: PoolConnection, userId: number, input: TransferInput) => {
+  const { from_account_id, to_account_id, amount, description = null, date } = input;
+
+  if (from_account_id === to_account_id) {
+    throw Object.assign(new Error('Cannot transfer to the same account'), { status: 400 });
+  }
+
+  // Check both accounts exist and belong to user
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name, balance FROM accounts WHERE id IN (?, ?) AND user_id = ?',
+    [from_account_id, to_account_id, userId]
+  ) as any[];
+
+  if (accounts.length !== 2) {
+    throw Object.assign(new Error('One or both accounts not found'), { status: 404 });
+  }
+
+  const fromAccount = accounts.find((acc: any) => acc.id === from_account_id);
+  const toAccount = accounts.find((acc: any) => acc.id === to_account_id);
+
+  // Check sufficient balance
+  if (parseFloat(fromAccount.balance) < parseFloat(amount as string)) {
+    throw Object.assign(new Error('Insufficient balance in source account'), { status: 400 });
+  }
+
+  // Update account balances
+  await connection.execute(
+    'UPDATE accounts SET balance = balance - ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [amount, from_account_id]
+  );
+
+  await connection.execute(
+    'UPDATE accounts SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [amount, to_account_id]
+  );
+
+  // Record transactions for both accounts
+  const transferDescription = description || `Transfer from ${fromAccount.account_name} to ${toAccount.account_name}`;
+
+  // Debit transaction
+  const [debitResult] = await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?)',
+    [userId, 'transfer', -amount, `${transferDescription} (Debit)`, from_account_id, date]
+  ) as any[];
+
+  // Credit transaction, linked to its debit so the pair is one transfer
+  await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'transfer', debitResult.insertId, 'transactions', amount, `${transferDescription} (Credit)`, to_account_id, date]
+  );
+
+  // Post the transfer to the ledger as a single balanced entry
+  await syncJournalEntry(connection, userId, 'transfer', debitResult.insertId);
+
+  return { id: debitResult.insertId as number, description: transferDescription };
+};
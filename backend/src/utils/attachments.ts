@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import { Pool, PoolConnection } from 'mysql2/promise';
+
+// Directory where uploaded files are stored
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+// Largest accepted file and number of files per upload request
+export const MAX_ATTACHMENT_SIZE = parseInt(process.env.MAX_ATTACHMENT_SIZE_MB || '5') * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+// Accepted MIME types and the extension used when storing them
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf'
+};
+
+// Table holding the parent record for each attachment record type
+export const ATTACHMENT_RECORD_TABLES = {
+  income: 'income',
+  expense: 'expenses',
+  purchase: 'purchases',
+  sale: 'sales',
+  loan: 'loans',
+  charity: 'charity'
+} as const;
+
+export type AttachmentRecordType = keyof typeof ATTACHMENT_RECORD_TABLES;
+
+export const isAttachmentRecordType = (value: string): value is AttachmentRecordType => {
+  return Object.prototype.hasOwnProperty.call(ATTACHMENT_RECORD_TABLES, value);
+};
+
+// Multer instance storing files under a random name so user input never reaches the file system
+export const attachmentUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdir(UPLOAD_DIR, { recursive: true }, (error) => cb(error, UPLOAD_DIR));
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${crypto.randomUUID()}${ALLOWED_ATTACHMENT_TYPES[file.mimetype]}`);
+    }
+  }),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: MAX_ATTACHMENTS_PER_UPLOAD
+  },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_ATTACHMENT_TYPES[file.mimetype]) {
+      return cb(Object.assign(new Error(`File type ${file.mimetype} is not allowed`), { status: 415 }));
+    }
+    cb(null, true);
+  }
+});
+
+// Check the first bytes of a stored file against the MIME type the client claimed
+export const matchesFileSignature = async (filePath: string, mimeType: string): Promise<boolean> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(12);
+    await handle.read(header, 0, 12, 0);
+
+    switch (mimeType) {
+      case 'image/jpeg':
+        return header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff;
+      case 'image/png':
+        return header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      case 'image/gif':
+        return header.toString('ascii', 0, 4) === 'GIF8';
+      case 'image/webp':
+        return header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP';
+      case 'application/pdf':
+        return header.toString('ascii', 0, 4) === '%PDF';
+      default:
+        return false;
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+// Absolute path of a stored attachment
+export const getAttachmentPath = (storedName: string): string => {
+  return path.join(UPLOAD_DIR, path.basename(storedName));
+};
+
+// Check that the record an attachment belongs to exists and is owned by the user
+export const findAttachmentParent = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  recordType: AttachmentRecordType,
+  recordId: number
+): Promise<boolean> => {
+  const [records] = await connection.execute(
+    `SELECT id FROM ${ATTACHMENT_RECORD_TABLES[recordType]} WHERE id = ? AND user_id = ?`,
+    [recordId, userId]
+  ) as any[];
+
+  return records.length > 0;
+};
+
+// Delete the attachment rows of records being deleted and return their stored file names.
+// Call removeAttachmentFiles with the result once the surrounding transaction has committed.
+export const detachRecordAttachments = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: AttachmentRecordType,
+  recordIds: number[]
+): Promise<string[]> => {
+  if (recordIds.length === 0) return [];
+
+  const placeholders = recordIds.map(() => '?').join(', ');
+  const [attachments] = await connection.execute(
+    `SELECT stored_name FROM attachments WHERE user_id = ? AND record_type = ? AND record_id IN (${placeholders})`,
+    [userId, recordType, ...recordIds]
+  ) as any[];
+
+  await connection.execute(
+    `DELETE FROM attachments WHERE user_id = ? AND record_type = ? AND record_id IN (${placeholders})`,
+    [userId, recordType, ...recordIds]
+  );
+
+  return attachments.map((attachment: any) => attachment.stored_name);
+};
+
+// Remove stored files from disk, ignoring files that are already gone
+export const removeAttachmentFiles = async (storedNames: string[]): Promise<void> => {
+  await Promise.all(storedNames.map(async (storedName) => {
+    try {
+      await fs.promises.unlink(getAttachmentPath(storedName));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('Remove attachment file error:', error);
+      }
+    }
+  }));
+};
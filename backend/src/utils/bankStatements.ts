@@ -0,0 +1,328 @@
+import path from 'path';
+import { ImportDateFormat, ImportDecimalFormat, parseCsv, parseImportAmount, parseImportDate } from './imports';
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053' | 'csv';
+
+// A statement line; amounts are signed from the account's side (money in is positive)
+export interface StatementLineInput {
+  date: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  lines: StatementLineInput[];
+  start_date: string | null;
+  end_date: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+}
+
+// Saved column layout of a bank's CSV export (row of bank_csv_profiles)
+export interface BankCsvProfile {
+  header_rows: number;
+  date_column: number;
+  description_column: number | null;
+  reference_column: number | null;
+  amount_column: number | null;
+  debit_column: number | null;
+  credit_column: number | null;
+  date_format: ImportDateFormat;
+  decimal_format: ImportDecimalFormat;
+}
+
+const statementError = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const unescapeXml = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+// First and last line dates
+const statementPeriod = (lines: StatementLineInput[]) => {
+  const dates = lines.map((line) => line.date).sort();
+  return {
+    start_date: dates[0] || null,
+    end_date: dates[dates.length - 1] || null
+  };
+};
+
+// Work out the format from the file extension, falling back to the content
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat => {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '.ofx' || extension === '.qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === '.qif' || /^!Type:/im.test(text)) return 'qif';
+  if (/<BkToCstmrStmt>/.test(text)) return 'camt053';
+  if (extension === '.xml') return 'camt053';
+  return 'csv';
+};
+
+// YYYY-MM-DD from an OFX date such as 20240501 or 20240501120000[-5:EST]
+const ofxDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseImportDate(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD') : null;
+};
+
+// Value of an OFX element; OFX 1.x (SGML) leaves elements unclosed so the value ends at the next tag
+const ofxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? unescapeXml(match[1].trim()) : null;
+};
+
+export const parseOfx = (text: string): ParsedStatement => {
+  const lines: StatementLineInput[] = [];
+
+  for (const match of text.matchAll(/<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>|<\/BANKTRANLIST>))/gi)) {
+    const block = match[1];
+    const date = ofxDate(ofxValue(block, 'DTPOSTED') || '');
+    const amount = parseFloat(ofxValue(block, 'TRNAMT') || '');
+    if (!date || isNaN(amount)) {
+      throw statementError('OFX transaction without a valid date or amount');
+    }
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    lines.push({
+      date,
+      amount: roundMoney(amount),
+      description: [name, memo].filter(Boolean).join(' - '),
+      reference: ofxValue(block, 'FITID') || ofxValue(block, 'CHECKNUM')
+    });
+  }
+
+  const ledgerBalance = text.match(/<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|$)/i);
+  const closing = ledgerBalance ? parseFloat(ofxValue(ledgerBalance[1], 'BALAMT') || '') : NaN;
+
+  return {
+    format: 'ofx',
+    lines,
+    start_date: ofxDate(ofxValue(text, 'DTSTART') || ''),
+    end_date: ofxDate(ofxValue(text, 'DTEND') || ''),
+    opening_balance: null,
+    closing_balance: isNaN(closing) ? null : roundMoney(closing)
+  };
+};
+
+// QIF dates are written like 05/01/2024, 5/1'24 or 5/ 1/24
+const qifDate = (value: string, format: ImportDateFormat): string | null => {
+  return parseImportDate(value.replace(/'/g, '/').replace(/\s+/g, ''), format);
+};
+
+export const parseQif = (text: string, dateFormat: ImportDateFormat = 'MM/DD/YYYY'): ParsedStatement => {
+  const lines: StatementLineInput[] = [];
+  let record: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('!')) continue;
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (code !== '^') {
+      // Split transactions repeat S/E/$ codes; only the first value of each code is kept
+      if (record[code] === undefined) record[code] = value;
+      continue;
+    }
+
+    if (record.D !== undefined) {
+      const date = qifDate(record.D, dateFormat);
+      const amount = parseFloat((record.T ?? record.U ?? '').replace(/,/g, ''));
+      if (!date || isNaN(amount)) {
+        throw statementError(`QIF transaction with an invalid date "${record.D}" or amount; check the date format`);
+      }
+
+      lines.push({
+        date,
+        amount: roundMoney(amount),
+        description: [record.P, record.M].filter(Boolean).join(' - '),
+        reference: record.N || null
+      });
+    }
+    record = {};
+  }
+
+  return { format: 'qif', lines, ...statementPeriod(lines), opening_balance: null, closing_balance: null };
+};
+
+// Text of the first matching element (a simple path of nested tag names)
+const xmlValue = (xml: string, ...tags: string[]): string | null => {
+  let scope = xml;
+  for (const tag of tags) {
+    const match = scope.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    if (!match) return null;
+    scope = match[1];
+  }
+  return unescapeXml(scope.trim());
+};
+
+// Signed amount of a CAMT element holding <Amt> and <CdtDbtInd>
+const camtAmount = (xml: string): number => {
+  const amount = parseFloat(xmlValue(xml, 'Amt') || '');
+  if (isNaN(amount)) {
+    throw statementError('CAMT.053 entry without a valid amount');
+  }
+  return roundMoney(xmlValue(xml, 'CdtDbtInd') === 'DBIT' ? -amount : amount);
+};
+
+const camtDate = (xml: string, tag: string): string | null => {
+  const value = xmlValue(xml, tag, 'Dt') || xmlValue(xml, tag, 'DtTm');
+  return value ? parseImportDate(value, 'YYYY-MM-DD') : null;
+};
+
+// Date of a <Bal> element (<Dt><Dt>2024-05-31</Dt></Dt> or <Dt><DtTm>...</DtTm></Dt>)
+const balanceDate = (xml: string): string | null => {
+  const match = xml.match(/<(?:\w+:)?Dt(?:Tm)?>(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+};
+
+export const parseCamt053 = (text: string): ParsedStatement => {
+  const statement = xmlValue(text, 'Stmt');
+  if (statement === null) {
+    throw statementError('File is not a CAMT.053 bank statement');
+  }
+
+  const lines: StatementLineInput[] = [];
+  for (const match of text.matchAll(/<(?:\w+:)?Ntry\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Ntry>/g)) {
+    const entry = match[1];
+    const date = camtDate(entry, 'BookgDt') || camtDate(entry, 'ValDt');
+    if (!date) {
+      throw statementError('CAMT.053 entry without a booking date');
+    }
+
+    // Counterparty name and remittance text, falling back to the entry's additional information
+    const details = xmlValue(entry, 'NtryDtls') || '';
+    const counterparty = xmlValue(details, 'RltdPties', 'Dbtr', 'Nm') || xmlValue(details, 'RltdPties', 'Cdtr', 'Nm');
+    const remittance = xmlValue(details, 'RmtInf', 'Ustrd');
+    const description = [counterparty, remittance].filter(Boolean).join(' - ') || xmlValue(entry, 'AddtlNtryInf') || '';
+
+    lines.push({
+      date,
+      amount: camtAmount(entry.replace(/<(?:\w+:)?NtryDtls\b[\s\S]*<\/(?:\w+:)?NtryDtls>/, '')),
+      description,
+      reference: xmlValue(entry, 'AcctSvcrRef') || xmlValue(entry, 'NtryRef')
+    });
+  }
+
+  // Opening (OPBD) and closing (CLBD) booked balances
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let openingDate: string | null = null;
+  let closingDate: string | null = null;
+  for (const match of text.matchAll(/<(?:\w+:)?Bal\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Bal>/g)) {
+    const code = xmlValue(match[1], 'Tp', 'CdOrPrtry', 'Cd');
+    if (code === 'OPBD') {
+      openingBalance = camtAmount(match[1]);
+      openingDate = balanceDate(match[1]);
+    } else if (code === 'CLBD') {
+      closingBalance = camtAmount(match[1]);
+      closingDate = balanceDate(match[1]);
+    }
+  }
+
+  const period = statementPeriod(lines);
+  const fromDate = xmlValue(statement, 'FrToDt', 'FrDtTm');
+  const toDate = xmlValue(statement, 'FrToDt', 'ToDtTm');
+
+  return {
+    format: 'camt053',
+    lines,
+    start_date: (fromDate && parseImportDate(fromDate, 'YYYY-MM-DD')) || openingDate || period.start_date,
+    end_date: (toDate && parseImportDate(toDate, 'YYYY-MM-DD')) || closingDate || period.end_date,
+    opening_balance: openingBalance,
+    closing_balance: closingBalance
+  };
+};
+
+// Lines of a CSV export using a saved bank profile. The amount is either one signed column
+// or separate debit (money out) and credit (money in) columns.
+export const parseStatementCsv = (text: string, profile: BankCsvProfile): ParsedStatement => {
+  const rows = parseCsv(text).slice(profile.header_rows);
+  const lines: StatementLineInput[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.every((cell) => cell.trim() === '')) return;
+
+    const rowNumber = index + profile.header_rows + 1;
+    const cell = (column: number | null) => column === null ? '' : String(row[column] ?? '').trim();
+
+    const date = parseImportDate(cell(profile.date_column), profile.date_format);
+    if (!date) {
+      throw statementError(`Row ${rowNumber}: date "${cell(profile.date_column)}" is not a valid ${profile.date_format} date`);
+    }
+
+    let amount: number;
+    if (profile.amount_column !== null) {
+      const value = parseImportAmount(cell(profile.amount_column), profile.decimal_format);
+      if (value === null) {
+        throw statementError(`Row ${rowNumber}: amount "${cell(profile.amount_column)}" is not a number`);
+      }
+      amount = parseFloat(value);
+    } else {
+      const debit = parseImportAmount(cell(profile.debit_column), profile.decimal_format);
+      const credit = parseImportAmount(cell(profile.credit_column), profile.decimal_format);
+      if (debit === null && credit === null) {
+        throw statementError(`Row ${rowNumber}: no debit or credit amount`);
+      }
+      amount = Math.abs(parseFloat(credit ?? '0')) - Math.abs(parseFloat(debit ?? '0'));
+    }
+
+    lines.push({
+      date,
+      amount: roundMoney(amount),
+      description: cell(profile.description_column),
+      reference: cell(profile.reference_column) || null
+    });
+  });
+
+  return { format: 'csv', lines, ...statementPeriod(lines), opening_balance: null, closing_balance: null };
+};
+
+// Parse an uploaded statement file. CSV files need the bank's saved profile; QIF files
+// don't say how dates are written, so the caller passes the date format (US by default).
+export const parseStatementFile = (
+  data: Buffer,
+  fileName: string,
+  options: { profile?: BankCsvProfile | null; date_format?: ImportDateFormat }
+): ParsedStatement => {
+  const text = data.toString('utf8').replace(/^\uFEFF/, '');
+  const format = detectStatementFormat(fileName, text);
+
+  let statement: ParsedStatement;
+  switch (format) {
+    case 'ofx':
+      statement = parseOfx(text);
+      break;
+    case 'qif':
+      statement = parseQif(text, options.date_format);
+      break;
+    case 'camt053':
+      statement = parseCamt053(text);
+      break;
+    default:
+      if (!options.profile) {
+        throw statementError('Choose a bank CSV profile to import CSV statements');
+      }
+      statement = parseStatementCsv(text, options.profile);
+  }
+
+  if (statement.lines.length === 0) {
+    throw statementError('Statement has no transactions');
+  }
+
+  statement.lines = statement.lines.map((line) => ({
+    ...line,
+    description: line.description.slice(0, 255),
+    reference: line.reference ? line.reference.slice(0, 100) : null
+  }));
+
+  return statement;
+};
@@ -0,0 +1,207 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { toDateString, parseDate, addDays } from './dates';
+import { CATEGORY_RECORD_TABLES } from './categories';
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+export type BudgetCategoryType = 'expense' | 'purchase';
+
+// Spending is counted from the records matching the budget's category type, with each line
+// of a split record counted under its own category
+export const BUDGET_SPENDING_TABLES: Record<BudgetCategoryType, string> = {
+  expense: CATEGORY_RECORD_TABLES.expense.lines,
+  purchase: CATEGORY_RECORD_TABLES.purchase.lines
+};
+
+// Share of the budget at which spending is flagged before it is exceeded
+export const BUDGET_WARNING_PERCENT = 80;
+
+export interface Budget {
+  id: number;
+  category: string;
+  category_type: BudgetCategoryType;
+  period: BudgetPeriod;
+  amount: number | string;
+  rollover: boolean | number;
+  start_date: string | Date;
+}
+
+export interface BudgetStatus {
+  period_start: string;
+  period_end: string;
+  budgeted: number;
+  rolled_over: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+  status: 'ok' | 'warning' | 'exceeded';
+}
+
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+const PERIOD_NAMES: Record<BudgetPeriod, string> = {
+  monthly: 'month',
+  quarterly: 'quarter',
+  yearly: 'year'
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// First day of the budget period that contains a date
+export const getPeriodStart = (period: BudgetPeriod, date: string | Date): string => {
+  const day = parseDate(date);
+  const months = PERIOD_MONTHS[period];
+  const month = Math.floor(day.getUTCMonth() / months) * months;
+  return toDateString(new Date(Date.UTC(day.getUTCFullYear(), month, 1)));
+};
+
+// First day of the period after the one starting on `periodStart`
+const getNextPeriodStart = (period: BudgetPeriod, periodStart: string): string => {
+  const day = parseDate(periodStart);
+  return toDateString(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + PERIOD_MONTHS[period], 1)));
+};
+
+// Last day of the period starting on `periodStart`
+const getPeriodEnd = (period: BudgetPeriod, periodStart: string): string => {
+  return addDays(getNextPeriodStart(period, periodStart), -1);
+};
+
+// Work out how much of a budget has been used in the period containing a date.
+// With rollover, whatever was left unspent in earlier periods (since the budget
+// started) is added to this period's allowance; overspending never carries forward.
+// Returns null when the date falls before the budget started.
+export const getBudgetStatus = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  budget: Budget,
+  date: string
+): Promise<BudgetStatus | null> => {
+  const periodStart = getPeriodStart(budget.period, date);
+  const firstPeriodStart = getPeriodStart(budget.period, budget.start_date);
+
+  if (periodStart < firstPeriodStart) {
+    return null;
+  }
+
+  const periodEnd = getPeriodEnd(budget.period, periodStart);
+  const table = BUDGET_SPENDING_TABLES[budget.category_type];
+  const budgeted = parseFloat(budget.amount as string);
+
+  const [spentRows] = await connection.execute(
+    `SELECT COALESCE(SUM(amount), 0) AS spent FROM ${table}
+     WHERE user_id = ? AND category = ? AND date BETWEEN ? AND ?`,
+    [userId, budget.category, periodStart, periodEnd]
+  ) as any[];
+
+  const spent = parseFloat(spentRows[0].spent);
+
+  let rolledOver = 0;
+  if (budget.rollover && firstPeriodStart < periodStart) {
+    const [monthlyRows] = await connection.execute(
+      `SELECT DATE_FORMAT(date, '%Y-%m-01') AS month, SUM(amount) AS spent FROM ${table}
+       WHERE user_id = ? AND category = ? AND date >= ? AND date < ?
+       GROUP BY DATE_FORMAT(date, '%Y-%m-01')`,
+      [userId, budget.category, firstPeriodStart, periodStart]
+    ) as any[];
+
+    // Bucket monthly spending into budget periods
+    const spentByPeriod = new Map<string, number>();
+    for (const row of monthlyRows) {
+      const key = getPeriodStart(budget.period, row.month);
+      spentByPeriod.set(key, (spentByPeriod.get(key) || 0) + parseFloat(row.spent));
+    }
+
+    for (let start = firstPeriodStart; start < periodStart; start = getNextPeriodStart(budget.period, start)) {
+      rolledOver = Math.max(0, rolledOver + budgeted - (spentByPeriod.get(start) || 0));
+    }
+  }
+
+  const available = roundMoney(budgeted + rolledOver);
+  const percentage = available > 0 ? roundMoney((spent / available) * 100) : 100;
+
+  return {
+    period_start: periodStart,
+    period_end: periodEnd,
+    budgeted,
+    rolled_over: roundMoney(rolledOver),
+    available,
+    spent: roundMoney(spent),
+    remaining: roundMoney(available - spent),
+    percentage,
+    status: percentage >= 100 ? 'exceeded' : percentage >= BUDGET_WARNING_PERCENT ? 'warning' : 'ok'
+  };
+};
+
+// Check whether a newly recorded amount pushed its category past the warning
+// or the full budget for the period. Call after the record has been saved.
+export const checkBudgetAlert = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  categoryType: BudgetCategoryType,
+  category: string,
+  date: string,
+  amount: number
+): Promise<{ budget_id: number; category: string; threshold: number; message: string; budget: BudgetStatus } | null> => {
+  const [budgets] = await connection.execute(
+    'SELECT * FROM budgets WHERE user_id = ? AND category_type = ? AND category = ?',
+    [userId, categoryType, category]
+  ) as any[];
+
+  if (budgets.length === 0) {
+    return null;
+  }
+
+  const budget = budgets[0] as Budget;
+  const status = await getBudgetStatus(connection, userId, budget, date);
+
+  if (!status || status.available <= 0) {
+    return null;
+  }
+
+  const previousPercentage = ((status.spent - amount) / status.available) * 100;
+  const threshold = [100, BUDGET_WARNING_PERCENT].find(
+    (limit) => status.percentage >= limit && previousPercentage < limit
+  );
+
+  if (!threshold) {
+    return null;
+  }
+
+  return {
+    budget_id: budget.id,
+    category,
+    threshold,
+    message: threshold >= 100
+      ? `${category} is over budget: ${status.percentage}% of ${status.available.toFixed(2)} spent this ${PERIOD_NAMES[budget.period]}`
+      : `${category} has used ${status.percentage}% of its budget this ${PERIOD_NAMES[budget.period]}`,
+    budget: status
+  };
+};
+
+// Budget alert for a split record: checks each category the lines name with the total of the
+// lines in it, and returns the first alert raised. Call after the record has been saved.
+export const checkSplitBudgetAlert = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  categoryType: BudgetCategoryType,
+  lines: { category: string; amount: number }[],
+  date: string
+) => {
+  const amounts = new Map<string, number>();
+  for (const line of lines) {
+    amounts.set(line.category, (amounts.get(line.category) || 0) + line.amount);
+  }
+
+  for (const [category, amount] of amounts) {
+    const alert = await checkBudgetAlert(connection, userId, categoryType, category, date, amount);
+    if (alert) {
+      return alert;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,527 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+
+export type CategoryType = 'income' | 'expense' | 'purchase' | 'sale';
+
+// Expenses or purchases as category lines: a split record gives one row per split line, with
+// the line's category and amount, and any other record a row of its own. Aliased as the table
+// itself so it can stand in for the table wherever spending is totalled by category.
+const splitCategoryLines = (table: string, recordType: 'expense' | 'purchase'): string => `(
+  SELECT r.id, r.user_id, r.date, r.account_id, r.payment_method,
+    COALESCE(rs.category, r.category) AS category,
+    COALESCE(rs.category_id, r.category_id) AS category_id,
+    COALESCE(rs.amount, r.amount) AS amount
+  FROM ${table} r
+  LEFT JOIN record_splits rs ON rs.record_type = '${recordType}' AND rs.record_id = r.id
+) AS ${table}`;
+
+// Expense records alone as category lines, for the Expenses page and its filters. Reports of
+// spending use CATEGORY_RECORD_TABLES.expense.lines, which adds vendor bills.
+export const EXPENSE_RECORD_LINES = splitCategoryLines('expenses', 'expense');
+
+// Expense lines followed by vendor bills, each bill a line of its own counted from its bill
+// date. Bills name their category without linking it, so the ID is looked up by name;
+// cancelled bills are left out. Bill IDs overlap expense IDs, so don't match records by id here.
+const EXPENSE_AND_BILL_LINES = `(
+  SELECT id, user_id, date, account_id, payment_method, category, category_id, amount
+  FROM ${EXPENSE_RECORD_LINES}
+  UNION ALL
+  SELECT b.id, b.user_id, b.bill_date AS date, NULL AS account_id, NULL AS payment_method,
+    COALESCE(b.category, 'Bills') AS category, c.id AS category_id, b.amount
+  FROM bills b
+  LEFT JOIN categories c ON c.user_id = b.user_id AND c.type = 'expense' AND c.name = COALESCE(b.category, 'Bills')
+  WHERE b.status != 'cancelled'
+) AS expenses`;
+
+// Records carrying each type of category, and the column holding their amount. `lines` is the
+// source to total by category from, so split records count each line under its own category
+// and vendor bills count as expenses.
+export const CATEGORY_RECORD_TABLES: Record<CategoryType, { table: string; lines: string; amount: string; where: string }> = {
+  income: { table: 'income', lines: 'income', amount: 'amount', where: '' },
+  expense: { table: 'expenses', lines: EXPENSE_AND_BILL_LINES, amount: 'amount', where: '' },
+  purchase: { table: 'purchases', lines: splitCategoryLines('purchases', 'purchase'), amount: 'amount', where: '' },
+  sale: { table: 'sales', lines: 'sales', amount: 'selling_price', where: " AND status = 'completed'" }
+};
+
+// Separator used when showing a category with its parents ("Utilities > Electricity")
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export interface CategoryNode {
+  id: number;
+  name: string;
+  type: CategoryType;
+  parent_id: number | null;
+  color: string;
+  icon: string;
+  created_at: string | Date;
+  depth: number;
+  path: string;
+  child_count: number;
+}
+
+export interface CategoryTotals {
+  transaction_count: number;
+  total_amount: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Order categories depth-first (each parent followed by its subcategories, siblings by name)
+// and work out their depth and full path. A category whose parent is missing, or that sits
+// in a loop, is treated as top-level so it never disappears from the list.
+export const buildCategoryTree = (rows: any[]): CategoryNode[] => {
+  const ids = new Set(rows.map((row) => row.id));
+  const children = new Map<number | null, any[]>();
+  for (const row of rows) {
+    const parentId = row.parent_id && ids.has(row.parent_id) ? row.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), row]);
+  }
+
+  const ordered: CategoryNode[] = [];
+  const visited = new Set<number>();
+  const visit = (row: any, parent: CategoryNode | null) => {
+    if (visited.has(row.id)) {
+      return;
+    }
+    visited.add(row.id);
+
+    const node: CategoryNode = {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      parent_id: parent ? parent.id : null,
+      color: row.color,
+      icon: row.icon,
+      created_at: row.created_at,
+      depth: parent ? parent.depth + 1 : 0,
+      path: parent ? `${parent.path}${CATEGORY_PATH_SEPARATOR}${row.name}` : row.name,
+      child_count: (children.get(row.id) || []).length
+    };
+    ordered.push(node);
+
+    const sorted = [...(children.get(row.id) || [])].sort((a, b) => a.name.localeCompare(b.name));
+    sorted.forEach((child) => visit(child, node));
+  };
+
+  const byTypeAndName = (a: any, b: any) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+  [...(children.get(null) || [])].sort(byTypeAndName).forEach((row) => visit(row, null));
+  [...rows].filter((row) => !visited.has(row.id)).sort(byTypeAndName).forEach((row) => visit(row, null));
+
+  return ordered;
+};
+
+// The user's categories (optionally of one type) in tree order
+export const getCategoryTree = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  type?: CategoryType
+): Promise<CategoryNode[]> => {
+  const [rows] = await connection.execute(
+    `SELECT id, name, type, parent_id, color, icon, created_at
+     FROM categories
+     WHERE user_id = ?${type ? ' AND type = ?' : ''}`,
+    type ? [userId, type] : [userId]
+  ) as any[];
+
+  return buildCategoryTree(rows);
+};
+
+// A category followed by all of its subcategories, at any depth
+export const getCategorySubtree = (categories: CategoryNode[], categoryId: number): CategoryNode[] => {
+  const subtree = categories.filter((category) => category.id === categoryId);
+  for (let i = 0; i < subtree.length; i++) {
+    subtree.push(...categories.filter((category) => category.parent_id === subtree[i].id));
+  }
+  return subtree;
+};
+
+// Check a parent chosen for a category: it must be the user's, of the same type, and not the
+// category itself or one of its own subcategories (which would make a loop).
+export const assertValidParent = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  type: CategoryType,
+  parentId: number,
+  categoryId: number | null
+) => {
+  const categories = await getCategoryTree(connection, userId, type);
+  const parent = categories.find((category) => category.id === parentId);
+
+  if (!parent) {
+    throw Object.assign(new Error(`Parent category not found among ${type} categories`), { status: 404 });
+  }
+
+  if (categoryId && getCategorySubtree(categories, categoryId).some((category) => category.id === parentId)) {
+    throw Object.assign(new Error('A category cannot be moved under itself or one of its subcategories'), { status: 400 });
+  }
+};
+
+// Transaction count and amount recorded directly against each category of a type, by category id
+export const getCategoryTotals = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  type: CategoryType
+): Promise<Map<number, CategoryTotals>> => {
+  const { lines, amount, where } = CATEGORY_RECORD_TABLES[type];
+  const [rows] = await connection.execute(
+    `SELECT category_id, COUNT(*) as transaction_count, SUM(${amount}) as total_amount
+     FROM ${lines}
+     WHERE user_id = ? AND category_id IS NOT NULL${where}
+     GROUP BY category_id`,
+    [userId]
+  ) as any[];
+
+  return new Map(rows.map((row: any) => [row.category_id, {
+    transaction_count: Number(row.transaction_count),
+    total_amount: parseFloat(row.total_amount) || 0
+  }]));
+};
+
+// Add each category's own totals into every one of its parents, so a parent's figures cover
+// everything filed under it. Returns the rolled-up totals by category id.
+export const rollUpCategoryTotals = (
+  categories: CategoryNode[],
+  ownTotals: (category: CategoryNode) => CategoryTotals
+): Map<number, CategoryTotals> => {
+  const totals = new Map<number, CategoryTotals>();
+  for (const category of categories) {
+    const own = ownTotals(category);
+    totals.set(category.id, { transaction_count: own.transaction_count, total_amount: own.total_amount });
+  }
+
+  // Children come after their parents in tree order, so walking backwards adds the
+  // deepest categories first
+  for (let i = categories.length - 1; i >= 0; i--) {
+    const category = categories[i];
+    const parentTotals = category.parent_id ? totals.get(category.parent_id) : null;
+    const categoryTotals = totals.get(category.id)!;
+    if (parentTotals) {
+      parentTotals.transaction_count += categoryTotals.transaction_count;
+      parentTotals.total_amount = roundMoney(parentTotals.total_amount + categoryTotals.total_amount);
+    }
+  }
+
+  return totals;
+};
+
+export interface CategoryBreakdown {
+  category: string;
+  category_id: number | null;
+  total_amount: number;
+  transaction_count: number;
+  percentage: number;
+  subcategories: CategoryBreakdown[];
+}
+
+// Expense totals by top-level category, each with its subcategories for drilling down.
+// Amounts recorded directly against a parent that also has subcategories are listed as
+// an entry of the parent's own name.
+export const getExpenseCategoryBreakdown = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  limit: number
+): Promise<CategoryBreakdown[]> => {
+  const categories = await getCategoryTree(connection, userId, 'expense');
+  const ownTotals = await getCategoryTotals(connection, userId, 'expense');
+  const empty = { transaction_count: 0, total_amount: 0 };
+  const totals = rollUpCategoryTotals(categories, (category) => ownTotals.get(category.id) || empty);
+  const grandTotal = Array.from(ownTotals.values()).reduce((sum, item) => sum + item.total_amount, 0);
+  const percentage = (amount: number) => grandTotal > 0 ? Math.round((amount / grandTotal) * 10000) / 100 : 0;
+
+  const breakdown = (category: CategoryNode): CategoryBreakdown => {
+    const categoryTotals = totals.get(category.id)!;
+    const subcategories = categories
+      .filter((child) => child.parent_id === category.id && totals.get(child.id)!.transaction_count > 0)
+      .map(breakdown);
+
+    const own = ownTotals.get(category.id);
+    if (subcategories.length > 0 && own && own.transaction_count > 0) {
+      subcategories.push({
+        category: category.name,
+        category_id: category.id,
+        total_amount: roundMoney(own.total_amount),
+        transaction_count: own.transaction_count,
+        percentage: percentage(own.total_amount),
+        subcategories: []
+      });
+    }
+
+    return {
+      category: category.name,
+      category_id: category.id,
+      total_amount: categoryTotals.total_amount,
+      transaction_count: categoryTotals.transaction_count,
+      percentage: percentage(categoryTotals.total_amount),
+      subcategories: subcategories.sort((a, b) => b.total_amount - a.total_amount)
+    };
+  };
+
+  return categories
+    .filter((category) => category.parent_id === null)
+    .map(breakdown)
+    .filter((item) => item.transaction_count > 0)
+    .sort((a, b) => b.total_amount - a.total_amount)
+    .slice(0, limit);
+};
+
+// Find the user's category of a type by name (case-insensitively, as the unique key does),
+// creating it if it is new. Returns null for a blank name.
+export const resolveCategory = async (
+  connection: PoolConnection,
+  userId: number,
+  type: CategoryType,
+  name: string | null | undefined
+): Promise<{ id: number; name: string } | null> => {
+  const trimmed = (name || '').trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const [existing] = await connection.execute(
+    'SELECT id, name FROM categories WHERE user_id = ? AND type = ? AND name = ?',
+    [userId, type, trimmed]
+  ) as any[];
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const [result] = await connection.execute(
+    'INSERT INTO categories (user_id, name, type) VALUES (?, ?, ?)',
+    [userId, trimmed, type]
+  ) as any[];
+  return { id: result.insertId, name: trimmed };
+};
+
+// Point a record at the category its category text names, creating the category if needed.
+// Called after every insert or category change so category_id is the reference and the
+// category column is only the current name. Runs inside the caller's transaction.
+export const linkRecordCategory = async (
+  connection: PoolConnection,
+  userId: number,
+  type: CategoryType,
+  recordId: number
+) => {
+  const { table } = CATEGORY_RECORD_TABLES[type];
+  const [records] = await connection.execute(
+    `SELECT category FROM ${table} WHERE id = ? AND user_id = ?`,
+    [recordId, userId]
+  ) as any[];
+  if (records.length === 0) {
+    return;
+  }
+
+  const category = await resolveCategory(connection, userId, type, records[0].category);
+  await connection.execute(
+    `UPDATE ${table} SET category_id = ?, category = ? WHERE id = ?`,
+    [category ? category.id : null, category ? category.name : records[0].category, recordId]
+  );
+};
+
+// How many records, budgets and subcategories use a category
+export const getCategoryUsage = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  category: { id: number; name: string; type: CategoryType }
+) => {
+  const { lines } = CATEGORY_RECORD_TABLES[category.type];
+  const [records] = await connection.execute(
+    `SELECT COUNT(*) as count FROM ${lines} WHERE user_id = ? AND category_id = ?`,
+    [userId, category.id]
+  ) as any[];
+  const [budgets] = await connection.execute(
+    'SELECT COUNT(*) as count FROM budgets WHERE user_id = ? AND category_type = ? AND category = ?',
+    [userId, category.type, category.name]
+  ) as any[];
+  const [children] = await connection.execute(
+    'SELECT COUNT(*) as count FROM categories WHERE user_id = ? AND parent_id = ?',
+    [userId, category.id]
+  ) as any[];
+
+  return {
+    record_count: Number(records[0].count),
+    budget_count: Number(budgets[0].count),
+    subcategory_count: Number(children[0].count)
+  };
+};
+
+// Move everything that names category `from` over to the name `to`: budgets, charity rules,
+// recurring templates, vendor bills, stock pools on sales and accountant export mappings. When merging, a
+// budget, charity rule or mapping the target already has wins over the source's.
+// Runs inside the caller's transaction.
+const moveNameReferences = async (
+  connection: PoolConnection,
+  userId: number,
+  type: CategoryType,
+  from: string,
+  to: string,
+  merging: boolean
+) => {
+  if (type === 'expense' || type === 'purchase') {
+    if (merging) {
+      const [targetBudgets] = await connection.execute(
+        'SELECT id FROM budgets WHERE user_id = ? AND category_type = ? AND category = ?',
+        [userId, type, to]
+      ) as any[];
+      if (targetBudgets.length > 0) {
+        await connection.execute(
+          'DELETE FROM budgets WHERE user_id = ? AND category_type = ? AND category = ?',
+          [userId, type, from]
+        );
+      }
+    }
+    await connection.execute(
+      'UPDATE budgets SET category = ? WHERE user_id = ? AND category_type = ? AND category = ?',
+      [to, userId, type, from]
+    );
+  }
+
+  if (type === 'income') {
+    if (merging) {
+      const [targetRules] = await connection.execute(
+        'SELECT id FROM charity_rules WHERE user_id = ? AND category = ?',
+        [userId, to]
+      ) as any[];
+      if (targetRules.length > 0) {
+        await connection.execute('DELETE FROM charity_rules WHERE user_id = ? AND category = ?', [userId, from]);
+      }
+    }
+    await connection.execute(
+      'UPDATE charity_rules SET category = ? WHERE user_id = ? AND category = ?',
+      [to, userId, from]
+    );
+  }
+
+  if (type === 'income' || type === 'expense') {
+    await connection.execute(
+      'UPDATE recurring_templates SET category = ? WHERE user_id = ? AND record_type = ? AND category = ?',
+      [to, userId, type, from]
+    );
+  }
+
+  if (type === 'expense') {
+    await connection.execute(
+      'UPDATE bills SET category = ? WHERE user_id = ? AND category = ?',
+      [to, userId, from]
+    );
+  }
+
+  // Paid invoices are settled into these categories
+  if (type === 'income') {
+    await connection.execute(
+      'UPDATE invoice_settings SET income_category = ? WHERE user_id = ? AND income_category = ?',
+      [to, userId, from]
+    );
+  }
+
+  if (type === 'sale') {
+    await connection.execute(
+      'UPDATE invoice_settings SET sale_category = ? WHERE user_id = ? AND sale_category = ?',
+      [to, userId, from]
+    );
+  }
+
+  // Sales costed from a stock pool name the purchase category
+  if (type === 'purchase') {
+    await connection.execute(
+      'UPDATE sales SET purchase_category = ? WHERE user_id = ? AND purchase_category = ?',
+      [to, userId, from]
+    );
+    await connection.execute(
+      `UPDATE invoice_items ii
+       JOIN invoices i ON ii.invoice_id = i.id
+       SET ii.purchase_category = ?
+       WHERE i.user_id = ? AND ii.purchase_category = ?`,
+      [to, userId, from]
+    );
+    await connection.execute(
+      `UPDATE quotation_items qi
+       JOIN quotations q ON qi.quotation_id = q.id
+       SET qi.purchase_category = ?
+       WHERE q.user_id = ? AND qi.purchase_category = ?`,
+      [to, userId, from]
+    );
+  }
+
+  if (merging) {
+    await connection.execute(
+      `DELETE s FROM accounting_export_mappings s
+       JOIN accounting_export_mappings t
+         ON t.user_id = s.user_id AND t.target = s.target AND t.source_type = s.source_type AND t.source_key = ?
+       WHERE s.user_id = ? AND s.source_type = ? AND s.source_key = ?`,
+      [to, userId, type, from]
+    );
+  }
+  await connection.execute(
+    'UPDATE accounting_export_mappings SET source_key = ? WHERE user_id = ? AND source_type = ? AND source_key = ?',
+    [to, userId, type, from]
+  );
+};
+
+// Rename a category and every place its name is used. Runs inside the caller's transaction.
+export const renameCategory = async (
+  connection: PoolConnection,
+  userId: number,
+  category: { id: number; name: string; type: CategoryType },
+  name: string
+) => {
+  const { table } = CATEGORY_RECORD_TABLES[category.type];
+  await connection.execute('UPDATE categories SET name = ? WHERE id = ?', [name, category.id]);
+  await connection.execute(
+    `UPDATE ${table} SET category = ? WHERE user_id = ? AND category_id = ?`,
+    [name, userId, category.id]
+  );
+  await connection.execute(
+    'UPDATE record_splits SET category = ? WHERE user_id = ? AND category_id = ?',
+    [name, userId, category.id]
+  );
+  await moveNameReferences(connection, userId, category.type, category.name, name, false);
+};
+
+// Move all of a category's records, subcategories and settings into another category of the
+// same type, then delete it. Runs inside the caller's transaction.
+export const mergeCategory = async (
+  connection: PoolConnection,
+  userId: number,
+  sourceId: number,
+  targetId: number
+) => {
+  if (sourceId === targetId) {
+    throw Object.assign(new Error('A category cannot be merged into itself'), { status: 400 });
+  }
+
+  const [rows] = await connection.execute(
+    'SELECT id, name, type FROM categories WHERE id IN (?, ?) AND user_id = ?',
+    [sourceId, targetId, userId]
+  ) as any[];
+  const source = rows.find((row: any) => row.id === sourceId);
+  const target = rows.find((row: any) => row.id === targetId);
+
+  if (!source || !target) {
+    throw Object.assign(new Error('Category not found'), { status: 404 });
+  }
+  if (source.type !== target.type) {
+    throw Object.assign(new Error('Categories can only be merged into a category of the same type'), { status: 400 });
+  }
+
+  const tree = await getCategoryTree(connection, userId, source.type);
+  if (getCategorySubtree(tree, sourceId).some((category) => category.id === targetId)) {
+    throw Object.assign(new Error('A category cannot be merged into one of its own subcategories'), { status: 400 });
+  }
+
+  const { table } = CATEGORY_RECORD_TABLES[source.type as CategoryType];
+  const [moved] = await connection.execute(
+    `UPDATE ${table} SET category_id = ?, category = ? WHERE user_id = ? AND category_id = ?`,
+    [target.id, target.name, userId, source.id]
+  ) as any[];
+  await connection.execute(
+    'UPDATE record_splits SET category_id = ?, category = ? WHERE user_id = ? AND category_id = ?',
+    [target.id, target.name, userId, source.id]
+  );
+  await connection.execute(
+    'UPDATE categories SET parent_id = ? WHERE user_id = ? AND parent_id = ?',
+    [target.id, userId, source.id]
+  );
+  await moveNameReferences(connection, userId, source.type, source.name, target.name, true);
+  await connection.execute('DELETE FROM categories WHERE id = ?', [source.id]);
+
+  return { source, target, records_moved: moved.affectedRows as number };
+};
@@ -0,0 +1,34 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+
+// Rate used when the user has not configured any charity rule
+export const DEFAULT_CHARITY_RATE = 6;
+
+// Find the charity rate (percentage) that applies to an income on a given date.
+// A category rule beats the user's default rule; within each, the latest rule
+// that was already effective on the income date wins.
+export const resolveCharityRate = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  category: string,
+  date: string
+): Promise<number> => {
+  const [rules] = await connection.execute(
+    `SELECT rate, is_exempt
+     FROM charity_rules
+     WHERE user_id = ? AND effective_from <= ? AND (category = ? OR category IS NULL)
+     ORDER BY category IS NULL, effective_from DESC, id DESC
+     LIMIT 1`,
+    [userId, date, category]
+  ) as any[];
+
+  if (rules.length === 0) {
+    return DEFAULT_CHARITY_RATE;
+  }
+
+  return rules[0].is_exempt ? 0 : parseFloat(rules[0].rate);
+};
+
+// Charity amount owed on an income at a given rate
+export const calculateCharityAmount = (amount: number, rate: number): number => {
+  return Math.round(amount * rate) / 100;
+};
@@ -0,0 +1,36 @@
+import { pool } from '../config/database';
+import { CATEGORY_RECORD_TABLES } from './categories';
+
+// Headline figures for the dashboard and the dashboard PDF
+export const getFinancialSummary = async (userId: number) => {
+  const [financialSummary] = await pool.execute(
+    `SELECT 
+      (SELECT COALESCE(SUM(amount), 0) FROM income WHERE user_id = ?) as total_income,
+      (SELECT COALESCE(SUM(amount), 0) FROM ${CATEGORY_RECORD_TABLES.expense.lines} WHERE user_id = ?) as total_expenses,
+      (SELECT COALESCE(SUM(amount), 0) FROM purchases WHERE user_id = ?) as total_purchases,
+      (SELECT COALESCE(SUM(selling_price), 0) FROM sales WHERE user_id = ? AND status = 'completed') as total_sales_revenue,
+      (SELECT COALESCE(SUM(amount), 0) FROM sales WHERE user_id = ? AND status = 'completed') as total_sales_cost,
+      (SELECT COALESCE(SUM(profit), 0) FROM sales WHERE user_id = ? AND status = 'completed') as total_sales_profit,
+      (SELECT COUNT(*) FROM purchases WHERE user_id = ?) as total_purchases_count,
+      (SELECT COUNT(*) FROM sales WHERE user_id = ? AND status = 'completed') as total_sales_count,
+      (SELECT COUNT(*) FROM sales WHERE user_id = ? AND status = 'pending') as pending_sales_count,
+      (SELECT COALESCE(SUM(selling_price), 0) FROM sales WHERE user_id = ? AND status = 'pending') as pending_sales_revenue,
+      (SELECT COALESCE(SUM(balance), 0) FROM accounts WHERE user_id = ?) as total_accounts_balance,
+      (SELECT COALESCE(SUM(current_balance), 0) FROM loans WHERE user_id = ? AND status = 'active' AND direction = 'payable') as total_active_loans,
+      (SELECT COALESCE(SUM(current_balance), 0) FROM loans WHERE user_id = ? AND status = 'active' AND direction = 'receivable') as total_loans_receivable,
+      (SELECT COALESCE(SUM(amount_required), 0) FROM charity WHERE user_id = ?) as total_charity_required,
+      (SELECT COALESCE(SUM(amount_paid), 0) FROM charity WHERE user_id = ?) as total_charity_paid,
+      (SELECT COALESCE(SUM(amount_remaining), 0) FROM charity WHERE user_id = ?) as total_charity_remaining`,
+    Array(16).fill(userId)
+  ) as any[];
+
+  // Only completed sales count as earned; pending sales are reported separately and cancelled ones ignored
+  const summary = financialSummary[0];
+  summary.net_worth = parseFloat(summary.total_income) + parseFloat(summary.total_sales_profit) - parseFloat(summary.total_expenses);
+  summary.available_cash = parseFloat(summary.total_accounts_balance) - parseFloat(summary.total_active_loans);
+  // Money lent out is an asset; money borrowed (total_active_loans) is a liability
+  summary.total_assets = parseFloat(summary.total_accounts_balance) + parseFloat(summary.total_loans_receivable);
+  summary.total_liabilities = parseFloat(summary.total_active_loans);
+
+  return summary;
+};
@@ -0,0 +1,41 @@
+// Format a UTC calendar date as YYYY-MM-DD
+export const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Today's date as YYYY-MM-DD
+export const todayString = (): string => toDateString(new Date());
+
+// Parse a date into a UTC calendar date.
+// DATE columns come back from mysql2 as local midnight, date strings as YYYY-MM-DD.
+export const parseDate = (date: string | Date): Date => {
+  if (date instanceof Date) {
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  }
+  const [year, month, day] = date.substring(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Number of days in a month (month is 0-based)
+export const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+// Add days to a date string
+export const addDays = (date: string | Date, days: number): string => {
+  const day = parseDate(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return toDateString(day);
+};
+
+// Add months to a date string, keeping the day but clamping it to the target month's length
+export const addMonths = (date: string | Date, months: number): string => {
+  const day = parseDate(date);
+  const target = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + months, 1));
+  const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth());
+  target.setUTCDate(Math.min(day.getUTCDate(), lastDay));
+  return toDateString(target);
+};
+
+// Whole days from one date to another (negative if `to` is earlier)
+export const daysBetween = (from: string | Date, to: string | Date): number => {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+};
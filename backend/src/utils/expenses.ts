@@ -0,0 +1,101 @@
+import { PoolConnection } from 'mysql2/promise';
+import { findUserAccount, adjustAccountBalance } from './accounts';
+import { detachRecordAttachments } from './attachments';
+import { syncJournalEntry } from './ledger';
+import { linkRecordCategory } from './categories';
+import { detachRecordTags } from './tags';
+import { detachRecordSplits } from './splits';
+import { assertUserVendor } from './payables';
+
+export interface ExpenseInput {
+  amount: number | string;
+  description?: string | null;
+  category: string;
+  payment_method?: string;
+  account_id?: number | null;
+  vendor_id?: number | null;
+  date: string;
+  receipt_path?: string | null;
+  import_batch_id?: number | null;
+}
+
+// Record an expense with its account debit and audit trail.
+// Used by POST /api/expenses and by recurring templates; runs inside the caller's transaction.
+export const createExpenseRecord = async (connection: PoolConnection, userId: number, input: ExpenseInput) => {
+  const { amount, description = null, category, payment_method = 'Cash', account_id = null, vendor_id = null, date, receipt_path = null, import_batch_id = null } = input;
+
+  // Check the paying account belongs to user
+  if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  await assertUserVendor(connection, userId, vendor_id);
+
+  // Insert expense record
+  const [expenseResult] = await connection.execute(
+    'INSERT INTO expenses (user_id, amount, description, category, payment_method, account_id, vendor_id, date, receipt_path, import_batch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, amount, description, category, payment_method, account_id, vendor_id, date, receipt_path, import_batch_id]
+  ) as any[];
+
+  const expenseId = expenseResult.insertId;
+
+  // Reference the category by ID (created if the name is new)
+  await linkRecordCategory(connection, userId, 'expense', expenseId);
+
+  // Get the created expense record
+  const [expenseRecords] = await connection.execute(
+    'SELECT * FROM expenses WHERE id = ?',
+    [expenseId]
+  ) as any[];
+
+  // Debit the paying account
+  await adjustAccountBalance(connection, userId, account_id, -parseFloat(amount as string));
+
+  // Record transaction for audit trail
+  await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'expense', expenseId, 'expenses', amount, `Expense: ${description || category}`, account_id, date]
+  );
+
+  await syncJournalEntry(connection, userId, 'expense', expenseId);
+
+  return expenseRecords[0];
+};
+
+// Delete an expense with its account debit, audit trail and journal entry.
+// Used by DELETE /api/expenses/:id and import rollback; runs inside the caller's transaction.
+// Returns the stored names of detached attachments to remove once the transaction has committed.
+export const deleteExpenseRecord = async (
+  connection: PoolConnection,
+  userId: number,
+  expense: { id: number; amount: number | string; account_id: number | null }
+): Promise<string[]> => {
+  // Refund the paying account
+  await adjustAccountBalance(connection, userId, expense.account_id, parseFloat(expense.amount as string));
+
+  // Delete related transactions
+  await connection.execute(
+    'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+    [expense.id, 'expenses', userId]
+  );
+
+  // Delete attachments of the record
+  const attachmentFiles = await detachRecordAttachments(connection, userId, 'expense', [expense.id]);
+
+  // Delete the tag links of the record
+  await detachRecordTags(connection, userId, 'expense', [expense.id]);
+
+  // Delete the split lines of the record
+  await detachRecordSplits(connection, userId, 'expense', [expense.id]);
+
+  // Delete expense record
+  await connection.execute(
+    'DELETE FROM expenses WHERE id = ? AND user_id = ?',
+    [expense.id, userId]
+  );
+
+  // Remove the expense from the ledger
+  await syncJournalEntry(connection, userId, 'expense', expense.id);
+
+  return attachmentFiles;
+};
@@ -0,0 +1,376 @@
+import path from 'path';
+import multer from 'multer';
+import { ValidationChain, validationResult } from 'express-validator';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { validateExpense, validateIncome } from '../middleware/validation';
+import { createExpenseRecord, deleteExpenseRecord } from './expenses';
+import { createIncomeRecord, deleteIncomeRecord } from './income';
+import { readXlsx } from './xlsx';
+
+export type ImportRecordType = 'income' | 'expense';
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+export type ImportDecimalFormat = 'dot' | 'comma';
+
+// Largest accepted file and number of data rows in one import
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+// Multer instance keeping the uploaded file in memory; it is parsed and never stored
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: 1
+  }
+});
+
+// Fields a spreadsheet column can be mapped to for each record type (date and amount are required)
+export const IMPORT_FIELDS: Record<ImportRecordType, string[]> = {
+  income: ['date', 'amount', 'description', 'category', 'source', 'account'],
+  expense: ['date', 'amount', 'description', 'category', 'payment_method', 'account']
+};
+
+export interface ImportOptions {
+  record_type: ImportRecordType;
+  // Data rows of the file, without the header row
+  rows: string[][];
+  // Column index for each mapped field
+  mapping: Record<string, number>;
+  date_format: ImportDateFormat;
+  decimal_format: ImportDecimalFormat;
+  // Values used when a field is not mapped or its cell is empty
+  defaults?: {
+    category?: string;
+    payment_method?: string;
+    account_id?: number | null;
+  };
+}
+
+export interface ImportPreviewRow {
+  // Row in the spreadsheet, counting the header as row 1
+  row_number: number;
+  values: Record<string, any>;
+  errors: string[];
+}
+
+// Rules of the regular create endpoints, without the middleware that sends the 400 response
+const IMPORT_VALIDATORS: Record<ImportRecordType, ValidationChain[]> = {
+  income: validateIncome.filter((validator): validator is ValidationChain => 'run' in validator),
+  expense: validateExpense.filter((validator): validator is ValidationChain => 'run' in validator)
+};
+
+// Split CSV text into rows, detecting a comma, semicolon or tab delimiter from the first line
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Header and data rows of an uploaded .csv or .xlsx file
+export const parseImportFile = (data: Buffer, fileName: string): { headers: string[]; rows: string[][] } => {
+  const extension = path.extname(fileName).toLowerCase();
+  let table: string[][];
+
+  if (extension === '.xlsx') {
+    table = readXlsx(data);
+  } else if (extension === '.csv' || extension === '.txt') {
+    table = parseCsv(data.toString('utf8').replace(/^\uFEFF/, ''));
+  } else {
+    throw Object.assign(new Error('Only .csv and .xlsx files can be imported'), { status: 415 });
+  }
+
+  // Drop trailing blank rows
+  while (table.length > 0 && table[table.length - 1].every((cell) => cell.trim() === '')) {
+    table.pop();
+  }
+
+  if (table.length < 2) {
+    throw Object.assign(new Error('File must have a header row and at least one data row'), { status: 400 });
+  }
+
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    throw Object.assign(new Error(`Cannot import more than ${MAX_IMPORT_ROWS} rows at once`), { status: 400 });
+  }
+
+  return {
+    headers: table[0].map((header) => header.trim()),
+    rows: table.slice(1)
+  };
+};
+
+// YYYY-MM-DD for a date in the chosen format, or null if it isn't one. ISO dates
+// (as produced for date cells of .xlsx files) are accepted whatever the format.
+export const parseImportDate = (value: string, format: ImportDateFormat): string | null => {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    const parts = text.split(/[/.-]/);
+    if (format === 'YYYY-MM-DD' || parts.length !== 3 || !parts.every((part) => /^\d+$/.test(part))) {
+      return null;
+    }
+    [day, month, year] = format === 'DD/MM/YYYY'
+      ? [Number(parts[0]), Number(parts[1]), Number(parts[2])]
+      : [Number(parts[1]), Number(parts[0]), Number(parts[2])];
+    if (parts[2].length === 2) {
+      year += 2000;
+    }
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+};
+
+// Number text (e.g. "1234.50") for an amount written with the chosen decimal separator,
+// ignoring currency symbols and thousands separators; null if it isn't a number.
+// Amounts in parentheses are negative, as accounting exports write them.
+export const parseImportAmount = (value: string, format: ImportDecimalFormat): string | null => {
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[^\d.,-]/g, '');
+  text = format === 'comma'
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  return negative && !text.startsWith('-') ? `-${text}` : text;
+};
+
+// Map, convert and validate every data row. Rows that are entirely blank are skipped.
+export const buildImportPreview = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  options: ImportOptions
+): Promise<ImportPreviewRow[]> => {
+  const { record_type: recordType, rows, mapping, date_format: dateFormat, decimal_format: decimalFormat, defaults = {} } = options;
+
+  // Accounts can be given by name in the file
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name FROM accounts WHERE user_id = ?',
+    [userId]
+  ) as any[];
+  const accountIds = new Map<string, number>(
+    accounts.map((account: any) => [String(account.account_name).trim().toLowerCase(), account.id])
+  );
+
+  if (defaults.account_id && !accounts.some((account: any) => account.id === defaults.account_id)) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  const cell = (row: string[], field: string): string => {
+    const index = mapping[field];
+    return index === undefined || index === null ? '' : String(row[index] ?? '').trim();
+  };
+
+  const preview: ImportPreviewRow[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    if (row.every((value) => String(value ?? '').trim() === '')) {
+      continue;
+    }
+
+    const errors: string[] = [];
+    const invalidFields = new Set<string>();
+
+    const rawDate = cell(row, 'date');
+    const date = rawDate ? parseImportDate(rawDate, dateFormat) : null;
+    if (rawDate && !date) {
+      errors.push(`Date "${rawDate}" is not a valid ${dateFormat} date`);
+      invalidFields.add('date');
+    }
+
+    const rawAmount = cell(row, 'amount');
+    const amount = rawAmount ? parseImportAmount(rawAmount, decimalFormat) : null;
+    if (rawAmount && amount === null) {
+      errors.push(`Amount "${rawAmount}" is not a number`);
+      invalidFields.add('amount');
+    }
+
+    let accountId = defaults.account_id ?? null;
+    const accountName = cell(row, 'account');
+    if (accountName) {
+      accountId = accountIds.get(accountName.toLowerCase()) ?? null;
+      if (!accountId) {
+        errors.push(`Account "${accountName}" not found`);
+      }
+    }
+
+    const values: Record<string, any> = {
+      date: date ?? undefined,
+      amount: amount ?? undefined,
+      description: cell(row, 'description') || undefined,
+      category: cell(row, 'category') || defaults.category || undefined
+    };
+    if (recordType === 'income') {
+      values.source = cell(row, 'source') || undefined;
+    } else {
+      values.payment_method = cell(row, 'payment_method') || defaults.payment_method || 'Cash';
+    }
+
+    // Same rules as the create endpoints; conversion errors above already cover their field
+    const validationRequest: any = { body: values };
+    for (const validator of IMPORT_VALIDATORS[recordType]) {
+      await validator.run(validationRequest);
+    }
+    for (const error of validationResult(validationRequest).array()) {
+      const field = error.type === 'field' ? error.path : '';
+      if (!invalidFields.has(field)) {
+        errors.push(error.msg);
+        invalidFields.add(field);
+      }
+    }
+
+    preview.push({
+      row_number: index + 2,
+      values: { ...validationRequest.body, account_id: accountId },
+      errors
+    });
+  }
+
+  return preview;
+};
+
+// Create the records of the valid preview rows under a new import batch.
+// Runs inside the caller's transaction so the whole file is imported or nothing is.
+export const commitImport = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: ImportRecordType,
+  fileName: string | null,
+  rows: ImportPreviewRow[]
+) => {
+  const [batchResult] = await connection.execute(
+    'INSERT INTO import_batches (user_id, record_type, file_name) VALUES (?, ?, ?)',
+    [userId, recordType, fileName]
+  ) as any[];
+  const batchId = batchResult.insertId;
+
+  let totalAmount = 0;
+  for (const row of rows) {
+    const input = { ...row.values, import_batch_id: batchId } as any;
+    if (recordType === 'income') {
+      await createIncomeRecord(connection, userId, input);
+    } else {
+      await createExpenseRecord(connection, userId, input);
+    }
+    totalAmount += parseFloat(row.values.amount);
+  }
+
+  await connection.execute(
+    'UPDATE import_batches SET row_count = ?, total_amount = ? WHERE id = ?',
+    [rows.length, totalAmount, batchId]
+  );
+
+  const [batches] = await connection.execute('SELECT * FROM import_batches WHERE id = ?', [batchId]) as any[];
+  return batches[0];
+};
+
+// Delete every record created by an import batch, reversing their account, charity and
+// ledger effects, and mark the batch rolled back. Runs inside the caller's transaction.
+// Returns the batch, the number of records deleted and the attachment files to remove after commit.
+export const rollbackImportBatch = async (connection: PoolConnection, userId: number, batchId: number) => {
+  const [batches] = await connection.execute(
+    'SELECT * FROM import_batches WHERE id = ? AND user_id = ? FOR UPDATE',
+    [batchId, userId]
+  ) as any[];
+
+  if (batches.length === 0) {
+    throw Object.assign(new Error('Import batch not found'), { status: 404 });
+  }
+
+  const batch = batches[0];
+  if (batch.status === 'rolled_back') {
+    throw Object.assign(new Error('Import batch has already been rolled back'), { status: 400 });
+  }
+
+  const table = batch.record_type === 'income' ? 'income' : 'expenses';
+
+  // Paid charity has left an account; deleting the obligation would lose that payment
+  if (batch.record_type === 'income') {
+    const [paidCharity] = await connection.execute(
+      `SELECT COUNT(*) AS count
+       FROM charity c
+       JOIN income i ON c.income_id = i.id
+       WHERE i.import_batch_id = ? AND c.user_id = ? AND c.amount_paid > 0`,
+      [batchId, userId]
+    ) as any[];
+
+    if (paidCharity[0].count > 0) {
+      throw Object.assign(
+        new Error(`${paidCharity[0].count} charity record(s) from this import have payments recorded and cannot be removed`),
+        { status: 409 }
+      );
+    }
+  }
+
+  const [records] = await connection.execute(
+    `SELECT id, amount, account_id FROM ${table} WHERE import_batch_id = ? AND user_id = ?`,
+    [batchId, userId]
+  ) as any[];
+
+  const attachmentFiles: string[] = [];
+  for (const record of records) {
+    attachmentFiles.push(...(batch.record_type === 'income'
+      ? await deleteIncomeRecord(connection, userId, record)
+      : await deleteExpenseRecord(connection, userId, record)));
+  }
+
+  await connection.execute(
+    "UPDATE import_batches SET status = 'rolled_back', rolled_back_at = CURRENT_TIMESTAMP WHERE id = ?",
+    [batchId]
+  );
+
+  const [updated] = await connection.execute('SELECT * FROM import_batches WHERE id = ?', [batchId]) as any[];
+  return { batch: updated[0], deleted: records.length, attachmentFiles };
+};
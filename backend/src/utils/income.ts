@@ -0,0 +1,128 @@
+import { PoolConnection } from 'mysql2/promise';
+import { findUserAccount, adjustAccountBalance } from './accounts';
+import { resolveCharityRate, calculateCharityAmount } from './charity';
+import { detachRecordAttachments } from './attachments';
+import { syncJournalEntries, syncJournalEntry } from './ledger';
+import { linkRecordCategory } from './categories';
+import { detachRecordTags } from './tags';
+
+export interface IncomeInput {
+  amount: number | string;
+  description?: string | null;
+  category?: string;
+  source?: string | null;
+  account_id?: number | null;
+  date: string;
+  import_batch_id?: number | null;
+}
+
+// Record an income with its charity obligation, account credit and audit trail.
+// Used by POST /api/income and by recurring templates; runs inside the caller's transaction.
+export const createIncomeRecord = async (connection: PoolConnection, userId: number, input: IncomeInput) => {
+  const { amount, description = null, category = 'General', source = null, account_id = null, date, import_batch_id = null } = input;
+
+  // Check the receiving account belongs to user
+  if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  // Apply the charity rule in effect for this category on the income date
+  const charityRate = await resolveCharityRate(connection, userId, category, date);
+  const charityAmount = calculateCharityAmount(parseFloat(amount as string), charityRate);
+
+  // Insert income record with the rate it was charged at
+  const [incomeResult] = await connection.execute(
+    'INSERT INTO income (user_id, amount, description, category, source, account_id, date, charity_rate, charity_required, import_batch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, amount, description, category, source, account_id, date, charityRate, charityAmount, import_batch_id]
+  ) as any[];
+
+  const incomeId = incomeResult.insertId;
+
+  // Reference the category by ID (created if the name is new)
+  await linkRecordCategory(connection, userId, 'income', incomeId);
+
+  // Get the created income record
+  const [incomeRecords] = await connection.execute(
+    'SELECT * FROM income WHERE id = ?',
+    [incomeId]
+  ) as any[];
+
+  // Create charity record unless the category is exempt
+  if (charityAmount > 0) {
+    const [charityResult] = await connection.execute(
+      'INSERT INTO charity (user_id, income_id, amount_required, description) VALUES (?, ?, ?, ?)',
+      [userId, incomeId, charityAmount, `Charity for income: ${description || category}`]
+    ) as any[];
+
+    await syncJournalEntry(connection, userId, 'charity', charityResult.insertId);
+  }
+
+  // Credit the receiving account
+  await adjustAccountBalance(connection, userId, account_id, parseFloat(amount as string));
+
+  // Record transaction for audit trail
+  await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'income', incomeId, 'income', amount, `Income: ${description || category}`, account_id, date]
+  );
+
+  await syncJournalEntry(connection, userId, 'income', incomeId);
+
+  return {
+    income: incomeRecords[0],
+    charity_created: charityAmount > 0 ? {
+      amount_required: charityAmount,
+      charity_rate: charityRate,
+      status: 'pending'
+    } : null
+  };
+};
+
+// Delete an income with its charity records, account credit, audit trail and journal entries.
+// Used by DELETE /api/income/:id and import rollback; runs inside the caller's transaction.
+// Returns the stored names of detached attachments to remove once the transaction has committed.
+export const deleteIncomeRecord = async (
+  connection: PoolConnection,
+  userId: number,
+  income: { id: number; amount: number | string; account_id: number | null }
+): Promise<string[]> => {
+  // Delete attachments of the income and its charity records
+  const [charityRecords] = await connection.execute(
+    'SELECT id FROM charity WHERE income_id = ? AND user_id = ?',
+    [income.id, userId]
+  ) as any[];
+  const attachmentFiles = [
+    ...await detachRecordAttachments(connection, userId, 'income', [income.id]),
+    ...await detachRecordAttachments(connection, userId, 'charity', charityRecords.map((charity: any) => charity.id))
+  ];
+
+  // Delete the tag links of the income
+  await detachRecordTags(connection, userId, 'income', [income.id]);
+
+  // Delete related charity records
+  await connection.execute(
+    'DELETE FROM charity WHERE income_id = ? AND user_id = ?',
+    [income.id, userId]
+  );
+
+  // Reverse the credit on the receiving account
+  await adjustAccountBalance(connection, userId, income.account_id, -parseFloat(income.amount as string));
+
+  // Delete related transactions
+  await connection.execute(
+    'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+    [income.id, 'income', userId]
+  );
+
+  // Delete income record
+  await connection.execute(
+    'DELETE FROM income WHERE id = ? AND user_id = ?',
+    [income.id, userId]
+  );
+
+  // Remove the income and its charity obligation from the ledger
+  await syncJournalEntry(connection, userId, 'income', income.id);
+  await syncJournalEntries(connection, userId, 'charity', charityRecords.map((charity: any) => charity.id));
+
+  return attachmentFiles;
+};
@@ -0,0 +1,116 @@
+import { PoolConnection } from 'mysql2/promise';
+
+export type CostMethod = 'manual' | 'specific' | 'fifo' | 'average';
+
+export interface StockLot {
+  id: number;
+  unit_cost: number;
+  remaining: number;
+}
+
+// Quantities are DECIMAL(15,3), so anything below this is treated as zero
+const QUANTITY_EPSILON = 0.0005;
+
+// SQL expression for the unsold quantity of purchase `p`
+export const REMAINING_QUANTITY_SQL =
+  'p.quantity - COALESCE((SELECT SUM(sa.quantity) FROM sale_allocations sa WHERE sa.purchase_id = p.id), 0)';
+
+// Lock and return the user's purchase lots that still have stock, oldest first.
+// Pass a purchase ID to sell from one lot, or a purchase category to sell from all its lots.
+export const lockStockLots = async (
+  connection: PoolConnection,
+  userId: number,
+  source: { purchaseId?: number | null; category?: string | null }
+): Promise<StockLot[]> => {
+  const filter = source.purchaseId ? 'p.id = ?' : 'p.category = ?';
+
+  const [lots] = await connection.execute(
+    `SELECT p.id, p.unit_cost, ${REMAINING_QUANTITY_SQL} AS remaining
+     FROM purchases p
+     WHERE p.user_id = ? AND ${filter}
+     ORDER BY p.date, p.id
+     FOR UPDATE`,
+    [userId, source.purchaseId || source.category]
+  ) as any[];
+
+  return lots
+    .map((lot: any) => ({
+      id: lot.id,
+      unit_cost: parseFloat(lot.unit_cost),
+      remaining: parseFloat(lot.remaining)
+    }))
+    .filter((lot: StockLot) => lot.remaining > QUANTITY_EPSILON);
+};
+
+// Total unsold quantity across lots
+export const availableQuantity = (lots: StockLot[]): number => {
+  return lots.reduce((sum, lot) => sum + lot.remaining, 0);
+};
+
+// Whether the lots hold enough stock for a sale
+export const hasEnoughStock = (lots: StockLot[], quantity: number): boolean => {
+  return availableQuantity(lots) + QUANTITY_EPSILON >= quantity;
+};
+
+export interface StockAllocation {
+  purchase_id: number;
+  quantity: number;
+  unit_cost: number;
+}
+
+// Work out which lots a sale draws from and its cost of goods.
+// Lots are always drawn oldest first; with weighted average every unit is costed
+// at the average unit cost of the stock on hand instead of its own lot's cost.
+export const planStockAllocation = (
+  lots: StockLot[],
+  quantity: number,
+  method: CostMethod
+): { allocations: StockAllocation[]; cost: number } => {
+  const averageUnitCost = lots.reduce((sum, lot) => sum + lot.remaining * lot.unit_cost, 0) / availableQuantity(lots);
+  const allocations: StockAllocation[] = [];
+
+  let remainingToSell = quantity;
+  let cost = 0;
+
+  for (const lot of lots) {
+    if (remainingToSell <= QUANTITY_EPSILON) break;
+
+    const taken = Math.min(lot.remaining, remainingToSell);
+    const unitCost = method === 'average' ? averageUnitCost : lot.unit_cost;
+
+    allocations.push({ purchase_id: lot.id, quantity: taken, unit_cost: unitCost });
+    cost += taken * unitCost;
+    remainingToSell -= taken;
+  }
+
+  return { allocations, cost: Math.round(cost * 100) / 100 };
+};
+
+// Record the stock a sale consumed
+export const saveStockAllocations = async (
+  connection: PoolConnection,
+  saleId: number,
+  allocations: StockAllocation[]
+): Promise<void> => {
+  for (const allocation of allocations) {
+    await connection.execute(
+      'INSERT INTO sale_allocations (sale_id, purchase_id, quantity, unit_cost) VALUES (?, ?, ?, ?)',
+      [saleId, allocation.purchase_id, allocation.quantity, allocation.unit_cost]
+    );
+  }
+};
+
+// Return a sale's stock to the purchase lots it was taken from
+export const releaseSaleStock = async (connection: PoolConnection, saleId: number): Promise<void> => {
+  await connection.execute('DELETE FROM sale_allocations WHERE sale_id = ?', [saleId]);
+};
+
+// Quantity of a purchase that has already been sold
+export const soldQuantity = async (connection: PoolConnection, purchaseId: number): Promise<number> => {
+  const [rows] = await connection.execute(
+    'SELECT COALESCE(SUM(quantity), 0) AS sold FROM sale_allocations WHERE purchase_id = ?',
+    [purchaseId]
+  ) as any[];
+
+  return parseFloat(rows[0].sold);
+};
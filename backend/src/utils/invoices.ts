@@ -0,0 +1,475 @@
+import fs from 'fs';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { getAttachmentPath } from './attachments';
+import { parseDate, toDateString } from './dates';
+import { formatAmount } from './pdf';
+import { createIncomeRecord, deleteIncomeRecord } from './income';
+import { createSaleRecord, deleteSaleRecord } from './sales';
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'void';
+
+export interface InvoiceItemInput {
+  description: string;
+  purchase_category?: string | null;
+  quantity: number | string;
+  unit_price: number | string;
+  discount_percent?: number | string | null;
+  tax_rate?: number | string | null;
+}
+
+export interface InvoicePaymentInput {
+  paid_date: string;
+  payment_method: string;
+  account_id?: number | null;
+}
+
+// Everything needed to print an invoice: the invoice with its lines and customer details,
+// who it is from and the logo file, if one has been uploaded
+export interface InvoiceDocument {
+  invoice: any;
+  settings: any;
+  business: { name: string; email: string | null };
+  logo: { data: Buffer; mimeType: string } | null;
+}
+
+// Columns returned for an invoice, with the customer's current details and the receiving account
+export const INVOICE_SELECT = `
+  SELECT
+    i.id, i.invoice_number, i.customer_id, i.customer_name, i.issue_date, i.due_date, i.status,
+    i.subtotal, i.discount_total, i.tax_total, i.total, i.notes, i.sent_at, i.paid_date,
+    i.payment_method, i.account_id, i.income_id, i.created_at, i.updated_at,
+    c.contact AS customer_contact, c.email AS customer_email, c.address AS customer_address,
+    c.tax_id AS customer_tax_id,
+    a.account_name
+  FROM invoices i
+  LEFT JOIN customers c ON i.customer_id = c.id
+  LEFT JOIN accounts a ON i.account_id = a.id
+`;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Amounts for one line: the discount comes off the quantity times price, and tax is charged
+// on what is left
+export const calculateInvoiceLine = (item: InvoiceItemInput) => {
+  const lineSubtotal = roundMoney(parseFloat(item.quantity as string) * parseFloat(item.unit_price as string));
+  const discountAmount = roundMoney(lineSubtotal * (parseFloat(item.discount_percent as string) || 0) / 100);
+  const taxAmount = roundMoney((lineSubtotal - discountAmount) * (parseFloat(item.tax_rate as string) || 0) / 100);
+
+  return {
+    line_subtotal: lineSubtotal,
+    discount_amount: discountAmount,
+    tax_amount: taxAmount,
+    line_total: roundMoney(lineSubtotal - discountAmount + taxAmount)
+  };
+};
+
+// Number as printed, e.g. INV-0042
+export const formatInvoiceNumber = (prefix: string, number: number): string => {
+  return `${prefix}${String(number).padStart(4, '0')}`;
+};
+
+// The user's invoice settings, created with the defaults the first time they are needed
+export const getInvoiceSettings = async (connection: Pool | PoolConnection, userId: number) => {
+  await connection.execute('INSERT IGNORE INTO invoice_settings (user_id) VALUES (?)', [userId]);
+
+  const [settings] = await connection.execute(
+    'SELECT * FROM invoice_settings WHERE user_id = ?',
+    [userId]
+  ) as any[];
+  return settings[0];
+};
+
+// Numbered documents, with the settings columns holding each one's prefix and next number
+const NUMBER_SEQUENCES = {
+  invoice: { table: 'invoices', column: 'invoice_number', prefix: 'number_prefix', next: 'next_number' },
+  quotation: { table: 'quotations', column: 'quote_number', prefix: 'quote_prefix', next: 'next_quote_number' }
+} as const;
+
+export type NumberedDocument = keyof typeof NUMBER_SEQUENCES;
+
+// Take the next number in the user's invoice or quotation sequence, skipping any already used
+// (e.g. after the prefix was changed back). Runs inside the caller's transaction, which holds
+// the settings row until it commits so two documents can't get the same number.
+export const assignDocumentNumber = async (
+  connection: PoolConnection,
+  userId: number,
+  document: NumberedDocument
+): Promise<string> => {
+  const sequence = NUMBER_SEQUENCES[document];
+  await getInvoiceSettings(connection, userId);
+
+  const [settings] = await connection.execute(
+    `SELECT ${sequence.prefix} AS prefix, ${sequence.next} AS next_number FROM invoice_settings WHERE user_id = ? FOR UPDATE`,
+    [userId]
+  ) as any[];
+
+  let nextNumber = settings[0].next_number;
+  let documentNumber = formatInvoiceNumber(settings[0].prefix, nextNumber);
+
+  for (;;) {
+    const [existing] = await connection.execute(
+      `SELECT id FROM ${sequence.table} WHERE user_id = ? AND ${sequence.column} = ?`,
+      [userId, documentNumber]
+    ) as any[];
+    if (existing.length === 0) break;
+
+    nextNumber += 1;
+    documentNumber = formatInvoiceNumber(settings[0].prefix, nextNumber);
+  }
+
+  await connection.execute(
+    `UPDATE invoice_settings SET ${sequence.next} = ? WHERE user_id = ?`,
+    [nextNumber + 1, userId]
+  );
+
+  return documentNumber;
+};
+
+// Replace the lines of an invoice and recalculate its totals. Runs inside the caller's transaction.
+export const setInvoiceItems = async (connection: PoolConnection, invoiceId: number, items: InvoiceItemInput[]) => {
+  await connection.execute('DELETE FROM invoice_items WHERE invoice_id = ?', [invoiceId]);
+
+  const totals = { subtotal: 0, discount_total: 0, tax_total: 0, total: 0 };
+
+  for (const [position, item] of items.entries()) {
+    const line = calculateInvoiceLine(item);
+
+    await connection.execute(`
+      INSERT INTO invoice_items
+      (invoice_id, position, description, purchase_category, quantity, unit_price, discount_percent, tax_rate,
+       line_subtotal, discount_amount, tax_amount, line_total)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      invoiceId, position, item.description, item.purchase_category || null, item.quantity, item.unit_price,
+      item.discount_percent || 0, item.tax_rate || 0,
+      line.line_subtotal, line.discount_amount, line.tax_amount, line.line_total
+    ]);
+
+    totals.subtotal += line.line_subtotal;
+    totals.discount_total += line.discount_amount;
+    totals.tax_total += line.tax_amount;
+    totals.total += line.line_total;
+  }
+
+  await connection.execute(
+    'UPDATE invoices SET subtotal = ?, discount_total = ?, tax_total = ?, total = ? WHERE id = ?',
+    [
+      roundMoney(totals.subtotal), roundMoney(totals.discount_total), roundMoney(totals.tax_total),
+      roundMoney(totals.total), invoiceId
+    ]
+  );
+};
+
+// An invoice with its lines, or null if it doesn't belong to the user
+export const getInvoice = async (connection: Pool | PoolConnection, userId: number, invoiceId: number) => {
+  const [invoices] = await connection.execute(`
+    ${INVOICE_SELECT}
+    WHERE i.id = ? AND i.user_id = ?
+  `, [invoiceId, userId]) as any[];
+
+  if (invoices.length === 0) {
+    return null;
+  }
+
+  const [items] = await connection.execute(
+    'SELECT * FROM invoice_items WHERE invoice_id = ? ORDER BY position, id',
+    [invoiceId]
+  ) as any[];
+
+  return { ...invoices[0], items };
+};
+
+// Record the money received for an invoice. Lines sold from stock become completed sales, so
+// their stock and cost of goods are taken as for any other sale; the remaining lines are
+// recorded together as one income. Tax is included in these amounts, as the app does not
+// track tax owed separately. Runs inside the caller's transaction.
+export const settleInvoice = async (
+  connection: PoolConnection,
+  userId: number,
+  invoice: any,
+  payment: InvoicePaymentInput
+) => {
+  const settings = await getInvoiceSettings(connection, userId);
+  const { paid_date, payment_method, account_id = null } = payment;
+
+  let incomeAmount = 0;
+  for (const item of invoice.items) {
+    if (!item.purchase_category) {
+      incomeAmount += parseFloat(item.line_total);
+      continue;
+    }
+
+    const saleId = await createSaleRecord(connection, userId, {
+      purchase_category: item.purchase_category,
+      quantity: item.quantity,
+      selling_price: item.line_total,
+      description: `${invoice.invoice_number}: ${item.description}`,
+      category: settings.sale_category,
+      customer_id: invoice.customer_id,
+      customer_name: invoice.customer_name,
+      payment_method,
+      account_id,
+      date: paid_date,
+      status: 'completed',
+      notes: `Invoice ${invoice.invoice_number}`
+    });
+
+    await connection.execute('UPDATE invoice_items SET sale_id = ? WHERE id = ?', [saleId, item.id]);
+  }
+
+  let incomeId: number | null = null;
+  if (roundMoney(incomeAmount) > 0) {
+    const { income } = await createIncomeRecord(connection, userId, {
+      amount: roundMoney(incomeAmount),
+      description: `Invoice ${invoice.invoice_number}`,
+      category: settings.income_category,
+      source: invoice.customer_name,
+      account_id,
+      date: paid_date
+    });
+    incomeId = income.id;
+  }
+
+  await connection.execute(`
+    UPDATE invoices
+    SET status = 'paid', paid_date = ?, payment_method = ?, account_id = ?, income_id = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND user_id = ?
+  `, [paid_date, payment_method, account_id, incomeId, invoice.id, userId]);
+};
+
+// Reverse the payment of an invoice: delete the sales and income it was settled into and put
+// it back to sent. Returns the attachment files to remove once the caller's transaction commits.
+export const unsettleInvoice = async (connection: PoolConnection, userId: number, invoice: any): Promise<string[]> => {
+  const attachmentFiles: string[] = [];
+
+  const [sales] = await connection.execute(
+    `SELECT s.id, s.selling_price, s.status, s.account_id
+     FROM invoice_items ii
+     JOIN sales s ON ii.sale_id = s.id
+     WHERE ii.invoice_id = ? AND s.user_id = ?`,
+    [invoice.id, userId]
+  ) as any[];
+
+  await connection.execute('UPDATE invoice_items SET sale_id = NULL WHERE invoice_id = ?', [invoice.id]);
+  for (const sale of sales) {
+    attachmentFiles.push(...await deleteSaleRecord(connection, userId, sale));
+  }
+
+  if (invoice.income_id) {
+    const [incomes] = await connection.execute(
+      'SELECT id, amount, account_id FROM income WHERE id = ? AND user_id = ?',
+      [invoice.income_id, userId]
+    ) as any[];
+
+    await connection.execute('UPDATE invoices SET income_id = NULL WHERE id = ?', [invoice.id]);
+    if (incomes.length > 0) {
+      attachmentFiles.push(...await deleteIncomeRecord(connection, userId, incomes[0]));
+    }
+  }
+
+  await connection.execute(`
+    UPDATE invoices
+    SET status = 'sent', paid_date = NULL, payment_method = NULL, account_id = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND user_id = ?
+  `, [invoice.id, userId]);
+
+  return attachmentFiles;
+};
+
+// Number of the invoice whose payment recorded a sale or income, or null if it was entered
+// directly. Such records are changed by undoing the invoice payment, not edited on their own.
+export const findSettlingInvoice = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  record: 'sale' | 'income',
+  recordId: number
+): Promise<string | null> => {
+  const [invoices] = await connection.execute(
+    record === 'sale'
+      ? `SELECT i.invoice_number FROM invoice_items ii JOIN invoices i ON ii.invoice_id = i.id
+         WHERE ii.sale_id = ? AND i.user_id = ? LIMIT 1`
+      : 'SELECT invoice_number FROM invoices WHERE income_id = ? AND user_id = ? LIMIT 1',
+    [recordId, userId]
+  ) as any[];
+
+  return invoices.length > 0 ? invoices[0].invoice_number : null;
+};
+
+// Read the user's uploaded logo, if it is still on disk
+export const readInvoiceLogo = async (settings: any): Promise<InvoiceDocument['logo']> => {
+  if (!settings.logo_stored_name) {
+    return null;
+  }
+
+  try {
+    const data = await fs.promises.readFile(getAttachmentPath(settings.logo_stored_name));
+    return { data, mimeType: settings.logo_mime_type };
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    return null;
+  }
+};
+
+// Gather an invoice for printing; returns null if it doesn't belong to the user
+export const loadInvoiceDocument = async (connection: Pool | PoolConnection, userId: number, invoiceId: number): Promise<InvoiceDocument | null> => {
+  const invoice = await getInvoice(connection, userId, invoiceId);
+  if (!invoice) {
+    return null;
+  }
+
+  const settings = await getInvoiceSettings(connection, userId);
+  const [users] = await connection.execute(
+    'SELECT full_name, business_name, email FROM users WHERE id = ?',
+    [userId]
+  ) as any[];
+
+  return {
+    invoice,
+    settings,
+    business: {
+      name: users.length > 0 ? users[0].business_name || users[0].full_name : 'My Business',
+      email: users.length > 0 ? users[0].email : null
+    },
+    logo: await readInvoiceLogo(settings)
+  };
+};
+
+// Title printed on an invoice; drafts have no number yet
+export const invoiceTitle = (invoice: any): string => {
+  if (!invoice.invoice_number) {
+    return 'Draft Invoice';
+  }
+  return invoice.status === 'void' ? `Invoice ${invoice.invoice_number} (Void)` : `Invoice ${invoice.invoice_number}`;
+};
+
+export const formatInvoiceDate = (date: string | Date | null | undefined): string => {
+  return date ? toDateString(parseDate(date)) : '';
+};
+
+const escapeHtml = (value: unknown): string => {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Multi-line text (addresses, notes) with its line breaks kept
+const escapeLines = (value: unknown): string => escapeHtml(value).replace(/\r?\n/g, '<br>');
+
+// A standalone, printable HTML page for an invoice. The logo is embedded so the page works
+// when saved or opened outside the app.
+export const buildInvoiceHtml = ({ invoice, settings, business, logo }: InvoiceDocument): string => {
+  const title = invoiceTitle(invoice);
+  const logoHtml = logo
+    ? `<img class="logo" src="data:${escapeHtml(logo.mimeType)};base64,${logo.data.toString('base64')}" alt="">`
+    : '';
+
+  const customerLines = [
+    invoice.customer_address ? escapeLines(invoice.customer_address) : '',
+    invoice.customer_contact ? escapeHtml(invoice.customer_contact) : '',
+    invoice.customer_email ? escapeHtml(invoice.customer_email) : '',
+    invoice.customer_tax_id ? `Tax ID: ${escapeHtml(invoice.customer_tax_id)}` : ''
+  ].filter(Boolean);
+
+  const rows = invoice.items.map((item: any) => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${escapeHtml(parseFloat(item.quantity))}</td>
+          <td class="num">${formatAmount(item.unit_price)}</td>
+          <td class="num">${parseFloat(item.discount_percent) ? `${escapeHtml(parseFloat(item.discount_percent))}%` : ''}</td>
+          <td class="num">${parseFloat(item.tax_rate) ? `${escapeHtml(parseFloat(item.tax_rate))}%` : ''}</td>
+          <td class="num">${formatAmount(item.line_total)}</td>
+        </tr>`).join('');
+
+  const totals: [string, string][] = [['Subtotal', formatAmount(invoice.subtotal)]];
+  if (parseFloat(invoice.discount_total) > 0) {
+    totals.push(['Discount', `-${formatAmount(invoice.discount_total)}`]);
+  }
+  if (parseFloat(invoice.tax_total) > 0) {
+    totals.push(['Tax', formatAmount(invoice.tax_total)]);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 0; padding: 40px; }
+    .page { max-width: 800px; margin: 0 auto; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #111; padding-bottom: 16px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    h2 { font-size: 16px; margin: 0; color: #444; }
+    .logo { max-width: 180px; max-height: 70px; }
+    .muted { color: #666; }
+    .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+    .label { font-size: 11px; text-transform: uppercase; color: #666; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px 6px; border-bottom: 1px solid #ddd; text-align: left; font-size: 13px; }
+    th { font-size: 11px; text-transform: uppercase; color: #444; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-left: auto; width: 280px; margin-top: 16px; }
+    .totals td { border: none; padding: 4px 6px; }
+    .totals .grand td { border-top: 2px solid #111; font-weight: bold; font-size: 15px; }
+    .status { display: inline-block; margin-top: 8px; padding: 2px 8px; border: 1px solid #999; border-radius: 4px; font-size: 11px; text-transform: uppercase; }
+    .notes { margin-top: 32px; font-size: 13px; }
+    footer { margin-top: 40px; padding-top: 12px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+    @media print { body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <header>
+      <div>
+        <h1>${escapeHtml(business.name)}</h1>
+        ${business.email ? `<div class="muted">${escapeHtml(business.email)}</div>` : ''}
+      </div>
+      ${logoHtml}
+    </header>
+
+    <div class="parties">
+      <div>
+        <div class="label">Bill to</div>
+        <strong>${escapeHtml(invoice.customer_name)}</strong>
+        ${customerLines.map((line) => `<div>${line}</div>`).join('\n        ')}
+      </div>
+      <div class="num">
+        <h2>${escapeHtml(title)}</h2>
+        <div>Issued ${escapeHtml(formatInvoiceDate(invoice.issue_date))}</div>
+        <div>Due ${escapeHtml(formatInvoiceDate(invoice.due_date))}</div>
+        ${invoice.status === 'paid' ? `<div>Paid ${escapeHtml(formatInvoiceDate(invoice.paid_date))}</div>` : ''}
+        <span class="status">${escapeHtml(invoice.status)}</span>
+      </div>
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th class="num">Qty</th>
+          <th class="num">Unit price</th>
+          <th class="num">Discount</th>
+          <th class="num">Tax</th>
+          <th class="num">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+
+    <table class="totals">
+      ${totals.map(([label, value]) => `<tr><td>${label}</td><td class="num">${value}</td></tr>`).join('\n      ')}
+      <tr class="grand"><td>Total</td><td class="num">${formatAmount(invoice.total)}</td></tr>
+    </table>
+
+    ${invoice.notes ? `<div class="notes"><div class="label">Notes</div>${escapeLines(invoice.notes)}</div>` : ''}
+    ${settings.footer ? `<footer>${escapeLines(settings.footer)}</footer>` : ''}
+  </div>
+</body>
+</html>
+`;
+};
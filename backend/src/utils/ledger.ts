@@ -0,0 +1,628 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { parseDate, toDateString } from './dates';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+// Records that generate a journal entry, keyed by the id of the row they come from.
+// Transfers, charity payments and loan payments are keyed by their transactions row.
+export type JournalSource =
+  | 'income'
+  | 'charity'
+  | 'charity_payment'
+  | 'expense'
+  | 'purchase'
+  | 'sale'
+  | 'sale_payment'
+  | 'bill'
+  | 'bill_payment'
+  | 'transfer'
+  | 'loan'
+  | 'loan_payment';
+
+// Manual balance changes on a cash/bank account (opening balances, edits) are kept as
+// adjustment entries against owner's equity; they have no source record to rebuild from.
+export const ADJUSTMENT_SOURCE = 'adjustment';
+
+// Standard chart of accounts, created for each user the first time it is needed
+export const SYSTEM_ACCOUNTS = {
+  cash_on_hand: { code: '1000', name: 'Cash on Hand', type: 'asset' },
+  inventory: { code: '1200', name: 'Inventory', type: 'asset' },
+  loans_receivable: { code: '1300', name: 'Loans Receivable', type: 'asset' },
+  transfers_in_transit: { code: '1900', name: 'Transfers in Transit', type: 'asset' },
+  loans_payable: { code: '2000', name: 'Loans Payable', type: 'liability' },
+  charity_payable: { code: '2100', name: 'Charity Payable', type: 'liability' },
+  customer_deposits: { code: '2200', name: 'Customer Deposits', type: 'liability' },
+  accounts_payable: { code: '2300', name: 'Accounts Payable', type: 'liability' },
+  owner_equity: { code: '3000', name: "Owner's Equity", type: 'equity' },
+  income: { code: '4000', name: 'Income', type: 'income' },
+  sales_revenue: { code: '4100', name: 'Sales Revenue', type: 'income' },
+  interest_income: { code: '4200', name: 'Interest Income', type: 'income' },
+  cost_of_goods_sold: { code: '5000', name: 'Cost of Goods Sold', type: 'expense' },
+  operating_expenses: { code: '5100', name: 'Operating Expenses', type: 'expense' },
+  interest_expense: { code: '5200', name: 'Interest Expense', type: 'expense' },
+  charity_expense: { code: '5300', name: 'Charity', type: 'expense' }
+} as const;
+
+export type SystemAccountKey = keyof typeof SYSTEM_ACCOUNTS;
+
+// Cash and bank accounts each get their own asset account, e.g. 1100-7
+const moneyAccountCode = (accountId: number) => `1100-${accountId}`;
+
+// A journal line: the ledger account and a signed amount (positive debit, negative credit)
+interface JournalLine {
+  account: SystemAccountKey | { moneyAccountId: number | null };
+  amount: number;
+}
+
+interface JournalDraft {
+  date: string | Date;
+  description: string;
+  lines: JournalLine[];
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const money = (accountId: number | null | undefined) => ({ moneyAccountId: accountId || null });
+
+// Find or create one of the standard ledger accounts
+export const getSystemLedgerAccountId = async (
+  connection: PoolConnection,
+  userId: number,
+  key: SystemAccountKey
+): Promise<number> => {
+  const { code, name, type } = SYSTEM_ACCOUNTS[key];
+
+  await connection.execute(
+    'INSERT IGNORE INTO ledger_accounts (user_id, code, name, account_type) VALUES (?, ?, ?, ?)',
+    [userId, code, name, type]
+  );
+
+  const [accounts] = await connection.execute(
+    'SELECT id FROM ledger_accounts WHERE user_id = ? AND code = ?',
+    [userId, code]
+  ) as any[];
+
+  return accounts[0].id;
+};
+
+// Find or create the ledger account for a cash/bank account. Records without an
+// account (or whose account was deleted) post to Cash on Hand.
+export const getMoneyLedgerAccountId = async (
+  connection: PoolConnection,
+  userId: number,
+  accountId: number | null
+): Promise<number> => {
+  if (!accountId) {
+    return getSystemLedgerAccountId(connection, userId, 'cash_on_hand');
+  }
+
+  const [accounts] = await connection.execute(
+    'SELECT account_name FROM accounts WHERE id = ? AND user_id = ?',
+    [accountId, userId]
+  ) as any[];
+
+  if (accounts.length === 0) {
+    return getSystemLedgerAccountId(connection, userId, 'cash_on_hand');
+  }
+
+  await connection.execute(
+    `INSERT INTO ledger_accounts (user_id, code, name, account_type, account_id) VALUES (?, ?, ?, 'asset', ?)
+     ON DUPLICATE KEY UPDATE name = VALUES(name), account_id = VALUES(account_id)`,
+    [userId, moneyAccountCode(accountId), accounts[0].account_name, accountId]
+  );
+
+  const [ledgerAccounts] = await connection.execute(
+    'SELECT id FROM ledger_accounts WHERE user_id = ? AND code = ?',
+    [userId, moneyAccountCode(accountId)]
+  ) as any[];
+
+  return ledgerAccounts[0].id;
+};
+
+// Write a journal entry. Lines on the same account are combined, zero lines dropped,
+// and the entry is refused unless its debits equal its credits.
+const postJournalEntry = async (
+  connection: PoolConnection,
+  userId: number,
+  sourceType: string,
+  sourceId: number | null,
+  draft: JournalDraft
+) => {
+  const amounts = new Map<number, number>();
+  for (const line of draft.lines) {
+    const ledgerAccountId = typeof line.account === 'string'
+      ? await getSystemLedgerAccountId(connection, userId, line.account)
+      : await getMoneyLedgerAccountId(connection, userId, line.account.moneyAccountId);
+    amounts.set(ledgerAccountId, roundMoney((amounts.get(ledgerAccountId) || 0) + line.amount));
+  }
+
+  const lines = [...amounts.entries()].filter(([, amount]) => amount !== 0);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const imbalance = roundMoney(lines.reduce((sum, [, amount]) => sum + amount, 0));
+  if (imbalance !== 0) {
+    throw new Error(`Unbalanced journal entry for ${sourceType} ${sourceId}: debits and credits differ by ${imbalance}`);
+  }
+
+  const [entryResult] = await connection.execute(
+    'INSERT INTO journal_entries (user_id, entry_date, description, source_type, source_id) VALUES (?, ?, ?, ?, ?)',
+    [userId, toDateString(parseDate(draft.date)), draft.description.slice(0, 255), sourceType, sourceId]
+  ) as any[];
+
+  for (const [ledgerAccountId, amount] of lines) {
+    await connection.execute(
+      'INSERT INTO journal_lines (entry_id, ledger_account_id, debit, credit) VALUES (?, ?, ?, ?)',
+      [entryResult.insertId, ledgerAccountId, amount > 0 ? amount : 0, amount < 0 ? -amount : 0]
+    );
+  }
+
+  return entryResult.insertId;
+};
+
+const selectOne = async (connection: PoolConnection, sql: string, params: any[]) => {
+  const [rows] = await connection.execute(sql, params) as any[];
+  return rows.length > 0 ? rows[0] : null;
+};
+
+// Work out the journal entry a source record should have, or null if it has none
+// (deleted, pending/cancelled sale, zero amount).
+const draftJournalEntry = async (
+  connection: PoolConnection,
+  userId: number,
+  source: JournalSource,
+  sourceId: number
+): Promise<JournalDraft | null> => {
+  switch (source) {
+    case 'income': {
+      const income = await selectOne(connection,
+        'SELECT amount, description, category, account_id, date FROM income WHERE id = ? AND user_id = ?',
+        [sourceId, userId]);
+      if (!income) return null;
+
+      const amount = parseFloat(income.amount);
+      return {
+        date: income.date,
+        description: `Income: ${income.description || income.category}`,
+        lines: [
+          { account: money(income.account_id), amount },
+          { account: 'income', amount: -amount }
+        ]
+      };
+    }
+
+    case 'charity': {
+      const charity = await selectOne(connection,
+        `SELECT c.amount_required, c.description, c.created_at, i.date AS income_date
+         FROM charity c LEFT JOIN income i ON c.income_id = i.id
+         WHERE c.id = ? AND c.user_id = ?`,
+        [sourceId, userId]);
+      if (!charity) return null;
+
+      const amount = parseFloat(charity.amount_required);
+      return {
+        date: charity.income_date || charity.created_at,
+        description: charity.description || 'Charity obligation',
+        lines: [
+          { account: 'charity_expense', amount },
+          { account: 'charity_payable', amount: -amount }
+        ]
+      };
+    }
+
+    case 'charity_payment': {
+      const payment = await selectOne(connection,
+        `SELECT amount, description, date FROM transactions
+         WHERE id = ? AND user_id = ? AND transaction_type = 'charity'`,
+        [sourceId, userId]);
+      if (!payment) return null;
+
+      const amount = parseFloat(payment.amount);
+      return {
+        date: payment.date,
+        description: payment.description || 'Charity payment',
+        lines: [
+          { account: 'charity_payable', amount },
+          { account: money(null), amount: -amount }
+        ]
+      };
+    }
+
+    case 'expense': {
+      const expense = await selectOne(connection,
+        'SELECT amount, description, category, account_id, date FROM expenses WHERE id = ? AND user_id = ?',
+        [sourceId, userId]);
+      if (!expense) return null;
+
+      const amount = parseFloat(expense.amount);
+      return {
+        date: expense.date,
+        description: `Expense: ${expense.description || expense.category}`,
+        lines: [
+          { account: 'operating_expenses', amount },
+          { account: money(expense.account_id), amount: -amount }
+        ]
+      };
+    }
+
+    case 'purchase': {
+      const purchase = await selectOne(connection,
+        'SELECT amount, description, category, account_id, date FROM purchases WHERE id = ? AND user_id = ?',
+        [sourceId, userId]);
+      if (!purchase) return null;
+
+      const amount = parseFloat(purchase.amount);
+      return {
+        date: purchase.date,
+        description: `Purchase: ${purchase.description || purchase.category}`,
+        lines: [
+          { account: 'inventory', amount },
+          { account: money(purchase.account_id), amount: -amount }
+        ]
+      };
+    }
+
+    case 'sale': {
+      // Only completed sales have been paid for and taken out of stock. Part-payments taken
+      // while the sale was pending were held as customer deposits; the rest is received now.
+      const sale = await selectOne(connection,
+        `SELECT amount, selling_price, description, category, account_id, date,
+          (SELECT COALESCE(SUM(sp.amount), 0) FROM sale_payments sp WHERE sp.sale_id = sales.id) AS amount_paid
+         FROM sales
+         WHERE id = ? AND user_id = ? AND status = 'completed'`,
+        [sourceId, userId]);
+      if (!sale) return null;
+
+      const revenue = parseFloat(sale.selling_price);
+      const cost = parseFloat(sale.amount);
+      const paid = parseFloat(sale.amount_paid);
+      return {
+        date: sale.date,
+        description: `Sale: ${sale.description || sale.category || 'Sale transaction'}`,
+        lines: [
+          { account: money(sale.account_id), amount: roundMoney(revenue - paid) },
+          { account: 'customer_deposits', amount: paid },
+          { account: 'sales_revenue', amount: -revenue },
+          { account: 'cost_of_goods_sold', amount: cost },
+          { account: 'inventory', amount: -cost }
+        ]
+      };
+    }
+
+    case 'sale_payment': {
+      // Money received against a pending sale, held until the sale completes
+      const payment = await selectOne(connection,
+        `SELECT sp.amount, sp.payment_date, sp.account_id, s.customer_name, s.description
+         FROM sale_payments sp JOIN sales s ON s.id = sp.sale_id
+         WHERE sp.id = ? AND sp.user_id = ?`,
+        [sourceId, userId]);
+      if (!payment) return null;
+
+      const amount = parseFloat(payment.amount);
+      return {
+        date: payment.payment_date,
+        description: `Payment received${payment.customer_name ? ` from ${payment.customer_name}` : ''}: ${payment.description || 'Sale'}`,
+        lines: [
+          { account: money(payment.account_id), amount },
+          { account: 'customer_deposits', amount: -amount }
+        ]
+      };
+    }
+
+    case 'bill': {
+      // A vendor's bill is an expense from the bill date, owed until its payments settle it
+      const bill = await selectOne(connection,
+        `SELECT b.amount, b.bill_date, b.bill_number, b.description, b.category, v.name AS vendor_name
+         FROM bills b JOIN vendors v ON v.id = b.vendor_id
+         WHERE b.id = ? AND b.user_id = ? AND b.status != 'cancelled'`,
+        [sourceId, userId]);
+      if (!bill) return null;
+
+      const amount = parseFloat(bill.amount);
+      return {
+        date: bill.bill_date,
+        description: `Bill${bill.bill_number ? ` ${bill.bill_number}` : ''} from ${bill.vendor_name}: ${bill.description || bill.category || 'Bill'}`,
+        lines: [
+          { account: 'operating_expenses', amount },
+          { account: 'accounts_payable', amount: -amount }
+        ]
+      };
+    }
+
+    case 'bill_payment': {
+      // Money paid towards a bill settles what is owed to the vendor
+      const payment = await selectOne(connection,
+        `SELECT bp.amount, bp.payment_date, bp.account_id, b.bill_number, v.name AS vendor_name
+         FROM bill_payments bp JOIN bills b ON b.id = bp.bill_id JOIN vendors v ON v.id = b.vendor_id
+         WHERE bp.id = ? AND bp.user_id = ?`,
+        [sourceId, userId]);
+      if (!payment) return null;
+
+      const amount = parseFloat(payment.amount);
+      return {
+        date: payment.payment_date,
+        description: `Bill payment to ${payment.vendor_name}${payment.bill_number ? `: ${payment.bill_number}` : ''}`,
+        lines: [
+          { account: 'accounts_payable', amount },
+          { account: money(payment.account_id), amount: -amount }
+        ]
+      };
+    }
+
+    case 'transfer': {
+      // A transfer is keyed by its outgoing (negative) row; the incoming row references it.
+      // Older transfers have two unlinked rows, each posted against Transfers in Transit.
+      const transfer = await selectOne(connection,
+        `SELECT id, amount, description, account_id, date, reference_id, reference_table FROM transactions
+         WHERE id = ? AND user_id = ? AND transaction_type = 'transfer'`,
+        [sourceId, userId]);
+      if (!transfer) return null;
+
+      const amount = parseFloat(transfer.amount);
+      if (amount > 0 && transfer.reference_table === 'transactions') {
+        return null;
+      }
+
+      if (amount > 0) {
+        return {
+          date: transfer.date,
+          description: transfer.description || 'Transfer',
+          lines: [
+            { account: money(transfer.account_id), amount },
+            { account: 'transfers_in_transit', amount: -amount }
+          ]
+        };
+      }
+
+      const incoming = await selectOne(connection,
+        `SELECT account_id FROM transactions
+         WHERE user_id = ? AND transaction_type = 'transfer' AND reference_table = 'transactions' AND reference_id = ?`,
+        [userId, sourceId]);
+
+      return {
+        date: transfer.date,
+        description: (transfer.description || 'Transfer').replace(/ \(Debit\)$/, ''),
+        lines: [
+          { account: incoming ? money(incoming.account_id) : 'transfers_in_transit', amount: -amount },
+          { account: money(transfer.account_id), amount }
+        ]
+      };
+    }
+
+    case 'loan': {
+      // The money borrowed comes in (or the money lent goes out) when the loan starts
+      const loan = await selectOne(connection,
+        'SELECT direction, lender_name, borrower_name, principal_amount, start_date FROM loans WHERE id = ? AND user_id = ?',
+        [sourceId, userId]);
+      if (!loan) return null;
+
+      const principal = parseFloat(loan.principal_amount);
+      if (loan.direction === 'receivable') {
+        return {
+          date: loan.start_date,
+          description: `Loan to ${loan.borrower_name}`,
+          lines: [
+            { account: 'loans_receivable', amount: principal },
+            { account: money(null), amount: -principal }
+          ]
+        };
+      }
+
+      return {
+        date: loan.start_date,
+        description: `Loan from ${loan.lender_name}`,
+        lines: [
+          { account: money(null), amount: principal },
+          { account: 'loans_payable', amount: -principal }
+        ]
+      };
+    }
+
+    case 'loan_payment': {
+      // Payments recorded before interest was tracked count entirely as principal
+      const payment = await selectOne(connection,
+        `SELECT t.amount, t.description, t.date, l.direction,
+          lp.interest_amount, lp.principal_amount
+         FROM transactions t
+         JOIN loans l ON t.reference_id = l.id
+         LEFT JOIN loan_payments lp ON lp.transaction_id = t.id
+         WHERE t.id = ? AND t.user_id = ? AND t.transaction_type = 'loan_payment' AND t.reference_table = 'loans'`,
+        [sourceId, userId]);
+      if (!payment) return null;
+
+      const amount = parseFloat(payment.amount);
+      const interest = payment.interest_amount !== null ? parseFloat(payment.interest_amount) : 0;
+      const principal = roundMoney(amount - interest);
+
+      if (payment.direction === 'receivable') {
+        return {
+          date: payment.date,
+          description: payment.description || 'Loan repayment received',
+          lines: [
+            { account: money(null), amount },
+            { account: 'interest_income', amount: -interest },
+            { account: 'loans_receivable', amount: -principal }
+          ]
+        };
+      }
+
+      return {
+        date: payment.date,
+        description: payment.description || 'Loan payment',
+        lines: [
+          { account: 'interest_expense', amount: interest },
+          { account: 'loans_payable', amount: principal },
+          { account: money(null), amount: -amount }
+        ]
+      };
+    }
+  }
+};
+
+// Bring a record's journal entry in line with the record: the old entry is replaced by
+// one generated from the current row, or simply removed if the row no longer posts.
+// Call after creating, updating or deleting the record, inside the same transaction.
+export const syncJournalEntry = async (
+  connection: PoolConnection,
+  userId: number,
+  source: JournalSource,
+  sourceId: number
+) => {
+  await connection.execute(
+    'DELETE FROM journal_entries WHERE user_id = ? AND source_type = ? AND source_id = ?',
+    [userId, source, sourceId]
+  );
+
+  const draft = await draftJournalEntry(connection, userId, source, sourceId);
+  return draft ? postJournalEntry(connection, userId, source, sourceId, draft) : null;
+};
+
+export const syncJournalEntries = async (
+  connection: PoolConnection,
+  userId: number,
+  source: JournalSource,
+  sourceIds: number[]
+) => {
+  for (const sourceId of sourceIds) {
+    await syncJournalEntry(connection, userId, source, sourceId);
+  }
+};
+
+// Record a manual change to a cash/bank account balance against owner's equity
+export const postBalanceAdjustment = async (
+  connection: PoolConnection,
+  userId: number,
+  accountId: number,
+  delta: number,
+  description: string,
+  date: string | Date = new Date()
+) => {
+  return postJournalEntry(connection, userId, ADJUSTMENT_SOURCE, accountId, {
+    date,
+    description,
+    lines: [
+      { account: money(accountId), amount: delta },
+      { account: 'owner_equity', amount: -delta }
+    ]
+  });
+};
+
+// Source rows for every record type, used to regenerate the journal
+const SOURCE_QUERIES: { source: JournalSource; sql: string }[] = [
+  { source: 'income', sql: 'SELECT id FROM income WHERE user_id = ?' },
+  { source: 'charity', sql: 'SELECT id FROM charity WHERE user_id = ?' },
+  { source: 'charity_payment', sql: "SELECT id FROM transactions WHERE user_id = ? AND transaction_type = 'charity'" },
+  { source: 'expense', sql: 'SELECT id FROM expenses WHERE user_id = ?' },
+  { source: 'purchase', sql: 'SELECT id FROM purchases WHERE user_id = ?' },
+  { source: 'sale', sql: 'SELECT id FROM sales WHERE user_id = ?' },
+  { source: 'sale_payment', sql: 'SELECT id FROM sale_payments WHERE user_id = ?' },
+  { source: 'bill', sql: 'SELECT id FROM bills WHERE user_id = ?' },
+  { source: 'bill_payment', sql: 'SELECT id FROM bill_payments WHERE user_id = ?' },
+  { source: 'transfer', sql: "SELECT id FROM transactions WHERE user_id = ? AND transaction_type = 'transfer'" },
+  { source: 'loan', sql: 'SELECT id FROM loans WHERE user_id = ?' },
+  { source: 'loan_payment', sql: "SELECT id FROM transactions WHERE user_id = ? AND transaction_type = 'loan_payment'" }
+];
+
+// Stored balance of each cash/bank account next to its balance according to the journal
+export const getMoneyAccountLedgerBalances = async (connection: Pool | PoolConnection, userId: number) => {
+  const [rows] = await connection.execute(
+    `SELECT a.id, a.account_name, a.balance,
+      COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0) AS ledger_balance,
+      (SELECT COUNT(*) FROM journal_entries je2
+       WHERE je2.user_id = a.user_id AND je2.source_type = ? AND je2.source_id = a.id) AS adjustment_count
+     FROM accounts a
+     LEFT JOIN ledger_accounts la ON la.account_id = a.id AND la.user_id = a.user_id
+     LEFT JOIN journal_lines jl ON jl.ledger_account_id = la.id
+     WHERE a.user_id = ?
+     GROUP BY a.id, a.account_name, a.balance`,
+    [ADJUSTMENT_SOURCE, userId]
+  ) as any[];
+
+  return rows as { id: number; account_name: string; balance: string; ledger_balance: string; adjustment_count: number }[];
+};
+
+// Regenerate every record's journal entry, then make the journal the source of truth for
+// account balances. Accounts that have never had an opening adjustment (created before the
+// ledger existed) get one for the difference, so their current balances are kept; all other
+// account balances are reset to what the journal says.
+export const rebuildJournal = async (connection: PoolConnection, userId: number) => {
+  await connection.execute(
+    'DELETE FROM journal_entries WHERE user_id = ? AND source_type != ?',
+    [userId, ADJUSTMENT_SOURCE]
+  );
+
+  let entries = 0;
+  for (const { source, sql } of SOURCE_QUERIES) {
+    const [rows] = await connection.execute(sql, [userId]) as any[];
+    for (const row of rows) {
+      if (await syncJournalEntry(connection, userId, source, row.id)) {
+        entries++;
+      }
+    }
+  }
+
+  let openingAdjustments = 0;
+  let balancesCorrected = 0;
+  for (const account of await getMoneyAccountLedgerBalances(connection, userId)) {
+    const difference = roundMoney(parseFloat(account.balance) - parseFloat(account.ledger_balance));
+    if (difference === 0) {
+      continue;
+    }
+
+    if (Number(account.adjustment_count) === 0) {
+      await postBalanceAdjustment(connection, userId, account.id, difference, `Opening balance: ${account.account_name}`);
+      openingAdjustments++;
+    } else {
+      await connection.execute(
+        'UPDATE accounts SET balance = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [account.ledger_balance, account.id]
+      );
+      balancesCorrected++;
+    }
+  }
+
+  return { entries, opening_adjustments: openingAdjustments, balances_corrected: balancesCorrected };
+};
+
+// Debit/credit totals and balance of every ledger account up to a date
+export const getTrialBalance = async (connection: Pool | PoolConnection, userId: number, asOf: string) => {
+  const [rows] = await connection.execute(
+    `SELECT la.id, la.code, COALESCE(a.account_name, la.name) AS name, la.account_type,
+      COALESCE(SUM(CASE WHEN je.id IS NOT NULL THEN jl.debit END), 0) AS total_debit,
+      COALESCE(SUM(CASE WHEN je.id IS NOT NULL THEN jl.credit END), 0) AS total_credit
+     FROM ledger_accounts la
+     LEFT JOIN accounts a ON la.account_id = a.id
+     LEFT JOIN journal_lines jl ON jl.ledger_account_id = la.id
+     LEFT JOIN journal_entries je ON jl.entry_id = je.id AND je.entry_date <= ?
+     WHERE la.user_id = ?
+     GROUP BY la.id, la.code, la.name, a.account_name, la.account_type
+     ORDER BY la.code`,
+    [asOf, userId]
+  ) as any[];
+
+  const accounts = rows.map((row: any) => {
+    const net = roundMoney(parseFloat(row.total_debit) - parseFloat(row.total_credit));
+    return {
+      ...row,
+      total_debit: parseFloat(row.total_debit),
+      total_credit: parseFloat(row.total_credit),
+      debit_balance: net > 0 ? net : 0,
+      credit_balance: net < 0 ? -net : 0
+    };
+  });
+
+  const totalDebit = roundMoney(accounts.reduce((sum: number, account: any) => sum + account.debit_balance, 0));
+  const totalCredit = roundMoney(accounts.reduce((sum: number, account: any) => sum + account.credit_balance, 0));
+
+  return {
+    as_of: asOf,
+    accounts,
+    totals: {
+      debit: totalDebit,
+      credit: totalCredit,
+      difference: roundMoney(totalDebit - totalCredit),
+      balanced: totalDebit === totalCredit
+    }
+  };
+};
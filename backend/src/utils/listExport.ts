@@ -0,0 +1,93 @@
+import { Response } from 'express';
+import { parseDate, toDateString, todayString } from './dates';
+import { buildXlsx, XlsxCellType } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// A column that can be exported from a list endpoint. `key` is the field of the row
+// and the name clients pass in `columns=` to pick and order columns.
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: XlsxCellType;
+}
+
+// The requested columns in the order given (comma-separated keys), or every column.
+// Unknown keys are ignored; if none are known all columns are exported.
+export const selectExportColumns = (available: ExportColumn[], requested?: string): ExportColumn[] => {
+  if (!requested) {
+    return available;
+  }
+
+  const selected = requested
+    .split(',')
+    .map((key) => available.find((column) => column.key === key.trim()))
+    .filter((column): column is ExportColumn => Boolean(column));
+
+  return selected.length > 0 ? selected : available;
+};
+
+const exportValue = (value: any, type: XlsxCellType): string | number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  switch (type) {
+    case 'date':
+      return value instanceof Date || /^\d{4}-\d{2}-\d{2}/.test(String(value))
+        ? toDateString(parseDate(value))
+        : String(value);
+    case 'number':
+    case 'money':
+      return isNaN(parseFloat(value)) ? String(value) : parseFloat(value);
+    default:
+      return String(value);
+  }
+};
+
+// Quote a CSV field when needed. Text starting with a formula character is prefixed with
+// an apostrophe so spreadsheets don't evaluate it.
+export const csvField = (value: string | number | null, type: XlsxCellType): string => {
+  if (value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (type === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Send the rows as a CSV (UTF-8 with BOM so Excel detects the encoding) or .xlsx download,
+// named e.g. income_2024-05-01.csv
+export const sendExport = (
+  res: Response,
+  format: ExportFormat,
+  name: string,
+  columns: ExportColumn[],
+  rows: any[]
+) => {
+  const filename = `${name}_${todayString()}.${format}`;
+  const values = rows.map((row) => columns.map((column) => exportValue(row[column.key], column.type)));
+
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'xlsx') {
+    const sheetName = name.charAt(0).toUpperCase() + name.slice(1);
+    const workbook = buildXlsx(sheetName, columns, values);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Length', workbook.length);
+    res.send(workbook);
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.write('\uFEFF');
+  res.write(columns.map((column) => csvField(column.header, 'string')).join(',') + '\r\n');
+  for (const row of values) {
+    res.write(row.map((value, index) => csvField(value, columns[index].type)).join(',') + '\r\n');
+  }
+  res.end();
+};
@@ -0,0 +1,280 @@
+import { PoolConnection } from 'mysql2/promise';
+import { addMonths, daysBetween, parseDate } from './dates';
+import { syncJournalEntry } from './ledger';
+
+export interface LoanPaymentInput {
+  payment_amount: number | string;
+  payment_date: string;
+  description?: string | null;
+}
+
+export interface LoanTerms {
+  principal_amount: number | string;
+  interest_rate?: number | string | null;
+  monthly_payment?: number | string | null;
+  start_date: string | Date;
+  due_date?: string | Date | null;
+}
+
+export interface Instalment {
+  number: number;
+  due_date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+  status: 'paid' | 'partial' | 'overdue' | 'upcoming';
+}
+
+// Longest schedule generated (50 years of monthly payments)
+const MAX_INSTALMENTS = 600;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Monthly interest rate from an annual percentage
+const monthlyRate = (annualRate: number | string | null | undefined): number => {
+  return (parseFloat(annualRate as string) || 0) / 100 / 12;
+};
+
+// Interest accrued on a balance between two dates (actual/365)
+export const accrueInterest = (
+  balance: number,
+  annualRate: number | string | null | undefined,
+  fromDate: string | Date,
+  toDate: string | Date
+): number => {
+  const days = Math.max(0, daysBetween(fromDate, toDate));
+  return roundMoney(balance * ((parseFloat(annualRate as string) || 0) / 100) * (days / 365));
+};
+
+// Monthly instalment for a loan: the agreed monthly payment, or the level payment
+// that repays the principal by the due date. Null when neither is known.
+export const getInstalmentAmount = (loan: LoanTerms): number | null => {
+  const monthlyPayment = parseFloat(loan.monthly_payment as string);
+  if (monthlyPayment > 0) {
+    return monthlyPayment;
+  }
+
+  if (!loan.due_date) {
+    return null;
+  }
+
+  const start = parseDate(loan.start_date);
+  const due = parseDate(loan.due_date);
+  const months = (due.getUTCFullYear() - start.getUTCFullYear()) * 12 + due.getUTCMonth() - start.getUTCMonth();
+  if (months <= 0) {
+    return null;
+  }
+
+  const principal = parseFloat(loan.principal_amount as string);
+  const rate = monthlyRate(loan.interest_rate);
+  const payment = rate === 0 ? principal / months : (principal * rate) / (1 - Math.pow(1 + rate, -months));
+  return roundMoney(payment);
+};
+
+// Months, total interest and payoff date for repaying a balance with a fixed monthly payment.
+// Returns null if the payment never covers the monthly interest.
+export const simulatePayoff = (
+  balance: number,
+  annualRate: number | string | null | undefined,
+  payment: number,
+  firstPaymentDate: string
+): { months: number; total_interest: number; total_paid: number; payoff_date: string } | null => {
+  const rate = monthlyRate(annualRate);
+  let remaining = balance;
+  let months = 0;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  while (remaining > 0.005) {
+    const interest = roundMoney(remaining * rate);
+    if (payment <= interest || months >= MAX_INSTALMENTS) {
+      return null;
+    }
+
+    const amount = Math.min(payment, remaining + interest);
+    remaining = roundMoney(remaining + interest - amount);
+    totalInterest += interest;
+    totalPaid += amount;
+    months++;
+  }
+
+  return {
+    months,
+    total_interest: roundMoney(totalInterest),
+    total_paid: roundMoney(totalPaid),
+    payoff_date: addMonths(firstPaymentDate, Math.max(0, months - 1))
+  };
+};
+
+// Build a loan's amortization schedule from its original terms. Each instalment is
+// marked against the total actually paid so far, oldest first, so anything past its
+// due date that the payments don't cover is overdue.
+export const buildAmortizationSchedule = (loan: LoanTerms, totalPaid: number, today: string) => {
+  const payment = getInstalmentAmount(loan);
+  if (!payment) {
+    return null;
+  }
+
+  const rate = monthlyRate(loan.interest_rate);
+  const instalments: Instalment[] = [];
+  let balance = parseFloat(loan.principal_amount as string);
+  let cumulativeDue = 0;
+
+  for (let number = 1; balance > 0.005 && number <= MAX_INSTALMENTS; number++) {
+    const interest = roundMoney(balance * rate);
+    if (payment <= interest) {
+      return null;
+    }
+
+    const amount = roundMoney(Math.min(payment, balance + interest));
+    const principal = roundMoney(amount - interest);
+    balance = roundMoney(balance - principal);
+    cumulativeDue += amount;
+
+    const dueDate = addMonths(loan.start_date, number);
+    let status: Instalment['status'];
+    if (totalPaid + 0.005 >= cumulativeDue) {
+      status = 'paid';
+    } else if (dueDate < today) {
+      status = 'overdue';
+    } else if (totalPaid > cumulativeDue - amount) {
+      status = 'partial';
+    } else {
+      status = 'upcoming';
+    }
+
+    instalments.push({ number, due_date: dueDate, payment: amount, interest, principal, balance, status });
+  }
+
+  const overdue = instalments.filter((instalment) => instalment.status === 'overdue');
+  const dueToDate = instalments
+    .filter((instalment) => instalment.due_date < today)
+    .reduce((sum, instalment) => sum + instalment.payment, 0);
+  const nextDue = instalments.find((instalment) => instalment.status !== 'paid' && instalment.due_date >= today);
+
+  return {
+    instalment_amount: payment,
+    instalments,
+    summary: {
+      total_instalments: instalments.length,
+      total_payments: roundMoney(instalments.reduce((sum, instalment) => sum + instalment.payment, 0)),
+      total_interest: roundMoney(instalments.reduce((sum, instalment) => sum + instalment.interest, 0)),
+      payoff_date: instalments.length > 0 ? instalments[instalments.length - 1].due_date : null,
+      paid_to_date: roundMoney(totalPaid),
+      overdue_instalments: overdue.length,
+      overdue_amount: roundMoney(Math.max(0, dueToDate - totalPaid)),
+      next_due_date: nextDue ? nextDue.due_date : null,
+      next_due_amount: nextDue ? nextDue.payment : null
+    }
+  };
+};
+
+// Receipt numbers for repayments received on a receivable loan, e.g. RCT-12-0003
+const formatReceiptNumber = (loanId: number, sequence: number): string => {
+  return `RCT-${loanId}-${String(sequence).padStart(4, '0')}`;
+};
+
+// Record a payment against an active loan. For a receivable loan this is a repayment
+// received from the borrower and gets a receipt number. Interest accrued since the last payment
+// (or the loan start) is paid first and the rest reduces the balance; a payment
+// smaller than the interest adds the shortfall to the balance. The loan is closed
+// once the balance reaches zero.
+// Used by POST /api/loans/:id/payment and by recurring templates; runs inside the caller's transaction.
+export const recordLoanPayment = async (
+  connection: PoolConnection,
+  userId: number,
+  loanId: number,
+  input: LoanPaymentInput
+) => {
+  const { payment_amount, payment_date, description } = input;
+
+  // Get loan record
+  const [loans] = await connection.execute(
+    `SELECT id, direction, lender_name, borrower_name, current_balance, interest_rate, start_date, status
+     FROM loans WHERE id = ? AND user_id = ? FOR UPDATE`,
+    [loanId, userId]
+  ) as any[];
+
+  if (loans.length === 0) {
+    throw Object.assign(new Error('Loan not found'), { status: 404 });
+  }
+
+  const loan = loans[0];
+
+  if (loan.status !== 'active') {
+    throw Object.assign(new Error('Cannot make payments on inactive loans'), { status: 400 });
+  }
+
+  // Interest runs from the latest payment, or from the start of the loan
+  const [lastPayments] = await connection.execute(
+    'SELECT MAX(payment_date) AS last_payment_date, COUNT(*) AS payment_count FROM loan_payments WHERE loan_id = ?',
+    [loanId]
+  ) as any[];
+
+  const accruedFrom = lastPayments[0].last_payment_date || loan.start_date;
+  const currentBalance = parseFloat(loan.current_balance);
+  const amount = parseFloat(payment_amount as string);
+  const interest = accrueInterest(currentBalance, loan.interest_rate, accruedFrom, payment_date);
+  const payoffAmount = roundMoney(currentBalance + interest);
+
+  // Validate payment amount
+  if (amount > payoffAmount) {
+    throw Object.assign(new Error(`Payment amount cannot exceed the payoff amount of ${payoffAmount.toFixed(2)}`), { status: 400 });
+  }
+
+  // Calculate new balance
+  const principal = roundMoney(amount - interest);
+  const newBalance = roundMoney(currentBalance - principal);
+  const newStatus = newBalance <= 0 ? 'paid' : 'active';
+  const isReceivable = loan.direction === 'receivable';
+  const paymentDescription = description || (isReceivable
+    ? `Loan repayment from ${loan.borrower_name}`
+    : `Loan payment to ${loan.lender_name}`);
+  const receiptNumber = isReceivable ? formatReceiptNumber(loanId, Number(lastPayments[0].payment_count) + 1) : null;
+
+  // Update loan balance and status
+  await connection.execute(
+    'UPDATE loans SET current_balance = ?, status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [newBalance, newStatus, loanId]
+  );
+
+  // Record transaction for audit trail
+  const [transactionResult] = await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, date) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'loan_payment', loanId, 'loans', payment_amount, paymentDescription, payment_date]
+  ) as any[];
+
+  // Keep the interest/principal split of the payment
+  await connection.execute(
+    `INSERT INTO loan_payments
+     (loan_id, user_id, payment_date, amount, interest_amount, principal_amount, balance_after, description,
+      receipt_number, transaction_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [loanId, userId, payment_date, amount, interest, principal, newBalance, paymentDescription,
+     receiptNumber, transactionResult.insertId]
+  );
+
+  await syncJournalEntry(connection, userId, 'loan_payment', transactionResult.insertId);
+
+  // Get updated loan record
+  const [updatedLoans] = await connection.execute(
+    'SELECT * FROM loans WHERE id = ?',
+    [loanId]
+  ) as any[];
+
+  return {
+    loan: updatedLoans[0],
+    payment: {
+      transaction_id: transactionResult.insertId,
+      amount: payment_amount,
+      date: payment_date,
+      description: paymentDescription,
+      receipt_number: receiptNumber,
+      interest_amount: interest,
+      principal_amount: principal,
+      new_balance: newBalance,
+      status: newStatus
+    }
+  };
+};
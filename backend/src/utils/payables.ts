@@ -0,0 +1,353 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { findUserAccount, adjustAccountBalance } from './accounts';
+import { addDays, daysBetween, todayString, toDateString, parseDate } from './dates';
+import { syncJournalEntry } from './ledger';
+
+// Ages of unpaid bills by days past their due date (not yet due, then 1–30 … over 90 days overdue)
+export const PAYABLE_AGING_BUCKETS = [
+  { key: 'current', label: 'Not yet due', max: 0 },
+  { key: 'days_1_30', label: '1–30 days overdue', max: 30 },
+  { key: 'days_31_60', label: '31–60 days overdue', max: 60 },
+  { key: 'days_61_90', label: '61–90 days overdue', max: 90 },
+  { key: 'days_over_90', label: '90+ days overdue', max: Infinity }
+] as const;
+
+export type PayableAgingBucketKey = typeof PAYABLE_AGING_BUCKETS[number]['key'];
+
+export type PayableAgingTotals = Record<PayableAgingBucketKey, number> & { total: number };
+
+// Amount paid so far against a bill; use in queries that alias bills as `b`
+export const BILL_PAID_SQL = '(SELECT COALESCE(SUM(bp.amount), 0) FROM bill_payments bp WHERE bp.bill_id = b.id)';
+
+export interface BillPaymentInput {
+  amount: number | string;
+  payment_date: string;
+  payment_method?: string;
+  account_id?: number | null;
+  notes?: string | null;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyAgingTotals = (): PayableAgingTotals => ({
+  current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0
+});
+
+// Bucket an unpaid bill falls in, by days past its due date
+export const payableAgingBucket = (daysOverdue: number): PayableAgingBucketKey => {
+  return PAYABLE_AGING_BUCKETS.find((bucket) => daysOverdue <= bucket.max)!.key;
+};
+
+// Find a vendor that belongs to the user
+export const findUserVendor = async (connection: Pool | PoolConnection, userId: number, vendorId: number) => {
+  const [vendors] = await connection.execute(
+    'SELECT id, name, payment_terms_days FROM vendors WHERE id = ? AND user_id = ?',
+    [vendorId, userId]
+  ) as any[];
+  return vendors[0] || null;
+};
+
+// Check a vendor named on a purchase, expense or bill belongs to the user
+export const assertUserVendor = async (connection: Pool | PoolConnection, userId: number, vendorId?: number | null) => {
+  if (vendorId && !(await findUserVendor(connection, userId, vendorId))) {
+    throw Object.assign(new Error('Vendor not found'), { status: 404 });
+  }
+};
+
+// Due date of a bill left without one: the vendor's payment terms after the bill date,
+// or the bill date itself
+export const defaultDueDate = (billDate: string, paymentTermsDays: number | null): string => {
+  return addDays(billDate, paymentTermsDays || 0);
+};
+
+// Amount paid so far against a bill
+export const getBillPaidAmount = async (connection: Pool | PoolConnection, billId: number): Promise<number> => {
+  const [rows] = await connection.execute(
+    'SELECT COALESCE(SUM(amount), 0) AS paid FROM bill_payments WHERE bill_id = ?',
+    [billId]
+  ) as any[];
+  return parseFloat(rows[0].paid);
+};
+
+// Mark a bill paid or open again to match its payments; cancelled bills stay cancelled
+const refreshBillStatus = async (connection: PoolConnection, billId: number) => {
+  await connection.execute(
+    `UPDATE bills b
+     SET b.status = IF(${BILL_PAID_SQL} >= b.amount, 'paid', 'open'), b.updated_at = CURRENT_TIMESTAMP
+     WHERE b.id = ? AND b.status != 'cancelled'`,
+    [billId]
+  );
+};
+
+// Pay an instalment of an open bill out of an account. The bill is marked paid once its
+// payments cover the amount.
+// Used by POST /api/bills/:id/payments; runs inside the caller's transaction.
+export const recordBillPayment = async (
+  connection: PoolConnection,
+  userId: number,
+  billId: number,
+  input: BillPaymentInput
+) => {
+  const { amount, payment_date, payment_method = 'Cash', account_id = null, notes = null } = input;
+
+  const [bills] = await connection.execute(
+    `SELECT b.id, b.amount, b.status, b.bill_number, b.description, v.name AS vendor_name
+     FROM bills b JOIN vendors v ON v.id = b.vendor_id
+     WHERE b.id = ? AND b.user_id = ? FOR UPDATE`,
+    [billId, userId]
+  ) as any[];
+
+  if (bills.length === 0) {
+    throw Object.assign(new Error('Bill not found'), { status: 404 });
+  }
+
+  const bill = bills[0];
+  if (bill.status !== 'open') {
+    throw Object.assign(new Error(`This bill is ${bill.status}; payments can only be made against open bills`), { status: 400 });
+  }
+
+  // Check the paying account belongs to user
+  if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  const paid = await getBillPaidAmount(connection, billId);
+  const balance = roundMoney(parseFloat(bill.amount) - paid);
+  const paymentAmount = parseFloat(amount as string);
+
+  if (paymentAmount > balance) {
+    throw Object.assign(new Error(`Payment cannot exceed the balance due of ${balance.toFixed(2)}`), { status: 400 });
+  }
+
+  const [paymentResult] = await connection.execute(
+    `INSERT INTO bill_payments (user_id, bill_id, amount, payment_date, payment_method, account_id, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [userId, billId, paymentAmount, payment_date, payment_method, account_id, notes]
+  ) as any[];
+  const paymentId = paymentResult.insertId;
+
+  // Debit the paying account
+  await adjustAccountBalance(connection, userId, account_id, -paymentAmount);
+
+  // Record transaction for audit trail
+  await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'expense', paymentId, 'bill_payments', paymentAmount,
+     `Bill payment to ${bill.vendor_name}: ${bill.bill_number || bill.description || 'Bill'}`,
+     account_id, payment_date]
+  );
+
+  await syncJournalEntry(connection, userId, 'bill_payment', paymentId);
+  await refreshBillStatus(connection, billId);
+
+  const [payments] = await connection.execute(
+    'SELECT * FROM bill_payments WHERE id = ?',
+    [paymentId]
+  ) as any[];
+
+  const balanceDue = roundMoney(balance - paymentAmount);
+  return {
+    payment: payments[0],
+    amount_paid: roundMoney(paid + paymentAmount),
+    balance_due: balanceDue,
+    status: balanceDue <= 0 ? 'paid' : 'open'
+  };
+};
+
+// Take back payments of a bill: their account debits, audit rows and journal entries. A paid
+// bill is open again once its payments no longer cover it.
+// Used when removing a payment and when deleting a bill; runs inside the caller's transaction.
+export const removeBillPayments = async (
+  connection: PoolConnection,
+  userId: number,
+  billId: number,
+  paymentIds?: number[]
+) => {
+  const [payments] = await connection.execute(
+    'SELECT id, amount, account_id FROM bill_payments WHERE bill_id = ? AND user_id = ?',
+    [billId, userId]
+  ) as any[];
+
+  const removed = payments.filter((payment: any) => !paymentIds || paymentIds.includes(payment.id));
+  for (const payment of removed) {
+    await adjustAccountBalance(connection, userId, payment.account_id, parseFloat(payment.amount));
+    await connection.execute(
+      'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+      [payment.id, 'bill_payments', userId]
+    );
+    await connection.execute('DELETE FROM bill_payments WHERE id = ?', [payment.id]);
+    await syncJournalEntry(connection, userId, 'bill_payment', payment.id);
+  }
+
+  if (removed.length > 0) {
+    await refreshBillStatus(connection, billId);
+  }
+
+  return removed.length;
+};
+
+// Unpaid balance of every open bill, aged by days past due as at a date and totalled per vendor
+export const getPayablesAging = async (connection: Pool | PoolConnection, userId: number, asOf = todayString()) => {
+  const [rows] = await connection.execute(
+    `SELECT b.id, b.bill_number, b.description, b.bill_date, b.due_date, b.amount, b.vendor_id,
+      v.name AS vendor_name, ${BILL_PAID_SQL} AS amount_paid
+     FROM bills b
+     JOIN vendors v ON v.id = b.vendor_id
+     WHERE b.user_id = ? AND b.status = 'open' AND b.bill_date <= ?
+     ORDER BY b.due_date, b.id`,
+    [userId, asOf]
+  ) as any[];
+
+  const totals = emptyAgingTotals();
+  const vendors = new Map<number, {
+    vendor_id: number;
+    vendor_name: string;
+    bill_count: number;
+    next_due_date: string;
+  } & PayableAgingTotals>();
+  const bills: any[] = [];
+
+  for (const row of rows) {
+    const balance = roundMoney(parseFloat(row.amount) - parseFloat(row.amount_paid));
+    if (balance <= 0) continue;
+
+    const dueDate = toDateString(parseDate(row.due_date));
+    const daysOverdue = daysBetween(dueDate, asOf);
+    const bucket = payableAgingBucket(daysOverdue);
+
+    if (!vendors.has(row.vendor_id)) {
+      vendors.set(row.vendor_id, {
+        vendor_id: row.vendor_id,
+        vendor_name: row.vendor_name,
+        bill_count: 0,
+        next_due_date: dueDate,
+        ...emptyAgingTotals()
+      });
+    }
+    const vendor = vendors.get(row.vendor_id)!;
+    vendor.bill_count++;
+    vendor[bucket] = roundMoney(vendor[bucket] + balance);
+    vendor.total = roundMoney(vendor.total + balance);
+    totals[bucket] = roundMoney(totals[bucket] + balance);
+    totals.total = roundMoney(totals.total + balance);
+
+    bills.push({
+      bill_id: row.id,
+      bill_number: row.bill_number,
+      description: row.description,
+      vendor_id: row.vendor_id,
+      vendor_name: row.vendor_name,
+      bill_date: toDateString(parseDate(row.bill_date)),
+      due_date: dueDate,
+      amount: parseFloat(row.amount),
+      amount_paid: parseFloat(row.amount_paid),
+      balance_due: balance,
+      days_overdue: Math.max(daysOverdue, 0),
+      bucket
+    });
+  }
+
+  return {
+    as_of: asOf,
+    buckets: PAYABLE_AGING_BUCKETS.map(({ key, label }) => ({ key, label })),
+    vendors: Array.from(vendors.values()).sort((a, b) => b.total - a.total),
+    bills,
+    totals
+  };
+};
+
+// What was spent with each vendor over a period: purchases and expenses paid to them and bills
+// they sent (cancelled bills left out), month by month, with what is still owed on their bills
+export const getVendorSpend = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  period: { start_date?: string; end_date?: string } = {},
+  vendorId?: number
+) => {
+  const endDate = period.end_date || todayString();
+  const startDate = period.start_date || `${endDate.slice(0, 4)}-01-01`;
+  const vendorClause = vendorId ? ' AND vendor_id = ?' : '';
+  const vendorParams = vendorId ? [vendorId] : [];
+
+  const [rows] = await connection.execute(
+    `SELECT vendor_id, kind, DATE_FORMAT(date, '%Y-%m') AS month, COUNT(*) AS record_count, SUM(amount) AS amount
+     FROM (
+       SELECT vendor_id, 'purchase' AS kind, date, amount FROM purchases
+       WHERE user_id = ? AND vendor_id IS NOT NULL AND date BETWEEN ? AND ?${vendorClause}
+       UNION ALL
+       SELECT vendor_id, 'expense' AS kind, date, amount FROM expenses
+       WHERE user_id = ? AND vendor_id IS NOT NULL AND date BETWEEN ? AND ?${vendorClause}
+       UNION ALL
+       SELECT vendor_id, 'bill' AS kind, bill_date AS date, amount FROM bills
+       WHERE user_id = ? AND status != 'cancelled' AND bill_date BETWEEN ? AND ?${vendorClause}
+     ) spend
+     GROUP BY vendor_id, kind, DATE_FORMAT(date, '%Y-%m')
+     ORDER BY month`,
+    [userId, startDate, endDate, ...vendorParams, userId, startDate, endDate, ...vendorParams, userId, startDate, endDate, ...vendorParams]
+  ) as any[];
+
+  const [vendorRows] = await connection.execute(
+    `SELECT v.id, v.name,
+      (SELECT COALESCE(SUM(b.amount - ${BILL_PAID_SQL}), 0) FROM bills b WHERE b.vendor_id = v.id AND b.status = 'open') AS outstanding_balance
+     FROM vendors v
+     WHERE v.user_id = ?${vendorId ? ' AND v.id = ?' : ''}
+     ORDER BY v.name`,
+    [userId, ...vendorParams]
+  ) as any[];
+
+  const vendors = new Map<number, {
+    vendor_id: number;
+    vendor_name: string;
+    purchases: number;
+    expenses: number;
+    bills: number;
+    total: number;
+    record_count: number;
+    outstanding_balance: number;
+    monthly: { month: string; total: number }[];
+  }>();
+  for (const vendor of vendorRows) {
+    vendors.set(vendor.id, {
+      vendor_id: vendor.id,
+      vendor_name: vendor.name,
+      purchases: 0,
+      expenses: 0,
+      bills: 0,
+      total: 0,
+      record_count: 0,
+      outstanding_balance: roundMoney(parseFloat(vendor.outstanding_balance)),
+      monthly: []
+    });
+  }
+
+  const kindTotals: Record<string, 'purchases' | 'expenses' | 'bills'> = {
+    purchase: 'purchases',
+    expense: 'expenses',
+    bill: 'bills'
+  };
+
+  for (const row of rows) {
+    const vendor = vendors.get(row.vendor_id);
+    if (!vendor) continue;
+
+    const amount = parseFloat(row.amount);
+    const key = kindTotals[row.kind];
+    vendor[key] = roundMoney(vendor[key] + amount);
+    vendor.total = roundMoney(vendor.total + amount);
+    vendor.record_count += parseInt(row.record_count);
+
+    const month = vendor.monthly.find((entry) => entry.month === row.month);
+    if (month) {
+      month.total = roundMoney(month.total + amount);
+    } else {
+      vendor.monthly.push({ month: row.month, total: roundMoney(amount) });
+    }
+  }
+
+  const result = Array.from(vendors.values()).sort((a, b) => b.total - a.total);
+  return {
+    period: { start_date: startDate, end_date: endDate },
+    vendors: result,
+    total: roundMoney(result.reduce((sum, vendor) => sum + vendor.total, 0))
+  };
+};
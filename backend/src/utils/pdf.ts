@@ -0,0 +1,279 @@
+// Minimal PDF writer for the exported reports: A4 pages of text and simple tables in the
+// standard Helvetica fonts, so no font files or external services are needed.
+
+import { Response } from 'express';
+import { PdfImage } from './pdfImage';
+
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  subtitle?: string;
+  businessName?: string | null;
+  // Drawn at the top right of every page
+  logo?: PdfImage | null;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 30;
+const LOGO_MAX_WIDTH = 120;
+const LOGO_MAX_HEIGHT = 40;
+
+// Helvetica character widths (per 1000 units of font size) for printable ASCII
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Helvetica-Bold is slightly wider; close enough for aligning and truncating text
+const BOLD_FACTOR = 1.06;
+
+type Font = 'regular' | 'bold';
+
+export const textWidth = (text: string, size: number, font: Font = 'regular'): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (font === 'bold' ? BOLD_FACTOR : 1)) / 1000;
+};
+
+// Shorten text with an ellipsis so it fits in a width
+const fitText = (text: string, size: number, width: number, font: Font): string => {
+  if (textWidth(text, size, font) <= width) {
+    return text;
+  }
+
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, font) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// PDF string literal in WinAnsi encoding; characters outside Latin-1 become '?'
+const pdfString = (text: string): string => {
+  const latin1 = Array.from(text).map((char) => (char.charCodeAt(0) > 255 ? '?' : char)).join('');
+  return `(${latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)').replace(/[\r\n]+/g, ' ')})`;
+};
+
+const formatNumber = (value: number): string => value.toFixed(2).replace(/\.?0+$/, '');
+
+// Money amounts as shown in the PDFs, e.g. 1,234.50
+export const formatAmount = (value: number | string | null | undefined): string => {
+  const amount = parseFloat(value as string) || 0;
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+// Send a built PDF as a file download
+export const sendPdf = (res: Response, pdf: Buffer, filename: string) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+};
+
+// Build a PDF page by page. Every page starts with the business name and report title
+// and ends with a generated-at footer and page number.
+export const createPdfDocument = (options: PdfDocumentOptions) => {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const text = (value: string, x: number, atY: number, size: number, font: Font = 'regular', gray = 0) => {
+    ops.push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${gray} g ${formatNumber(x)} ${formatNumber(atY)} Td ${pdfString(value)} Tj ET`);
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, width = 0.5) => {
+    ops.push(`${width} w 0.6 G ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`);
+  };
+
+  // Scale the logo into its box, keeping its proportions
+  const logo = options.logo || null;
+  const logoScale = logo ? Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height) : 0;
+  const logoWidth = logo ? logo.width * logoScale : 0;
+  const logoHeight = logo ? logo.height * logoScale : 0;
+
+  const addPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+
+    if (logo) {
+      ops.push(`q ${formatNumber(logoWidth)} 0 0 ${formatNumber(logoHeight)} ${formatNumber(PAGE_WIDTH - MARGIN - logoWidth)} ${formatNumber(y - logoHeight)} cm /Im1 Do Q`);
+    }
+    const nameWidth = CONTENT_WIDTH - (logo ? logoWidth + 10 : 0);
+    text(fitText(options.businessName || 'My Business', 16, nameWidth, 'bold'), MARGIN, y - 16, 16, 'bold');
+    text(options.title, MARGIN, y - 36, 12, 'bold', 0.2);
+    y -= 36;
+    if (options.subtitle) {
+      text(options.subtitle, MARGIN, y - 16, 10, 'regular', 0.4);
+      y -= 16;
+    }
+    y -= 10;
+    line(MARGIN, y, PAGE_WIDTH - MARGIN, y, 1);
+    y -= 20;
+  };
+
+  // Start a new page if there isn't room for the next block
+  const ensureSpace = (height: number): boolean => {
+    if (pages.length === 0 || y - height < FOOTER_Y + 30) {
+      addPage();
+      return true;
+    }
+    return false;
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(40);
+    y -= 6;
+    text(value, MARGIN, y, 12, 'bold');
+    y -= 18;
+  };
+
+  const paragraph = (value: string, size = 10) => {
+    ensureSpace(size + 6);
+    text(fitText(value, size, CONTENT_WIDTH, 'regular'), MARGIN, y, size);
+    y -= size + 6;
+  };
+
+  // Label/value pairs, e.g. the headline figures of a report
+  const keyValues = (rows: [string, string][]) => {
+    for (const [label, value] of rows) {
+      ensureSpace(16);
+      text(label, MARGIN, y, 10, 'regular', 0.3);
+      text(value, PAGE_WIDTH - MARGIN - textWidth(value, 10, 'bold'), y, 10, 'bold');
+      y -= 16;
+    }
+    y -= 8;
+  };
+
+  // A table whose column widths are fractions of the page width. The header row is
+  // repeated on every page the table runs onto; an optional total row is drawn in bold.
+  const table = (columns: PdfColumn[], rows: string[][], totalRow?: string[]) => {
+    const totalWeight = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map((column) => (column.width / totalWeight) * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], font: Font, gray = 0) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const width = widths[index];
+        const value = fitText(cell || '', 9, width - 6, font);
+        const cellX = columns[index].align === 'right' ? x + width - 3 - textWidth(value, 9, font) : x + 3;
+        text(value, cellX, y, 9, font, gray);
+        x += width;
+      });
+      y -= 15;
+    };
+
+    const drawHeader = () => {
+      drawRow(columns.map((column) => column.header), 'bold', 0.2);
+      line(MARGIN, y + 11, PAGE_WIDTH - MARGIN, y + 11);
+    };
+
+    ensureSpace(45);
+    drawHeader();
+
+    if (rows.length === 0) {
+      text('No records', MARGIN + 3, y, 9, 'regular', 0.5);
+      y -= 15;
+    }
+
+    for (const row of rows) {
+      if (ensureSpace(15)) {
+        drawHeader();
+      }
+      drawRow(row, 'regular');
+    }
+
+    if (totalRow) {
+      ensureSpace(20);
+      line(MARGIN, y + 11, PAGE_WIDTH - MARGIN, y + 11);
+      drawRow(totalRow, 'bold');
+    }
+
+    y -= 10;
+  };
+
+  // Serialise the document
+  const toBuffer = (): Buffer => {
+    if (pages.length === 0) {
+      addPage();
+    }
+
+    const generatedAt = `Generated ${new Date().toISOString().replace('T', ' ').substring(0, 16)} UTC`;
+    pages.forEach((pageOps, index) => {
+      ops = pageOps;
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      line(MARGIN, FOOTER_Y + 12, PAGE_WIDTH - MARGIN, FOOTER_Y + 12);
+      text(generatedAt, MARGIN, FOOTER_Y, 8, 'regular', 0.4);
+      text(pageLabel, PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8), FOOTER_Y, 8, 'regular', 0.4);
+    });
+
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page,
+    // then the logo and its soft mask
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+    const logoId = 5 + pages.length * 2;
+    const xObjects = logo ? ` /XObject << /Im1 ${logoId} 0 R >>` : '';
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    pages.forEach((pageOps, index) => {
+      const content = pageOps.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Image bytes are carried through the latin1 output unchanged
+    if (logo) {
+      const softMask = logo.alpha ? ` /SMask ${logoId + 1} 0 R` : '';
+      objects.push(
+        `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /${logo.colorSpace} ` +
+        `/BitsPerComponent 8 /Filter /${logo.filter}${softMask} /Length ${logo.data.length} >>\n` +
+        `stream\n${logo.data.toString('latin1')}\nendstream`
+      );
+      if (logo.alpha) {
+        objects.push(
+          `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceGray ` +
+          `/BitsPerComponent 8 /Filter /FlateDecode /Length ${logo.alpha.length} >>\n` +
+          `stream\n${logo.alpha.toString('latin1')}\nendstream`
+        );
+      }
+    }
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  };
+
+  return { heading, paragraph, keyValues, table, toBuffer };
+};
@@ -0,0 +1,187 @@
+import zlib from 'zlib';
+
+// Images for the PDF writer. JPEGs are embedded as they are; PNGs are decoded and their pixels
+// re-compressed, with any transparency moved into a soft mask. Anything else is skipped.
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+  filter: 'DCTDecode' | 'FlateDecode';
+  data: Buffer;
+  // Deflated 8-bit alpha channel, drawn as the image's soft mask
+  alpha?: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const JPEG_COLOR_SPACES: Record<number, PdfImage['colorSpace']> = { 1: 'DeviceGray', 3: 'DeviceRGB', 4: 'DeviceCMYK' };
+
+// Size and colour components come from the first start-of-frame segment
+const readJpeg = (data: Buffer): PdfImage | null => {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      const colorSpace = JPEG_COLOR_SPACES[data[offset + 9]];
+      if (!colorSpace) {
+        return null;
+      }
+      return {
+        width: data.readUInt16BE(offset + 7),
+        height: data.readUInt16BE(offset + 5),
+        colorSpace,
+        filter: 'DCTDecode',
+        data
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+// Reverse the per-row PNG filters, returning the raw samples
+const unfilterRows = (filtered: Buffer, width: number, height: number, bytesPerPixel: number): Buffer | null => {
+  const stride = width * bytesPerPixel;
+  if (filtered.length < (stride + 1) * height) {
+    return null;
+  }
+
+  const pixels = Buffer.alloc(stride * height);
+  for (let row = 0; row < height; row++) {
+    const filter = filtered[row * (stride + 1)];
+    const source = row * (stride + 1) + 1;
+    const target = row * stride;
+
+    for (let i = 0; i < stride; i++) {
+      const raw = filtered[source + i];
+      const left = i >= bytesPerPixel ? pixels[target + i - bytesPerPixel] : 0;
+      const up = row > 0 ? pixels[target - stride + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? pixels[target - stride + i - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + Math.floor((left + up) / 2); break;
+        case 4: value = raw + paeth(left, up, upLeft); break;
+        default: return null;
+      }
+      pixels[target + i] = value & 0xff;
+    }
+  }
+  return pixels;
+};
+
+// 8-bit, non-interlaced greyscale, RGB, palette and alpha PNGs
+const readPng = (data: Buffer): PdfImage | null => {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const compressed: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      compressed.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (!channels || bitDepth !== 8 || interlace !== 0 || width === 0 || height === 0 || compressed.length === 0) {
+    return null;
+  }
+  if (colorType === 3 && !palette) {
+    return null;
+  }
+
+  let pixels: Buffer | null;
+  try {
+    pixels = unfilterRows(zlib.inflateSync(Buffer.concat(compressed)), width, height, channels);
+  } catch {
+    return null;
+  }
+  if (!pixels) {
+    return null;
+  }
+
+  const pixelCount = width * height;
+  const colorChannels = colorType === 0 || colorType === 4 ? 1 : 3;
+  const color = Buffer.alloc(pixelCount * colorChannels);
+  const hasAlpha = colorType === 4 || colorType === 6 || (colorType === 3 && transparency !== null);
+  const alpha = hasAlpha ? Buffer.alloc(pixelCount) : null;
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (colorType === 3) {
+      const index = pixels[i];
+      palette!.copy(color, i * 3, index * 3, index * 3 + 3);
+      if (alpha) {
+        alpha[i] = index < transparency!.length ? transparency![index] : 255;
+      }
+    } else {
+      pixels.copy(color, i * colorChannels, i * channels, i * channels + colorChannels);
+      if (alpha) {
+        alpha[i] = pixels[i * channels + colorChannels];
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: colorChannels === 1 ? 'DeviceGray' : 'DeviceRGB',
+    filter: 'FlateDecode',
+    data: zlib.deflateSync(color),
+    alpha: alpha ? zlib.deflateSync(alpha) : undefined
+  };
+};
+
+// Prepare an uploaded PNG or JPEG for embedding; returns null for formats the writer can't draw
+export const readPdfImage = (data: Buffer): PdfImage | null => {
+  if (data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return readPng(data);
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return readJpeg(data);
+  }
+  return null;
+};
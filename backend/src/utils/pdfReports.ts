@@ -0,0 +1,398 @@
+import { pool } from '../config/database';
+import { getFinancialSummary } from './dashboard';
+import { getExpenseCategoryBreakdown } from './categories';
+import { createPdfDocument, formatAmount } from './pdf';
+import { parseDate, toDateString, todayString } from './dates';
+import { formatInvoiceDate, invoiceTitle, loadInvoiceDocument } from './invoices';
+import { readPdfImage } from './pdfImage';
+
+export type LedgerReportType = 'income' | 'expense';
+
+const formatDate = (date: string | Date | null | undefined): string => {
+  return date ? toDateString(parseDate(date)) : '';
+};
+
+const getBusinessName = async (userId: number): Promise<string> => {
+  const [users] = await pool.execute(
+    'SELECT full_name, business_name FROM users WHERE id = ?',
+    [userId]
+  ) as any[];
+
+  return users.length > 0 ? users[0].business_name || users[0].full_name : 'My Business';
+};
+
+// Headline figures, top expense categories (with their subcategories) and charity status, as on the dashboard
+export const buildDashboardPdf = async (userId: number): Promise<Buffer> => {
+  const summary = await getFinancialSummary(userId);
+
+  const topExpenseCategories = await getExpenseCategoryBreakdown(pool, userId, 10);
+
+  const [accounts] = await pool.execute(
+    'SELECT account_name, account_type, balance FROM accounts WHERE user_id = ? ORDER BY account_name',
+    [userId]
+  ) as any[];
+
+  const pdf = createPdfDocument({
+    title: 'Financial Summary',
+    subtitle: `As of ${todayString()}`,
+    businessName: await getBusinessName(userId)
+  });
+
+  pdf.heading('Profit');
+  pdf.keyValues([
+    ['Total income', formatAmount(summary.total_income)],
+    ['Sales revenue (completed)', formatAmount(summary.total_sales_revenue)],
+    ['Cost of sales', formatAmount(summary.total_sales_cost)],
+    ['Gross profit on sales', formatAmount(summary.total_sales_profit)],
+    ['Total expenses', formatAmount(summary.total_expenses)],
+    ['Net profit', formatAmount(summary.net_worth)]
+  ]);
+
+  pdf.heading('Financial Position');
+  pdf.keyValues([
+    ['Cash and bank balances', formatAmount(summary.total_accounts_balance)],
+    ['Loans receivable', formatAmount(summary.total_loans_receivable)],
+    ['Total assets', formatAmount(summary.total_assets)],
+    ['Loans payable', formatAmount(summary.total_active_loans)],
+    ['Total liabilities', formatAmount(summary.total_liabilities)],
+    ['Total purchases', formatAmount(summary.total_purchases)],
+    ['Pending sales', `${summary.pending_sales_count} (${formatAmount(summary.pending_sales_revenue)})`]
+  ]);
+
+  pdf.heading('Charity');
+  pdf.keyValues([
+    ['Required', formatAmount(summary.total_charity_required)],
+    ['Paid', formatAmount(summary.total_charity_paid)],
+    ['Outstanding', formatAmount(summary.total_charity_remaining)]
+  ]);
+
+  pdf.heading('Accounts');
+  pdf.table(
+    [
+      { header: 'Account', width: 3 },
+      { header: 'Type', width: 2 },
+      { header: 'Balance', width: 2, align: 'right' }
+    ],
+    accounts.map((account: any) => [account.account_name, account.account_type, formatAmount(account.balance)])
+  );
+
+  pdf.heading('Top Expense Categories');
+  pdf.table(
+    [
+      { header: 'Category', width: 4 },
+      { header: 'Transactions', width: 2, align: 'right' },
+      { header: 'Amount', width: 2, align: 'right' }
+    ],
+    topExpenseCategories.flatMap((category) => [category, ...category.subcategories.map((sub) => ({ ...sub, category: `    ${sub.category}` }))])
+      .map((category) => [
+        category.category,
+        String(category.transaction_count),
+        formatAmount(category.total_amount)
+      ])
+  );
+
+  return pdf.toBuffer();
+};
+
+// Every income or expense record in a date range, with totals by category
+export const buildLedgerPdf = async (
+  userId: number,
+  type: LedgerReportType,
+  startDate: string,
+  endDate: string
+): Promise<Buffer> => {
+  const table = type === 'income' ? 'income' : 'expenses';
+  const detailColumn = type === 'income' ? 'r.source' : 'r.payment_method';
+
+  const [records] = await pool.execute(
+    `SELECT r.date, r.description, r.category, ${detailColumn} AS detail, a.account_name, r.amount
+     FROM ${table} r
+     LEFT JOIN accounts a ON r.account_id = a.id
+     WHERE r.user_id = ? AND r.date BETWEEN ? AND ?
+     ORDER BY r.date, r.id`,
+    [userId, startDate, endDate]
+  ) as any[];
+
+  const totalsByCategory = new Map<string, number>();
+  for (const record of records) {
+    totalsByCategory.set(record.category, (totalsByCategory.get(record.category) || 0) + parseFloat(record.amount));
+  }
+  const total = records.reduce((sum: number, record: any) => sum + parseFloat(record.amount), 0);
+
+  const pdf = createPdfDocument({
+    title: type === 'income' ? 'Income Ledger' : 'Expense Ledger',
+    subtitle: `${startDate} to ${endDate}`,
+    businessName: await getBusinessName(userId)
+  });
+
+  pdf.table(
+    [
+      { header: 'Date', width: 1.3 },
+      { header: 'Description', width: 3 },
+      { header: 'Category', width: 1.6 },
+      { header: type === 'income' ? 'Source' : 'Payment', width: 1.4 },
+      { header: 'Account', width: 1.5 },
+      { header: 'Amount', width: 1.4, align: 'right' }
+    ],
+    records.map((record: any) => [
+      formatDate(record.date),
+      record.description || '',
+      record.category,
+      record.detail || '',
+      record.account_name || '',
+      formatAmount(record.amount)
+    ]),
+    ['Total', `${records.length} records`, '', '', '', formatAmount(total)]
+  );
+
+  pdf.heading('By Category');
+  pdf.table(
+    [
+      { header: 'Category', width: 4 },
+      { header: 'Amount', width: 2, align: 'right' }
+    ],
+    [...totalsByCategory.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, amount]) => [category, formatAmount(amount)]),
+    ['Total', formatAmount(total)]
+  );
+
+  return pdf.toBuffer();
+};
+
+// Loan terms and every payment made, with the interest/principal split where recorded.
+// Returns null if the loan doesn't exist.
+export const buildLoanStatementPdf = async (userId: number, loanId: number): Promise<Buffer | null> => {
+  const [loans] = await pool.execute(
+    'SELECT * FROM loans WHERE id = ? AND user_id = ?',
+    [loanId, userId]
+  ) as any[];
+
+  if (loans.length === 0) {
+    return null;
+  }
+
+  const loan = loans[0];
+  const isReceivable = loan.direction === 'receivable';
+
+  const [payments] = await pool.execute(
+    `SELECT t.date, t.description, t.amount, lp.interest_amount, lp.principal_amount, lp.balance_after, lp.receipt_number
+     FROM transactions t
+     LEFT JOIN loan_payments lp ON lp.transaction_id = t.id
+     WHERE t.user_id = ? AND t.transaction_type = 'loan_payment' AND t.reference_table = 'loans' AND t.reference_id = ?
+     ORDER BY t.date, t.id`,
+    [userId, loanId]
+  ) as any[];
+
+  const totalPaid = payments.reduce((sum: number, payment: any) => sum + parseFloat(payment.amount), 0);
+  const totalInterest = payments.reduce((sum: number, payment: any) => sum + (parseFloat(payment.interest_amount) || 0), 0);
+
+  const pdf = createPdfDocument({
+    title: 'Loan Statement',
+    subtitle: isReceivable ? `Loan to ${loan.borrower_name}` : `Loan from ${loan.lender_name}`,
+    businessName: await getBusinessName(userId)
+  });
+
+  pdf.heading('Loan Details');
+  pdf.keyValues([
+    [isReceivable ? 'Borrower' : 'Lender', (isReceivable ? loan.borrower_name : loan.lender_name) || ''],
+    ['Type', loan.loan_type],
+    ['Principal', formatAmount(loan.principal_amount)],
+    ['Interest rate', loan.interest_rate !== null ? `${parseFloat(loan.interest_rate)}%` : '-'],
+    ['Monthly payment', loan.monthly_payment !== null ? formatAmount(loan.monthly_payment) : '-'],
+    ['Start date', formatDate(loan.start_date)],
+    ['Due date', formatDate(loan.due_date) || '-'],
+    ['Status', loan.status],
+    ['Total paid', formatAmount(totalPaid)],
+    ['Interest paid', formatAmount(totalInterest)],
+    ['Current balance', formatAmount(loan.current_balance)]
+  ]);
+
+  pdf.heading(isReceivable ? 'Repayments Received' : 'Payments');
+  pdf.table(
+    [
+      { header: 'Date', width: 1.3 },
+      { header: 'Description', width: 3 },
+      { header: 'Receipt', width: 1.4 },
+      { header: 'Interest', width: 1.2, align: 'right' },
+      { header: 'Principal', width: 1.2, align: 'right' },
+      { header: 'Amount', width: 1.3, align: 'right' },
+      { header: 'Balance', width: 1.3, align: 'right' }
+    ],
+    payments.map((payment: any) => [
+      formatDate(payment.date),
+      payment.description || '',
+      payment.receipt_number || '',
+      payment.interest_amount !== null ? formatAmount(payment.interest_amount) : '',
+      payment.principal_amount !== null ? formatAmount(payment.principal_amount) : '',
+      formatAmount(payment.amount),
+      payment.balance_after !== null ? formatAmount(payment.balance_after) : ''
+    ]),
+    ['Total', '', '', formatAmount(totalInterest), '', formatAmount(totalPaid), formatAmount(loan.current_balance)]
+  );
+
+  return pdf.toBuffer();
+};
+
+// Charity owed on the year's income, what was paid during the year and what is still outstanding
+export const buildCharityStatementPdf = async (userId: number, year: number): Promise<Buffer> => {
+  const startDate = `${year}-01-01`;
+  const endDate = `${year}-12-31`;
+
+  const [obligations] = await pool.execute(
+    `SELECT COALESCE(i.date, DATE(c.created_at)) AS date, c.description, c.recipient,
+      c.amount_required, c.amount_paid, c.amount_remaining, c.status
+     FROM charity c LEFT JOIN income i ON c.income_id = i.id
+     WHERE c.user_id = ? AND COALESCE(i.date, DATE(c.created_at)) BETWEEN ? AND ?
+     ORDER BY date, c.id`,
+    [userId, startDate, endDate]
+  ) as any[];
+
+  const [payments] = await pool.execute(
+    `SELECT t.date, t.description, c.recipient, t.amount
+     FROM transactions t
+     LEFT JOIN charity c ON t.reference_table = 'charity' AND t.reference_id = c.id
+     WHERE t.user_id = ? AND t.transaction_type = 'charity' AND t.date BETWEEN ? AND ?
+     ORDER BY t.date, t.id`,
+    [userId, startDate, endDate]
+  ) as any[];
+
+  const [outstanding] = await pool.execute(
+    `SELECT COALESCE(SUM(c.amount_remaining), 0) AS amount
+     FROM charity c LEFT JOIN income i ON c.income_id = i.id
+     WHERE c.user_id = ? AND COALESCE(i.date, DATE(c.created_at)) <= ?`,
+    [userId, endDate]
+  ) as any[];
+
+  const sum = (rows: any[], column: string) => rows.reduce((total, row) => total + parseFloat(row[column]), 0);
+  const totalRequired = sum(obligations, 'amount_required');
+  const totalPaid = sum(payments, 'amount');
+
+  const pdf = createPdfDocument({
+    title: 'Annual Charity Statement',
+    subtitle: `Year ${year}`,
+    businessName: await getBusinessName(userId)
+  });
+
+  pdf.heading('Summary');
+  pdf.keyValues([
+    ['Charity due on income this year', formatAmount(totalRequired)],
+    ['Paid during the year', formatAmount(totalPaid)],
+    ['Outstanding at year end (all years)', formatAmount(outstanding[0].amount)]
+  ]);
+
+  pdf.heading('Charity Due');
+  pdf.table(
+    [
+      { header: 'Date', width: 1.3 },
+      { header: 'Description', width: 3 },
+      { header: 'Recipient', width: 1.6 },
+      { header: 'Required', width: 1.3, align: 'right' },
+      { header: 'Paid', width: 1.3, align: 'right' },
+      { header: 'Remaining', width: 1.3, align: 'right' }
+    ],
+    obligations.map((charity: any) => [
+      formatDate(charity.date),
+      charity.description || '',
+      charity.recipient || '',
+      formatAmount(charity.amount_required),
+      formatAmount(charity.amount_paid),
+      formatAmount(charity.amount_remaining)
+    ]),
+    ['Total', '', '', formatAmount(totalRequired), formatAmount(sum(obligations, 'amount_paid')), formatAmount(sum(obligations, 'amount_remaining'))]
+  );
+
+  pdf.heading('Payments Made');
+  pdf.table(
+    [
+      { header: 'Date', width: 1.3 },
+      { header: 'Description', width: 4 },
+      { header: 'Recipient', width: 2 },
+      { header: 'Amount', width: 1.5, align: 'right' }
+    ],
+    payments.map((payment: any) => [
+      formatDate(payment.date),
+      payment.description || '',
+      payment.recipient || '',
+      formatAmount(payment.amount)
+    ]),
+    ['Total', '', '', formatAmount(totalPaid)]
+  );
+
+  return pdf.toBuffer();
+};
+
+// A printable invoice with its lines and totals, headed by the business name and logo. Logos
+// the PDF writer can't embed are left out. Returns null if the invoice doesn't exist.
+export const buildInvoicePdf = async (userId: number, invoiceId: number): Promise<Buffer | null> => {
+  const document = await loadInvoiceDocument(pool, userId, invoiceId);
+  if (!document) {
+    return null;
+  }
+
+  const { invoice, settings, business, logo } = document;
+
+  const pdf = createPdfDocument({
+    title: invoiceTitle(invoice),
+    subtitle: `Issued ${formatInvoiceDate(invoice.issue_date)}, due ${formatInvoiceDate(invoice.due_date)}`,
+    businessName: business.name,
+    logo: logo ? readPdfImage(logo.data) : null
+  });
+
+  pdf.heading('Bill To');
+  pdf.paragraph(invoice.customer_name);
+  for (const line of [
+    ...(invoice.customer_address || '').split(/\r?\n/),
+    invoice.customer_contact,
+    invoice.customer_email,
+    invoice.customer_tax_id ? `Tax ID: ${invoice.customer_tax_id}` : null
+  ]) {
+    if (line && line.trim()) {
+      pdf.paragraph(line.trim(), 9);
+    }
+  }
+
+  pdf.heading('Items');
+  pdf.table(
+    [
+      { header: 'Description', width: 4 },
+      { header: 'Qty', width: 1, align: 'right' },
+      { header: 'Unit Price', width: 1.5, align: 'right' },
+      { header: 'Discount', width: 1.1, align: 'right' },
+      { header: 'Tax', width: 1, align: 'right' },
+      { header: 'Amount', width: 1.6, align: 'right' }
+    ],
+    invoice.items.map((item: any) => [
+      item.description,
+      String(parseFloat(item.quantity)),
+      formatAmount(item.unit_price),
+      parseFloat(item.discount_percent) ? `${parseFloat(item.discount_percent)}%` : '',
+      parseFloat(item.tax_rate) ? `${parseFloat(item.tax_rate)}%` : '',
+      formatAmount(item.line_total)
+    ])
+  );
+
+  const totals: [string, string][] = [['Subtotal', formatAmount(invoice.subtotal)]];
+  if (parseFloat(invoice.discount_total) > 0) {
+    totals.push(['Discount', `-${formatAmount(invoice.discount_total)}`]);
+  }
+  if (parseFloat(invoice.tax_total) > 0) {
+    totals.push(['Tax', formatAmount(invoice.tax_total)]);
+  }
+  totals.push(['Total', formatAmount(invoice.total)]);
+  if (invoice.status === 'paid') {
+    totals.push(['Paid', formatInvoiceDate(invoice.paid_date)]);
+  }
+  pdf.keyValues(totals);
+
+  if (invoice.notes) {
+    pdf.heading('Notes');
+    invoice.notes.split(/\r?\n/).forEach((line: string) => pdf.paragraph(line));
+  }
+
+  if (settings.footer) {
+    settings.footer.split(/\r?\n/).forEach((line: string) => pdf.paragraph(line, 9));
+  }
+
+  return pdf.toBuffer();
+};
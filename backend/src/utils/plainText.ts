@@ -0,0 +1,620 @@
+import path from 'path';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { parseDate, toDateString, todayString } from './dates';
+import { SYSTEM_ACCOUNTS, SystemAccountKey } from './ledger';
+import { parseImportAmount, parseImportDate } from './imports';
+import { createTransfer } from './accounts';
+import { createIncomeRecord } from './income';
+import { createExpenseRecord } from './expenses';
+
+// ledger and hledger read the same journal syntax; beancount has its own
+export type PlainTextSyntax = 'ledger' | 'hledger' | 'beancount';
+
+// Account names in exported journals. Categories are added below the income/expense roots
+// (Income:Salary, Expenses:Rent) and cash/bank accounts sit under Assets by account type.
+const SYSTEM_ACCOUNT_NAMES: Record<SystemAccountKey, string> = {
+  cash_on_hand: 'Assets:Cash on Hand',
+  inventory: 'Assets:Inventory',
+  loans_receivable: 'Assets:Loans Receivable',
+  transfers_in_transit: 'Assets:Transfers in Transit',
+  loans_payable: 'Liabilities:Loans Payable',
+  charity_payable: 'Liabilities:Charity Payable',
+  customer_deposits: 'Liabilities:Customer Deposits',
+  accounts_payable: 'Liabilities:Accounts Payable',
+  owner_equity: 'Equity:Owners Equity',
+  income: 'Income',
+  sales_revenue: 'Income:Sales',
+  interest_income: 'Income:Interest',
+  cost_of_goods_sold: 'Expenses:Cost of Goods Sold',
+  operating_expenses: 'Expenses',
+  interest_expense: 'Expenses:Interest',
+  charity_expense: 'Expenses:Charity'
+};
+
+const MONEY_ACCOUNT_GROUPS: Record<string, string> = {
+  cash: 'Cash',
+  bank: 'Bank',
+  savings: 'Savings',
+  investment: 'Investments'
+};
+
+const ROOT_NAMES: Record<string, string> = {
+  asset: 'Assets',
+  liability: 'Liabilities',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expenses'
+};
+
+// Record types whose category is appended to their income and expense postings; asset and
+// liability accounts (cash on hand, inventory, payables) keep their own name, so purchases,
+// which only move money into stock, carry none
+const CATEGORY_SOURCES = ['income', 'expense', 'sale'];
+const CATEGORY_ACCOUNT_TYPES = ['income', 'expense'];
+
+const CATEGORY_TABLES: Record<string, string> = {
+  income: 'income',
+  expense: 'expenses',
+  sale: 'sales'
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const dateString = (value: string | Date): string => toDateString(parseDate(value));
+
+// Lower-case letters and digits only, for matching names across syntaxes ("Office-Supplies" = "office supplies")
+const normalizeName = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// ledger/hledger: any text, but a colon starts a sub-account and two spaces end the name
+const ledgerAccountPart = (value: string): string => value.replace(/[:;]/g, '-').replace(/\s+/g, ' ').trim();
+
+// beancount: capitalised words of letters, digits and dashes
+const beancountAccountPart = (value: string): string => {
+  const words = value.replace(/['’]/g, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const part = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('-');
+  return part || 'Other';
+};
+
+const accountName = (syntax: PlainTextSyntax, parts: string[]): string => {
+  const format = syntax === 'beancount' ? beancountAccountPart : ledgerAccountPart;
+  return parts.map(format).join(':');
+};
+
+const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// The whole journal (every record, transfer and balance adjustment) in a period as a
+// plain-text journal. Each transaction is tagged with the record it came from
+// (source: income-12) so importing the file again recognises records already in the books.
+export const buildPlainTextJournal = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  syntax: PlainTextSyntax,
+  options: { start_date?: string; end_date?: string; commodity: string }
+): Promise<string> => {
+  const [rows] = await connection.execute(
+    `SELECT je.id AS entry_id, je.entry_date, je.description, je.source_type, je.source_id,
+      la.code, la.name, la.account_type, la.account_id, a.account_name, a.account_type AS money_type,
+      jl.debit, jl.credit
+     FROM journal_entries je
+     JOIN journal_lines jl ON jl.entry_id = je.id
+     JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+     LEFT JOIN accounts a ON la.account_id = a.id
+     WHERE je.user_id = ? AND je.entry_date BETWEEN ? AND ?
+     ORDER BY je.entry_date, je.id, jl.id`,
+    [userId, options.start_date || '1000-01-01', options.end_date || '9999-12-31']
+  ) as any[];
+
+  const records: Record<string, Map<number, { category: string; description: string | null }>> = {};
+  for (const source of CATEGORY_SOURCES) {
+    const [recordRows] = await connection.execute(
+      `SELECT id, category, description FROM ${CATEGORY_TABLES[source]} WHERE user_id = ?`,
+      [userId]
+    ) as any[];
+    records[source] = new Map(recordRows.map((record: any) => [record.id, record]));
+  }
+
+  // Split expenses post their expense side once per line, under the line's category; the
+  // money paid out stays one posting
+  const [splitRows] = await connection.execute(
+    "SELECT record_type, record_id, category, amount FROM record_splits WHERE user_id = ? AND record_type = 'expense' ORDER BY id",
+    [userId]
+  ) as any[];
+  const splits = new Map<string, { category: string; amount: number }[]>();
+  for (const split of splitRows) {
+    const key = `${split.record_type}-${split.record_id}`;
+    splits.set(key, [...(splits.get(key) || []), { category: split.category, amount: parseFloat(split.amount) }]);
+  }
+
+  const systemNames = new Map<string, string>(
+    (Object.keys(SYSTEM_ACCOUNTS) as SystemAccountKey[]).map((key) => [SYSTEM_ACCOUNTS[key].code, SYSTEM_ACCOUNT_NAMES[key]])
+  );
+
+  const postingAccount = (row: any, splitCategory?: string): string[] => {
+    if (row.account_id && row.account_name) {
+      return ['Assets', MONEY_ACCOUNT_GROUPS[row.money_type] || 'Bank', row.account_name];
+    }
+
+    const parts = (systemNames.get(row.code) || `${ROOT_NAMES[row.account_type]}:${row.name}`).split(':');
+    if (!CATEGORY_ACCOUNT_TYPES.includes(row.account_type)) {
+      return parts;
+    }
+    const category = splitCategory
+      || (CATEGORY_SOURCES.includes(row.source_type) ? records[row.source_type].get(row.source_id)?.category : null);
+    return category ? [...parts, category] : parts;
+  };
+
+  // Income and expenses keep their own description so they read back unchanged;
+  // everything else uses the journal's description
+  const description = (row: any): string => {
+    const record = row.source_type === 'income' || row.source_type === 'expense' ? records[row.source_type].get(row.source_id) : null;
+    return (record ? record.description || record.category : row.description) || row.source_type;
+  };
+
+  // Group lines into transactions
+  const transactions: { entry_id: number; date: string; description: string; source: string; postings: { account: string; amount: number }[] }[] = [];
+  for (const row of rows) {
+    let transaction = transactions[transactions.length - 1];
+    if (!transaction || transaction.entry_id !== row.entry_id) {
+      transaction = {
+        entry_id: row.entry_id,
+        date: dateString(row.entry_date),
+        description: description(row),
+        source: row.source_id ? `${row.source_type}-${row.source_id}` : row.source_type,
+        postings: []
+      };
+      transactions.push(transaction);
+    }
+    const amount = roundMoney(parseFloat(row.debit) - parseFloat(row.credit));
+    const lines = CATEGORY_ACCOUNT_TYPES.includes(row.account_type) ? splits.get(`${row.source_type}-${row.source_id}`) : undefined;
+    if (!lines) {
+      transaction.postings.push({ account: accountName(syntax, postingAccount(row)), amount });
+      continue;
+    }
+
+    // Share the posting out in proportion to the lines, the last line taking any rounding
+    const linesTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    let remaining = amount;
+    lines.forEach((line, index) => {
+      const share = index === lines.length - 1 ? remaining : roundMoney(amount * line.amount / linesTotal);
+      remaining = roundMoney(remaining - share);
+      transaction.postings.push({ account: accountName(syntax, postingAccount(row, line.category)), amount: share });
+    });
+  }
+
+  const commodity = options.commodity;
+  const accounts = Array.from(new Set(transactions.flatMap((transaction) => transaction.postings.map((posting) => posting.account)))).sort();
+  const lines: string[] = [];
+
+  if (syntax === 'beancount') {
+    const openDate = transactions.length > 0 ? transactions[0].date : todayString();
+    lines.push(
+      `; Exported ${todayString()}`,
+      `option "operating_currency" ${quote(commodity)}`,
+      '',
+      ...accounts.map((account) => `${openDate} open ${account}`),
+      ''
+    );
+
+    for (const transaction of transactions) {
+      lines.push(
+        `${transaction.date} * ${quote(transaction.description)}`,
+        `  source: ${quote(transaction.source)}`,
+        ...transaction.postings.map((posting) => `  ${posting.account}  ${posting.amount.toFixed(2)} ${commodity}`),
+        ''
+      );
+    }
+  } else {
+    lines.push(
+      `; Exported ${todayString()}`,
+      `commodity 1,000.00 ${commodity}`,
+      '',
+      ...accounts.map((account) => `account ${account}`),
+      ''
+    );
+
+    for (const transaction of transactions) {
+      lines.push(
+        `${transaction.date} * ${transaction.description.replace(/[;\r\n]+/g, ' ')}`,
+        `    ; source: ${transaction.source}`,
+        ...transaction.postings.map((posting) => `    ${posting.account}  ${posting.amount.toFixed(2)} ${commodity}`),
+        ''
+      );
+    }
+  }
+
+  return lines.join('\n');
+};
+
+export interface PlainTextPosting {
+  account: string;
+  amount: number | null;
+  commodity: string;
+}
+
+export interface PlainTextTransaction {
+  line_number: number;
+  date: string;
+  description: string;
+  tags: Record<string, string>;
+  postings: PlainTextPosting[];
+}
+
+// Amount text such as "-1,234.50 USD", "$12" or "USD 3.00 @ 1.1 EUR": the number and its commodity.
+// Prices, lot costs and balance assertions after the amount are ignored.
+const parseAmountText = (text: string): { amount: number; commodity: string } | null => {
+  const value = text.split(/\s*[@={]/)[0].trim();
+  if (!value) {
+    return null;
+  }
+
+  const amount = parseImportAmount(value, 'dot');
+  if (amount === null) {
+    return null;
+  }
+
+  return {
+    amount: parseFloat(amount),
+    commodity: value.replace(/[\d.,\s()-]/g, '').replace(/"/g, '')
+  };
+};
+
+// Metadata written as "key: value" (quotes around the value are dropped)
+const parseTags = (comment: string, tags: Record<string, string>) => {
+  for (const match of comment.matchAll(/([A-Za-z][\w-]*):\s*("[^"]*"|[^,;]*)/g)) {
+    tags[match[1].toLowerCase()] = match[2].replace(/^"|"$/g, '').trim();
+  }
+};
+
+// Parse a ledger/hledger or beancount journal into transactions. Directives (account, open,
+// option, price, balance, include...) and comments are skipped. Returns the transactions
+// and the line numbers of postings that could not be read.
+export const parsePlainTextJournal = (text: string, syntax: PlainTextSyntax) => {
+  const transactions: PlainTextTransaction[] = [];
+  const errors: { line_number: number; message: string }[] = [];
+  let current: PlainTextTransaction | null = null;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/\s+$/, '');
+
+    if (!line || /^[;#%*|]/.test(line)) {
+      if (!line) {
+        current = null;
+      }
+      return;
+    }
+
+    if (!/^\s/.test(line)) {
+      current = null;
+      const header = syntax === 'beancount'
+        ? line.match(/^(\d{4}-\d{2}-\d{2})\s+(?:\*|!|txn)\s*(.*)$/)
+        : line.match(/^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2})(?:=\S+)?\s*(.*)$/);
+      if (!header) {
+        return;
+      }
+
+      const date = parseImportDate(header[1].replace(/[/.]/g, '-'), 'YYYY-MM-DD');
+      if (!date) {
+        errors.push({ line_number: lineNumber, message: `Invalid date "${header[1]}"` });
+        return;
+      }
+
+      const tags: Record<string, string> = {};
+      let description: string;
+      if (syntax === 'beancount') {
+        const strings = Array.from(header[2].matchAll(/"((?:[^"\\]|\\.)*)"/g)).map((match) => match[1].replace(/\\(.)/g, '$1'));
+        description = strings.length > 1 ? `${strings[0]} ${strings[1]}`.trim() : strings[0] || '';
+        const rest = header[2].replace(/"((?:[^"\\]|\\.)*)"/g, '');
+        const comment = rest.indexOf(';');
+        if (comment >= 0) {
+          parseTags(rest.slice(comment + 1), tags);
+        }
+      } else {
+        const comment = header[2].indexOf(';');
+        description = (comment >= 0 ? header[2].slice(0, comment) : header[2])
+          .replace(/^[*!]\s*/, '')
+          .replace(/^\([^)]*\)\s*/, '')
+          .trim();
+        if (comment >= 0) {
+          parseTags(header[2].slice(comment + 1), tags);
+        }
+      }
+
+      current = { line_number: lineNumber, date, description, tags, postings: [] };
+      transactions.push(current);
+      return;
+    }
+
+    if (!current) {
+      return;
+    }
+    const transaction: PlainTextTransaction = current;
+
+    const content = line.trim();
+    if (content.startsWith(';') || content.startsWith('#')) {
+      parseTags(content.slice(1), transaction.tags);
+      return;
+    }
+
+    // beancount metadata: "key: value" lines under the transaction
+    if (syntax === 'beancount' && /^[a-z][\w-]*:\s/.test(content)) {
+      parseTags(content, transaction.tags);
+      return;
+    }
+
+    const withoutComment = content.split(/\s;|^;/)[0];
+    const posting = syntax === 'beancount'
+      ? withoutComment.replace(/^[!*]\s+/, '').match(/^(\S+)\s*(.*)$/)
+      : withoutComment.replace(/^[!*]\s+/, '').match(/^(.+?)(?:\s{2,}|\t)\s*(.*)$|^(.+)$/);
+    if (!posting) {
+      return;
+    }
+
+    const account = (posting[1] || posting[3] || '').trim();
+    const amountText = (posting[2] || '').trim();
+    if (!amountText) {
+      transaction.postings.push({ account, amount: null, commodity: '' });
+      return;
+    }
+
+    const amount = parseAmountText(amountText);
+    if (!amount) {
+      errors.push({ line_number: lineNumber, message: `Could not read the amount "${amountText}"` });
+      return;
+    }
+    transaction.postings.push({ account, ...amount });
+  });
+
+  return { transactions, errors };
+};
+
+export type PlainTextRecordType = 'income' | 'expense' | 'transfer';
+
+export interface PlainTextRecord {
+  type: PlainTextRecordType;
+  date: string;
+  description: string;
+  amount: number;
+  category: string | null;
+  account_id: number | null;
+  to_account_id: number | null;
+}
+
+export interface PlainTextImportLine {
+  line_number: number;
+  date: string;
+  description: string;
+  status: 'new' | 'duplicate' | 'unclassified';
+  records: PlainTextRecord[];
+  reason: string | null;
+}
+
+// Source types this import can create, and where their records live
+const IMPORTABLE_SOURCES: Record<string, string> = {
+  income: "SELECT id FROM income WHERE id = ? AND user_id = ?",
+  expense: "SELECT id FROM expenses WHERE id = ? AND user_id = ?",
+  transfer: "SELECT id FROM transactions WHERE id = ? AND user_id = ? AND transaction_type = 'transfer'"
+};
+
+const CASH_ON_HAND_NAMES = ['cashonhand', 'cash'];
+
+// Work out what each journal transaction is in our terms:
+//  - one cash/bank posting against Income:... postings: an income per category
+//  - one cash/bank posting against Expenses:... postings: an expense per category
+//  - two cash/bank postings: a transfer
+// Transactions tagged with a record that still exists are duplicates. Anything else
+// (loans, sales, opening balances, unknown accounts, refunds) is reported as unclassified.
+export const classifyPlainTextTransactions = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  transactions: PlainTextTransaction[]
+): Promise<PlainTextImportLine[]> => {
+  const [accounts] = await connection.execute(
+    'SELECT id, account_name FROM accounts WHERE user_id = ?',
+    [userId]
+  ) as any[];
+  const [categoryRows] = await connection.execute(
+    'SELECT name, type FROM categories WHERE user_id = ?',
+    [userId]
+  ) as any[];
+
+  const findAccount = (name: string) => accounts.find((account: any) => normalizeName(account.account_name) === normalizeName(name));
+  const categoryName = (type: 'income' | 'expense', parts: string[]) => {
+    const name = parts.join(':');
+    const existing = categoryRows.find((category: any) => category.type === type && normalizeName(category.name) === normalizeName(name));
+    return existing ? existing.name : name.replace(/-/g, ' ');
+  };
+
+  const results: PlainTextImportLine[] = [];
+  for (const transaction of transactions) {
+    const result: PlainTextImportLine = {
+      line_number: transaction.line_number,
+      date: transaction.date,
+      description: transaction.description,
+      status: 'unclassified',
+      records: [],
+      reason: null
+    };
+    results.push(result);
+
+    const source = transaction.tags.source?.match(/^([a-z_]+)-(\d+)$/);
+    if (source) {
+      if (!IMPORTABLE_SOURCES[source[1]]) {
+        result.reason = `${source[1].replace(/_/g, ' ')} records are not imported`;
+        continue;
+      }
+      const [existing] = await connection.execute(IMPORTABLE_SOURCES[source[1]], [parseInt(source[2]), userId]) as any[];
+      if (existing.length > 0) {
+        result.status = 'duplicate';
+        result.reason = `Already recorded (${source[1]} #${source[2]})`;
+        continue;
+      }
+    } else if (transaction.tags.source) {
+      result.reason = `${transaction.tags.source} entries are not imported`;
+      continue;
+    }
+
+    // Fill in the one posting left without an amount
+    const postings = transaction.postings.filter((posting) => !/^[([]/.test(posting.account));
+    const missing = postings.filter((posting) => posting.amount === null);
+    const commodities = new Set(postings.filter((posting) => posting.amount !== null).map((posting) => posting.commodity));
+    if (postings.length < 2 || missing.length > 1) {
+      result.reason = 'Needs at least two postings with at most one amount left out';
+      continue;
+    }
+    if (commodities.size > 1) {
+      result.reason = 'Postings use more than one commodity';
+      continue;
+    }
+    const total = roundMoney(postings.reduce((sum, posting) => sum + (posting.amount || 0), 0));
+    if (missing.length === 1) {
+      missing[0].amount = -total;
+    } else if (total !== 0) {
+      result.reason = 'Postings do not balance';
+      continue;
+    }
+
+    const money: { account_id: number | null; amount: number }[] = [];
+    const income: { category: string; amount: number }[] = [];
+    const expenses: { category: string; amount: number }[] = [];
+    const unknown: string[] = [];
+
+    for (const posting of postings) {
+      const parts = posting.account.split(':').map((part) => part.trim());
+      const root = parts[0].toLowerCase();
+      const amount = roundMoney(posting.amount as number);
+
+      if ((root === 'assets' || root === 'asset') && parts.length > 1) {
+        const rest = parts.slice(1);
+        if (CASH_ON_HAND_NAMES.includes(normalizeName(rest.join('')))) {
+          money.push({ account_id: null, amount });
+          continue;
+        }
+        const account = findAccount(rest[rest.length - 1]);
+        if (account) {
+          money.push({ account_id: account.id, amount });
+          continue;
+        }
+      } else if ((root === 'income' || root === 'revenue' || root === 'revenues') && parts.length > 1) {
+        income.push({ category: categoryName('income', parts.slice(1)), amount });
+        continue;
+      } else if ((root === 'expenses' || root === 'expense') && parts.length > 1) {
+        expenses.push({ category: categoryName('expense', parts.slice(1)), amount });
+        continue;
+      }
+      unknown.push(posting.account);
+    }
+
+    const categoryTooLong = [...income, ...expenses].find((item) => item.category.length > 50);
+    if (unknown.length > 0) {
+      result.reason = `Unknown account${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+    } else if (categoryTooLong) {
+      result.reason = `Category "${categoryTooLong.category}" is longer than 50 characters`;
+    } else if (money.length === 2 && income.length === 0 && expenses.length === 0) {
+      const from = money.find((posting) => posting.amount < 0);
+      const to = money.find((posting) => posting.amount > 0);
+      if (!from || !to || !from.account_id || !to.account_id || from.account_id === to.account_id) {
+        result.reason = 'Transfers need two different cash/bank accounts';
+      } else {
+        result.records.push({
+          type: 'transfer',
+          date: transaction.date,
+          description: transaction.description,
+          amount: to.amount,
+          category: null,
+          account_id: from.account_id,
+          to_account_id: to.account_id
+        });
+      }
+    } else if (money.length === 1 && income.length > 0 && expenses.length === 0
+      && money[0].amount > 0 && income.every((posting) => posting.amount < 0)) {
+      result.records.push(...income.map((posting) => ({
+        type: 'income' as const,
+        date: transaction.date,
+        description: transaction.description,
+        amount: -posting.amount,
+        category: posting.category,
+        account_id: money[0].account_id,
+        to_account_id: null
+      })));
+    } else if (money.length === 1 && expenses.length > 0 && income.length === 0
+      && money[0].amount < 0 && expenses.every((posting) => posting.amount > 0)) {
+      result.records.push(...expenses.map((posting) => ({
+        type: 'expense' as const,
+        date: transaction.date,
+        description: transaction.description,
+        amount: posting.amount,
+        category: posting.category,
+        account_id: money[0].account_id,
+        to_account_id: null
+      })));
+    } else {
+      result.reason = 'Not a simple income, expense or transfer';
+    }
+
+    if (result.records.length > 0) {
+      result.status = 'new';
+    }
+  }
+
+  return results;
+};
+
+// Create the records for classified journal lines in date order, so transfers see the
+// balances built up by earlier lines. Runs inside the caller's transaction.
+export const importPlainTextRecords = async (
+  connection: PoolConnection,
+  userId: number,
+  lines: PlainTextImportLine[]
+) => {
+  const records = lines
+    .filter((line) => line.status === 'new')
+    .flatMap((line) => line.records.map((record) => ({ ...record, line_number: line.line_number })))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.line_number - b.line_number);
+
+  const created = { income: 0, expense: 0, transfer: 0 };
+  for (const record of records) {
+    try {
+      if (record.type === 'income') {
+        await createIncomeRecord(connection, userId, {
+          amount: record.amount.toFixed(2),
+          description: record.description || null,
+          category: record.category || 'General',
+          account_id: record.account_id,
+          date: record.date
+        });
+      } else if (record.type === 'expense') {
+        await createExpenseRecord(connection, userId, {
+          amount: record.amount.toFixed(2),
+          description: record.description || null,
+          category: record.category || 'General',
+          account_id: record.account_id,
+          date: record.date
+        });
+      } else {
+        await createTransfer(connection, userId, {
+          from_account_id: record.account_id as number,
+          to_account_id: record.to_account_id as number,
+          amount: record.amount.toFixed(2),
+          description: record.description || null,
+          date: record.date
+        });
+      }
+    } catch (error: any) {
+      if (error.status) {
+        error.message = `Line ${record.line_number}: ${error.message}`;
+      }
+      throw error;
+    }
+    created[record.type]++;
+  }
+
+  return created;
+};
+
+// Syntax of an uploaded journal from its extension (.beancount/.bean, otherwise ledger)
+export const detectPlainTextSyntax = (fileName: string): PlainTextSyntax => {
+  const extension = path.extname(fileName).toLowerCase();
+  return extension === '.beancount' || extension === '.bean' ? 'beancount' : 'hledger';
+};
@@ -0,0 +1,286 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { addDays, todayString } from './dates';
+import { InvoiceItemInput, calculateInvoiceLine, getInvoiceSettings, setInvoiceItems } from './invoices';
+import { createSaleRecord } from './sales';
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
+export interface QuotationItemInput extends InvoiceItemInput {
+  unit_cost?: number | string | null;
+}
+
+export interface QuotationSaleInput {
+  date: string;
+  status?: 'pending' | 'completed';
+  payment_method: string;
+  account_id?: number | null;
+  category: string;
+}
+
+// Quotes that can still be turned into an invoice or sales: anything not rejected or
+// already converted
+export const CONVERTIBLE_QUOTATION_STATUSES: QuotationStatus[] = ['draft', 'sent', 'accepted', 'expired'];
+
+// Columns returned for a quotation, with the customer's current details and the invoice it became
+export const QUOTATION_SELECT = `
+  SELECT
+    q.id, q.quote_number, q.customer_id, q.customer_name, q.issue_date, q.valid_until, q.status,
+    q.subtotal, q.discount_total, q.tax_total, q.total, q.notes, q.converted_to, q.converted_at,
+    q.invoice_id, q.created_at, q.updated_at,
+    c.contact AS customer_contact, c.email AS customer_email,
+    i.invoice_number
+  FROM quotations q
+  LEFT JOIN customers c ON q.customer_id = c.id
+  LEFT JOIN invoices i ON q.invoice_id = i.id
+`;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Mark the user's sent quotes whose validity has run out as expired. Called before quotes are
+// read or acted on, so the stored status is always current.
+export const expireQuotations = async (connection: Pool | PoolConnection, userId: number) => {
+  await connection.execute(
+    "UPDATE quotations SET status = 'expired' WHERE user_id = ? AND status = 'sent' AND valid_until < ?",
+    [userId, todayString()]
+  );
+};
+
+// Replace the lines of a quotation and recalculate its totals. Runs inside the caller's transaction.
+export const setQuotationItems = async (connection: PoolConnection, quotationId: number, items: QuotationItemInput[]) => {
+  await connection.execute('DELETE FROM quotation_items WHERE quotation_id = ?', [quotationId]);
+
+  const totals = { subtotal: 0, discount_total: 0, tax_total: 0, total: 0 };
+
+  for (const [position, item] of items.entries()) {
+    const line = calculateInvoiceLine(item);
+    const unitCost = item.unit_cost === undefined || item.unit_cost === null || item.unit_cost === '' ? null : item.unit_cost;
+
+    await connection.execute(`
+      INSERT INTO quotation_items
+      (quotation_id, position, description, purchase_category, quantity, unit_price, unit_cost, discount_percent,
+       tax_rate, line_subtotal, discount_amount, tax_amount, line_total)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      quotationId, position, item.description, item.purchase_category || null, item.quantity, item.unit_price,
+      item.purchase_category ? null : unitCost, item.discount_percent || 0, item.tax_rate || 0,
+      line.line_subtotal, line.discount_amount, line.tax_amount, line.line_total
+    ]);
+
+    totals.subtotal += line.line_subtotal;
+    totals.discount_total += line.discount_amount;
+    totals.tax_total += line.tax_amount;
+    totals.total += line.line_total;
+  }
+
+  await connection.execute(
+    'UPDATE quotations SET subtotal = ?, discount_total = ?, tax_total = ?, total = ? WHERE id = ?',
+    [
+      roundMoney(totals.subtotal), roundMoney(totals.discount_total), roundMoney(totals.tax_total),
+      roundMoney(totals.total), quotationId
+    ]
+  );
+};
+
+// A quotation with its lines, or null if it doesn't belong to the user
+export const getQuotation = async (connection: Pool | PoolConnection, userId: number, quotationId: number) => {
+  const [quotations] = await connection.execute(`
+    ${QUOTATION_SELECT}
+    WHERE q.id = ? AND q.user_id = ?
+  `, [quotationId, userId]) as any[];
+
+  if (quotations.length === 0) {
+    return null;
+  }
+
+  const [items] = await connection.execute(
+    'SELECT * FROM quotation_items WHERE quotation_id = ? ORDER BY position, id',
+    [quotationId]
+  ) as any[];
+
+  return { ...quotations[0], items };
+};
+
+// Record that a quote was taken up; converting a quote means the customer accepted it
+const markConverted = async (connection: PoolConnection, quotationId: number, convertedTo: 'invoice' | 'sale', invoiceId: number | null) => {
+  await connection.execute(
+    `UPDATE quotations
+     SET status = 'accepted', converted_to = ?, converted_at = CURRENT_TIMESTAMP, invoice_id = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [convertedTo, invoiceId, quotationId]
+  );
+};
+
+// Undo the conversion of the quote a deleted draft invoice came from. The quote stays accepted,
+// so it can be converted again. Runs inside the caller's transaction.
+export const reopenConvertedQuotation = async (connection: PoolConnection, userId: number, invoiceId: number) => {
+  await connection.execute(
+    `UPDATE quotations
+     SET converted_to = NULL, converted_at = NULL, invoice_id = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE invoice_id = ? AND user_id = ?`,
+    [invoiceId, userId]
+  );
+};
+
+// Unlink a sale about to be deleted from the quote line it was converted from. Once none of the
+// quote's sales are left, the quote is reopened like one whose invoice was deleted.
+// Runs inside the caller's transaction.
+export const releaseQuotationSale = async (connection: PoolConnection, userId: number, saleId: number) => {
+  const [lines] = await connection.execute(
+    `SELECT qi.id, qi.quotation_id FROM quotation_items qi
+     JOIN quotations q ON q.id = qi.quotation_id
+     WHERE qi.sale_id = ? AND q.user_id = ?`,
+    [saleId, userId]
+  ) as any[];
+  if (lines.length === 0) return;
+
+  await connection.execute('UPDATE quotation_items SET sale_id = NULL WHERE sale_id = ?', [saleId]);
+
+  const quotationId = lines[0].quotation_id;
+  const [remaining] = await connection.execute(
+    'SELECT COUNT(*) AS count FROM quotation_items WHERE quotation_id = ? AND sale_id IS NOT NULL',
+    [quotationId]
+  ) as any[];
+  if (Number(remaining[0].count) === 0) {
+    await connection.execute(
+      `UPDATE quotations
+       SET converted_to = NULL, converted_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ? AND converted_to = 'sale'`,
+      [quotationId, userId]
+    );
+  }
+};
+
+// Copy a quote into a draft invoice with the same customer and lines, issued today and due
+// after the invoice payment terms. Returns the invoice ID. Runs inside the caller's transaction.
+export const convertQuotationToInvoice = async (connection: PoolConnection, userId: number, quotation: any): Promise<number> => {
+  const settings = await getInvoiceSettings(connection, userId);
+  const issueDate = todayString();
+  const notes = [`From quotation ${quotation.quote_number}`, quotation.notes].filter(Boolean).join('\n');
+
+  const [invoiceResult] = await connection.execute(
+    `INSERT INTO invoices (user_id, customer_id, customer_name, issue_date, due_date, notes)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [userId, quotation.customer_id, quotation.customer_name, issueDate, addDays(issueDate, settings.payment_terms_days), notes]
+  ) as any[];
+  const invoiceId = invoiceResult.insertId;
+
+  await setInvoiceItems(connection, invoiceId, quotation.items);
+  await markConverted(connection, quotation.id, 'invoice', invoiceId);
+
+  return invoiceId;
+};
+
+// Record a quote straight as sales, one per line at the quoted line total. Lines sold from
+// stock take their cost from stock; other lines need the unit cost entered on the quote.
+// Returns the new sale IDs. Runs inside the caller's transaction.
+export const convertQuotationToSales = async (
+  connection: PoolConnection,
+  userId: number,
+  quotation: any,
+  input: QuotationSaleInput
+): Promise<number[]> => {
+  const { date, status = 'completed', payment_method, account_id = null, category } = input;
+
+  const uncosted = quotation.items.find((item: any) => !item.purchase_category && !(parseFloat(item.unit_cost) > 0));
+  if (uncosted) {
+    throw Object.assign(
+      new Error(`Enter a unit cost for "${uncosted.description}" on the quote, or convert it to an invoice instead`),
+      { status: 400 }
+    );
+  }
+
+  const saleIds: number[] = [];
+  for (const item of quotation.items) {
+    const saleId = await createSaleRecord(connection, userId, {
+      purchase_category: item.purchase_category,
+      quantity: item.purchase_category ? item.quantity : null,
+      amount: item.purchase_category ? null : roundMoney(parseFloat(item.quantity) * parseFloat(item.unit_cost)),
+      selling_price: item.line_total,
+      description: `${quotation.quote_number}: ${item.description}`,
+      category,
+      customer_id: quotation.customer_id,
+      customer_name: quotation.customer_name,
+      payment_method,
+      account_id,
+      date,
+      status,
+      notes: `Quotation ${quotation.quote_number}`
+    });
+
+    await connection.execute('UPDATE quotation_items SET sale_id = ? WHERE id = ?', [saleId, item.id]);
+    saleIds.push(saleId);
+  }
+
+  await markConverted(connection, quotation.id, 'sale', null);
+
+  return saleIds;
+};
+
+// How many of the quotes issued in a period (by issue date) were converted into invoices or
+// sales, by count and by value, with the same figures per month. Drafts never sent are left out.
+export const getQuoteConversion = async (connection: Pool | PoolConnection, userId: number, startDate: string, endDate: string) => {
+  await expireQuotations(connection, userId);
+
+  const rate = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+  const [totals] = await connection.execute(
+    `SELECT
+       COUNT(*) AS quoted_count,
+       COALESCE(SUM(total), 0) AS quoted_value,
+       COUNT(converted_at) AS converted_count,
+       COALESCE(SUM(IF(converted_at IS NOT NULL, total, 0)), 0) AS converted_value,
+       COUNT(IF(converted_to = 'invoice', 1, NULL)) AS converted_to_invoice,
+       COUNT(IF(converted_to = 'sale', 1, NULL)) AS converted_to_sale,
+       COUNT(IF(status = 'accepted' AND converted_at IS NULL, 1, NULL)) AS accepted_count,
+       COUNT(IF(status = 'rejected', 1, NULL)) AS rejected_count,
+       COUNT(IF(status = 'expired', 1, NULL)) AS expired_count,
+       COUNT(IF(status = 'sent', 1, NULL)) AS open_count,
+       AVG(IF(converted_at IS NOT NULL, DATEDIFF(converted_at, issue_date), NULL)) AS avg_days_to_convert
+     FROM quotations
+     WHERE user_id = ? AND status != 'draft' AND issue_date BETWEEN ? AND ?`,
+    [userId, startDate, endDate]
+  ) as any[];
+
+  const [months] = await connection.execute(
+    `SELECT
+       DATE_FORMAT(issue_date, '%Y-%m') AS month,
+       COUNT(*) AS quoted_count,
+       COALESCE(SUM(total), 0) AS quoted_value,
+       COUNT(converted_at) AS converted_count,
+       COALESCE(SUM(IF(converted_at IS NOT NULL, total, 0)), 0) AS converted_value
+     FROM quotations
+     WHERE user_id = ? AND status != 'draft' AND issue_date BETWEEN ? AND ?
+     GROUP BY month
+     ORDER BY month`,
+    [userId, startDate, endDate]
+  ) as any[];
+
+  const summary = totals[0];
+  const quotedCount = Number(summary.quoted_count);
+  const convertedCount = Number(summary.converted_count);
+
+  return {
+    period: { start_date: startDate, end_date: endDate },
+    quoted_count: quotedCount,
+    quoted_value: roundMoney(parseFloat(summary.quoted_value)),
+    converted_count: convertedCount,
+    converted_value: roundMoney(parseFloat(summary.converted_value)),
+    converted_to_invoice: Number(summary.converted_to_invoice),
+    converted_to_sale: Number(summary.converted_to_sale),
+    accepted_count: Number(summary.accepted_count),
+    rejected_count: Number(summary.rejected_count),
+    expired_count: Number(summary.expired_count),
+    open_count: Number(summary.open_count),
+    conversion_rate: rate(convertedCount, quotedCount),
+    value_conversion_rate: rate(parseFloat(summary.converted_value), parseFloat(summary.quoted_value)),
+    avg_days_to_convert: summary.avg_days_to_convert === null ? null : Math.round(parseFloat(summary.avg_days_to_convert) * 10) / 10,
+    monthly: months.map((month: any) => ({
+      month: month.month,
+      quoted_count: Number(month.quoted_count),
+      quoted_value: roundMoney(parseFloat(month.quoted_value)),
+      converted_count: Number(month.converted_count),
+      converted_value: roundMoney(parseFloat(month.converted_value)),
+      conversion_rate: rate(Number(month.converted_count), Number(month.quoted_count))
+    }))
+  };
+};
@@ -0,0 +1,402 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { findUserAccount, adjustAccountBalance } from './accounts';
+import { daysBetween, todayString, toDateString, parseDate } from './dates';
+import { syncJournalEntry } from './ledger';
+
+// Ages of unpaid balances, in days since the sale (0–30, 31–60, 61–90, over 90)
+export const AGING_BUCKETS = [
+  { key: 'days_0_30', label: '0–30 days', max: 30 },
+  { key: 'days_31_60', label: '31–60 days', max: 60 },
+  { key: 'days_61_90', label: '61–90 days', max: 90 },
+  { key: 'days_over_90', label: '90+ days', max: Infinity }
+] as const;
+
+export type AgingBucketKey = typeof AGING_BUCKETS[number]['key'];
+
+export type AgingTotals = Record<AgingBucketKey, number> & { total: number };
+
+// Amount received so far against a sale; use in queries that alias sales as `s`
+export const SALE_PAID_SQL = '(SELECT COALESCE(SUM(sp.amount), 0) FROM sale_payments sp WHERE sp.sale_id = s.id)';
+
+export interface SalePaymentInput {
+  amount: number | string;
+  payment_date: string;
+  payment_method?: string;
+  account_id?: number | null;
+  notes?: string | null;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyAgingTotals = (): AgingTotals => ({ days_0_30: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 });
+
+// Bucket an unpaid balance falls in, by days since the sale
+export const agingBucket = (days: number): AgingBucketKey => {
+  return AGING_BUCKETS.find((bucket) => days <= bucket.max)!.key;
+};
+
+// Amount received so far against a sale
+export const getSalePaidAmount = async (connection: Pool | PoolConnection, saleId: number): Promise<number> => {
+  const [rows] = await connection.execute(
+    'SELECT COALESCE(SUM(amount), 0) AS paid FROM sale_payments WHERE sale_id = ?',
+    [saleId]
+  ) as any[];
+  return parseFloat(rows[0].paid);
+};
+
+// Customer details to store on a sale. A customer_id is checked and its current name and
+// contact copied; a bare customer name is linked to the customer of that name if there is one.
+export const resolveSaleCustomer = async (
+  connection: PoolConnection,
+  userId: number,
+  input: { customer_id?: number | null; customer_name?: string | null; customer_contact?: string | null }
+): Promise<{ customer_id: number | null; customer_name: string | null; customer_contact: string | null }> => {
+  if (input.customer_id) {
+    const [customers] = await connection.execute(
+      'SELECT id, name, contact FROM customers WHERE id = ? AND user_id = ?',
+      [input.customer_id, userId]
+    ) as any[];
+    if (customers.length === 0) {
+      throw Object.assign(new Error('Customer not found'), { status: 404 });
+    }
+    return {
+      customer_id: customers[0].id,
+      customer_name: customers[0].name,
+      customer_contact: input.customer_contact || customers[0].contact
+    };
+  }
+
+  const name = (input.customer_name || '').trim();
+  if (name) {
+    const [customers] = await connection.execute(
+      'SELECT id, name FROM customers WHERE user_id = ? AND name = ?',
+      [userId, name]
+    ) as any[];
+    if (customers.length > 0) {
+      return { customer_id: customers[0].id, customer_name: customers[0].name, customer_contact: input.customer_contact || null };
+    }
+  }
+
+  return { customer_id: null, customer_name: name || null, customer_contact: input.customer_contact || null };
+};
+
+// Refuse a pending sale that would take its customer's unpaid balance over their credit limit.
+// excludeSaleId leaves out the sale being edited, whose new balance is passed in.
+export const assertCreditLimit = async (
+  connection: PoolConnection,
+  userId: number,
+  customerId: number | null,
+  saleBalance: number,
+  excludeSaleId: number | null = null
+) => {
+  if (!customerId || saleBalance <= 0) return;
+
+  const [customers] = await connection.execute(
+    'SELECT name, credit_limit FROM customers WHERE id = ? AND user_id = ?',
+    [customerId, userId]
+  ) as any[];
+  if (customers.length === 0 || customers[0].credit_limit === null) return;
+
+  const [rows] = await connection.execute(
+    `SELECT COALESCE(SUM(s.selling_price - ${SALE_PAID_SQL}), 0) AS outstanding
+     FROM sales s
+     WHERE s.user_id = ? AND s.customer_id = ? AND s.status = 'pending' AND s.id != ?`,
+    [userId, customerId, excludeSaleId || 0]
+  ) as any[];
+
+  const limit = parseFloat(customers[0].credit_limit);
+  const outstanding = roundMoney(parseFloat(rows[0].outstanding));
+  if (roundMoney(outstanding + saleBalance) > limit) {
+    throw Object.assign(
+      new Error(`This sale would take ${customers[0].name} over their credit limit of ${limit.toFixed(2)} (${outstanding.toFixed(2)} already outstanding)`),
+      { status: 400 }
+    );
+  }
+};
+
+// Record a payment received against a pending sale. The payment is credited to its account
+// straight away; once the sale is paid in full it is marked completed.
+// Used by POST /api/sales/:id/payments; runs inside the caller's transaction.
+export const recordSalePayment = async (
+  connection: PoolConnection,
+  userId: number,
+  saleId: number,
+  input: SalePaymentInput
+) => {
+  const { amount, payment_date, payment_method = 'Cash', account_id = null, notes = null } = input;
+
+  const [sales] = await connection.execute(
+    'SELECT id, selling_price, status, customer_name, description FROM sales WHERE id = ? AND user_id = ? FOR UPDATE',
+    [saleId, userId]
+  ) as any[];
+
+  if (sales.length === 0) {
+    throw Object.assign(new Error('Sale not found'), { status: 404 });
+  }
+
+  const sale = sales[0];
+  if (sale.status !== 'pending') {
+    throw Object.assign(new Error('Payments can only be recorded against pending sales'), { status: 400 });
+  }
+
+  // Check the receiving account belongs to user
+  if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  const paid = await getSalePaidAmount(connection, saleId);
+  const balance = roundMoney(parseFloat(sale.selling_price) - paid);
+  const paymentAmount = parseFloat(amount as string);
+
+  if (paymentAmount > balance) {
+    throw Object.assign(new Error(`Payment cannot exceed the balance due of ${balance.toFixed(2)}`), { status: 400 });
+  }
+
+  const [paymentResult] = await connection.execute(
+    `INSERT INTO sale_payments (user_id, sale_id, amount, payment_date, payment_method, account_id, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [userId, saleId, paymentAmount, payment_date, payment_method, account_id, notes]
+  ) as any[];
+  const paymentId = paymentResult.insertId;
+
+  // Credit the receiving account
+  await adjustAccountBalance(connection, userId, account_id, paymentAmount);
+
+  // Record transaction for audit trail
+  await connection.execute(
+    'INSERT INTO transactions (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [userId, 'sale', paymentId, 'sale_payments', paymentAmount,
+     `Payment received${sale.customer_name ? ` from ${sale.customer_name}` : ''}: ${sale.description || 'Sale'}`,
+     account_id, payment_date]
+  );
+
+  await syncJournalEntry(connection, userId, 'sale_payment', paymentId);
+
+  // A sale paid in full is complete; the payments already hold all of its money
+  const balanceDue = roundMoney(balance - paymentAmount);
+  if (balanceDue <= 0) {
+    await connection.execute(
+      "UPDATE sales SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [saleId]
+    );
+    await syncJournalEntry(connection, userId, 'sale', saleId);
+  }
+
+  const [payments] = await connection.execute(
+    'SELECT * FROM sale_payments WHERE id = ?',
+    [paymentId]
+  ) as any[];
+
+  return {
+    payment: payments[0],
+    amount_paid: roundMoney(paid + paymentAmount),
+    balance_due: balanceDue,
+    status: balanceDue <= 0 ? 'completed' : 'pending'
+  };
+};
+
+// Take back payments of a sale: their account credits, audit rows and journal entries.
+// Used when removing a payment and when deleting a sale; runs inside the caller's transaction.
+export const removeSalePayments = async (
+  connection: PoolConnection,
+  userId: number,
+  saleId: number,
+  paymentIds?: number[]
+) => {
+  const [payments] = await connection.execute(
+    'SELECT id, amount, account_id FROM sale_payments WHERE sale_id = ? AND user_id = ?',
+    [saleId, userId]
+  ) as any[];
+
+  const removed = payments.filter((payment: any) => !paymentIds || paymentIds.includes(payment.id));
+  for (const payment of removed) {
+    await adjustAccountBalance(connection, userId, payment.account_id, -parseFloat(payment.amount));
+    await connection.execute(
+      'DELETE FROM transactions WHERE reference_id = ? AND reference_table = ? AND user_id = ?',
+      [payment.id, 'sale_payments', userId]
+    );
+    await connection.execute('DELETE FROM sale_payments WHERE id = ?', [payment.id]);
+    await syncJournalEntry(connection, userId, 'sale_payment', payment.id);
+  }
+
+  return removed.length;
+};
+
+// Unpaid balance of every pending sale, aged as at a date and totalled per customer.
+// Sales without a linked customer are grouped by the name typed on them.
+export const getAgingReport = async (connection: Pool | PoolConnection, userId: number, asOf = todayString()) => {
+  const [rows] = await connection.execute(
+    `SELECT s.id, s.date, s.description, s.customer_id, COALESCE(c.name, s.customer_name) AS customer_name,
+      c.credit_limit, s.selling_price, ${SALE_PAID_SQL} AS amount_paid
+     FROM sales s
+     LEFT JOIN customers c ON c.id = s.customer_id
+     WHERE s.user_id = ? AND s.status = 'pending' AND s.date <= ?
+     ORDER BY s.date, s.id`,
+    [userId, asOf]
+  ) as any[];
+
+  const totals = emptyAgingTotals();
+  const customers = new Map<string, {
+    customer_id: number | null;
+    customer_name: string;
+    credit_limit: number | null;
+    sale_count: number;
+    oldest_date: string;
+  } & AgingTotals>();
+  const sales: any[] = [];
+
+  for (const row of rows) {
+    const balance = roundMoney(parseFloat(row.selling_price) - parseFloat(row.amount_paid));
+    if (balance <= 0) continue;
+
+    const date = toDateString(parseDate(row.date));
+    const days = daysBetween(date, asOf);
+    const bucket = agingBucket(days);
+    const customerName = row.customer_name || 'No customer';
+    const key = row.customer_id ? `id:${row.customer_id}` : `name:${customerName.toLowerCase()}`;
+
+    if (!customers.has(key)) {
+      customers.set(key, {
+        customer_id: row.customer_id,
+        customer_name: customerName,
+        credit_limit: row.credit_limit !== null ? parseFloat(row.credit_limit) : null,
+        sale_count: 0,
+        oldest_date: date,
+        ...emptyAgingTotals()
+      });
+    }
+    const customer = customers.get(key)!;
+    customer.sale_count++;
+    customer[bucket] = roundMoney(customer[bucket] + balance);
+    customer.total = roundMoney(customer.total + balance);
+    totals[bucket] = roundMoney(totals[bucket] + balance);
+    totals.total = roundMoney(totals.total + balance);
+
+    sales.push({
+      sale_id: row.id,
+      date,
+      description: row.description,
+      customer_id: row.customer_id,
+      customer_name: customerName,
+      selling_price: parseFloat(row.selling_price),
+      amount_paid: parseFloat(row.amount_paid),
+      balance_due: balance,
+      days_outstanding: days,
+      bucket
+    });
+  }
+
+  return {
+    as_of: asOf,
+    buckets: AGING_BUCKETS.map(({ key, label }) => ({ key, label })),
+    customers: Array.from(customers.values()).sort((a, b) => b.total - a.total),
+    sales,
+    totals
+  };
+};
+
+// Account of a customer over a period: what they were charged (sales) and what they paid,
+// with a running balance from the balance brought forward. Completed sales count as paid in
+// full on the sale date for whatever was not received as part-payments; cancelled sales
+// are left out.
+export const getCustomerStatement = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  customerId: number,
+  period: { start_date?: string; end_date?: string } = {}
+) => {
+  const endDate = period.end_date || todayString();
+
+  const [sales] = await connection.execute(
+    `SELECT s.id, s.date, s.description, s.selling_price, s.status, ${SALE_PAID_SQL} AS amount_paid
+     FROM sales s
+     WHERE s.user_id = ? AND s.customer_id = ? AND s.status != 'cancelled' AND s.date <= ?
+     ORDER BY s.date, s.id`,
+    [userId, customerId, endDate]
+  ) as any[];
+
+  const [payments] = await connection.execute(
+    `SELECT sp.id, sp.sale_id, sp.amount, sp.payment_date, sp.payment_method, sp.notes
+     FROM sale_payments sp
+     JOIN sales s ON s.id = sp.sale_id
+     WHERE sp.user_id = ? AND s.customer_id = ? AND s.status != 'cancelled' AND sp.payment_date <= ?
+     ORDER BY sp.payment_date, sp.id`,
+    [userId, customerId, endDate]
+  ) as any[];
+
+  const entries: {
+    date: string;
+    type: 'sale' | 'payment';
+    sale_id: number;
+    reference: string;
+    description: string;
+    debit: number;
+    credit: number;
+  }[] = [];
+
+  for (const sale of sales) {
+    const date = toDateString(parseDate(sale.date));
+    const price = parseFloat(sale.selling_price);
+    entries.push({
+      date,
+      type: 'sale',
+      sale_id: sale.id,
+      reference: `Sale #${sale.id}`,
+      description: sale.description || 'Sale',
+      debit: price,
+      credit: 0
+    });
+
+    const settled = roundMoney(price - parseFloat(sale.amount_paid));
+    if (sale.status === 'completed' && settled > 0) {
+      entries.push({
+        date,
+        type: 'payment',
+        sale_id: sale.id,
+        reference: `Sale #${sale.id}`,
+        description: 'Paid on completion',
+        debit: 0,
+        credit: settled
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    entries.push({
+      date: toDateString(parseDate(payment.payment_date)),
+      type: 'payment',
+      sale_id: payment.sale_id,
+      reference: `Payment #${payment.id}`,
+      description: payment.notes || `Payment (${payment.payment_method}) for sale #${payment.sale_id}`,
+      debit: 0,
+      credit: parseFloat(payment.amount)
+    });
+  }
+
+  // Charges before payments on the same day
+  entries.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'sale' ? -1 : 1));
+
+  let openingBalance = 0;
+  let balance = 0;
+  const lines: (typeof entries[number] & { balance: number })[] = [];
+  for (const entry of entries) {
+    balance = roundMoney(balance + entry.debit - entry.credit);
+    if (period.start_date && entry.date < period.start_date) {
+      openingBalance = balance;
+    } else {
+      lines.push({ ...entry, balance });
+    }
+  }
+
+  const totalCharged = roundMoney(lines.reduce((sum, line) => sum + line.debit, 0));
+  const totalPaid = roundMoney(lines.reduce((sum, line) => sum + line.credit, 0));
+
+  return {
+    period: { start_date: period.start_date || null, end_date: endDate },
+    opening_balance: openingBalance,
+    entries: lines,
+    total_charged: totalCharged,
+    total_paid: totalPaid,
+    closing_balance: balance
+  };
+};
@@ -0,0 +1,397 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { ADJUSTMENT_SOURCE } from './ledger';
+import { addDays, daysBetween, toDateString, parseDate } from './dates';
+import { StatementLineInput } from './bankStatements';
+
+// Days either side of a statement line's date searched for a matching book record
+export const MATCH_WINDOW_DAYS = 7;
+
+export interface BookEntry {
+  source_type: string;
+  source_id: number;
+  date: string;
+  description: string | null;
+  amount: number;
+  statement_line_id: number | null;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// A matched statement line whose record has since been deleted no longer has a journal entry
+const MATCHED_RECORD_EXISTS = `EXISTS (SELECT 1 FROM journal_entries je
+  WHERE je.user_id = bsl.user_id AND je.source_type = bsl.matched_source_type AND je.source_id = bsl.matched_source_id)`;
+
+const dateString = (value: string | Date): string => toDateString(parseDate(value));
+
+// Words of three or more letters/digits, for comparing statement and book descriptions
+const descriptionWords = (text: string | null): Set<string> => {
+  return new Set((text || '').toLowerCase().match(/[a-z0-9]{3,}/g) || []);
+};
+
+// Share of the shorter description's words that also appear in the other (0 to 1)
+const descriptionSimilarity = (a: string | null, b: string | null): number => {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  let common = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      common++;
+    }
+  });
+
+  return common / Math.min(wordsA.size, wordsB.size);
+};
+
+// Latest date the account has been reconciled to, or null if it never has
+export const getLastReconciledDate = async (
+  connection: Pool | PoolConnection,
+  accountId: number
+): Promise<string | null> => {
+  const [rows] = await connection.execute(
+    'SELECT MAX(reconciled_to) AS reconciled_to FROM reconciliations WHERE account_id = ?',
+    [accountId]
+  ) as any[];
+
+  return rows[0].reconciled_to ? dateString(rows[0].reconciled_to) : null;
+};
+
+// Refuse changes to statement lines in a period the account has already been reconciled for
+export const assertNotReconciled = async (
+  connection: Pool | PoolConnection,
+  accountId: number,
+  date: string | Date
+) => {
+  const reconciledTo = await getLastReconciledDate(connection, accountId);
+  if (reconciledTo && dateString(date) <= reconciledTo) {
+    throw Object.assign(
+      new Error(`Account is reconciled up to ${reconciledTo}; undo that reconciliation to change earlier lines`),
+      { status: 409 }
+    );
+  }
+};
+
+// What the account's records did to its balance: one entry per source record, taken from the
+// journal lines on the account's ledger account, with the statement line matched to it (if any)
+export const getBookEntries = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  accountId: number,
+  startDate: string,
+  endDate: string
+): Promise<BookEntry[]> => {
+  const [rows] = await connection.execute(
+    `SELECT je.source_type, je.source_id, je.entry_date, je.description,
+      SUM(jl.debit) - SUM(jl.credit) AS amount,
+      (SELECT bsl.id FROM bank_statement_lines bsl
+       WHERE bsl.account_id = la.account_id AND bsl.status = 'matched'
+         AND bsl.matched_source_type = je.source_type AND bsl.matched_source_id = je.source_id
+       LIMIT 1) AS statement_line_id
+     FROM journal_lines jl
+     JOIN journal_entries je ON jl.entry_id = je.id
+     JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+     WHERE je.user_id = ? AND la.account_id = ? AND je.entry_date BETWEEN ? AND ?
+     GROUP BY je.id, je.source_type, je.source_id, je.entry_date, je.description, la.account_id
+     HAVING amount != 0
+     ORDER BY je.entry_date, je.id`,
+    [userId, accountId, startDate, endDate]
+  ) as any[];
+
+  return rows.map((row: any) => ({
+    source_type: row.source_type,
+    source_id: row.source_id,
+    date: dateString(row.entry_date),
+    description: row.description,
+    amount: roundMoney(parseFloat(row.amount)),
+    statement_line_id: row.statement_line_id
+  }));
+};
+
+// The book entry for a source record on an account, or null if it didn't move the account's balance
+export const findBookEntry = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  accountId: number,
+  sourceType: string,
+  sourceId: number
+): Promise<BookEntry | null> => {
+  const [rows] = await connection.execute(
+    `SELECT MIN(je.entry_date) AS entry_date, MIN(je.description) AS description,
+      SUM(jl.debit) - SUM(jl.credit) AS amount
+     FROM journal_lines jl
+     JOIN journal_entries je ON jl.entry_id = je.id
+     JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+     WHERE je.user_id = ? AND la.account_id = ? AND je.source_type = ? AND je.source_id = ?`,
+    [userId, accountId, sourceType, sourceId]
+  ) as any[];
+
+  if (!rows[0].entry_date || parseFloat(rows[0].amount) === 0) {
+    return null;
+  }
+
+  const [lines] = await connection.execute(
+    `SELECT id FROM bank_statement_lines
+     WHERE account_id = ? AND status = 'matched' AND matched_source_type = ? AND matched_source_id = ?
+     LIMIT 1`,
+    [accountId, sourceType, sourceId]
+  ) as any[];
+
+  return {
+    source_type: sourceType,
+    source_id: sourceId,
+    date: dateString(rows[0].entry_date),
+    description: rows[0].description,
+    amount: roundMoney(parseFloat(rows[0].amount)),
+    statement_line_id: lines.length > 0 ? lines[0].id : null
+  };
+};
+
+// Match unmatched statement lines after the last reconciliation to unmatched book entries with
+// the same amount within the match window, preferring the closest date and then the most
+// similar description. Balance adjustments are never matched. Returns the number of lines matched.
+export const autoMatchStatementLines = async (
+  connection: PoolConnection,
+  userId: number,
+  accountId: number
+): Promise<number> => {
+  const reconciledTo = await getLastReconciledDate(connection, accountId);
+
+  // Lines matched to records that were deleted since are up for matching again
+  await connection.execute(
+    `UPDATE bank_statement_lines bsl
+     SET bsl.status = 'unmatched', bsl.matched_source_type = NULL, bsl.matched_source_id = NULL
+     WHERE bsl.account_id = ? AND bsl.status = 'matched' AND NOT ${MATCHED_RECORD_EXISTS}`,
+    [accountId]
+  );
+
+  const [lines] = await connection.execute(
+    `SELECT id, date, amount, description FROM bank_statement_lines
+     WHERE account_id = ? AND user_id = ? AND status = 'unmatched' AND date > ?
+     ORDER BY date, id`,
+    [accountId, userId, reconciledTo || '1000-01-01']
+  ) as any[];
+
+  if (lines.length === 0) {
+    return 0;
+  }
+
+  const firstDate = dateString(lines[0].date);
+  const lastDate = dateString(lines[lines.length - 1].date);
+  const candidates = (await getBookEntries(
+    connection, userId, accountId, addDays(firstDate, -MATCH_WINDOW_DAYS), addDays(lastDate, MATCH_WINDOW_DAYS)
+  )).filter((entry) => entry.statement_line_id === null && entry.source_type !== ADJUSTMENT_SOURCE);
+
+  let matched = 0;
+  for (const line of lines) {
+    const lineDate = dateString(line.date);
+    const amount = roundMoney(parseFloat(line.amount));
+
+    let bestIndex = -1;
+    let bestScore = 0;
+    candidates.forEach((entry, index) => {
+      const days = Math.abs(daysBetween(lineDate, entry.date));
+      if (entry.amount !== amount || days > MATCH_WINDOW_DAYS) {
+        return;
+      }
+      const score = days - descriptionSimilarity(line.description, entry.description) * 3;
+      if (bestIndex === -1 || score < bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+
+    if (bestIndex !== -1) {
+      const [entry] = candidates.splice(bestIndex, 1);
+      await connection.execute(
+        "UPDATE bank_statement_lines SET status = 'matched', matched_source_type = ?, matched_source_id = ? WHERE id = ?",
+        [entry.source_type, entry.source_id, line.id]
+      );
+      matched++;
+    }
+  }
+
+  return matched;
+};
+
+// Save a parsed statement for an account, skipping lines already imported from an earlier
+// statement (same date, amount and reference or description), then auto-match the new lines.
+// Runs inside the caller's transaction.
+export const importStatement = async (
+  connection: PoolConnection,
+  userId: number,
+  accountId: number,
+  fileName: string | null,
+  statement: {
+    format: string;
+    lines: StatementLineInput[];
+    start_date: string | null;
+    end_date: string | null;
+    opening_balance: number | null;
+    closing_balance: number | null;
+  }
+) => {
+  const [existing] = await connection.execute(
+    `SELECT date, amount, description, reference FROM bank_statement_lines
+     WHERE account_id = ? AND date BETWEEN ? AND ?`,
+    [accountId, statement.start_date, statement.end_date]
+  ) as any[];
+
+  const lineKey = (date: string, amount: number, description: string | null, reference: string | null) =>
+    [date, amount.toFixed(2), reference || description || ''].join('|');
+  const seen = new Set<string>(existing.map((line: any) =>
+    lineKey(dateString(line.date), parseFloat(line.amount), line.description, line.reference)
+  ));
+
+  const newLines = statement.lines.filter((line) => {
+    const key = lineKey(line.date, line.amount, line.description, line.reference);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const [result] = await connection.execute(
+    `INSERT INTO bank_statements (user_id, account_id, file_name, format, start_date, end_date, opening_balance, closing_balance, line_count)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [userId, accountId, fileName, statement.format, statement.start_date, statement.end_date,
+      statement.opening_balance, statement.closing_balance, newLines.length]
+  ) as any[];
+
+  const statementId = result.insertId;
+
+  for (const line of newLines) {
+    await connection.execute(
+      `INSERT INTO bank_statement_lines (statement_id, user_id, account_id, date, amount, description, reference)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [statementId, userId, accountId, line.date, line.amount, line.description || null, line.reference]
+    );
+  }
+
+  const matched = await autoMatchStatementLines(connection, userId, accountId);
+
+  const [statements] = await connection.execute(
+    'SELECT * FROM bank_statements WHERE id = ?',
+    [statementId]
+  ) as any[];
+
+  return {
+    statement: statements[0],
+    imported: newLines.length,
+    duplicates: statement.lines.length - newLines.length,
+    matched
+  };
+};
+
+// The account's balance according to its records (the journal) at the end of a date
+export const getBookBalance = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  accountId: number,
+  asOf: string
+): Promise<number> => {
+  const [rows] = await connection.execute(
+    `SELECT COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0) AS balance
+     FROM journal_lines jl
+     JOIN journal_entries je ON jl.entry_id = je.id
+     JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+     WHERE je.user_id = ? AND la.account_id = ? AND je.entry_date <= ?`,
+    [userId, accountId, asOf]
+  ) as any[];
+
+  return roundMoney(parseFloat(rows[0].balance));
+};
+
+// Compare the bank's balance with the book balance at a date and explain the difference:
+//   statement lines not in the books (unmatched, or matched to a deleted record) and lines deliberately left out (ignored)
+//   are on the bank's side only; book entries with no statement line are on ours only.
+// Book entries are only expected on a statement from the first imported line onwards; anything
+// older (and the bank's opening balance) shows up as unexplained on the first reconciliation,
+// whose notes explain it, and is carried forward from then on. The statement balance defaults
+// to the closing balance of the latest statement ending on or before the date.
+export const getReconciliationSummary = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  accountId: number,
+  asOf: string,
+  statementBalance?: number | null
+) => {
+  let balance = statementBalance ?? null;
+  let balanceSource: 'entered' | 'statement' | null = balance !== null ? 'entered' : null;
+  if (balance === null) {
+    const [statements] = await connection.execute(
+      `SELECT closing_balance FROM bank_statements
+       WHERE account_id = ? AND closing_balance IS NOT NULL AND end_date <= ?
+       ORDER BY end_date DESC, id DESC LIMIT 1`,
+      [accountId, asOf]
+    ) as any[];
+    if (statements.length > 0) {
+      balance = roundMoney(parseFloat(statements[0].closing_balance));
+      balanceSource = 'statement';
+    }
+  }
+
+  const [lastReconciliations] = await connection.execute(
+    'SELECT * FROM reconciliations WHERE account_id = ? ORDER BY reconciled_to DESC, id DESC LIMIT 1',
+    [accountId]
+  ) as any[];
+  const lastReconciliation = lastReconciliations[0] || null;
+
+  const [firstLines] = await connection.execute(
+    'SELECT MIN(date) AS first_date FROM bank_statement_lines WHERE account_id = ?',
+    [accountId]
+  ) as any[];
+  const firstLineDate = firstLines[0].first_date ? dateString(firstLines[0].first_date) : null;
+
+  const [statementLines] = await connection.execute(
+    `SELECT bsl.id, bsl.date, bsl.amount, bsl.description, bsl.reference,
+      CASE WHEN bsl.status = 'matched' THEN 'unmatched' ELSE bsl.status END AS status
+     FROM bank_statement_lines bsl
+     WHERE bsl.account_id = ? AND bsl.date <= ? AND (bsl.status != 'matched' OR NOT ${MATCHED_RECORD_EXISTS})
+     ORDER BY bsl.date, bsl.id`,
+    [accountId, asOf]
+  ) as any[];
+
+  const unmatchedLines = statementLines.filter((line: any) => line.status === 'unmatched');
+  const ignoredLines = statementLines.filter((line: any) => line.status === 'ignored');
+  const total = (items: { amount: string | number }[]) =>
+    roundMoney(items.reduce((sum, item) => sum + parseFloat(item.amount as string), 0));
+
+  const unmatchedBook = firstLineDate && firstLineDate <= asOf
+    ? (await getBookEntries(connection, userId, accountId, firstLineDate, asOf))
+      .filter((entry) => entry.statement_line_id === null)
+    : [];
+
+  const bookBalance = await getBookBalance(connection, userId, accountId, asOf);
+  const unmatchedStatementTotal = total(unmatchedLines);
+  const ignoredStatementTotal = total(ignoredLines);
+  const unmatchedBookTotal = total(unmatchedBook);
+  const carriedForward = lastReconciliation ? roundMoney(parseFloat(lastReconciliation.unexplained_difference)) : 0;
+
+  const difference = balance !== null ? roundMoney(balance - bookBalance) : null;
+  const unexplained = difference !== null
+    ? roundMoney(difference - unmatchedStatementTotal - ignoredStatementTotal + unmatchedBookTotal)
+    : null;
+
+  return {
+    account_id: accountId,
+    as_of: asOf,
+    last_reconciled_to: lastReconciliation ? dateString(lastReconciliation.reconciled_to) : null,
+    statement_balance: balance,
+    statement_balance_source: balanceSource,
+    book_balance: bookBalance,
+    difference,
+    unmatched_statement_total: unmatchedStatementTotal,
+    ignored_statement_total: ignoredStatementTotal,
+    unmatched_book_total: unmatchedBookTotal,
+    unexplained_difference: unexplained,
+    carried_forward: carriedForward,
+    new_unexplained_difference: unexplained !== null ? roundMoney(unexplained - carriedForward) : null,
+    unmatched_statement_lines: unmatchedLines,
+    ignored_statement_lines: ignoredLines,
+    unmatched_book_entries: unmatchedBook
+  };
+};
@@ -0,0 +1,266 @@
+import { PoolConnection } from 'mysql2/promise';
+import { pool } from '../config/database';
+import { toDateString, todayString, parseDate, daysInMonth } from './dates';
+import { createIncomeRecord } from './income';
+import { createExpenseRecord } from './expenses';
+import { recordLoanPayment } from './loans';
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurringDayRule = 'same_day' | 'last_day' | 'last_business_day';
+
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  interval_count: number;
+  day_rule: RecurringDayRule;
+  start_date: string | Date;
+  end_date?: string | Date | null;
+  max_occurrences?: number | null;
+}
+
+// How often the scheduler looks for due templates
+const SCHEDULER_INTERVAL_MINUTES = parseInt(process.env.RECURRING_INTERVAL_MINUTES || '60');
+
+// Day of a month a monthly or yearly occurrence falls on
+const resolveDayOfMonth = (year: number, month: number, startDay: number, dayRule: RecurringDayRule): number => {
+  const lastDay = daysInMonth(year, month);
+
+  if (dayRule === 'same_day') {
+    return Math.min(startDay, lastDay);
+  }
+
+  let day = lastDay;
+  if (dayRule === 'last_business_day') {
+    // Step back over Saturday and Sunday
+    while ([0, 6].includes(new Date(Date.UTC(year, month, day)).getUTCDay())) {
+      day--;
+    }
+  }
+  return day;
+};
+
+// Date of the nth occurrence (0-based) of a schedule.
+// Always counted from the start date so short months don't drift later occurrences.
+export const getOccurrenceDate = (schedule: RecurringSchedule, index: number): string => {
+  const start = parseDate(schedule.start_date);
+  const step = index * schedule.interval_count;
+
+  if (schedule.frequency === 'daily' || schedule.frequency === 'weekly') {
+    const days = schedule.frequency === 'weekly' ? step * 7 : step;
+    return toDateString(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + days)));
+  }
+
+  const monthOffset = schedule.frequency === 'yearly' ? step * 12 : step;
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + monthOffset, 1));
+  const year = target.getUTCFullYear();
+  const month = target.getUTCMonth();
+
+  return toDateString(new Date(Date.UTC(year, month, resolveDayOfMonth(year, month, start.getUTCDate(), schedule.day_rule))));
+};
+
+// Date of the nth occurrence, or null once the schedule has ended by count or end date
+export const getScheduledDate = (schedule: RecurringSchedule, index: number): string | null => {
+  if (schedule.max_occurrences && index >= schedule.max_occurrences) {
+    return null;
+  }
+
+  const date = getOccurrenceDate(schedule, index);
+  if (schedule.end_date && date > toDateString(parseDate(schedule.end_date))) {
+    return null;
+  }
+  return date;
+};
+
+// Upcoming dates of a schedule starting from the nth occurrence
+export const previewOccurrences = (schedule: RecurringSchedule, fromIndex: number, count: number): string[] => {
+  const dates: string[] = [];
+  for (let index = fromIndex; index < fromIndex + count; index++) {
+    const date = getScheduledDate(schedule, index);
+    if (!date) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+// Create the record a template describes, using the same logic as the matching API route.
+// Returns the ID of the created record (the audit transaction for loan payments).
+const createTemplateRecord = async (connection: PoolConnection, template: any, date: string): Promise<number> => {
+  const description = template.description || template.name;
+
+  switch (template.record_type) {
+    case 'income': {
+      const { income } = await createIncomeRecord(connection, template.user_id, {
+        amount: template.amount,
+        description,
+        category: template.category || 'General',
+        source: template.source,
+        account_id: template.account_id,
+        date
+      });
+      return income.id;
+    }
+    case 'expense': {
+      const expense = await createExpenseRecord(connection, template.user_id, {
+        amount: template.amount,
+        description,
+        category: template.category,
+        payment_method: template.payment_method || 'Cash',
+        account_id: template.account_id,
+        date
+      });
+      return expense.id;
+    }
+    case 'loan_payment': {
+      const { payment } = await recordLoanPayment(connection, template.user_id, template.loan_id, {
+        payment_amount: template.amount,
+        payment_date: date,
+        description
+      });
+      return payment.transaction_id;
+    }
+    default:
+      throw Object.assign(new Error(`Unknown record type ${template.record_type}`), { status: 400 });
+  }
+};
+
+export interface OccurrenceResult {
+  template_id: number;
+  scheduled_date: string;
+  status: 'created' | 'skipped' | 'failed';
+  record_id: number | null;
+  error_message: string | null;
+}
+
+// Create or skip a template's next occurrence in its own transaction, then move
+// the template on to the following date (or complete it).
+// A record that can't be created (e.g. the loan is already paid off) is logged as
+// failed and the template paused, so the occurrence is retried once it is resumed.
+// With `dueBy`, only an active template whose next date is on or before it is processed.
+export const processNextOccurrence = async (
+  templateId: number,
+  action: 'create' | 'skip',
+  dueBy?: string
+): Promise<OccurrenceResult | null> => {
+  const connection = await pool.getConnection();
+  await connection.beginTransaction();
+
+  try {
+    const [templates] = await connection.execute(
+      'SELECT * FROM recurring_templates WHERE id = ? FOR UPDATE',
+      [templateId]
+    ) as any[];
+
+    const template = templates[0];
+    const scheduledDate = template?.next_run_date ? toDateString(parseDate(template.next_run_date)) : null;
+
+    if (!template || !scheduledDate || template.status === 'completed' ||
+        (dueBy && (template.status !== 'active' || scheduledDate > dueBy))) {
+      await connection.rollback();
+      return null;
+    }
+
+    let status: OccurrenceResult['status'] = 'skipped';
+    let recordId: number | null = null;
+    let errorMessage: string | null = null;
+
+    if (action === 'create') {
+      await connection.query('SAVEPOINT recurring_occurrence');
+      try {
+        recordId = await createTemplateRecord(connection, template, scheduledDate);
+        status = 'created';
+      } catch (error: any) {
+        if (!error.status) throw error;
+        await connection.query('ROLLBACK TO SAVEPOINT recurring_occurrence');
+        status = 'failed';
+        errorMessage = error.message.substring(0, 255);
+      }
+    }
+
+    await connection.execute(
+      `INSERT INTO recurring_occurrences (template_id, user_id, scheduled_date, status, record_id, error_message)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE status = VALUES(status), record_id = VALUES(record_id), error_message = VALUES(error_message)`,
+      [templateId, template.user_id, scheduledDate, status, recordId, errorMessage]
+    );
+
+    if (status === 'failed') {
+      await connection.execute(
+        "UPDATE recurring_templates SET status = 'paused', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [templateId]
+      );
+    } else {
+      const occurrenceCount = template.occurrence_count + 1;
+      const nextRunDate = getScheduledDate(template, occurrenceCount);
+
+      await connection.execute(
+        `UPDATE recurring_templates
+         SET occurrence_count = ?, next_run_date = ?, status = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [occurrenceCount, nextRunDate, nextRunDate ? template.status : 'completed', templateId]
+      );
+    }
+
+    await connection.commit();
+
+    return {
+      template_id: templateId,
+      scheduled_date: scheduledDate,
+      status,
+      record_id: recordId,
+      error_message: errorMessage
+    };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+let isRunning = false;
+
+// Create every occurrence that has fallen due, including any missed while the server was down
+export const runDueRecurringTemplates = async (): Promise<number> => {
+  if (isRunning) {
+    return 0;
+  }
+
+  isRunning = true;
+  let created = 0;
+
+  try {
+    const today = todayString();
+    const [dueTemplates] = await pool.execute(
+      "SELECT id FROM recurring_templates WHERE status = 'active' AND next_run_date <= ? ORDER BY next_run_date, id",
+      [today]
+    ) as any[];
+
+    for (const { id } of dueTemplates) {
+      try {
+        let result = await processNextOccurrence(id, 'create', today);
+        while (result && result.status === 'created') {
+          created++;
+          result = await processNextOccurrence(id, 'create', today);
+        }
+      } catch (error) {
+        console.error(`Recurring template ${id} error:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Recurring scheduler error:', error);
+  } finally {
+    isRunning = false;
+  }
+
+  return created;
+};
+
+// Run the scheduler now (to catch up after downtime) and then periodically
+export const startRecurringScheduler = () => {
+  runDueRecurringTemplates().then((created) => {
+    if (created > 0) {
+      console.log(`🔁 Created ${created} recurring record(s)`);
+    }
+  });
+
+  return setInterval(runDueRecurringTemplates, SCHEDULER_INTERVAL_MINUTES * 60 * 1000);
+};
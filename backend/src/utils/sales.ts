@@ -0,0 +1,217 @@
+import { PoolConnection } from 'mysql2/promise';
+import { findUserAccount, adjustAccountBalance } from './accounts';
+import { detachRecordAttachments } from './attachments';
+import { syncJournalEntry } from './ledger';
+import {
+  CostMethod,
+  StockAllocation,
+  lockStockLots,
+  availableQuantity,
+  hasEnoughStock,
+  planStockAllocation,
+  releaseSaleStock,
+  saveStockAllocations
+} from './inventory';
+import { linkRecordCategory } from './categories';
+import { releaseQuotationSale } from './quotations';
+import { detachRecordTags, setRecordTags } from './tags';
+import { assertCreditLimit, getSalePaidAmount, removeSalePayments, resolveSaleCustomer } from './receivables';
+
+export interface SaleInput {
+  purchase_id?: number | null;
+  purchase_category?: string | null;
+  quantity?: number | string | null;
+  cost_method?: CostMethod;
+  amount?: number | string | null;
+  selling_price: number | string;
+  description?: string | null;
+  category: string;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  customer_contact?: string | null;
+  payment_method: string;
+  account_id?: number | null;
+  date: string;
+  status?: 'pending' | 'completed' | 'cancelled';
+  notes?: string | null;
+  receipt_path?: string | null;
+  tags?: string[];
+}
+
+// Only completed sales have put money into the receiving account; part-payments taken while
+// the sale was pending were credited to their own accounts when received
+export const accountCredit = (status: string, sellingPrice: number, amountPaid = 0) =>
+  status === 'completed' ? sellingPrice - amountPaid : 0;
+
+// Work out the cost of goods for a sale. Stock sales lock the lots they draw from and are
+// rejected when there is not enough stock; other sales use the manually entered amount.
+export const costSale = async (connection: PoolConnection, userId: number, body: any): Promise<
+  { error: string } | { cost: number; method: CostMethod; allocations: StockAllocation[] }
+> => {
+  const { amount, purchase_id, purchase_category, quantity, cost_method = 'fifo' } = body;
+
+  if (!purchase_id && !purchase_category) {
+    return { cost: parseFloat(amount), method: 'manual', allocations: [] };
+  }
+
+  const lots = await lockStockLots(connection, userId, { purchaseId: purchase_id, category: purchase_category });
+
+  if (!hasEnoughStock(lots, parseFloat(quantity))) {
+    const available = availableQuantity(lots);
+    return {
+      error: available > 0
+        ? `Only ${Number(available.toFixed(3))} units are in stock`
+        : 'No stock is available for this purchase'
+    };
+  }
+
+  const method: CostMethod = purchase_id ? 'specific' : cost_method;
+  const { allocations, cost } = planStockAllocation(lots, parseFloat(quantity), method);
+
+  return { cost, method, allocations };
+};
+
+// Whether an edit changes the stock a sale draws on (the purchase, stock category, quantity or
+// cost method), so its cost of goods has to be worked out again
+export const saleStockChanged = (existing: any, body: any): boolean => {
+  const purchaseId = body.purchase_id ? Number(body.purchase_id) : null;
+  const purchaseCategory = purchaseId ? null : body.purchase_category || null;
+  if ((existing.purchase_id || null) !== purchaseId || (existing.purchase_category || null) !== purchaseCategory) {
+    return true;
+  }
+  if (!purchaseId && !purchaseCategory) {
+    return false;
+  }
+  if (Math.abs(parseFloat(existing.quantity) - parseFloat(body.quantity)) > 0.0005) {
+    return true;
+  }
+  return !purchaseId && existing.cost_method !== (body.cost_method || 'fifo');
+};
+
+// The costing of a sale edited without being costed again: stock sales keep the cost of goods
+// worked out when their stock was allocated, other sales take the amount entered
+export const keptSaleCosting = (existing: any, body: any): { cost: number; method: CostMethod; allocations: StockAllocation[] } => {
+  if (!body.purchase_id && !body.purchase_category) {
+    return { cost: parseFloat(body.amount), method: 'manual', allocations: [] };
+  }
+  const method: CostMethod = body.purchase_id ? 'specific' : body.cost_method || 'fifo';
+  return { cost: parseFloat(existing.amount), method, allocations: [] };
+};
+
+// Record a sale with its stock allocation, account credit and audit trail, returning the new
+// sale's ID. Used by POST /api/sales and by paid invoices; runs inside the caller's transaction.
+export const createSaleRecord = async (connection: PoolConnection, userId: number, input: SaleInput) => {
+  const {
+    purchase_id = null,
+    purchase_category = null,
+    quantity = null,
+    selling_price,
+    description = null,
+    category,
+    payment_method,
+    account_id = null,
+    date,
+    status = 'completed',
+    notes = null,
+    receipt_path = null
+  } = input;
+
+  // Check the receiving account belongs to user
+  if (account_id && !(await findUserAccount(connection, userId, account_id))) {
+    throw Object.assign(new Error('Account not found'), { status: 404 });
+  }
+
+  const customer = await resolveSaleCustomer(connection, userId, input);
+
+  // A sale left pending is owed in full by the customer
+  if (status === 'pending') {
+    await assertCreditLimit(connection, userId, customer.customer_id, parseFloat(selling_price as string));
+  }
+
+  const costing = await costSale(connection, userId, input);
+
+  if ('error' in costing) {
+    throw Object.assign(new Error(costing.error), { status: 400 });
+  }
+
+  const [result] = await connection.execute(`
+    INSERT INTO sales
+    (user_id, purchase_id, purchase_category, quantity, cost_method, amount, selling_price,
+     description, category, customer_id, customer_name, customer_contact, payment_method, account_id,
+     date, status, notes, receipt_path)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    userId, purchase_id, purchase_id ? null : purchase_category, costing.method === 'manual' ? null : quantity,
+    costing.method, costing.cost, selling_price, description, category,
+    customer.customer_id, customer.customer_name, customer.customer_contact,
+    payment_method, account_id, date, status, notes, receipt_path
+  ]);
+
+  const saleId: number = (result as any).insertId;
+
+  // Reference the category by ID (created if the name is new)
+  await linkRecordCategory(connection, userId, 'sale', saleId);
+  await setRecordTags(connection, userId, 'sale', saleId, input.tags || []);
+
+  // Cancelled sales do not hold any stock
+  if (status !== 'cancelled') {
+    await saveStockAllocations(connection, saleId, costing.allocations);
+  }
+
+  // Credit the receiving account
+  await adjustAccountBalance(connection, userId, account_id, accountCredit(status, parseFloat(selling_price as string)));
+
+  // Create transaction record
+  await connection.execute(`
+    INSERT INTO transactions
+    (user_id, transaction_type, reference_id, reference_table, amount, description, account_id, date)
+    VALUES (?, 'sale', ?, 'sales', ?, ?, ?, ?)
+  `, [userId, saleId, selling_price, description || 'Sale transaction', account_id, date]);
+
+  // Post the revenue and cost of goods sold to the ledger
+  await syncJournalEntry(connection, userId, 'sale', saleId);
+
+  return saleId;
+};
+
+// Delete a sale with its account credit, part-payments, stock allocation and audit trail.
+// Returns the attachment files to remove once the caller's transaction commits.
+export const deleteSaleRecord = async (
+  connection: PoolConnection,
+  userId: number,
+  sale: { id: number; selling_price: number | string; status: string; account_id: number | null }
+): Promise<string[]> => {
+  // Reverse the credit on the receiving account, then take back the part-payments
+  const amountPaid = await getSalePaidAmount(connection, sale.id);
+  await adjustAccountBalance(connection, userId, sale.account_id, -accountCredit(sale.status, parseFloat(sale.selling_price as string), amountPaid));
+  await removeSalePayments(connection, userId, sale.id);
+
+  // Return the sold stock to its purchases
+  await releaseSaleStock(connection, sale.id);
+
+  // A quote converted into this sale is reopened once all of its sales are gone
+  await releaseQuotationSale(connection, userId, sale.id);
+
+  // Delete transaction record first
+  await connection.execute(`
+    DELETE FROM transactions
+    WHERE reference_id = ? AND reference_table = 'sales' AND user_id = ?
+  `, [sale.id, userId]);
+
+  // Delete attachments of the sale
+  const attachmentFiles = await detachRecordAttachments(connection, userId, 'sale', [sale.id]);
+
+  // Delete the tag links of the sale
+  await detachRecordTags(connection, userId, 'sale', [sale.id]);
+
+  // Delete sale
+  await connection.execute(
+    'DELETE FROM sales WHERE id = ? AND user_id = ?',
+    [sale.id, userId]
+  );
+
+  // Remove the sale from the ledger
+  await syncJournalEntry(connection, userId, 'sale', sale.id);
+
+  return attachmentFiles;
+};
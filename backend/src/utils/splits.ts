@@ -0,0 +1,159 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { resolveCategory } from './categories';
+import { resolveTag } from './tags';
+
+// Records that can be split across several categories
+export type SplitRecordType = 'expense' | 'purchase';
+
+// Fewest and most lines a split record may have
+export const MIN_SPLIT_LINES = 2;
+export const MAX_SPLIT_LINES = 50;
+
+export interface SplitLineInput {
+  category: string;
+  amount: number | string;
+  description?: string | null;
+  tag?: string | null;
+}
+
+export interface SplitLine {
+  id: number;
+  category: string;
+  category_id: number | null;
+  amount: number;
+  description: string | null;
+  tag_id: number | null;
+  tag: string | null;
+  tag_color: string | null;
+}
+
+// Whether a request body carries split lines to save
+export const hasSplitLines = (body: { splits?: unknown }): boolean => {
+  return Array.isArray(body.splits) && body.splits.length > 0;
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Reject split lines that do not add up to the record's amount
+export const assertSplitTotal = (lines: SplitLineInput[], total: number | string) => {
+  const sum = lines.reduce((acc, line) => acc + parseFloat(String(line.amount)), 0);
+  if (Math.abs(roundMoney(sum) - roundMoney(parseFloat(String(total)))) > 0.005) {
+    throw Object.assign(
+      new Error(`Split lines must add up to the total amount (lines: ${roundMoney(sum).toFixed(2)}, total: ${parseFloat(String(total)).toFixed(2)})`),
+      { status: 400 }
+    );
+  }
+};
+
+// The category a split record is filed under on its own: that of its largest line
+export const primarySplitCategory = (lines: SplitLineInput[]): string => {
+  return lines.reduce((largest, line) =>
+    parseFloat(String(line.amount)) > parseFloat(String(largest.amount)) ? line : largest
+  ).category.trim();
+};
+
+// Lines of each split record, keyed by record ID
+export const getRecordSplits = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  recordType: SplitRecordType,
+  recordIds: number[]
+): Promise<Map<number, SplitLine[]>> => {
+  const splitsByRecord = new Map<number, SplitLine[]>();
+  if (recordIds.length === 0) return splitsByRecord;
+
+  const placeholders = recordIds.map(() => '?').join(', ');
+  const [rows] = await connection.execute(
+    `SELECT rs.record_id, rs.id, rs.category, rs.category_id, rs.amount, rs.description,
+            rs.tag_id, t.name as tag, t.color as tag_color
+     FROM record_splits rs
+     LEFT JOIN tags t ON t.id = rs.tag_id
+     WHERE rs.user_id = ? AND rs.record_type = ? AND rs.record_id IN (${placeholders})
+     ORDER BY rs.id`,
+    [userId, recordType, ...recordIds]
+  ) as any[];
+
+  for (const row of rows) {
+    const lines = splitsByRecord.get(row.record_id) || [];
+    lines.push({
+      id: row.id,
+      category: row.category,
+      category_id: row.category_id,
+      amount: parseFloat(row.amount),
+      description: row.description,
+      tag_id: row.tag_id,
+      tag: row.tag,
+      tag_color: row.tag_color
+    });
+    splitsByRecord.set(row.record_id, lines);
+  }
+
+  return splitsByRecord;
+};
+
+// Add a `splits` array to each record (empty when it is not split) and return the records
+export const attachRecordSplits = async <T extends { id: number }>(
+  connection: Pool | PoolConnection,
+  userId: number,
+  recordType: SplitRecordType,
+  records: T[]
+): Promise<(T & { splits: SplitLine[] })[]> => {
+  const splitsByRecord = await getRecordSplits(connection, userId, recordType, records.map((record) => record.id));
+  return records.map((record) => Object.assign(record, { splits: splitsByRecord.get(record.id) || [] }));
+};
+
+// Replace the split lines of a record, linking each line to its category and tag and creating
+// those that are new. An empty list makes the record unsplit again. The caller checks the
+// lines add up to the record's amount. Runs inside the caller's transaction.
+export const setRecordSplits = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: SplitRecordType,
+  recordId: number,
+  lines: SplitLineInput[]
+): Promise<SplitLine[]> => {
+  if (lines.length > 0 && lines.length < MIN_SPLIT_LINES) {
+    throw Object.assign(new Error(`A split needs at least ${MIN_SPLIT_LINES} lines`), { status: 400 });
+  }
+  if (lines.length > MAX_SPLIT_LINES) {
+    throw Object.assign(new Error(`A split cannot have more than ${MAX_SPLIT_LINES} lines`), { status: 400 });
+  }
+
+  await connection.execute(
+    'DELETE FROM record_splits WHERE user_id = ? AND record_type = ? AND record_id = ?',
+    [userId, recordType, recordId]
+  );
+
+  for (const line of lines) {
+    const category = await resolveCategory(connection, userId, recordType, line.category);
+    if (!category) {
+      throw Object.assign(new Error('Each split line needs a category'), { status: 400 });
+    }
+    const tagName = line.tag ? String(line.tag).trim() : '';
+    const tag = tagName ? await resolveTag(connection, userId, tagName) : null;
+
+    await connection.execute(
+      `INSERT INTO record_splits (user_id, record_type, record_id, category, category_id, amount, description, tag_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [userId, recordType, recordId, category.name, category.id, line.amount, line.description || null, tag ? tag.id : null]
+    );
+  }
+
+  return (await getRecordSplits(connection, userId, recordType, [recordId])).get(recordId) || [];
+};
+
+// Delete the split lines of records being deleted; runs inside the caller's transaction
+export const detachRecordSplits = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: SplitRecordType,
+  recordIds: number[]
+): Promise<void> => {
+  if (recordIds.length === 0) return;
+
+  const placeholders = recordIds.map(() => '?').join(', ');
+  await connection.execute(
+    `DELETE FROM record_splits WHERE user_id = ? AND record_type = ? AND record_id IN (${placeholders})`,
+    [userId, recordType, ...recordIds]
+  );
+};
@@ -0,0 +1,448 @@
+import { Pool } from 'mysql2/promise';
+import { addDays, addMonths, daysBetween } from './dates';
+import { SYSTEM_ACCOUNTS } from './ledger';
+import { CATEGORY_RECORD_TABLES } from './categories';
+
+export type ComparisonType = 'previous_period' | 'previous_year';
+
+export interface StatementPeriod {
+  start_date: string;
+  end_date: string;
+}
+
+export interface StatementLine {
+  key: string;
+  label: string;
+  amount: number;
+  comparison_amount: number | null;
+  change: number | null;
+  change_percentage: number | null;
+}
+
+export interface StatementSection {
+  key: string;
+  label: string;
+  lines: StatementLine[];
+  total: StatementLine;
+}
+
+// A statement line before comparison figures are attached
+interface Amount {
+  key: string;
+  label: string;
+  amount: number;
+}
+
+interface SectionAmounts {
+  key: string;
+  label: string;
+  lines: Amount[];
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const sum = (lines: Amount[]): number => roundMoney(lines.reduce((total, line) => total + line.amount, 0));
+
+// The period a statement is compared against: the same number of days immediately
+// before it, or the same dates a year earlier
+export const getComparisonPeriod = (period: StatementPeriod, compare: ComparisonType): StatementPeriod => {
+  if (compare === 'previous_year') {
+    return {
+      start_date: addMonths(period.start_date, -12),
+      end_date: addMonths(period.end_date, -12)
+    };
+  }
+
+  const days = daysBetween(period.start_date, period.end_date) + 1;
+  return {
+    start_date: addDays(period.start_date, -days),
+    end_date: addDays(period.start_date, -1)
+  };
+};
+
+const compareLine = (line: Amount, previous: Amount[] | null): StatementLine => {
+  if (!previous) {
+    return { ...line, comparison_amount: null, change: null, change_percentage: null };
+  }
+
+  const match = previous.find((candidate) => candidate.key === line.key);
+  const comparisonAmount = match ? match.amount : 0;
+  const change = roundMoney(line.amount - comparisonAmount);
+  return {
+    ...line,
+    comparison_amount: comparisonAmount,
+    change,
+    change_percentage: comparisonAmount !== 0 ? roundMoney((change / Math.abs(comparisonAmount)) * 100) : null
+  };
+};
+
+// Pair each line with its figure in the comparison statement. Lines that only appear in
+// the comparison statement are kept with a current amount of zero.
+const compareLines = (current: Amount[], previous: Amount[] | null): StatementLine[] => {
+  const missing = previous
+    ? previous
+      .filter((line) => !current.some((candidate) => candidate.key === line.key))
+      .map((line) => ({ ...line, amount: 0 }))
+    : [];
+  return [...current, ...missing].map((line) => compareLine(line, previous));
+};
+
+const compareSections = (current: SectionAmounts[], previous: SectionAmounts[] | null): StatementSection[] => {
+  return current.map((section) => {
+    const previousSection = previous ? previous.find((candidate) => candidate.key === section.key) : null;
+    const previousLines = previousSection ? previousSection.lines : previous ? [] : null;
+    return {
+      key: section.key,
+      label: section.label,
+      lines: compareLines(section.lines, previousLines),
+      total: compareLine(
+        { key: `${section.key}_total`, label: `Total ${section.label}`, amount: sum(section.lines) },
+        previousLines ? [{ key: `${section.key}_total`, label: '', amount: sum(previousLines) }] : null
+      )
+    };
+  });
+};
+
+const sectionTotal = (sections: SectionAmounts[], key: string): number => {
+  const section = sections.find((candidate) => candidate.key === key);
+  return section ? sum(section.lines) : 0;
+};
+
+const categoryLines = (rows: any[], prefix: string): Amount[] => {
+  return rows.map((row) => ({
+    key: `${prefix}:${row.category}`,
+    label: row.category,
+    amount: roundMoney(parseFloat(row.amount))
+  }));
+};
+
+// Profit & loss figures for one period, by category. Purchases are stock bought, so they
+// only reach the P&L as the cost of completed sales.
+const getProfitAndLossAmounts = async (db: Pool, userId: number, period: StatementPeriod) => {
+  const range = [userId, period.start_date, period.end_date];
+
+  const [income] = await db.execute(
+    `SELECT category, SUM(amount) AS amount FROM income
+     WHERE user_id = ? AND date BETWEEN ? AND ?
+     GROUP BY category ORDER BY amount DESC`,
+    range
+  ) as any[];
+
+  const [sales] = await db.execute(
+    `SELECT COALESCE(category, 'Uncategorized') AS category, SUM(selling_price) AS revenue, SUM(amount) AS cost
+     FROM sales
+     WHERE user_id = ? AND status = 'completed' AND date BETWEEN ? AND ?
+     GROUP BY COALESCE(category, 'Uncategorized') ORDER BY revenue DESC`,
+    range
+  ) as any[];
+
+  // Split expenses count each line under its own category; vendor bills count from their bill date
+  const [expenses] = await db.execute(
+    `SELECT category, SUM(amount) AS amount FROM ${CATEGORY_RECORD_TABLES.expense.lines}
+     WHERE user_id = ? AND date BETWEEN ? AND ?
+     GROUP BY category ORDER BY amount DESC`,
+    range
+  ) as any[];
+
+  // Charity is owed from the date of the income it was set aside from
+  const [charity] = await db.execute(
+    `SELECT COALESCE(SUM(c.amount_required), 0) AS amount
+     FROM charity c LEFT JOIN income i ON c.income_id = i.id
+     WHERE c.user_id = ? AND COALESCE(i.date, DATE(c.created_at)) BETWEEN ? AND ?`,
+    range
+  ) as any[];
+
+  const [interest] = await db.execute(
+    `SELECT l.direction, COALESCE(SUM(lp.interest_amount), 0) AS amount
+     FROM loan_payments lp JOIN loans l ON lp.loan_id = l.id
+     WHERE lp.user_id = ? AND lp.payment_date BETWEEN ? AND ?
+     GROUP BY l.direction`,
+    range
+  ) as any[];
+
+  const interestFor = (direction: string): number => {
+    const row = interest.find((candidate: any) => candidate.direction === direction);
+    return row ? roundMoney(parseFloat(row.amount)) : 0;
+  };
+
+  const sections: SectionAmounts[] = [
+    { key: 'income', label: 'Income', lines: categoryLines(income, 'income') },
+    {
+      key: 'sales_revenue',
+      label: 'Sales Revenue',
+      lines: sales.map((row: any) => ({ key: `sales:${row.category}`, label: row.category, amount: roundMoney(parseFloat(row.revenue)) }))
+    },
+    {
+      key: 'cost_of_sales',
+      label: 'Cost of Sales',
+      lines: sales.map((row: any) => ({ key: `cost:${row.category}`, label: row.category, amount: roundMoney(parseFloat(row.cost)) }))
+    },
+    {
+      key: 'other_income',
+      label: 'Other Income',
+      lines: [{ key: 'interest_income', label: 'Interest Income', amount: interestFor('receivable') }].filter((line) => line.amount !== 0)
+    },
+    {
+      key: 'expenses',
+      label: 'Expenses',
+      lines: [
+        ...categoryLines(expenses, 'expense'),
+        { key: 'interest_expense', label: 'Interest Expense', amount: interestFor('payable') },
+        { key: 'charity', label: 'Charity', amount: roundMoney(parseFloat(charity[0].amount)) }
+      ].filter((line) => line.amount !== 0)
+    }
+  ];
+
+  const grossProfit = roundMoney(sectionTotal(sections, 'sales_revenue') - sectionTotal(sections, 'cost_of_sales'));
+  const totalIncome = roundMoney(sectionTotal(sections, 'income') + grossProfit + sectionTotal(sections, 'other_income'));
+  const totalExpenses = sectionTotal(sections, 'expenses');
+
+  const totals: Amount[] = [
+    { key: 'gross_profit', label: 'Gross Profit on Sales', amount: grossProfit },
+    { key: 'total_income', label: 'Total Income', amount: totalIncome },
+    { key: 'total_expenses', label: 'Total Expenses', amount: totalExpenses },
+    { key: 'net_profit', label: 'Net Profit', amount: roundMoney(totalIncome - totalExpenses) }
+  ];
+
+  return { sections, totals };
+};
+
+export const getProfitAndLoss = async (
+  db: Pool,
+  userId: number,
+  period: StatementPeriod,
+  compare?: ComparisonType
+) => {
+  const comparisonPeriod = compare ? getComparisonPeriod(period, compare) : null;
+  const current = await getProfitAndLossAmounts(db, userId, period);
+  const previous = comparisonPeriod ? await getProfitAndLossAmounts(db, userId, comparisonPeriod) : null;
+
+  return {
+    period,
+    comparison_period: comparisonPeriod,
+    sections: compareSections(current.sections, previous ? previous.sections : null),
+    totals: compareLines(current.totals, previous ? previous.totals : null)
+  };
+};
+
+// Net debit balance of every ledger account up to a date
+const getLedgerBalances = async (db: Pool, userId: number, asOf: string) => {
+  const [rows] = await db.execute(
+    `SELECT la.id, la.code, COALESCE(a.account_name, la.name) AS name, la.account_type,
+      COALESCE(SUM(jl.debit - jl.credit), 0) AS balance
+     FROM ledger_accounts la
+     LEFT JOIN accounts a ON la.account_id = a.id
+     JOIN journal_lines jl ON jl.ledger_account_id = la.id
+     JOIN journal_entries je ON jl.entry_id = je.id
+     WHERE la.user_id = ? AND je.entry_date <= ?
+     GROUP BY la.id, la.code, la.name, a.account_name, la.account_type
+     ORDER BY la.code`,
+    [userId, asOf]
+  ) as any[];
+
+  return rows.map((row: any) => ({ ...row, balance: roundMoney(parseFloat(row.balance)) })) as {
+    id: number;
+    code: string;
+    name: string;
+    account_type: string;
+    balance: number;
+  }[];
+};
+
+// Balance sheet figures from the journal: cash/bank accounts, stock and money lent out
+// against loans owed and outstanding charity. Income and expenses not yet closed to
+// equity are shown as retained earnings, so the sheet always balances.
+const getBalanceSheetAmounts = async (db: Pool, userId: number, asOf: string) => {
+  const balances = await getLedgerBalances(db, userId, asOf);
+  const ofType = (type: string) => balances.filter((account) => account.account_type === type && account.balance !== 0);
+  const toLine = (account: { code: string; name: string; balance: number }, sign: number): Amount => ({
+    key: account.code,
+    label: account.code === SYSTEM_ACCOUNTS.charity_payable.code ? 'Outstanding Charity' : account.name,
+    amount: roundMoney(account.balance * sign)
+  });
+
+  const retainedEarnings = roundMoney(-balances
+    .filter((account) => account.account_type === 'income' || account.account_type === 'expense')
+    .reduce((total, account) => total + account.balance, 0));
+
+  const sections: SectionAmounts[] = [
+    { key: 'assets', label: 'Assets', lines: ofType('asset').map((account) => toLine(account, 1)) },
+    { key: 'liabilities', label: 'Liabilities', lines: ofType('liability').map((account) => toLine(account, -1)) },
+    {
+      key: 'equity',
+      label: 'Equity',
+      lines: [
+        ...ofType('equity').map((account) => toLine(account, -1)),
+        { key: 'retained_earnings', label: 'Retained Earnings', amount: retainedEarnings }
+      ].filter((line) => line.amount !== 0)
+    }
+  ];
+
+  const totalAssets = sectionTotal(sections, 'assets');
+  const totalLiabilities = sectionTotal(sections, 'liabilities');
+  const totalEquity = sectionTotal(sections, 'equity');
+
+  const totals: Amount[] = [
+    { key: 'total_assets', label: 'Total Assets', amount: totalAssets },
+    { key: 'total_liabilities', label: 'Total Liabilities', amount: totalLiabilities },
+    { key: 'total_equity', label: 'Total Equity', amount: totalEquity },
+    { key: 'total_liabilities_and_equity', label: 'Total Liabilities and Equity', amount: roundMoney(totalLiabilities + totalEquity) }
+  ];
+
+  return { sections, totals, balanced: totalAssets === roundMoney(totalLiabilities + totalEquity) };
+};
+
+export const getBalanceSheet = async (
+  db: Pool,
+  userId: number,
+  period: StatementPeriod,
+  compare?: ComparisonType
+) => {
+  const comparisonPeriod = compare ? getComparisonPeriod(period, compare) : null;
+  const current = await getBalanceSheetAmounts(db, userId, period.end_date);
+  const previous = comparisonPeriod ? await getBalanceSheetAmounts(db, userId, comparisonPeriod.end_date) : null;
+
+  return {
+    as_of: period.end_date,
+    comparison_as_of: comparisonPeriod ? comparisonPeriod.end_date : null,
+    balanced: current.balanced,
+    sections: compareSections(current.sections, previous ? previous.sections : null),
+    totals: compareLines(current.totals, previous ? previous.totals : null)
+  };
+};
+
+// Ledger accounts that hold cash. Transfers in transit count as cash so that transfers
+// between accounts never show up as a cash flow.
+const CASH_CODES: string[] = [SYSTEM_ACCOUNTS.cash_on_hand.code, SYSTEM_ACCOUNTS.transfers_in_transit.code];
+const isCashAccount = (code: string) => CASH_CODES.includes(code) || code.startsWith('1100-');
+
+// Where the cash side of an entry is reported, from the ledger account on the other side
+const INVESTING_CODES: string[] = [SYSTEM_ACCOUNTS.loans_receivable.code];
+const FINANCING_CODES: string[] = [SYSTEM_ACCOUNTS.loans_payable.code, SYSTEM_ACCOUNTS.owner_equity.code];
+const INTEREST_CODES: string[] = [SYSTEM_ACCOUNTS.interest_income.code, SYSTEM_ACCOUNTS.interest_expense.code];
+
+const CASH_FLOW_LABELS: Record<string, string> = {
+  income: 'Income received',
+  sale: 'Sales receipts',
+  expense: 'Expenses paid',
+  bill_payment: 'Bills paid',
+  purchase: 'Inventory purchases',
+  charity_payment: 'Charity paid',
+  interest: 'Interest received and paid',
+  loans_receivable: 'Loans made and repaid to you',
+  loans_payable: 'Loans received and repaid',
+  owner_equity: 'Owner contributions and withdrawals',
+  other: 'Other'
+};
+
+const getCashBalance = async (db: Pool, userId: number, beforeDate: string) => {
+  const balances = await getLedgerBalances(db, userId, addDays(beforeDate, -1));
+  return roundMoney(balances
+    .filter((account) => isCashAccount(account.code))
+    .reduce((total, account) => total + account.balance, 0));
+};
+
+// Cash flow figures for one period by the direct method: the cash movement of every journal
+// entry is classified by what is on the other side of it. Loan principal moves to investing
+// (money lent) or financing (money borrowed, owner's equity); interest stays in operating.
+const getCashFlowAmounts = async (db: Pool, userId: number, period: StatementPeriod) => {
+  const [lines] = await db.execute(
+    `SELECT je.id AS entry_id, je.source_type, la.code, jl.debit - jl.credit AS amount
+     FROM journal_entries je
+     JOIN journal_lines jl ON jl.entry_id = je.id
+     JOIN ledger_accounts la ON jl.ledger_account_id = la.id
+     WHERE je.user_id = ? AND je.entry_date BETWEEN ? AND ?
+     ORDER BY je.id`,
+    [userId, period.start_date, period.end_date]
+  ) as any[];
+
+  const entries = new Map<number, { source_type: string; lines: { code: string; amount: number }[] }>();
+  for (const line of lines) {
+    const entry = entries.get(line.entry_id) || { source_type: line.source_type, lines: [] as { code: string; amount: number }[] };
+    entry.lines.push({ code: line.code, amount: parseFloat(line.amount) });
+    entries.set(line.entry_id, entry);
+  }
+
+  const activities: Record<string, Map<string, number>> = {
+    operating: new Map(),
+    investing: new Map(),
+    financing: new Map()
+  };
+  const add = (activity: string, key: string, amount: number) => {
+    activities[activity].set(key, roundMoney((activities[activity].get(key) || 0) + amount));
+  };
+
+  for (const entry of entries.values()) {
+    const cash = roundMoney(entry.lines
+      .filter((line) => isCashAccount(line.code))
+      .reduce((total, line) => total + line.amount, 0));
+    if (cash === 0) {
+      continue;
+    }
+
+    const other = entry.lines.filter((line) => !isCashAccount(line.code));
+    const interest = roundMoney(-other
+      .filter((line) => INTEREST_CODES.includes(line.code))
+      .reduce((total, line) => total + line.amount, 0));
+    if (interest !== 0) {
+      add('operating', 'interest', interest);
+    }
+
+    const remainder = roundMoney(cash - interest);
+    if (remainder === 0) {
+      continue;
+    }
+
+    const investing = other.find((line) => INVESTING_CODES.includes(line.code));
+    const financing = other.find((line) => FINANCING_CODES.includes(line.code));
+    if (investing) {
+      add('investing', 'loans_receivable', remainder);
+    } else if (financing) {
+      const key = financing.code === SYSTEM_ACCOUNTS.owner_equity.code ? 'owner_equity' : 'loans_payable';
+      add('financing', key, remainder);
+    } else {
+      add('operating', CASH_FLOW_LABELS[entry.source_type] ? entry.source_type : 'other', remainder);
+    }
+  }
+
+  const sections: SectionAmounts[] = [
+    { key: 'operating', label: 'Operating Activities' },
+    { key: 'investing', label: 'Investing Activities' },
+    { key: 'financing', label: 'Financing Activities' }
+  ].map(({ key, label }) => ({
+    key,
+    label,
+    lines: [...activities[key].entries()]
+      .filter(([, amount]) => amount !== 0)
+      .map(([lineKey, amount]) => ({ key: lineKey, label: CASH_FLOW_LABELS[lineKey], amount }))
+  }));
+
+  const openingCash = await getCashBalance(db, userId, period.start_date);
+  const netChange = roundMoney(sections.reduce((total, section) => total + sum(section.lines), 0));
+
+  const totals: Amount[] = [
+    { key: 'opening_cash', label: 'Opening Cash', amount: openingCash },
+    { key: 'net_change', label: 'Net Change in Cash', amount: netChange },
+    { key: 'closing_cash', label: 'Closing Cash', amount: roundMoney(openingCash + netChange) }
+  ];
+
+  return { sections, totals };
+};
+
+export const getCashFlowStatement = async (
+  db: Pool,
+  userId: number,
+  period: StatementPeriod,
+  compare?: ComparisonType
+) => {
+  const comparisonPeriod = compare ? getComparisonPeriod(period, compare) : null;
+  const current = await getCashFlowAmounts(db, userId, period);
+  const previous = comparisonPeriod ? await getCashFlowAmounts(db, userId, comparisonPeriod) : null;
+
+  return {
+    period,
+    comparison_period: comparisonPeriod,
+    sections: compareSections(current.sections, previous ? previous.sections : null),
+    totals: compareLines(current.totals, previous ? previous.totals : null)
+  };
+};
@@ -0,0 +1,258 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { CATEGORY_RECORD_TABLES, CategoryType } from './categories';
+
+// Tags span the same records as categories
+export type TagRecordType = CategoryType;
+
+export const TAG_RECORD_TYPES: TagRecordType[] = ['income', 'expense', 'purchase', 'sale'];
+
+export const DEFAULT_TAG_COLOR = '#6B7280';
+
+// Most tags one record may carry
+export const MAX_TAGS_PER_RECORD = 20;
+
+export interface RecordTag {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface TagTotal extends RecordTag {
+  record_count: number;
+  income_total: number;
+  expense_total: number;
+  purchase_total: number;
+  sale_total: number;
+  net_total: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Trim tag names and drop empty and repeated ones (compared case-insensitively, like the database)
+export const normalizeTagNames = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of names) {
+    const name = String(raw).trim();
+    if (name && !seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      result.push(name);
+    }
+  }
+  return result;
+};
+
+// Tag names from a comma-separated query parameter ("reimbursable,tax-deductible")
+export const parseTagFilter = (value?: string): string[] => {
+  return value ? normalizeTagNames(value.split(',')) : [];
+};
+
+// SQL condition keeping records that carry every one of the given tags, either on the record
+// or on one of its split lines, to append to a WHERE clause. idColumn is the record ID column
+// as named in the surrounding query.
+export const buildTagFilter = (
+  userId: number,
+  recordType: TagRecordType,
+  names: string[],
+  idColumn = 'id'
+): { clause: string; params: any[] } => {
+  if (names.length === 0) return { clause: '', params: [] };
+
+  const placeholders = names.map(() => '?').join(', ');
+  return {
+    clause: ` AND ${idColumn} IN (
+      SELECT rt.record_id FROM (
+        SELECT record_id, tag_id FROM record_tags WHERE user_id = ? AND record_type = ?
+        UNION
+        SELECT record_id, tag_id FROM record_splits WHERE user_id = ? AND record_type = ? AND tag_id IS NOT NULL
+      ) rt
+      JOIN tags t ON t.id = rt.tag_id
+      WHERE t.name IN (${placeholders})
+      GROUP BY rt.record_id
+      HAVING COUNT(DISTINCT rt.tag_id) = ?
+    )`,
+    params: [userId, recordType, userId, recordType, ...names, names.length]
+  };
+};
+
+// Tags of each record, keyed by record ID
+export const getRecordTags = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  recordType: TagRecordType,
+  recordIds: number[]
+): Promise<Map<number, RecordTag[]>> => {
+  const tagsByRecord = new Map<number, RecordTag[]>();
+  if (recordIds.length === 0) return tagsByRecord;
+
+  const placeholders = recordIds.map(() => '?').join(', ');
+  const [rows] = await connection.execute(
+    `SELECT rt.record_id, t.id, t.name, t.color
+     FROM record_tags rt
+     JOIN tags t ON t.id = rt.tag_id
+     WHERE rt.user_id = ? AND rt.record_type = ? AND rt.record_id IN (${placeholders})
+     ORDER BY t.name`,
+    [userId, recordType, ...recordIds]
+  ) as any[];
+
+  for (const row of rows) {
+    const tags = tagsByRecord.get(row.record_id) || [];
+    tags.push({ id: row.id, name: row.name, color: row.color });
+    tagsByRecord.set(row.record_id, tags);
+  }
+
+  return tagsByRecord;
+};
+
+// Add a `tags` array to each record and return the records
+export const attachRecordTags = async <T extends { id: number }>(
+  connection: Pool | PoolConnection,
+  userId: number,
+  recordType: TagRecordType,
+  records: T[]
+): Promise<(T & { tags: RecordTag[] })[]> => {
+  const tagsByRecord = await getRecordTags(connection, userId, recordType, records.map((record) => record.id));
+  return records.map((record) => Object.assign(record, { tags: tagsByRecord.get(record.id) || [] }));
+};
+
+// Find the user's tag by name (case-insensitively, as the unique key does), creating it if it
+// is new. Runs inside the caller's transaction.
+export const resolveTag = async (
+  connection: PoolConnection,
+  userId: number,
+  name: string
+): Promise<RecordTag> => {
+  await connection.execute(
+    'INSERT IGNORE INTO tags (user_id, name, color) VALUES (?, ?, ?)',
+    [userId, name, DEFAULT_TAG_COLOR]
+  );
+  const [rows] = await connection.execute(
+    'SELECT id, name, color FROM tags WHERE user_id = ? AND name = ?',
+    [userId, name]
+  ) as any[];
+  return rows[0];
+};
+
+// Replace the tags of a record, creating tags whose names are new.
+// Used by the create and update routes of tagged records; runs inside the caller's transaction.
+export const setRecordTags = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: TagRecordType,
+  recordId: number,
+  names: string[]
+): Promise<RecordTag[]> => {
+  const tagNames = normalizeTagNames(names);
+  if (tagNames.length > MAX_TAGS_PER_RECORD) {
+    throw Object.assign(new Error(`A record cannot carry more than ${MAX_TAGS_PER_RECORD} tags`), { status: 400 });
+  }
+
+  await connection.execute(
+    'DELETE FROM record_tags WHERE user_id = ? AND record_type = ? AND record_id = ?',
+    [userId, recordType, recordId]
+  );
+
+  for (const name of tagNames) {
+    const tag = await resolveTag(connection, userId, name);
+    await connection.execute(
+      'INSERT IGNORE INTO record_tags (user_id, tag_id, record_type, record_id) VALUES (?, ?, ?, ?)',
+      [userId, tag.id, recordType, recordId]
+    );
+  }
+
+  return (await getRecordTags(connection, userId, recordType, [recordId])).get(recordId) || [];
+};
+
+// Delete the tag links of records being deleted; runs inside the caller's transaction
+export const detachRecordTags = async (
+  connection: PoolConnection,
+  userId: number,
+  recordType: TagRecordType,
+  recordIds: number[]
+): Promise<void> => {
+  if (recordIds.length === 0) return;
+
+  const placeholders = recordIds.map(() => '?').join(', ');
+  await connection.execute(
+    `DELETE FROM record_tags WHERE user_id = ? AND record_type = ? AND record_id IN (${placeholders})`,
+    [userId, recordType, ...recordIds]
+  );
+};
+
+// Totals of the records carrying each tag, per record type and overall. A record with several
+// tags counts towards each of them, so the tag totals do not add up to the overall figures.
+// A split line's tag counts the line's amount, unless the record itself carries that tag.
+// Sales count their selling price and only once completed, as elsewhere in analytics.
+export const getTagTotals = async (
+  connection: Pool | PoolConnection,
+  userId: number,
+  filters: { start_date?: string; end_date?: string } = {}
+): Promise<TagTotal[]> => {
+  const [tagRows] = await connection.execute(
+    'SELECT id, name, color FROM tags WHERE user_id = ? ORDER BY name',
+    [userId]
+  ) as any[];
+
+  const totals = new Map<number, TagTotal>(tagRows.map((tag: any) => [tag.id, {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color,
+    record_count: 0,
+    income_total: 0,
+    expense_total: 0,
+    purchase_total: 0,
+    sale_total: 0,
+    net_total: 0
+  }]));
+
+  let dateFilter = '';
+  const dateParams: string[] = [];
+  if (filters.start_date) {
+    dateFilter += ' AND r.date >= ?';
+    dateParams.push(filters.start_date);
+  }
+  if (filters.end_date) {
+    dateFilter += ' AND r.date <= ?';
+    dateParams.push(filters.end_date);
+  }
+
+  for (const recordType of TAG_RECORD_TYPES) {
+    const { table, amount, where } = CATEGORY_RECORD_TABLES[recordType];
+    const [rows] = await connection.execute(
+      `SELECT rt.tag_id, COUNT(*) as record_count, SUM(r.${amount}) as total_amount
+       FROM record_tags rt
+       JOIN ${table} r ON r.id = rt.record_id AND r.user_id = rt.user_id
+       WHERE rt.user_id = ? AND rt.record_type = ?${where}${dateFilter}
+       GROUP BY rt.tag_id`,
+      [userId, recordType, ...dateParams]
+    ) as any[];
+
+    if (recordType === 'expense' || recordType === 'purchase') {
+      const [lineRows] = await connection.execute(
+        `SELECT rs.tag_id, COUNT(DISTINCT rs.record_id) as record_count, SUM(rs.amount) as total_amount
+         FROM record_splits rs
+         JOIN ${table} r ON r.id = rs.record_id AND r.user_id = rs.user_id
+         WHERE rs.user_id = ? AND rs.record_type = ? AND rs.tag_id IS NOT NULL${dateFilter}
+           AND NOT EXISTS (
+             SELECT 1 FROM record_tags rt
+             WHERE rt.tag_id = rs.tag_id AND rt.record_type = rs.record_type AND rt.record_id = rs.record_id
+           )
+         GROUP BY rs.tag_id`,
+        [userId, recordType, ...dateParams]
+      ) as any[];
+      rows.push(...lineRows);
+    }
+
+    for (const row of rows) {
+      const tagTotal = totals.get(row.tag_id);
+      if (!tagTotal) continue;
+      const total = parseFloat(row.total_amount) || 0;
+      tagTotal.record_count += Number(row.record_count);
+      tagTotal[`${recordType}_total` as const] = roundMoney(tagTotal[`${recordType}_total` as const] + total);
+      const sign = recordType === 'income' || recordType === 'sale' ? 1 : -1;
+      tagTotal.net_total = roundMoney(tagTotal.net_total + sign * total);
+    }
+  }
+
+  return Array.from(totals.values());
+};
@@ -0,0 +1,390 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+// Minimal single-sheet .xlsx writer and reader: a zip of the SpreadsheetML parts with inline strings,
+// real numbers and dates stored as Excel serial numbers, so no spreadsheet library is needed.
+
+export type XlsxCellType = 'string' | 'number' | 'money' | 'date';
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxCellType;
+}
+
+// Cell styles defined in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_MONEY = 3;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Zip the files with deflate. Timestamps are left at the zip epoch (1980-01-01).
+const zip = (files: { name: string; content: string }[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Column letter(s) for a 0-based index: A, B, ..., Z, AA, AB, ...
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Days since 1899-12-30, Excel's day zero; values are YYYY-MM-DD strings
+const excelDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const cell = (ref: string, value: string | number | null, type: XlsxCellType, style?: number): string => {
+  if (value === null || value === '') {
+    return '';
+  }
+
+  if (type === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${excelDate(value)}</v></c>`;
+  }
+
+  if ((type === 'number' || type === 'money') && value !== '' && !isNaN(Number(value))) {
+    return `<c r="${ref}"${type === 'money' ? ` s="${STYLE_MONEY}"` : ''}><v>${Number(value)}</v></c>`;
+  }
+
+  const styleAttribute = style ? ` s="${style}"` : '';
+  return `<c r="${ref}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Styles: 0 default, 1 bold header, 2 date (yyyy-mm-dd), 3 money (#,##0.00)
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// Build a workbook with one sheet: a bold, frozen header row followed by the data rows.
+// Row values are strings/numbers; dates must already be YYYY-MM-DD strings.
+export const buildXlsx = (sheetName: string, columns: XlsxColumn[], rows: (string | number | null)[][]): Buffer => {
+  const header = `<row r="1">${columns
+    .map((column, index) => cell(`${columnName(index)}1`, column.header, 'string', STYLE_HEADER))
+    .join('')}</row>`;
+
+  const body = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2;
+    const cells = row.map((value, index) => cell(`${columnName(index)}${r}`, value, columns[index].type)).join('');
+    return `<row r="${r}">${cells}</row>`;
+  }).join('');
+
+  const widths = columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.type === 'string' ? 24 : 14}" customWidth="1"/>`)
+    .join('');
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths}</cols>
+<sheetData>${header}${body}</sheetData>
+</worksheet>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  return zip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: ROOT_RELS },
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet },
+    { name: 'xl/styles.xml', content: STYLES }
+  ]);
+};
+
+// Files of a zip archive by name, read through the central directory
+const unzip = (data: Buffer): Map<string, Buffer> => {
+  const files = new Map<string, Buffer>();
+
+  let end = data.length - 22;
+  while (end >= 0 && data.readUInt32LE(end) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw Object.assign(new Error('File is not a valid .xlsx workbook'), { status: 400 });
+  }
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let position = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(position) !== 0x02014b50) {
+      throw Object.assign(new Error('File is not a valid .xlsx workbook'), { status: 400 });
+    }
+
+    const method = data.readUInt16LE(position + 10);
+    const compressedSize = data.readUInt32LE(position + 20);
+    const nameLength = data.readUInt16LE(position + 28);
+    const extraLength = data.readUInt16LE(position + 30);
+    const commentLength = data.readUInt16LE(position + 32);
+    const localOffset = data.readUInt32LE(position + 42);
+    const name = data.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, method === 8 ? inflateRawSync(content) : content);
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
+
+const unescapeXml = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+};
+
+const xmlAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+};
+
+// Text of an element, joining rich-text runs (<r><t>..</t></r>)
+const xmlText = (xml: string): string => {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => unescapeXml(match[1])).join('');
+};
+
+// Column index (0-based) of a cell reference such as "AB12"
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+// Built-in number formats that display dates
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Which cell styles (by index) display their number as a date
+const dateStyles = (stylesXml: string | undefined): Set<number> => {
+  const styles = new Set<number>();
+  if (!stylesXml) return styles;
+
+  const customDateFormats = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b[^>]*\/?>/g)) {
+    const { numFmtId, formatCode = '' } = xmlAttributes(match[0]);
+    // Ignore quoted text and [colour]/[locale] sections before looking for date parts
+    if (/[dmy]/i.test(formatCode.replace(/"[^"]*"|\[[^\]]*\]/g, ''))) {
+      customDateFormats.add(parseInt(numFmtId));
+    }
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (cellXfs) {
+    Array.from(cellXfs[1].matchAll(/<xf\b[^>]*>/g)).forEach((match, index) => {
+      const numFmtId = parseInt(xmlAttributes(match[0]).numFmtId || '0');
+      if (BUILT_IN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+        styles.add(index);
+      }
+    });
+  }
+
+  return styles;
+};
+
+// YYYY-MM-DD of an Excel serial date
+const fromExcelDate = (serial: number): string => {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().split('T')[0];
+};
+
+// Path inside the archive of the workbook's first sheet
+const firstSheetPath = (files: Map<string, Buffer>): string => {
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') || '';
+  const rels = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  const sheet = workbook.match(/<sheet\b[^>]*>/);
+  const relationshipId = sheet ? xmlAttributes(sheet[0])['r:id'] : undefined;
+
+  for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = xmlAttributes(match[0]);
+    if (Id === relationshipId && Target) {
+      return Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+};
+
+// Read the first sheet of a workbook as rows of text. Numbers keep their stored value
+// (e.g. 1234.5) and date-formatted cells become YYYY-MM-DD.
+export const readXlsx = (data: Buffer): string[][] => {
+  const files = unzip(data);
+  const sheetXml = files.get(firstSheetPath(files))?.toString('utf8');
+  if (!sheetXml) {
+    throw Object.assign(new Error('Workbook has no worksheet'), { status: 400 });
+  }
+
+  const sharedStringsXml = files.get('xl/sharedStrings.xml')?.toString('utf8') || '';
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => xmlText(match[1]));
+  const dateStyleIds = dateStyles(files.get('xl/styles.xml')?.toString('utf8'));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(xmlAttributes(rowMatch[1]).r || '') || rows.length + 1;
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = xmlAttributes(cellMatch[1]);
+      const content = cellMatch[2] || '';
+      const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const value = rawValue === undefined ? undefined : unescapeXml(rawValue);
+      let text = '';
+
+      switch (attributes.t) {
+        case 's':
+          text = sharedStrings[parseInt(value || '')] ?? '';
+          break;
+        case 'inlineStr':
+          text = xmlText(content);
+          break;
+        case 'b':
+          text = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          text = value ?? '';
+          if (text !== '' && !attributes.t && dateStyleIds.has(parseInt(attributes.s || '0')) && !isNaN(Number(text))) {
+            text = fromExcelDate(Number(text));
+          }
+      }
+
+      const index = attributes.r ? columnIndex(attributes.r) : row.length;
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = text;
+    }
+
+    // Keep blank rows in place so row numbers match the spreadsheet
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows.push(row);
+  }
+
+  return rows;
+};
@@ -14,9 +14,21 @@ import { IncomePage } from './pages/Income';
 import { ExpensesPage } from './pages/Expenses';
 import { PurchasesPage } from './pages/Purchases';
 import { SalesPage } from './pages/Sales';
+import { CustomersPage } from './pages/Customers';
+import { VendorsPage } from './pages/Vendors';
+import { BillsPage } from './pages/Bills';
+import { InvoicesPage } from './pages/Invoices';
+import { QuotationsPage } from './pages/Quotations';
+import { BudgetsPage } from './pages/Budgets';
+import { RecurringPage } from './pages/Recurring';
 import { CharityPage } from './pages/Charity';
 import { AccountsPage } from './pages/Accounts';
 import { LoansPage } from './pages/Loans';
+import { LedgerPage } from './pages/Ledger';
+import { ReportsPage } from './pages/Reports';
+import { ImportPage } from './pages/Import';
+import { ReconciliationPage } from './pages/Reconciliation';
+import { AccountingExportPage } from './pages/AccountingExport';
 import { AnalyticsPage } from './pages/Analytics';
 import { CategoriesPage } from './pages/Categories';
 import { ProfilePage } from './pages/Profile';
@@ -44,10 +56,22 @@ function App() {
                 <Route path="expenses" element={<ExpensesPage />} />
                 <Route path="purchases" element={<PurchasesPage />} />
                 <Route path="sales" element={<SalesPage />} />
+                <Route path="customers" element={<CustomersPage />} />
+                <Route path="vendors" element={<VendorsPage />} />
+                <Route path="bills" element={<BillsPage />} />
+                <Route path="quotations" element={<QuotationsPage />} />
+                <Route path="invoices" element={<InvoicesPage />} />
+                <Route path="budgets" element={<BudgetsPage />} />
+                <Route path="recurring" element={<RecurringPage />} />
                 <Route path="charity" element={<CharityPage />} />
                 <Route path="accounts" element={<AccountsPage />} />
                 <Route path="loans" element={<LoansPage />} />
+                <Route path="ledger" element={<LedgerPage />} />
+                <Route path="reports" element={<ReportsPage />} />
                 <Route path="analytics" element={<AnalyticsPage />} />
+                <Route path="import" element={<ImportPage />} />
+                <Route path="reconciliation" element={<ReconciliationPage />} />
+                <Route path="accounting-export" element={<AccountingExportPage />} />
                 <Route path="categories" element={<CategoriesPage />} />
                 <Route path="profile" element={<ProfilePage />} />
               </Route>
@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '../ui/button';
+import { Upload, FileText, Download, Trash2, X } from 'lucide-react';
+import { attachmentApi } from '../../lib/api';
+import { Attachment, AttachmentRecordType } from '../../lib/types';
+import { cn } from '../../lib/utils';
+import toast from 'react-hot-toast';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+interface AttachmentDropzoneProps {
+  recordType: AttachmentRecordType;
+  // Saved record to upload to; without it dropped files are queued until the record is created
+  recordId: number | null;
+  pendingFiles: File[];
+  onPendingFilesChange: (files: File[]) => void;
+  onCountChange?: (count: number) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Image preview loaded through the authenticated download endpoint
+const AttachmentThumbnail: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment.mime_type.startsWith('image/')) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    attachmentApi.download(attachment.id, true)
+      .then((response) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(response.data);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error('Error loading thumbnail:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, attachment.mime_type]);
+
+  if (url) {
+    return <img src={url} alt={attachment.original_name} className="h-10 w-10 rounded object-cover" />;
+  }
+
+  return (
+    <div className="flex h-10 w-10 items-center justify-center rounded bg-gray-100">
+      <FileText className="h-5 w-5 text-gray-500" />
+    </div>
+  );
+};
+
+export const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({
+  recordType,
+  recordId,
+  pendingFiles,
+  onPendingFilesChange,
+  onCountChange
+}) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!recordId) {
+      setAttachments([]);
+      return;
+    }
+
+    attachmentApi.getAll(recordType, recordId)
+      .then((response) => setAttachments(response.data.data.attachments || []))
+      .catch((error) => {
+        console.error('Error loading attachments:', error);
+        toast.error('Failed to load attachments');
+      });
+  }, [recordType, recordId]);
+
+  const updateAttachments = (next: Attachment[]) => {
+    setAttachments(next);
+    onCountChange?.(next.length);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const files = Array.from(fileList).filter((file) => {
+      if (!ACCEPTED_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: only images and PDF files are allowed`);
+        return false;
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        toast.error(`${file.name}: file is larger than ${formatFileSize(MAX_FILE_SIZE)}`);
+        return false;
+      }
+      return true;
+    });
+
+    if (files.length === 0) return;
+
+    if (!recordId) {
+      onPendingFilesChange([...pendingFiles, ...files]);
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const response = await attachmentApi.upload(recordType, recordId, files);
+      updateAttachments([...attachments, ...response.data.data.attachments]);
+      toast.success(response.data.message);
+    } catch (error: any) {
+      console.error('Error uploading attachments:', error);
+      toast.error(error.response?.data?.message || 'Failed to upload files');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const response = await attachmentApi.download(attachment.id);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.original_name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast.error('Failed to download file');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.original_name}?`)) return;
+
+    try {
+      await attachmentApi.delete(attachment.id);
+      updateAttachments(attachments.filter((item) => item.id !== attachment.id));
+      toast.success('Attachment deleted');
+    } catch (error: any) {
+      console.error('Error deleting attachment:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete attachment');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          'flex cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed p-4 text-center text-sm transition-colors',
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+        )}
+      >
+        <Upload className="mb-1 h-5 w-5 text-gray-500" />
+        <p className="text-gray-600">
+          {isUploading ? 'Uploading...' : 'Drop receipts here or click to browse'}
+        </p>
+        <p className="text-xs text-gray-400">Images or PDF, up to {formatFileSize(MAX_FILE_SIZE)} each</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+          <AttachmentThumbnail attachment={attachment} />
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{attachment.original_name}</p>
+            <p className="text-xs text-gray-500">{formatFileSize(attachment.size_bytes)}</p>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={() => handleDownload(attachment)}>
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleDelete(attachment)}
+            className="text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pendingFiles.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="flex items-center gap-3 rounded-md border border-dashed p-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded bg-gray-100">
+            <FileText className="h-5 w-5 text-gray-500" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{file.name}</p>
+            <p className="text-xs text-gray-500">{formatFileSize(file.size)} · uploads when saved</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onPendingFilesChange(pendingFiles.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentDropzone;
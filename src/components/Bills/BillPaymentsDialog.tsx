@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Trash2 } from 'lucide-react';
+import { billApi } from '../../lib/api';
+import { Account, Bill, BillPayment, BillPaymentForm } from '../../lib/types';
+import toast from 'react-hot-toast';
+
+const PAYMENT_METHODS = ['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'];
+
+interface BillPaymentsDialogProps {
+  bill: Bill | null;
+  accounts: Account[];
+  onClose: () => void;
+  // Called after a payment is recorded or removed so the caller can reload its bills
+  onChange: () => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+// Instalments paid against a vendor's bill, with a form to pay another. Paying the balance
+// in full marks the bill paid.
+export const BillPaymentsDialog: React.FC<BillPaymentsDialogProps> = ({ bill, accounts, onClose, onChange }) => {
+  const [payments, setPayments] = useState<BillPayment[]>([]);
+  const [balanceDue, setBalanceDue] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<BillPaymentForm>({
+    amount: 0,
+    payment_date: new Date().toISOString().split('T')[0],
+    payment_method: 'Cash',
+    account_id: null,
+    notes: ''
+  });
+
+  useEffect(() => {
+    if (bill) {
+      loadPayments(bill);
+    }
+  }, [bill]);
+
+  const loadPayments = async (current: Bill) => {
+    try {
+      const response = await billApi.getPayments(current.id);
+      const due = Number(response.data.data.balance_due) || 0;
+      setPayments(response.data.data.payments || []);
+      setBalanceDue(due);
+      setFormData({
+        amount: due,
+        payment_date: new Date().toISOString().split('T')[0],
+        payment_method: 'Cash',
+        account_id: null,
+        notes: ''
+      });
+    } catch (error) {
+      console.error('Error loading payments:', error);
+      toast.error('Failed to load payments');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bill) return;
+
+    if (formData.amount <= 0 || formData.amount > balanceDue) {
+      toast.error(`Enter an amount between 0 and ${formatCurrency(balanceDue)}`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await billApi.recordPayment(bill.id, formData);
+      toast.success(response.data.message || 'Payment recorded successfully');
+      onChange();
+      if (response.data.data.status === 'paid') {
+        onClose();
+      } else {
+        loadPayments(bill);
+      }
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      toast.error(error.response?.data?.message || 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: BillPayment) => {
+    if (!bill || !window.confirm('Delete this payment? The amount is put back on its account.')) {
+      return;
+    }
+
+    try {
+      await billApi.deletePayment(bill.id, payment.id);
+      toast.success('Payment deleted successfully');
+      onChange();
+      loadPayments(bill);
+    } catch (error: any) {
+      console.error('Error deleting payment:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete payment');
+    }
+  };
+
+  return (
+    <Dialog open={bill !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payments</DialogTitle>
+          <DialogDescription>
+            {bill && (
+              <>
+                {bill.bill_number || bill.description || 'Bill'} from {bill.vendor_name}:{' '}
+                {formatCurrency(Number(bill.amount))}, {formatCurrency(balanceDue)} still due
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {payments.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div>{payment.payment_method}</div>
+                      {payment.notes && <div className="text-xs text-gray-500">{payment.notes}</div>}
+                    </TableCell>
+                    <TableCell>{payment.account_name || '-'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(payment.amount))}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(payment)}
+                        className="text-red-600 hover:text-red-800"
+                        aria-label="Delete payment"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payment_amount">Amount *</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={balanceDue || undefined}
+                id="payment_amount"
+                value={formData.amount}
+                onChange={(e) => setFormData(prev => ({ ...prev, amount: Number(e.target.value) || 0 }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="payment_date">Date *</Label>
+              <Input
+                type="date"
+                id="payment_date"
+                value={formData.payment_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, payment_date: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="payment_method">Method</Label>
+              <Select
+                value={formData.payment_method}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+              >
+                <SelectTrigger id="payment_method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="payment_account">Paid From Account</Label>
+              <Select
+                value={formData.account_id ? formData.account_id.toString() : 'null'}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value === 'null' ? null : Number(value) }))}
+              >
+                <SelectTrigger id="payment_account">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="null">No account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.account_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="payment_notes">Notes</Label>
+            <Input
+              id="payment_notes"
+              value={formData.notes || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="e.g., Cheque no. 1042"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button type="submit" disabled={isSaving || balanceDue <= 0}>
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillPaymentsDialog;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { FileDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DateRangeExportDialogProps {
+  title: string;
+  description?: string;
+  // Download the export for the chosen range
+  onExport: (startDate: string, endDate: string) => Promise<void>;
+}
+
+// Button that asks for a date range before downloading an export (defaults to this month)
+export const DateRangeExportDialog: React.FC<DateRangeExportDialogProps> = ({ title, description, onExport }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [startDate, setStartDate] = useState(`${today.substring(0, 7)}-01`);
+  const [endDate, setEndDate] = useState(today);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (startDate > endDate) {
+      toast.error('Start date must be on or before end date');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      await onExport(startDate, endDate);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileDown className="mr-2 h-4 w-4" />
+          Export PDF
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <form onSubmit={handleExport} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="export_start_date">From</Label>
+              <Input
+                id="export_start_date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="export_end_date">To</Label>
+              <Input
+                id="export_end_date"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isExporting}>
+              {isExporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DateRangeExportDialog;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { Download } from 'lucide-react';
+import { exportApi } from '../../lib/api';
+import { ExportColumnOption, ExportFormat } from '../../lib/types';
+import { downloadFile } from '../../lib/utils';
+import toast from 'react-hot-toast';
+
+interface ListExportDialogProps {
+  title: string;
+  // List endpoint to export, e.g. /income
+  path: string;
+  // File name prefix, e.g. income -> income_2024-05-01.csv
+  name: string;
+  columns: ExportColumnOption[];
+  // Filters currently applied on the page; empty values and 'all' are left out
+  filters?: Record<string, string | undefined>;
+  // Offer an optional date range (for endpoints that accept start_date/end_date)
+  dateRange?: boolean;
+}
+
+// Button that downloads a list as CSV or Excel with the chosen columns
+export const ListExportDialog: React.FC<ListExportDialogProps> = ({ title, path, name, columns, filters = {}, dateRange = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(columns.map((column) => column.key));
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the columns in their listed order
+    setSelectedColumns((prev) => columns
+      .map((column) => column.key)
+      .filter((columnKey) => columnKey === key ? checked : prev.includes(columnKey)));
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedColumns.length === 0) {
+      toast.error('Select at least one column');
+      return;
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      toast.error('Start date must be on or before end date');
+      return;
+    }
+
+    const params: Record<string, string> = { format, columns: selectedColumns.join(',') };
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value && value !== 'all') {
+        params[key] = value;
+      }
+    });
+    if (startDate) params.start_date = startDate;
+    if (endDate) params.end_date = endDate;
+
+    try {
+      setIsExporting(true);
+      const response = await exportApi.list(path, params);
+      const today = new Date().toISOString().split('T')[0];
+      downloadFile(response.data, `${name}_${today}.${format}`);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Download every record matching the current filters.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleExport} className="space-y-4">
+          <div>
+            <Label htmlFor="export_format">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id="export_format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {dateRange && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="list_export_start_date">From</Label>
+                <Input
+                  id="list_export_start_date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="list_export_end_date">To</Label>
+                <Input
+                  id="list_export_end_date"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Columns</Label>
+              <div className="space-x-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedColumns(columns.map((column) => column.key))}>
+                  All
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedColumns([])}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export_column_${column.key}`}
+                    checked={selectedColumns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export_column_${column.key}`} className="font-normal">
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isExporting}>
+              {isExporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ListExportDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Badge } from '../ui/badge';
+import { BookOpen, CheckCircle } from 'lucide-react';
+import { importApi } from '../../lib/api';
+import { PlainTextImportLine, PlainTextImportResult, PlainTextSyntax } from '../../lib/types';
+import { formatCurrency, formatDate } from '../../lib/utils';
+import toast from 'react-hot-toast';
+
+const STATUS_BADGES: Record<PlainTextImportLine['status'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Already recorded', className: 'bg-gray-100 text-gray-700' },
+  unclassified: { label: 'Not imported', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+const describeRecords = (line: PlainTextImportLine) => line.records
+  .map((record) => record.type === 'transfer'
+    ? `Transfer ${formatCurrency(record.amount)}`
+    : `${record.type === 'income' ? 'Income' : 'Expense'} ${formatCurrency(record.amount)} (${record.category})`)
+  .join(', ');
+
+// Import a ledger/hledger or beancount journal: check it first, then create the records
+export const PlainTextImportCard: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [syntax, setSyntax] = useState<PlainTextSyntax | 'auto'>('auto');
+  const [result, setResult] = useState<PlainTextImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    try {
+      setIsWorking(true);
+      const response = await importApi.plainText(file, {
+        syntax: syntax === 'auto' ? undefined : syntax,
+        dry_run: dryRun
+      });
+      toast.success(response.data.message);
+      setResult(dryRun ? response.data.data : null);
+      if (!dryRun) {
+        setFile(null);
+      }
+    } catch (error: any) {
+      console.error('Error importing journal:', error);
+      toast.error(error.response?.data?.message || 'Failed to import journal');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <BookOpen className="mr-2 h-5 w-5" />
+          Plain-Text Journal
+        </CardTitle>
+        <CardDescription>
+          Read income, expenses and transfers from a ledger, hledger or beancount file. Income:… and Expenses:… accounts
+          become categories; cash and bank accounts are matched by name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="journal_file">Journal File</Label>
+            <Input
+              id="journal_file"
+              type="file"
+              accept=".ledger,.journal,.hledger,.beancount,.bean,.dat,.txt"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+          </div>
+          <div>
+            <Label>Syntax</Label>
+            <Select value={syntax} onValueChange={(value) => setSyntax(value as PlainTextSyntax | 'auto')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">From file extension</SelectItem>
+                <SelectItem value="ledger">ledger</SelectItem>
+                <SelectItem value="hledger">hledger</SelectItem>
+                <SelectItem value="beancount">beancount</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => runImport(true)} disabled={!file || isWorking}>
+            Check File
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-100 text-green-800">{result.summary.new} new</Badge>
+              <Badge variant="outline">{result.summary.duplicates} already recorded</Badge>
+              <Badge className="bg-yellow-100 text-yellow-800">{result.summary.unclassified} not imported</Badge>
+              {result.errors.length > 0 && (
+                <Badge className="bg-red-100 text-red-800">{result.errors.length} unreadable line(s)</Badge>
+              )}
+            </div>
+
+            {result.errors.length > 0 && (
+              <ul className="text-sm text-red-700 space-y-1">
+                {result.errors.map((error) => (
+                  <li key={error.line_number}>Line {error.line_number}: {error.message}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.lines.map((line) => (
+                    <TableRow key={line.line_number}>
+                      <TableCell className="text-gray-500">{line.line_number}</TableCell>
+                      <TableCell>{formatDate(line.date)}</TableCell>
+                      <TableCell>{line.description || '-'}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[line.status].className}>{STATUS_BADGES[line.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {line.status === 'new' ? describeRecords(line) : line.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button onClick={() => runImport(false)} disabled={isWorking || result.summary.new === 0}>
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Import {result.summary.new} Transaction(s)
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlainTextImportCard;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Plus, X } from 'lucide-react';
+import { QuotationItemForm } from '../../lib/types';
+import { invoiceLineTotal } from '../../lib/utils';
+
+// Most lines the API accepts on one invoice
+const MAX_LINES = 100;
+
+interface InvoiceLineEditorProps {
+  // Invoice lines, or quotation lines which may also carry a unit cost
+  lines: QuotationItemForm[];
+  onChange: (lines: QuotationItemForm[]) => void;
+  // Purchase categories with stock on hand, offered for lines sold from stock
+  stockCategories: string[];
+  // Ask for the unit cost of lines not sold from stock (quotations recorded straight as sales)
+  showUnitCost?: boolean;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+// Line items of an invoice or quotation: what was sold, quantity, unit price, discount and tax,
+// with each line's amount and the total worked out as they are typed.
+export const InvoiceLineEditor: React.FC<InvoiceLineEditorProps> = ({ lines, onChange, stockCategories, showUnitCost = false }) => {
+  const total = lines.reduce((sum, line) => sum + invoiceLineTotal(line), 0);
+
+  const updateLine = (index: number, changes: Partial<QuotationItemForm>) => {
+    onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const addLine = () => {
+    onChange([...lines, { description: '', purchase_category: null, quantity: 1, unit_price: 0, discount_percent: 0, tax_rate: 0 }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="rounded-md border p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              className="flex-1"
+              placeholder="Description"
+              aria-label={`Line ${index + 1} description`}
+              maxLength={255}
+              value={line.description}
+              onChange={(e) => updateLine(index, { description: e.target.value })}
+            />
+            <Select
+              value={line.purchase_category || 'none'}
+              onValueChange={(value) => updateLine(index, value === 'none' ? { purchase_category: null } : { purchase_category: value, unit_cost: null })}
+            >
+              <SelectTrigger className="w-44" aria-label={`Line ${index + 1} stock`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Service / not stock</SelectItem>
+                {stockCategories.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category} stock
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeLine(index)}
+              disabled={lines.length <= 1}
+              aria-label={`Remove line ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className={`grid grid-cols-2 ${showUnitCost ? 'md:grid-cols-6' : 'md:grid-cols-5'} gap-2 items-end`}>
+            <div>
+              <Label className="text-xs text-gray-500">Qty</Label>
+              <Input
+                type="number"
+                step="0.001"
+                min="0.001"
+                aria-label={`Line ${index + 1} quantity`}
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500">Unit price</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                aria-label={`Line ${index + 1} unit price`}
+                value={line.unit_price}
+                onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            {showUnitCost && (
+              <div>
+                <Label className="text-xs text-gray-500">Unit cost</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  aria-label={`Line ${index + 1} unit cost`}
+                  placeholder={line.purchase_category ? 'From stock' : 'Optional'}
+                  disabled={Boolean(line.purchase_category)}
+                  value={line.unit_cost ?? ''}
+                  onChange={(e) => updateLine(index, { unit_cost: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            )}
+            <div>
+              <Label className="text-xs text-gray-500">Discount %</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                aria-label={`Line ${index + 1} discount`}
+                value={line.discount_percent ?? 0}
+                onChange={(e) => updateLine(index, { discount_percent: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500">Tax %</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                aria-label={`Line ${index + 1} tax rate`}
+                value={line.tax_rate ?? 0}
+                onChange={(e) => updateLine(index, { tax_rate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="text-right text-sm font-medium pb-2">
+              {formatCurrency(invoiceLineTotal(line))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine} disabled={lines.length >= MAX_LINES}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add line
+        </Button>
+        <p className="text-sm font-medium">Total {formatCurrency(total)}</p>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceLineEditor;
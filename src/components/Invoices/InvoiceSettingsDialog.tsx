@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { ImageIcon, Trash2, Upload } from 'lucide-react';
+import { invoiceApi } from '../../lib/api';
+import { Category, InvoiceSettings, InvoiceSettingsForm } from '../../lib/types';
+import toast from 'react-hot-toast';
+
+// Settings entered as whole numbers
+const NUMERIC_FIELDS = ['next_number', 'payment_terms_days', 'next_quote_number', 'quote_validity_days'];
+
+interface InvoiceSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  incomeCategories: Category[];
+  saleCategories: Category[];
+  // Called with the saved settings so the caller can show the next number and terms
+  onSaved: (settings: InvoiceSettings) => void;
+}
+
+// Invoice and quotation numbering, default payment terms and quote validity, where paid
+// invoices are recorded, the printed footer and the logo shown on invoices.
+export const InvoiceSettingsDialog: React.FC<InvoiceSettingsDialogProps> = ({
+  open,
+  onClose,
+  incomeCategories,
+  saleCategories,
+  onSaved
+}) => {
+  const [formData, setFormData] = useState<InvoiceSettingsForm | null>(null);
+  const [hasLogo, setHasLogo] = useState(false);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadSettings();
+    }
+  }, [open]);
+
+  // Release the preview's object URL when it is replaced or the dialog goes away
+  useEffect(() => {
+    return () => {
+      if (logoUrl) URL.revokeObjectURL(logoUrl);
+    };
+  }, [logoUrl]);
+
+  const loadSettings = async () => {
+    try {
+      const response = await invoiceApi.getSettings();
+      const settings: InvoiceSettings = response.data.data.settings;
+      setFormData({
+        number_prefix: settings.number_prefix,
+        next_number: settings.next_number,
+        payment_terms_days: settings.payment_terms_days,
+        quote_prefix: settings.quote_prefix,
+        next_quote_number: settings.next_quote_number,
+        quote_validity_days: settings.quote_validity_days,
+        sale_category: settings.sale_category,
+        income_category: settings.income_category,
+        footer: settings.footer || ''
+      });
+      setHasLogo(settings.has_logo);
+      await loadLogo(settings.has_logo);
+    } catch (error) {
+      console.error('Error loading invoice settings:', error);
+      toast.error('Failed to load invoice settings');
+    }
+  };
+
+  const loadLogo = async (exists: boolean) => {
+    if (!exists) {
+      setLogoUrl(null);
+      return;
+    }
+
+    try {
+      const response = await invoiceApi.getLogo();
+      setLogoUrl(URL.createObjectURL(response.data));
+    } catch (error) {
+      console.error('Error loading logo:', error);
+      setLogoUrl(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    if (!formData.sale_category.trim() || !formData.income_category.trim()) {
+      toast.error('Choose the categories paid invoices are recorded under');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await invoiceApi.updateSettings(formData);
+      toast.success('Invoice settings saved');
+      onSaved(response.data.data.settings);
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving invoice settings:', error);
+      toast.error(error.response?.data?.message || 'Failed to save invoice settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const response = await invoiceApi.uploadLogo(file);
+      toast.success('Logo uploaded');
+      setHasLogo(true);
+      await loadLogo(true);
+      onSaved(response.data.data.settings);
+    } catch (error: any) {
+      console.error('Error uploading logo:', error);
+      toast.error(error.response?.data?.message || 'Failed to upload logo');
+    }
+  };
+
+  const handleLogoDelete = async () => {
+    try {
+      await invoiceApi.deleteLogo();
+      toast.success('Logo removed');
+      setHasLogo(false);
+      setLogoUrl(null);
+    } catch (error: any) {
+      console.error('Error removing logo:', error);
+      toast.error(error.response?.data?.message || 'Failed to remove logo');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => prev && ({
+      ...prev,
+      [name]: NUMERIC_FIELDS.includes(name) ? parseInt(value) || 0 : value
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invoice Settings</DialogTitle>
+          <DialogDescription>
+            Numbering, payment terms, quote validity and what is printed on your invoices.
+          </DialogDescription>
+        </DialogHeader>
+
+        {formData && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="number_prefix">Number Prefix</Label>
+                <Input id="number_prefix" name="number_prefix" value={formData.number_prefix} onChange={handleInputChange} maxLength={20} />
+              </div>
+              <div>
+                <Label htmlFor="next_number">Next Number</Label>
+                <Input type="number" min="1" id="next_number" name="next_number" value={formData.next_number} onChange={handleInputChange} required />
+              </div>
+              <div>
+                <Label htmlFor="payment_terms_days">Terms (days)</Label>
+                <Input type="number" min="0" max="365" id="payment_terms_days" name="payment_terms_days" value={formData.payment_terms_days} onChange={handleInputChange} required />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              The next invoice sent will be numbered {formData.number_prefix}{String(formData.next_number || 1).padStart(4, '0')}.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="quote_prefix">Quote Prefix</Label>
+                <Input id="quote_prefix" name="quote_prefix" value={formData.quote_prefix} onChange={handleInputChange} maxLength={20} />
+              </div>
+              <div>
+                <Label htmlFor="next_quote_number">Next Quote Number</Label>
+                <Input type="number" min="1" id="next_quote_number" name="next_quote_number" value={formData.next_quote_number} onChange={handleInputChange} required />
+              </div>
+              <div>
+                <Label htmlFor="quote_validity_days">Quotes Valid (days)</Label>
+                <Input type="number" min="1" max="365" id="quote_validity_days" name="quote_validity_days" value={formData.quote_validity_days} onChange={handleInputChange} required />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              The next quotation will be numbered {formData.quote_prefix}{String(formData.next_quote_number || 1).padStart(4, '0')}.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sale_category">Sale Category (stock lines)</Label>
+                <Input id="sale_category" name="sale_category" list="invoice-sale-categories" value={formData.sale_category} onChange={handleInputChange} maxLength={50} required />
+                <datalist id="invoice-sale-categories">
+                  {saleCategories.map((category) => (
+                    <option key={category.id} value={category.name} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <Label htmlFor="income_category">Income Category (other lines)</Label>
+                <Input id="income_category" name="income_category" list="invoice-income-categories" value={formData.income_category} onChange={handleInputChange} maxLength={50} required />
+                <datalist id="invoice-income-categories">
+                  {incomeCategories.map((category) => (
+                    <option key={category.id} value={category.name} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="footer">Footer</Label>
+              <Textarea
+                id="footer"
+                name="footer"
+                value={formData.footer || ''}
+                onChange={handleInputChange}
+                rows={2}
+                maxLength={1000}
+                placeholder="e.g. bank details or a thank-you note"
+              />
+            </div>
+
+            <div>
+              <Label>Logo</Label>
+              <div className="flex items-center gap-3 mt-1">
+                <div className="flex h-16 w-32 items-center justify-center rounded-md border bg-gray-50">
+                  {logoUrl ? (
+                    <img src={logoUrl} alt="Invoice logo" className="max-h-14 max-w-[7.5rem]" />
+                  ) : (
+                    <ImageIcon className="h-6 w-6 text-gray-400" />
+                  )}
+                </div>
+                <Button type="button" variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="mr-1 h-4 w-4" />
+                    {hasLogo ? 'Replace' : 'Upload'}
+                    <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoUpload} />
+                  </label>
+                </Button>
+                {hasLogo && (
+                  <Button type="button" variant="ghost" size="sm" onClick={handleLogoDelete} className="text-red-600 hover:text-red-800">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">PNG or JPEG, shown at the top of printed invoices.</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                Save Settings
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceSettingsDialog;
@@ -11,10 +11,17 @@ const breadcrumbLabels: Record<string, string> = {
   dashboard: 'Dashboard',
   income: 'Income',
   expenses: 'Expenses',
+  budgets: 'Budgets',
+  recurring: 'Recurring',
   charity: 'Charity',
   accounts: 'Accounts',
   loans: 'Loans',
+  ledger: 'Ledger',
   analytics: 'Analytics',
+  reports: 'Reports',
+  import: 'Import',
+  reconciliation: 'Reconciliation',
+  'accounting-export': 'Accountant Export',
   categories: 'Categories',
   profile: 'Profile',
 };
@@ -14,7 +14,19 @@ import {
   BarChart3,
   Building2,
   ShoppingCart,
-  ShoppingBag
+  ShoppingBag,
+  PiggyBank,
+  Repeat,
+  BookOpen,
+  FileText,
+  Upload,
+  Landmark,
+  FileOutput,
+  Users,
+  Truck,
+  Receipt,
+  FileSpreadsheet,
+  ClipboardList
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -28,10 +40,22 @@ const navigation = [
   { name: 'Expenses', href: '/expenses', icon: TrendingDown },
   { name: 'Purchases', href: '/purchases', icon: ShoppingCart },
   { name: 'Sales', href: '/sales', icon: ShoppingBag },
+  { name: 'Quotations', href: '/quotations', icon: ClipboardList },
+  { name: 'Invoices', href: '/invoices', icon: FileSpreadsheet },
+  { name: 'Customers', href: '/customers', icon: Users },
+  { name: 'Vendors', href: '/vendors', icon: Truck },
+  { name: 'Bills', href: '/bills', icon: Receipt },
+  { name: 'Budgets', href: '/budgets', icon: PiggyBank },
+  { name: 'Recurring', href: '/recurring', icon: Repeat },
   { name: 'Charity', href: '/charity', icon: Heart },
   { name: 'Accounts', href: '/accounts', icon: Wallet },
   { name: 'Loans', href: '/loans', icon: CreditCard },
+  { name: 'Reconciliation', href: '/reconciliation', icon: Landmark },
+  { name: 'Ledger', href: '/ledger', icon: BookOpen },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
+  { name: 'Reports', href: '/reports', icon: FileText },
+  { name: 'Accountant Export', href: '/accounting-export', icon: FileOutput },
+  { name: 'Import', href: '/import', icon: Upload },
   { name: 'Categories', href: '/categories', icon: Settings },
 ];
 
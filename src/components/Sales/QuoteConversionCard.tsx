@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { quotationApi } from '../../lib/api';
+import { QuoteConversionReport } from '../../lib/types';
+import toast from 'react-hot-toast';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+// How many of the quotes sent in a period became invoices or sales, overall and by month.
+// Without dates it covers the current year to date.
+export const QuoteConversionCard: React.FC = () => {
+  const [report, setReport] = useState<QuoteConversionReport | null>(null);
+  const [range, setRange] = useState({ start_date: '', end_date: '' });
+
+  useEffect(() => {
+    loadReport();
+  }, [range]);
+
+  const loadReport = async () => {
+    try {
+      const response = await quotationApi.getConversion({
+        start_date: range.start_date || undefined,
+        end_date: range.end_date || undefined
+      });
+      setReport(response.data.data);
+    } catch (error) {
+      console.error('Error loading quote conversion:', error);
+      toast.error('Failed to load quote conversion');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Quote Conversion</CardTitle>
+          <CardDescription>
+            Quotations sent that became invoices or sales{report && `, ${new Date(report.period.start_date).toLocaleDateString()} to ${new Date(report.period.end_date).toLocaleDateString()}`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="conversion_start">From</Label>
+          <Input
+            type="date"
+            id="conversion_start"
+            className="w-40"
+            value={range.start_date}
+            onChange={(e) => setRange(prev => ({ ...prev, start_date: e.target.value }))}
+          />
+          <Label htmlFor="conversion_end">To</Label>
+          <Input
+            type="date"
+            id="conversion_end"
+            className="w-40"
+            value={range.end_date}
+            onChange={(e) => setRange(prev => ({ ...prev, end_date: e.target.value }))}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!report ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : report.quoted_count === 0 ? (
+          <div className="text-center py-8 text-gray-500">No quotations sent in this period</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Conversion rate</p>
+                <p className="text-2xl font-bold">{report.conversion_rate.toFixed(1)}%</p>
+                <p className="text-xs text-gray-500">{report.converted_count} of {report.quoted_count} quotes</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Value converted</p>
+                <p className="text-2xl font-bold">{report.value_conversion_rate.toFixed(1)}%</p>
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(report.converted_value)} of {formatCurrency(report.quoted_value)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Converted to</p>
+                <p className="text-sm font-medium mt-1">{report.converted_to_invoice} invoices</p>
+                <p className="text-sm font-medium">{report.converted_to_sale} direct sales</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Average time to convert</p>
+                <p className="text-2xl font-bold">
+                  {report.avg_days_to_convert === null ? '-' : `${report.avg_days_to_convert} days`}
+                </p>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Still open: {report.open_count} awaiting an answer, {report.accepted_count} accepted but not converted.
+              Lost: {report.rejected_count} rejected, {report.expired_count} expired.
+            </p>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Quotes</TableHead>
+                    <TableHead className="text-right">Quoted</TableHead>
+                    <TableHead className="text-right">Converted</TableHead>
+                    <TableHead className="text-right">Value Converted</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.monthly.map((month) => (
+                    <TableRow key={month.month}>
+                      <TableCell>{formatMonth(month.month)}</TableCell>
+                      <TableCell className="text-right">{month.quoted_count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.quoted_value)}</TableCell>
+                      <TableCell className="text-right">{month.converted_count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.converted_value)}</TableCell>
+                      <TableCell className="text-right font-medium">{month.conversion_rate.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuoteConversionCard;
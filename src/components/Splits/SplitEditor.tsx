@@ -0,0 +1,124 @@
+import React from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Plus, X } from 'lucide-react';
+import { Category, SplitLineForm, Tag } from '../../lib/types';
+import { cn, splitLinesTotal } from '../../lib/utils';
+
+// Most lines the API accepts on one record
+const MAX_LINES = 50;
+
+interface SplitEditorProps {
+  lines: SplitLineForm[];
+  onChange: (lines: SplitLineForm[]) => void;
+  // Amount of the record the lines must add up to
+  total: number;
+  categories: Category[];
+  // Existing tags offered for each line
+  tags: Tag[];
+}
+
+// Line items of a split record: each with its own category, amount, note and optional tag,
+// with a running check of how much of the total is still unassigned.
+export const SplitEditor: React.FC<SplitEditorProps> = ({ lines, onChange, total, categories, tags }) => {
+  const assigned = splitLinesTotal(lines);
+  const remaining = Math.round((total - assigned) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<SplitLineForm>) => {
+    onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const addLine = () => {
+    onChange([...lines, { category: '', amount: remaining > 0 ? remaining : 0, description: '', tag: '' }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="rounded-md border p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <Select value={line.category} onValueChange={(value) => updateLine(index, { category: value })}>
+                <SelectTrigger aria-label={`Line ${index + 1} category`}>
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {category.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-28"
+              aria-label={`Line ${index + 1} amount`}
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: parseFloat(e.target.value) || 0 })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeLine(index)}
+              disabled={lines.length <= 2}
+              aria-label={`Remove line ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              className="flex-1"
+              placeholder="Note (optional)"
+              aria-label={`Line ${index + 1} note`}
+              maxLength={255}
+              value={line.description || ''}
+              onChange={(e) => updateLine(index, { description: e.target.value })}
+            />
+            <Input
+              className="w-36"
+              placeholder="Tag (optional)"
+              aria-label={`Line ${index + 1} tag`}
+              list="split-line-tags"
+              maxLength={50}
+              value={line.tag || ''}
+              onChange={(e) => updateLine(index, { tag: e.target.value.replace(/,/g, '') })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <datalist id="split-line-tags">
+        {tags.map((tag) => (
+          <option key={tag.id} value={tag.name} />
+        ))}
+      </datalist>
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine} disabled={lines.length >= MAX_LINES}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add line
+        </Button>
+        <p className={cn('text-sm', remaining === 0 ? 'text-green-600' : 'text-red-600')}>
+          {remaining === 0
+            ? `Lines add up to ${assigned.toFixed(2)}`
+            : remaining > 0
+              ? `${remaining.toFixed(2)} left to assign`
+              : `${Math.abs(remaining).toFixed(2)} over the total`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
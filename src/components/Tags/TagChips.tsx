@@ -0,0 +1,32 @@
+import React from 'react';
+import { Badge } from '../ui/badge';
+import { RecordTag } from '../../lib/types';
+
+interface TagChipsProps {
+  tags?: RecordTag[];
+  // Called with the tag name when a chip is clicked, e.g. to filter the list by it
+  onSelect?: (name: string) => void;
+}
+
+// Tags of a record shown as small colored chips
+export const TagChips: React.FC<TagChipsProps> = ({ tags = [], onSelect }) => {
+  if (tags.length === 0) return <span className="text-gray-400">-</span>;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          variant="outline"
+          className={onSelect ? 'cursor-pointer' : undefined}
+          style={{ borderColor: tag.color, color: tag.color }}
+          onClick={onSelect ? () => onSelect(tag.name) : undefined}
+        >
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
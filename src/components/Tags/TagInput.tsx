@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Input } from '../ui/input';
+import { X } from 'lucide-react';
+import { Tag } from '../../lib/types';
+import { cn } from '../../lib/utils';
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered while typing
+  suggestions: Tag[];
+  placeholder?: string;
+  // Only allow picking existing tags (for filters)
+  existingOnly?: boolean;
+}
+
+// Tag names as removable chips with a text box that autocompletes from the user's tags.
+// Enter or a comma adds the typed name; Backspace in the empty box removes the last chip.
+export const TagInput: React.FC<TagInputProps> = ({ id, value, onChange, suggestions, placeholder, existingOnly = false }) => {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const chosen = new Set(value.map((name) => name.toLowerCase()));
+  const matches = suggestions
+    .filter((tag) => !chosen.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(query.trim().toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+  const colorOf = (name: string) => suggestions.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color;
+
+  const addTag = (raw: string) => {
+    const name = raw.replace(/,/g, '').trim().slice(0, 50);
+    setQuery('');
+    setHighlighted(0);
+    if (!name || chosen.has(name.toLowerCase())) return;
+
+    // Reuse the stored spelling of an existing tag
+    const existing = suggestions.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (existingOnly && !existing) return;
+    onChange([...value, existing ? existing.name : name]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (isFocused && matches[highlighted] && (existingOnly || query.trim() !== '')) {
+        addTag(matches[highlighted].name);
+      } else {
+        addTag(query);
+      }
+    } else if (e.key === 'Backspace' && query === '' && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-zinc-200 px-2 py-1 min-h-9">
+        {value.map((name) => {
+          const color = colorOf(name);
+          return (
+            <span
+              key={name}
+              className="inline-flex items-center rounded-md border px-2 py-0.5 text-xs font-semibold"
+              style={color ? { borderColor: color, color } : undefined}
+            >
+              {name}
+              <button
+                type="button"
+                className="ml-1 text-gray-400 hover:text-gray-700"
+                onClick={() => removeTag(name)}
+                aria-label={`Remove ${name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          );
+        })}
+        <Input
+          id={id}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          className="h-7 flex-1 min-w-[8rem] border-0 p-0 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-md max-h-48 overflow-y-auto">
+          {matches.map((tag, index) => (
+            <li
+              key={tag.id}
+              className={cn('flex items-center px-3 py-1.5 text-sm cursor-pointer', index === highlighted && 'bg-gray-100')}
+              // Pick on mouse down so the input keeps focus
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag.name);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+              {tag.usage_count !== undefined && (
+                <span className="ml-auto text-xs text-gray-400">{tag.usage_count}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { AccountingTarget, PlainTextSyntax } from './types';
 
 // Create axios instance with base configuration
 export const api = axios.create({
@@ -83,7 +84,10 @@ export const saleApi = {
   update: (id: number, data: any) => api.put(`/sales/${id}`, data),
   delete: (id: number) => api.delete(`/sales/${id}`),
   getSummary: () => api.get('/sales/summary'),
-  getAvailablePurchases: () => api.get('/sales/available-purchases'),
+  getAvailablePurchases: (params?: any) => api.get('/sales/available-purchases', { params }),
+  getPayments: (id: number) => api.get(`/sales/${id}/payments`),
+  recordPayment: (id: number, data: any) => api.post(`/sales/${id}/payments`, data),
+  deletePayment: (id: number, paymentId: number) => api.delete(`/sales/${id}/payments/${paymentId}`),
 };
 
 export const charityApi = {
@@ -96,6 +100,118 @@ export const charityApi = {
   getStats: () => api.get('/charity/stats/summary'),
 };
 
+export const charityRuleApi = {
+  getAll: () => api.get('/charity-rules'),
+  create: (data: any) => api.post('/charity-rules', data),
+  update: (id: number, data: any) => api.put(`/charity-rules/${id}`, data),
+  delete: (id: number) => api.delete(`/charity-rules/${id}`),
+  resolve: (params?: any) => api.get('/charity-rules/resolve', { params }),
+};
+
+export const budgetApi = {
+  getAll: () => api.get('/budgets'),
+  getVsActual: (params?: any) => api.get('/budgets/vs-actual', { params }),
+  create: (data: any) => api.post('/budgets', data),
+  update: (id: number, data: any) => api.put(`/budgets/${id}`, data),
+  delete: (id: number) => api.delete(`/budgets/${id}`),
+};
+
+export const recurringApi = {
+  getAll: () => api.get('/recurring'),
+  getOccurrences: (id: number) => api.get(`/recurring/${id}/occurrences`),
+  create: (data: any) => api.post('/recurring', data),
+  update: (id: number, data: any) => api.put(`/recurring/${id}`, data),
+  delete: (id: number) => api.delete(`/recurring/${id}`),
+  pause: (id: number) => api.post(`/recurring/${id}/pause`),
+  resume: (id: number) => api.post(`/recurring/${id}/resume`),
+  skip: (id: number) => api.post(`/recurring/${id}/skip`),
+};
+
+export const ledgerApi = {
+  getAccounts: () => api.get('/ledger/accounts'),
+  getEntries: (params?: any) => api.get('/ledger/entries', { params }),
+  getTrialBalance: (params?: any) => api.get('/ledger/trial-balance', { params }),
+  rebuild: () => api.post('/ledger/rebuild'),
+};
+
+export const reportApi = {
+  getProfitAndLoss: (params?: any) => api.get('/reports/profit-loss', { params }),
+  getBalanceSheet: (params?: any) => api.get('/reports/balance-sheet', { params }),
+  getCashFlow: (params?: any) => api.get('/reports/cash-flow', { params }),
+};
+
+export const exportApi = {
+  dashboardPdf: () => api.get('/export/pdf/dashboard', { responseType: 'blob' }),
+  ledgerPdf: (type: 'income' | 'expense', params: any) => api.get(`/export/pdf/${type}`, { params, responseType: 'blob' }),
+  loanStatementPdf: (id: number) => api.get(`/export/pdf/loans/${id}`, { responseType: 'blob' }),
+  charityStatementPdf: (params?: any) => api.get('/export/pdf/charity', { params, responseType: 'blob' }),
+  // Download a list endpoint (e.g. /income) as CSV/XLSX; params carry format, columns and filters
+  list: (path: string, params: any) => api.get(path, { params, responseType: 'blob' }),
+  // Vouchers for a period in Tally XML, QuickBooks IIF or Xero CSV format
+  accounting: (target: AccountingTarget, params: any) => api.get(`/export/accounting/${target}`, { params, responseType: 'blob' }),
+  getAccountingMappings: (target: AccountingTarget) => api.get('/export/accounting/mappings', { params: { target } }),
+  saveAccountingMappings: (data: any) => api.put('/export/accounting/mappings', data),
+  // The whole journal as a ledger, hledger or beancount file
+  plainText: (syntax: PlainTextSyntax, params: any) => api.get(`/export/plaintext/${syntax}`, { params, responseType: 'blob' }),
+};
+
+export const importApi = {
+  parse: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post('/import/parse', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  preview: (data: any) => api.post('/import/preview', data),
+  commit: (data: any) => api.post('/import/commit', data),
+  getBatches: () => api.get('/import/batches'),
+  rollback: (id: number) => api.post(`/import/batches/${id}/rollback`),
+  plainText: (file: File, options: { syntax?: PlainTextSyntax; dry_run: boolean }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.syntax) {
+      formData.append('syntax', options.syntax);
+    }
+    formData.append('dry_run', String(options.dry_run));
+    return api.post('/import/plaintext', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+};
+
+export const reconciliationApi = {
+  getProfiles: () => api.get('/reconciliation/profiles'),
+  createProfile: (data: any) => api.post('/reconciliation/profiles', data),
+  deleteProfile: (id: number) => api.delete(`/reconciliation/profiles/${id}`),
+  getStatements: (accountId: number) => api.get(`/reconciliation/accounts/${accountId}/statements`),
+  importStatement: (accountId: number, file: File, options: { profile_id?: number; date_format?: string }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.profile_id) {
+      formData.append('profile_id', String(options.profile_id));
+    }
+    if (options.date_format) {
+      formData.append('date_format', options.date_format);
+    }
+    return api.post(`/reconciliation/accounts/${accountId}/statements`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  deleteStatement: (id: number) => api.delete(`/reconciliation/statements/${id}`),
+  getLines: (accountId: number, params?: any) => api.get(`/reconciliation/accounts/${accountId}/lines`, { params }),
+  getBookEntries: (accountId: number, params: any) => api.get(`/reconciliation/accounts/${accountId}/book-entries`, { params }),
+  autoMatch: (accountId: number) => api.post(`/reconciliation/accounts/${accountId}/auto-match`),
+  matchLine: (id: number, data: { source_type: string; source_id: number }) => api.post(`/reconciliation/lines/${id}/match`, data),
+  unmatchLine: (id: number) => api.post(`/reconciliation/lines/${id}/unmatch`),
+  ignoreLine: (id: number) => api.post(`/reconciliation/lines/${id}/ignore`),
+  createRecord: (id: number, data: any) => api.post(`/reconciliation/lines/${id}/create-record`, data),
+  getSummary: (accountId: number, params?: any) => api.get(`/reconciliation/accounts/${accountId}/summary`, { params }),
+  reconcile: (accountId: number, data: any) => api.post(`/reconciliation/accounts/${accountId}/reconcile`, data),
+  getReconciliations: (accountId: number) => api.get(`/reconciliation/accounts/${accountId}/reconciliations`),
+  undoReconciliation: (id: number) => api.delete(`/reconciliation/reconciliations/${id}`),
+};
+
 export const accountApi = {
   getAll: () => api.get('/accounts'),
   getById: (id: number) => api.get(`/accounts/${id}`),
@@ -112,15 +228,117 @@ export const loanApi = {
   update: (id: number, data: any) => api.put(`/loans/${id}`, data),
   delete: (id: number) => api.delete(`/loans/${id}`),
   recordPayment: (id: number, data: any) => api.post(`/loans/${id}/payment`, data),
+  getSchedule: (id: number) => api.get(`/loans/${id}/schedule`),
+  getReceipt: (id: number, paymentId: number) => api.get(`/loans/${id}/payments/${paymentId}/receipt`),
+  simulatePayoff: (id: number, extraPayment: number) => api.get(`/loans/${id}/payoff-simulation`, {
+    params: { extra_payment: extraPayment },
+  }),
   getStats: () => api.get('/loans/stats/summary'),
 };
 
+export const attachmentApi = {
+  getAll: (recordType: string, recordId: number) => api.get(`/attachments/records/${recordType}/${recordId}`),
+  upload: (recordType: string, recordId: number, files: File[]) => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    return api.post(`/attachments/records/${recordType}/${recordId}`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  download: (id: number, inline = false) => api.get(`/attachments/${id}/download`, {
+    params: inline ? { inline: true } : undefined,
+    responseType: 'blob',
+  }),
+  delete: (id: number) => api.delete(`/attachments/${id}`),
+};
+
 export const categoryApi = {
   getAll: (params?: any) => api.get('/categories', { params }),
   getById: (id: number) => api.get(`/categories/${id}`),
   create: (data: any) => api.post('/categories', data),
   update: (id: number, data: any) => api.put(`/categories/${id}`, data),
-  delete: (id: number) => api.delete(`/categories/${id}`),
+  // reassignTo moves the category's records, subcategories and settings before deleting it
+  delete: (id: number, reassignTo?: number) => api.delete(`/categories/${id}`, { params: { reassign_to: reassignTo } }),
+  merge: (id: number, targetId: number) => api.post(`/categories/${id}/merge`, { target_id: targetId }),
   getStats: (id: number) => api.get(`/categories/${id}/stats`),
   getUsageSummary: () => api.get('/categories/usage/summary'),
 };
+
+export const tagApi = {
+  getAll: (params?: any) => api.get('/tags', { params }),
+  create: (data: any) => api.post('/tags', data),
+  update: (id: number, data: any) => api.put(`/tags/${id}`, data),
+  delete: (id: number) => api.delete(`/tags/${id}`),
+  getSummary: (params?: any) => api.get('/tags/summary', { params }),
+};
+
+export const customerApi = {
+  getAll: (params?: any) => api.get('/customers', { params }),
+  getById: (id: number) => api.get(`/customers/${id}`),
+  create: (data: any) => api.post('/customers', data),
+  update: (id: number, data: any) => api.put(`/customers/${id}`, data),
+  delete: (id: number) => api.delete(`/customers/${id}`),
+  getStatement: (id: number, params?: any) => api.get(`/customers/${id}/statement`, { params }),
+  getAging: (params?: any) => api.get('/customers/receivables/aging', { params }),
+};
+
+export const vendorApi = {
+  getAll: (params?: any) => api.get('/vendors', { params }),
+  getById: (id: number) => api.get(`/vendors/${id}`),
+  create: (data: any) => api.post('/vendors', data),
+  update: (id: number, data: any) => api.put(`/vendors/${id}`, data),
+  delete: (id: number) => api.delete(`/vendors/${id}`),
+  getAging: (params?: any) => api.get('/vendors/payables/aging', { params }),
+  getSpend: (params?: any) => api.get('/vendors/spend', { params }),
+  getVendorSpend: (id: number, params?: any) => api.get(`/vendors/${id}/spend`, { params }),
+};
+
+export const billApi = {
+  getAll: (params?: any) => api.get('/bills', { params }),
+  getById: (id: number) => api.get(`/bills/${id}`),
+  create: (data: any) => api.post('/bills', data),
+  update: (id: number, data: any) => api.put(`/bills/${id}`, data),
+  delete: (id: number) => api.delete(`/bills/${id}`),
+  getPayments: (id: number) => api.get(`/bills/${id}/payments`),
+  recordPayment: (id: number, data: any) => api.post(`/bills/${id}/payments`, data),
+  deletePayment: (id: number, paymentId: number) => api.delete(`/bills/${id}/payments/${paymentId}`),
+};
+
+export const invoiceApi = {
+  getAll: (params?: any) => api.get('/invoices', { params }),
+  getById: (id: number) => api.get(`/invoices/${id}`),
+  create: (data: any) => api.post('/invoices', data),
+  update: (id: number, data: any) => api.put(`/invoices/${id}`, data),
+  delete: (id: number) => api.delete(`/invoices/${id}`),
+  send: (id: number) => api.post(`/invoices/${id}/send`),
+  pay: (id: number, data: any) => api.post(`/invoices/${id}/pay`, data),
+  unpay: (id: number) => api.post(`/invoices/${id}/unpay`),
+  void: (id: number) => api.post(`/invoices/${id}/void`),
+  getHtml: (id: number) => api.get(`/invoices/${id}/html`, { responseType: 'text' }),
+  downloadPdf: (id: number) => api.get(`/invoices/${id}/pdf`, { responseType: 'blob' }),
+  getSettings: () => api.get('/invoices/settings'),
+  updateSettings: (data: any) => api.put('/invoices/settings', data),
+  getLogo: () => api.get('/invoices/settings/logo', { responseType: 'blob' }),
+  uploadLogo: (file: File) => {
+    const formData = new FormData();
+    formData.append('logo', file);
+    return api.post('/invoices/settings/logo', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  deleteLogo: () => api.delete('/invoices/settings/logo'),
+};
+
+export const quotationApi = {
+  getAll: (params?: any) => api.get('/quotations', { params }),
+  getById: (id: number) => api.get(`/quotations/${id}`),
+  create: (data: any) => api.post('/quotations', data),
+  update: (id: number, data: any) => api.put(`/quotations/${id}`, data),
+  delete: (id: number) => api.delete(`/quotations/${id}`),
+  send: (id: number) => api.post(`/quotations/${id}/send`),
+  accept: (id: number) => api.post(`/quotations/${id}/accept`),
+  reject: (id: number) => api.post(`/quotations/${id}/reject`),
+  convertToInvoice: (id: number) => api.post(`/quotations/${id}/convert-to-invoice`),
+  convertToSale: (id: number, data: any) => api.post(`/quotations/${id}/convert-to-sale`, data),
+  getConversion: (params?: any) => api.get('/quotations/reports/conversion', { params }),
+};
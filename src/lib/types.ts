@@ -21,9 +21,14 @@ export interface Income {
   amount: number;
   description?: string;
   category: string;
+  category_id?: number | null;
   source?: string;
+  account_id?: number | null;
+  account_name?: string;
   date: string;
+  charity_rate: number;
   charity_required: number;
+  tags?: RecordTag[];
   created_at: string;
   updated_at: string;
 }
@@ -33,9 +38,17 @@ export interface Expense {
   amount: number;
   description?: string;
   category: string;
+  category_id?: number | null;
   payment_method: string;
+  account_id?: number | null;
+  account_name?: string;
+  vendor_id?: number | null;
+  vendor_name?: string | null;
   date: string;
   receipt_path?: string;
+  attachment_count?: number;
+  tags?: RecordTag[];
+  splits?: SplitLine[];
   created_at: string;
   updated_at: string;
 }
@@ -45,34 +58,69 @@ export interface Purchase {
   amount: number;
   description?: string;
   category: string;
+  category_id?: number | null;
+  quantity: number;
+  unit_cost: number;
+  quantity_sold?: number;
   payment_method: string;
+  account_id?: number | null;
+  account_name?: string;
+  vendor_id?: number | null;
+  vendor_name?: string | null;
   date: string;
   receipt_path?: string;
+  attachment_count?: number;
+  tags?: RecordTag[];
+  splits?: SplitLine[];
   created_at: string;
   updated_at: string;
 }
 
+// Purchase lot with unsold stock, as listed for new sales
+export interface StockLot {
+  id: number;
+  description?: string;
+  category: string;
+  date: string;
+  amount: number;
+  quantity: number;
+  unit_cost: number;
+  quantity_remaining: number;
+}
+
+export type CostMethod = 'manual' | 'specific' | 'fifo' | 'average';
+
 export interface Sale {
   id: number;
   purchase_id?: number;
+  purchase_category?: string | null;
+  quantity?: number | null;
+  cost_method: CostMethod;
   amount: number;
   selling_price: number;
   profit: number;
   profit_percentage: number;
   description?: string;
+  customer_id?: number | null;
   customer_name?: string;
   customer_contact?: string;
   payment_method: string;
+  account_id?: number | null;
+  account_name?: string;
   date: string;
   status: 'pending' | 'completed' | 'cancelled';
+  // Part-payments received and what is still owed (pending sales only)
+  amount_paid?: number;
+  balance_due?: number;
   notes?: string;
   category: string; // Added category
+  category_id?: number | null;
   receipt_path?: string; // Added receipt_path
+  tags?: RecordTag[];
   created_at: string;
   updated_at: string;
   // Joined fields from purchase (these were commented out, re-adding for completeness if needed by frontend)
   purchase_description?: string;
-  purchase_category?: string;
   purchase_date?: string;
 }
 
@@ -93,6 +141,201 @@ export interface Charity {
   income_date?: string;
 }
 
+export interface CharityRule {
+  id: number;
+  category: string | null; // null is the user's default rule
+  rate: number;
+  is_exempt: boolean;
+  effective_from: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+
+export interface Budget {
+  id: number;
+  category: string;
+  category_type: 'expense' | 'purchase';
+  period: BudgetPeriod;
+  amount: number;
+  rollover: boolean;
+  start_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A budget with its spending for the period being viewed
+export interface BudgetVsActual extends Budget {
+  period_start: string;
+  period_end: string;
+  budgeted: number;
+  rolled_over: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+  status: 'ok' | 'warning' | 'exceeded';
+}
+
+// Returned when a new expense or purchase crosses 80% or 100% of its budget
+export interface BudgetAlert {
+  budget_id: number;
+  category: string;
+  threshold: number;
+  message: string;
+}
+
+export type RecurringRecordType = 'income' | 'expense' | 'loan_payment';
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurringDayRule = 'same_day' | 'last_day' | 'last_business_day';
+
+export interface RecurringTemplate {
+  id: number;
+  name: string;
+  record_type: RecurringRecordType;
+  amount: number;
+  description?: string;
+  category?: string;
+  source?: string;
+  payment_method?: string;
+  account_id?: number | null;
+  account_name?: string;
+  loan_id?: number | null;
+  lender_name?: string | null;
+  borrower_name?: string | null;
+  frequency: RecurringFrequency;
+  interval_count: number;
+  day_rule: RecurringDayRule;
+  start_date: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+  occurrence_count: number;
+  next_run_date?: string | null;
+  last_created_date?: string | null;
+  upcoming_dates: string[];
+  status: 'active' | 'paused' | 'completed';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringOccurrence {
+  id: number;
+  scheduled_date: string;
+  status: 'created' | 'skipped' | 'failed';
+  record_id?: number | null;
+  error_message?: string | null;
+  created_at: string;
+}
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export interface LedgerAccountBalance {
+  id: number;
+  code: string;
+  name: string;
+  account_type: LedgerAccountType;
+  total_debit: number;
+  total_credit: number;
+  debit_balance: number;
+  credit_balance: number;
+}
+
+export interface TrialBalance {
+  as_of: string;
+  accounts: LedgerAccountBalance[];
+  totals: {
+    debit: number;
+    credit: number;
+    difference: number;
+    balanced: boolean;
+  };
+}
+
+export interface OutOfBalanceAccount {
+  id: number;
+  account_name: string;
+  balance: number;
+  ledger_balance: number;
+}
+
+export interface JournalLine {
+  entry_id: number;
+  ledger_account_id: number;
+  code: string;
+  account_name: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  id: number;
+  entry_date: string;
+  description: string;
+  source_type: string;
+  source_id?: number | null;
+  created_at: string;
+  lines: JournalLine[];
+}
+
+export interface LedgerRebuildResult {
+  entries: number;
+  opening_adjustments: number;
+  balances_corrected: number;
+}
+
+export type StatementComparison = 'previous_period' | 'previous_year';
+
+export interface StatementPeriod {
+  start_date: string;
+  end_date: string;
+}
+
+export interface StatementLine {
+  key: string;
+  label: string;
+  amount: number;
+  comparison_amount: number | null;
+  change: number | null;
+  change_percentage: number | null;
+}
+
+export interface StatementSection {
+  key: string;
+  label: string;
+  lines: StatementLine[];
+  total: StatementLine;
+}
+
+export interface ProfitAndLossStatement {
+  period: StatementPeriod;
+  comparison_period: StatementPeriod | null;
+  sections: StatementSection[];
+  totals: StatementLine[];
+}
+
+export interface BalanceSheetStatement {
+  as_of: string;
+  comparison_as_of: string | null;
+  balanced: boolean;
+  sections: StatementSection[];
+  totals: StatementLine[];
+}
+
+export type CashFlowStatement = ProfitAndLossStatement;
+
+export type AttachmentRecordType = 'income' | 'expense' | 'purchase' | 'sale' | 'loan' | 'charity';
+
+export interface Attachment {
+  id: number;
+  record_type: AttachmentRecordType;
+  record_id: number;
+  original_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
 export interface Account {
   id: number;
   account_type: 'cash' | 'bank' | 'savings' | 'investment';
@@ -104,10 +347,18 @@ export interface Account {
   updated_at: string;
 }
 
+export type LoanDirection = 'payable' | 'receivable';
+
+export type BorrowerType = 'staff' | 'customer' | 'other';
+
 export interface Loan {
   id: number;
+  direction: LoanDirection;
   loan_type: 'personal' | 'business' | 'mortgage' | 'auto' | 'other';
-  lender_name: string;
+  lender_name?: string | null;
+  borrower_name?: string | null;
+  borrower_type?: BorrowerType | null;
+  borrower_contact?: string | null;
   principal_amount: number;
   current_balance: number;
   interest_rate?: number;
@@ -115,19 +366,145 @@ export interface Loan {
   start_date: string;
   due_date?: string;
   status: 'active' | 'paid' | 'defaulted';
+  overdue_instalments?: number;
+  overdue_amount?: number;
+  next_due_date?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface LoanInstalment {
+  number: number;
+  due_date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+  status: 'paid' | 'partial' | 'overdue' | 'upcoming';
+}
+
+export interface LoanPayment {
+  id: number;
+  payment_date: string;
+  amount: number;
+  interest_amount: number;
+  principal_amount: number;
+  balance_after: number;
+  description?: string;
+  receipt_number?: string | null;
+}
+
+export interface LoanReceipt {
+  id: number;
+  receipt_number: string;
+  payment_date: string;
+  amount: number;
+  interest_amount: number;
+  principal_amount: number;
+  balance_after: number;
+  description?: string;
+  loan_id: number;
+  loan_type: Loan['loan_type'];
+  borrower_name: string;
+  borrower_type?: BorrowerType | null;
+  borrower_contact?: string | null;
+  loan_principal: number;
+  interest_rate?: number | null;
+  received_by: string;
+  business_name?: string | null;
+}
+
+export interface LoanSchedule {
+  loan: Loan;
+  instalment_amount: number;
+  instalments: LoanInstalment[];
+  summary: {
+    total_instalments: number;
+    total_payments: number;
+    total_interest: number;
+    payoff_date: string | null;
+    paid_to_date: number;
+    overdue_instalments: number;
+    overdue_amount: number;
+    next_due_date: string | null;
+    next_due_amount: number | null;
+  };
+  payments: LoanPayment[];
+}
+
+export interface PayoffProjection {
+  months: number;
+  total_interest: number;
+  total_paid: number;
+  payoff_date: string;
+}
+
+export interface PayoffSimulation {
+  current_balance: number;
+  monthly_payment: number;
+  extra_payment: number;
+  baseline: PayoffProjection | null;
+  with_extra: PayoffProjection;
+  months_saved: number | null;
+  interest_saved: number | null;
+}
+
 export interface Category {
   id: number;
   name: string;
   type: 'income' | 'expense' | 'purchase' | 'sale';
+  parent_id: number | null;
   color: string;
   icon: string;
   created_at: string;
+  depth: number;
+  path: string;
+  child_count: number;
+  // Usage figures include subcategories; the own_ ones count only records filed directly here
   transaction_count?: number;
   total_amount?: number;
+  own_transaction_count?: number;
+  own_total_amount?: number;
+}
+
+// Free-form label attached to income, expense, purchase and sale records
+export interface Tag {
+  id: number;
+  name: string;
+  color: string;
+  created_at: string;
+  usage_count?: number;
+}
+
+export type RecordTag = Pick<Tag, 'id' | 'name' | 'color'>;
+
+// Line item of an expense or purchase split across categories; the lines add up to the record's amount
+export interface SplitLine {
+  id: number;
+  category: string;
+  category_id: number | null;
+  amount: number;
+  description: string | null;
+  tag_id: number | null;
+  tag: string | null;
+  tag_color: string | null;
+}
+
+export interface SplitLineForm {
+  category: string;
+  amount: number;
+  description?: string;
+  tag?: string;
+}
+
+// Totals of the records carrying a tag; a record with several tags counts towards each
+export interface TagTotal extends RecordTag {
+  record_count: number;
+  income_total: number;
+  expense_total: number;
+  purchase_total: number;
+  sale_total: number;
+  net_total: number;
 }
 
 export interface Transaction {
@@ -148,16 +525,22 @@ export interface DashboardSummary {
   total_expenses: number;
   total_purchases: number;
   total_sales_revenue: number;
+  total_sales_cost: number;
   total_sales_profit: number;
   total_purchases_count: number;
   total_sales_count: number;
+  pending_sales_count: number;
+  pending_sales_revenue: number;
   total_accounts_balance: number;
   total_active_loans: number;
+  total_loans_receivable: number;
   total_charity_required: number;
   total_charity_paid: number;
   total_charity_remaining: number;
   net_worth: number;
   available_cash: number;
+  total_assets: number;
+  total_liabilities: number;
 }
 
 export interface MonthlyData {
@@ -166,6 +549,9 @@ export interface MonthlyData {
   monthly_income: number;
   monthly_expenses: number;
   monthly_charity: number;
+  monthly_sales: number;
+  monthly_sales_cost: number;
+  monthly_gross_profit: number;
   monthly_profit: number;
 }
 
@@ -174,13 +560,17 @@ export interface TrendData {
   month_label: string;
   income: number;
   expenses: number;
+  sales: number;
+  sales_profit: number;
 }
 
 export interface CategoryStats {
   category: string;
+  category_id: number | null;
   total_amount: number;
   transaction_count: number;
   percentage: number;
+  subcategories: CategoryStats[];
 }
 
 export interface CharityOverview {
@@ -212,6 +602,9 @@ export interface ProfitAnalysisRecord {
   period: string;
   income: number;
   expenses: number;
+  sales_revenue: number;
+  cost_of_goods: number;
+  gross_profit: number;
   profit: number;
   profit_margin: number;
 }
@@ -269,7 +662,9 @@ export interface IncomeForm {
   description?: string;
   category: string;
   source?: string;
+  account_id?: number | null;
   date: string;
+  tags?: string[];
 }
 
 export interface ExpenseForm {
@@ -277,30 +672,46 @@ export interface ExpenseForm {
   description?: string;
   category: string;
   payment_method: string;
+  account_id?: number | null;
+  vendor_id?: number | null;
   date: string;
+  tags?: string[];
+  // Two or more lines to split the expense; null or [] on update makes it whole again
+  splits?: SplitLineForm[] | null;
 }
 
 export interface PurchaseForm {
   amount: number;
   description?: string;
   category: string;
+  quantity: number;
   payment_method: string;
+  account_id?: number | null;
+  vendor_id?: number | null;
   date: string;
+  tags?: string[];
+  splits?: SplitLineForm[] | null;
 }
 
 export interface SaleForm {
   purchase_id?: number;
+  purchase_category?: string | null;
+  quantity?: number | null;
+  cost_method?: 'fifo' | 'average';
   amount: number;
   selling_price: number;
   description?: string;
+  customer_id?: number | null;
   customer_name?: string;
   customer_contact?: string;
   payment_method: string;
+  account_id?: number | null;
   date: string;
   status?: 'pending' | 'completed' | 'cancelled';
   notes?: string;
   category: string; // Added category
   receipt_path?: string; // Added receipt_path
+  tags?: string[];
 }
 
 export interface CharityPaymentForm {
@@ -311,6 +722,40 @@ export interface CharityPaymentForm {
   description?: string;
 }
 
+export interface CharityRuleForm {
+  category: string | null;
+  rate: number;
+  is_exempt: boolean;
+  effective_from: string;
+}
+
+export interface BudgetForm {
+  category: string;
+  category_type: 'expense' | 'purchase';
+  period: BudgetPeriod;
+  amount: number;
+  rollover: boolean;
+  start_date: string;
+}
+
+export interface RecurringTemplateForm {
+  name: string;
+  record_type: RecurringRecordType;
+  amount: number;
+  description: string;
+  category: string;
+  source: string;
+  payment_method: string;
+  account_id: number | null;
+  loan_id: number | null;
+  frequency: RecurringFrequency;
+  interval_count: number;
+  day_rule: RecurringDayRule;
+  start_date: string;
+  end_date: string;
+  max_occurrences: number | null;
+}
+
 export interface AccountForm {
   account_type: 'cash' | 'bank' | 'savings' | 'investment';
   account_name: string;
@@ -320,8 +765,12 @@ export interface AccountForm {
 }
 
 export interface LoanForm {
+  direction: LoanDirection;
   loan_type: 'personal' | 'business' | 'mortgage' | 'auto' | 'other';
   lender_name: string;
+  borrower_name: string;
+  borrower_type?: BorrowerType | '';
+  borrower_contact?: string;
   principal_amount: number;
   current_balance?: number;
   interest_rate?: number;
@@ -333,6 +782,7 @@ export interface LoanForm {
 export interface CategoryForm {
   name: string;
   type: 'income' | 'expense' | 'purchase' | 'sale';
+  parent_id?: number | null;
   color?: string;
   icon?: string;
 }
@@ -349,6 +799,7 @@ export interface FinancialQueryParams extends BaseQueryParams {
   category?: string;
   start_date?: string;
   end_date?: string;
+  tags?: string; // comma-separated; records must carry all of them
 }
 
 export interface CharityQueryParams extends BaseQueryParams {
@@ -359,5 +810,607 @@ export interface CharityQueryParams extends BaseQueryParams {
 
 export interface LoanQueryParams extends BaseQueryParams {
   status?: 'active' | 'paid' | 'defaulted';
+  direction?: LoanDirection;
   loan_type?: 'personal' | 'business' | 'mortgage' | 'auto' | 'other';
 }
+
+// List export (CSV/XLSX)
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumnOption {
+  key: string;
+  label: string;
+}
+
+// Accounting system exports (Tally, QuickBooks, Xero)
+export type AccountingTarget = 'tally' | 'quickbooks' | 'xero';
+export type AccountingMappingSourceType = 'income' | 'expense' | 'purchase' | 'sale' | 'account';
+
+export interface AccountingMapping {
+  source_type: AccountingMappingSourceType;
+  source_key: string;
+  label: string;
+  external_name: string | null;
+}
+
+// Bulk import (CSV/XLSX)
+export type ImportRecordType = 'income' | 'expense';
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+export type ImportDecimalFormat = 'dot' | 'comma';
+
+export interface ImportParseResult {
+  file_name: string;
+  headers: string[];
+  rows: string[][];
+  fields: Record<ImportRecordType, string[]>;
+}
+
+export interface ImportPreviewRow {
+  row_number: number;
+  values: Record<string, any>;
+  errors: string[];
+}
+
+export interface ImportSummary {
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  total_amount: number;
+}
+
+export interface ImportBatch {
+  id: number;
+  record_type: ImportRecordType;
+  file_name: string | null;
+  row_count: number;
+  total_amount: number;
+  status: 'completed' | 'rolled_back';
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+// Plain-text accounting journals (ledger, hledger, beancount)
+export type PlainTextSyntax = 'ledger' | 'hledger' | 'beancount';
+
+export interface PlainTextRecord {
+  type: 'income' | 'expense' | 'transfer';
+  date: string;
+  description: string;
+  amount: number;
+  category: string | null;
+  account_id: number | null;
+  to_account_id: number | null;
+}
+
+export interface PlainTextImportLine {
+  line_number: number;
+  date: string;
+  description: string;
+  status: 'new' | 'duplicate' | 'unclassified';
+  records: PlainTextRecord[];
+  reason: string | null;
+}
+
+export interface PlainTextImportResult {
+  syntax: PlainTextSyntax;
+  summary: {
+    transactions: number;
+    new: number;
+    duplicates: number;
+    unclassified: number;
+    errors: number;
+  };
+  created: Record<PlainTextRecord['type'], number> | null;
+  lines: PlainTextImportLine[];
+  errors: { line_number: number; message: string }[];
+}
+
+// Bank statements and reconciliation
+export type StatementFormat = 'ofx' | 'qif' | 'camt053' | 'csv';
+export type StatementLineStatus = 'unmatched' | 'matched' | 'ignored';
+
+export interface BankCsvProfile {
+  id: number;
+  name: string;
+  header_rows: number;
+  date_column: number;
+  description_column: number | null;
+  reference_column: number | null;
+  amount_column: number | null;
+  debit_column: number | null;
+  credit_column: number | null;
+  date_format: ImportDateFormat;
+  decimal_format: ImportDecimalFormat;
+  created_at: string;
+}
+
+export interface BankStatement {
+  id: number;
+  account_id: number;
+  file_name: string | null;
+  format: StatementFormat;
+  start_date: string | null;
+  end_date: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  line_count: number;
+  matched_count: number;
+  unmatched_count: number;
+  created_at: string;
+}
+
+export interface StatementLine {
+  id: number;
+  statement_id: number;
+  account_id: number;
+  date: string;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  status: StatementLineStatus;
+  matched_source_type: string | null;
+  matched_source_id: number | null;
+  matched_description?: string | null;
+  file_name?: string | null;
+}
+
+export interface BookEntry {
+  source_type: string;
+  source_id: number;
+  date: string;
+  description: string | null;
+  amount: number;
+  statement_line_id: number | null;
+}
+
+export interface ReconciliationSummary {
+  account_id: number;
+  as_of: string;
+  last_reconciled_to: string | null;
+  statement_balance: number | null;
+  statement_balance_source: 'entered' | 'statement' | null;
+  book_balance: number;
+  difference: number | null;
+  unmatched_statement_total: number;
+  ignored_statement_total: number;
+  unmatched_book_total: number;
+  unexplained_difference: number | null;
+  carried_forward: number;
+  new_unexplained_difference: number | null;
+  unmatched_statement_lines: StatementLine[];
+  ignored_statement_lines: StatementLine[];
+  unmatched_book_entries: BookEntry[];
+}
+
+export interface Reconciliation {
+  id: number;
+  account_id: number;
+  reconciled_to: string;
+  statement_balance: number;
+  book_balance: number;
+  difference: number;
+  unmatched_statement_total: number;
+  unmatched_book_total: number;
+  ignored_statement_total: number;
+  unexplained_difference: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface Customer {
+  id: number;
+  name: string;
+  contact: string | null;
+  email: string | null;
+  address: string | null;
+  tax_id: string | null;
+  credit_limit: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  sale_count?: number;
+  total_sales?: number;
+  outstanding_balance?: number;
+}
+
+export interface CustomerForm {
+  name: string;
+  contact?: string;
+  email?: string;
+  address?: string;
+  tax_id?: string;
+  credit_limit?: number | null;
+  notes?: string;
+}
+
+// Payment received against a pending sale
+export interface SalePayment {
+  id: number;
+  sale_id: number;
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+  account_id: number | null;
+  account_name?: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface SalePaymentForm {
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+  account_id?: number | null;
+  notes?: string;
+}
+
+export type AgingBucketKey = 'days_0_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export type AgingTotals = Record<AgingBucketKey, number> & { total: number };
+
+export interface AgingReport {
+  as_of: string;
+  buckets: { key: AgingBucketKey; label: string }[];
+  customers: (AgingTotals & {
+    customer_id: number | null;
+    customer_name: string;
+    credit_limit: number | null;
+    sale_count: number;
+    oldest_date: string;
+  })[];
+  sales: {
+    sale_id: number;
+    date: string;
+    description: string | null;
+    customer_id: number | null;
+    customer_name: string;
+    selling_price: number;
+    amount_paid: number;
+    balance_due: number;
+    days_outstanding: number;
+    bucket: AgingBucketKey;
+  }[];
+  totals: AgingTotals;
+}
+
+export interface CustomerStatementEntry {
+  date: string;
+  type: 'sale' | 'payment';
+  sale_id: number;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  period: { start_date: string | null; end_date: string };
+  opening_balance: number;
+  entries: CustomerStatementEntry[];
+  total_charged: number;
+  total_paid: number;
+  closing_balance: number;
+}
+
+export interface Vendor {
+  id: number;
+  name: string;
+  contact: string | null;
+  email: string | null;
+  address: string | null;
+  tax_id: string | null;
+  // Days after the bill date a bill from this vendor falls due
+  payment_terms_days: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  purchase_count?: number;
+  expense_count?: number;
+  open_bill_count?: number;
+  total_spend?: number;
+  outstanding_balance?: number;
+}
+
+export interface VendorForm {
+  name: string;
+  contact?: string;
+  email?: string;
+  address?: string;
+  tax_id?: string;
+  payment_terms_days?: number | null;
+  notes?: string;
+}
+
+export type BillStatus = 'open' | 'paid' | 'cancelled';
+
+// Bill received from a vendor, paid off in one or more instalments
+export interface Bill {
+  id: number;
+  vendor_id: number;
+  vendor_name: string;
+  bill_number: string | null;
+  description: string | null;
+  category: string | null;
+  amount: number;
+  bill_date: string;
+  due_date: string;
+  status: BillStatus;
+  notes: string | null;
+  amount_paid: number;
+  balance_due: number;
+  payments?: BillPayment[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BillForm {
+  vendor_id: number | null;
+  bill_number?: string;
+  description?: string;
+  category?: string | null;
+  amount: number;
+  bill_date: string;
+  // Left empty, the bill falls due after the vendor's payment terms
+  due_date?: string;
+  status?: 'open' | 'cancelled';
+  notes?: string;
+}
+
+export interface BillsSummary {
+  outstanding: number;
+  overdue: number;
+  open_count: number;
+}
+
+export interface BillPayment {
+  id: number;
+  bill_id: number;
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+  account_id: number | null;
+  account_name?: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export type BillPaymentForm = SalePaymentForm;
+
+export type PayableAgingBucketKey = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export type PayableAgingTotals = Record<PayableAgingBucketKey, number> & { total: number };
+
+export interface PayablesAgingReport {
+  as_of: string;
+  buckets: { key: PayableAgingBucketKey; label: string }[];
+  vendors: (PayableAgingTotals & {
+    vendor_id: number;
+    vendor_name: string;
+    bill_count: number;
+    next_due_date: string;
+  })[];
+  bills: {
+    bill_id: number;
+    bill_number: string | null;
+    description: string | null;
+    vendor_id: number;
+    vendor_name: string;
+    bill_date: string;
+    due_date: string;
+    amount: number;
+    amount_paid: number;
+    balance_due: number;
+    days_overdue: number;
+    bucket: PayableAgingBucketKey;
+  }[];
+  totals: PayableAgingTotals;
+}
+
+export interface VendorSpendEntry {
+  vendor_id: number;
+  vendor_name: string;
+  purchases: number;
+  expenses: number;
+  bills: number;
+  total: number;
+  record_count: number;
+  outstanding_balance: number;
+  monthly: { month: string; total: number }[];
+}
+
+export interface VendorSpend {
+  period: { start_date: string; end_date: string };
+  vendors: VendorSpendEntry[];
+  total: number;
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'void';
+
+// Line of an invoice; lines naming a purchase category are sold from stock when paid
+export interface InvoiceItem {
+  id: number;
+  invoice_id: number;
+  position: number;
+  description: string;
+  purchase_category: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  tax_rate: number;
+  line_subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  line_total: number;
+  sale_id: number | null;
+}
+
+// Sales invoice to a customer. Drafts have no number until sent; a paid invoice is settled
+// into sales (its stock lines) and one income record (the rest).
+export interface Invoice {
+  id: number;
+  invoice_number: string | null;
+  customer_id: number | null;
+  customer_name: string;
+  customer_contact?: string | null;
+  customer_email?: string | null;
+  customer_address?: string | null;
+  customer_tax_id?: string | null;
+  issue_date: string;
+  due_date: string;
+  status: InvoiceStatus;
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  total: number;
+  notes: string | null;
+  sent_at: string | null;
+  paid_date: string | null;
+  payment_method: string | null;
+  account_id: number | null;
+  account_name?: string | null;
+  income_id: number | null;
+  items?: InvoiceItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceItemForm {
+  description: string;
+  purchase_category?: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percent?: number;
+  tax_rate?: number;
+}
+
+export interface InvoiceForm {
+  customer_id: number | null;
+  issue_date: string;
+  // Left empty, the invoice falls due after the payment terms in the invoice settings
+  due_date?: string;
+  notes?: string;
+  items: InvoiceItemForm[];
+}
+
+export interface InvoicesSummary {
+  outstanding: number;
+  overdue: number;
+  paid: number;
+  draft_count: number;
+}
+
+export interface InvoicePaymentForm {
+  paid_date: string;
+  payment_method: string;
+  account_id: number | null;
+}
+
+export interface InvoiceSettings {
+  number_prefix: string;
+  next_number: number;
+  next_invoice_number: string;
+  payment_terms_days: number;
+  quote_prefix: string;
+  next_quote_number: number;
+  next_quotation_number: string;
+  quote_validity_days: number;
+  sale_category: string;
+  income_category: string;
+  footer: string | null;
+  has_logo: boolean;
+}
+
+export type InvoiceSettingsForm = Omit<InvoiceSettings, 'next_invoice_number' | 'next_quotation_number' | 'has_logo'>;
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
+// Line of a quotation. Lines not sold from stock can carry a unit cost, needed to record
+// the quote straight as sales.
+export interface QuotationItem extends Omit<InvoiceItem, 'invoice_id'> {
+  quotation_id: number;
+  unit_cost: number | null;
+}
+
+// Price quote to a customer, numbered when created. Sent quotes past their validity date
+// expire; converting one into an invoice or sales marks it accepted.
+export interface Quotation {
+  id: number;
+  quote_number: string;
+  customer_id: number | null;
+  customer_name: string;
+  customer_contact?: string | null;
+  customer_email?: string | null;
+  issue_date: string;
+  valid_until: string;
+  status: QuotationStatus;
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  total: number;
+  notes: string | null;
+  converted_to: 'invoice' | 'sale' | null;
+  converted_at: string | null;
+  invoice_id: number | null;
+  invoice_number?: string | null;
+  items?: QuotationItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuotationItemForm extends InvoiceItemForm {
+  unit_cost?: number | null;
+}
+
+export interface QuotationForm {
+  customer_id: number | null;
+  issue_date: string;
+  // Left empty, the quote is valid for the number of days in the invoice settings
+  valid_until?: string;
+  notes?: string;
+  items: QuotationItemForm[];
+}
+
+export interface QuotationsSummary {
+  open_value: number;
+  open_count: number;
+  awaiting_conversion: number;
+  draft_count: number;
+}
+
+export interface QuotationSaleForm {
+  date: string;
+  status: 'pending' | 'completed';
+  category: string;
+  payment_method: string;
+  account_id: number | null;
+}
+
+export interface QuoteConversionMonth {
+  month: string;
+  quoted_count: number;
+  quoted_value: number;
+  converted_count: number;
+  converted_value: number;
+  conversion_rate: number;
+}
+
+// Quotes issued in a period (drafts excluded) and how many became invoices or sales
+export interface QuoteConversionReport {
+  period: { start_date: string; end_date: string };
+  quoted_count: number;
+  quoted_value: number;
+  converted_count: number;
+  converted_value: number;
+  converted_to_invoice: number;
+  converted_to_sale: number;
+  accepted_count: number;
+  rejected_count: number;
+  expired_count: number;
+  open_count: number;
+  conversion_rate: number;
+  value_conversion_rate: number;
+  avg_days_to_convert: number | null;
+  monthly: QuoteConversionMonth[];
+}
@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import toast from "react-hot-toast"
+import type { BudgetAlert, InvoiceItemForm, SplitLineForm } from "./types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -265,6 +267,41 @@ export const isThisWeek = (date: Date | string): boolean => {
   return checkDate >= startOfWeek && checkDate <= endOfWeek;
 };
 
+// Warn when a new expense or purchase crossed 80% or 100% of its category budget
+export const showBudgetAlert = (alert?: BudgetAlert | null): void => {
+  if (!alert) return;
+
+  if (alert.threshold >= 100) {
+    toast.error(alert.message, { duration: 6000 });
+  } else {
+    toast(alert.message, { icon: '⚠️', duration: 6000 });
+  }
+};
+
+// Sum of the lines of a split expense or purchase, rounded to cents
+export const splitLinesTotal = (lines: SplitLineForm[]): number => {
+  return Math.round(lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0) * 100) / 100;
+};
+
+// Amount of an invoice line as the server calculates it: the discount comes off the quantity
+// times price, and tax is charged on what is left
+export const invoiceLineTotal = (line: InvoiceItemForm): number => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const subtotal = round((Number(line.quantity) || 0) * (Number(line.unit_price) || 0));
+  const discounted = subtotal - round(subtotal * (Number(line.discount_percent) || 0) / 100);
+  return round(discounted + round(discounted * (Number(line.tax_rate) || 0) / 100));
+};
+
+// Save a downloaded file (e.g. an exported report) to the user's computer
+export const downloadFile = (data: Blob, filename: string): void => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 // Export default utilities object
 export default {
   formatCurrency,
@@ -0,0 +1,384 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Checkbox } from '../components/ui/checkbox';
+import { Download, Save } from 'lucide-react';
+import { exportApi, accountApi } from '../lib/api';
+import { Account, AccountingMapping, AccountingMappingSourceType, AccountingTarget, ImportDateFormat, PlainTextSyntax } from '../lib/types';
+import { downloadFile } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+const TARGETS: { value: AccountingTarget; label: string; description: string }[] = [
+  { value: 'tally', label: 'Tally', description: 'XML vouchers for Tally (Gateway of Tally → Import Data → Vouchers)' },
+  { value: 'quickbooks', label: 'QuickBooks', description: 'IIF file for QuickBooks Desktop (File → Utilities → Import → IIF Files)' },
+  { value: 'xero', label: 'Xero', description: 'CSV for Xero manual journals or a bank statement import' }
+];
+
+const SOURCE_TYPE_LABELS: Record<AccountingMappingSourceType, string> = {
+  income: 'Income category',
+  expense: 'Expense category',
+  purchase: 'Purchase category',
+  sale: 'Sale category',
+  account: 'Cash/bank account'
+};
+
+const PLAIN_TEXT_EXTENSIONS: Record<PlainTextSyntax, string> = {
+  ledger: 'ledger',
+  hledger: 'journal',
+  beancount: 'beancount'
+};
+
+const mappingKey = (mapping: AccountingMapping) => `${mapping.source_type}:${mapping.source_key}`;
+
+export const AccountingExportPage: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const [target, setTarget] = useState<AccountingTarget>('tally');
+  const [startDate, setStartDate] = useState(`${today.substring(0, 7)}-01`);
+  const [endDate, setEndDate] = useState(today);
+  const [companyName, setCompanyName] = useState('');
+  const [xeroFormat, setXeroFormat] = useState<'journal' | 'bank'>('journal');
+  const [xeroAccountId, setXeroAccountId] = useState<number | null>(null);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('DD/MM/YYYY');
+  const [taxRate, setTaxRate] = useState('Tax Exempt');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [mappings, setMappings] = useState<AccountingMapping[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [plainTextSyntax, setPlainTextSyntax] = useState<PlainTextSyntax>('hledger');
+  const [commodity, setCommodity] = useState('USD');
+  const [plainTextPeriodOnly, setPlainTextPeriodOnly] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  useEffect(() => {
+    loadMappings();
+  }, [target]);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountApi.getAll();
+      setAccounts(response.data.data.accounts || []);
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    }
+  };
+
+  const loadMappings = async () => {
+    try {
+      const response = await exportApi.getAccountingMappings(target);
+      const list: AccountingMapping[] = response.data.data.mappings || [];
+      setMappings(list);
+      setNames(Object.fromEntries(list.map((mapping) => [mappingKey(mapping), mapping.external_name || ''])));
+    } catch (error) {
+      console.error('Error loading mappings:', error);
+      toast.error('Failed to load ledger mappings');
+    }
+  };
+
+  const handleSaveMappings = async () => {
+    try {
+      setIsWorking(true);
+      await exportApi.saveAccountingMappings({
+        target,
+        mappings: mappings.map((mapping) => ({
+          source_type: mapping.source_type,
+          source_key: mapping.source_key,
+          external_name: names[mappingKey(mapping)] || null
+        }))
+      });
+      toast.success('Ledger mappings saved successfully');
+      loadMappings();
+    } catch (error: any) {
+      console.error('Error saving mappings:', error);
+      toast.error(error.response?.data?.message || 'Failed to save ledger mappings');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (startDate > endDate) {
+      toast.error('Start date must be on or before end date');
+      return;
+    }
+    if (target === 'xero' && xeroFormat === 'bank' && !xeroAccountId) {
+      toast.error('Choose the account for a Xero bank statement');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const response = await exportApi.accounting(target, {
+        start_date: startDate,
+        end_date: endDate,
+        ...(target === 'tally' && { company_name: companyName || undefined }),
+        ...(target === 'xero' && {
+          xero_format: xeroFormat,
+          account_id: xeroFormat === 'bank' ? xeroAccountId : undefined,
+          date_format: dateFormat,
+          tax_rate: taxRate || undefined
+        })
+      });
+
+      const period = `${startDate}_to_${endDate}`;
+      const filename = target === 'tally'
+        ? `tally_vouchers_${period}.xml`
+        : target === 'quickbooks' ? `quickbooks_${period}.iif` : `xero_${xeroFormat}_${period}.csv`;
+      downloadFile(response.data, filename);
+      toast.success('Export downloaded');
+    } catch (error) {
+      console.error('Error exporting for accounting system:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePlainTextExport = async () => {
+    if (plainTextPeriodOnly && startDate > endDate) {
+      toast.error('Start date must be on or before end date');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const response = await exportApi.plainText(plainTextSyntax, {
+        commodity: commodity.trim().toUpperCase() || undefined,
+        ...(plainTextPeriodOnly && { start_date: startDate, end_date: endDate })
+      });
+
+      const period = plainTextPeriodOnly ? `${startDate}_to_${endDate}` : today;
+      downloadFile(response.data, `finance_${period}.${PLAIN_TEXT_EXTENSIONS[plainTextSyntax]}`);
+      toast.success('Export downloaded');
+    } catch (error) {
+      console.error('Error exporting plain-text journal:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const unmappedCount = mappings.filter((mapping) => !names[mappingKey(mapping)]).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Accountant Export</h1>
+        <p className="text-gray-600">Export transactions for Tally, QuickBooks, Xero or plain-text accounting tools</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+          <CardDescription>{TARGETS.find((item) => item.value === target)?.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>System</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as AccountingTarget)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TARGETS.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="start_date">From</Label>
+              <Input id="start_date" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="end_date">To</Label>
+              <Input id="end_date" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+
+            {target === 'tally' && (
+              <div>
+                <Label htmlFor="company_name">Tally Company Name</Label>
+                <Input
+                  id="company_name"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
+                  placeholder="Company loaded in Tally"
+                />
+              </div>
+            )}
+
+            {target === 'xero' && (
+              <>
+                <div>
+                  <Label>Xero Format</Label>
+                  <Select value={xeroFormat} onValueChange={(value) => setXeroFormat(value as 'journal' | 'bank')}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="journal">Manual journal</SelectItem>
+                      <SelectItem value="bank">Bank statement</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {xeroFormat === 'bank' ? (
+                  <div>
+                    <Label>Account</Label>
+                    <Select
+                      value={xeroAccountId ? xeroAccountId.toString() : ''}
+                      onValueChange={(value) => setXeroAccountId(Number(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>
+                            {account.account_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="tax_rate">Tax Rate</Label>
+                    <Input id="tax_rate" value={taxRate} onChange={(e) => setTaxRate(e.target.value)} />
+                  </div>
+                )}
+                <div>
+                  <Label>Date Format</Label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                      <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                      <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+
+          <Button onClick={handleExport} disabled={isWorking}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plain-Text Journal</CardTitle>
+          <CardDescription>
+            Every record, account and transfer as a ledger, hledger or beancount journal, with categories as account
+            names. The file can be imported back from the Import page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Syntax</Label>
+              <Select value={plainTextSyntax} onValueChange={(value) => setPlainTextSyntax(value as PlainTextSyntax)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ledger">ledger</SelectItem>
+                  <SelectItem value="hledger">hledger</SelectItem>
+                  <SelectItem value="beancount">beancount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="commodity">Commodity</Label>
+              <Input id="commodity" value={commodity} onChange={(e) => setCommodity(e.target.value)} placeholder="USD" />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="plain_text_period"
+              checked={plainTextPeriodOnly}
+              onCheckedChange={(checked) => setPlainTextPeriodOnly(checked === true)}
+            />
+            <Label htmlFor="plain_text_period">Only the period chosen above</Label>
+          </div>
+
+          <Button onClick={handlePlainTextExport} disabled={isWorking}>
+            <Download className="mr-2 h-4 w-4" />
+            Download Journal
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Ledger Mapping</CardTitle>
+              <CardDescription>
+                {target === 'xero'
+                  ? 'Enter the Xero account code for each category and account.'
+                  : `Enter the ${target === 'tally' ? 'Tally ledger' : 'QuickBooks account'} name for each category and account.`}
+                {' '}Unmapped items are exported under their own names.
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              {unmappedCount > 0 && <Badge variant="outline">{unmappedCount} unmapped</Badge>}
+              <Button onClick={handleSaveMappings} disabled={isWorking || mappings.length === 0}>
+                <Save className="mr-2 h-4 w-4" />
+                Save Mapping
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {mappings.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No categories or accounts yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Our Name</TableHead>
+                  <TableHead>{target === 'xero' ? 'Xero Account Code' : 'Ledger Name'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mappings.map((mapping) => (
+                  <TableRow key={mappingKey(mapping)}>
+                    <TableCell className="text-gray-600">{SOURCE_TYPE_LABELS[mapping.source_type]}</TableCell>
+                    <TableCell className="font-medium">{mapping.label}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={names[mappingKey(mapping)] || ''}
+                        placeholder={mapping.label}
+                        onChange={(e) => setNames((prev) => ({ ...prev, [mappingKey(mapping)]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccountingExportPage;
@@ -14,10 +14,13 @@ import {
   ArrowUp,
   ArrowDown,
   PieChart,
-  LineChart
+  LineChart,
+  ArrowLeft,
+  Tags
 } from 'lucide-react';
-import { dashboardApi } from '../lib/api';
-import { AnalyticsData, DashboardSummary, MonthlyData, TrendData, CategoryStats, CharityOverview } from '../lib/types';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { dashboardApi, tagApi } from '../lib/api';
+import { AnalyticsData, DashboardSummary, MonthlyData, TrendData, CategoryStats, CharityOverview, TagTotal } from '../lib/types';
 import toast from 'react-hot-toast';
 
 // A helper function to safely format numbers to strings
@@ -29,6 +32,13 @@ const formatToFixed = (value: string | number | undefined | null, digits: number
   return num.toFixed(digits);
 };
 
+// First day covered by a time range option ("6months" -> six months ago)
+const timeRangeStart = (timeRange: string): string => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - parseInt(timeRange));
+  return date.toISOString().split('T')[0];
+};
+
 export const AnalyticsPage: React.FC = () => {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [dashboardSummary, setDashboardSummary] = useState<DashboardSummary | null>(null);
@@ -36,6 +46,9 @@ export const AnalyticsPage: React.FC = () => {
   const [trendData, setTrendData] = useState<TrendData[] | null>(null);
   const [topExpenseCategories, setTopExpenseCategories] = useState<CategoryStats[] | null>(null);
   const [charityOverview, setCharityOverview] = useState<CharityOverview[] | null>(null);
+  // Expense categories drilled into, outermost first
+  const [categoryPath, setCategoryPath] = useState<CategoryStats[]>([]);
+  const [tagTotals, setTagTotals] = useState<TagTotal[]>([]);
 
   const [isLoading, setIsLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('6months');
@@ -43,6 +56,7 @@ export const AnalyticsPage: React.FC = () => {
   useEffect(() => {
     loadAnalyticsData();
     loadDashboardSummary(); // Load summary data separately
+    loadTagTotals();
   }, [timeRange]);
 
   const loadAnalyticsData = async () => {
@@ -73,6 +87,16 @@ export const AnalyticsPage: React.FC = () => {
     }
   };
 
+  const loadTagTotals = async () => {
+    try {
+      const response = await tagApi.getSummary({ start_date: timeRangeStart(timeRange) });
+      setTagTotals(response.data.data.tags || []);
+    } catch (error) {
+      console.error('Error loading tag totals:', error);
+      toast.error('Failed to load tag totals');
+    }
+  };
+
   const exportData = () => {
     if (!analyticsData || !dashboardSummary || !monthlyData || !trendData || !topExpenseCategories || !charityOverview) return;
     
@@ -83,6 +107,7 @@ export const AnalyticsPage: React.FC = () => {
       trend_data: trendData,
       expense_categories: topExpenseCategories,
       charity_overview: charityOverview,
+      tag_totals: tagTotals,
       exported_at: new Date().toISOString()
     };
     
@@ -99,7 +124,7 @@ export const AnalyticsPage: React.FC = () => {
     toast.success('Analytics data exported successfully');
   };
   
-  const SimpleChart: React.FC<{ data: any[], title: string }> = ({ data, title }) => {
+  const SimpleChart: React.FC<{ data: any[], title: string, onSelect?: (item: any) => void }> = ({ data, title, onSelect }) => {
     if (!data || data.length === 0) {
       return <div className="h-64 flex items-center justify-center text-gray-500">No data available</div>;
     }
@@ -118,8 +143,13 @@ export const AnalyticsPage: React.FC = () => {
         <div className="space-y-3">
           {numericData.slice(0, 8).map((item, index) => {
             const percentage = maxValue > 0 ? (item.value / maxValue) * 100 : 0;
+            const selectable = onSelect && item.subcategories?.length > 0;
             return (
-              <div key={index} className="space-y-1">
+              <div
+                key={index}
+                className={`space-y-1 ${selectable ? 'cursor-pointer hover:opacity-80' : ''}`}
+                onClick={selectable ? () => onSelect(item) : undefined}
+              >
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600 truncate">{item.label}</span>
                   <span className="font-medium">${item.value.toFixed(2)}</span>
@@ -166,6 +196,9 @@ export const AnalyticsPage: React.FC = () => {
 
   const summary = dashboardSummary;
 
+  // Tags carried by at least one record in the range
+  const usedTags = tagTotals.filter((tag) => tag.record_count > 0);
+
   const savingsRate = Number(summary.total_income) > 0 
     ? ((Number(summary.total_income) - Number(summary.total_expenses)) / Number(summary.total_income)) * 100 
     : 0;
@@ -238,6 +271,7 @@ export const AnalyticsPage: React.FC = () => {
           <CardContent className="space-y-3">
             <div className="flex justify-between"><span className="text-green-700">Total Income</span><span className="font-bold text-green-900">${formatToFixed(summary.total_income)}</span></div>
             <div className="flex justify-between"><span className="text-green-700">Account Balances</span><span className="font-bold text-green-900">${formatToFixed(summary.total_accounts_balance)}</span></div>
+            <div className="flex justify-between"><span className="text-green-700">Loans Receivable</span><span className="font-bold text-green-900">${formatToFixed(summary.total_loans_receivable)}</span></div>
             <div className="flex justify-between"><span className="text-green-700">Available Cash</span><span className="font-bold text-green-900">${formatToFixed(summary.available_cash)}</span></div>
           </CardContent>
         </Card>
@@ -248,7 +282,7 @@ export const AnalyticsPage: React.FC = () => {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="flex justify-between"><span className="text-red-700">Total Expenses</span><span className="font-bold text-red-900">${formatToFixed(summary.total_expenses)}</span></div>
-            <div className="flex justify-between"><span className="text-red-700">Active Loans</span><span className="font-bold text-red-900">${formatToFixed(summary.total_active_loans)}</span></div>
+            <div className="flex justify-between"><span className="text-red-700">Loans Payable</span><span className="font-bold text-red-900">${formatToFixed(summary.total_active_loans)}</span></div>
             <div className="flex justify-between"><span className="text-red-700">Charity Due</span><span className="font-bold text-red-900">${formatToFixed(summary.total_charity_remaining)}</span></div>
           </CardContent>
         </Card>
@@ -280,10 +314,24 @@ export const AnalyticsPage: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center"><PieChart className="w-5 h-5 mr-2" />Top Expense Categories</CardTitle>
-            <CardDescription>Breakdown of spending by category</CardDescription>
+            <CardDescription>
+              {categoryPath.length > 0
+                ? categoryPath.map((category) => category.category).join(' > ')
+                : 'Breakdown of spending by category; click a category to see its subcategories'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <SimpleChart data={topExpenseCategories} title="Expense Categories" />
+            {categoryPath.length > 0 && (
+              <Button variant="ghost" size="sm" className="mb-2" onClick={() => setCategoryPath(categoryPath.slice(0, -1))}>
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back
+              </Button>
+            )}
+            <SimpleChart
+              data={categoryPath.length > 0 ? categoryPath[categoryPath.length - 1].subcategories : topExpenseCategories}
+              title={categoryPath.length > 0 ? categoryPath[categoryPath.length - 1].category : 'Expense Categories'}
+              onSelect={(category: CategoryStats) => setCategoryPath([...categoryPath, category])}
+            />
           </CardContent>
         </Card>
       </div>
@@ -319,6 +367,54 @@ export const AnalyticsPage: React.FC = () => {
           <SimpleChart data={analyticsData.profit_analysis} title="Profit Analysis" />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center"><Tags className="w-5 h-5 mr-2" />Totals by Tag</CardTitle>
+          <CardDescription>
+            Records carrying each tag over the selected range. A record with several tags counts towards each of them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usedTags.length === 0 ? (
+            <div className="h-24 flex items-center justify-center text-gray-500">No tagged records in this range</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                  <TableHead className="text-right">Income</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Purchases</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usedTags.map((tag) => (
+                  <TableRow key={tag.id}>
+                    <TableCell>
+                      <span className="inline-flex items-center">
+                        <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                        {tag.name}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{tag.record_count}</TableCell>
+                    <TableCell className="text-right">${formatToFixed(tag.income_total)}</TableCell>
+                    <TableCell className="text-right">${formatToFixed(tag.expense_total)}</TableCell>
+                    <TableCell className="text-right">${formatToFixed(tag.purchase_total)}</TableCell>
+                    <TableCell className="text-right">${formatToFixed(tag.sale_total)}</TableCell>
+                    <TableCell className={`text-right font-medium ${tag.net_total >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      ${formatToFixed(tag.net_total)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,508 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Receipt,
+  Clock,
+  AlertTriangle,
+  Wallet
+} from 'lucide-react';
+import { accountApi, billApi, categoryApi, vendorApi } from '../lib/api';
+import { Account, Bill, BillForm, BillsSummary, Category, Vendor } from '../lib/types';
+import { BillPaymentsDialog } from '../components/Bills/BillPaymentsDialog';
+import toast from 'react-hot-toast';
+
+const statusOptions = [
+  { value: 'open', label: 'Open', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'paid', label: 'Paid', color: 'bg-green-100 text-green-800' },
+  { value: 'cancelled', label: 'Cancelled', color: 'bg-red-100 text-red-800' }
+];
+
+const emptyForm = (): BillForm => ({
+  vendor_id: null,
+  bill_number: '',
+  description: '',
+  category: null,
+  amount: 0,
+  bill_date: new Date().toISOString().split('T')[0],
+  due_date: '',
+  notes: ''
+});
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+export const BillsPage: React.FC = () => {
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [summary, setSummary] = useState<BillsSummary | null>(null);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterVendor, setFilterVendor] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [formData, setFormData] = useState<BillForm>(emptyForm());
+  const [paymentsBill, setPaymentsBill] = useState<Bill | null>(null);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadBills();
+  }, [filterStatus, filterVendor]);
+
+  const loadReferenceData = async () => {
+    try {
+      const [vendorsResponse, categoriesResponse, accountsResponse] = await Promise.all([
+        vendorApi.getAll(),
+        categoryApi.getAll({ type: 'expense' }),
+        accountApi.getAll()
+      ]);
+      setVendors(vendorsResponse.data.data.vendors || []);
+      setCategories(categoriesResponse.data.data.categories || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+    } catch (error) {
+      console.error('Error loading data:', error);
+      toast.error('Failed to load vendors and accounts');
+    }
+  };
+
+  const loadBills = async () => {
+    try {
+      setIsLoading(true);
+      const response = await billApi.getAll({
+        // Overdue is an open bill past its due date rather than a status of its own
+        status: filterStatus === 'all' || filterStatus === 'overdue' ? undefined : filterStatus,
+        overdue: filterStatus === 'overdue' ? true : undefined,
+        vendor_id: filterVendor === 'all' ? undefined : filterVendor
+      });
+      setBills(response.data.data.bills || []);
+      setSummary(response.data.data.summary || null);
+    } catch (error) {
+      console.error('Error loading bills:', error);
+      toast.error('Failed to load bills');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.vendor_id || !formData.amount || !formData.bill_date) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    if (formData.due_date && formData.due_date < formData.bill_date) {
+      toast.error('Due date cannot be before the bill date');
+      return;
+    }
+
+    try {
+      if (editingBill) {
+        await billApi.update(editingBill.id, formData);
+        toast.success('Bill updated successfully');
+      } else {
+        await billApi.create(formData);
+        toast.success('Bill added successfully');
+      }
+
+      setIsDialogOpen(false);
+      setEditingBill(null);
+      setFormData(emptyForm());
+      loadBills();
+    } catch (error: any) {
+      console.error('Error saving bill:', error);
+      toast.error(error.response?.data?.message || 'Failed to save bill');
+    }
+  };
+
+  const handleEdit = (bill: Bill) => {
+    setEditingBill(bill);
+    setFormData({
+      vendor_id: bill.vendor_id,
+      bill_number: bill.bill_number || '',
+      description: bill.description || '',
+      category: bill.category,
+      amount: Number(bill.amount),
+      bill_date: bill.bill_date.split('T')[0],
+      due_date: bill.due_date.split('T')[0],
+      status: bill.status === 'cancelled' ? 'cancelled' : 'open',
+      notes: bill.notes || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (bill: Bill) => {
+    if (!window.confirm('Delete this bill? Any payments made against it are put back on their accounts.')) {
+      return;
+    }
+
+    try {
+      await billApi.delete(bill.id);
+      toast.success('Bill deleted successfully');
+      loadBills();
+    } catch (error: any) {
+      console.error('Error deleting bill:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete bill');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'amount' ? Number(value) || 0 : value
+    }));
+  };
+
+  const isOverdue = (bill: Bill) => {
+    return bill.status === 'open' && bill.due_date.split('T')[0] < new Date().toISOString().split('T')[0];
+  };
+
+  const selectedVendor = vendors.find((vendor) => vendor.id === formData.vendor_id);
+
+  const filteredBills = bills.filter(bill => {
+    const term = searchTerm.toLowerCase();
+    return bill.vendor_name.toLowerCase().includes(term) ||
+      bill.bill_number?.toLowerCase().includes(term) ||
+      bill.description?.toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Bills</h1>
+          <p className="text-gray-600">Bills from your vendors and the instalments paid against them</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => { setEditingBill(null); setFormData(emptyForm()); }}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Bill
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingBill ? 'Edit Bill' : 'Add New Bill'}</DialogTitle>
+              <DialogDescription>
+                {editingBill ? 'Update the details of the bill.' : 'Enter a bill received from a vendor.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="vendor_id">Vendor *</Label>
+                <Select
+                  value={formData.vendor_id ? formData.vendor_id.toString() : ''}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, vendor_id: Number(value) }))}
+                >
+                  <SelectTrigger id="vendor_id">
+                    <SelectValue placeholder="Select a vendor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vendors.map((vendor) => (
+                      <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                        {vendor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="bill_number">Bill Number</Label>
+                  <Input id="bill_number" name="bill_number" value={formData.bill_number || ''} onChange={handleInputChange} maxLength={50} />
+                </div>
+                <div>
+                  <Label htmlFor="amount">Amount *</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    id="amount"
+                    name="amount"
+                    value={formData.amount}
+                    onChange={handleInputChange}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bill_date">Bill Date *</Label>
+                  <Input type="date" id="bill_date" name="bill_date" value={formData.bill_date} onChange={handleInputChange} required />
+                </div>
+                <div>
+                  <Label htmlFor="due_date">Due Date</Label>
+                  <Input type="date" id="due_date" name="due_date" value={formData.due_date || ''} onChange={handleInputChange} />
+                  {!formData.due_date && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {selectedVendor?.payment_terms_days
+                        ? `${selectedVendor.payment_terms_days} days after the bill date`
+                        : 'Due on the bill date'}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="category">Expense Category</Label>
+                <Select
+                  value={formData.category || 'none'}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value === 'none' ? null : value }))}
+                >
+                  <SelectTrigger id="category">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Bills</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Input id="description" name="description" value={formData.description || ''} onChange={handleInputChange} maxLength={500} />
+              </div>
+              {editingBill && editingBill.status !== 'paid' && (
+                <div>
+                  <Label htmlFor="status">Status</Label>
+                  <Select
+                    value={formData.status || 'open'}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as 'open' | 'cancelled' }))}
+                  >
+                    <SelectTrigger id="status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open">Open</SelectItem>
+                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={2} />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingBill ? 'Update' : 'Create'} Bill
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(summary?.outstanding || 0))}</div>
+            <p className="text-xs text-muted-foreground">Unpaid on open bills</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${Number(summary?.overdue || 0) > 0 ? 'text-red-600' : ''}`}>
+              {formatCurrency(Number(summary?.overdue || 0))}
+            </div>
+            <p className="text-xs text-muted-foreground">Past the due date</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Bills</CardTitle>
+            <Receipt className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.open_count || 0}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Bills</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search bills..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={filterStatus} onValueChange={setFilterStatus}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                {statusOptions.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterVendor} onValueChange={setFilterVendor}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All vendors</SelectItem>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                    {vendor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Bill</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Balance Due</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredBills.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8">
+                        <div className="flex flex-col items-center gap-2">
+                          <Receipt className="h-8 w-8 text-gray-400" />
+                          <span className="text-gray-500">No bills found</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredBills.map((bill) => (
+                      <TableRow key={bill.id}>
+                        <TableCell className="font-medium">{bill.vendor_name}</TableCell>
+                        <TableCell>
+                          <div>{bill.bill_number || '-'}</div>
+                          {bill.description && <div className="text-sm text-gray-500">{bill.description}</div>}
+                          <div className="text-xs text-gray-500">{bill.category || 'Bills'}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">Billed {new Date(bill.bill_date).toLocaleDateString()}</div>
+                          <div className={`text-sm ${isOverdue(bill) ? 'font-medium text-red-600' : 'text-gray-500'}`}>
+                            Due {new Date(bill.due_date).toLocaleDateString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{formatCurrency(Number(bill.amount))}</div>
+                          {Number(bill.amount_paid) > 0 && (
+                            <div className="text-sm text-gray-500">{formatCurrency(Number(bill.amount_paid))} paid</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {bill.status === 'open' ? formatCurrency(Number(bill.balance_due)) : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusOptions.find(s => s.value === bill.status)?.color}>
+                            {statusOptions.find(s => s.value === bill.status)?.label}
+                          </Badge>
+                          {isOverdue(bill) && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {bill.status !== 'cancelled' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPaymentsBill(bill)}
+                                title="Payments"
+                              >
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(bill)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(bill)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BillPaymentsDialog
+        bill={paymentsBill}
+        accounts={accounts}
+        onClose={() => setPaymentsBill(null)}
+        onChange={loadBills}
+      />
+    </div>
+  );
+};
+
+export default BillsPage;
@@ -0,0 +1,450 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Progress } from '../components/ui/progress';
+import {
+  PiggyBank,
+  Wallet,
+  AlertTriangle,
+  AlertCircle,
+  CheckCircle,
+  Plus,
+  Edit,
+  Trash2
+} from 'lucide-react';
+import { budgetApi, categoryApi } from '../lib/api';
+import { BudgetVsActual, BudgetForm, Category } from '../lib/types';
+import { formatCurrency } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+const PERIOD_LABELS: Record<string, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly'
+};
+
+const emptyForm = (): BudgetForm => ({
+  category: '',
+  category_type: 'expense',
+  period: 'monthly',
+  amount: 0,
+  rollover: false,
+  start_date: new Date().toISOString().split('T')[0]
+});
+
+export const BudgetsPage: React.FC = () => {
+  const [budgets, setBudgets] = useState<BudgetVsActual[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [viewDate, setViewDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<BudgetVsActual | null>(null);
+  const [formData, setFormData] = useState<BudgetForm>(emptyForm());
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [viewDate]);
+
+  const loadBudgets = async () => {
+    try {
+      setIsLoading(true);
+      const response = await budgetApi.getVsActual({ date: viewDate });
+      setBudgets(response.data.data.budgets || []);
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+      toast.error('Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getAll();
+      setCategories((response.data.data.categories || []).filter(
+        (category: Category) => category.type === 'expense' || category.type === 'purchase'
+      ));
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.category || !formData.amount) {
+      toast.error('Please choose a category and amount');
+      return;
+    }
+
+    try {
+      if (editingBudget) {
+        await budgetApi.update(editingBudget.id, {
+          period: formData.period,
+          amount: formData.amount,
+          rollover: formData.rollover,
+          start_date: formData.start_date
+        });
+        toast.success('Budget updated successfully');
+      } else {
+        await budgetApi.create(formData);
+        toast.success('Budget added successfully');
+      }
+
+      setIsDialogOpen(false);
+      setEditingBudget(null);
+      setFormData(emptyForm());
+      loadBudgets();
+    } catch (error: any) {
+      console.error('Error saving budget:', error);
+      toast.error(error.response?.data?.message || 'Failed to save budget');
+    }
+  };
+
+  const handleEdit = (budget: BudgetVsActual) => {
+    setEditingBudget(budget);
+    setFormData({
+      category: budget.category,
+      category_type: budget.category_type,
+      period: budget.period,
+      amount: Number(budget.amount),
+      rollover: Boolean(budget.rollover),
+      start_date: budget.start_date.split('T')[0]
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this budget?')) return;
+
+    try {
+      await budgetApi.delete(id);
+      toast.success('Budget deleted successfully');
+      loadBudgets();
+    } catch (error: any) {
+      console.error('Error deleting budget:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete budget');
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingBudget(null);
+    setFormData(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'exceeded':
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><AlertCircle className="w-3 h-3 mr-1" />Over budget</Badge>;
+      case 'warning':
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100"><AlertTriangle className="w-3 h-3 mr-1" />Near limit</Badge>;
+      default:
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="w-3 h-3 mr-1" />On track</Badge>;
+    }
+  };
+
+  const getProgressColor = (status: string) => {
+    switch (status) {
+      case 'exceeded':
+        return '[&>div]:bg-red-500';
+      case 'warning':
+        return '[&>div]:bg-yellow-500';
+      default:
+        return '[&>div]:bg-green-500';
+    }
+  };
+
+  const totalAvailable = budgets.reduce((sum, budget) => sum + Number(budget.available), 0);
+  const totalSpent = budgets.reduce((sum, budget) => sum + Number(budget.spent), 0);
+  const overBudgetCount = budgets.filter(budget => budget.status === 'exceeded').length;
+  const warningCount = budgets.filter(budget => budget.status === 'warning').length;
+
+  const formCategories = categories.filter(category => category.type === formData.category_type);
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Budgets</h1>
+          <p className="text-gray-600 mt-2">Plan spending per category and track it against actuals</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={viewDate}
+            onChange={(e) => setViewDate(e.target.value)}
+            className="w-40"
+          />
+          <Button onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Budget
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Budgeted</CardTitle>
+            <PiggyBank className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totalAvailable)}</div>
+            <p className="text-xs text-muted-foreground">Including rolled over amounts</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
+            <Wallet className="h-4 w-4 text-purple-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totalSpent)}</div>
+            <p className="text-xs text-muted-foreground">
+              {totalAvailable > 0 ? ((totalSpent / totalAvailable) * 100).toFixed(1) : '0.0'}% of budget used
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Near Limit</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">{warningCount}</div>
+            <p className="text-xs text-muted-foreground">Categories above 80%</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Over Budget</CardTitle>
+            <AlertCircle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{overBudgetCount}</div>
+            <p className="text-xs text-muted-foreground">Categories past their limit</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Budget vs Actual */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Budget vs Actual</CardTitle>
+          <CardDescription>Spending in each budget's period containing the selected date</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Spent</TableHead>
+                    <TableHead>Remaining</TableHead>
+                    <TableHead className="w-48">Progress</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {budgets.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center py-6 text-gray-500">
+                        No budgets for this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    budgets.map((budget) => (
+                      <TableRow key={budget.id}>
+                        <TableCell>
+                          <div className="font-medium">{budget.category}</div>
+                          <div className="text-sm text-gray-500 capitalize">{budget.category_type}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{PERIOD_LABELS[budget.period]}</div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(budget.period_start).toLocaleDateString()} - {new Date(budget.period_end).toLocaleDateString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{formatCurrency(Number(budget.available))}</div>
+                          {Number(budget.rolled_over) > 0 && (
+                            <div className="text-xs text-blue-600">+{formatCurrency(Number(budget.rolled_over))} rolled over</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatCurrency(Number(budget.spent))}</TableCell>
+                        <TableCell className={Number(budget.remaining) < 0 ? 'text-red-600' : 'text-green-600'}>
+                          {formatCurrency(Number(budget.remaining))}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Progress
+                              value={Math.min(Number(budget.percentage), 100)}
+                              className={`w-28 ${getProgressColor(budget.status)}`}
+                            />
+                            <span className="text-xs text-gray-500">{Number(budget.percentage).toFixed(0)}%</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{getStatusBadge(budget.status)}</TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => handleEdit(budget)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(budget.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Budget Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? 'Edit Budget' : 'Add Budget'}</DialogTitle>
+            <DialogDescription>
+              You'll be warned when spending reaches 80% and 100% of the budget.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="category_type">Type</Label>
+                <Select
+                  value={formData.category_type}
+                  disabled={!!editingBudget}
+                  onValueChange={(value: 'expense' | 'purchase') => setFormData(prev => ({ ...prev, category_type: value, category: '' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="purchase">Purchase</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="category">Category *</Label>
+                <Select
+                  value={formData.category}
+                  disabled={!!editingBudget}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="period">Period</Label>
+                <Select
+                  value={formData.period}
+                  onValueChange={(value: BudgetForm['period']) => setFormData(prev => ({ ...prev, period: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="amount">Amount *</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={formData.amount || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="start_date">Starts From</Label>
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                id="rollover"
+                type="checkbox"
+                checked={formData.rollover}
+                onChange={(e) => setFormData(prev => ({ ...prev, rollover: e.target.checked }))}
+              />
+              <Label htmlFor="rollover">Roll unused budget over to the next period</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editingBudget ? 'Update Budget' : 'Save Budget'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BudgetsPage;
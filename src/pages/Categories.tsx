@@ -29,7 +29,10 @@ import {
   Gamepad2,
   Heart,
   Briefcase,
-  Book
+  Book,
+  ChevronRight,
+  ChevronDown,
+  GitMerge
 } from 'lucide-react';
 import { categoryApi } from '../lib/api';
 import { Category, CategoryForm } from '../lib/types';
@@ -69,9 +72,14 @@ export const CategoriesPage: React.FC = () => {
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  // Category being merged away, or deleted with its records moved to another category
+  const [reassigning, setReassigning] = useState<{ category: Category; mode: 'merge' | 'delete'; message?: string } | null>(null);
+  const [reassignTargetId, setReassignTargetId] = useState<number | null>(null);
   const [formData, setFormData] = useState<CategoryForm>({
     name: '',
     type: 'expense',
+    parent_id: null,
     color: '#3B82F6',
     icon: 'Tag'
   });
@@ -83,7 +91,7 @@ export const CategoriesPage: React.FC = () => {
   const loadCategories = async () => {
     try {
       setIsLoading(true);
-      const response = await categoryApi.getAll();
+      const response = await categoryApi.getUsageSummary();
       setCategories(response.data.data.categories || []);
     } catch (error) {
       console.error('Error loading categories:', error);
@@ -125,6 +133,7 @@ export const CategoriesPage: React.FC = () => {
     setFormData({
       name: category.name,
       type: category.type,
+      parent_id: category.parent_id,
       color: category.color || '#3B82F6',
       icon: category.icon || 'Tag'
     });
@@ -138,21 +147,99 @@ export const CategoriesPage: React.FC = () => {
         toast.success('Category deleted successfully');
         loadCategories();
       } catch (error: any) {
+        // A category in use can still be deleted by moving what uses it to another category
+        if (error.response?.data?.data?.record_count !== undefined) {
+          openReassignDialog(category, 'delete', error.response.data.data);
+          return;
+        }
         console.error('Error deleting category:', error);
         toast.error(error.response?.data?.message || 'Failed to delete category');
       }
     }
   };
 
+  const openReassignDialog = (
+    category: Category,
+    mode: 'merge' | 'delete',
+    usage?: { record_count: number; budget_count: number; subcategory_count: number }
+  ) => {
+    setReassigning({
+      category,
+      mode,
+      message: usage
+        ? `${category.name} is used by ${usage.record_count} record(s), ${usage.budget_count} budget(s) and ${usage.subcategory_count} subcategor${usage.subcategory_count === 1 ? 'y' : 'ies'}.`
+        : undefined
+    });
+    setReassignTargetId(null);
+  };
+
+  const handleReassign = async () => {
+    if (!reassigning || !reassignTargetId) {
+      toast.error('Please choose a category');
+      return;
+    }
+
+    try {
+      const response = reassigning.mode === 'merge'
+        ? await categoryApi.merge(reassigning.category.id, reassignTargetId)
+        : await categoryApi.delete(reassigning.category.id, reassignTargetId);
+      toast.success(response.data.message);
+      setReassigning(null);
+      loadCategories();
+    } catch (error: any) {
+      console.error('Error reassigning category:', error);
+      toast.error(error.response?.data?.message || 'Failed to reassign category');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       name: '',
       type: 'expense',
+      parent_id: null,
       color: '#3B82F6',
       icon: 'Tag'
     });
   };
 
+  const toggleCollapsed = (categoryId: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) {
+        next.delete(categoryId);
+      } else {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  };
+
+  // A category is hidden while any of its parents is collapsed
+  const isHidden = (category: Category): boolean => {
+    let parentId = category.parent_id;
+    while (parentId) {
+      if (collapsed.has(parentId)) return true;
+      parentId = categories.find(c => c.id === parentId)?.parent_id ?? null;
+    }
+    return false;
+  };
+
+  // Categories that can hold the one being edited: same type, and not itself or below itself
+  const isDescendantOf = (category: Category, ancestorId: number): boolean => {
+    let current: Category | undefined = category;
+    while (current) {
+      if (current.id === ancestorId) return true;
+      current = categories.find(c => c.id === current!.parent_id);
+    }
+    return false;
+  };
+  const parentOptions = categories.filter(category =>
+    category.type === formData.type && !(editingCategory && isDescendantOf(category, editingCategory.id))
+  );
+  const reassignOptions = reassigning
+    ? categories.filter(category => category.type === reassigning.category.type && !isDescendantOf(category, reassigning.category.id))
+    : [];
+
   const openAddDialog = () => {
     setEditingCategory(null);
     resetForm();
@@ -201,16 +288,16 @@ export const CategoriesPage: React.FC = () => {
     } 
   };
 
+  // While searching, matches are listed with their full path instead of as a tree
   const filteredCategories = categories.filter(category => {
-    const matchesSearch = category.name.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = category.path.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = filterType === 'all' || category.type === filterType;
-    return matchesSearch && matchesType;
+    return matchesSearch && matchesType && (searchTerm !== '' || !isHidden(category));
   });
 
   const incomeCategories = categories.filter(c => c.type === 'income');
   const expenseCategories = categories.filter(c => c.type === 'expense');
-  const totalTransactions = categories.reduce((sum, c) => sum + (c.transaction_count || 0), 0);
-  const totalAmount = categories.reduce((sum, c) => sum + (c.total_amount || 0), 0);
+  const totalTransactions = categories.reduce((sum, c) => sum + (c.own_transaction_count || 0), 0);
 
   if (isLoading) {
     return (
@@ -293,11 +380,12 @@ export const CategoriesPage: React.FC = () => {
               <BarChart3 className="w-5 h-5 mr-2" />
               Top Income Categories
             </CardTitle>
-            <CardDescription>Most used income categories by transaction count</CardDescription>
+            <CardDescription>Most used income categories by transaction count, including subcategories</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
               {incomeCategories
+                .filter(c => c.parent_id === null)
                 .sort((a, b) => (b.transaction_count || 0) - (a.transaction_count || 0))
                 .slice(0, 5)
                 .map((category) => (
@@ -324,11 +412,12 @@ export const CategoriesPage: React.FC = () => {
               <BarChart3 className="w-5 h-5 mr-2" />
               Top Expense Categories
             </CardTitle>
-            <CardDescription>Most used expense categories by transaction count</CardDescription>
+            <CardDescription>Most used expense categories by transaction count, including subcategories</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
               {expenseCategories
+                .filter(c => c.parent_id === null)
                 .sort((a, b) => (b.transaction_count || 0) - (a.transaction_count || 0))
                 .slice(0, 5)
                 .map((category) => (
@@ -354,7 +443,7 @@ export const CategoriesPage: React.FC = () => {
       <Card>
         <CardHeader>
           <CardTitle>All Categories</CardTitle>
-          <CardDescription>Manage your income and expense categories</CardDescription>
+          <CardDescription>Manage your income and expense categories. Totals include subcategories.</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -403,14 +492,36 @@ export const CategoriesPage: React.FC = () => {
                   filteredCategories.map((category) => (
                     <TableRow key={category.id}>
                       <TableCell>
-                        <div className="flex items-center space-x-3">
+                        <div
+                          className="flex items-center space-x-3"
+                          style={{ paddingLeft: searchTerm ? 0 : `${category.depth * 1.5}rem` }}
+                        >
+                          {!searchTerm && (
+                            category.child_count > 0 ? (
+                              <button
+                                type="button"
+                                className="text-gray-500 hover:text-gray-700"
+                                onClick={() => toggleCollapsed(category.id)}
+                                title={collapsed.has(category.id) ? 'Show subcategories' : 'Hide subcategories'}
+                              >
+                                {collapsed.has(category.id) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                              </button>
+                            ) : (
+                              <span className="w-4" />
+                            )
+                          )}
                           <div 
                             className="w-8 h-8 rounded-full flex items-center justify-center text-white"
                             style={{ backgroundColor: category.color || '#3B82F6' }}
                           >
                             {getIconComponent(category.icon || 'Tag')}
                           </div>
-                          <span className="font-medium">{category.name}</span>
+                          <div>
+                            <span className="font-medium">{searchTerm ? category.path : category.name}</span>
+                            {category.child_count > 0 && (
+                              <p className="text-xs text-gray-500">{category.child_count} subcategor{category.child_count === 1 ? 'y' : 'ies'}</p>
+                            )}
+                          </div>
                         </div>
                       </TableCell>
                       <TableCell>{getTypeBadge(category.type, category)}</TableCell>
@@ -429,6 +540,14 @@ export const CategoriesPage: React.FC = () => {
                           <Button size="sm" variant="outline" onClick={() => handleEdit(category)}>
                             <Edit className="w-4 h-4" />
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openReassignDialog(category, 'merge')}
+                            title="Merge into another category"
+                          >
+                            <GitMerge className="w-4 h-4" />
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="outline" 
@@ -474,7 +593,8 @@ export const CategoriesPage: React.FC = () => {
                 <Label htmlFor="type">Category Type *</Label>
                 <Select 
                   value={formData.type} 
-                  onValueChange={(value: any) => setFormData({...formData, type: value})}
+                  onValueChange={(value: any) => setFormData({...formData, type: value, parent_id: null})}
+                  disabled={!!editingCategory}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select category type" />
@@ -488,6 +608,26 @@ export const CategoriesPage: React.FC = () => {
                 </Select>
               </div>
 
+              <div className="grid gap-2">
+                <Label htmlFor="parent">Parent Category</Label>
+                <Select
+                  value={formData.parent_id ? formData.parent_id.toString() : 'none'}
+                  onValueChange={(value) => setFormData({...formData, parent_id: value === 'none' ? null : Number(value)})}
+                >
+                  <SelectTrigger id="parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (top level)</SelectItem>
+                    {parentOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="grid gap-2">
                 <Label htmlFor="color">Color</Label>
                 <div className="flex flex-wrap gap-2">
@@ -556,6 +696,48 @@ export const CategoriesPage: React.FC = () => {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Merge / reassign dialog */}
+      <Dialog open={!!reassigning} onOpenChange={(open) => !open && setReassigning(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {reassigning?.mode === 'merge' ? `Merge ${reassigning.category.name}` : `Delete ${reassigning?.category.name}`}
+            </DialogTitle>
+            <DialogDescription>
+              {reassigning?.message && <>{reassigning.message} </>}
+              Its records, subcategories and budgets will move to the category you choose
+              {reassigning?.mode === 'merge' ? ', and it will then be removed.' : ' before it is deleted.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="reassign_to">{reassigning?.mode === 'merge' ? 'Merge Into' : 'Reassign To'}</Label>
+            <Select
+              value={reassignTargetId ? reassignTargetId.toString() : ''}
+              onValueChange={(value) => setReassignTargetId(Number(value))}
+            >
+              <SelectTrigger id="reassign_to">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {reassignOptions.map((category) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>
+                    {category.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setReassigning(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReassign} disabled={!reassignTargetId} className="bg-blue-600 hover:bg-blue-700">
+              {reassigning?.mode === 'merge' ? 'Merge' : 'Reassign and Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
 import { Badge } from '../components/ui/badge';
@@ -15,12 +16,34 @@ import {
   Clock,
   AlertCircle,
   CreditCard,
-  Search
+  Search,
+  Plus,
+  Percent,
+  Trash2,
+  FileDown
 } from 'lucide-react';
-import { charityApi } from '../lib/api';
-import { Charity, CharityPaymentForm } from '../lib/types';
+import { charityApi, charityRuleApi, categoryApi, exportApi } from '../lib/api';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { Charity, CharityPaymentForm, CharityRule, CharityRuleForm, Category, ExportColumnOption } from '../lib/types';
+import { downloadFile } from '../lib/utils';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const CHARITY_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'income_date', label: 'Income Date' },
+  { key: 'income_description', label: 'Income' },
+  { key: 'income_amount', label: 'Income Amount' },
+  { key: 'description', label: 'Description' },
+  { key: 'recipient', label: 'Recipient' },
+  { key: 'amount_required', label: 'Required' },
+  { key: 'amount_paid', label: 'Paid' },
+  { key: 'amount_remaining', label: 'Remaining' },
+  { key: 'status', label: 'Status' },
+  { key: 'payment_date', label: 'Last Payment' },
+  { key: 'created_at', label: 'Created' }
+];
+
 export const CharityPage: React.FC = () => {
   const [charities, setCharities] = useState<Charity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -28,6 +51,7 @@ export const CharityPage: React.FC = () => {
   const [selectedCharity, setSelectedCharity] = useState<Charity | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [statementYear, setStatementYear] = useState(new Date().getFullYear());
   const [paymentForm, setPaymentForm] = useState<CharityPaymentForm>({
     charity_id: 0,
     payment_amount: 0,
@@ -35,11 +59,75 @@ export const CharityPage: React.FC = () => {
     recipient: '',
     description: ''
   });
+  const [rules, setRules] = useState<CharityRule[]>([]);
+  const [defaultRate, setDefaultRate] = useState(6);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [ruleForm, setRuleForm] = useState<CharityRuleForm>({
+    category: null,
+    rate: 6,
+    is_exempt: false,
+    effective_from: new Date().toISOString().split('T')[0]
+  });
 
   useEffect(() => {
     loadCharities();
+    loadRules();
   }, []);
 
+  const loadRules = async () => {
+    try {
+      const [rulesResponse, categoriesResponse] = await Promise.all([
+        charityRuleApi.getAll(),
+        categoryApi.getAll({ type: 'income' })
+      ]);
+      setRules(rulesResponse.data.data.rules || []);
+      setDefaultRate(Number(rulesResponse.data.data.default_rate));
+      setIncomeCategories(categoriesResponse.data.data.categories || []);
+    } catch (error) {
+      console.error('Error loading charity rules:', error);
+      toast.error('Failed to load charity rules');
+    }
+  };
+
+  const handleCreateRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!ruleForm.effective_from) {
+      toast.error('Please choose when the rule takes effect');
+      return;
+    }
+
+    try {
+      await charityRuleApi.create(ruleForm);
+      toast.success('Charity rule saved. Existing income keeps its original rate.');
+      setIsRuleDialogOpen(false);
+      setRuleForm({
+        category: null,
+        rate: defaultRate,
+        is_exempt: false,
+        effective_from: new Date().toISOString().split('T')[0]
+      });
+      loadRules();
+    } catch (error: any) {
+      console.error('Error saving charity rule:', error);
+      toast.error(error.response?.data?.message || 'Failed to save charity rule');
+    }
+  };
+
+  const handleDeleteRule = async (id: number) => {
+    if (!confirm('Delete this charity rule? Income already recorded keeps its rate.')) return;
+
+    try {
+      await charityRuleApi.delete(id);
+      toast.success('Charity rule deleted');
+      loadRules();
+    } catch (error: any) {
+      console.error('Error deleting charity rule:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete charity rule');
+    }
+  };
+
   const loadCharities = async () => {
     try {
       setIsLoading(true);
@@ -136,6 +224,16 @@ export const CharityPage: React.FC = () => {
   const totalPaid = charities.reduce((sum, charity) => sum + Number(charity.amount_paid), 0);
   const totalRemaining = charities.reduce((sum, charity) => sum + Number(charity.amount_remaining), 0);
 
+  const handleDownloadStatement = async () => {
+    try {
+      const response = await exportApi.charityStatementPdf({ year: statementYear });
+      downloadFile(response.data, `charity_statement_${statementYear}.pdf`);
+    } catch (error) {
+      console.error('Error downloading charity statement:', error);
+      toast.error('Failed to download charity statement');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -152,6 +250,28 @@ export const CharityPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Charity Management</h1>
           <p className="text-gray-600 mt-2">Track your charity obligations and payments</p>
         </div>
+        <div className="flex items-center gap-2">
+          <ListExportDialog
+            title="Export Charity"
+            path="/charity"
+            name="charity"
+            columns={CHARITY_EXPORT_COLUMNS}
+            filters={{ status: filterStatus }}
+            dateRange
+          />
+          <Input
+            type="number"
+            min="1900"
+            max="2100"
+            value={statementYear}
+            onChange={(e) => setStatementYear(parseInt(e.target.value) || new Date().getFullYear())}
+            className="w-24"
+          />
+          <Button variant="outline" onClick={handleDownloadStatement}>
+            <FileDown className="mr-2 h-4 w-4" />
+            Annual Statement
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -308,6 +428,153 @@ export const CharityPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Charity Rules */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Charity Rules</CardTitle>
+            <CardDescription>
+              Rates applied to new income. Without a rule, {defaultRate}% is used.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setIsRuleDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                      No charity rules yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>
+                        {rule.category ? rule.category : <Badge variant="secondary">All income (default)</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {rule.is_exempt ? (
+                          <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100">Exempt</Badge>
+                        ) : (
+                          <span className="flex items-center"><Percent className="w-3 h-3 mr-1" />{Number(rule.rate).toFixed(2)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{new Date(rule.effective_from).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Charity Rule Dialog */}
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Charity Rule</DialogTitle>
+            <DialogDescription>
+              The rule applies to income dated on or after its effective date.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateRule} className="space-y-4">
+            <div>
+              <Label htmlFor="rule_category">Income Category</Label>
+              <Select
+                value={ruleForm.category ?? 'default'}
+                onValueChange={(value) => setRuleForm(prev => ({
+                  ...prev,
+                  category: value === 'default' ? null : value,
+                  is_exempt: value === 'default' ? false : prev.is_exempt
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">All income (default rate)</SelectItem>
+                  {incomeCategories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {category.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {ruleForm.category && (
+              <div className="flex items-center space-x-2">
+                <input
+                  id="rule_exempt"
+                  type="checkbox"
+                  checked={ruleForm.is_exempt}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, is_exempt: e.target.checked }))}
+                />
+                <Label htmlFor="rule_exempt">Exempt this category from charity</Label>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule_rate">Rate (%)</Label>
+                <Input
+                  id="rule_rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={ruleForm.rate}
+                  disabled={ruleForm.is_exempt}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule_effective_from">Effective From *</Label>
+                <Input
+                  id="rule_effective_from"
+                  type="date"
+                  value={ruleForm.effective_from}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, effective_from: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save Rule</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Payment Dialog */}
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
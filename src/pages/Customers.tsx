@@ -0,0 +1,566 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Users,
+  FileText,
+  Clock,
+  Phone,
+  Mail
+} from 'lucide-react';
+import { customerApi } from '../lib/api';
+import { AgingReport, Customer, CustomerForm, CustomerStatement } from '../lib/types';
+import toast from 'react-hot-toast';
+
+type CustomersView = 'directory' | 'aging';
+
+const emptyForm: CustomerForm = {
+  name: '',
+  contact: '',
+  email: '',
+  address: '',
+  tax_id: '',
+  credit_limit: null,
+  notes: ''
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+export const CustomersPage: React.FC = () => {
+  const [view, setView] = useState<CustomersView>('directory');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [formData, setFormData] = useState<CustomerForm>(emptyForm);
+  const [aging, setAging] = useState<AgingReport | null>(null);
+  const [agingAsOf, setAgingAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [statementRange, setStatementRange] = useState({ start_date: '', end_date: '' });
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  useEffect(() => {
+    if (view === 'aging') {
+      loadAging();
+    }
+  }, [view, agingAsOf]);
+
+  useEffect(() => {
+    if (statementCustomer) {
+      loadStatement(statementCustomer);
+    }
+  }, [statementCustomer, statementRange]);
+
+  const loadCustomers = async () => {
+    try {
+      setIsLoading(true);
+      const response = await customerApi.getAll();
+      setCustomers(response.data.data.customers || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast.error('Failed to load customers');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAging = async () => {
+    try {
+      const response = await customerApi.getAging({ as_of: agingAsOf || undefined });
+      setAging(response.data.data);
+    } catch (error) {
+      console.error('Error loading aging report:', error);
+      toast.error('Failed to load the aging report');
+    }
+  };
+
+  const loadStatement = async (customer: Customer) => {
+    try {
+      const response = await customerApi.getStatement(customer.id, {
+        start_date: statementRange.start_date || undefined,
+        end_date: statementRange.end_date || undefined
+      });
+      setStatement(response.data.data);
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      toast.error('Failed to load the statement');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter the customer name');
+      return;
+    }
+
+    try {
+      if (editingCustomer) {
+        await customerApi.update(editingCustomer.id, formData);
+        toast.success('Customer updated successfully');
+      } else {
+        await customerApi.create(formData);
+        toast.success('Customer added successfully');
+      }
+
+      setIsDialogOpen(false);
+      setEditingCustomer(null);
+      setFormData(emptyForm);
+      loadCustomers();
+    } catch (error: any) {
+      console.error('Error saving customer:', error);
+      toast.error(error.response?.data?.message || 'Failed to save customer');
+    }
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setFormData({
+      name: customer.name,
+      contact: customer.contact || '',
+      email: customer.email || '',
+      address: customer.address || '',
+      tax_id: customer.tax_id || '',
+      credit_limit: customer.credit_limit !== null ? Number(customer.credit_limit) : null,
+      notes: customer.notes || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`Delete ${customer.name}? Their sales keep the name but are no longer linked.`)) {
+      return;
+    }
+
+    try {
+      await customerApi.delete(customer.id);
+      toast.success('Customer deleted successfully');
+      loadCustomers();
+    } catch (error: any) {
+      console.error('Error deleting customer:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete customer');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'credit_limit' ? (value === '' ? null : Number(value)) : value
+    }));
+  };
+
+  const openStatement = (customer: Customer) => {
+    setStatement(null);
+    setStatementRange({ start_date: '', end_date: '' });
+    setStatementCustomer(customer);
+  };
+
+  const filteredCustomers = customers.filter(customer => {
+    const term = searchTerm.toLowerCase();
+    return customer.name.toLowerCase().includes(term) ||
+      customer.contact?.toLowerCase().includes(term) ||
+      customer.email?.toLowerCase().includes(term);
+  });
+
+  const totalOutstanding = customers.reduce((sum, customer) => sum + Number(customer.outstanding_balance || 0), 0);
+  const overLimitCount = customers.filter(customer =>
+    customer.credit_limit !== null && Number(customer.outstanding_balance || 0) > Number(customer.credit_limit)
+  ).length;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600">Customer details, unpaid sales and statements</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => { setEditingCustomer(null); setFormData(emptyForm); }}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCustomer ? 'Edit Customer' : 'Add New Customer'}</DialogTitle>
+              <DialogDescription>
+                {editingCustomer ? 'A new name is carried over to the customer\'s sales.' : 'Enter the details for the new customer.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input id="name" name="name" value={formData.name} onChange={handleInputChange} maxLength={100} required />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="contact">Contact</Label>
+                  <Input id="contact" name="contact" value={formData.contact || ''} onChange={handleInputChange} maxLength={50} placeholder="Phone number" />
+                </div>
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input type="email" id="email" name="email" value={formData.email || ''} onChange={handleInputChange} maxLength={100} />
+                </div>
+                <div>
+                  <Label htmlFor="tax_id">Tax ID</Label>
+                  <Input id="tax_id" name="tax_id" value={formData.tax_id || ''} onChange={handleInputChange} maxLength={50} placeholder="e.g., NTN or STRN" />
+                </div>
+                <div>
+                  <Label htmlFor="credit_limit">Credit Limit</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    id="credit_limit"
+                    name="credit_limit"
+                    value={formData.credit_limit ?? ''}
+                    onChange={handleInputChange}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="address">Address</Label>
+                <Textarea id="address" name="address" value={formData.address || ''} onChange={handleInputChange} rows={2} />
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={2} />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingCustomer ? 'Update' : 'Create'} Customer
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Customers</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{customers.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Receivables</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totalOutstanding)}</div>
+            <p className="text-xs text-muted-foreground">Unpaid on pending sales</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Over Credit Limit</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${overLimitCount > 0 ? 'text-red-600' : ''}`}>{overLimitCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as CustomersView)}>
+        <TabsList>
+          <TabsTrigger value="directory"><Users className="w-4 h-4 mr-2" />Directory</TabsTrigger>
+          <TabsTrigger value="aging"><Clock className="w-4 h-4 mr-2" />Receivables Aging</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {view === 'directory' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Customer Directory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="relative mb-4">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search customers..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Sales</TableHead>
+                    <TableHead>Outstanding</TableHead>
+                    <TableHead>Credit Limit</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <div className="flex flex-col items-center gap-2">
+                          <Users className="h-8 w-8 text-gray-400" />
+                          <span className="text-gray-500">No customers found</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredCustomers.map((customer) => {
+                      const outstanding = Number(customer.outstanding_balance || 0);
+                      const overLimit = customer.credit_limit !== null && outstanding > Number(customer.credit_limit);
+                      return (
+                        <TableRow key={customer.id}>
+                          <TableCell>
+                            <div className="font-medium">{customer.name}</div>
+                            {customer.tax_id && <div className="text-sm text-gray-500">Tax ID: {customer.tax_id}</div>}
+                          </TableCell>
+                          <TableCell>
+                            {customer.contact && (
+                              <div className="flex items-center gap-1 text-sm">
+                                <Phone className="h-3 w-3" />
+                                {customer.contact}
+                              </div>
+                            )}
+                            {customer.email && (
+                              <div className="flex items-center gap-1 text-sm text-gray-500">
+                                <Mail className="h-3 w-3" />
+                                {customer.email}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{formatCurrency(Number(customer.total_sales || 0))}</div>
+                            <div className="text-sm text-gray-500">{customer.sale_count || 0} sales</div>
+                          </TableCell>
+                          <TableCell className={overLimit ? 'font-medium text-red-600' : 'font-medium'}>
+                            {formatCurrency(outstanding)}
+                            {overLimit && <Badge variant="destructive" className="ml-2">Over limit</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            {customer.credit_limit !== null ? formatCurrency(Number(customer.credit_limit)) : '-'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => openStatement(customer)} title="Statement">
+                                <FileText className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleEdit(customer)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(customer)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Receivables Aging</CardTitle>
+              <CardDescription>Unpaid balances of pending sales by days since the sale</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="aging_as_of">As of</Label>
+              <Input
+                type="date"
+                id="aging_as_of"
+                className="w-40"
+                value={agingAsOf}
+                onChange={(e) => setAgingAsOf(e.target.value)}
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!aging ? (
+              <div className="text-center py-8 text-gray-500">Loading...</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      {aging.buckets.map((bucket) => (
+                        <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {aging.customers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={aging.buckets.length + 2} className="text-center py-8 text-gray-500">
+                          Nothing is owed
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      aging.customers.map((row) => (
+                        <TableRow key={`${row.customer_id ?? 'name'}:${row.customer_name}`}>
+                          <TableCell>
+                            <div className="font-medium">{row.customer_name}</div>
+                            <div className="text-sm text-gray-500">
+                              {row.sale_count} unpaid since {new Date(row.oldest_date).toLocaleDateString()}
+                            </div>
+                          </TableCell>
+                          {aging.buckets.map((bucket) => (
+                            <TableCell key={bucket.key} className="text-right">
+                              {row[bucket.key] ? formatCurrency(row[bucket.key]) : '-'}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-medium">{formatCurrency(row.total)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                    <TableRow className="bg-gray-50 font-semibold">
+                      <TableCell>Total</TableCell>
+                      {aging.buckets.map((bucket) => (
+                        <TableCell key={bucket.key} className="text-right">{formatCurrency(aging.totals[bucket.key])}</TableCell>
+                      ))}
+                      <TableCell className="text-right">{formatCurrency(aging.totals.total)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Statement */}
+      <Dialog open={statementCustomer !== null} onOpenChange={(open) => !open && setStatementCustomer(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Statement: {statementCustomer?.name}</DialogTitle>
+            <DialogDescription>Sales charged and payments received, with the running balance owed</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="statement_start">From</Label>
+              <Input
+                type="date"
+                id="statement_start"
+                value={statementRange.start_date}
+                onChange={(e) => setStatementRange(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="statement_end">To</Label>
+              <Input
+                type="date"
+                id="statement_end"
+                value={statementRange.end_date}
+                onChange={(e) => setStatementRange(prev => ({ ...prev, end_date: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {statement && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Charged</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.period.start_date && (
+                    <TableRow>
+                      <TableCell>{new Date(statement.period.start_date).toLocaleDateString()}</TableCell>
+                      <TableCell colSpan={4}>Balance brought forward</TableCell>
+                      <TableCell className="text-right">{formatCurrency(statement.opening_balance)}</TableCell>
+                    </TableRow>
+                  )}
+                  {statement.entries.map((entry, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                      <TableCell>{entry.reference}</TableCell>
+                      <TableCell>{entry.description}</TableCell>
+                      <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</TableCell>
+                      <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ''}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell colSpan={3}>Closing balance</TableCell>
+                    <TableCell className="text-right">{formatCurrency(statement.total_charged)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(statement.total_paid)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(statement.closing_balance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomersPage;
@@ -14,11 +14,15 @@ import {
   ShoppingCart,
   ShoppingBag,
   Package,
-  Target
+  Target,
+  HandCoins,
+  FileDown
 } from 'lucide-react';
-import { dashboardApi } from '../lib/api';
+import { dashboardApi, exportApi } from '../lib/api';
 import { DashboardData, AnalyticsData, DashboardSummary } from '../lib/types';
+import { downloadFile } from '../lib/utils';
 import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
 
 export const Dashboard: React.FC = () => {
   const [dashboardOverviewData, setDashboardOverviewData] = useState<DashboardData | null>(null);
@@ -48,6 +52,16 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleExportPdf = async () => {
+    try {
+      const response = await exportApi.dashboardPdf();
+      downloadFile(response.data, `financial_summary_${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (err) {
+      console.error('Error exporting dashboard:', err);
+      toast.error('Failed to export PDF');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -106,12 +120,22 @@ export const Dashboard: React.FC = () => {
       href: '/accounts'
     },
     {
-      title: 'Active Loans',
+      title: 'Loans Payable',
       value: formatCurrency(summary?.total_active_loans || 0),
       icon: CreditCard,
       color: 'text-orange-600',
       bgColor: 'bg-orange-100',
-      change: '-2.1%',
+      change: 'Liability',
+      changeType: 'negative' as const,
+      href: '/loans'
+    },
+    {
+      title: 'Loans Receivable',
+      value: formatCurrency(summary?.total_loans_receivable || 0),
+      icon: HandCoins,
+      color: 'text-teal-600',
+      bgColor: 'bg-teal-100',
+      change: 'Asset',
       changeType: 'positive' as const,
       href: '/loans'
     },
@@ -141,7 +165,9 @@ export const Dashboard: React.FC = () => {
       icon: ShoppingBag,
       color: 'text-green-600',
       bgColor: 'bg-green-100',
-      change: `${summary?.total_sales_count || 0} sales`,
+      change: summary?.pending_sales_count > 0 ?
+        `${summary?.total_sales_count || 0} sales, ${summary.pending_sales_count} pending` :
+        `${summary?.total_sales_count || 0} sales`,
       changeType: 'positive' as const,
       href: '/sales'
     },
@@ -190,6 +216,10 @@ export const Dashboard: React.FC = () => {
           <Button asChild className="bg-green-600 hover:bg-green-700">
             <Link to="/sales">Add Sale</Link>
           </Button>
+          <Button variant="outline" onClick={handleExportPdf}>
+            <FileDown className="mr-2 h-4 w-4" />
+            Export PDF
+          </Button>
         </div>
       </div>
 
@@ -18,26 +18,56 @@ import {
   Filter,
   Edit,
   Trash2,
-  Receipt
+  Receipt,
+  Paperclip,
+  Split
 } from 'lucide-react';
-import { expenseApi, categoryApi } from '../lib/api';
-import { Expense, ExpenseForm, Category } from '../lib/types';
+import { expenseApi, categoryApi, accountApi, attachmentApi, exportApi, tagApi, vendorApi } from '../lib/api';
+import { AttachmentDropzone } from '../components/Attachments/AttachmentDropzone';
+import { DateRangeExportDialog } from '../components/Export/DateRangeExportDialog';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { TagInput } from '../components/Tags/TagInput';
+import { TagChips } from '../components/Tags/TagChips';
+import { SplitEditor } from '../components/Splits/SplitEditor';
+import { Expense, ExpenseForm, Category, Account, Vendor, ExportColumnOption, Tag, SplitLineForm } from '../lib/types';
+import { downloadFile, showBudgetAlert, splitLinesTotal } from '../lib/utils';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const EXPENSE_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'payment_method', label: 'Payment Method' },
+  { key: 'account_name', label: 'Account' },
+  { key: 'vendor_name', label: 'Vendor' },
+  { key: 'amount', label: 'Amount' }
+];
+
 export const ExpensesPage: React.FC = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [splitLines, setSplitLines] = useState<SplitLineForm[] | null>(null);
   const [formData, setFormData] = useState<ExpenseForm>({
     amount: 0,
     description: '',
     category: '',
     payment_method: '',
-    date: new Date().toISOString().split('T')[0]
+    account_id: null,
+    vendor_id: null,
+    date: new Date().toISOString().split('T')[0],
+    tags: []
   });
 
   const paymentMethods = [
@@ -53,14 +83,17 @@ export const ExpensesPage: React.FC = () => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [filterTags]);
 
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const [expensesResponse, categoriesResponse] = await Promise.all([
-        expenseApi.getAll(),
-        categoryApi.getAll({ type: 'expense' })
+      const [expensesResponse, categoriesResponse, accountsResponse, tagsResponse, vendorsResponse] = await Promise.all([
+        expenseApi.getAll({ tags: filterTags.join(',') || undefined }),
+        categoryApi.getAll({ type: 'expense' }),
+        accountApi.getAll(),
+        tagApi.getAll(),
+        vendorApi.getAll()
       ]);
       
       const fetchedExpenses = expensesResponse.data.data.expenses || [];
@@ -70,6 +103,9 @@ export const ExpensesPage: React.FC = () => {
       }));
       setExpenses(sanitizedExpenses);
       setCategories(categoriesResponse.data.data.categories || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setTags(tagsResponse.data.data.tags || []);
+      setVendors(vendorsResponse.data.data.vendors || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load expense data');
@@ -81,23 +117,41 @@ export const ExpensesPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.category || !formData.payment_method) {
+    if (!formData.amount || (!splitLines && !formData.category) || !formData.payment_method) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (splitLines) {
+      if (splitLines.some((line) => !line.category || !(line.amount > 0))) {
+        toast.error('Each split line needs a category and an amount');
+        return;
+      }
+      if (splitLinesTotal(splitLines) !== Math.round(formData.amount * 100) / 100) {
+        toast.error('Split lines must add up to the total amount');
+        return;
+      }
+    }
+
+    // A split expense takes its category from its lines; unsplitting one clears its lines
+    const payload: Partial<ExpenseForm> = splitLines
+      ? { ...formData, category: undefined, splits: splitLines }
+      : { ...formData, splits: editingExpense?.splits?.length ? null : undefined };
+
     try {
       let savedExpense: Expense;
       if (editingExpense) {
-        const response = await expenseApi.update(editingExpense.id, formData);
+        const response = await expenseApi.update(editingExpense.id, payload);
         savedExpense = response.data.data.expense;
-        setExpenses(prev => prev.map(exp => exp.id === savedExpense.id ? savedExpense : exp));
+        setExpenses(prev => prev.map(exp => exp.id === savedExpense.id ? { ...exp, ...savedExpense } : exp));
         toast.success('Expense updated successfully');
       } else {
-        const response = await expenseApi.create(formData);
+        const response = await expenseApi.create(payload);
         savedExpense = response.data.data.expense;
+        savedExpense.attachment_count = await uploadPendingFiles(savedExpense.id);
         setExpenses(prev => [savedExpense, ...prev]);
         toast.success('Expense added successfully');
+        showBudgetAlert(response.data.data.budget_alert);
       }
       
       setIsDialogOpen(false);
@@ -109,18 +163,49 @@ export const ExpensesPage: React.FC = () => {
     }
   };
 
+  // Upload files dropped before the record existed; returns how many were stored
+  const uploadPendingFiles = async (recordId: number) => {
+    if (pendingFiles.length === 0) return 0;
+
+    try {
+      await attachmentApi.upload('expense', recordId, pendingFiles);
+      return pendingFiles.length;
+    } catch (error: any) {
+      console.error('Error uploading attachments:', error);
+      toast.error(error.response?.data?.message || 'Expense saved, but the files could not be uploaded');
+      return 0;
+    }
+  };
+
   const handleEdit = (expense: Expense) => {
     setEditingExpense(expense);
+    setPendingFiles([]);
     setFormData({
       amount: expense.amount,
       description: expense.description || '',
       category: expense.category,
       payment_method: expense.payment_method,
-      date: expense.date.split('T')[0]
+      account_id: expense.account_id ?? null,
+      vendor_id: expense.vendor_id ?? null,
+      date: expense.date.split('T')[0],
+      tags: expense.tags?.map((tag) => tag.name) || []
     });
+    setSplitLines(expense.splits?.length
+      ? expense.splits.map((line) => ({
+          category: line.category,
+          amount: Number(line.amount),
+          description: line.description || '',
+          tag: line.tag || ''
+        }))
+      : null);
     setIsDialogOpen(true);
   };
 
+  const handleExportPdf = async (startDate: string, endDate: string) => {
+    const response = await exportApi.ledgerPdf('expense', { start_date: startDate, end_date: endDate });
+    downloadFile(response.data, `expense_${startDate}_to_${endDate}.pdf`);
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm('Are you sure you want to delete this expense entry?')) return;
 
@@ -140,16 +225,42 @@ export const ExpensesPage: React.FC = () => {
       description: '',
       category: '',
       payment_method: '',
-      date: new Date().toISOString().split('T')[0]
+      account_id: null,
+      vendor_id: null,
+      date: new Date().toISOString().split('T')[0],
+      tags: []
     });
+    setSplitLines(null);
     setEditingExpense(null);
+    setPendingFiles([]);
+  };
+
+  // Start splitting from the current category and amount, with a second line for the rest
+  const startSplit = () => {
+    setSplitLines([
+      { category: formData.category, amount: formData.amount, description: '', tag: '' },
+      { category: '', amount: 0, description: '', tag: '' }
+    ]);
+  };
+
+  // Go back to a single category: that of the largest line
+  const stopSplit = () => {
+    if (splitLines && splitLines.length > 0) {
+      const largest = splitLines.reduce((max, line) => line.amount > max.amount ? line : max);
+      setFormData(prev => ({ ...prev, category: largest.category }));
+    }
+    setSplitLines(null);
   };
 
+  // Categories of an expense: its own, or each of its split lines'
+  const categoriesOf = (item: Expense) => item.splits?.length ? item.splits.map((line) => line.category) : [item.category];
+
   const filteredExpenses = expenses.filter(item => {
     const matchesSearch = item.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         item.vendor_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.payment_method.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = filterCategory === 'all' || item.category === filterCategory;
+                         categoriesOf(item).some((category) => category.toLowerCase().includes(searchTerm.toLowerCase()));
+    const matchesCategory = filterCategory === 'all' || categoriesOf(item).includes(filterCategory);
     return matchesSearch && matchesCategory;
   });
 
@@ -178,110 +289,203 @@ export const ExpensesPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Expense Management</h1>
           <p className="text-gray-600">Track and categorize your expenses</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => resetForm()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Expense
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingExpense ? 'Edit Expense' : 'Add New Expense'}
-              </DialogTitle>
-              <DialogDescription>
-                {editingExpense 
-                  ? 'Update the expense entry details below.'
-                  : 'Add a new expense entry to track your spending.'
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex space-x-2">
+          <ListExportDialog
+            title="Export Expenses"
+            path="/expenses"
+            name="expenses"
+            columns={EXPENSE_EXPORT_COLUMNS}
+            filters={{ category: filterCategory, tags: filterTags.join(',') }}
+            dateRange
+          />
+          <DateRangeExportDialog
+            title="Export Expense Ledger"
+            description="Download every expense record in the range as a PDF, with totals by category."
+            onExport={handleExportPdf}
+          />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => resetForm()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Expense
+              </Button>
+            </DialogTrigger>
+            <DialogContent className={splitLines ? 'sm:max-w-[560px] max-h-[90vh] overflow-y-auto' : 'sm:max-w-[425px]'}>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingExpense ? 'Edit Expense' : 'Add New Expense'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingExpense 
+                    ? 'Update the expense entry details below.'
+                    : 'Add a new expense entry to track your spending.'
+                  }
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="amount">Amount *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      required
+                    />
+                  </div>
+                </div>
+                
                 <div>
-                  <Label htmlFor="amount">Amount *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
-                    required
-                  />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="category">{splitLines ? 'Split Lines *' : 'Category *'}</Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={splitLines ? stopSplit : startSplit}>
+                      <Split className="mr-1 h-4 w-4" />
+                      {splitLines ? 'Single category' : 'Split'}
+                    </Button>
+                  </div>
+                  {splitLines ? (
+                    <SplitEditor
+                      lines={splitLines}
+                      onChange={setSplitLines}
+                      total={formData.amount}
+                      categories={categories}
+                      tags={tags}
+                    />
+                  ) : (
+                    <Select 
+                      value={formData.category} 
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                    >
+                      <SelectTrigger id="category">
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.name}>
+                            {category.path}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
+
                 <div>
-                  <Label htmlFor="date">Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
-                    required
+                  <Label htmlFor="payment_method">Payment Method *</Label>
+                  <Select 
+                    value={formData.payment_method} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select payment method" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="account_id">Paid From Account</Label>
+                  <Select 
+                    value={formData.account_id ? formData.account_id.toString() : 'none'} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.account_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="vendor_id">Vendor</Label>
+                  <Select 
+                    value={formData.vendor_id ? formData.vendor_id.toString() : 'none'} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, vendor_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger id="vendor_id">
+                      <SelectValue placeholder="Select a vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No vendor</SelectItem>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                          {vendor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={formData.tags || []}
+                    onChange={(value) => setFormData(prev => ({ ...prev, tags: value }))}
+                    suggestions={tags}
+                    placeholder="e.g., reimbursable, tax-deductible"
                   />
                 </div>
-              </div>
-              
-              <div>
-                <Label htmlFor="category">Category *</Label>
-                <Select 
-                  value={formData.category} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.name}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
 
-              <div>
-                <Label htmlFor="payment_method">Payment Method *</Label>
-                <Select 
-                  value={formData.payment_method} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select payment method" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {paymentMethods.map((method) => (
-                      <SelectItem key={method} value={method}>
-                        {method}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="What was this expense for?"
+                    rows={3}
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="What was this expense for?"
-                  rows={3}
-                />
-              </div>
+                <div>
+                  <Label>Receipts & Documents</Label>
+                  <AttachmentDropzone
+                    recordType="expense"
+                    recordId={editingExpense ? editingExpense.id : null}
+                    pendingFiles={pendingFiles}
+                    onPendingFilesChange={setPendingFiles}
+                    onCountChange={(count) => editingExpense && setExpenses(prev => prev.map(item => item.id === editingExpense.id ? { ...item, attachment_count: count } : item))}
+                  />
+                </div>
 
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingExpense ? 'Update' : 'Add'} Expense
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingExpense ? 'Update' : 'Add'} Expense
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -365,12 +569,23 @@ export const ExpensesPage: React.FC = () => {
                   <SelectItem value="all">All Categories</SelectItem>
                   {categories.map((category) => (
                     <SelectItem key={category.id} value={category.name}>
-                      {category.name}
+                      {category.path}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+            <div className="w-full sm:w-64">
+              <Label htmlFor="filter-tags">Tags</Label>
+              <TagInput
+                id="filter-tags"
+                value={filterTags}
+                onChange={setFilterTags}
+                suggestions={tags}
+                placeholder="Filter by tags"
+                existingOnly
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -392,6 +607,7 @@ export const ExpensesPage: React.FC = () => {
                   <TableHead>Amount</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Payment Method</TableHead>
+                  <TableHead>Tags</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -399,7 +615,7 @@ export const ExpensesPage: React.FC = () => {
               <TableBody>
                 {filteredExpenses.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <div className="flex flex-col items-center">
                         <Receipt className="h-12 w-12 text-gray-400 mb-2" />
                         <p className="text-gray-500">No expense entries found</p>
@@ -417,9 +633,20 @@ export const ExpensesPage: React.FC = () => {
                         {formatCurrency(item.amount)}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary">
-                          {item.category}
-                        </Badge>
+                        {item.splits?.length ? (
+                          <div className="space-y-1">
+                            <Badge variant="outline">Split ({item.splits.length})</Badge>
+                            {item.splits.map((line) => (
+                              <div key={line.id} className="text-xs text-gray-600">
+                                {line.category}: {formatCurrency(Number(line.amount))}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <Badge variant="secondary">
+                            {item.category}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center">
@@ -428,7 +655,22 @@ export const ExpensesPage: React.FC = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {item.description || '-'}
+                        <TagChips
+                          tags={item.tags}
+                          onSelect={(name) => !filterTags.includes(name) && setFilterTags([...filterTags, name])}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {item.vendor_name && <div className="text-xs text-gray-500">{item.vendor_name}</div>}
+                        <div className="flex items-center">
+                          {item.description || '-'}
+                          {Number(item.attachment_count) > 0 && (
+                            <span className="ml-2 flex items-center text-xs text-gray-500" title="Attachments">
+                              <Paperclip className="h-3 w-3 mr-0.5" />
+                              {item.attachment_count}
+                            </span>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
@@ -0,0 +1,561 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Checkbox } from '../components/ui/checkbox';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Upload, FileSpreadsheet, CheckCircle, AlertTriangle, Undo2 } from 'lucide-react';
+import { importApi, categoryApi, accountApi } from '../lib/api';
+import {
+  Account,
+  Category,
+  ImportBatch,
+  ImportDateFormat,
+  ImportDecimalFormat,
+  ImportParseResult,
+  ImportPreviewRow,
+  ImportRecordType,
+  ImportSummary
+} from '../lib/types';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { PlainTextImportCard } from '../components/Import/PlainTextImportCard';
+import toast from 'react-hot-toast';
+
+const FIELD_LABELS: Record<string, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  category: 'Category',
+  source: 'Source',
+  payment_method: 'Payment Method',
+  account: 'Account'
+};
+
+const REQUIRED_FIELDS = ['date', 'amount'];
+
+const paymentMethods = [
+  'Cash',
+  'Credit Card',
+  'Debit Card',
+  'Bank Transfer',
+  'Check',
+  'PayPal',
+  'Mobile Payment',
+  'Other'
+];
+
+// Largest number of preview rows rendered at once
+const PREVIEW_ROW_LIMIT = 500;
+
+// Guess the column for each field from header names such as "Amount" or "Payment method"
+const guessMapping = (headers: string[], fields: string[]): Record<string, number | null> => {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z]/g, ''));
+  return Object.fromEntries(fields.map((field) => {
+    const candidates = [field.replace(/_/g, ''), FIELD_LABELS[field].toLowerCase().replace(/[^a-z]/g, '')];
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    return [field, index >= 0 ? index : null];
+  }));
+};
+
+export const ImportPage: React.FC = () => {
+  const [recordType, setRecordType] = useState<ImportRecordType>('expense');
+  const [file, setFile] = useState<File | null>(null);
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [decimalFormat, setDecimalFormat] = useState<ImportDecimalFormat>('dot');
+  const [defaultCategory, setDefaultCategory] = useState('');
+  const [defaultPaymentMethod, setDefaultPaymentMethod] = useState('Cash');
+  const [defaultAccountId, setDefaultAccountId] = useState<number | null>(null);
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[] | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [recordType]);
+
+  const loadData = async () => {
+    try {
+      const [accountsResponse, batchesResponse] = await Promise.all([
+        accountApi.getAll(),
+        importApi.getBatches()
+      ]);
+
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setBatches(batchesResponse.data.data.batches || []);
+    } catch (error) {
+      console.error('Error loading import data:', error);
+      toast.error('Failed to load import history');
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getAll({ type: recordType });
+      setCategories(response.data.data.categories || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const fields = parsed ? parsed.fields[recordType] : [];
+
+  const importOptions = () => ({
+    record_type: recordType,
+    rows: parsed?.rows || [],
+    mapping,
+    date_format: dateFormat,
+    decimal_format: decimalFormat,
+    defaults: {
+      category: defaultCategory || undefined,
+      payment_method: recordType === 'expense' ? defaultPaymentMethod : undefined,
+      account_id: defaultAccountId
+    }
+  });
+
+  const resetPreview = () => {
+    setPreviewRows(null);
+    setSummary(null);
+  };
+
+  const handleRecordTypeChange = (value: ImportRecordType) => {
+    setRecordType(value);
+    setDefaultCategory('');
+    if (parsed) {
+      setMapping(guessMapping(parsed.headers, parsed.fields[value]));
+    }
+    resetPreview();
+  };
+
+  const handleParse = async () => {
+    if (!file) {
+      toast.error('Choose a CSV or Excel file first');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const response = await importApi.parse(file);
+      const result: ImportParseResult = response.data.data;
+      setParsed(result);
+      setMapping(guessMapping(result.headers, result.fields[recordType]));
+      resetPreview();
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      toast.error(error.response?.data?.message || 'Failed to read file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (REQUIRED_FIELDS.some((field) => mapping[field] === null || mapping[field] === undefined)) {
+      toast.error('Map a column to the date and the amount');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const response = await importApi.preview(importOptions());
+      setPreviewRows(response.data.data.rows);
+      setSummary(response.data.data.summary);
+      setShowErrorsOnly(response.data.data.summary.invalid_rows > 0);
+    } catch (error: any) {
+      console.error('Error previewing import:', error);
+      toast.error(error.response?.data?.message || 'Failed to preview import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!summary) return;
+
+    try {
+      setIsWorking(true);
+      const response = await importApi.commit({
+        ...importOptions(),
+        file_name: parsed?.file_name,
+        skip_invalid: skipInvalid
+      });
+      toast.success(response.data.message);
+      setParsed(null);
+      setFile(null);
+      resetPreview();
+      loadData();
+    } catch (error: any) {
+      console.error('Error importing records:', error);
+      toast.error(error.response?.data?.message || 'Failed to import records');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!confirm(`Roll back this import? All ${batch.row_count} ${batch.record_type} record(s) it created will be deleted.`)) return;
+
+    try {
+      const response = await importApi.rollback(batch.id);
+      toast.success(response.data.message);
+      loadData();
+    } catch (error: any) {
+      console.error('Error rolling back import:', error);
+      toast.error(error.response?.data?.message || 'Failed to roll back import');
+    }
+  };
+
+  const visibleRows = (previewRows || []).filter((row) => !showErrorsOnly || row.errors.length > 0);
+  const accountName = (accountId: number | null) => accounts.find((account) => account.id === accountId)?.account_name || '-';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Import Records</h1>
+        <p className="text-gray-600">Bring income and expense history in from CSV, Excel or plain-text accounting files</p>
+      </div>
+
+      {/* Upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5" />
+            1. Choose a File
+          </CardTitle>
+          <CardDescription>The first row must hold the column headings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="record_type">Import As</Label>
+              <Select value={recordType} onValueChange={(value) => handleRecordTypeChange(value as ImportRecordType)}>
+                <SelectTrigger id="record_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="expense">Expenses</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import_file">File (.csv or .xlsx)</Label>
+              <Input
+                id="import_file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <Button onClick={handleParse} disabled={!file || isWorking}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Read File
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Column mapping */}
+      {parsed && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+            <CardDescription>
+              {parsed.file_name}: {parsed.rows.length} row(s), {parsed.headers.length} column(s)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {fields.map((field) => (
+                <div key={field}>
+                  <Label>
+                    {FIELD_LABELS[field] || field}
+                    {REQUIRED_FIELDS.includes(field) && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null || mapping[field] === undefined ? 'none' : String(mapping[field])}
+                    onValueChange={(value) => {
+                      setMapping((prev) => ({ ...prev, [field]: value === 'none' ? null : Number(value) }));
+                      resetPreview();
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not imported</SelectItem>
+                      {parsed.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value) => { setDateFormat(value as ImportDateFormat); resetPreview(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Decimal Separator</Label>
+                <Select value={decimalFormat} onValueChange={(value) => { setDecimalFormat(value as ImportDecimalFormat); resetPreview(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dot">Dot (1,234.50)</SelectItem>
+                    <SelectItem value="comma">Comma (1.234,50)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Default Account</Label>
+                <Select
+                  value={defaultAccountId ? defaultAccountId.toString() : 'none'}
+                  onValueChange={(value) => { setDefaultAccountId(value === 'none' ? null : Number(value)); resetPreview(); }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.account_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Default Category</Label>
+                <Select
+                  value={defaultCategory || 'none'}
+                  onValueChange={(value) => { setDefaultCategory(value === 'none' ? '' : value); resetPreview(); }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {recordType === 'expense' && (
+                <div>
+                  <Label>Default Payment Method</Label>
+                  <Select value={defaultPaymentMethod} onValueChange={(value) => { setDefaultPaymentMethod(value); resetPreview(); }}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Defaults apply when a column is not imported or its cell is empty. Accounts in the file are matched by name.
+            </p>
+
+            <Button onClick={handlePreview} disabled={isWorking}>
+              Preview Import
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dry-run preview */}
+      {previewRows && summary && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review and Import</CardTitle>
+            <CardDescription>Nothing has been saved yet</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{summary.total_rows} rows</Badge>
+              <Badge className="bg-green-100 text-green-800">
+                <CheckCircle className="mr-1 h-3 w-3" />
+                {summary.valid_rows} valid
+              </Badge>
+              {summary.invalid_rows > 0 && (
+                <Badge className="bg-red-100 text-red-800">
+                  <AlertTriangle className="mr-1 h-3 w-3" />
+                  {summary.invalid_rows} with errors
+                </Badge>
+              )}
+              <span className="text-sm text-gray-600 ml-2">Total {formatCurrency(summary.total_amount)}</span>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="show_errors_only"
+                checked={showErrorsOnly}
+                onCheckedChange={(checked) => setShowErrorsOnly(checked === true)}
+              />
+              <Label htmlFor="show_errors_only" className="font-normal">Only show rows with errors</Label>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                  <TableRow key={row.row_number} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <TableCell>{row.row_number}</TableCell>
+                    <TableCell>{row.values.date || '-'}</TableCell>
+                    <TableCell>{row.values.description || '-'}</TableCell>
+                    <TableCell>{row.values.category || '-'}</TableCell>
+                    <TableCell>{accountName(row.values.account_id)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.values.amount !== undefined ? formatCurrency(Number(row.values.amount)) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {row.errors.length === 0 ? (
+                        <Badge className="bg-green-100 text-green-800">OK</Badge>
+                      ) : (
+                        <ul className="text-sm text-red-600 list-disc pl-4">
+                          {row.errors.map((error) => <li key={error}>{error}</li>)}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {visibleRows.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-sm text-gray-500">
+                Showing the first {PREVIEW_ROW_LIMIT} of {visibleRows.length} rows
+              </p>
+            )}
+
+            {summary.invalid_rows > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skip_invalid"
+                  checked={skipInvalid}
+                  onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                />
+                <Label htmlFor="skip_invalid" className="font-normal">
+                  Skip the {summary.invalid_rows} row(s) with errors and import the rest
+                </Label>
+              </div>
+            )}
+
+            <Button
+              onClick={handleCommit}
+              disabled={isWorking || summary.valid_rows === 0 || (summary.invalid_rows > 0 && !skipInvalid)}
+            >
+              Import {summary.valid_rows} Record(s)
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Plain-text accounting journals */}
+      <PlainTextImportCard />
+
+      {/* Import history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Import History</CardTitle>
+          <CardDescription>Rolling back an import deletes every record it created</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No imports yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell>{formatDate(batch.created_at)}</TableCell>
+                    <TableCell>{batch.file_name || '-'}</TableCell>
+                    <TableCell className="capitalize">{batch.record_type}</TableCell>
+                    <TableCell className="text-right">{batch.row_count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(batch.total_amount))}</TableCell>
+                    <TableCell>
+                      {batch.status === 'completed' ? (
+                        <Badge className="bg-green-100 text-green-800">Imported</Badge>
+                      ) : (
+                        <Badge variant="outline">Rolled back {batch.rolled_back_at ? formatDate(batch.rolled_back_at) : ''}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.status === 'completed' && (
+                        <Button variant="outline" size="sm" onClick={() => handleRollback(batch)}>
+                          <Undo2 className="mr-1 h-4 w-4" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ImportPage;
@@ -20,40 +20,67 @@ import {
   Trash2,
   Eye
 } from 'lucide-react';
-import { incomeApi, categoryApi } from '../lib/api';
-import { Income, IncomeForm, Category } from '../lib/types';
+import { incomeApi, categoryApi, accountApi, exportApi, tagApi } from '../lib/api';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { Income, IncomeForm, Category, Account, ExportColumnOption, Tag as TagRecord } from '../lib/types';
+import { TagInput } from '../components/Tags/TagInput';
+import { TagChips } from '../components/Tags/TagChips';
+import { DateRangeExportDialog } from '../components/Export/DateRangeExportDialog';
+import { downloadFile } from '../lib/utils';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const INCOME_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'source', label: 'Source' },
+  { key: 'account_name', label: 'Account' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'charity_rate', label: 'Charity Rate (%)' },
+  { key: 'charity_required', label: 'Charity Required' }
+];
+
 export const IncomePage: React.FC = () => {
   const [income, setIncome] = useState<Income[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [tags, setTags] = useState<TagRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingIncome, setEditingIncome] = useState<Income | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
   const [formData, setFormData] = useState<IncomeForm>({
     amount: 0,
     description: '',
     category: '',
     source: '',
-    date: new Date().toISOString().split('T')[0]
+    account_id: null,
+    date: new Date().toISOString().split('T')[0],
+    tags: []
   });
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [filterTags]);
 
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const [incomeResponse, categoriesResponse] = await Promise.all([
-        incomeApi.getAll(),
-        categoryApi.getAll({ type: 'income' })
+      const [incomeResponse, categoriesResponse, accountsResponse, tagsResponse] = await Promise.all([
+        incomeApi.getAll({ tags: filterTags.join(',') || undefined }),
+        categoryApi.getAll({ type: 'income' }),
+        accountApi.getAll(),
+        tagApi.getAll()
       ]);
       
       setIncome(incomeResponse.data.data.income || []);
       setCategories(categoriesResponse.data.data.categories || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setTags(tagsResponse.data.data.tags || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load income data');
@@ -96,11 +123,18 @@ export const IncomePage: React.FC = () => {
       description: income.description || '',
       category: income.category,
       source: income.source || '',
-      date: income.date.split('T')[0]
+      account_id: income.account_id ?? null,
+      date: income.date.split('T')[0],
+      tags: income.tags?.map((tag) => tag.name) || []
     });
     setIsDialogOpen(true);
   };
 
+  const handleExportPdf = async (startDate: string, endDate: string) => {
+    const response = await exportApi.ledgerPdf('income', { start_date: startDate, end_date: endDate });
+    downloadFile(response.data, `income_${startDate}_to_${endDate}.pdf`);
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm('Are you sure you want to delete this income entry?')) return;
 
@@ -120,7 +154,9 @@ export const IncomePage: React.FC = () => {
       description: '',
       category: '',
       source: '',
-      date: new Date().toISOString().split('T')[0]
+      account_id: null,
+      date: new Date().toISOString().split('T')[0],
+      tags: []
     });
     setEditingIncome(null);
   };
@@ -158,101 +194,147 @@ export const IncomePage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Income Management</h1>
           <p className="text-gray-600">Track and manage your income sources</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => resetForm()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Income
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingIncome ? 'Edit Income' : 'Add New Income'}
-              </DialogTitle>
-              <DialogDescription>
-                {editingIncome 
-                  ? 'Update the income entry details below.'
-                  : 'Add a new income entry to track your earnings.'
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex space-x-2">
+          <ListExportDialog
+            title="Export Income"
+            path="/income"
+            name="income"
+            columns={INCOME_EXPORT_COLUMNS}
+            filters={{ category: filterCategory, tags: filterTags.join(',') }}
+            dateRange
+          />
+          <DateRangeExportDialog
+            title="Export Income Ledger"
+            description="Download every income record in the range as a PDF, with totals by category."
+            onExport={handleExportPdf}
+          />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => resetForm()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Income
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingIncome ? 'Edit Income' : 'Add New Income'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingIncome 
+                    ? 'Update the income entry details below.'
+                    : 'Add a new income entry to track your earnings.'
+                  }
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="amount">Amount *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      required
+                    />
+                  </div>
+                </div>
+                
                 <div>
-                  <Label htmlFor="amount">Amount *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
-                    required
-                  />
+                  <Label htmlFor="category">Category *</Label>
+                  <Select 
+                    value={formData.category} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.name}>
+                          {category.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+
                 <div>
-                  <Label htmlFor="date">Date *</Label>
+                  <Label htmlFor="source">Source</Label>
                   <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
-                    required
+                    id="source"
+                    value={formData.source}
+                    onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
+                    placeholder="e.g., Salary, Freelance, etc."
                   />
                 </div>
-              </div>
-              
-              <div>
-                <Label htmlFor="category">Category *</Label>
-                <Select 
-                  value={formData.category} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.name}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
 
-              <div>
-                <Label htmlFor="source">Source</Label>
-                <Input
-                  id="source"
-                  value={formData.source}
-                  onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
-                  placeholder="e.g., Salary, Freelance, etc."
-                />
-              </div>
+                <div>
+                  <Label htmlFor="account_id">Deposited To Account</Label>
+                  <Select 
+                    value={formData.account_id ? formData.account_id.toString() : 'none'} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.account_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Optional description..."
-                  rows={3}
-                />
-              </div>
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={formData.tags || []}
+                    onChange={(value) => setFormData(prev => ({ ...prev, tags: value }))}
+                    suggestions={tags}
+                    placeholder="e.g., reimbursable, tax-deductible"
+                  />
+                </div>
 
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingIncome ? 'Update' : 'Add'} Income
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="Optional description..."
+                    rows={3}
+                  />
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingIncome ? 'Update' : 'Add'} Income
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -336,12 +418,23 @@ export const IncomePage: React.FC = () => {
                   <SelectItem value="all">All Categories</SelectItem>
                   {categories.map((category) => (
                     <SelectItem key={category.id} value={category.name}>
-                      {category.name}
+                      {category.path}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+            <div className="w-full sm:w-64">
+              <Label htmlFor="filter-tags">Tags</Label>
+              <TagInput
+                id="filter-tags"
+                value={filterTags}
+                onChange={setFilterTags}
+                suggestions={tags}
+                placeholder="Filter by tags"
+                existingOnly
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -363,6 +456,7 @@ export const IncomePage: React.FC = () => {
                   <TableHead>Amount</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Source</TableHead>
+                  <TableHead>Tags</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -370,7 +464,7 @@ export const IncomePage: React.FC = () => {
               <TableBody>
                 {filteredIncome.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <div className="flex flex-col items-center">
                         <TrendingUp className="h-12 w-12 text-gray-400 mb-2" />
                         <p className="text-gray-500">No income entries found</p>
@@ -395,6 +489,12 @@ export const IncomePage: React.FC = () => {
                       <TableCell>
                         {item.source || '-'}
                       </TableCell>
+                      <TableCell>
+                        <TagChips
+                          tags={item.tags}
+                          onSelect={(name) => !filterTags.includes(name) && setFilterTags([...filterTags, name])}
+                        />
+                      </TableCell>
                       <TableCell>
                         {item.description || '-'}
                       </TableCell>
@@ -0,0 +1,726 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  FileText,
+  Send,
+  Wallet,
+  Ban,
+  Eye,
+  Download,
+  Settings,
+  Clock,
+  AlertTriangle,
+  CheckCircle,
+  Undo2
+} from 'lucide-react';
+import { accountApi, categoryApi, customerApi, invoiceApi, saleApi } from '../lib/api';
+import {
+  Account,
+  Category,
+  Customer,
+  Invoice,
+  InvoiceForm,
+  InvoicePaymentForm,
+  InvoiceSettings,
+  InvoicesSummary,
+  StockLot
+} from '../lib/types';
+import { downloadFile } from '../lib/utils';
+import { InvoiceLineEditor } from '../components/Invoices/InvoiceLineEditor';
+import { InvoiceSettingsDialog } from '../components/Invoices/InvoiceSettingsDialog';
+import toast from 'react-hot-toast';
+
+const PAYMENT_METHODS = ['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'];
+
+const statusOptions = [
+  { value: 'draft', label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  { value: 'sent', label: 'Sent', color: 'bg-blue-100 text-blue-800' },
+  { value: 'paid', label: 'Paid', color: 'bg-green-100 text-green-800' },
+  { value: 'void', label: 'Void', color: 'bg-red-100 text-red-800' }
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): InvoiceForm => ({
+  customer_id: null,
+  issue_date: today(),
+  due_date: '',
+  notes: '',
+  items: [{ description: '', purchase_category: null, quantity: 1, unit_price: 0, discount_percent: 0, tax_rate: 0 }]
+});
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+export const InvoicesPage: React.FC = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [summary, setSummary] = useState<InvoicesSummary | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [saleCategories, setSaleCategories] = useState<Category[]>([]);
+  const [stockCategories, setStockCategories] = useState<string[]>([]);
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterCustomer, setFilterCustomer] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [formData, setFormData] = useState<InvoiceForm>(emptyForm());
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [paymentData, setPaymentData] = useState<InvoicePaymentForm>({ paid_date: today(), payment_method: 'Cash', account_id: null });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [filterStatus, filterCustomer]);
+
+  const loadReferenceData = async () => {
+    try {
+      const [customersResponse, accountsResponse, incomeResponse, saleResponse, stockResponse, settingsResponse] = await Promise.all([
+        customerApi.getAll(),
+        accountApi.getAll(),
+        categoryApi.getAll({ type: 'income' }),
+        categoryApi.getAll({ type: 'sale' }),
+        saleApi.getAvailablePurchases(),
+        invoiceApi.getSettings()
+      ]);
+      setCustomers(customersResponse.data.data.customers || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setIncomeCategories(incomeResponse.data.data.categories || []);
+      setSaleCategories(saleResponse.data.data.categories || []);
+      const lots: StockLot[] = stockResponse.data.data.purchases || [];
+      setStockCategories(Array.from(new Set(lots.map((lot) => lot.category))));
+      setSettings(settingsResponse.data.data.settings);
+    } catch (error) {
+      console.error('Error loading data:', error);
+      toast.error('Failed to load customers and accounts');
+    }
+  };
+
+  const loadInvoices = async () => {
+    try {
+      setIsLoading(true);
+      const response = await invoiceApi.getAll({
+        // Overdue is a sent invoice past its due date rather than a status of its own
+        status: filterStatus === 'all' || filterStatus === 'overdue' ? undefined : filterStatus,
+        overdue: filterStatus === 'overdue' ? true : undefined,
+        customer_id: filterCustomer === 'all' ? undefined : filterCustomer
+      });
+      setInvoices(response.data.data.invoices || []);
+      setSummary(response.data.data.summary || null);
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+      toast.error('Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.customer_id || !formData.issue_date) {
+      toast.error('Please choose a customer and issue date');
+      return;
+    }
+
+    if (formData.items.some((item) => !item.description.trim() || item.quantity <= 0)) {
+      toast.error('Each line needs a description and a quantity');
+      return;
+    }
+
+    if (formData.due_date && formData.due_date < formData.issue_date) {
+      toast.error('Due date cannot be before the issue date');
+      return;
+    }
+
+    try {
+      if (editingInvoice) {
+        await invoiceApi.update(editingInvoice.id, formData);
+        toast.success('Invoice updated successfully');
+      } else {
+        await invoiceApi.create(formData);
+        toast.success('Draft invoice created');
+      }
+
+      setIsDialogOpen(false);
+      setEditingInvoice(null);
+      setFormData(emptyForm());
+      loadInvoices();
+    } catch (error: any) {
+      console.error('Error saving invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to save invoice');
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingInvoice(null);
+    setFormData(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = async (invoice: Invoice) => {
+    try {
+      const response = await invoiceApi.getById(invoice.id);
+      const current: Invoice = response.data.data.invoice;
+      setEditingInvoice(current);
+      setFormData({
+        customer_id: current.customer_id,
+        issue_date: current.issue_date.split('T')[0],
+        due_date: current.due_date.split('T')[0],
+        notes: current.notes || '',
+        items: (current.items || []).map((item) => ({
+          description: item.description,
+          purchase_category: item.purchase_category,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+          discount_percent: Number(item.discount_percent),
+          tax_rate: Number(item.tax_rate)
+        }))
+      });
+      setIsDialogOpen(true);
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast.error('Failed to load invoice');
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!window.confirm('Delete this draft invoice?')) {
+      return;
+    }
+
+    try {
+      await invoiceApi.delete(invoice.id);
+      toast.success('Invoice deleted successfully');
+      loadInvoices();
+    } catch (error: any) {
+      console.error('Error deleting invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete invoice');
+    }
+  };
+
+  const handleSend = async (invoice: Invoice) => {
+    if (!window.confirm('Mark this invoice as sent? It will be numbered and can no longer be edited.')) {
+      return;
+    }
+
+    try {
+      const response = await invoiceApi.send(invoice.id);
+      toast.success(response.data.message || 'Invoice marked as sent');
+      loadInvoices();
+      loadReferenceData();
+    } catch (error: any) {
+      console.error('Error sending invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to send invoice');
+    }
+  };
+
+  const handleVoid = async (invoice: Invoice) => {
+    if (!window.confirm(`Void invoice ${invoice.invoice_number}? It keeps its number but will no longer be owed.`)) {
+      return;
+    }
+
+    try {
+      await invoiceApi.void(invoice.id);
+      toast.success('Invoice voided');
+      loadInvoices();
+    } catch (error: any) {
+      console.error('Error voiding invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to void invoice');
+    }
+  };
+
+  const openPayment = (invoice: Invoice) => {
+    setPayingInvoice(invoice);
+    setPaymentData({ paid_date: today(), payment_method: 'Cash', account_id: null });
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingInvoice) return;
+
+    try {
+      const response = await invoiceApi.pay(payingInvoice.id, paymentData);
+      toast.success(response.data.message || 'Invoice marked as paid');
+      setPayingInvoice(null);
+      loadInvoices();
+      loadReferenceData();
+    } catch (error: any) {
+      console.error('Error paying invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to record payment');
+    }
+  };
+
+  const handleUnpay = async (invoice: Invoice) => {
+    if (!window.confirm(`Undo the payment of invoice ${invoice.invoice_number}? The sales and income it recorded will be deleted and the invoice will be open again.`)) {
+      return;
+    }
+
+    try {
+      const response = await invoiceApi.unpay(invoice.id);
+      toast.success(response.data.message || 'Invoice payment undone');
+      loadInvoices();
+      loadReferenceData();
+    } catch (error: any) {
+      console.error('Error undoing invoice payment:', error);
+      toast.error(error.response?.data?.message || 'Failed to undo payment');
+    }
+  };
+
+  // Open the printable page in a new tab; the tab is opened first so it isn't blocked as a pop-up
+  const handleView = async (invoice: Invoice) => {
+    const preview = window.open('', '_blank');
+    try {
+      const response = await invoiceApi.getHtml(invoice.id);
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'text/html' }));
+      if (preview) {
+        preview.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      preview?.close();
+      console.error('Error opening invoice:', error);
+      toast.error('Failed to open invoice');
+    }
+  };
+
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    try {
+      const response = await invoiceApi.downloadPdf(invoice.id);
+      downloadFile(response.data, `${invoice.invoice_number || `draft_invoice_${invoice.id}`}.pdf`);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast.error('Failed to download invoice');
+    }
+  };
+
+  const isOverdue = (invoice: Invoice) => {
+    return invoice.status === 'sent' && invoice.due_date.split('T')[0] < today();
+  };
+
+  const filteredInvoices = invoices.filter(invoice => {
+    const term = searchTerm.toLowerCase();
+    return invoice.customer_name.toLowerCase().includes(term) ||
+      invoice.invoice_number?.toLowerCase().includes(term) ||
+      invoice.notes?.toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+          <p className="text-gray-600">Invoices to your customers, recorded as sales and income when paid</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsSettingsOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            Settings
+          </Button>
+          <Button onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Invoice
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingInvoice ? 'Edit Draft Invoice' : 'New Invoice'}</DialogTitle>
+            <DialogDescription>
+              Drafts can be changed until they are sent
+              {settings ? `; the next number is ${settings.next_invoice_number}.` : '.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="customer_id">Customer *</Label>
+              <Select
+                value={formData.customer_id ? formData.customer_id.toString() : ''}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, customer_id: Number(value) }))}
+              >
+                <SelectTrigger id="customer_id">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="issue_date">Issue Date *</Label>
+                <Input
+                  type="date"
+                  id="issue_date"
+                  value={formData.issue_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, issue_date: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="due_date">Due Date</Label>
+                <Input
+                  type="date"
+                  id="due_date"
+                  value={formData.due_date || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
+                />
+                {!formData.due_date && settings && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {settings.payment_terms_days > 0
+                      ? `${settings.payment_terms_days} days after the issue date`
+                      : 'Due on the issue date'}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label>Line Items *</Label>
+              <InvoiceLineEditor
+                lines={formData.items}
+                onChange={(items) => setFormData(prev => ({ ...prev, items }))}
+                stockCategories={stockCategories}
+              />
+            </div>
+            <div>
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={formData.notes || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                placeholder="Printed on the invoice"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingInvoice ? 'Update' : 'Save'} Draft
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(summary?.outstanding || 0))}</div>
+            <p className="text-xs text-muted-foreground">On sent invoices</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${Number(summary?.overdue || 0) > 0 ? 'text-red-600' : ''}`}>
+              {formatCurrency(Number(summary?.overdue || 0))}
+            </div>
+            <p className="text-xs text-muted-foreground">Past the due date</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Paid</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(Number(summary?.paid || 0))}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.draft_count || 0}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Invoices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search invoices..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={filterStatus} onValueChange={setFilterStatus}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                {statusOptions.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterCustomer} onValueChange={setFilterCustomer}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All customers</SelectItem>
+                {customers.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id.toString()}>
+                    {customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredInvoices.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <div className="flex flex-col items-center gap-2">
+                          <FileText className="h-8 w-8 text-gray-400" />
+                          <span className="text-gray-500">No invoices found</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredInvoices.map((invoice) => (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="font-medium">{invoice.invoice_number || 'Draft'}</TableCell>
+                        <TableCell>{invoice.customer_name}</TableCell>
+                        <TableCell>
+                          <div className="text-sm">Issued {new Date(invoice.issue_date).toLocaleDateString()}</div>
+                          {invoice.status === 'paid' && invoice.paid_date ? (
+                            <div className="text-sm text-gray-500">Paid {new Date(invoice.paid_date).toLocaleDateString()}</div>
+                          ) : (
+                            <div className={`text-sm ${isOverdue(invoice) ? 'font-medium text-red-600' : 'text-gray-500'}`}>
+                              Due {new Date(invoice.due_date).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{formatCurrency(Number(invoice.total))}</div>
+                          {Number(invoice.tax_total) > 0 && (
+                            <div className="text-sm text-gray-500">incl. {formatCurrency(Number(invoice.tax_total))} tax</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusOptions.find(s => s.value === invoice.status)?.color}>
+                            {statusOptions.find(s => s.value === invoice.status)?.label}
+                          </Badge>
+                          {isOverdue(invoice) && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => handleView(invoice)} title="View">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDownloadPdf(invoice)} title="Download PDF">
+                              <Download className="h-4 w-4" />
+                            </Button>
+                            {invoice.status === 'draft' && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => handleSend(invoice)} title="Mark as sent">
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleEdit(invoice)} title="Edit">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {(invoice.status === 'draft' || invoice.status === 'sent') && (
+                              <Button variant="ghost" size="sm" onClick={() => openPayment(invoice)} title="Record payment">
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {invoice.status === 'paid' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleUnpay(invoice)} title="Undo payment">
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {invoice.status === 'sent' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleVoid(invoice)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Void"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {invoice.status === 'draft' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(invoice)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Record payment */}
+      <Dialog open={payingInvoice !== null} onOpenChange={(open) => !open && setPayingInvoice(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              {payingInvoice && `${payingInvoice.invoice_number || 'This draft'} for ${formatCurrency(Number(payingInvoice.total))} from ${payingInvoice.customer_name}. `}
+              Lines sold from stock are recorded as sales and the rest as income.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handlePay} className="space-y-4">
+            <div>
+              <Label htmlFor="paid_date">Paid Date *</Label>
+              <Input
+                type="date"
+                id="paid_date"
+                value={paymentData.paid_date}
+                onChange={(e) => setPaymentData(prev => ({ ...prev, paid_date: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="payment_method">Payment Method</Label>
+              <Select
+                value={paymentData.payment_method}
+                onValueChange={(value) => setPaymentData(prev => ({ ...prev, payment_method: value }))}
+              >
+                <SelectTrigger id="payment_method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="account_id">Received Into</Label>
+              <Select
+                value={paymentData.account_id ? paymentData.account_id.toString() : 'none'}
+                onValueChange={(value) => setPaymentData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+              >
+                <SelectTrigger id="account_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.account_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPayingInvoice(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Mark as Paid</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <InvoiceSettingsDialog
+        open={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        incomeCategories={incomeCategories}
+        saleCategories={saleCategories}
+        onSaved={setSettings}
+      />
+    </div>
+  );
+};
+
+export default InvoicesPage;
@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
+import {
+  BookOpen,
+  Scale,
+  AlertTriangle,
+  CheckCircle,
+  RefreshCw
+} from 'lucide-react';
+import { ledgerApi } from '../lib/api';
+import { JournalEntry, OutOfBalanceAccount, TrialBalance } from '../lib/types';
+import { formatCurrency } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  asset: 'Asset',
+  liability: 'Liability',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expense'
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  income: 'Income',
+  charity: 'Charity',
+  charity_payment: 'Charity payment',
+  expense: 'Expense',
+  purchase: 'Purchase',
+  sale: 'Sale',
+  transfer: 'Transfer',
+  loan: 'Loan',
+  loan_payment: 'Loan payment',
+  adjustment: 'Adjustment'
+};
+
+export const LedgerPage: React.FC = () => {
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
+  const [outOfBalance, setOutOfBalance] = useState<OutOfBalanceAccount[]>([]);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  useEffect(() => {
+    loadTrialBalance();
+  }, [asOf]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [currentPage, sourceFilter]);
+
+  useEffect(() => {
+    loadOutOfBalance();
+  }, []);
+
+  const loadTrialBalance = async () => {
+    try {
+      setIsLoading(true);
+      const response = await ledgerApi.getTrialBalance({ as_of: asOf });
+      setTrialBalance(response.data.data);
+    } catch (error) {
+      console.error('Error loading trial balance:', error);
+      toast.error('Failed to load trial balance');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadOutOfBalance = async () => {
+    try {
+      const response = await ledgerApi.getAccounts();
+      setOutOfBalance(response.data.data.out_of_balance || []);
+    } catch (error) {
+      console.error('Error loading ledger accounts:', error);
+    }
+  };
+
+  const loadEntries = async () => {
+    try {
+      const response = await ledgerApi.getEntries({
+        page: currentPage,
+        limit: 20,
+        source_type: sourceFilter === 'all' ? undefined : sourceFilter
+      });
+      setEntries(response.data.data.entries || []);
+      setTotalPages(response.data.data.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Error loading journal entries:', error);
+      toast.error('Failed to load journal entries');
+    }
+  };
+
+  const handleRebuild = async () => {
+    if (!confirm('Rebuild the journal from your records? Account balances will be reset to the journal totals.')) return;
+
+    try {
+      setIsRebuilding(true);
+      const response = await ledgerApi.rebuild();
+      const result = response.data.data;
+      toast.success(`Ledger rebuilt: ${result.entries} entries, ${result.balances_corrected} balances corrected`);
+      loadTrialBalance();
+      loadOutOfBalance();
+      loadEntries();
+    } catch (error: any) {
+      console.error('Error rebuilding ledger:', error);
+      toast.error(error.response?.data?.message || 'Failed to rebuild ledger');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const accounts = trialBalance?.accounts || [];
+  const totals = trialBalance?.totals;
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ledger</h1>
+          <p className="text-gray-600 mt-2">Chart of accounts, journal entries and trial balance</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="w-40"
+          />
+          <Button variant="outline" onClick={handleRebuild} disabled={isRebuilding}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRebuilding ? 'animate-spin' : ''}`} />
+            Rebuild Ledger
+          </Button>
+        </div>
+      </div>
+
+      {outOfBalance.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Account balances don't match the journal</AlertTitle>
+          <AlertDescription>
+            {outOfBalance.map((account) => (
+              <div key={account.id}>
+                {account.account_name}: balance {formatCurrency(Number(account.balance))}, journal {formatCurrency(Number(account.ledger_balance))}
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Debits</CardTitle>
+            <BookOpen className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(totals?.debit || 0))}</div>
+            <p className="text-xs text-muted-foreground">Debit balances as of {asOf}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Credits</CardTitle>
+            <BookOpen className="h-4 w-4 text-purple-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(totals?.credit || 0))}</div>
+            <p className="text-xs text-muted-foreground">Credit balances as of {asOf}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Trial Balance</CardTitle>
+            <Scale className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            {totals?.balanced ? (
+              <div className="flex items-center text-2xl font-bold text-green-600">
+                <CheckCircle className="mr-2 h-5 w-5" />
+                Balanced
+              </div>
+            ) : (
+              <div className="flex items-center text-2xl font-bold text-red-600">
+                <AlertTriangle className="mr-2 h-5 w-5" />
+                Off by {formatCurrency(Math.abs(Number(totals?.difference || 0)))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Debits must equal credits</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trial Balance */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Trial Balance</CardTitle>
+          <CardDescription>Balance of every ledger account up to the selected date</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accounts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                        No journal entries yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    accounts.map((account) => (
+                      <TableRow key={account.id}>
+                        <TableCell className="font-mono text-sm">{account.code}</TableCell>
+                        <TableCell className="font-medium">{account.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{ACCOUNT_TYPE_LABELS[account.account_type]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {Number(account.debit_balance) > 0 ? formatCurrency(Number(account.debit_balance)) : ''}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {Number(account.credit_balance) > 0 ? formatCurrency(Number(account.credit_balance)) : ''}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                  {accounts.length > 0 && totals && (
+                    <TableRow className="font-bold">
+                      <TableCell colSpan={3}>Total</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(totals.debit))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(totals.credit))}</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Journal */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Journal Entries</CardTitle>
+            <CardDescription>Every record posted as balanced debits and credits</CardDescription>
+          </div>
+          <Select
+            value={sourceFilter}
+            onValueChange={(value) => {
+              setSourceFilter(value);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                      No journal entries found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow className="bg-gray-50">
+                        <TableCell className="font-medium">{new Date(entry.entry_date).toLocaleDateString()}</TableCell>
+                        <TableCell colSpan={3}>
+                          <span className="font-medium">{entry.description}</span>
+                          <Badge variant="outline" className="ml-2">{SOURCE_LABELS[entry.source_type] || entry.source_type}</Badge>
+                        </TableCell>
+                      </TableRow>
+                      {entry.lines.map((line, index) => (
+                        <TableRow key={`${entry.id}-${index}`}>
+                          <TableCell></TableCell>
+                          <TableCell className={Number(line.credit) > 0 ? 'pl-8' : ''}>
+                            <span className="font-mono text-xs text-gray-500 mr-2">{line.code}</span>
+                            {line.account_name}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {Number(line.debit) > 0 ? formatCurrency(Number(line.debit)) : ''}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {Number(line.credit) > 0 ? formatCurrency(Number(line.credit)) : ''}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-gray-500">Page {currentPage} of {totalPages}</p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage === 1}
+                  onClick={() => setCurrentPage(prev => prev - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage === totalPages}
+                  onClick={() => setCurrentPage(prev => prev + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LedgerPage;
@@ -9,6 +9,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Badge } from '../components/ui/badge';
 import { Textarea } from '../components/ui/textarea';
 import { Progress } from '../components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs';
 import {
   Plus,
   CreditCard,
@@ -24,11 +25,39 @@ import {
   Car,
   Briefcase,
   User,
+  CalendarDays,
+  HandCoins,
+  Receipt,
+  Printer,
+  FileDown,
 } from 'lucide-react';
-import { loanApi } from '../lib/api';
-import { Loan, LoanForm } from '../lib/types';
+import { loanApi, exportApi } from '../lib/api';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { Loan, LoanDirection, LoanForm, LoanReceipt, LoanSchedule, PayoffSimulation, ExportColumnOption } from '../lib/types';
+import { downloadFile } from '../lib/utils';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const LOAN_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'direction', label: 'Direction' },
+  { key: 'loan_type', label: 'Type' },
+  { key: 'lender_name', label: 'Lender' },
+  { key: 'borrower_name', label: 'Borrower' },
+  { key: 'borrower_type', label: 'Borrower Type' },
+  { key: 'borrower_contact', label: 'Borrower Contact' },
+  { key: 'principal_amount', label: 'Principal' },
+  { key: 'current_balance', label: 'Current Balance' },
+  { key: 'interest_rate', label: 'Interest Rate (%)' },
+  { key: 'monthly_payment', label: 'Monthly Payment' },
+  { key: 'start_date', label: 'Start Date' },
+  { key: 'due_date', label: 'Due Date' },
+  { key: 'status', label: 'Status' },
+  { key: 'overdue_instalments', label: 'Overdue Instalments' },
+  { key: 'overdue_amount', label: 'Overdue Amount' },
+  { key: 'next_due_date', label: 'Next Due Date' }
+];
+
 export const LoansPage: React.FC = () => {
   const [loans, setLoans] = useState<Loan[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -39,9 +68,14 @@ export const LoansPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
+  const [activeDirection, setActiveDirection] = useState<LoanDirection>('payable');
   const [formData, setFormData] = useState<LoanForm>({
+    direction: 'payable',
     loan_type: 'personal',
     lender_name: '',
+    borrower_name: '',
+    borrower_type: '',
+    borrower_contact: '',
     principal_amount: 0,
     current_balance: 0,
     interest_rate: 0,
@@ -54,6 +88,11 @@ export const LoansPage: React.FC = () => {
     payment_date: new Date().toISOString().split('T')[0],
     description: '',
   });
+  const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
+  const [schedule, setSchedule] = useState<LoanSchedule | null>(null);
+  const [extraPayment, setExtraPayment] = useState(0);
+  const [simulation, setSimulation] = useState<PayoffSimulation | null>(null);
+  const [receipt, setReceipt] = useState<LoanReceipt | null>(null);
 
   useEffect(() => {
     loadLoans();
@@ -75,15 +114,22 @@ export const LoansPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.lender_name || !formData.principal_amount || !formData.start_date) {
+    const counterparty = formData.direction === 'receivable' ? formData.borrower_name : formData.lender_name;
+    if (!counterparty || !formData.principal_amount || !formData.start_date) {
       toast.error('Please fill in all required fields');
       return;
     }
 
     try {
+      // Only send the counterparty fields that apply to the loan's direction
+      const { lender_name, borrower_name, borrower_type, borrower_contact, ...loanData } = formData;
       const submitData = {
-        ...formData,
+        ...loanData,
+        ...(formData.direction === 'receivable'
+          ? { borrower_name, borrower_type, borrower_contact }
+          : { lender_name }),
         current_balance: formData.current_balance || formData.principal_amount,
+        due_date: formData.due_date || undefined,
       };
 
       if (editingLoan) {
@@ -112,14 +158,17 @@ export const LoansPage: React.FC = () => {
       return;
     }
 
-    if (paymentForm.amount > Number(selectedLoan.current_balance)) {
-      toast.error('Payment amount cannot exceed current balance');
-      return;
-    }
-
     try {
-      await loanApi.recordPayment(selectedLoan.id, paymentForm);
-      toast.success('Payment recorded successfully');
+      const response = await loanApi.recordPayment(selectedLoan.id, {
+        payment_amount: paymentForm.amount,
+        payment_date: paymentForm.payment_date,
+        description: paymentForm.description,
+      });
+      const payment = response.data.data.payment;
+      toast.success(
+        `${payment.receipt_number ? `Repayment received (${payment.receipt_number})` : 'Payment recorded'}: ` +
+        `$${Number(payment.interest_amount).toFixed(2)} interest, $${Number(payment.principal_amount).toFixed(2)} principal`
+      );
       setIsPaymentDialogOpen(false);
       setSelectedLoan(null);
       resetPaymentForm();
@@ -130,11 +179,55 @@ export const LoansPage: React.FC = () => {
     }
   };
 
+  const openScheduleDialog = async (loan: Loan) => {
+    try {
+      const response = await loanApi.getSchedule(loan.id);
+      setSchedule(response.data.data);
+      setSelectedLoan(loan);
+      setExtraPayment(0);
+      setSimulation(null);
+      setIsScheduleDialogOpen(true);
+    } catch (error: any) {
+      console.error('Error loading loan schedule:', error);
+      toast.error(error.response?.data?.message || 'Failed to load loan schedule');
+    }
+  };
+
+  const handleSimulate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedLoan) return;
+
+    try {
+      const response = await loanApi.simulatePayoff(selectedLoan.id, extraPayment);
+      setSimulation(response.data.data);
+    } catch (error: any) {
+      console.error('Error simulating payoff:', error);
+      toast.error(error.response?.data?.message || 'Failed to simulate payoff');
+    }
+  };
+
+  const openReceipt = async (paymentId: number) => {
+    if (!selectedLoan) return;
+
+    try {
+      const response = await loanApi.getReceipt(selectedLoan.id, paymentId);
+      setReceipt(response.data.data.receipt);
+    } catch (error: any) {
+      console.error('Error loading receipt:', error);
+      toast.error(error.response?.data?.message || 'Failed to load receipt');
+    }
+  };
+
   const handleEdit = (loan: Loan) => {
     setEditingLoan(loan);
     setFormData({
+      direction: loan.direction,
       loan_type: loan.loan_type,
-      lender_name: loan.lender_name,
+      lender_name: loan.lender_name || '',
+      borrower_name: loan.borrower_name || '',
+      borrower_type: loan.borrower_type || '',
+      borrower_contact: loan.borrower_contact || '',
       principal_amount: Number(loan.principal_amount),
       current_balance: Number(loan.current_balance),
       interest_rate: Number(loan.interest_rate) || 0,
@@ -145,6 +238,16 @@ export const LoansPage: React.FC = () => {
     setIsDialogOpen(true);
   };
 
+  const handleDownloadStatement = async (loan: Loan) => {
+    try {
+      const response = await exportApi.loanStatementPdf(loan.id);
+      downloadFile(response.data, `loan_statement_${loan.id}.pdf`);
+    } catch (error) {
+      console.error('Error downloading loan statement:', error);
+      toast.error('Failed to download loan statement');
+    }
+  };
+
   const handleDelete = async (loan: Loan) => {
     if (window.confirm('Are you sure you want to delete this loan? This will also delete related payments.')) {
       try {
@@ -160,8 +263,12 @@ export const LoansPage: React.FC = () => {
 
   const resetForm = () => {
     setFormData({
+      direction: activeDirection,
       loan_type: 'personal',
       lender_name: '',
+      borrower_name: '',
+      borrower_type: '',
+      borrower_contact: '',
       principal_amount: 0,
       current_balance: 0,
       interest_rate: 0,
@@ -210,6 +317,15 @@ export const LoansPage: React.FC = () => {
     }
   };
 
+  const getInstalmentBadge = (status: string) => {
+    switch (status) {
+      case 'paid': return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Paid</Badge>;
+      case 'partial': return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Partial</Badge>;
+      case 'overdue': return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Overdue</Badge>;
+      default: return <Badge variant="secondary">Upcoming</Badge>;
+    }
+  };
+
   const getLoanTypeBadge = (type: string) => {
     const colors: { [key: string]: string } = {
       personal: 'bg-purple-100 text-purple-800',
@@ -234,9 +350,14 @@ export const LoansPage: React.FC = () => {
     return (paidAmount / principal) * 100;
   };
 
-  const filteredLoans = loans.filter(loan => {
+  const getCounterparty = (loan: Loan) => (loan.direction === 'receivable' ? loan.borrower_name : loan.lender_name) || '';
+
+  const isReceivableTab = activeDirection === 'receivable';
+  const directionLoans = loans.filter(loan => loan.direction === activeDirection);
+
+  const filteredLoans = directionLoans.filter(loan => {
     const matchesSearch = 
-      loan.lender_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      getCounterparty(loan).toLowerCase().includes(searchTerm.toLowerCase()) ||
       loan.loan_type.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesStatus = filterStatus === 'all' || loan.status === filterStatus;
@@ -246,8 +367,8 @@ export const LoansPage: React.FC = () => {
   });
 
   // --- THE FIX: Convert to Number before adding ---
-  const activeLoans = loans.filter(loan => loan.status === 'active');
-  const totalPrincipal = loans.reduce((sum, loan) => sum + Number(loan.principal_amount), 0);
+  const activeLoans = directionLoans.filter(loan => loan.status === 'active');
+  const totalPrincipal = directionLoans.reduce((sum, loan) => sum + Number(loan.principal_amount), 0);
   const totalBalance = activeLoans.reduce((sum, loan) => sum + Number(loan.current_balance), 0);
   const totalPaid = totalPrincipal - totalBalance;
 
@@ -265,28 +386,44 @@ export const LoansPage: React.FC = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Loan Management</h1>
-          <p className="text-gray-600 mt-2">Track your loans and manage payments</p>
+          <p className="text-gray-600 mt-2">Track money you have borrowed and lent, and manage repayments</p>
+        </div>
+        <div className="flex space-x-2">
+          <ListExportDialog
+            title="Export Loans"
+            path="/loans"
+            name="loans"
+            columns={LOAN_EXPORT_COLUMNS}
+            filters={{ direction: activeDirection, status: filterStatus, loan_type: filterType }}
+          />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openAddDialog} className="bg-blue-600 hover:bg-blue-700">
+                <Plus className="w-4 h-4 mr-2" />
+                {isReceivableTab ? 'Lend Money' : 'Add Loan'}
+              </Button>
+            </DialogTrigger>
+          </Dialog>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openAddDialog} className="bg-blue-600 hover:bg-blue-700">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Loan
-            </Button>
-          </DialogTrigger>
-        </Dialog>
       </div>
 
+      <Tabs value={activeDirection} onValueChange={(value) => setActiveDirection(value as LoanDirection)}>
+        <TabsList>
+          <TabsTrigger value="payable"><CreditCard className="w-4 h-4 mr-2" />Borrowed (Payable)</TabsTrigger>
+          <TabsTrigger value="receivable"><HandCoins className="w-4 h-4 mr-2" />Lent Out (Receivable)</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       {/* Summary Cards - .toFixed() is now safe */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-red-800">Total Debt</CardTitle>
+            <CardTitle className="text-sm font-medium text-red-800">{isReceivableTab ? 'Owed to You' : 'Total Debt'}</CardTitle>
             <TrendingDown className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-900">${totalBalance.toFixed(2)}</div>
-            <p className="text-xs text-red-600 mt-1">Current balance</p>
+            <p className="text-xs text-red-600 mt-1">{isReceivableTab ? 'Outstanding (asset)' : 'Current balance (liability)'}</p>
           </CardContent>
         </Card>
 
@@ -303,12 +440,12 @@ export const LoansPage: React.FC = () => {
 
         <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-green-800">Total Paid</CardTitle>
+            <CardTitle className="text-sm font-medium text-green-800">{isReceivableTab ? 'Total Received' : 'Total Paid'}</CardTitle>
             <CheckCircle className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-900">${totalPaid.toFixed(2)}</div>
-            <p className="text-xs text-green-600 mt-1">Amount repaid</p>
+            <p className="text-xs text-green-600 mt-1">{isReceivableTab ? 'Amount repaid to you' : 'Amount repaid'}</p>
           </CardContent>
         </Card>
 
@@ -327,8 +464,10 @@ export const LoansPage: React.FC = () => {
       {/* Loans Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Loan Details</CardTitle>
-          <CardDescription>Manage your loans and track payment progress</CardDescription>
+          <CardTitle>{isReceivableTab ? 'Loans Receivable' : 'Loans Payable'}</CardTitle>
+          <CardDescription>
+            {isReceivableTab ? 'Money lent to staff and customers, and repayments received' : 'Manage your loans and track payment progress'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -369,7 +508,7 @@ export const LoansPage: React.FC = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Lender</TableHead>
+                  <TableHead>{isReceivableTab ? 'Borrower' : 'Lender'}</TableHead>
                   <TableHead>Type</TableHead>
                   <TableHead>Principal</TableHead>
                   <TableHead>Current Balance</TableHead>
@@ -388,7 +527,16 @@ export const LoansPage: React.FC = () => {
                 ) : (
                   filteredLoans.map((loan) => (
                     <TableRow key={loan.id}>
-                      <TableCell className="font-medium">{loan.lender_name}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{getCounterparty(loan)}</div>
+                        {loan.direction === 'receivable' && (loan.borrower_type || loan.borrower_contact) && (
+                          <div className="text-xs text-gray-500">
+                            <span className="capitalize">{loan.borrower_type}</span>
+                            {loan.borrower_type && loan.borrower_contact && ' · '}
+                            {loan.borrower_contact}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{getLoanTypeBadge(loan.loan_type)}</TableCell>
                       {/* FIX: Convert to Number before .toFixed() */}
                       <TableCell>${Number(loan.principal_amount).toFixed(2)}</TableCell>
@@ -400,15 +548,27 @@ export const LoansPage: React.FC = () => {
                           <span className="text-xs text-gray-500">{getPaymentProgress(loan).toFixed(0)}%</span>
                         </div>
                       </TableCell>
-                      <TableCell>{getStatusBadge(loan.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-1">
+                          {getStatusBadge(loan.status)}
+                          {!!loan.overdue_instalments && (
+                            <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+                              <AlertCircle className="w-3 h-3 mr-1" />
+                              {loan.overdue_instalments} overdue (${Number(loan.overdue_amount).toFixed(2)})
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell>{loan.due_date ? new Date(loan.due_date).toLocaleDateString() : 'N/A'}</TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
                           {loan.status === 'active' && (
                             <Button size="sm" onClick={() => openPaymentDialog(loan)} className="bg-green-600 hover:bg-green-700">
-                              <CreditCard className="w-4 h-4 mr-1" /> Pay
+                              <CreditCard className="w-4 h-4 mr-1" /> {loan.direction === 'receivable' ? 'Receive' : 'Pay'}
                             </Button>
                           )}
+                          <Button size="sm" variant="outline" onClick={() => openScheduleDialog(loan)} title="Schedule"><CalendarDays className="w-4 h-4" /></Button>
+                          <Button size="sm" variant="outline" onClick={() => handleDownloadStatement(loan)} title="Statement PDF"><FileDown className="w-4 h-4" /></Button>
                           <Button size="sm" variant="outline" onClick={() => handleEdit(loan)}><Edit className="w-4 h-4" /></Button>
                           <Button size="sm" variant="outline" onClick={() => handleDelete(loan)} className="text-red-600 hover:text-red-700"><Trash2 className="w-4 h-4" /></Button>
                         </div>
@@ -424,15 +584,197 @@ export const LoansPage: React.FC = () => {
 
       {/* Loan Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        {/* ... Dialog content for adding/editing loans ... */}
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingLoan ? 'Edit Loan' : formData.direction === 'receivable' ? 'Lend Money' : 'Add Loan'}
+            </DialogTitle>
+            <DialogDescription>
+              {formData.direction === 'receivable' ? 'Money lent to a member of staff or a customer' : 'Money borrowed from a lender'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              {!editingLoan && (
+                <div className="grid gap-2">
+                  <Label htmlFor="direction">Direction *</Label>
+                  <Select
+                    value={formData.direction}
+                    onValueChange={(value) => setFormData({...formData, direction: value as LoanDirection})}
+                  >
+                    <SelectTrigger id="direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="payable">Borrowed (we owe)</SelectItem>
+                      <SelectItem value="receivable">Lent out (owed to us)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="loan_type">Loan Type *</Label>
+                <Select
+                  value={formData.loan_type}
+                  onValueChange={(value) => setFormData({...formData, loan_type: value as LoanForm['loan_type']})}
+                  disabled={!!editingLoan}
+                >
+                  <SelectTrigger id="loan_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">Personal</SelectItem>
+                    <SelectItem value="business">Business</SelectItem>
+                    <SelectItem value="mortgage">Mortgage</SelectItem>
+                    <SelectItem value="auto">Auto</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.direction === 'receivable' ? (
+                <>
+                  <div className="grid gap-2">
+                    <Label htmlFor="borrower_name">Borrower Name *</Label>
+                    <Input
+                      id="borrower_name"
+                      value={formData.borrower_name}
+                      onChange={(e) => setFormData({...formData, borrower_name: e.target.value})}
+                      placeholder="e.g., John Smith"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="borrower_type">Borrower Type</Label>
+                      <Select
+                        value={formData.borrower_type || undefined}
+                        onValueChange={(value) => setFormData({...formData, borrower_type: value as LoanForm['borrower_type']})}
+                      >
+                        <SelectTrigger id="borrower_type">
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="staff">Staff</SelectItem>
+                          <SelectItem value="customer">Customer</SelectItem>
+                          <SelectItem value="other">Other</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="borrower_contact">Contact</Label>
+                      <Input
+                        id="borrower_contact"
+                        value={formData.borrower_contact}
+                        onChange={(e) => setFormData({...formData, borrower_contact: e.target.value})}
+                        placeholder="Phone or email"
+                      />
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="grid gap-2">
+                  <Label htmlFor="lender_name">Lender Name *</Label>
+                  <Input
+                    id="lender_name"
+                    value={formData.lender_name}
+                    onChange={(e) => setFormData({...formData, lender_name: e.target.value})}
+                    placeholder="e.g., City Bank"
+                    required
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="principal_amount">Principal *</Label>
+                  <Input
+                    id="principal_amount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={formData.principal_amount}
+                    onChange={(e) => setFormData({...formData, principal_amount: parseFloat(e.target.value) || 0})}
+                    disabled={!!editingLoan}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="current_balance">Current Balance</Label>
+                  <Input
+                    id="current_balance"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.current_balance}
+                    onChange={(e) => setFormData({...formData, current_balance: parseFloat(e.target.value) || 0})}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="interest_rate">Interest Rate (%)</Label>
+                  <Input
+                    id="interest_rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.interest_rate}
+                    onChange={(e) => setFormData({...formData, interest_rate: parseFloat(e.target.value) || 0})}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="monthly_payment">Monthly Payment</Label>
+                  <Input
+                    id="monthly_payment"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.monthly_payment}
+                    onChange={(e) => setFormData({...formData, monthly_payment: parseFloat(e.target.value) || 0})}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="start_date">Start Date *</Label>
+                  <Input
+                    id="start_date"
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({...formData, start_date: e.target.value})}
+                    disabled={!!editingLoan}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="due_date">Due Date</Label>
+                  <Input
+                    id="due_date"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({...formData, due_date: e.target.value})}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700">{editingLoan ? 'Update Loan' : 'Save Loan'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
       </Dialog>
 
       {/* Payment Dialog */}
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Record Loan Payment</DialogTitle>
-            <DialogDescription>Record a payment for {selectedLoan?.lender_name}</DialogDescription>
+            <DialogTitle>{selectedLoan?.direction === 'receivable' ? 'Record Repayment Received' : 'Record Loan Payment'}</DialogTitle>
+            <DialogDescription>
+              {selectedLoan?.direction === 'receivable'
+                ? `Record a repayment from ${selectedLoan?.borrower_name}; a receipt is issued for it`
+                : `Record a payment for ${selectedLoan?.lender_name}`}
+            </DialogDescription>
           </DialogHeader>
           <form onSubmit={handlePayment}>
             <div className="grid gap-4 py-4">
@@ -443,7 +785,6 @@ export const LoansPage: React.FC = () => {
                   type="number"
                   step="0.01"
                   min="0.01"
-                  max={Number(selectedLoan?.current_balance) || 0}
                   value={paymentForm.amount}
                   onChange={(e) => setPaymentForm({...paymentForm, amount: parseFloat(e.target.value) || 0})}
                   placeholder="0.00"
@@ -451,7 +792,7 @@ export const LoansPage: React.FC = () => {
                 />
                 {selectedLoan && (
                   <p className="text-sm text-gray-500">
-                    Current balance: ${Number(selectedLoan.current_balance).toFixed(2)}
+                    Current balance: ${Number(selectedLoan.current_balance).toFixed(2)}. Interest accrued since the last payment is paid first.
                   </p>
                 )}
               </div>
@@ -483,6 +824,193 @@ export const LoansPage: React.FC = () => {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Schedule Dialog */}
+      <Dialog open={isScheduleDialogOpen} onOpenChange={setIsScheduleDialogOpen}>
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Amortization Schedule</DialogTitle>
+            <DialogDescription>
+              {selectedLoan && getCounterparty(selectedLoan)} - ${Number(schedule?.instalment_amount || 0).toFixed(2)} per month
+            </DialogDescription>
+          </DialogHeader>
+          {schedule && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Total Interest</p>
+                  <p className="font-semibold">${Number(schedule.summary.total_interest).toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Paid to Date</p>
+                  <p className="font-semibold">${Number(schedule.summary.paid_to_date).toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Overdue</p>
+                  <p className={`font-semibold ${schedule.summary.overdue_instalments > 0 ? 'text-red-600' : ''}`}>
+                    {schedule.summary.overdue_instalments} (${Number(schedule.summary.overdue_amount).toFixed(2)})
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Payoff Date</p>
+                  <p className="font-semibold">
+                    {schedule.summary.payoff_date ? new Date(schedule.summary.payoff_date).toLocaleDateString() : 'N/A'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="rounded-md border max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Due Date</TableHead>
+                      <TableHead>Payment</TableHead>
+                      <TableHead>Interest</TableHead>
+                      <TableHead>Principal</TableHead>
+                      <TableHead>Balance</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.instalments.map((instalment) => (
+                      <TableRow key={instalment.number}>
+                        <TableCell>{instalment.number}</TableCell>
+                        <TableCell>{new Date(instalment.due_date).toLocaleDateString()}</TableCell>
+                        <TableCell>${Number(instalment.payment).toFixed(2)}</TableCell>
+                        <TableCell>${Number(instalment.interest).toFixed(2)}</TableCell>
+                        <TableCell>${Number(instalment.principal).toFixed(2)}</TableCell>
+                        <TableCell>${Number(instalment.balance).toFixed(2)}</TableCell>
+                        <TableCell>{getInstalmentBadge(instalment.status)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {schedule.payments.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium">Payments</h3>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Interest</TableHead>
+                          <TableHead>Principal</TableHead>
+                          <TableHead>Balance After</TableHead>
+                          {selectedLoan?.direction === 'receivable' && <TableHead>Receipt</TableHead>}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {schedule.payments.map((payment) => (
+                          <TableRow key={payment.id}>
+                            <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
+                            <TableCell>${Number(payment.amount).toFixed(2)}</TableCell>
+                            <TableCell>${Number(payment.interest_amount).toFixed(2)}</TableCell>
+                            <TableCell>${Number(payment.principal_amount).toFixed(2)}</TableCell>
+                            <TableCell>${Number(payment.balance_after).toFixed(2)}</TableCell>
+                            {selectedLoan?.direction === 'receivable' && (
+                              <TableCell>
+                                {payment.receipt_number && (
+                                  <Button size="sm" variant="outline" onClick={() => openReceipt(payment.id)}>
+                                    <Receipt className="w-4 h-4 mr-1" /> {payment.receipt_number}
+                                  </Button>
+                                )}
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {selectedLoan?.status === 'active' && (
+                <form onSubmit={handleSimulate} className="space-y-3">
+                  <h3 className="font-medium">Payoff Simulator</h3>
+                  <div className="flex items-end gap-2">
+                    <div className="grid gap-2 flex-1">
+                      <Label htmlFor="extra_payment">Extra payment per month</Label>
+                      <Input
+                        id="extra_payment"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={extraPayment}
+                        onChange={(e) => setExtraPayment(parseFloat(e.target.value) || 0)}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <Button type="submit" variant="outline">Simulate</Button>
+                  </div>
+                  {simulation && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Months Remaining</p>
+                        <p className="font-semibold">
+                          {simulation.with_extra.months}
+                          {simulation.baseline && ` (was ${simulation.baseline.months})`}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Payoff Date</p>
+                        <p className="font-semibold">{new Date(simulation.with_extra.payoff_date).toLocaleDateString()}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Months Saved</p>
+                        <p className="font-semibold text-green-600">{simulation.months_saved ?? 'N/A'}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Interest Saved</p>
+                        <p className="font-semibold text-green-600">
+                          {simulation.interest_saved !== null ? `$${Number(simulation.interest_saved).toFixed(2)}` : 'N/A'}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </form>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Receipt Dialog */}
+      <Dialog open={!!receipt} onOpenChange={(open) => !open && setReceipt(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Repayment Receipt</DialogTitle>
+            <DialogDescription>{receipt?.receipt_number}</DialogDescription>
+          </DialogHeader>
+          {receipt && (
+            <div className="space-y-4 text-sm">
+              <div>
+                <p className="font-semibold">{receipt.business_name || receipt.received_by}</p>
+                <p className="text-gray-500">Received on {new Date(receipt.payment_date).toLocaleDateString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Received from</p>
+                <p className="font-medium">{receipt.borrower_name}</p>
+                {receipt.borrower_contact && <p className="text-gray-500">{receipt.borrower_contact}</p>}
+              </div>
+              <div className="space-y-1 border-t pt-3">
+                <div className="flex justify-between"><span>Amount received</span><span className="font-semibold">${Number(receipt.amount).toFixed(2)}</span></div>
+                <div className="flex justify-between text-gray-600"><span>Interest</span><span>${Number(receipt.interest_amount).toFixed(2)}</span></div>
+                <div className="flex justify-between text-gray-600"><span>Principal</span><span>${Number(receipt.principal_amount).toFixed(2)}</span></div>
+                <div className="flex justify-between border-t pt-1"><span>Balance outstanding</span><span className="font-semibold">${Number(receipt.balance_after).toFixed(2)}</span></div>
+              </div>
+              {receipt.description && <p className="text-gray-500">{receipt.description}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setReceipt(null)}>Close</Button>
+            <Button type="button" onClick={() => window.print()}><Printer className="w-4 h-4 mr-2" />Print</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
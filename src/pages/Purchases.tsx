@@ -18,26 +18,59 @@ import {
   Filter,
   Edit,
   Trash2,
-  ShoppingCart
+  ShoppingCart,
+  Paperclip,
+  Split
 } from 'lucide-react';
-import { purchaseApi, categoryApi } from '../lib/api';
-import { Purchase, PurchaseForm, Category } from '../lib/types';
+import { purchaseApi, categoryApi, accountApi, attachmentApi, tagApi, vendorApi } from '../lib/api';
+import { AttachmentDropzone } from '../components/Attachments/AttachmentDropzone';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { TagInput } from '../components/Tags/TagInput';
+import { TagChips } from '../components/Tags/TagChips';
+import { SplitEditor } from '../components/Splits/SplitEditor';
+import { Purchase, PurchaseForm, Category, Account, Vendor, ExportColumnOption, Tag, SplitLineForm } from '../lib/types';
+import { showBudgetAlert, splitLinesTotal } from '../lib/utils';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const PURCHASE_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'unit_cost', label: 'Unit Cost' },
+  { key: 'quantity_sold', label: 'Quantity Sold' },
+  { key: 'payment_method', label: 'Payment Method' },
+  { key: 'account_name', label: 'Account' },
+  { key: 'vendor_name', label: 'Vendor' },
+  { key: 'amount', label: 'Amount' }
+];
+
 export const PurchasesPage: React.FC = () => {
   const [purchases, setPurchases] = useState<Purchase[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPurchase, setEditingPurchase] = useState<Purchase | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [splitLines, setSplitLines] = useState<SplitLineForm[] | null>(null);
   const [formData, setFormData] = useState<PurchaseForm>({
     amount: 0,
     description: '',
     category: '',
+    quantity: 1,
     payment_method: '',
-    date: new Date().toISOString().split('T')[0]
+    account_id: null,
+    vendor_id: null,
+    date: new Date().toISOString().split('T')[0],
+    tags: []
   });
 
   const paymentMethods = [
@@ -53,15 +86,18 @@ export const PurchasesPage: React.FC = () => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [filterTags]);
 
 
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const [purchasesResponse, categoriesResponse] = await Promise.all([
-        purchaseApi.getAll(),
-        categoryApi.getAll({ type: 'purchase' })
+      const [purchasesResponse, categoriesResponse, accountsResponse, tagsResponse, vendorsResponse] = await Promise.all([
+        purchaseApi.getAll({ tags: filterTags.join(',') || undefined }),
+        categoryApi.getAll({ type: 'purchase' }),
+        accountApi.getAll(),
+        tagApi.getAll(),
+        vendorApi.getAll()
       ]);
       
       const fetchedPurchases = purchasesResponse.data.data.purchases || [];
@@ -71,6 +107,9 @@ export const PurchasesPage: React.FC = () => {
       }));
       setPurchases(sanitizedPurchases);
       setCategories(categoriesResponse.data.data.categories || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setTags(tagsResponse.data.data.tags || []);
+      setVendors(vendorsResponse.data.data.vendors || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load purchase data');
@@ -82,18 +121,36 @@ export const PurchasesPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.category || !formData.payment_method) {
+    if (!formData.amount || !formData.quantity || (!splitLines && !formData.category) || !formData.payment_method) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (splitLines) {
+      if (splitLines.some((line) => !line.category || !(line.amount > 0))) {
+        toast.error('Each split line needs a category and an amount');
+        return;
+      }
+      if (splitLinesTotal(splitLines) !== Math.round(formData.amount * 100) / 100) {
+        toast.error('Split lines must add up to the total amount');
+        return;
+      }
+    }
+
+    // A split purchase takes its category from its lines; unsplitting one clears its lines
+    const payload: Partial<PurchaseForm> = splitLines
+      ? { ...formData, category: undefined, splits: splitLines }
+      : { ...formData, splits: editingPurchase?.splits?.length ? null : undefined };
+
     try {
       if (editingPurchase) {
-        await purchaseApi.update(editingPurchase.id, formData);
+        await purchaseApi.update(editingPurchase.id, payload);
         toast.success('Purchase updated successfully');
       } else {
-        await purchaseApi.create(formData);
+        const response = await purchaseApi.create(payload);
+        await uploadPendingFiles(response.data.data.purchase.id);
         toast.success('Purchase added successfully');
+        showBudgetAlert(response.data.data.budget_alert);
       }
       
       setIsDialogOpen(false);
@@ -106,15 +163,42 @@ export const PurchasesPage: React.FC = () => {
     }
   };
 
+  // Upload files dropped before the record existed; returns how many were stored
+  const uploadPendingFiles = async (recordId: number) => {
+    if (pendingFiles.length === 0) return 0;
+
+    try {
+      await attachmentApi.upload('purchase', recordId, pendingFiles);
+      return pendingFiles.length;
+    } catch (error: any) {
+      console.error('Error uploading attachments:', error);
+      toast.error(error.response?.data?.message || 'Purchase saved, but the files could not be uploaded');
+      return 0;
+    }
+  };
+
   const handleEdit = (purchase: Purchase) => {
     setEditingPurchase(purchase);
+    setPendingFiles([]);
     setFormData({
       amount: purchase.amount,
       description: purchase.description || '',
       category: purchase.category,
+      quantity: Number(purchase.quantity) || 1,
       payment_method: purchase.payment_method,
-      date: purchase.date.split('T')[0]
+      account_id: purchase.account_id ?? null,
+      vendor_id: purchase.vendor_id ?? null,
+      date: purchase.date.split('T')[0],
+      tags: purchase.tags?.map((tag) => tag.name) || []
     });
+    setSplitLines(purchase.splits?.length
+      ? purchase.splits.map((line) => ({
+          category: line.category,
+          amount: Number(line.amount),
+          description: line.description || '',
+          tag: line.tag || ''
+        }))
+      : null);
     setIsDialogOpen(true);
   };
 
@@ -136,17 +220,44 @@ export const PurchasesPage: React.FC = () => {
       amount: 0,
       description: '',
       category: '',
+      quantity: 1,
       payment_method: '',
-      date: new Date().toISOString().split('T')[0]
+      account_id: null,
+      vendor_id: null,
+      date: new Date().toISOString().split('T')[0],
+      tags: []
     });
+    setSplitLines(null);
     setEditingPurchase(null);
+    setPendingFiles([]);
   };
 
+  // Start splitting from the current category and amount, with a second line for the rest
+  const startSplit = () => {
+    setSplitLines([
+      { category: formData.category, amount: formData.amount, description: '', tag: '' },
+      { category: '', amount: 0, description: '', tag: '' }
+    ]);
+  };
+
+  // Go back to a single category: that of the largest line
+  const stopSplit = () => {
+    if (splitLines && splitLines.length > 0) {
+      const largest = splitLines.reduce((max, line) => line.amount > max.amount ? line : max);
+      setFormData(prev => ({ ...prev, category: largest.category }));
+    }
+    setSplitLines(null);
+  };
+
+  // Categories of a purchase: its own, or each of its split lines'
+  const categoriesOf = (item: Purchase) => item.splits?.length ? item.splits.map((line) => line.category) : [item.category];
+
   const filteredPurchases = purchases.filter(item => {
     const matchesSearch = item.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         item.vendor_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.payment_method.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = filterCategory === 'all' || item.category === filterCategory;
+                         categoriesOf(item).some((category) => category.toLowerCase().includes(searchTerm.toLowerCase()));
+    const matchesCategory = filterCategory === 'all' || categoriesOf(item).includes(filterCategory);
     return matchesSearch && matchesCategory;
   });
 
@@ -175,113 +286,222 @@ export const PurchasesPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Purchase Management</h1>
           <p className="text-gray-600">Track and categorize your purchases</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => {
-              resetForm();
-              setIsDialogOpen(true);
-            }}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Purchase
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingPurchase ? 'Edit Purchase' : 'Add New Purchase'}
-              </DialogTitle>
-              <DialogDescription>
-                {editingPurchase 
-                  ? 'Update the purchase entry details below.'
-                  : 'Add a new purchase entry to track your spending.'
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex space-x-2">
+          <ListExportDialog
+            title="Export Purchases"
+            path="/purchases"
+            name="purchases"
+            columns={PURCHASE_EXPORT_COLUMNS}
+            filters={{ category: filterCategory, tags: filterTags.join(',') }}
+            dateRange
+          />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => {
+                resetForm();
+                setIsDialogOpen(true);
+              }}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Purchase
+              </Button>
+            </DialogTrigger>
+            <DialogContent className={splitLines ? 'sm:max-w-[560px] max-h-[90vh] overflow-y-auto' : 'sm:max-w-[425px]'}>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingPurchase ? 'Edit Purchase' : 'Add New Purchase'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingPurchase 
+                    ? 'Update the purchase entry details below.'
+                    : 'Add a new purchase entry to track your spending.'
+                  }
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="amount">Total Cost *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="quantity">Quantity *</Label>
+                    <Input
+                      id="quantity"
+                      type="number"
+                      step="0.001"
+                      min="0.001"
+                      value={formData.quantity}
+                      onChange={(e) => setFormData(prev => ({ ...prev, quantity: parseFloat(e.target.value) || 0 }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label>Unit Cost</Label>
+                    <div className="flex h-10 items-center text-sm text-gray-600">
+                      {formData.quantity > 0 ? formatCurrency(formData.amount / formData.quantity) : '-'}
+                    </div>
+                  </div>
+                </div>
+                
                 <div>
-                  <Label htmlFor="amount">Amount *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
-                    required
-                  />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="category">{splitLines ? 'Split Lines *' : 'Category *'}</Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={splitLines ? stopSplit : startSplit}>
+                      <Split className="mr-1 h-4 w-4" />
+                      {splitLines ? 'Single category' : 'Split'}
+                    </Button>
+                  </div>
+                  {splitLines ? (
+                    <SplitEditor
+                      lines={splitLines}
+                      onChange={setSplitLines}
+                      total={formData.amount}
+                      categories={categories}
+                      tags={tags}
+                    />
+                  ) : (
+                    <Select 
+                      value={formData.category} 
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                    >
+                      <SelectTrigger id="category">
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.name}>
+                            {category.path}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
+
                 <div>
-                  <Label htmlFor="date">Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
-                    required
+                  <Label htmlFor="payment_method">Payment Method *</Label>
+                  <Select 
+                    value={formData.payment_method} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select payment method" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="account_id">Paid From Account</Label>
+                  <Select 
+                    value={formData.account_id ? formData.account_id.toString() : 'none'} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.account_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="vendor_id">Vendor</Label>
+                  <Select 
+                    value={formData.vendor_id ? formData.vendor_id.toString() : 'none'} 
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, vendor_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger id="vendor_id">
+                      <SelectValue placeholder="Select a vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No vendor</SelectItem>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                          {vendor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={formData.tags || []}
+                    onChange={(value) => setFormData(prev => ({ ...prev, tags: value }))}
+                    suggestions={tags}
+                    placeholder="e.g., Project: Lahore store"
                   />
                 </div>
-              </div>
-              
-              <div>
-                <Label htmlFor="category">Category *</Label>
-                <Select 
-                  value={formData.category} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.name}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
 
-              <div>
-                <Label htmlFor="payment_method">Payment Method *</Label>
-                <Select 
-                  value={formData.payment_method} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select payment method" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {paymentMethods.map((method) => (
-                      <SelectItem key={method} value={method}>
-                        {method}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="What was this purchase for?"
+                    rows={3}
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="What was this purchase for?"
-                  rows={3}
-                />
-              </div>
+                <div>
+                  <Label>Receipts & Documents</Label>
+                  <AttachmentDropzone
+                    recordType="purchase"
+                    recordId={editingPurchase ? editingPurchase.id : null}
+                    pendingFiles={pendingFiles}
+                    onPendingFilesChange={setPendingFiles}
+                    onCountChange={(count) => editingPurchase && setPurchases(prev => prev.map(item => item.id === editingPurchase.id ? { ...item, attachment_count: count } : item))}
+                  />
+                </div>
 
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingPurchase ? 'Update' : 'Add'} Purchase
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingPurchase ? 'Update' : 'Add'} Purchase
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -365,12 +585,23 @@ export const PurchasesPage: React.FC = () => {
                   <SelectItem value="all">All Categories</SelectItem>
                   {categories.map((category) => (
                     <SelectItem key={category.id} value={category.name}>
-                      {category.name}
+                      {category.path}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+            <div className="w-full sm:w-64">
+              <Label htmlFor="filter-tags">Tags</Label>
+              <TagInput
+                id="filter-tags"
+                value={filterTags}
+                onChange={setFilterTags}
+                suggestions={tags}
+                placeholder="Filter by tags"
+                existingOnly
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -392,6 +623,7 @@ export const PurchasesPage: React.FC = () => {
                   <TableHead>Amount</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Payment Method</TableHead>
+                  <TableHead>Tags</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -399,7 +631,7 @@ export const PurchasesPage: React.FC = () => {
               <TableBody>
                 {filteredPurchases.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <div className="flex flex-col items-center">
                         <ShoppingCart className="h-12 w-12 text-gray-400 mb-2" />
                         <p className="text-gray-500">No purchase entries found</p>
@@ -415,11 +647,32 @@ export const PurchasesPage: React.FC = () => {
                       </TableCell>
                       <TableCell className="font-medium text-green-600">
                         {formatCurrency(item.amount)}
+                        {Number(item.quantity) !== 1 && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {Number(item.quantity)} × {formatCurrency(Number(item.unit_cost))}
+                          </div>
+                        )}
+                        {Number(item.quantity_sold) > 0 && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {Number(item.quantity_sold)} sold
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary">
-                          {item.category}
-                        </Badge>
+                        {item.splits?.length ? (
+                          <div className="space-y-1">
+                            <Badge variant="outline">Split ({item.splits.length})</Badge>
+                            {item.splits.map((line) => (
+                              <div key={line.id} className="text-xs text-gray-600">
+                                {line.category}: {formatCurrency(Number(line.amount))}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <Badge variant="secondary">
+                            {item.category}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center">
@@ -428,7 +681,22 @@ export const PurchasesPage: React.FC = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {item.description || '-'}
+                        <TagChips
+                          tags={item.tags}
+                          onSelect={(name) => !filterTags.includes(name) && setFilterTags([...filterTags, name])}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {item.vendor_name && <div className="text-xs text-gray-500">{item.vendor_name}</div>}
+                        <div className="flex items-center">
+                          {item.description || '-'}
+                          {Number(item.attachment_count) > 0 && (
+                            <span className="ml-2 flex items-center text-xs text-gray-500" title="Attachments">
+                              <Paperclip className="h-3 w-3 mr-0.5" />
+                              {item.attachment_count}
+                            </span>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
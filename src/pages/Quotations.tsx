@@ -0,0 +1,709 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  FileText,
+  Send,
+  Check,
+  X,
+  FileSpreadsheet,
+  ShoppingCart,
+  Settings,
+  Clock,
+  CheckCircle
+} from 'lucide-react';
+import { accountApi, categoryApi, customerApi, invoiceApi, quotationApi, saleApi } from '../lib/api';
+import {
+  Account,
+  Category,
+  Customer,
+  InvoiceSettings,
+  Quotation,
+  QuotationForm,
+  QuotationSaleForm,
+  QuotationsSummary,
+  StockLot
+} from '../lib/types';
+import { InvoiceLineEditor } from '../components/Invoices/InvoiceLineEditor';
+import { InvoiceSettingsDialog } from '../components/Invoices/InvoiceSettingsDialog';
+import toast from 'react-hot-toast';
+
+const PAYMENT_METHODS = ['Cash', 'Credit Card', 'Debit Card', 'Bank Transfer', 'Check', 'PayPal', 'Mobile Payment', 'Other'];
+
+const statusOptions = [
+  { value: 'draft', label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  { value: 'sent', label: 'Sent', color: 'bg-blue-100 text-blue-800' },
+  { value: 'accepted', label: 'Accepted', color: 'bg-green-100 text-green-800' },
+  { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800' },
+  { value: 'expired', label: 'Expired', color: 'bg-yellow-100 text-yellow-800' }
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): QuotationForm => ({
+  customer_id: null,
+  issue_date: today(),
+  valid_until: '',
+  notes: '',
+  items: [{ description: '', purchase_category: null, quantity: 1, unit_price: 0, unit_cost: null, discount_percent: 0, tax_rate: 0 }]
+});
+
+const emptySaleForm = (category: string): QuotationSaleForm => ({
+  date: today(),
+  status: 'completed',
+  category,
+  payment_method: 'Cash',
+  account_id: null
+});
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+// Rejected quotes and those already turned into an invoice or sales can't be converted
+const canConvert = (quotation: Quotation) => !quotation.converted_to && quotation.status !== 'rejected';
+
+export const QuotationsPage: React.FC = () => {
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [summary, setSummary] = useState<QuotationsSummary | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [saleCategories, setSaleCategories] = useState<Category[]>([]);
+  const [stockCategories, setStockCategories] = useState<string[]>([]);
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterCustomer, setFilterCustomer] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingQuotation, setEditingQuotation] = useState<Quotation | null>(null);
+  const [formData, setFormData] = useState<QuotationForm>(emptyForm());
+  const [sellingQuotation, setSellingQuotation] = useState<Quotation | null>(null);
+  const [saleData, setSaleData] = useState<QuotationSaleForm>(emptySaleForm(''));
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadQuotations();
+  }, [filterStatus, filterCustomer]);
+
+  const loadReferenceData = async () => {
+    try {
+      const [customersResponse, accountsResponse, incomeResponse, saleResponse, stockResponse, settingsResponse] = await Promise.all([
+        customerApi.getAll(),
+        accountApi.getAll(),
+        categoryApi.getAll({ type: 'income' }),
+        categoryApi.getAll({ type: 'sale' }),
+        saleApi.getAvailablePurchases(),
+        invoiceApi.getSettings()
+      ]);
+      setCustomers(customersResponse.data.data.customers || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setIncomeCategories(incomeResponse.data.data.categories || []);
+      setSaleCategories(saleResponse.data.data.categories || []);
+      const lots: StockLot[] = stockResponse.data.data.purchases || [];
+      setStockCategories(Array.from(new Set(lots.map((lot) => lot.category))));
+      setSettings(settingsResponse.data.data.settings);
+    } catch (error) {
+      console.error('Error loading data:', error);
+      toast.error('Failed to load customers and accounts');
+    }
+  };
+
+  const loadQuotations = async () => {
+    try {
+      setIsLoading(true);
+      const response = await quotationApi.getAll({
+        status: filterStatus === 'all' ? undefined : filterStatus,
+        customer_id: filterCustomer === 'all' ? undefined : filterCustomer
+      });
+      setQuotations(response.data.data.quotations || []);
+      setSummary(response.data.data.summary || null);
+    } catch (error) {
+      console.error('Error loading quotations:', error);
+      toast.error('Failed to load quotations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.customer_id || !formData.issue_date) {
+      toast.error('Please choose a customer and issue date');
+      return;
+    }
+
+    if (formData.items.some((item) => !item.description.trim() || item.quantity <= 0)) {
+      toast.error('Each line needs a description and a quantity');
+      return;
+    }
+
+    if (formData.valid_until && formData.valid_until < formData.issue_date) {
+      toast.error('Valid until cannot be before the issue date');
+      return;
+    }
+
+    try {
+      if (editingQuotation) {
+        await quotationApi.update(editingQuotation.id, formData);
+        toast.success('Quotation updated successfully');
+      } else {
+        const response = await quotationApi.create(formData);
+        toast.success(response.data.message || 'Quotation created');
+      }
+
+      setIsDialogOpen(false);
+      setEditingQuotation(null);
+      setFormData(emptyForm());
+      loadQuotations();
+      loadReferenceData();
+    } catch (error: any) {
+      console.error('Error saving quotation:', error);
+      toast.error(error.response?.data?.message || 'Failed to save quotation');
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingQuotation(null);
+    setFormData(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = async (quotation: Quotation) => {
+    try {
+      const response = await quotationApi.getById(quotation.id);
+      const current: Quotation = response.data.data.quotation;
+      setEditingQuotation(current);
+      setFormData({
+        customer_id: current.customer_id,
+        issue_date: current.issue_date.split('T')[0],
+        valid_until: current.valid_until.split('T')[0],
+        notes: current.notes || '',
+        items: (current.items || []).map((item) => ({
+          description: item.description,
+          purchase_category: item.purchase_category,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+          unit_cost: item.unit_cost === null ? null : Number(item.unit_cost),
+          discount_percent: Number(item.discount_percent),
+          tax_rate: Number(item.tax_rate)
+        }))
+      });
+      setIsDialogOpen(true);
+    } catch (error) {
+      console.error('Error loading quotation:', error);
+      toast.error('Failed to load quotation');
+    }
+  };
+
+  const handleDelete = async (quotation: Quotation) => {
+    if (!window.confirm(`Delete quotation ${quotation.quote_number}?`)) {
+      return;
+    }
+
+    try {
+      await quotationApi.delete(quotation.id);
+      toast.success('Quotation deleted successfully');
+      loadQuotations();
+    } catch (error: any) {
+      console.error('Error deleting quotation:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete quotation');
+    }
+  };
+
+  // Send, accept or reject a quote
+  const handleStatusChange = async (quotation: Quotation, action: 'send' | 'accept' | 'reject') => {
+    if (action === 'send' && !window.confirm('Mark this quotation as sent? It can no longer be edited.')) {
+      return;
+    }
+
+    try {
+      const response = await quotationApi[action](quotation.id);
+      toast.success(response.data.message || 'Quotation updated');
+      loadQuotations();
+    } catch (error: any) {
+      console.error('Error updating quotation:', error);
+      toast.error(error.response?.data?.message || 'Failed to update quotation');
+    }
+  };
+
+  const handleConvertToInvoice = async (quotation: Quotation) => {
+    if (!window.confirm(`Create a draft invoice from quotation ${quotation.quote_number}? The quote will be marked as accepted.`)) {
+      return;
+    }
+
+    try {
+      const response = await quotationApi.convertToInvoice(quotation.id);
+      toast.success(`${response.data.message}; find it under Invoices`);
+      loadQuotations();
+    } catch (error: any) {
+      console.error('Error converting quotation:', error);
+      toast.error(error.response?.data?.message || 'Failed to convert quotation');
+    }
+  };
+
+  const openSale = (quotation: Quotation) => {
+    setSellingQuotation(quotation);
+    setSaleData(emptySaleForm(settings?.sale_category || ''));
+  };
+
+  const handleConvertToSale = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sellingQuotation) return;
+
+    if (!saleData.category.trim()) {
+      toast.error('Please choose a sale category');
+      return;
+    }
+
+    try {
+      const response = await quotationApi.convertToSale(sellingQuotation.id, saleData);
+      toast.success(response.data.message || 'Quotation recorded as sales');
+      setSellingQuotation(null);
+      loadQuotations();
+      loadReferenceData();
+    } catch (error: any) {
+      console.error('Error converting quotation:', error);
+      toast.error(error.response?.data?.message || 'Failed to record sales');
+    }
+  };
+
+  const filteredQuotations = quotations.filter(quotation => {
+    const term = searchTerm.toLowerCase();
+    return quotation.customer_name.toLowerCase().includes(term) ||
+      quotation.quote_number.toLowerCase().includes(term) ||
+      quotation.notes?.toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Quotations</h1>
+          <p className="text-gray-600">Price quotes to your customers, converted into invoices or sales when accepted</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsSettingsOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            Settings
+          </Button>
+          <Button onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Quotation
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingQuotation ? `Edit Quotation ${editingQuotation.quote_number}` : 'New Quotation'}</DialogTitle>
+            <DialogDescription>
+              Drafts can be changed until they are sent
+              {!editingQuotation && settings ? `; this one will be ${settings.next_quotation_number}.` : '.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="customer_id">Customer *</Label>
+              <Select
+                value={formData.customer_id ? formData.customer_id.toString() : ''}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, customer_id: Number(value) }))}
+              >
+                <SelectTrigger id="customer_id">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="issue_date">Issue Date *</Label>
+                <Input
+                  type="date"
+                  id="issue_date"
+                  value={formData.issue_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, issue_date: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="valid_until">Valid Until</Label>
+                <Input
+                  type="date"
+                  id="valid_until"
+                  value={formData.valid_until || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, valid_until: e.target.value }))}
+                />
+                {!formData.valid_until && settings && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {settings.quote_validity_days} days after the issue date
+                  </p>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label>Line Items *</Label>
+              <InvoiceLineEditor
+                lines={formData.items}
+                onChange={(items) => setFormData(prev => ({ ...prev, items }))}
+                stockCategories={stockCategories}
+                showUnitCost
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Unit costs are only needed to record the quote straight as sales; stock lines are costed from stock.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={formData.notes || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                placeholder="Carried over to the invoice when converted"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingQuotation ? 'Update' : 'Save'} Draft
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Quotes</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(summary?.open_value || 0))}</div>
+            <p className="text-xs text-muted-foreground">{summary?.open_count || 0} sent, awaiting an answer</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Conversion</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{summary?.awaiting_conversion || 0}</div>
+            <p className="text-xs text-muted-foreground">Accepted, not yet invoiced or sold</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.draft_count || 0}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Quotations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search quotations..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={filterStatus} onValueChange={setFilterStatus}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {statusOptions.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterCustomer} onValueChange={setFilterCustomer}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All customers</SelectItem>
+                {customers.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id.toString()}>
+                    {customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Quotation</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredQuotations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <div className="flex flex-col items-center gap-2">
+                          <FileText className="h-8 w-8 text-gray-400" />
+                          <span className="text-gray-500">No quotations found</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredQuotations.map((quotation) => (
+                      <TableRow key={quotation.id}>
+                        <TableCell className="font-medium">{quotation.quote_number}</TableCell>
+                        <TableCell>{quotation.customer_name}</TableCell>
+                        <TableCell>
+                          <div className="text-sm">Issued {new Date(quotation.issue_date).toLocaleDateString()}</div>
+                          <div className={`text-sm ${quotation.status === 'expired' ? 'font-medium text-yellow-700' : 'text-gray-500'}`}>
+                            Valid until {new Date(quotation.valid_until).toLocaleDateString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{formatCurrency(Number(quotation.total))}</div>
+                          {Number(quotation.tax_total) > 0 && (
+                            <div className="text-sm text-gray-500">incl. {formatCurrency(Number(quotation.tax_total))} tax</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusOptions.find(s => s.value === quotation.status)?.color}>
+                            {statusOptions.find(s => s.value === quotation.status)?.label}
+                          </Badge>
+                          {quotation.converted_to && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {quotation.converted_to === 'invoice'
+                                ? `Invoiced${quotation.invoice_number ? ` as ${quotation.invoice_number}` : ''}`
+                                : 'Recorded as sales'}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {quotation.status === 'draft' && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => handleStatusChange(quotation, 'send')} title="Mark as sent">
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleEdit(quotation)} title="Edit">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {(quotation.status === 'sent' || quotation.status === 'expired') && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => handleStatusChange(quotation, 'accept')} title="Mark as accepted">
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleStatusChange(quotation, 'reject')} title="Mark as rejected">
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {canConvert(quotation) && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => handleConvertToInvoice(quotation)} title="Convert to invoice">
+                                  <FileSpreadsheet className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => openSale(quotation)} title="Record as sale">
+                                  <ShoppingCart className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {!quotation.converted_to && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(quotation)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Record as sale */}
+      <Dialog open={sellingQuotation !== null} onOpenChange={(open) => !open && setSellingQuotation(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record as Sale</DialogTitle>
+            <DialogDescription>
+              {sellingQuotation && `${sellingQuotation.quote_number} for ${formatCurrency(Number(sellingQuotation.total))} to ${sellingQuotation.customer_name}. `}
+              Each line becomes a sale at its quoted amount, costed from stock or the unit cost on the quote.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleConvertToSale} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sale_date">Date *</Label>
+                <Input
+                  type="date"
+                  id="sale_date"
+                  value={saleData.date}
+                  onChange={(e) => setSaleData(prev => ({ ...prev, date: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="sale_status">Status</Label>
+                <Select
+                  value={saleData.status}
+                  onValueChange={(value: 'pending' | 'completed') => setSaleData(prev => ({ ...prev, status: value }))}
+                >
+                  <SelectTrigger id="sale_status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="pending">Pending (on credit)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="sale_category">Category *</Label>
+              <Input
+                id="sale_category"
+                list="quotation-sale-categories"
+                value={saleData.category}
+                onChange={(e) => setSaleData(prev => ({ ...prev, category: e.target.value }))}
+                maxLength={50}
+                required
+              />
+              <datalist id="quotation-sale-categories">
+                {saleCategories.map((category) => (
+                  <option key={category.id} value={category.name} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <Label htmlFor="sale_payment_method">Payment Method</Label>
+              <Select
+                value={saleData.payment_method}
+                onValueChange={(value) => setSaleData(prev => ({ ...prev, payment_method: value }))}
+              >
+                <SelectTrigger id="sale_payment_method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="sale_account_id">Received Into</Label>
+              <Select
+                value={saleData.account_id ? saleData.account_id.toString() : 'none'}
+                onValueChange={(value) => setSaleData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+              >
+                <SelectTrigger id="sale_account_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.account_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSellingQuotation(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Record Sales</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <InvoiceSettingsDialog
+        open={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        incomeCategories={incomeCategories}
+        saleCategories={saleCategories}
+        onSaved={setSettings}
+      />
+    </div>
+  );
+};
+
+export default QuotationsPage;
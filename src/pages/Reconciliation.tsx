@@ -0,0 +1,1050 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { Badge } from '../components/ui/badge';
+import { Upload, Link2, Unlink, EyeOff, Plus, Wand2, Trash2, CheckCircle, AlertTriangle, Undo2 } from 'lucide-react';
+import { reconciliationApi, accountApi, categoryApi } from '../lib/api';
+import {
+  Account,
+  BankCsvProfile,
+  BankStatement,
+  BookEntry,
+  Category,
+  ImportDateFormat,
+  ImportDecimalFormat,
+  Reconciliation,
+  ReconciliationSummary,
+  StatementLine,
+  StatementLineStatus
+} from '../lib/types';
+import { formatCurrency, formatDate } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+type ReconciliationTab = 'lines' | 'reconcile' | 'profiles';
+
+const paymentMethods = [
+  'Cash',
+  'Credit Card',
+  'Debit Card',
+  'Bank Transfer',
+  'Check',
+  'PayPal',
+  'Mobile Payment',
+  'Other'
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  income: 'Income',
+  charity_payment: 'Charity Payment',
+  expense: 'Expense',
+  purchase: 'Purchase',
+  sale: 'Sale',
+  transfer: 'Transfer',
+  loan: 'Loan',
+  loan_payment: 'Loan Payment',
+  adjustment: 'Balance Adjustment'
+};
+
+const STATUS_BADGES: Record<StatementLineStatus, string> = {
+  unmatched: 'bg-yellow-100 text-yellow-800',
+  matched: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-800'
+};
+
+// Days either side of a line's date offered when matching by hand
+const MANUAL_MATCH_DAYS = 14;
+
+const emptyProfile = {
+  name: '',
+  header_rows: '1',
+  date_column: '1',
+  description_column: '2',
+  reference_column: '',
+  amount_column: '3',
+  debit_column: '',
+  credit_column: '',
+  date_format: 'DD/MM/YYYY' as ImportDateFormat,
+  decimal_format: 'dot' as ImportDecimalFormat
+};
+
+const shiftDate = (date: string, days: number) => {
+  const day = new Date(`${date.substring(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+};
+
+// Profile columns are entered as 1-based column numbers and stored as 0-based indexes
+const columnIndex = (value: string) => value.trim() === '' ? null : Number(value) - 1;
+
+export const ReconciliationPage: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const [activeTab, setActiveTab] = useState<ReconciliationTab>('lines');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [profiles, setProfiles] = useState<BankCsvProfile[]>([]);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [reconciledTo, setReconciledTo] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | StatementLineStatus>('unmatched');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Statement import
+  const [file, setFile] = useState<File | null>(null);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [qifDateFormat, setQifDateFormat] = useState<ImportDateFormat>('MM/DD/YYYY');
+
+  // Manual match / new record dialogs
+  const [matchLine, setMatchLine] = useState<StatementLine | null>(null);
+  const [candidates, setCandidates] = useState<BookEntry[]>([]);
+  const [recordLine, setRecordLine] = useState<StatementLine | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [recordForm, setRecordForm] = useState({ category: '', description: '', payment_method: 'Bank Transfer' });
+
+  // Reconcile
+  const [asOf, setAsOf] = useState(today);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [summary, setSummary] = useState<ReconciliationSummary | null>(null);
+  const [notes, setNotes] = useState('');
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+
+  // CSV profiles
+  const [profileForm, setProfileForm] = useState(emptyProfile);
+
+  useEffect(() => {
+    loadAccounts();
+    loadProfiles();
+  }, []);
+
+  useEffect(() => {
+    if (accountId) {
+      loadAccountData();
+      setSummary(null);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    if (accountId) {
+      loadLines();
+    }
+  }, [accountId, statusFilter]);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountApi.getAll();
+      const list: Account[] = response.data.data.accounts || [];
+      setAccounts(list);
+      if (list.length > 0) {
+        setAccountId((current) => current ?? list[0].id);
+      }
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+      toast.error('Failed to load accounts');
+    }
+  };
+
+  const loadProfiles = async () => {
+    try {
+      const response = await reconciliationApi.getProfiles();
+      setProfiles(response.data.data.profiles || []);
+    } catch (error) {
+      console.error('Error loading bank CSV profiles:', error);
+    }
+  };
+
+  const loadAccountData = async () => {
+    if (!accountId) return;
+
+    try {
+      const [statementsResponse, historyResponse] = await Promise.all([
+        reconciliationApi.getStatements(accountId),
+        reconciliationApi.getReconciliations(accountId)
+      ]);
+      setStatements(statementsResponse.data.data.statements || []);
+      setHistory(historyResponse.data.data.reconciliations || []);
+    } catch (error) {
+      console.error('Error loading statements:', error);
+      toast.error('Failed to load statements');
+    }
+  };
+
+  const loadLines = async () => {
+    if (!accountId) return;
+
+    try {
+      const response = await reconciliationApi.getLines(accountId, statusFilter === 'all' ? {} : { status: statusFilter });
+      setLines(response.data.data.lines || []);
+      setReconciledTo(response.data.data.reconciled_to);
+    } catch (error) {
+      console.error('Error loading statement lines:', error);
+      toast.error('Failed to load statement lines');
+    }
+  };
+
+  const refresh = () => {
+    loadLines();
+    loadAccountData();
+    setSummary(null);
+  };
+
+  const handleImport = async () => {
+    if (!accountId || !file) {
+      toast.error('Choose an account and a statement file');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const response = await reconciliationApi.importStatement(accountId, file, {
+        profile_id: profileId || undefined,
+        date_format: file.name.toLowerCase().endsWith('.qif') ? qifDateFormat : undefined
+      });
+      toast.success(response.data.message);
+      setFile(null);
+      refresh();
+    } catch (error: any) {
+      console.error('Error importing statement:', error);
+      toast.error(error.response?.data?.message || 'Failed to import statement');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDeleteStatement = async (statement: BankStatement) => {
+    if (!confirm(`Delete ${statement.file_name || 'this statement'} and its ${statement.line_count} line(s)?`)) return;
+
+    try {
+      await reconciliationApi.deleteStatement(statement.id);
+      toast.success('Statement deleted successfully');
+      refresh();
+    } catch (error: any) {
+      console.error('Error deleting statement:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete statement');
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    if (!accountId) return;
+
+    try {
+      setIsWorking(true);
+      const response = await reconciliationApi.autoMatch(accountId);
+      toast.success(response.data.message);
+      refresh();
+    } catch (error: any) {
+      console.error('Error matching statement lines:', error);
+      toast.error(error.response?.data?.message || 'Failed to match statement lines');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openMatchDialog = async (line: StatementLine) => {
+    if (!accountId) return;
+
+    try {
+      const response = await reconciliationApi.getBookEntries(accountId, {
+        start_date: shiftDate(line.date, -MANUAL_MATCH_DAYS),
+        end_date: shiftDate(line.date, MANUAL_MATCH_DAYS),
+        unmatched: true
+      });
+      const entries: BookEntry[] = response.data.data.entries || [];
+      setCandidates(entries.filter((entry) => entry.source_type !== 'adjustment' && entry.amount === Number(line.amount)));
+      setMatchLine(line);
+    } catch (error) {
+      console.error('Error loading book entries:', error);
+      toast.error('Failed to load records to match');
+    }
+  };
+
+  const handleMatch = async (entry: BookEntry) => {
+    if (!matchLine) return;
+
+    try {
+      await reconciliationApi.matchLine(matchLine.id, { source_type: entry.source_type, source_id: entry.source_id });
+      toast.success('Statement line matched successfully');
+      setMatchLine(null);
+      refresh();
+    } catch (error: any) {
+      console.error('Error matching statement line:', error);
+      toast.error(error.response?.data?.message || 'Failed to match statement line');
+    }
+  };
+
+  const handleLineAction = async (line: StatementLine, action: 'unmatch' | 'ignore') => {
+    try {
+      const response = action === 'unmatch'
+        ? await reconciliationApi.unmatchLine(line.id)
+        : await reconciliationApi.ignoreLine(line.id);
+      toast.success(response.data.message);
+      refresh();
+    } catch (error: any) {
+      console.error('Error updating statement line:', error);
+      toast.error(error.response?.data?.message || 'Failed to update statement line');
+    }
+  };
+
+  const openRecordDialog = async (line: StatementLine) => {
+    try {
+      const response = await categoryApi.getAll({ type: Number(line.amount) > 0 ? 'income' : 'expense' });
+      setCategories(response.data.data.categories || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+    setRecordForm({ category: '', description: line.description || '', payment_method: 'Bank Transfer' });
+    setRecordLine(line);
+  };
+
+  const handleCreateRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recordLine) return;
+
+    try {
+      const response = await reconciliationApi.createRecord(recordLine.id, {
+        category: recordForm.category,
+        description: recordForm.description || undefined,
+        payment_method: Number(recordLine.amount) < 0 ? recordForm.payment_method : undefined
+      });
+      toast.success(response.data.message);
+      setRecordLine(null);
+      refresh();
+    } catch (error: any) {
+      console.error('Error recording statement line:', error);
+      toast.error(error.response?.data?.message || 'Failed to record statement line');
+    }
+  };
+
+  const handleCalculate = async () => {
+    if (!accountId) return;
+
+    try {
+      const response = await reconciliationApi.getSummary(accountId, {
+        as_of: asOf,
+        statement_balance: statementBalance !== '' ? statementBalance : undefined
+      });
+      setSummary(response.data.data.summary);
+    } catch (error: any) {
+      console.error('Error calculating reconciliation:', error);
+      toast.error(error.response?.data?.message || 'Failed to calculate reconciliation');
+    }
+  };
+
+  const handleReconcile = async () => {
+    if (!accountId || !summary) return;
+
+    try {
+      setIsWorking(true);
+      const response = await reconciliationApi.reconcile(accountId, {
+        reconciled_to: asOf,
+        statement_balance: summary.statement_balance,
+        notes: notes || undefined
+      });
+      toast.success(response.data.message);
+      setNotes('');
+      setStatementBalance('');
+      refresh();
+    } catch (error: any) {
+      console.error('Error reconciling account:', error);
+      toast.error(error.response?.data?.message || 'Failed to reconcile account');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUndoReconciliation = async (reconciliation: Reconciliation) => {
+    if (!confirm(`Undo the reconciliation up to ${formatDate(reconciliation.reconciled_to)}?`)) return;
+
+    try {
+      await reconciliationApi.undoReconciliation(reconciliation.id);
+      toast.success('Reconciliation undone successfully');
+      refresh();
+    } catch (error: any) {
+      console.error('Error undoing reconciliation:', error);
+      toast.error(error.response?.data?.message || 'Failed to undo reconciliation');
+    }
+  };
+
+  const handleCreateProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await reconciliationApi.createProfile({
+        name: profileForm.name,
+        header_rows: Number(profileForm.header_rows) || 0,
+        date_column: columnIndex(profileForm.date_column),
+        description_column: columnIndex(profileForm.description_column),
+        reference_column: columnIndex(profileForm.reference_column),
+        amount_column: columnIndex(profileForm.amount_column),
+        debit_column: columnIndex(profileForm.debit_column),
+        credit_column: columnIndex(profileForm.credit_column),
+        date_format: profileForm.date_format,
+        decimal_format: profileForm.decimal_format
+      });
+      toast.success('Bank CSV profile saved successfully');
+      setProfileForm(emptyProfile);
+      loadProfiles();
+    } catch (error: any) {
+      console.error('Error saving bank CSV profile:', error);
+      toast.error(error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || 'Failed to save profile');
+    }
+  };
+
+  const handleDeleteProfile = async (profile: BankCsvProfile) => {
+    if (!confirm(`Delete the "${profile.name}" profile?`)) return;
+
+    try {
+      await reconciliationApi.deleteProfile(profile.id);
+      toast.success('Bank CSV profile deleted successfully');
+      loadProfiles();
+    } catch (error: any) {
+      console.error('Error deleting bank CSV profile:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete profile');
+    }
+  };
+
+  const isLocked = (line: StatementLine) => Boolean(reconciledTo && line.date.substring(0, 10) <= reconciledTo);
+  const columnLabel = (index: number | null) => index === null ? '-' : String(index + 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Bank Reconciliation</h1>
+          <p className="text-gray-600">Import bank statements, match them to your records and reconcile accounts</p>
+        </div>
+        <div className="w-full md:w-64">
+          <Label htmlFor="account">Account</Label>
+          <Select value={accountId ? accountId.toString() : ''} onValueChange={(value) => setAccountId(Number(value))}>
+            <SelectTrigger id="account">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id.toString()}>
+                  {account.account_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {reconciledTo && (
+        <p className="text-sm text-gray-600">
+          <CheckCircle className="inline mr-1 h-4 w-4 text-green-600" />
+          Reconciled up to {formatDate(reconciledTo)}; earlier lines are locked
+        </p>
+      )}
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ReconciliationTab)}>
+        <TabsList>
+          <TabsTrigger value="lines">Statement Lines</TabsTrigger>
+          <TabsTrigger value="reconcile">Reconcile</TabsTrigger>
+          <TabsTrigger value="profiles">CSV Profiles</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="lines" className="space-y-6">
+          {/* Statement import */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Upload className="mr-2 h-5 w-5" />
+                Import Statement
+              </CardTitle>
+              <CardDescription>OFX, QIF and CAMT.053 files are read directly; CSV files need a saved bank profile</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <Label htmlFor="statement_file">Statement File</Label>
+                  <Input
+                    id="statement_file"
+                    type="file"
+                    accept=".ofx,.qfx,.qif,.xml,.csv"
+                    onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  />
+                </div>
+                <div>
+                  <Label>CSV Profile</Label>
+                  <Select
+                    value={profileId ? profileId.toString() : 'none'}
+                    onValueChange={(value) => setProfileId(value === 'none' ? null : Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not a CSV file</SelectItem>
+                      {profiles.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id.toString()}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>QIF Date Format</Label>
+                  <Select value={qifDateFormat} onValueChange={(value) => setQifDateFormat(value as ImportDateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                      <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                      <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleImport} disabled={!file || !accountId || isWorking}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+              </div>
+
+              {statements.length > 0 && (
+                <Table className="mt-6">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Closing Balance</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                      <TableHead className="text-right">Unmatched</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statements.map((statement) => (
+                      <TableRow key={statement.id}>
+                        <TableCell>
+                          {statement.file_name || '-'}
+                          <Badge variant="outline" className="ml-2 uppercase">{statement.format}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {statement.start_date ? formatDate(statement.start_date) : '-'} – {statement.end_date ? formatDate(statement.end_date) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {statement.closing_balance !== null ? formatCurrency(Number(statement.closing_balance)) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{statement.line_count}</TableCell>
+                        <TableCell className="text-right">{statement.unmatched_count}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteStatement(statement)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Statement lines */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Statement Lines</CardTitle>
+                  <CardDescription>Match each line to a record, record it as new income or expense, or ignore it</CardDescription>
+                </div>
+                <div className="flex space-x-2">
+                  <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All lines</SelectItem>
+                      <SelectItem value="unmatched">Unmatched</SelectItem>
+                      <SelectItem value="matched">Matched</SelectItem>
+                      <SelectItem value="ignored">Ignored</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleAutoMatch} disabled={!accountId || isWorking}>
+                    <Wand2 className="mr-2 h-4 w-4" />
+                    Auto-Match
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {lines.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">No statement lines</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>{formatDate(line.date)}</TableCell>
+                        <TableCell>
+                          <div>{line.description || '-'}</div>
+                          {line.reference && <div className="text-xs text-gray-500">{line.reference}</div>}
+                        </TableCell>
+                        <TableCell className={`text-right ${Number(line.amount) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatCurrency(Number(line.amount))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[line.status]}>{line.status}</Badge>
+                          {line.status === 'matched' && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {line.matched_description || `${SOURCE_LABELS[line.matched_source_type || ''] || line.matched_source_type} (deleted)`}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!isLocked(line) && (
+                            <div className="flex justify-end space-x-1">
+                              {line.status === 'unmatched' ? (
+                                <>
+                                  <Button variant="outline" size="sm" onClick={() => openMatchDialog(line)} title="Match to a record">
+                                    <Link2 className="h-4 w-4" />
+                                  </Button>
+                                  <Button variant="outline" size="sm" onClick={() => openRecordDialog(line)} title="Record as new">
+                                    <Plus className="h-4 w-4" />
+                                  </Button>
+                                  <Button variant="outline" size="sm" onClick={() => handleLineAction(line, 'ignore')} title="Ignore">
+                                    <EyeOff className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              ) : (
+                                <Button variant="outline" size="sm" onClick={() => handleLineAction(line, 'unmatch')} title="Unmatch">
+                                  <Unlink className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reconcile" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Reconcile Account</CardTitle>
+              <CardDescription>
+                Compare the bank's balance with your records at a date. Leave the statement balance empty to use the latest imported statement.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <Label htmlFor="as_of">Reconcile Up To</Label>
+                  <Input id="as_of" type="date" value={asOf} max={today} onChange={(e) => { setAsOf(e.target.value); setSummary(null); }} />
+                </div>
+                <div>
+                  <Label htmlFor="statement_balance">Statement Balance</Label>
+                  <Input
+                    id="statement_balance"
+                    type="number"
+                    step="0.01"
+                    placeholder="From imported statement"
+                    value={statementBalance}
+                    onChange={(e) => { setStatementBalance(e.target.value); setSummary(null); }}
+                  />
+                </div>
+                <Button onClick={handleCalculate} disabled={!accountId}>
+                  Calculate
+                </Button>
+              </div>
+
+              {summary && (
+                <div className="space-y-6">
+                  {summary.statement_balance === null ? (
+                    <p className="text-sm text-red-600">
+                      No imported statement ends on or before this date; enter the statement balance.
+                    </p>
+                  ) : (
+                    <>
+                      <Table>
+                        <TableBody>
+                          <TableRow>
+                            <TableCell>
+                              Statement balance
+                              {summary.statement_balance_source === 'statement' && <span className="text-xs text-gray-500 ml-2">(from imported statement)</span>}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.statement_balance)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Book balance</TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.book_balance)}</TableCell>
+                          </TableRow>
+                          <TableRow className="font-semibold">
+                            <TableCell>Difference</TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.difference || 0)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="pl-8">Statement lines not in the books ({summary.unmatched_statement_lines.length})</TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.unmatched_statement_total)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="pl-8">Ignored statement lines ({summary.ignored_statement_lines.length})</TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.ignored_statement_total)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="pl-8">Records not yet on a statement ({summary.unmatched_book_entries.length})</TableCell>
+                            <TableCell className="text-right">{formatCurrency(-summary.unmatched_book_total)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="pl-8">Carried forward from the last reconciliation</TableCell>
+                            <TableCell className="text-right">{formatCurrency(summary.carried_forward)}</TableCell>
+                          </TableRow>
+                          <TableRow className="font-semibold">
+                            <TableCell>Unexplained</TableCell>
+                            <TableCell className={`text-right ${summary.new_unexplained_difference ? 'text-red-600' : 'text-green-600'}`}>
+                              {formatCurrency(summary.new_unexplained_difference || 0)}
+                            </TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+
+                      {summary.unmatched_book_entries.length > 0 && (
+                        <div>
+                          <h3 className="font-medium mb-2">Records Not Yet on a Statement</h3>
+                          <Table>
+                            <TableBody>
+                              {summary.unmatched_book_entries.map((entry) => (
+                                <TableRow key={`${entry.source_type}-${entry.source_id}`}>
+                                  <TableCell>{formatDate(entry.date)}</TableCell>
+                                  <TableCell>{SOURCE_LABELS[entry.source_type] || entry.source_type}</TableCell>
+                                  <TableCell>{entry.description || '-'}</TableCell>
+                                  <TableCell className="text-right">{formatCurrency(entry.amount)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      )}
+
+                      <div>
+                        <Label htmlFor="notes">
+                          Notes{summary.new_unexplained_difference ? ' (required: explain the unexplained difference)' : ''}
+                        </Label>
+                        <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+                      </div>
+
+                      <Button
+                        onClick={handleReconcile}
+                        disabled={isWorking || (Boolean(summary.new_unexplained_difference) && !notes.trim())}
+                      >
+                        {summary.new_unexplained_difference ? (
+                          <AlertTriangle className="mr-2 h-4 w-4" />
+                        ) : (
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                        )}
+                        Mark Reconciled to {formatDate(summary.as_of)}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reconciliation History</CardTitle>
+              <CardDescription>Only the latest reconciliation can be undone</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">This account has not been reconciled yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reconciled To</TableHead>
+                      <TableHead className="text-right">Statement</TableHead>
+                      <TableHead className="text-right">Books</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead className="text-right">Unexplained</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.map((reconciliation, index) => (
+                      <TableRow key={reconciliation.id}>
+                        <TableCell>{formatDate(reconciliation.reconciled_to)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(reconciliation.statement_balance))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(reconciliation.book_balance))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(reconciliation.difference))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(reconciliation.unexplained_difference))}</TableCell>
+                        <TableCell className="max-w-xs truncate">{reconciliation.notes || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {index === 0 && (
+                            <Button variant="outline" size="sm" onClick={() => handleUndoReconciliation(reconciliation)}>
+                              <Undo2 className="mr-1 h-4 w-4" />
+                              Undo
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="profiles" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>New CSV Profile</CardTitle>
+              <CardDescription>
+                Describe your bank's CSV export once: column numbers start at 1. Use one signed amount column, or separate debit and credit columns.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreateProfile} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="md:col-span-2">
+                    <Label htmlFor="profile_name">Name</Label>
+                    <Input
+                      id="profile_name"
+                      value={profileForm.name}
+                      onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                      placeholder="e.g. City Bank current account"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="header_rows">Header Rows</Label>
+                    <Input
+                      id="header_rows"
+                      type="number"
+                      min="0"
+                      value={profileForm.header_rows}
+                      onChange={(e) => setProfileForm({ ...profileForm, header_rows: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="date_column">Date Column</Label>
+                    <Input
+                      id="date_column"
+                      type="number"
+                      min="1"
+                      value={profileForm.date_column}
+                      onChange={(e) => setProfileForm({ ...profileForm, date_column: e.target.value })}
+                      required
+                    />
+                  </div>
+                  {([
+                    ['description_column', 'Description Column'],
+                    ['reference_column', 'Reference Column'],
+                    ['amount_column', 'Amount Column'],
+                    ['debit_column', 'Debit (Money Out) Column'],
+                    ['credit_column', 'Credit (Money In) Column']
+                  ] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <Label htmlFor={key}>{label}</Label>
+                      <Input
+                        id={key}
+                        type="number"
+                        min="1"
+                        placeholder="None"
+                        value={profileForm[key]}
+                        onChange={(e) => setProfileForm({ ...profileForm, [key]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <Label>Date Format</Label>
+                    <Select
+                      value={profileForm.date_format}
+                      onValueChange={(value) => setProfileForm({ ...profileForm, date_format: value as ImportDateFormat })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                        <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                        <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Decimal Separator</Label>
+                    <Select
+                      value={profileForm.decimal_format}
+                      onValueChange={(value) => setProfileForm({ ...profileForm, decimal_format: value as ImportDecimalFormat })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="dot">Dot (1,234.50)</SelectItem>
+                        <SelectItem value="comma">Comma (1.234,50)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button type="submit">Save Profile</Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved Profiles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {profiles.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">No CSV profiles yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Debit / Credit</TableHead>
+                      <TableHead>Formats</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">{profile.name}</TableCell>
+                        <TableCell>{columnLabel(profile.date_column)}</TableCell>
+                        <TableCell>{columnLabel(profile.description_column)}</TableCell>
+                        <TableCell>{columnLabel(profile.amount_column)}</TableCell>
+                        <TableCell>{columnLabel(profile.debit_column)} / {columnLabel(profile.credit_column)}</TableCell>
+                        <TableCell>{profile.date_format}, {profile.decimal_format === 'dot' ? '1.50' : '1,50'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteProfile(profile)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Manual match */}
+      <Dialog open={matchLine !== null} onOpenChange={(open) => !open && setMatchLine(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Match Statement Line</DialogTitle>
+            <DialogDescription>
+              {matchLine && `${formatDate(matchLine.date)} · ${matchLine.description || ''} · ${formatCurrency(Number(matchLine.amount))}`}
+            </DialogDescription>
+          </DialogHeader>
+          {candidates.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">
+              No unmatched records for this amount within {MANUAL_MATCH_DAYS} days
+            </p>
+          ) : (
+            <Table>
+              <TableBody>
+                {candidates.map((entry) => (
+                  <TableRow key={`${entry.source_type}-${entry.source_id}`}>
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell>{SOURCE_LABELS[entry.source_type] || entry.source_type}</TableCell>
+                    <TableCell>{entry.description || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={() => handleMatch(entry)}>Match</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Record unmatched line as income/expense */}
+      <Dialog open={recordLine !== null} onOpenChange={(open) => !open && setRecordLine(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Record as {recordLine && Number(recordLine.amount) > 0 ? 'Income' : 'Expense'}</DialogTitle>
+            <DialogDescription>
+              {recordLine && `${formatDate(recordLine.date)} · ${formatCurrency(Math.abs(Number(recordLine.amount)))}`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateRecord}>
+            <div className="grid gap-4 py-4">
+              <div>
+                <Label>Category</Label>
+                <Select value={recordForm.category} onValueChange={(value) => setRecordForm({ ...recordForm, category: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="record_description">Description</Label>
+                <Input
+                  id="record_description"
+                  value={recordForm.description}
+                  onChange={(e) => setRecordForm({ ...recordForm, description: e.target.value })}
+                />
+              </div>
+              {recordLine && Number(recordLine.amount) < 0 && (
+                <div>
+                  <Label>Payment Method</Label>
+                  <Select value={recordForm.payment_method} onValueChange={(value) => setRecordForm({ ...recordForm, payment_method: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!recordForm.category}>Record and Match</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReconciliationPage;
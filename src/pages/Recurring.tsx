@@ -0,0 +1,745 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Textarea } from '../components/ui/textarea';
+import {
+  Repeat,
+  Plus,
+  Edit,
+  Trash2,
+  Pause,
+  Play,
+  SkipForward,
+  History,
+  CheckCircle,
+  AlertCircle
+} from 'lucide-react';
+import { recurringApi, categoryApi, accountApi, loanApi } from '../lib/api';
+import {
+  RecurringTemplate,
+  RecurringTemplateForm,
+  RecurringOccurrence,
+  Category,
+  Account,
+  Loan
+} from '../lib/types';
+import { formatCurrency } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+const RECORD_TYPE_LABELS: Record<string, string> = {
+  income: 'Income',
+  expense: 'Expense',
+  loan_payment: 'Loan Payment'
+};
+
+const FREQUENCY_UNITS: Record<string, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+const DAY_RULE_LABELS: Record<string, string> = {
+  same_day: 'Same day as start date',
+  last_day: 'Last day of the month',
+  last_business_day: 'Last business day of the month'
+};
+
+const paymentMethods = [
+  'Cash',
+  'Credit Card',
+  'Debit Card',
+  'Bank Transfer',
+  'Check',
+  'PayPal',
+  'Mobile Payment',
+  'Other'
+];
+
+const emptyForm = (): RecurringTemplateForm => ({
+  name: '',
+  record_type: 'expense',
+  amount: 0,
+  description: '',
+  category: '',
+  source: '',
+  payment_method: 'Bank Transfer',
+  account_id: null,
+  loan_id: null,
+  frequency: 'monthly',
+  interval_count: 1,
+  day_rule: 'same_day',
+  start_date: new Date().toISOString().split('T')[0],
+  end_date: '',
+  max_occurrences: null
+});
+
+// Human readable schedule, e.g. "Every 2 weeks" or "Monthly, last business day"
+const describeSchedule = (template: RecurringTemplate) => {
+  const unit = FREQUENCY_UNITS[template.frequency];
+  let text = template.interval_count > 1
+    ? `Every ${template.interval_count} ${unit}s`
+    : template.frequency.charAt(0).toUpperCase() + template.frequency.slice(1);
+
+  if (template.day_rule === 'last_day') text += ', last day';
+  if (template.day_rule === 'last_business_day') text += ', last business day';
+
+  if (template.max_occurrences) {
+    text += ` (${template.occurrence_count}/${template.max_occurrences})`;
+  } else if (template.end_date) {
+    text += ` until ${new Date(template.end_date).toLocaleDateString()}`;
+  }
+  return text;
+};
+
+export const RecurringPage: React.FC = () => {
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null);
+  const [formData, setFormData] = useState<RecurringTemplateForm>(emptyForm());
+  const [historyTemplate, setHistoryTemplate] = useState<RecurringTemplate | null>(null);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [templatesResponse, categoriesResponse, accountsResponse, loansResponse] = await Promise.all([
+        recurringApi.getAll(),
+        categoryApi.getAll(),
+        accountApi.getAll(),
+        loanApi.getAll({ status: 'active' })
+      ]);
+
+      setTemplates(templatesResponse.data.data.templates || []);
+      setCategories(categoriesResponse.data.data.categories || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setLoans(loansResponse.data.data.loans || []);
+    } catch (error) {
+      console.error('Error loading recurring templates:', error);
+      toast.error('Failed to load recurring templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadTemplates = async () => {
+    try {
+      const response = await recurringApi.getAll();
+      setTemplates(response.data.data.templates || []);
+    } catch (error) {
+      console.error('Error loading recurring templates:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name || !formData.amount) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+    if (formData.record_type === 'expense' && !formData.category) {
+      toast.error('Please select a category');
+      return;
+    }
+    if (formData.record_type === 'loan_payment' && !formData.loan_id) {
+      toast.error('Please select a loan');
+      return;
+    }
+
+    try {
+      if (editingTemplate) {
+        await recurringApi.update(editingTemplate.id, {
+          name: formData.name,
+          amount: formData.amount,
+          description: formData.description || null,
+          category: formData.category || null,
+          source: formData.source || null,
+          payment_method: formData.payment_method || null,
+          account_id: formData.account_id,
+          end_date: formData.end_date || null,
+          max_occurrences: formData.max_occurrences
+        });
+        toast.success('Recurring template updated successfully');
+      } else {
+        await recurringApi.create({
+          ...formData,
+          end_date: formData.end_date || null
+        });
+        toast.success('Recurring template created successfully');
+      }
+
+      setIsDialogOpen(false);
+      setEditingTemplate(null);
+      setFormData(emptyForm());
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error saving recurring template:', error);
+      toast.error(error.response?.data?.message || 'Failed to save recurring template');
+    }
+  };
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setEditingTemplate(template);
+    setFormData({
+      name: template.name,
+      record_type: template.record_type,
+      amount: Number(template.amount),
+      description: template.description || '',
+      category: template.category || '',
+      source: template.source || '',
+      payment_method: template.payment_method || '',
+      account_id: template.account_id ?? null,
+      loan_id: template.loan_id ?? null,
+      frequency: template.frequency,
+      interval_count: template.interval_count,
+      day_rule: template.day_rule,
+      start_date: template.start_date.split('T')[0],
+      end_date: template.end_date ? template.end_date.split('T')[0] : '',
+      max_occurrences: template.max_occurrences ?? null
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this recurring template? Records it already created are kept.')) return;
+
+    try {
+      await recurringApi.delete(id);
+      toast.success('Recurring template deleted successfully');
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error deleting recurring template:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete recurring template');
+    }
+  };
+
+  const handleToggle = async (template: RecurringTemplate) => {
+    try {
+      if (template.status === 'active') {
+        await recurringApi.pause(template.id);
+        toast.success('Recurring template paused');
+      } else {
+        await recurringApi.resume(template.id);
+        toast.success('Recurring template resumed');
+      }
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error changing recurring template status:', error);
+      toast.error(error.response?.data?.message || 'Failed to update recurring template');
+    }
+  };
+
+  const handleSkip = async (template: RecurringTemplate) => {
+    if (!template.next_run_date) return;
+    if (!confirm(`Skip the occurrence on ${new Date(template.next_run_date).toLocaleDateString()}?`)) return;
+
+    try {
+      await recurringApi.skip(template.id);
+      toast.success('Occurrence skipped');
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error skipping occurrence:', error);
+      toast.error(error.response?.data?.message || 'Failed to skip occurrence');
+    }
+  };
+
+  const openHistory = async (template: RecurringTemplate) => {
+    setHistoryTemplate(template);
+    setOccurrences([]);
+    try {
+      const response = await recurringApi.getOccurrences(template.id);
+      setOccurrences(response.data.data.occurrences || []);
+    } catch (error) {
+      console.error('Error loading occurrences:', error);
+      toast.error('Failed to load occurrence history');
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingTemplate(null);
+    setFormData(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'active':
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>;
+      case 'paused':
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Paused</Badge>;
+      case 'completed':
+        return <Badge variant="secondary">Completed</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  const getOccurrenceBadge = (status: string) => {
+    switch (status) {
+      case 'created':
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="w-3 h-3 mr-1" />Created</Badge>;
+      case 'skipped':
+        return <Badge variant="secondary"><SkipForward className="w-3 h-3 mr-1" />Skipped</Badge>;
+      default:
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><AlertCircle className="w-3 h-3 mr-1" />Failed</Badge>;
+    }
+  };
+
+  const formCategories = categories.filter(category =>
+    category.type === (formData.record_type === 'income' ? 'income' : 'expense')
+  );
+  const isEditing = !!editingTemplate;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Recurring Transactions</h1>
+          <p className="text-gray-600 mt-2">Rent, salaries, bills and loan instalments recorded automatically</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Due occurrences are created automatically, including any missed while the server was offline
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Next Occurrence</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                      No recurring templates yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  templates.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell>
+                        <div className="font-medium">{template.name}</div>
+                        <div className="text-sm text-gray-500">
+                          {RECORD_TYPE_LABELS[template.record_type]}
+                          {template.record_type === 'loan_payment' ? ` · ${template.lender_name || template.borrower_name || ''}` : template.category ? ` · ${template.category}` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell className={template.record_type === 'income' ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                        {formatCurrency(Number(template.amount))}
+                      </TableCell>
+                      <TableCell>{describeSchedule(template)}</TableCell>
+                      <TableCell>
+                        {template.next_run_date ? (
+                          <div>
+                            <div>{new Date(template.next_run_date).toLocaleDateString()}</div>
+                            {template.upcoming_dates.length > 1 && (
+                              <div className="text-xs text-gray-500">
+                                then {template.upcoming_dates.slice(1).map(date => new Date(date).toLocaleDateString()).join(', ')}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(template.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          {template.status !== 'completed' && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={template.status === 'active' ? 'Pause' : 'Resume'}
+                                onClick={() => handleToggle(template)}
+                              >
+                                {template.status === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                              </Button>
+                              <Button variant="outline" size="sm" title="Skip next" onClick={() => handleSkip(template)}>
+                                <SkipForward className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button variant="outline" size="sm" title="History" onClick={() => openHistory(template)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" title="Edit" onClick={() => handleEdit(template)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Delete"
+                            onClick={() => handleDelete(template.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Template Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? 'Edit Recurring Template' : 'Add Recurring Template'}</DialogTitle>
+            <DialogDescription>
+              {isEditing
+                ? 'Changes apply to future occurrences. The schedule can only be ended, not changed.'
+                : 'Occurrences dated today or earlier are created as soon as you save.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Office rent"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="record_type">Creates</Label>
+                <Select
+                  value={formData.record_type}
+                  disabled={isEditing}
+                  onValueChange={(value: RecurringTemplateForm['record_type']) => setFormData(prev => ({ ...prev, record_type: value, category: '' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="loan_payment">Loan Payment</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amount">Amount *</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={formData.amount || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+
+              {formData.record_type === 'loan_payment' ? (
+                <div>
+                  <Label htmlFor="loan_id">Loan *</Label>
+                  <Select
+                    value={formData.loan_id ? formData.loan_id.toString() : ''}
+                    disabled={isEditing}
+                    onValueChange={(value) => {
+                      const loan = loans.find(item => item.id === Number(value));
+                      setFormData(prev => ({
+                        ...prev,
+                        loan_id: Number(value),
+                        amount: prev.amount || Number(loan?.monthly_payment) || 0
+                      }));
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a loan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {loans.map((loan) => (
+                        <SelectItem key={loan.id} value={loan.id.toString()}>
+                          {loan.direction === 'receivable' ? `${loan.borrower_name} (receivable)` : loan.lender_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="category">Category{formData.record_type === 'expense' ? ' *' : ''}</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {formCategories.map((category) => (
+                        <SelectItem key={category.id} value={category.name}>
+                          {category.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {formData.record_type !== 'loan_payment' && (
+              <div className="grid grid-cols-2 gap-4">
+                {formData.record_type === 'income' ? (
+                  <div>
+                    <Label htmlFor="source">Source</Label>
+                    <Input
+                      id="source"
+                      value={formData.source}
+                      onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
+                      placeholder="e.g., Client name"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="payment_method">Payment Method</Label>
+                    <Select
+                      value={formData.payment_method}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select payment method" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paymentMethods.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="account_id">Account</Label>
+                  <Select
+                    value={formData.account_id ? formData.account_id.toString() : 'none'}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value === 'none' ? null : Number(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.account_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Defaults to the template name"
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="frequency">Repeats</Label>
+                <Select
+                  value={formData.frequency}
+                  disabled={isEditing}
+                  onValueChange={(value: RecurringTemplateForm['frequency']) => setFormData(prev => ({
+                    ...prev,
+                    frequency: value,
+                    day_rule: value === 'monthly' || value === 'yearly' ? prev.day_rule : 'same_day'
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="interval_count">Every</Label>
+                <Input
+                  id="interval_count"
+                  type="number"
+                  min="1"
+                  max="365"
+                  value={formData.interval_count}
+                  disabled={isEditing}
+                  onChange={(e) => setFormData(prev => ({ ...prev, interval_count: parseInt(e.target.value) || 1 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="start_date">Starts *</Label>
+                <Input
+                  id="start_date"
+                  type="date"
+                  value={formData.start_date}
+                  disabled={isEditing}
+                  onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+
+            {(formData.frequency === 'monthly' || formData.frequency === 'yearly') && (
+              <div>
+                <Label htmlFor="day_rule">Day</Label>
+                <Select
+                  value={formData.day_rule}
+                  disabled={isEditing}
+                  onValueChange={(value: RecurringTemplateForm['day_rule']) => setFormData(prev => ({ ...prev, day_rule: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DAY_RULE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="end_date">Ends On</Label>
+                <Input
+                  id="end_date"
+                  type="date"
+                  value={formData.end_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="max_occurrences">Or After (occurrences)</Label>
+                <Input
+                  id="max_occurrences"
+                  type="number"
+                  min="1"
+                  value={formData.max_occurrences ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_occurrences: parseInt(e.target.value) || null }))}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{isEditing ? 'Update Template' : 'Save Template'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Occurrence History Dialog */}
+      <Dialog open={!!historyTemplate} onOpenChange={(open) => !open && setHistoryTemplate(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Repeat className="mr-2 h-4 w-4" />
+              {historyTemplate?.name}
+            </DialogTitle>
+            <DialogDescription>Most recent occurrences of this template</DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {occurrences.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-6 text-gray-500">
+                      Nothing has been created yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  occurrences.map((occurrence) => (
+                    <TableRow key={occurrence.id}>
+                      <TableCell>{new Date(occurrence.scheduled_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{getOccurrenceBadge(occurrence.status)}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{occurrence.error_message || ''}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RecurringPage;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { FileText, Scale, Banknote, CheckCircle, AlertTriangle } from 'lucide-react';
+import { reportApi } from '../lib/api';
+import {
+  BalanceSheetStatement,
+  CashFlowStatement,
+  ProfitAndLossStatement,
+  StatementComparison,
+  StatementLine,
+  StatementSection
+} from '../lib/types';
+import { formatCurrency } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+type ReportTab = 'profit-loss' | 'balance-sheet' | 'cash-flow';
+
+const COMPARISON_LABELS: Record<string, string> = {
+  none: 'No comparison',
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year'
+};
+
+const formatPeriod = (start?: string | null, end?: string | null) => {
+  if (!start || !end) return '';
+  return `${new Date(start).toLocaleDateString()} - ${new Date(end).toLocaleDateString()}`;
+};
+
+// One statement line, with its comparison figure and change when comparing
+const StatementRow: React.FC<{ line: StatementLine; comparing: boolean; bold?: boolean; indent?: boolean }> = ({
+  line,
+  comparing,
+  bold,
+  indent
+}) => (
+  <TableRow className={bold ? 'font-bold' : ''}>
+    <TableCell className={indent ? 'pl-8' : ''}>{line.label}</TableCell>
+    <TableCell className="text-right">{formatCurrency(Number(line.amount))}</TableCell>
+    {comparing && (
+      <>
+        <TableCell className="text-right text-gray-600">{formatCurrency(Number(line.comparison_amount || 0))}</TableCell>
+        <TableCell className={`text-right ${Number(line.change) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {formatCurrency(Number(line.change || 0))}
+          {line.change_percentage !== null && (
+            <span className="ml-1 text-xs">({Number(line.change_percentage).toFixed(1)}%)</span>
+          )}
+        </TableCell>
+      </>
+    )}
+  </TableRow>
+);
+
+// Sections of a statement followed by its totals
+const StatementTable: React.FC<{
+  sections: StatementSection[];
+  totals: StatementLine[];
+  comparing: boolean;
+  currentLabel: string;
+  comparisonLabel: string;
+}> = ({ sections, totals, comparing, currentLabel, comparisonLabel }) => (
+  <div className="rounded-md border">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead></TableHead>
+          <TableHead className="text-right">{currentLabel}</TableHead>
+          {comparing && (
+            <>
+              <TableHead className="text-right">{comparisonLabel}</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </>
+          )}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sections.map((section) => (
+          <React.Fragment key={section.key}>
+            <TableRow className="bg-gray-50">
+              <TableCell colSpan={comparing ? 4 : 2} className="font-semibold">{section.label}</TableCell>
+            </TableRow>
+            {section.lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={comparing ? 4 : 2} className="pl-8 text-gray-500">Nothing recorded</TableCell>
+              </TableRow>
+            ) : (
+              section.lines.map((line) => (
+                <StatementRow key={line.key} line={line} comparing={comparing} indent />
+              ))
+            )}
+            <StatementRow line={section.total} comparing={comparing} bold />
+          </React.Fragment>
+        ))}
+        {totals.map((line) => (
+          <StatementRow key={line.key} line={line} comparing={comparing} bold />
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export const ReportsPage: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const [activeTab, setActiveTab] = useState<ReportTab>('profit-loss');
+  const [startDate, setStartDate] = useState(`${today.substring(0, 4)}-01-01`);
+  const [endDate, setEndDate] = useState(today);
+  const [compare, setCompare] = useState<StatementComparison | 'none'>('previous_period');
+  const [profitAndLoss, setProfitAndLoss] = useState<ProfitAndLossStatement | null>(null);
+  const [balanceSheet, setBalanceSheet] = useState<BalanceSheetStatement | null>(null);
+  const [cashFlow, setCashFlow] = useState<CashFlowStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadStatement();
+  }, [activeTab, startDate, endDate, compare]);
+
+  const loadStatement = async () => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    const params = {
+      start_date: startDate,
+      end_date: endDate,
+      compare: compare === 'none' ? undefined : compare
+    };
+
+    try {
+      setIsLoading(true);
+      if (activeTab === 'profit-loss') {
+        const response = await reportApi.getProfitAndLoss(params);
+        setProfitAndLoss(response.data.data);
+      } else if (activeTab === 'balance-sheet') {
+        const response = await reportApi.getBalanceSheet(params);
+        setBalanceSheet(response.data.data);
+      } else {
+        const response = await reportApi.getCashFlow(params);
+        setCashFlow(response.data.data);
+      }
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      toast.error('Failed to load statement');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const comparing = compare !== 'none';
+
+  const renderLoading = () => (
+    <div className="flex items-center justify-center h-32">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Financial Statements</h1>
+        <p className="text-gray-600 mt-2">Profit & loss, balance sheet and cash flow for any period</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="start_date">From</Label>
+              <Input
+                id="start_date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="end_date">To</Label>
+              <Input
+                id="end_date"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Compare to</Label>
+              <Select value={compare} onValueChange={(value) => setCompare(value as StatementComparison | 'none')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COMPARISON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ReportTab)}>
+        <TabsList>
+          <TabsTrigger value="profit-loss"><FileText className="w-4 h-4 mr-2" />Profit & Loss</TabsTrigger>
+          <TabsTrigger value="balance-sheet"><Scale className="w-4 h-4 mr-2" />Balance Sheet</TabsTrigger>
+          <TabsTrigger value="cash-flow"><Banknote className="w-4 h-4 mr-2" />Cash Flow</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="profit-loss">
+          <Card>
+            <CardHeader>
+              <CardTitle>Profit & Loss</CardTitle>
+              <CardDescription>Income, sales gross profit and expenses by category</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading || !profitAndLoss ? renderLoading() : (
+                <StatementTable
+                  sections={profitAndLoss.sections}
+                  totals={profitAndLoss.totals}
+                  comparing={comparing}
+                  currentLabel={formatPeriod(profitAndLoss.period.start_date, profitAndLoss.period.end_date)}
+                  comparisonLabel={formatPeriod(profitAndLoss.comparison_period?.start_date, profitAndLoss.comparison_period?.end_date)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balance-sheet">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Balance Sheet</CardTitle>
+                <CardDescription>Accounts, loans and outstanding charity at the end of the period</CardDescription>
+              </div>
+              {balanceSheet && (balanceSheet.balanced ? (
+                <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="w-3 h-3 mr-1" />Balanced</Badge>
+              ) : (
+                <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><AlertTriangle className="w-3 h-3 mr-1" />Out of balance</Badge>
+              ))}
+            </CardHeader>
+            <CardContent>
+              {isLoading || !balanceSheet ? renderLoading() : (
+                <StatementTable
+                  sections={balanceSheet.sections}
+                  totals={balanceSheet.totals}
+                  comparing={comparing}
+                  currentLabel={`As of ${new Date(balanceSheet.as_of).toLocaleDateString()}`}
+                  comparisonLabel={balanceSheet.comparison_as_of ? `As of ${new Date(balanceSheet.comparison_as_of).toLocaleDateString()}` : ''}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cash-flow">
+          <Card>
+            <CardHeader>
+              <CardTitle>Cash Flow</CardTitle>
+              <CardDescription>Cash in and out of your accounts by operating, investing and financing activities</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading || !cashFlow ? renderLoading() : (
+                <StatementTable
+                  sections={cashFlow.sections}
+                  totals={cashFlow.totals}
+                  comparing={comparing}
+                  currentLabel={formatPeriod(cashFlow.period.start_date, cashFlow.period.end_date)}
+                  comparisonLabel={formatPeriod(cashFlow.comparison_period?.start_date, cashFlow.comparison_period?.end_date)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default ReportsPage;
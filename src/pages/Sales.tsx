@@ -21,35 +21,71 @@ import {
   User,
   Phone,
   Package,
-  Target
+  Target,
+  Wallet
 } from 'lucide-react';
-import { saleApi, categoryApi, purchaseApi } from '../lib/api';
-import { Sale, SaleForm, Category, Purchase } from '../lib/types';
+import { saleApi, categoryApi, accountApi, tagApi, customerApi } from '../lib/api';
+import { ListExportDialog } from '../components/Export/ListExportDialog';
+import { TagInput } from '../components/Tags/TagInput';
+import { TagChips } from '../components/Tags/TagChips';
+import { SalePaymentsDialog } from '../components/Sales/SalePaymentsDialog';
+import { QuoteConversionCard } from '../components/Sales/QuoteConversionCard';
+import { Sale, SaleForm, Category, StockLot, Account, ExportColumnOption, Tag, Customer } from '../lib/types';
 import toast from 'react-hot-toast';
 
+// Columns offered when exporting the list (see the API's export columns)
+const SALE_EXPORT_COLUMNS: ExportColumnOption[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'customer_name', label: 'Customer' },
+  { key: 'customer_contact', label: 'Customer Contact' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'cost_price', label: 'Cost' },
+  { key: 'selling_price', label: 'Selling Price' },
+  { key: 'profit', label: 'Profit' },
+  { key: 'profit_percentage', label: 'Profit (%)' },
+  { key: 'payment_method', label: 'Payment Method' },
+  { key: 'account_name', label: 'Account' },
+  { key: 'status', label: 'Status' },
+  { key: 'notes', label: 'Notes' }
+];
+
 export const SalesPage: React.FC = () => {
   const [sales, setSales] = useState<Sale[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [availablePurchases, setAvailablePurchases] = useState<Purchase[]>([]);
+  const [availablePurchases, setAvailablePurchases] = useState<StockLot[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [paymentsSale, setPaymentsSale] = useState<Sale | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSale, setEditingSale] = useState<Sale | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
   const [formData, setFormData] = useState<SaleForm>({
     purchase_id: undefined,
+    purchase_category: null,
+    quantity: null,
+    cost_method: 'fifo',
     amount: 0,
     selling_price: 0,
     description: '',
+    customer_id: null,
     customer_name: '',
     customer_contact: '',
     payment_method: '',
+    account_id: null,
     date: new Date().toISOString().split('T')[0],
     status: 'completed',
     notes: '',
     category: '', // Added category
-    receipt_path: '' // Added receipt_path
+    receipt_path: '', // Added receipt_path
+    tags: []
   });
 
   const paymentMethods = [
@@ -71,15 +107,18 @@ export const SalesPage: React.FC = () => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [filterTags]);
 
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const [salesResponse, categoriesResponse, purchasesResponse] = await Promise.all([
-        saleApi.getAll(),
+      const [salesResponse, categoriesResponse, purchasesResponse, accountsResponse, tagsResponse, customersResponse] = await Promise.all([
+        saleApi.getAll({ tags: filterTags.join(',') || undefined }),
         categoryApi.getAll({ type: 'sale' }),
-        saleApi.getAvailablePurchases()
+        saleApi.getAvailablePurchases(),
+        accountApi.getAll(),
+        tagApi.getAll(),
+        customerApi.getAll()
       ]);
       
       console.log('Categories fetched for sale type:', categoriesResponse.data.data.categories); // Add this line
@@ -90,10 +129,15 @@ export const SalesPage: React.FC = () => {
         selling_price: Number(sale.selling_price) || 0,
         profit: Number(sale.profit) || 0,
         profit_percentage: Number(sale.profit_percentage) || 0,
+        amount_paid: Number(sale.amount_paid) || 0,
+        balance_due: Number(sale.balance_due) || 0,
       }));
       setSales(sanitizedSales);
       setCategories(categoriesResponse.data.data.categories || []);
       setAvailablePurchases(purchasesResponse.data.data.purchases || []);
+      setAccounts(accountsResponse.data.data.accounts || []);
+      setTags(tagsResponse.data.data.tags || []);
+      setCustomers(customersResponse.data.data.customers || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load sale data');
@@ -105,11 +149,16 @@ export const SalesPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.selling_price || !formData.payment_method || !formData.date || !formData.category) {
+    if (!formData.selling_price || !formData.payment_method || !formData.date || !formData.category) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (isStockSale ? !formData.quantity : !formData.amount) {
+      toast.error(isStockSale ? 'Please enter the quantity sold' : 'Please enter the cost of the sale');
+      return;
+    }
+
     if (formData.selling_price <= 0) {
       toast.error('Selling price must be greater than 0');
       return;
@@ -134,23 +183,41 @@ export const SalesPage: React.FC = () => {
     }
   };
 
-  const handleEdit = (sale: Sale) => {
+  const handleEdit = async (sale: Sale) => {
     setEditingSale(sale);
     setFormData({
-      purchase_id: sale.purchase_id,
+      purchase_id: sale.purchase_id ?? undefined,
+      purchase_category: sale.purchase_category ?? null,
+      quantity: sale.quantity ? Number(sale.quantity) : null,
+      cost_method: sale.cost_method === 'average' ? 'average' : 'fifo',
       amount: sale.amount,
       selling_price: sale.selling_price,
       description: sale.description || '',
+      customer_id: sale.customer_id ?? null,
       customer_name: sale.customer_name || '',
       customer_contact: sale.customer_contact || '',
       payment_method: sale.payment_method,
-      date: sale.date,
+      account_id: sale.account_id ?? null,
+      date: sale.date.split('T')[0],
       status: sale.status,
       notes: sale.notes || '',
       category: sale.category, // Added category
-      receipt_path: sale.receipt_path || '' // Added receipt_path
+      receipt_path: sale.receipt_path || '', // Added receipt_path
+      tags: sale.tags?.map((tag) => tag.name) || []
     });
     setIsDialogOpen(true);
+
+    // Include the stock this sale already holds so its lot stays selectable
+    await loadAvailablePurchases(sale.id);
+  };
+
+  const loadAvailablePurchases = async (saleId?: number) => {
+    try {
+      const response = await saleApi.getAvailablePurchases(saleId ? { sale_id: saleId } : undefined);
+      setAvailablePurchases(response.data.data.purchases || []);
+    } catch (error) {
+      console.error('Error loading available stock:', error);
+    }
   };
 
   const handleDelete = async (id: number) => {
@@ -171,17 +238,23 @@ export const SalesPage: React.FC = () => {
   const resetForm = () => {
     setFormData({
       purchase_id: undefined,
+      purchase_category: null,
+      quantity: null,
+      cost_method: 'fifo',
       amount: 0,
       selling_price: 0,
       description: '',
+      customer_id: null,
       customer_name: '',
       customer_contact: '',
       payment_method: '',
+      account_id: null,
       date: new Date().toISOString().split('T')[0],
       status: 'completed',
       notes: '',
       category: '', // Added category
-      receipt_path: '' // Added receipt_path
+      receipt_path: '', // Added receipt_path
+      tags: []
     });
   };
 
@@ -189,33 +262,82 @@ export const SalesPage: React.FC = () => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'amount' || name === 'selling_price' ? Number(value) || 0 : value
+      [name]: name === 'amount' || name === 'selling_price' ? Number(value) || 0 : name === 'quantity' ? Number(value) || null : value
     }));
   };
 
+  // Stock source select values: 'none', 'purchase:<id>' or 'category:<name>'
+  const handleStockSourceChange = (value: string) => {
+    if (value.startsWith('purchase:')) {
+      const selectedPurchase = availablePurchases.find(p => p.id === Number(value.slice('purchase:'.length)));
+      setFormData(prev => ({
+        ...prev,
+        purchase_id: selectedPurchase?.id,
+        purchase_category: null,
+        quantity: prev.quantity || 1,
+        description: prev.description || selectedPurchase?.description || ''
+      }));
+    } else if (value.startsWith('category:')) {
+      setFormData(prev => ({
+        ...prev,
+        purchase_id: undefined,
+        purchase_category: value.slice('category:'.length),
+        quantity: prev.quantity || 1
+      }));
+    } else {
+      setFormData(prev => ({ ...prev, purchase_id: undefined, purchase_category: null, quantity: null }));
+    }
+  };
+
   const handleSelectChange = (name: string, value: string) => {
-    if (name === 'purchase_id') {
-      const selectedPurchase = availablePurchases.find(p => p.id === Number(value));
-      if (selectedPurchase) {
-        setFormData(prev => ({
-          ...prev,
-          purchase_id: Number(value),
-          amount: selectedPurchase.amount,
-          description: selectedPurchase.description || ''
-        }));
-      } else {
-        setFormData(prev => ({
-          ...prev,
-          purchase_id: undefined,
-          amount: 0,
-          description: ''
-        }));
-      }
+    if (name === 'customer_id') {
+      // A saved customer fills in their name and contact
+      const customer = customers.find(c => c.id === Number(value));
+      setFormData(prev => ({
+        ...prev,
+        customer_id: customer ? customer.id : null,
+        customer_name: customer ? customer.name : '',
+        customer_contact: customer ? customer.contact || '' : ''
+      }));
+    } else if (name === 'account_id') {
+      setFormData(prev => ({ ...prev, account_id: value === 'null' ? null : Number(value) }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value === 'null' ? undefined : value }));
     }
   };
 
+  const isStockSale = Boolean(formData.purchase_id || formData.purchase_category);
+
+  const stockSource = formData.purchase_id
+    ? `purchase:${formData.purchase_id}`
+    : formData.purchase_category ? `category:${formData.purchase_category}` : 'none';
+
+  const stockCategories = Array.from(new Set(availablePurchases.map(p => p.category)));
+
+  // Lots the current stock source draws from, oldest first
+  const sourceLots = availablePurchases.filter(p =>
+    formData.purchase_id ? p.id === formData.purchase_id : p.category === formData.purchase_category
+  );
+  const sourceQuantity = sourceLots.reduce((sum, lot) => sum + Number(lot.quantity_remaining), 0);
+
+  // Preview of the cost of goods the server will book for a stock sale
+  const estimateStockCost = () => {
+    const quantity = formData.quantity || 0;
+    if (formData.purchase_category && formData.cost_method === 'average' && sourceQuantity > 0) {
+      const stockValue = sourceLots.reduce((sum, lot) => sum + Number(lot.quantity_remaining) * Number(lot.unit_cost), 0);
+      return (stockValue / sourceQuantity) * quantity;
+    }
+    let remaining = quantity;
+    let cost = 0;
+    for (const lot of sourceLots) {
+      const taken = Math.min(Number(lot.quantity_remaining), remaining);
+      cost += taken * Number(lot.unit_cost);
+      remaining -= taken;
+      if (remaining <= 0) break;
+    }
+    return cost;
+  };
+
   const filteredSales = sales.filter(sale => {
     const matchesSearch = sale.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          sale.customer_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -269,230 +391,340 @@ export const SalesPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Sales Management</h1>
           <p className="text-gray-600">Track and manage your product sales</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => { resetForm(); setEditingSale(null); }}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Sale
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingSale ? 'Edit Sale' : 'Add New Sale'}</DialogTitle>
-              <DialogDescription>
-                {editingSale ? 'Update sale details below.' : 'Enter the details for the new sale.'}
-              </DialogDescription>
-            </DialogHeader>
-            
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {/* Amount */}
+        <div className="flex space-x-2">
+          <ListExportDialog
+            title="Export Sales"
+            path="/sales"
+            name="sales"
+            columns={SALE_EXPORT_COLUMNS}
+            filters={{ category: filterCategory, status: filterStatus, tags: filterTags.join(',') }}
+          />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => { resetForm(); setEditingSale(null); loadAvailablePurchases(); }}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Sale
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingSale ? 'Edit Sale' : 'Add New Sale'}</DialogTitle>
+                <DialogDescription>
+                  {editingSale ? 'Update sale details below.' : 'Enter the details for the new sale.'}
+                </DialogDescription>
+              </DialogHeader>
+              
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Cost of goods */}
+                  <div>
+                    <Label htmlFor="amount">Cost *</Label>
+                    {isStockSale ? (
+                      <div className="flex h-10 items-center text-sm text-gray-600">
+                        ≈ {formatCurrency(estimateStockCost())} from stock
+                      </div>
+                    ) : (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        id="amount"
+                        name="amount"
+                        value={formData.amount}
+                        onChange={handleInputChange}
+                        placeholder="0.00"
+                        required
+                      />
+                    )}
+                  </div>
+
+                  {/* Payment Method */}
+                  <div>
+                    <Label htmlFor="payment_method">Payment Method *</Label>
+                    <Select 
+                      value={formData.payment_method} 
+                      onValueChange={(value) => handleSelectChange('payment_method', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select payment method" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paymentMethods.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Date */}
+                  <div>
+                    <Label htmlFor="date">Sale Date *</Label>
+                    <Input
+                      type="date"
+                      id="date"
+                      name="date"
+                      value={formData.date}
+                      onChange={handleInputChange}
+                      required
+                    />
+                  </div>
+
+                  {/* Selling Price */}
+                  <div>
+                    <Label htmlFor="selling_price">Selling Price *</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      id="selling_price"
+                      name="selling_price"
+                      value={formData.selling_price}
+                      onChange={handleInputChange}
+                      placeholder="0.00"
+                      required
+                    />
+                  </div>
+                </div>
+
+                {/* Category */}
                 <div>
-                  <Label htmlFor="amount">Amount *</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    id="amount"
-                    name="amount"
-                    value={formData.amount}
-                    onChange={handleInputChange}
-                    placeholder="0.00"
-                    required
-                  />
+                  <Label htmlFor="category">Category *</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => handleSelectChange('category', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((cat) => (
+                        <SelectItem key={cat.id} value={cat.name}>
+                          {cat.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
-                {/* Payment Method */}
+                {/* Account */}
                 <div>
-                  <Label htmlFor="payment_method">Payment Method *</Label>
-                  <Select 
-                    value={formData.payment_method} 
-                    onValueChange={(value) => handleSelectChange('payment_method', value)}
+                  <Label htmlFor="account_id">Received Into Account</Label>
+                  <Select
+                    value={formData.account_id ? formData.account_id.toString() : 'null'}
+                    onValueChange={(value) => handleSelectChange('account_id', value)}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select payment method" />
+                      <SelectValue placeholder="Select an account" />
                     </SelectTrigger>
                     <SelectContent>
-                      {paymentMethods.map((method) => (
-                        <SelectItem key={method} value={method}>
-                          {method}
+                      <SelectItem value="null">No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.account_name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
 
-                {/* Date */}
+                {/* Receipt Path */}
                 <div>
-                  <Label htmlFor="date">Sale Date *</Label>
+                  <Label htmlFor="receipt_path">Receipt Path</Label>
                   <Input
-                    type="date"
-                    id="date"
-                    name="date"
-                    value={formData.date}
+                    type="text"
+                    id="receipt_path"
+                    name="receipt_path"
+                    value={formData.receipt_path || ''}
                     onChange={handleInputChange}
-                    required
+                    placeholder="e.g., /uploads/receipt.jpg"
                   />
                 </div>
 
-                {/* Selling Price */}
+                {/* Stock source (Optional) */}
                 <div>
-                  <Label htmlFor="selling_price">Selling Price *</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    id="selling_price"
-                    name="selling_price"
-                    value={formData.selling_price}
-                    onChange={handleInputChange}
-                    placeholder="0.00"
-                    required
-                  />
+                  <Label htmlFor="stock_source">Sell From Stock (Optional)</Label>
+                  <Select value={stockSource} onValueChange={handleStockSourceChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select stock" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not from stock (enter cost manually)</SelectItem>
+                      {stockCategories.map((category) => (
+                        <SelectItem key={`category:${category}`} value={`category:${category}`}>
+                          All {category} stock
+                        </SelectItem>
+                      ))}
+                      {availablePurchases.map((purchase) => (
+                        <SelectItem key={purchase.id} value={`purchase:${purchase.id}`}>
+                          {purchase.description || purchase.category} ({Number(purchase.quantity_remaining)} left @ {formatCurrency(Number(purchase.unit_cost))})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
 
-              {/* Category */}
-              <div>
-                <Label htmlFor="category">Category *</Label>
-                <Select
-                  value={formData.category}
-                  onValueChange={(value) => handleSelectChange('category', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((cat) => (
-                      <SelectItem key={cat.id} value={cat.name}>
-                        {cat.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                {isStockSale && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="quantity">Quantity *</Label>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0.001"
+                        max={sourceQuantity || undefined}
+                        id="quantity"
+                        name="quantity"
+                        value={formData.quantity ?? ''}
+                        onChange={handleInputChange}
+                        required
+                      />
+                      <p className="text-xs text-gray-500 mt-1">{sourceQuantity} units in stock</p>
+                    </div>
+                    {formData.purchase_category && (
+                      <div>
+                        <Label htmlFor="cost_method">Cost Method</Label>
+                        <Select
+                          value={formData.cost_method || 'fifo'}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, cost_method: value as 'fifo' | 'average' }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="fifo">FIFO (oldest stock first)</SelectItem>
+                            <SelectItem value="average">Weighted average</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                )}
 
-              {/* Receipt Path */}
-              <div>
-                <Label htmlFor="receipt_path">Receipt Path</Label>
-                <Input
-                  type="text"
-                  id="receipt_path"
-                  name="receipt_path"
-                  value={formData.receipt_path || ''}
-                  onChange={handleInputChange}
-                  placeholder="e.g., /uploads/receipt.jpg"
-                />
-              </div>
+                {/* Customer */}
+                <div>
+                  <Label htmlFor="customer_id">Customer</Label>
+                  <Select
+                    value={formData.customer_id ? formData.customer_id.toString() : 'null'}
+                    onValueChange={(value) => handleSelectChange('customer_id', value)}
+                  >
+                    <SelectTrigger id="customer_id">
+                      <SelectValue placeholder="Select a customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="null">Other (enter name below)</SelectItem>
+                      {customers.map((customer) => (
+                        <SelectItem key={customer.id} value={customer.id.toString()}>
+                          {customer.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              {/* Purchase ID (Optional) */}
-              <div>
-                <Label htmlFor="purchase_id">Linked Purchase (Optional)</Label>
-                <Select
-                  value={formData.purchase_id?.toString() || ''}
-                  onValueChange={(value) => handleSelectChange('purchase_id', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a purchase" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="null">No linked purchase</SelectItem>
-                    {availablePurchases.map((purchase) => (
-                      <SelectItem key={purchase.id} value={purchase.id.toString()}>
-                        {purchase.description} (Amount: {formatCurrency(purchase.amount)})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                {/* Customer Name */}
+                {!formData.customer_id && (
+                  <div>
+                    <Label htmlFor="customer_name">Customer Name</Label>
+                    <Input
+                      type="text"
+                      id="customer_name"
+                      name="customer_name"
+                      value={formData.customer_name || ''}
+                      onChange={handleInputChange}
+                      placeholder="Customer's Name"
+                    />
+                  </div>
+                )}
 
-              {/* Customer Name */}
-              <div>
-                <Label htmlFor="customer_name">Customer Name</Label>
-                <Input
-                  type="text"
-                  id="customer_name"
-                  name="customer_name"
-                  value={formData.customer_name || ''}
-                  onChange={handleInputChange}
-                  placeholder="Customer's Name"
-                />
-              </div>
+                {/* Customer Contact */}
+                <div>
+                  <Label htmlFor="customer_contact">Customer Contact</Label>
+                  <Input
+                    type="text"
+                    id="customer_contact"
+                    name="customer_contact"
+                    value={formData.customer_contact || ''}
+                    onChange={handleInputChange}
+                    placeholder="Customer's Contact Info"
+                  />
+                </div>
 
-              {/* Customer Contact */}
-              <div>
-                <Label htmlFor="customer_contact">Customer Contact</Label>
-                <Input
-                  type="text"
-                  id="customer_contact"
-                  name="customer_contact"
-                  value={formData.customer_contact || ''}
-                  onChange={handleInputChange}
-                  placeholder="Customer's Contact Info"
-                />
-              </div>
+                {/* Description */}
+                <div>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    name="description"
+                    value={formData.description}
+                    onChange={handleInputChange}
+                    placeholder="Sale description"
+                    rows={3}
+                  />
+                </div>
 
-              {/* Description */}
-              <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  name="description"
-                  value={formData.description}
-                  onChange={handleInputChange}
-                  placeholder="Sale description"
-                  rows={3}
-                />
-              </div>
+                {/* Tags */}
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={formData.tags || []}
+                    onChange={(value) => setFormData(prev => ({ ...prev, tags: value }))}
+                    suggestions={tags}
+                    placeholder="e.g., Project: Lahore store"
+                  />
+                </div>
 
-              {/* Status */}
-              <div>
-                <Label htmlFor="status">Status</Label>
-                <Select
-                  value={formData.status || 'completed'}
-                  onValueChange={(value) => handleSelectChange('status', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {statusOptions.map((status) => (
-                      <SelectItem key={status.value} value={status.value}>
-                        {status.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                {/* Status */}
+                <div>
+                  <Label htmlFor="status">Status</Label>
+                  <Select
+                    value={formData.status || 'completed'}
+                    onValueChange={(value) => handleSelectChange('status', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              {/* Notes */}
-              <div>
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea
-                  id="notes"
-                  name="notes"
-                  value={formData.notes || ''}
-                  onChange={handleInputChange}
-                  placeholder="Any additional notes"
-                  rows={3}
-                />
-              </div>
+                {/* Notes */}
+                <div>
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    name="notes"
+                    value={formData.notes || ''}
+                    onChange={handleInputChange}
+                    placeholder="Any additional notes"
+                    rows={3}
+                  />
+                </div>
 
-              <DialogFooter>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setIsDialogOpen(false)}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingSale ? 'Update' : 'Create'} Sale
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingSale ? 'Update' : 'Create'} Sale
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -542,6 +774,8 @@ export const SalesPage: React.FC = () => {
         </Card>
       </div>
 
+      <QuoteConversionCard />
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -573,6 +807,15 @@ export const SalesPage: React.FC = () => {
                 ))}
               </SelectContent>
             </Select>
+            <div className="w-full sm:w-64">
+              <TagInput
+                value={filterTags}
+                onChange={setFilterTags}
+                suggestions={tags}
+                placeholder="Filter by tags"
+                existingOnly
+              />
+            </div>
           </div>
 
           {/* Sales Table */}
@@ -610,6 +853,22 @@ export const SalesPage: React.FC = () => {
                           {sale.purchase_description && (
                             <div className="text-sm text-gray-500">From: {sale.purchase_description}</div>
                           )}
+                          {sale.purchase_category && (
+                            <div className="text-sm text-gray-500">
+                              From {sale.purchase_category} stock ({sale.cost_method === 'average' ? 'weighted average' : 'FIFO'})
+                            </div>
+                          )}
+                          {sale.quantity && (
+                            <div className="text-sm text-gray-500">Qty: {Number(sale.quantity)}</div>
+                          )}
+                          {sale.tags && sale.tags.length > 0 && (
+                            <div className="mt-1">
+                              <TagChips
+                                tags={sale.tags}
+                                onSelect={(name) => !filterTags.includes(name) && setFilterTags([...filterTags, name])}
+                              />
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -629,7 +888,15 @@ export const SalesPage: React.FC = () => {
                         </div>
                       </TableCell>
                       <TableCell>{formatCurrency(sale.amount)}</TableCell>
-                      <TableCell className="font-medium">{formatCurrency(sale.selling_price)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{formatCurrency(sale.selling_price)}</div>
+                        {sale.status === 'pending' && (
+                          <div className="text-sm text-gray-500">
+                            {sale.amount_paid ? `${formatCurrency(sale.amount_paid)} paid, ` : ''}
+                            {formatCurrency(sale.balance_due || 0)} due
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div>
                           <div className={`font-medium ${sale.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -645,6 +912,16 @@ export const SalesPage: React.FC = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
+                          {sale.status === 'pending' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPaymentsSale(sale)}
+                              title="Payments"
+                            >
+                              <Wallet className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -670,6 +947,13 @@ export const SalesPage: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      <SalePaymentsDialog
+        sale={paymentsSale}
+        accounts={accounts}
+        onClose={() => setPaymentsSale(null)}
+        onChange={loadData}
+      />
     </div>
   );
 };
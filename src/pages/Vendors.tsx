@@ -0,0 +1,613 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Truck,
+  Clock,
+  BarChart3,
+  Phone,
+  Mail
+} from 'lucide-react';
+import { vendorApi } from '../lib/api';
+import { PayablesAgingReport, Vendor, VendorForm, VendorSpend, VendorSpendEntry } from '../lib/types';
+import toast from 'react-hot-toast';
+
+type VendorsView = 'directory' | 'aging' | 'spend';
+
+const emptyForm: VendorForm = {
+  name: '',
+  contact: '',
+  email: '',
+  address: '',
+  tax_id: '',
+  payment_terms_days: null,
+  notes: ''
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+  }).format(amount);
+};
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+export const VendorsPage: React.FC = () => {
+  const [view, setView] = useState<VendorsView>('directory');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [formData, setFormData] = useState<VendorForm>(emptyForm);
+  const [aging, setAging] = useState<PayablesAgingReport | null>(null);
+  const [agingAsOf, setAgingAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [spend, setSpend] = useState<VendorSpend | null>(null);
+  const [spendRange, setSpendRange] = useState({ start_date: '', end_date: '' });
+  const [spendVendor, setSpendVendor] = useState<VendorSpendEntry | null>(null);
+
+  useEffect(() => {
+    loadVendors();
+  }, []);
+
+  useEffect(() => {
+    if (view === 'aging') {
+      loadAging();
+    }
+  }, [view, agingAsOf]);
+
+  useEffect(() => {
+    if (view === 'spend') {
+      loadSpend();
+    }
+  }, [view, spendRange]);
+
+  const loadVendors = async () => {
+    try {
+      setIsLoading(true);
+      const response = await vendorApi.getAll();
+      setVendors(response.data.data.vendors || []);
+    } catch (error) {
+      console.error('Error loading vendors:', error);
+      toast.error('Failed to load vendors');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAging = async () => {
+    try {
+      const response = await vendorApi.getAging({ as_of: agingAsOf || undefined });
+      setAging(response.data.data);
+    } catch (error) {
+      console.error('Error loading payables aging:', error);
+      toast.error('Failed to load the payables aging report');
+    }
+  };
+
+  const loadSpend = async () => {
+    try {
+      const response = await vendorApi.getSpend({
+        start_date: spendRange.start_date || undefined,
+        end_date: spendRange.end_date || undefined
+      });
+      setSpend(response.data.data);
+    } catch (error) {
+      console.error('Error loading vendor spend:', error);
+      toast.error('Failed to load vendor spend');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter the vendor name');
+      return;
+    }
+
+    try {
+      if (editingVendor) {
+        await vendorApi.update(editingVendor.id, formData);
+        toast.success('Vendor updated successfully');
+      } else {
+        await vendorApi.create(formData);
+        toast.success('Vendor added successfully');
+      }
+
+      setIsDialogOpen(false);
+      setEditingVendor(null);
+      setFormData(emptyForm);
+      loadVendors();
+    } catch (error: any) {
+      console.error('Error saving vendor:', error);
+      toast.error(error.response?.data?.message || 'Failed to save vendor');
+    }
+  };
+
+  const handleEdit = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    setFormData({
+      name: vendor.name,
+      contact: vendor.contact || '',
+      email: vendor.email || '',
+      address: vendor.address || '',
+      tax_id: vendor.tax_id || '',
+      payment_terms_days: vendor.payment_terms_days,
+      notes: vendor.notes || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!window.confirm(`Delete ${vendor.name}? Their purchases and expenses are kept without a vendor.`)) {
+      return;
+    }
+
+    try {
+      await vendorApi.delete(vendor.id);
+      toast.success('Vendor deleted successfully');
+      loadVendors();
+    } catch (error: any) {
+      console.error('Error deleting vendor:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete vendor');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'payment_terms_days' ? (value === '' ? null : Number(value)) : value
+    }));
+  };
+
+  const filteredVendors = vendors.filter(vendor => {
+    const term = searchTerm.toLowerCase();
+    return vendor.name.toLowerCase().includes(term) ||
+      vendor.contact?.toLowerCase().includes(term) ||
+      vendor.email?.toLowerCase().includes(term);
+  });
+
+  const totalOutstanding = vendors.reduce((sum, vendor) => sum + Number(vendor.outstanding_balance || 0), 0);
+  const openBillCount = vendors.reduce((sum, vendor) => sum + Number(vendor.open_bill_count || 0), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
+          <p className="text-gray-600">Suppliers you buy from, what you owe them and what you spend with them</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => { setEditingVendor(null); setFormData(emptyForm); }}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Vendor
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingVendor ? 'Edit Vendor' : 'Add New Vendor'}</DialogTitle>
+              <DialogDescription>
+                {editingVendor ? 'Update the vendor\'s details.' : 'Enter the details for the new vendor.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input id="name" name="name" value={formData.name} onChange={handleInputChange} maxLength={100} required />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="contact">Contact</Label>
+                  <Input id="contact" name="contact" value={formData.contact || ''} onChange={handleInputChange} maxLength={50} placeholder="Phone number" />
+                </div>
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input type="email" id="email" name="email" value={formData.email || ''} onChange={handleInputChange} maxLength={100} />
+                </div>
+                <div>
+                  <Label htmlFor="tax_id">Tax ID</Label>
+                  <Input id="tax_id" name="tax_id" value={formData.tax_id || ''} onChange={handleInputChange} maxLength={50} placeholder="e.g., NTN or STRN" />
+                </div>
+                <div>
+                  <Label htmlFor="payment_terms_days">Payment Terms (days)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="365"
+                    id="payment_terms_days"
+                    name="payment_terms_days"
+                    value={formData.payment_terms_days ?? ''}
+                    onChange={handleInputChange}
+                    placeholder="Due on receipt"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="address">Address</Label>
+                <Textarea id="address" name="address" value={formData.address || ''} onChange={handleInputChange} rows={2} />
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={2} />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingVendor ? 'Update' : 'Create'} Vendor
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Vendors</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{vendors.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Payables</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totalOutstanding)}</div>
+            <p className="text-xs text-muted-foreground">Unpaid on open bills</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Bills</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openBillCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as VendorsView)}>
+        <TabsList>
+          <TabsTrigger value="directory"><Truck className="w-4 h-4 mr-2" />Directory</TabsTrigger>
+          <TabsTrigger value="aging"><Clock className="w-4 h-4 mr-2" />Payables Aging</TabsTrigger>
+          <TabsTrigger value="spend"><BarChart3 className="w-4 h-4 mr-2" />Spend</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {view === 'directory' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Vendor Directory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="relative mb-4">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search vendors..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Terms</TableHead>
+                    <TableHead>Total Spend</TableHead>
+                    <TableHead>Outstanding</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredVendors.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <div className="flex flex-col items-center gap-2">
+                          <Truck className="h-8 w-8 text-gray-400" />
+                          <span className="text-gray-500">No vendors found</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredVendors.map((vendor) => (
+                      <TableRow key={vendor.id}>
+                        <TableCell>
+                          <div className="font-medium">{vendor.name}</div>
+                          {vendor.tax_id && <div className="text-sm text-gray-500">Tax ID: {vendor.tax_id}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {vendor.contact && (
+                            <div className="flex items-center gap-1 text-sm">
+                              <Phone className="h-3 w-3" />
+                              {vendor.contact}
+                            </div>
+                          )}
+                          {vendor.email && (
+                            <div className="flex items-center gap-1 text-sm text-gray-500">
+                              <Mail className="h-3 w-3" />
+                              {vendor.email}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {vendor.payment_terms_days ? `Net ${vendor.payment_terms_days}` : 'On receipt'}
+                        </TableCell>
+                        <TableCell>
+                          <div>{formatCurrency(Number(vendor.total_spend || 0))}</div>
+                          <div className="text-sm text-gray-500">
+                            {Number(vendor.purchase_count || 0) + Number(vendor.expense_count || 0)} purchases and expenses
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{formatCurrency(Number(vendor.outstanding_balance || 0))}</div>
+                          {Number(vendor.open_bill_count || 0) > 0 && (
+                            <div className="text-sm text-gray-500">{vendor.open_bill_count} open bills</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(vendor)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(vendor)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {view === 'aging' && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Payables Aging</CardTitle>
+              <CardDescription>Unpaid balances of open bills by days past their due date</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="aging_as_of">As of</Label>
+              <Input
+                type="date"
+                id="aging_as_of"
+                className="w-40"
+                value={agingAsOf}
+                onChange={(e) => setAgingAsOf(e.target.value)}
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!aging ? (
+              <div className="text-center py-8 text-gray-500">Loading...</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      {aging.buckets.map((bucket) => (
+                        <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {aging.vendors.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={aging.buckets.length + 2} className="text-center py-8 text-gray-500">
+                          Nothing is owed
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      aging.vendors.map((row) => (
+                        <TableRow key={row.vendor_id}>
+                          <TableCell>
+                            <div className="font-medium">{row.vendor_name}</div>
+                            <div className="text-sm text-gray-500">
+                              {row.bill_count} unpaid, next due {new Date(row.next_due_date).toLocaleDateString()}
+                            </div>
+                          </TableCell>
+                          {aging.buckets.map((bucket) => (
+                            <TableCell key={bucket.key} className="text-right">
+                              {row[bucket.key] ? formatCurrency(row[bucket.key]) : '-'}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-medium">{formatCurrency(row.total)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                    <TableRow className="bg-gray-50 font-semibold">
+                      <TableCell>Total</TableCell>
+                      {aging.buckets.map((bucket) => (
+                        <TableCell key={bucket.key} className="text-right">{formatCurrency(aging.totals[bucket.key])}</TableCell>
+                      ))}
+                      <TableCell className="text-right">{formatCurrency(aging.totals.total)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {view === 'spend' && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Vendor Spend</CardTitle>
+              <CardDescription>
+                Purchases, expenses and bills per vendor{spend && `, ${new Date(spend.period.start_date).toLocaleDateString()} to ${new Date(spend.period.end_date).toLocaleDateString()}`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="spend_start">From</Label>
+              <Input
+                type="date"
+                id="spend_start"
+                className="w-40"
+                value={spendRange.start_date}
+                onChange={(e) => setSpendRange(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+              <Label htmlFor="spend_end">To</Label>
+              <Input
+                type="date"
+                id="spend_end"
+                className="w-40"
+                value={spendRange.end_date}
+                onChange={(e) => setSpendRange(prev => ({ ...prev, end_date: e.target.value }))}
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!spend ? (
+              <div className="text-center py-8 text-gray-500">Loading...</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead className="text-right">Purchases</TableHead>
+                      <TableHead className="text-right">Expenses</TableHead>
+                      <TableHead className="text-right">Bills</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                      <TableHead className="text-right">Outstanding</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {spend.vendors.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                          No vendors yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      spend.vendors.map((row) => (
+                        <TableRow
+                          key={row.vendor_id}
+                          className={row.monthly.length > 0 ? 'cursor-pointer hover:bg-gray-50' : ''}
+                          onClick={() => row.monthly.length > 0 && setSpendVendor(row)}
+                        >
+                          <TableCell>
+                            <div className="font-medium">{row.vendor_name}</div>
+                            <div className="text-sm text-gray-500">{row.record_count} records</div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.purchases ? formatCurrency(row.purchases) : '-'}</TableCell>
+                          <TableCell className="text-right">{row.expenses ? formatCurrency(row.expenses) : '-'}</TableCell>
+                          <TableCell className="text-right">{row.bills ? formatCurrency(row.bills) : '-'}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(row.total)}</TableCell>
+                          <TableCell className="text-right">
+                            {spend.total > 0 ? `${((row.total / spend.total) * 100).toFixed(1)}%` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.outstanding_balance ? formatCurrency(row.outstanding_balance) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                    <TableRow className="bg-gray-50 font-semibold">
+                      <TableCell colSpan={4}>Total</TableCell>
+                      <TableCell className="text-right">{formatCurrency(spend.total)}</TableCell>
+                      <TableCell colSpan={2}></TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Monthly spend with one vendor */}
+      <Dialog open={spendVendor !== null} onOpenChange={(open) => !open && setSpendVendor(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Monthly Spend: {spendVendor?.vendor_name}</DialogTitle>
+            <DialogDescription>Purchases, expenses and bills by month</DialogDescription>
+          </DialogHeader>
+
+          {spendVendor && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Spend</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {spendVendor.monthly.map((entry) => (
+                    <TableRow key={entry.month}>
+                      <TableCell>{formatMonth(entry.month)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{formatCurrency(spendVendor.total)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VendorsPage;